@@ -27,6 +27,13 @@ import { neonSessionsRouter } from './routes/neon-sessions.js';
 import { authRouter } from './routes/auth.js';
 import { instructorRouter } from './routes/instructor.js';
 import { corpusRouter } from './routes/corpus.js';
+import { instructorProblemsRouter, problemsRouter } from './routes/problems.js';
+import { assignmentsRouter, instructorAssignmentsRouter } from './routes/assignments.js';
+import { gradebookRouter } from './routes/gradebook.js';
+import { llmUsageRouter } from './routes/llm-usage.js';
+import { instructorLtiRouter, ltiRouter } from './routes/lti.js';
+import { sectionStaffRouter } from './routes/section-staff.js';
+import { sectionRosterRouter } from './routes/section-roster.js';
 import {
   ENABLE_LLM,
   CORS_ORIGIN_PATTERNS,
@@ -36,7 +43,7 @@ import {
 } from './config.js';
 import { isUsingNeon } from './db/index.js';
 import { resolveDbEnv, resolveEnvironment, resolveDbTarget } from './db/env-resolver.js';
-import { optionalAuth, requireAuth, requireInstructor } from './middleware/auth.js';
+import { optionalAuth, requireAuth, requireResearchAccess } from './middleware/auth.js';
 import { requireCsrf } from './middleware/csrf.js';
 import { generalApiLimiter, researchRateLimiter } from './middleware/rate-limit.js';
 
@@ -111,6 +118,12 @@ function originGuard(req: Request, res: Response, next: NextFunction): void {
     return;
   }
 
+  // LTI login/launch are cross-site form posts from the LMS; they carry signed tokens instead of cookies
+  if (req.path.startsWith('/api/lti/')) {
+    next();
+    return;
+  }
+
   const origin = req.get('origin');
   if (!origin) {
     next();
@@ -272,6 +285,8 @@ if (usingNeon) {
   app.use('/api/interactions', generalApiLimiter, requireAuth, requireCsrf, neonInteractionsRouter);
   app.use('/api/textbooks', generalApiLimiter, requireAuth, requireCsrf, neonTextbooksRouter);
   app.use('/api/sessions', generalApiLimiter, requireAuth, requireCsrf, neonSessionsRouter);
+  app.use('/api/problems', generalApiLimiter, requireAuth, problemsRouter);
+  app.use('/api/assignments', generalApiLimiter, requireAuth, assignmentsRouter);
 } else {
   console.log('💾 Using SQLite routes (local/dev fallback only)');
   console.log('⚠️  Research exports and multi-learner features require DATABASE_URL');
@@ -279,13 +294,25 @@ if (usingNeon) {
   app.use('/api/interactions', generalApiLimiter, interactionsRouter);
   app.use('/api/textbooks', generalApiLimiter, textbooksRouter);
   app.use('/api/sessions', generalApiLimiter, sessionsRouter);
+  app.use('/api/problems', generalApiLimiter, problemsRouter);
 }
 
 // Auth routes - rate limiting applied per-endpoint in auth router
 app.use('/api/auth', authRouter);
 
+// LTI 1.3 tool endpoints - called by the LMS, authenticated by platform-signed tokens
+app.use('/api/lti', generalApiLimiter, ltiRouter);
+
 // Research endpoints use stricter rate limits due to expensive aggregation queries
-app.use('/api/research', researchRateLimiter, requireAuth, requireInstructor, researchRouter);
+app.use('/api/research', researchRateLimiter, requireAuth, requireResearchAccess, researchRouter);
+// Problem authoring, assignments, gradebook, LLM usage, LTI grade sync, section staff and rosters are mounted ahead of the instructor router so they get the general limits
+app.use('/api/instructor/problems', generalApiLimiter, requireAuth, requireCsrf, instructorProblemsRouter);
+app.use('/api/instructor/assignments', generalApiLimiter, requireAuth, requireCsrf, instructorAssignmentsRouter);
+app.use('/api/instructor/gradebook', generalApiLimiter, requireAuth, requireCsrf, gradebookRouter);
+app.use('/api/instructor/llm-usage', generalApiLimiter, requireAuth, requireCsrf, llmUsageRouter);
+app.use('/api/instructor/lti', generalApiLimiter, requireAuth, requireCsrf, instructorLtiRouter);
+app.use('/api/instructor/sections', generalApiLimiter, requireAuth, requireCsrf, sectionStaffRouter);
+app.use('/api/instructor/sections', generalApiLimiter, requireAuth, requireCsrf, sectionRosterRouter);
 // Instructor export endpoints also use research rate limits
 app.use('/api/instructor', researchRateLimiter, requireAuth, instructorRouter);
 app.use('/api/corpus', generalApiLimiter, corpusRouter);
@@ -5,6 +5,7 @@
 
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { LLMProviderFactoryConfig, LLMProviderType } from './llm/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -25,18 +26,32 @@ export const ENABLE_PDF_INDEX = process.env.ENABLE_PDF_INDEX === 'true';
 export const ENABLE_LLM = process.env.ENABLE_LLM === 'true';
 
 /**
- * LLM Provider selection: 'ollama' or 'groq'
+ * LLM Provider selection: 'ollama', 'groq', 'openai-compatible' or 'mock'
+ * ('vllm' and 'llamacpp' are accepted as names for 'openai-compatible').
  * Defaults to Groq when GROQ_API_KEY is present, otherwise Ollama for local development
  */
-function resolveLLMProvider(): 'ollama' | 'groq' {
-  if (process.env.LLM_PROVIDER === 'ollama' || process.env.LLM_PROVIDER === 'groq') {
-    return process.env.LLM_PROVIDER;
+function resolveLLMProvider(): LLMProviderType {
+  switch (process.env.LLM_PROVIDER) {
+    case 'ollama':
+    case 'groq':
+    case 'openai-compatible':
+    case 'mock':
+      return process.env.LLM_PROVIDER;
+    case 'vllm':
+    case 'llamacpp':
+      return 'openai-compatible';
+    default:
+      return process.env.GROQ_API_KEY ? 'groq' : 'ollama';
   }
-  return process.env.GROQ_API_KEY ? 'groq' : 'ollama';
 }
 
 export const LLM_PROVIDER = resolveLLMProvider();
 
+/**
+ * Upstream request timeout: hosted Groq answers quickly, self-hosted models may not
+ */
+export const LLM_TIMEOUT_MS = LLM_PROVIDER === 'groq' ? 30000 : 60000;
+
 /**
  * Ollama base URL for LLM proxy
  * Defaults to localhost:11434 for local development
@@ -52,6 +67,99 @@ export const OLLAMA_FALLBACK_MODEL = process.env.OLLAMA_FALLBACK_MODEL || 'llama
 export const GROQ_API_KEY = process.env.GROQ_API_KEY || '';
 export const GROQ_MODEL = process.env.GROQ_MODEL || 'openai/gpt-oss-20b';
 
+/**
+ * OpenAI-compatible server (vLLM, llama.cpp server) used when LLM_PROVIDER=openai-compatible.
+ * OPENAI_COMPAT_BASE_URL includes the version prefix (e.g. http://gpu-01:8000/v1).
+ * OPENAI_COMPAT_MODELS (comma-separated) replaces the server's own /models list;
+ * OPENAI_COMPAT_HEADERS is a JSON object of extra request headers.
+ */
+export const OPENAI_COMPAT_BASE_URL = process.env.OPENAI_COMPAT_BASE_URL || 'http://127.0.0.1:8000/v1';
+export const OPENAI_COMPAT_API_KEY = process.env.OPENAI_COMPAT_API_KEY || '';
+export const OPENAI_COMPAT_MODEL = process.env.OPENAI_COMPAT_MODEL || 'default';
+export const OPENAI_COMPAT_MODELS: string[] = (process.env.OPENAI_COMPAT_MODELS || '')
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+
+function parseHeaderMap(raw: string | undefined): Record<string, string> {
+  if (!raw?.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  } catch (error) {
+    console.error('[config] OPENAI_COMPAT_HEADERS is not valid JSON:', (error as Error).message);
+    return {};
+  }
+}
+
+export const OPENAI_COMPAT_HEADERS = parseHeaderMap(process.env.OPENAI_COMPAT_HEADERS);
+
+/**
+ * Model name reported by the mock provider (LLM_PROVIDER=mock)
+ */
+export const MOCK_LLM_MODEL = process.env.MOCK_LLM_MODEL || 'mock-tutor';
+
+/**
+ * Server-side response cache: identical prompts (after whitespace
+ * normalization) for the same template and model are answered without a
+ * provider call. LLM_CACHE_MAX_ENTRIES=0 disables the cache.
+ */
+export const LLM_CACHE_TTL_MS = parseInt(process.env.LLM_CACHE_TTL_MS || String(24 * 60 * 60 * 1000), 10);
+export const LLM_CACHE_MAX_ENTRIES = parseInt(process.env.LLM_CACHE_MAX_ENTRIES || '1000', 10);
+
+/**
+ * Daily token budgets (input + output tokens, reset at midnight UTC) for
+ * student generations. Over budget, /api/llm/generate answers 429 and the
+ * client falls back to its deterministic templates. 0 disables a budget.
+ * Section budgets need Neon; on SQLite the learner budget applies per
+ * anonymous caller IP.
+ */
+export const LLM_LEARNER_DAILY_TOKEN_BUDGET = parseInt(process.env.LLM_LEARNER_DAILY_TOKEN_BUDGET || '20000', 10);
+export const LLM_SECTION_DAILY_TOKEN_BUDGET = parseInt(process.env.LLM_SECTION_DAILY_TOKEN_BUDGET || '500000', 10);
+
+/**
+ * Factory config for the provider selected by LLM_PROVIDER
+ */
+export function getLLMProviderConfig(): LLMProviderFactoryConfig {
+  switch (LLM_PROVIDER) {
+    case 'groq':
+      return {
+        type: 'groq',
+        groqConfig: {
+          apiKey: GROQ_API_KEY,
+          defaultModel: GROQ_MODEL,
+          timeoutMs: LLM_TIMEOUT_MS,
+        },
+      };
+    case 'openai-compatible':
+      return {
+        type: 'openai-compatible',
+        openaiCompatibleConfig: {
+          baseUrl: OPENAI_COMPAT_BASE_URL,
+          defaultModel: OPENAI_COMPAT_MODEL,
+          apiKey: OPENAI_COMPAT_API_KEY || undefined,
+          headers: OPENAI_COMPAT_HEADERS,
+          models: OPENAI_COMPAT_MODELS,
+          timeoutMs: LLM_TIMEOUT_MS,
+        },
+      };
+    case 'mock':
+      return { type: 'mock', mockConfig: { defaultModel: MOCK_LLM_MODEL } };
+    default:
+      return {
+        type: 'ollama',
+        ollamaConfig: {
+          baseUrl: OLLAMA_BASE_URL,
+          defaultModel: OLLAMA_DEFAULT_MODEL,
+          fallbackModel: OLLAMA_FALLBACK_MODEL,
+          timeoutMs: LLM_TIMEOUT_MS,
+        },
+      };
+  }
+}
+
 // ============================================================================
 // PDF Index Configuration
 // ============================================================================
@@ -162,6 +270,19 @@ export const JWT_SECRET: string = (() => {
   return secret;
 })();
 
+/**
+ * Lifetime of the access token (JWT in the auth cookie). Kept short because
+ * access tokens are not checked against the sessions table; revoking a
+ * session takes effect once the current access token expires.
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10);
+
+/**
+ * Lifetime of a refresh token. Each refresh rotates the token and restarts
+ * this window, so an idle session ends after this many days.
+ */
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
 /**
  * Code required for instructor signup.
  * Set INSTRUCTOR_SIGNUP_CODE on the backend to protect instructor registration.
@@ -169,6 +290,48 @@ export const JWT_SECRET: string = (() => {
 export const INSTRUCTOR_SIGNUP_CODE: string =
   process.env.INSTRUCTOR_SIGNUP_CODE || (process.env.NODE_ENV !== 'production' ? 'TeachSQL2024' : '');
 
+/**
+ * Code required for teaching-assistant signup.
+ * Set TA_SIGNUP_CODE on the backend to gate TA registration.
+ */
+export const TA_SIGNUP_CODE: string =
+  process.env.TA_SIGNUP_CODE || (process.env.NODE_ENV !== 'production' ? 'AssistSQL2024' : '');
+
+/**
+ * Code required for researcher signup.
+ * Set RESEARCHER_SIGNUP_CODE on the backend to gate researcher registration.
+ */
+export const RESEARCHER_SIGNUP_CODE: string =
+  process.env.RESEARCHER_SIGNUP_CODE || (process.env.NODE_ENV !== 'production' ? 'ResearchSQL2024' : '');
+
+/**
+ * Version of the research consent form shown at signup. Bump it when the IRB
+ * protocol changes so exports can tell which form each learner agreed to.
+ */
+export const RESEARCH_CONSENT_VERSION: string = process.env.RESEARCH_CONSENT_VERSION || 'irb-consent-v1';
+
+/**
+ * Study identifier mixed into research pseudonyms. Changing it produces a new,
+ * unlinkable set of pseudonyms, so keep it fixed for the life of a study.
+ */
+export const RESEARCH_STUDY_ID: string = process.env.RESEARCH_STUDY_ID || 'sql-adapt';
+
+/**
+ * HMAC key for pseudonymized research exports. Unset in production disables
+ * pseudonymized exports rather than falling back to a guessable key.
+ */
+export const RESEARCH_PSEUDONYM_KEY: string =
+  process.env.RESEARCH_PSEUDONYM_KEY || (process.env.NODE_ENV !== 'production' ? 'dev-only-research-pseudonym-key' : '');
+
+/**
+ * InteractionEvent fields always dropped from pseudonymized exports
+ * (comma-separated, e.g. "code,chatMessage").
+ */
+export const RESEARCH_EXPORT_DROP_COLUMNS: string[] = (process.env.RESEARCH_EXPORT_DROP_COLUMNS || '')
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+
 /**
  * Code required for student signup.
  * Set STUDENT_SIGNUP_CODE on the backend to gate student account creation.
@@ -224,6 +387,109 @@ export const CORS_ORIGIN_PATTERNS = Array.from(
 );
 export const NODE_ENV = process.env.NODE_ENV || 'development';
 
+// ============================================================================
+// LTI 1.3 Configuration
+// ============================================================================
+
+/**
+ * An LMS registered with this tool. LTI_PLATFORMS holds a JSON array of these,
+ * copied from the LMS's developer key / external tool registration.
+ */
+export interface LtiPlatformConfig {
+  issuer: string;
+  clientId: string;
+  /** Deployment ids accepted from this platform; empty accepts any */
+  deploymentIds: string[];
+  authLoginUrl: string;
+  authTokenUrl: string;
+  jwksUrl: string;
+  /**
+   * Trust this platform's Instructor/Administrator/ContentDeveloper role
+   * claims to sign users in as instructors. Off by default: instructor
+   * accounts otherwise need INSTRUCTOR_SIGNUP_CODE, and enabling this hands
+   * that access to anyone the LMS lets teach or build a course.
+   */
+  allowInstructors: boolean;
+}
+
+function parseLtiPlatforms(raw: string | undefined): LtiPlatformConfig[] {
+  if (!raw?.trim()) return [];
+  try {
+    const parsed = JSON.parse(raw) as Array<Partial<LtiPlatformConfig>>;
+    return parsed
+      .filter((platform) =>
+        platform.issuer && platform.clientId && platform.authLoginUrl && platform.authTokenUrl && platform.jwksUrl
+      )
+      .map((platform) => ({
+        issuer: normalizeOriginValue(platform.issuer!),
+        clientId: platform.clientId!,
+        deploymentIds: platform.deploymentIds ?? [],
+        authLoginUrl: platform.authLoginUrl!,
+        authTokenUrl: platform.authTokenUrl!,
+        jwksUrl: platform.jwksUrl!,
+        allowInstructors: platform.allowInstructors === true,
+      }));
+  } catch (error) {
+    console.error('[config] LTI_PLATFORMS is not valid JSON:', (error as Error).message);
+    return [];
+  }
+}
+
+export const LTI_PLATFORMS = parseLtiPlatforms(process.env.LTI_PLATFORMS);
+
+/**
+ * Public base URL of this API, used for the launch redirect URI and deep link targets
+ */
+export const LTI_TOOL_URL = normalizeOriginValue(process.env.LTI_TOOL_URL || `http://localhost:${PORT}`);
+
+/**
+ * Where learners land after a launch. Defaults to the frontend origin.
+ */
+export const LTI_WEB_APP_URL = normalizeOriginValue(process.env.LTI_WEB_APP_URL || CORS_ORIGIN);
+
+/**
+ * Tool RSA private key (PEM; literal \n sequences are accepted). Required in
+ * production; local development falls back to an ephemeral key per process.
+ */
+export const LTI_PRIVATE_KEY = (process.env.LTI_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+export const LTI_KEY_ID = process.env.LTI_KEY_ID || 'sql-adapt-lti-1';
+
+// ============================================================================
+// Email Configuration
+// ============================================================================
+
+export type EmailTransportType = 'smtp' | 'file' | 'console';
+
+/**
+ * Email transport for password reset and verification messages. Defaults to
+ * SMTP when SMTP_HOST is set, otherwise to the console transport.
+ */
+function resolveEmailTransport(): EmailTransportType {
+  const value = process.env.EMAIL_TRANSPORT?.toLowerCase();
+  if (value === 'smtp' || value === 'file' || value === 'console') return value;
+  return process.env.SMTP_HOST ? 'smtp' : 'console';
+}
+
+export const EMAIL_TRANSPORT = resolveEmailTransport();
+export const EMAIL_FROM = process.env.EMAIL_FROM || 'SQL-Adapt <no-reply@sql-adapt.local>';
+
+export const SMTP_HOST = process.env.SMTP_HOST || '';
+/** SMTP_SECURE=true uses implicit TLS (port 465); otherwise STARTTLS is used when offered */
+export const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+export const SMTP_PORT = parseInt(process.env.SMTP_PORT || (SMTP_SECURE ? '465' : '587'), 10);
+export const SMTP_USER = process.env.SMTP_USER || '';
+export const SMTP_PASSWORD = process.env.SMTP_PASSWORD || '';
+
+/**
+ * Directory the file transport writes messages to (one .eml file per message)
+ */
+export const EMAIL_OUTBOX_DIR = process.env.EMAIL_OUTBOX_DIR || path.resolve(__dirname, '../.email-outbox');
+
+/**
+ * Frontend origin used in password reset and verification links
+ */
+export const WEB_APP_URL = normalizeOriginValue(process.env.WEB_APP_URL || CORS_ORIGIN);
+
 // ============================================================================
 // Feature Status Helper
 // ============================================================================
@@ -269,24 +535,7 @@ export async function getFeatureStatus(): Promise<FeatureStatus> {
     try {
       // Dynamically import to avoid circular dependencies
       const { createLLMProvider } = await import('./llm/index.js');
-      const provider = createLLMProvider(
-        LLM_PROVIDER === 'groq'
-          ? {
-              type: 'groq',
-              groqConfig: {
-                apiKey: GROQ_API_KEY,
-                defaultModel: GROQ_MODEL,
-              },
-            }
-          : {
-              type: 'ollama',
-              ollamaConfig: {
-                baseUrl: OLLAMA_BASE_URL,
-                defaultModel: OLLAMA_DEFAULT_MODEL,
-                fallbackModel: OLLAMA_FALLBACK_MODEL,
-              },
-            }
-      );
+      const provider = createLLMProvider(getLLMProviderConfig());
       const health = await provider.health();
       status.llm.available = health.ok;
       status.llm.message = health.message;
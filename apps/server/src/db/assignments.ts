@@ -0,0 +1,277 @@
+import crypto from 'node:crypto';
+import { getDb } from './neon.js';
+
+export interface Assignment {
+  id: string;
+  sectionId: string;
+  createdByUserId: string;
+  title: string;
+  description: string;
+  problemIds: string[];
+  opensAt: string;
+  dueAt: string;
+  /** Runs allowed per problem; null means unlimited */
+  maxAttempts: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AssignmentInput {
+  title: string;
+  description?: string;
+  problemIds: string[];
+  opensAt: string;
+  dueAt: string;
+  maxAttempts?: number | null;
+}
+
+/**
+ * Per learner, per problem activity on an assignment, aggregated from
+ * execution/error interaction events since the assignment opened.
+ */
+export interface AssignmentProblemActivity {
+  learnerId: string;
+  problemId: string;
+  attempts: number;
+  lateAttempts: number;
+  firstSolvedAt: string | null;
+  lastAttemptAt: string | null;
+  /** Longest time_spent reported for the problem (time_spent is cumulative per visit) */
+  timeOnTaskMs: number;
+}
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function mapAssignment(row: Record<string, unknown>): Assignment {
+  let problemIds: string[] = [];
+  try {
+    problemIds = JSON.parse(String(row.problem_ids));
+  } catch {
+    problemIds = [];
+  }
+  return {
+    id: String(row.id),
+    sectionId: String(row.section_id),
+    createdByUserId: String(row.created_by_user_id),
+    title: String(row.title),
+    description: String(row.description ?? ''),
+    problemIds,
+    opensAt: toIso(row.opens_at),
+    dueAt: toIso(row.due_at),
+    maxAttempts: row.max_attempts === null || row.max_attempts === undefined ? null : Number(row.max_attempts),
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export async function createAssignment(params: AssignmentInput & {
+  sectionId: string;
+  createdByUserId: string;
+}): Promise<Assignment> {
+  const db = getDb();
+  const rows = await db`
+    INSERT INTO assignments (
+      id, section_id, created_by_user_id, title, description, problem_ids,
+      opens_at, due_at, max_attempts
+    )
+    VALUES (
+      ${crypto.randomUUID()}, ${params.sectionId}, ${params.createdByUserId},
+      ${params.title}, ${params.description ?? ''}, ${JSON.stringify(params.problemIds)},
+      ${params.opensAt}, ${params.dueAt}, ${params.maxAttempts ?? null}
+    )
+    RETURNING *
+  `;
+  return mapAssignment(rows[0] as Record<string, unknown>);
+}
+
+export async function getAssignmentById(id: string): Promise<Assignment | null> {
+  const db = getDb();
+  const rows = await db`SELECT * FROM assignments WHERE id = ${id} LIMIT 1`;
+  if (rows.length === 0) {
+    return null;
+  }
+  return mapAssignment(rows[0] as Record<string, unknown>);
+}
+
+export async function getAssignmentsBySections(sectionIds: string[]): Promise<Assignment[]> {
+  if (sectionIds.length === 0) {
+    return [];
+  }
+  const db = getDb();
+  const rows = await db`
+    SELECT *
+    FROM assignments
+    WHERE section_id = ANY(${sectionIds})
+    ORDER BY due_at ASC, created_at ASC
+  `;
+  return rows.map((row) => mapAssignment(row as Record<string, unknown>));
+}
+
+/**
+ * Assignments a student can see: released ones in their section.
+ */
+export async function getOpenAssignmentsForSection(
+  sectionId: string,
+  now: Date = new Date()
+): Promise<Assignment[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT *
+    FROM assignments
+    WHERE section_id = ${sectionId}
+      AND opens_at <= ${now.toISOString()}
+    ORDER BY due_at ASC, created_at ASC
+  `;
+  return rows.map((row) => mapAssignment(row as Record<string, unknown>));
+}
+
+export async function updateAssignment(
+  id: string,
+  updates: Partial<AssignmentInput>
+): Promise<Assignment | null> {
+  const existing = await getAssignmentById(id);
+  if (!existing) {
+    return null;
+  }
+  const merged = { ...existing, ...updates };
+
+  const db = getDb();
+  const rows = await db`
+    UPDATE assignments SET
+      title = ${merged.title},
+      description = ${merged.description ?? ''},
+      problem_ids = ${JSON.stringify(merged.problemIds)},
+      opens_at = ${merged.opensAt},
+      due_at = ${merged.dueAt},
+      max_attempts = ${merged.maxAttempts ?? null},
+      updated_at = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  `;
+  return rows.length > 0 ? mapAssignment(rows[0] as Record<string, unknown>) : null;
+}
+
+export async function deleteAssignment(id: string): Promise<boolean> {
+  const db = getDb();
+  const rows = await db`DELETE FROM assignments WHERE id = ${id} RETURNING id`;
+  return rows.length > 0;
+}
+
+/**
+ * Aggregate attempts, solves, late runs and time-on-task for an assignment's
+ * problems. Only runs after the assignment opened count, so earlier free
+ * practice on the same problem does not use up attempts.
+ */
+export async function getAssignmentActivity(
+  assignment: Assignment,
+  learnerIds: string[]
+): Promise<AssignmentProblemActivity[]> {
+  if (learnerIds.length === 0 || assignment.problemIds.length === 0) {
+    return [];
+  }
+  const db = getDb();
+  const rows = await db`
+    SELECT
+      user_id,
+      problem_id,
+      COUNT(*) AS attempts,
+      COUNT(*) FILTER (WHERE timestamp > ${assignment.dueAt}) AS late_attempts,
+      MIN(timestamp) FILTER (WHERE event_type = 'execution' AND successful = TRUE) AS first_solved_at,
+      MAX(timestamp) AS last_attempt_at,
+      COALESCE(MAX(time_spent), 0) AS time_on_task_ms
+    FROM interaction_events
+    WHERE user_id = ANY(${learnerIds})
+      AND problem_id = ANY(${assignment.problemIds})
+      AND event_type IN ('execution', 'error')
+      AND timestamp >= ${assignment.opensAt}
+    GROUP BY user_id, problem_id
+  `;
+  return rows.map((row) => {
+    const record = row as Record<string, unknown>;
+    return {
+      learnerId: String(record.user_id),
+      problemId: String(record.problem_id),
+      attempts: Number(record.attempts),
+      lateAttempts: Number(record.late_attempts),
+      firstSolvedAt: record.first_solved_at ? toIso(record.first_solved_at) : null,
+      lastAttemptAt: record.last_attempt_at ? toIso(record.last_attempt_at) : null,
+      timeOnTaskMs: Number(record.time_on_task_ms),
+    };
+  });
+}
+
+/**
+ * The attempt-limited assignment a run was made for, when it is open (between
+ * opens_at and due_at) and the learner has already used up their runs for
+ * this problem, or null when another run is allowed. Only runs tagged with
+ * the assignment count, so free practice on the same problem and runs after
+ * the due date are never blocked.
+ */
+export async function getExhaustedAssignment(params: {
+  sectionId: string;
+  learnerId: string;
+  problemId: string;
+  assignmentId: string;
+  now?: Date;
+}): Promise<Assignment | null> {
+  const db = getDb();
+  const now = (params.now ?? new Date()).toISOString();
+  const rows = await db`
+    SELECT a.*
+    FROM assignments a
+    WHERE a.id = ${params.assignmentId}
+      AND a.section_id = ${params.sectionId}
+      AND a.opens_at <= ${now}
+      AND a.due_at > ${now}
+      AND a.max_attempts IS NOT NULL
+      AND a.problem_ids::jsonb @> ${JSON.stringify([params.problemId])}::jsonb
+      AND (
+        SELECT COUNT(*)
+        FROM interaction_events e
+        WHERE e.user_id = ${params.learnerId}
+          AND e.problem_id = ${params.problemId}
+          AND e.problem_set_id = a.id
+          AND e.event_type IN ('execution', 'error')
+          AND e.timestamp >= a.opens_at
+          AND e.timestamp <= a.due_at
+      ) >= a.max_attempts
+    LIMIT 1
+  `;
+  return rows.length > 0 ? mapAssignment(rows[0] as Record<string, unknown>) : null;
+}
+
+export async function getSectionStudentIds(sectionId: string): Promise<string[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT student_user_id
+    FROM section_enrollments
+    WHERE section_id = ${sectionId}
+    ORDER BY joined_at ASC
+  `;
+  return rows.map((row) => String((row as Record<string, unknown>).student_user_id));
+}
+
+/**
+ * Students enrolled in a section with their display names, in join order.
+ */
+export async function getSectionStudents(
+  sectionId: string
+): Promise<Array<{ learnerId: string; name: string | null }>> {
+  const db = getDb();
+  const rows = await db`
+    SELECT e.student_user_id, u.name
+    FROM section_enrollments e
+    LEFT JOIN users u ON u.id = e.student_user_id
+    WHERE e.section_id = ${sectionId}
+    ORDER BY e.joined_at ASC
+  `;
+  return rows.map((row) => {
+    const record = row as Record<string, unknown>;
+    return {
+      learnerId: String(record.student_user_id),
+      name: record.name ? String(record.name) : null,
+    };
+  });
+}
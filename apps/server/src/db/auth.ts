@@ -6,10 +6,23 @@
  *
  * Flow: signup → create users record (learnerId) + create auth_accounts record
  *       login  → look up auth_accounts by email, verify password, return learnerId
+ *
+ * auth_tokens holds single-use password reset, email verification and account
+ * activation tokens. Only a SHA-256 hash of each token is stored; the raw
+ * token goes out by email.
+ *
+ * auth_sessions backs refresh tokens: one row per signed-in device, with the
+ * hash of its current refresh token. Refreshing rotates the token; presenting
+ * a superseded token revokes the session (the token was likely stolen).
+ *
+ * Roster imports pre-create student accounts with pending_activation set and
+ * an unusable password; the student sets a password through the activation link.
  */
 
+import { createHash, randomBytes } from 'crypto';
 import type { NeonQueryFunction } from '@neondatabase/serverless';
 import { v4 as uuidv4 } from 'uuid';
+import type { UserRole } from '../types.js';
 
 // ============================================================================
 // Types
@@ -19,9 +32,14 @@ export interface AuthAccount {
   id: string;
   email: string;
   passwordHash: string;
-  role: 'student' | 'instructor';
+  role: UserRole;
   learnerId: string;
   name: string;
+  emailVerifiedAt: string | null;
+  /** Created by a roster import and not yet claimed by the student */
+  pendingActivation: boolean;
+  /** Institution student ID from a roster import */
+  externalStudentId: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -29,12 +47,46 @@ export interface AuthAccount {
 export interface AuthAccountPublic {
   id: string;
   email: string;
-  role: 'student' | 'instructor';
+  role: UserRole;
   learnerId: string;
   name: string;
+  emailVerified: boolean;
+  createdAt: string;
+}
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification' | 'account_activation';
+
+export type AuthSessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'user_revoked'
+  | 'staff_revoked'
+  | 'password_changed'
+  | 'refresh_token_reuse';
+
+export interface AuthSession {
+  id: string;
+  accountId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
   createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  revokedReason: AuthSessionRevokeReason | null;
 }
 
+export type RotateAuthSessionResult =
+  | { status: 'rotated'; session: AuthSession; refreshToken: string }
+  /** The previous token, presented again within the grace window (parallel tabs) */
+  | { status: 'superseded' }
+  /** The previous token, presented after the grace window; the session is now revoked */
+  | { status: 'reused'; session: AuthSession }
+  | { status: 'invalid' };
+
+/** How long a just-rotated refresh token is still tolerated without revoking the session */
+const REFRESH_REUSE_GRACE_SECONDS = 30;
+
 // ============================================================================
 // Schema
 // ============================================================================
@@ -45,7 +97,7 @@ export async function initAuthSchema(db: NeonQueryFunction<false, false>): Promi
       id TEXT PRIMARY KEY,
       email TEXT NOT NULL UNIQUE,
       password_hash TEXT NOT NULL,
-      role TEXT NOT NULL CHECK (role IN ('student', 'instructor')),
+      role TEXT NOT NULL CHECK (role IN ('student', 'instructor', 'ta', 'researcher')),
       learner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       name TEXT NOT NULL,
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -55,6 +107,59 @@ export async function initAuthSchema(db: NeonQueryFunction<false, false>): Promi
 
   await db`CREATE INDEX IF NOT EXISTS idx_auth_accounts_email ON auth_accounts(email)`;
   await db`CREATE INDEX IF NOT EXISTS idx_auth_accounts_learner_id ON auth_accounts(learner_id)`;
+  await db`ALTER TABLE auth_accounts ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ`;
+  await db`ALTER TABLE auth_accounts ADD COLUMN IF NOT EXISTS pending_activation BOOLEAN NOT NULL DEFAULT FALSE`;
+  await db`ALTER TABLE auth_accounts ADD COLUMN IF NOT EXISTS external_student_id TEXT`;
+
+  await db`
+    CREATE TABLE IF NOT EXISTS auth_tokens (
+      id TEXT PRIMARY KEY,
+      account_id TEXT NOT NULL REFERENCES auth_accounts(id) ON DELETE CASCADE,
+      purpose TEXT NOT NULL CHECK (purpose IN ('password_reset', 'email_verification', 'account_activation')),
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at TIMESTAMPTZ NOT NULL,
+      used_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_auth_tokens_account ON auth_tokens(account_id, purpose)`;
+
+  await db`
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+      id TEXT PRIMARY KEY,
+      account_id TEXT NOT NULL REFERENCES auth_accounts(id) ON DELETE CASCADE,
+      refresh_token_hash TEXT NOT NULL UNIQUE,
+      previous_token_hash TEXT,
+      rotated_at TIMESTAMPTZ,
+      user_agent TEXT,
+      ip_address TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMPTZ NOT NULL,
+      revoked_at TIMESTAMPTZ,
+      revoked_reason TEXT
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_auth_sessions_account ON auth_sessions(account_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_auth_sessions_previous_token ON auth_sessions(previous_token_hash)`;
+
+  // Tables created before account activation only allow the first two purposes
+  await db.query(`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'auth_tokens_purpose_check'
+          AND pg_get_constraintdef(oid) LIKE '%''account_activation''%'
+      ) THEN
+        ALTER TABLE auth_tokens DROP CONSTRAINT IF EXISTS auth_tokens_purpose_check;
+        ALTER TABLE auth_tokens ADD CONSTRAINT auth_tokens_purpose_check
+          CHECK (purpose IN ('password_reset', 'email_verification', 'account_activation'));
+      END IF;
+    END $$;
+  `);
 }
 
 // ============================================================================
@@ -66,15 +171,22 @@ export async function createAuthAccount(
   params: {
     email: string;
     passwordHash: string;
-    role: 'student' | 'instructor';
+    role: UserRole;
     learnerId: string;
     name: string;
+    pendingActivation?: boolean;
+    externalStudentId?: string | null;
   }
 ): Promise<AuthAccount> {
   const id = uuidv4();
   const rows = await db`
-    INSERT INTO auth_accounts (id, email, password_hash, role, learner_id, name)
-    VALUES (${id}, ${params.email.toLowerCase().trim()}, ${params.passwordHash}, ${params.role}, ${params.learnerId}, ${params.name})
+    INSERT INTO auth_accounts (
+      id, email, password_hash, role, learner_id, name, pending_activation, external_student_id
+    )
+    VALUES (
+      ${id}, ${params.email.toLowerCase().trim()}, ${params.passwordHash}, ${params.role}, ${params.learnerId},
+      ${params.name}, ${params.pendingActivation ?? false}, ${params.externalStudentId ?? null}
+    )
     RETURNING *
   `;
   return rowToAuthAccount(rows[0]);
@@ -98,6 +210,24 @@ export async function getAuthAccountById(
   return rows.length > 0 ? rowToAuthAccount(rows[0]) : null;
 }
 
+export async function getAuthAccountsByEmails(
+  db: NeonQueryFunction<false, false>,
+  emails: string[]
+): Promise<AuthAccount[]> {
+  if (emails.length === 0) return [];
+  const normalized = emails.map((email) => email.toLowerCase().trim());
+  const rows = await db`SELECT * FROM auth_accounts WHERE email = ANY(${normalized})`;
+  return rows.map(rowToAuthAccount);
+}
+
+export async function getAuthAccountByLearnerId(
+  db: NeonQueryFunction<false, false>,
+  learnerId: string
+): Promise<AuthAccount | null> {
+  const rows = await db`SELECT * FROM auth_accounts WHERE learner_id = ${learnerId} LIMIT 1`;
+  return rows.length > 0 ? rowToAuthAccount(rows[0]) : null;
+}
+
 export function toPublicAccount(account: AuthAccount): AuthAccountPublic {
   return {
     id: account.id,
@@ -105,22 +235,271 @@ export function toPublicAccount(account: AuthAccount): AuthAccountPublic {
     role: account.role,
     learnerId: account.learnerId,
     name: account.name,
+    emailVerified: account.emailVerifiedAt !== null,
     createdAt: account.createdAt,
   };
 }
 
+export async function updateAuthAccountPassword(
+  db: NeonQueryFunction<false, false>,
+  accountId: string,
+  passwordHash: string
+): Promise<void> {
+  // Setting a password (activation or reset) claims a roster-imported account
+  await db`
+    UPDATE auth_accounts SET password_hash = ${passwordHash}, pending_activation = FALSE, updated_at = NOW()
+    WHERE id = ${accountId}
+  `;
+  // A new password makes any outstanding reset or activation link useless
+  await db`
+    DELETE FROM auth_tokens
+    WHERE account_id = ${accountId}
+      AND purpose IN ('password_reset', 'account_activation')
+      AND used_at IS NULL
+  `;
+}
+
+export async function updateAuthAccountRole(
+  db: NeonQueryFunction<false, false>,
+  accountId: string,
+  role: UserRole
+): Promise<void> {
+  await db`UPDATE auth_accounts SET role = ${role}, updated_at = NOW() WHERE id = ${accountId}`;
+}
+
+export async function markAuthAccountEmailVerified(
+  db: NeonQueryFunction<false, false>,
+  accountId: string
+): Promise<void> {
+  await db`
+    UPDATE auth_accounts SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+    WHERE id = ${accountId}
+  `;
+}
+
+/**
+ * Delete the learner profile behind an account. auth_accounts, auth_tokens and
+ * all learner data cascade from users; auth_events keep a NULL learner_id.
+ */
+export async function deleteAuthAccountAndLearner(
+  db: NeonQueryFunction<false, false>,
+  account: AuthAccount
+): Promise<void> {
+  await db`DELETE FROM users WHERE id = ${account.learnerId}`;
+  await db`DELETE FROM auth_accounts WHERE id = ${account.id}`;
+}
+
+// ============================================================================
+// Single-use tokens (password reset, email verification, account activation)
+// ============================================================================
+
+/**
+ * Issue a token for the account, replacing any unused token with the same
+ * purpose. Returns the raw token; only its hash is stored.
+ */
+export async function createAuthToken(
+  db: NeonQueryFunction<false, false>,
+  params: { accountId: string; purpose: AuthTokenPurpose; ttlMs: number }
+): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + params.ttlMs).toISOString();
+
+  await db`
+    DELETE FROM auth_tokens
+    WHERE account_id = ${params.accountId} AND purpose = ${params.purpose} AND used_at IS NULL
+  `;
+  await db`
+    INSERT INTO auth_tokens (id, account_id, purpose, token_hash, expires_at)
+    VALUES (${uuidv4()}, ${params.accountId}, ${params.purpose}, ${hashAuthToken(token)}, ${expiresAt})
+  `;
+  return token;
+}
+
+/**
+ * Mark a valid token as used and return its account id. Returns null when the
+ * token is unknown, expired, already used, or issued for another purpose.
+ */
+export async function consumeAuthToken(
+  db: NeonQueryFunction<false, false>,
+  params: { token: string; purpose: AuthTokenPurpose }
+): Promise<string | null> {
+  const rows = await db`
+    UPDATE auth_tokens SET used_at = NOW()
+    WHERE token_hash = ${hashAuthToken(params.token)}
+      AND purpose = ${params.purpose}
+      AND used_at IS NULL
+      AND expires_at > NOW()
+    RETURNING account_id
+  `;
+  return rows.length > 0 ? String(rows[0].account_id) : null;
+}
+
+// ============================================================================
+// Sessions (refresh tokens)
+// ============================================================================
+
+/**
+ * Start a session for a sign-in. Returns the raw refresh token; only its
+ * hash is stored.
+ */
+export async function createAuthSession(
+  db: NeonQueryFunction<false, false>,
+  params: { accountId: string; ttlMs: number; userAgent?: string | null; ipAddress?: string | null }
+): Promise<{ session: AuthSession; refreshToken: string }> {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + params.ttlMs).toISOString();
+  const rows = await db`
+    INSERT INTO auth_sessions (id, account_id, refresh_token_hash, user_agent, ip_address, expires_at)
+    VALUES (
+      ${uuidv4()}, ${params.accountId}, ${hashAuthToken(refreshToken)},
+      ${params.userAgent?.slice(0, 512) ?? null}, ${params.ipAddress ?? null}, ${expiresAt}
+    )
+    RETURNING *
+  `;
+  return { session: rowToAuthSession(rows[0]), refreshToken };
+}
+
+/**
+ * Exchange a refresh token for a new one. The swap is a single UPDATE, so
+ * two concurrent refreshes with the same token cannot both succeed.
+ */
+export async function rotateAuthSession(
+  db: NeonQueryFunction<false, false>,
+  params: { refreshToken: string; ttlMs: number }
+): Promise<RotateAuthSessionResult> {
+  const presentedHash = hashAuthToken(params.refreshToken);
+  const refreshToken = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + params.ttlMs).toISOString();
+
+  const rotated = await db`
+    UPDATE auth_sessions SET
+      previous_token_hash = refresh_token_hash,
+      refresh_token_hash = ${hashAuthToken(refreshToken)},
+      rotated_at = NOW(),
+      last_used_at = NOW(),
+      expires_at = ${expiresAt}
+    WHERE refresh_token_hash = ${presentedHash}
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+    RETURNING *
+  `;
+  if (rotated.length > 0) {
+    return { status: 'rotated', session: rowToAuthSession(rotated[0]), refreshToken };
+  }
+
+  const previous = await db`
+    SELECT *, rotated_at > NOW() - make_interval(secs => ${REFRESH_REUSE_GRACE_SECONDS}) AS within_grace
+    FROM auth_sessions
+    WHERE previous_token_hash = ${presentedHash} AND revoked_at IS NULL
+    LIMIT 1
+  `;
+  if (previous.length === 0) {
+    return { status: 'invalid' };
+  }
+  if (previous[0].within_grace === true) {
+    return { status: 'superseded' };
+  }
+
+  const session = rowToAuthSession(previous[0]);
+  await revokeAuthSession(db, session.id, 'refresh_token_reuse');
+  return { status: 'reused', session };
+}
+
+export async function getAuthSessionByRefreshToken(
+  db: NeonQueryFunction<false, false>,
+  refreshToken: string
+): Promise<AuthSession | null> {
+  const rows = await db`
+    SELECT * FROM auth_sessions WHERE refresh_token_hash = ${hashAuthToken(refreshToken)} LIMIT 1
+  `;
+  return rows.length > 0 ? rowToAuthSession(rows[0]) : null;
+}
+
+/** Sessions that can still be refreshed, most recently used first */
+export async function listActiveAuthSessions(
+  db: NeonQueryFunction<false, false>,
+  accountId: string
+): Promise<AuthSession[]> {
+  const rows = await db`
+    SELECT * FROM auth_sessions
+    WHERE account_id = ${accountId} AND revoked_at IS NULL AND expires_at > NOW()
+    ORDER BY last_used_at DESC
+  `;
+  return rows.map(rowToAuthSession);
+}
+
+/**
+ * Revoke one session. Pass accountId to only revoke a session the account owns.
+ */
+export async function revokeAuthSession(
+  db: NeonQueryFunction<false, false>,
+  sessionId: string,
+  reason: AuthSessionRevokeReason,
+  accountId?: string
+): Promise<boolean> {
+  const rows = await db`
+    UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = ${reason}
+    WHERE id = ${sessionId}
+      AND revoked_at IS NULL
+      AND (${accountId ?? null}::text IS NULL OR account_id = ${accountId ?? null})
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Revoke every live session of an account, optionally keeping one (the
+ * caller's own). Returns how many sessions were revoked.
+ */
+export async function revokeAuthSessionsForAccount(
+  db: NeonQueryFunction<false, false>,
+  accountId: string,
+  reason: AuthSessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const rows = await db`
+    UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = ${reason}
+    WHERE account_id = ${accountId}
+      AND revoked_at IS NULL
+      AND id <> ${exceptSessionId ?? ''}
+    RETURNING id
+  `;
+  return rows.length;
+}
+
 // ============================================================================
 // Private helpers
 // ============================================================================
 
+function hashAuthToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function rowToAuthSession(row: Record<string, unknown>): AuthSession {
+  return {
+    id: row.id as string,
+    accountId: row.account_id as string,
+    userAgent: row.user_agent ? String(row.user_agent) : null,
+    ipAddress: row.ip_address ? String(row.ip_address) : null,
+    createdAt: String(row.created_at),
+    lastUsedAt: String(row.last_used_at),
+    expiresAt: String(row.expires_at),
+    revokedAt: row.revoked_at ? String(row.revoked_at) : null,
+    revokedReason: row.revoked_reason ? (String(row.revoked_reason) as AuthSessionRevokeReason) : null,
+  };
+}
+
 function rowToAuthAccount(row: Record<string, unknown>): AuthAccount {
   return {
     id: row.id as string,
     email: row.email as string,
     passwordHash: row.password_hash as string,
-    role: row.role as 'student' | 'instructor',
+    role: row.role as UserRole,
     learnerId: row.learner_id as string,
     name: row.name as string,
+    emailVerifiedAt: row.email_verified_at ? String(row.email_verified_at) : null,
+    pendingActivation: row.pending_activation === true,
+    externalStudentId: row.external_student_id ? String(row.external_student_id) : null,
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at),
   };
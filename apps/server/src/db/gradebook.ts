@@ -0,0 +1,66 @@
+import { getDb } from './neon.js';
+
+export interface RosterEntry {
+  learnerId: string;
+  name: string;
+  /** Login email, null for learners without an auth account */
+  email: string | null;
+}
+
+export interface ProblemProgressTotals {
+  attempted: number;
+  solved: number;
+}
+
+/**
+ * Students enrolled in a section with the email LMS imports match on.
+ */
+export async function getSectionRoster(sectionId: string): Promise<RosterEntry[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT u.id, u.name, a.email
+    FROM section_enrollments e
+    INNER JOIN users u ON u.id = e.student_user_id
+    LEFT JOIN auth_accounts a ON a.learner_id = u.id
+    WHERE e.section_id = ${sectionId}
+    ORDER BY u.name ASC, u.id ASC
+  `;
+  return rows.map((row) => {
+    const record = row as Record<string, unknown>;
+    return {
+      learnerId: String(record.id),
+      name: String(record.name),
+      email: record.email ? String(record.email) : null,
+    };
+  });
+}
+
+/**
+ * Attempted/solved problem counts from problem_progress, keyed by learner.
+ */
+export async function getProblemProgressTotals(
+  learnerIds: string[]
+): Promise<Map<string, ProblemProgressTotals>> {
+  const totals = new Map<string, ProblemProgressTotals>();
+  if (learnerIds.length === 0) {
+    return totals;
+  }
+  const db = getDb();
+  const rows = await db`
+    SELECT
+      user_id,
+      COUNT(*) FILTER (WHERE attempts_count > 0 OR solved) AS attempted,
+      COUNT(*) FILTER (WHERE solved) AS solved
+    FROM problem_progress
+    WHERE user_id = ANY(${learnerIds})
+    GROUP BY user_id
+  `;
+  for (const row of rows) {
+    const record = row as Record<string, unknown>;
+    totals.set(String(record.user_id), {
+      attempted: Number(record.attempted),
+      solved: Number(record.solved),
+    });
+  }
+  return totals;
+}
@@ -13,6 +13,9 @@ import type {
   CreateInteractionRequest,
   InstructionalUnit,
   CreateUnitRequest,
+  AuthoredProblem,
+  CreateProblemRequest,
+  UpdateProblemRequest,
 } from '../types.js';
 
 // ============================================================================
@@ -123,6 +126,7 @@ export function validateResearchBatchForWrite(events: ResearchEventInput[]): Bat
 // Import both database implementations
 import * as neonDb from './neon.js';
 import * as sqliteDb from './sqlite.js';
+import * as neonUsage from './llm-usage.js';
 import { hasDbEnv } from './env-resolver.js';
 
 export type {
@@ -313,6 +317,76 @@ export async function deleteTextbookUnit(userId: string, unitId: string): Promis
     : sqliteDb.deleteTextbookUnit(userId, unitId);
 }
 
+// ============================================================================
+// Unified Problem Bank Operations
+// ============================================================================
+
+export async function createProblem(
+  authorUserId: string,
+  data: CreateProblemRequest & { id: string }
+): Promise<AuthoredProblem> {
+  return isUsingNeon()
+    ? neonDb.createProblem(authorUserId, data)
+    : sqliteDb.createProblem(authorUserId, data);
+}
+
+export async function getProblemById(id: string): Promise<AuthoredProblem | null> {
+  return isUsingNeon() ? neonDb.getProblemById(id) : sqliteDb.getProblemById(id);
+}
+
+export async function getProblemsByAuthor(authorUserId: string): Promise<AuthoredProblem[]> {
+  return isUsingNeon()
+    ? neonDb.getProblemsByAuthor(authorUserId)
+    : sqliteDb.getProblemsByAuthor(authorUserId);
+}
+
+export async function updateProblem(id: string, data: UpdateProblemRequest): Promise<AuthoredProblem | null> {
+  return isUsingNeon() ? neonDb.updateProblem(id, data) : sqliteDb.updateProblem(id, data);
+}
+
+export async function setProblemSections(id: string, sectionIds: string[]): Promise<AuthoredProblem | null> {
+  return isUsingNeon()
+    ? neonDb.setProblemSections(id, sectionIds)
+    : sqliteDb.setProblemSections(id, sectionIds);
+}
+
+export async function deleteProblem(id: string): Promise<boolean> {
+  return isUsingNeon() ? neonDb.deleteProblem(id) : sqliteDb.deleteProblem(id);
+}
+
+/**
+ * Problems a learner in the given section can practice. SQLite has no
+ * sections, so local mode returns every published problem.
+ */
+export async function getPublishedProblemsForSection(sectionId: string | null): Promise<AuthoredProblem[]> {
+  if (!isUsingNeon()) {
+    return sqliteDb.getPublishedProblems();
+  }
+  return sectionId ? neonDb.getPublishedProblemsForSection(sectionId) : [];
+}
+
+// ============================================================================
+// Unified LLM Usage Operations
+// ============================================================================
+
+export async function recordLLMUsage(data: neonUsage.RecordLLMUsageRequest): Promise<void> {
+  return isUsingNeon() ? neonUsage.recordLLMUsage(data) : sqliteDb.recordLLMUsage(data);
+}
+
+/**
+ * Hold tokens against today's budgets before a generation. SQLite has no
+ * sections, so local mode checks the learner budget only.
+ */
+export async function reserveLLMTokens(
+  data: neonUsage.ReserveLLMTokensRequest
+): Promise<neonUsage.ReserveLLMTokensResult> {
+  return isUsingNeon() ? neonUsage.reserveLLMTokens(data) : sqliteDb.reserveLLMTokens(data);
+}
+
+export async function settleLLMTokens(data: neonUsage.SettleLLMTokensRequest): Promise<void> {
+  return isUsingNeon() ? neonUsage.settleLLMTokens(data) : sqliteDb.settleLLMTokens(data);
+}
+
 // ============================================================================
 // Processed corpus read operations (Neon only)
 // ============================================================================
@@ -0,0 +1,198 @@
+import { getDb } from './neon.js';
+
+/**
+ * One learner's LLM use on one UTC day
+ */
+export interface LLMUsageDay {
+  learnerId: string;
+  /** YYYY-MM-DD (UTC) */
+  usageDate: string;
+  /** Section the learner was enrolled in when the usage was recorded */
+  sectionId: string | null;
+  /** Generations served by a provider */
+  requests: number;
+  /** Generations answered from the server response cache (no tokens spent) */
+  cacheHits: number;
+  /** Requests refused because a daily token budget was spent */
+  budgetFallbacks: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface RecordLLMUsageRequest {
+  learnerId: string;
+  sectionId: string | null;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheHit?: boolean;
+  budgetFallback?: boolean;
+}
+
+/** Budgets reset at midnight UTC */
+export function toUsageDate(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toDateString(value: unknown): string {
+  return value instanceof Date ? toUsageDate(value) : String(value).slice(0, 10);
+}
+
+function mapUsageDay(row: Record<string, unknown>): LLMUsageDay {
+  return {
+    learnerId: String(row.learner_id),
+    usageDate: toDateString(row.usage_date),
+    sectionId: row.section_id ? String(row.section_id) : null,
+    requests: Number(row.requests),
+    cacheHits: Number(row.cache_hits),
+    budgetFallbacks: Number(row.budget_fallbacks),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+  };
+}
+
+/**
+ * Add one generation, cache hit or budget refusal to today's totals
+ */
+export async function recordLLMUsage(data: RecordLLMUsageRequest): Promise<void> {
+  const db = getDb();
+  const served = data.cacheHit || data.budgetFallback ? 0 : 1;
+  const cacheHits = data.cacheHit ? 1 : 0;
+  const budgetFallbacks = data.budgetFallback ? 1 : 0;
+  const inputTokens = data.inputTokens ?? 0;
+  const outputTokens = data.outputTokens ?? 0;
+
+  await db`
+    INSERT INTO llm_usage_daily (
+      learner_id, usage_date, section_id, requests, cache_hits, budget_fallbacks, input_tokens, output_tokens
+    ) VALUES (
+      ${data.learnerId}, ${toUsageDate()}, ${data.sectionId},
+      ${served}, ${cacheHits}, ${budgetFallbacks}, ${inputTokens}, ${outputTokens}
+    )
+    ON CONFLICT (learner_id, usage_date) DO UPDATE SET
+      section_id = COALESCE(EXCLUDED.section_id, llm_usage_daily.section_id),
+      requests = llm_usage_daily.requests + EXCLUDED.requests,
+      cache_hits = llm_usage_daily.cache_hits + EXCLUDED.cache_hits,
+      budget_fallbacks = llm_usage_daily.budget_fallbacks + EXCLUDED.budget_fallbacks,
+      input_tokens = llm_usage_daily.input_tokens + EXCLUDED.input_tokens,
+      output_tokens = llm_usage_daily.output_tokens + EXCLUDED.output_tokens,
+      updated_at = NOW()
+  `;
+}
+
+export interface ReserveLLMTokensRequest {
+  learnerId: string;
+  sectionId: string | null;
+  /** Tokens held for the generation until it settles */
+  tokens: number;
+  /** Daily limits; 0 disables a budget (the section limit is 0 without a section) */
+  learnerLimit: number;
+  sectionLimit: number;
+}
+
+/** Tokens held against today's budgets for a generation in flight */
+export interface LLMTokenReservation {
+  learnerId: string;
+  usageDate: string;
+  tokens: number;
+}
+
+export type ReserveLLMTokensResult =
+  | { reserved: true; reservation: LLMTokenReservation }
+  | { reserved: false; scope: 'learner' | 'section'; limit: number; used: number };
+
+export interface SettleLLMTokensRequest {
+  reservation: LLMTokenReservation;
+  /** Tokens the generation actually spent; omitted when it failed */
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * Hold tokens against the learner and section budgets unless either is
+ * already spent. Spent counts tokens billed today plus tokens still held by
+ * generations in flight. Reservations for one section (or one learner
+ * without a section) take a transaction-scoped advisory lock, so concurrent
+ * requests cannot all pass the check before any of them is counted.
+ */
+export async function reserveLLMTokens(data: ReserveLLMTokensRequest): Promise<ReserveLLMTokensResult> {
+  const db = getDb();
+  const usageDate = toUsageDate();
+  const lockKey = data.sectionId ? `llm_usage:section:${data.sectionId}` : `llm_usage:learner:${data.learnerId}`;
+
+  const [, reservedRows, spentRows] = await db.transaction([
+    db`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`,
+    db`
+      INSERT INTO llm_usage_daily (learner_id, usage_date, section_id, reserved_tokens)
+      SELECT ${data.learnerId}, ${usageDate}, ${data.sectionId}, ${data.tokens}
+      FROM (
+        SELECT
+          COALESCE(SUM(input_tokens + output_tokens + reserved_tokens) FILTER (WHERE learner_id = ${data.learnerId}), 0) AS learner_tokens,
+          COALESCE(SUM(input_tokens + output_tokens + reserved_tokens) FILTER (WHERE section_id = ${data.sectionId}), 0) AS section_tokens
+        FROM llm_usage_daily
+        WHERE usage_date = ${usageDate}
+          AND (learner_id = ${data.learnerId} OR section_id = ${data.sectionId})
+      ) AS spent
+      WHERE (${data.learnerLimit} <= 0 OR spent.learner_tokens < ${data.learnerLimit})
+        AND (${data.sectionLimit} <= 0 OR spent.section_tokens < ${data.sectionLimit})
+      ON CONFLICT (learner_id, usage_date) DO UPDATE SET
+        section_id = COALESCE(EXCLUDED.section_id, llm_usage_daily.section_id),
+        reserved_tokens = llm_usage_daily.reserved_tokens + EXCLUDED.reserved_tokens,
+        updated_at = NOW()
+      RETURNING learner_id
+    `,
+    db`
+      SELECT
+        COALESCE(SUM(input_tokens + output_tokens + reserved_tokens) FILTER (WHERE learner_id = ${data.learnerId}), 0) AS learner_tokens,
+        COALESCE(SUM(input_tokens + output_tokens + reserved_tokens) FILTER (WHERE section_id = ${data.sectionId}), 0) AS section_tokens
+      FROM llm_usage_daily
+      WHERE usage_date = ${usageDate}
+        AND (learner_id = ${data.learnerId} OR section_id = ${data.sectionId})
+    `,
+  ]);
+
+  if (reservedRows.length > 0) {
+    return { reserved: true, reservation: { learnerId: data.learnerId, usageDate, tokens: data.tokens } };
+  }
+
+  const spent = (spentRows[0] ?? {}) as Record<string, unknown>;
+  const learnerTokens = Number(spent.learner_tokens ?? 0);
+  if (data.learnerLimit > 0 && learnerTokens >= data.learnerLimit) {
+    return { reserved: false, scope: 'learner', limit: data.learnerLimit, used: learnerTokens };
+  }
+  return { reserved: false, scope: 'section', limit: data.sectionLimit, used: Number(spent.section_tokens ?? 0) };
+}
+
+/**
+ * Release a reservation and bill what the generation actually spent. A
+ * failed generation releases its tokens without counting a request.
+ */
+export async function settleLLMTokens(data: SettleLLMTokensRequest): Promise<void> {
+  const db = getDb();
+  const { reservation } = data;
+  const served = data.inputTokens !== undefined || data.outputTokens !== undefined ? 1 : 0;
+
+  await db`
+    UPDATE llm_usage_daily SET
+      reserved_tokens = GREATEST(reserved_tokens - ${reservation.tokens}, 0),
+      requests = requests + ${served},
+      input_tokens = input_tokens + ${data.inputTokens ?? 0},
+      output_tokens = output_tokens + ${data.outputTokens ?? 0},
+      updated_at = NOW()
+    WHERE learner_id = ${reservation.learnerId} AND usage_date = ${reservation.usageDate}
+  `;
+}
+
+/**
+ * Daily usage rows recorded against a section since a date (inclusive),
+ * oldest first
+ */
+export async function getSectionLLMUsage(sectionId: string, fromDate: string): Promise<LLMUsageDay[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT *
+    FROM llm_usage_daily
+    WHERE section_id = ${sectionId} AND usage_date >= ${fromDate}
+    ORDER BY usage_date ASC, learner_id ASC
+  `;
+  return rows.map((row) => mapUsageDay(row as Record<string, unknown>));
+}
@@ -0,0 +1,241 @@
+import { getDb } from './neon.js';
+
+export interface LtiUserLink {
+  issuer: string;
+  subject: string;
+  accountId: string;
+  learnerId: string;
+}
+
+/**
+ * A placement of the tool in an LMS course. Links created through deep
+ * linking carry the assignment they launch and the line item grades go to.
+ */
+export interface LtiResourceLink {
+  issuer: string;
+  /** Tool registration the link was launched through; null for links saved before it was recorded */
+  clientId: string | null;
+  resourceLinkId: string;
+  contextId: string | null;
+  deploymentId: string;
+  assignmentId: string | null;
+  lineItemUrl: string | null;
+  lineItemsUrl: string | null;
+  agsScopes: string[];
+  updatedAt: string;
+}
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function mapResourceLink(row: Record<string, unknown>): LtiResourceLink {
+  let agsScopes: string[] = [];
+  try {
+    agsScopes = JSON.parse(String(row.ags_scopes));
+  } catch {
+    agsScopes = [];
+  }
+  return {
+    issuer: String(row.issuer),
+    clientId: row.client_id ? String(row.client_id) : null,
+    resourceLinkId: String(row.resource_link_id),
+    contextId: row.context_id ? String(row.context_id) : null,
+    deploymentId: String(row.deployment_id),
+    assignmentId: row.assignment_id ? String(row.assignment_id) : null,
+    lineItemUrl: row.lineitem_url ? String(row.lineitem_url) : null,
+    lineItemsUrl: row.lineitems_url ? String(row.lineitems_url) : null,
+    agsScopes,
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+export async function getLtiUserLink(issuer: string, subject: string): Promise<LtiUserLink | null> {
+  const db = getDb();
+  const rows = await db`
+    SELECT * FROM lti_user_links
+    WHERE issuer = ${issuer} AND subject = ${subject}
+    LIMIT 1
+  `;
+  if (rows.length === 0) {
+    return null;
+  }
+  const row = rows[0] as Record<string, unknown>;
+  return {
+    issuer: String(row.issuer),
+    subject: String(row.subject),
+    accountId: String(row.account_id),
+    learnerId: String(row.learner_id),
+  };
+}
+
+export async function saveLtiUserLink(link: LtiUserLink): Promise<void> {
+  const db = getDb();
+  await db`
+    INSERT INTO lti_user_links (issuer, subject, account_id, learner_id)
+    VALUES (${link.issuer}, ${link.subject}, ${link.accountId}, ${link.learnerId})
+    ON CONFLICT (issuer, subject) DO UPDATE SET
+      account_id = EXCLUDED.account_id,
+      learner_id = EXCLUDED.learner_id,
+      last_launch_at = NOW()
+  `;
+}
+
+/**
+ * Platform user ids (LTI `sub`) for learners, keyed by learner id.
+ */
+export async function getLtiSubjectsForLearners(
+  issuer: string,
+  learnerIds: string[]
+): Promise<Map<string, string>> {
+  const subjects = new Map<string, string>();
+  if (learnerIds.length === 0) {
+    return subjects;
+  }
+  const db = getDb();
+  const rows = await db`
+    SELECT learner_id, subject FROM lti_user_links
+    WHERE issuer = ${issuer} AND learner_id = ANY(${learnerIds})
+  `;
+  for (const row of rows) {
+    const record = row as Record<string, unknown>;
+    subjects.set(String(record.learner_id), String(record.subject));
+  }
+  return subjects;
+}
+
+// ============================================================================
+// Launch nonces
+// ============================================================================
+
+/**
+ * Record a launch nonce as used. Returns false when it was used before, so a
+ * replayed id_token is rejected on every server instance. Expired nonces are
+ * pruned first; their login state can no longer be redeemed anyway.
+ */
+export async function consumeLtiNonce(nonce: string, ttlMs: number): Promise<boolean> {
+  const db = getDb();
+  await db`DELETE FROM lti_nonces WHERE expires_at <= NOW()`;
+  const rows = await db`
+    INSERT INTO lti_nonces (nonce, expires_at)
+    VALUES (${nonce}, ${new Date(Date.now() + ttlMs).toISOString()})
+    ON CONFLICT (nonce) DO NOTHING
+    RETURNING nonce
+  `;
+  return rows.length > 0;
+}
+
+// ============================================================================
+// Contexts (LMS courses)
+// ============================================================================
+
+export async function getLtiContextSectionId(issuer: string, contextId: string): Promise<string | null> {
+  const db = getDb();
+  const rows = await db`
+    SELECT section_id FROM lti_contexts
+    WHERE issuer = ${issuer} AND context_id = ${contextId}
+    LIMIT 1
+  `;
+  return rows.length > 0 ? String((rows[0] as Record<string, unknown>).section_id) : null;
+}
+
+export async function saveLtiContext(params: {
+  issuer: string;
+  contextId: string;
+  sectionId: string;
+  title: string;
+}): Promise<void> {
+  const db = getDb();
+  await db`
+    INSERT INTO lti_contexts (issuer, context_id, section_id, title)
+    VALUES (${params.issuer}, ${params.contextId}, ${params.sectionId}, ${params.title})
+    ON CONFLICT (issuer, context_id) DO UPDATE SET
+      section_id = EXCLUDED.section_id,
+      title = EXCLUDED.title
+  `;
+}
+
+// ============================================================================
+// Resource links
+// ============================================================================
+
+/**
+ * Record a launch's resource link. A launch without an assignment or line
+ * item keeps the ones already stored.
+ */
+export async function saveLtiResourceLink(params: {
+  issuer: string;
+  clientId: string;
+  resourceLinkId: string;
+  contextId: string | null;
+  deploymentId: string;
+  assignmentId: string | null;
+  lineItemUrl: string | null;
+  lineItemsUrl: string | null;
+  agsScopes: string[];
+}): Promise<LtiResourceLink> {
+  const db = getDb();
+  const rows = await db`
+    INSERT INTO lti_resource_links (
+      issuer, client_id, resource_link_id, context_id, deployment_id, assignment_id,
+      lineitem_url, lineitems_url, ags_scopes
+    )
+    VALUES (
+      ${params.issuer}, ${params.clientId}, ${params.resourceLinkId}, ${params.contextId}, ${params.deploymentId},
+      ${params.assignmentId}, ${params.lineItemUrl}, ${params.lineItemsUrl}, ${JSON.stringify(params.agsScopes)}
+    )
+    ON CONFLICT (issuer, resource_link_id) DO UPDATE SET
+      client_id = EXCLUDED.client_id,
+      context_id = EXCLUDED.context_id,
+      deployment_id = EXCLUDED.deployment_id,
+      assignment_id = COALESCE(EXCLUDED.assignment_id, lti_resource_links.assignment_id),
+      lineitem_url = COALESCE(EXCLUDED.lineitem_url, lti_resource_links.lineitem_url),
+      lineitems_url = COALESCE(EXCLUDED.lineitems_url, lti_resource_links.lineitems_url),
+      ags_scopes = EXCLUDED.ags_scopes,
+      updated_at = NOW()
+    RETURNING *
+  `;
+  return mapResourceLink(rows[0] as Record<string, unknown>);
+}
+
+export async function getLtiResourceLinksForAssignment(assignmentId: string): Promise<LtiResourceLink[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT * FROM lti_resource_links
+    WHERE assignment_id = ${assignmentId}
+    ORDER BY updated_at DESC
+  `;
+  return rows.map((row) => mapResourceLink(row as Record<string, unknown>));
+}
+
+export async function setLtiResourceLinkLineItem(
+  issuer: string,
+  resourceLinkId: string,
+  lineItemUrl: string
+): Promise<void> {
+  const db = getDb();
+  await db`
+    UPDATE lti_resource_links
+    SET lineitem_url = ${lineItemUrl}, updated_at = NOW()
+    WHERE issuer = ${issuer} AND resource_link_id = ${resourceLinkId}
+  `;
+}
+
+/**
+ * Which of the given assignments have at least one LMS resource link.
+ */
+export async function getLtiLinkedAssignmentIds(assignmentIds: string[]): Promise<string[]> {
+  if (assignmentIds.length === 0) {
+    return [];
+  }
+  const db = getDb();
+  const rows = await db`
+    SELECT DISTINCT assignment_id FROM lti_resource_links
+    WHERE assignment_id = ANY(${assignmentIds})
+  `;
+  return rows.map((row) => String((row as Record<string, unknown>).assignment_id));
+}
@@ -13,7 +13,7 @@
 CREATE TABLE IF NOT EXISTS users (
   id TEXT PRIMARY KEY,
   name TEXT NOT NULL,
-  role TEXT NOT NULL CHECK (role IN ('student', 'instructor')),
+  role TEXT NOT NULL CHECK (role IN ('student', 'instructor', 'ta', 'researcher')),
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -30,7 +30,7 @@ CREATE TABLE IF NOT EXISTS auth_events (
   email_hash TEXT NOT NULL,
   account_id TEXT,
   learner_id TEXT REFERENCES users(id) ON DELETE SET NULL,
-  role TEXT CHECK (role IN ('student', 'instructor')),
+  role TEXT CHECK (role IN ('student', 'instructor', 'ta', 'researcher')),
   outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure')),
   failure_reason TEXT,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -41,6 +41,16 @@ CREATE INDEX IF NOT EXISTS idx_auth_events_outcome ON auth_events(outcome);
 CREATE INDEX IF NOT EXISTS idx_auth_events_learner_id ON auth_events(learner_id);
 CREATE INDEX IF NOT EXISTS idx_auth_events_account_id ON auth_events(account_id);
 
+-- Event type (signup, login, logout, session revocations) and the acting account for staff actions
+ALTER TABLE auth_events ADD COLUMN IF NOT EXISTS event_type TEXT;
+ALTER TABLE auth_events ADD COLUMN IF NOT EXISTS actor_account_id TEXT;
+
+-- Databases created before the 'ta' and 'researcher' roles: widen the role checks
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('student', 'instructor', 'ta', 'researcher'));
+ALTER TABLE auth_events DROP CONSTRAINT IF EXISTS auth_events_role_check;
+ALTER TABLE auth_events ADD CONSTRAINT auth_events_role_check CHECK (role IN ('student', 'instructor', 'ta', 'researcher'));
+
 -- ============================================================================
 -- Course sections + enrollments (durable instructor ownership model)
 -- ============================================================================
@@ -67,6 +77,18 @@ CREATE INDEX IF NOT EXISTS idx_course_sections_signup_code ON course_sections(st
 CREATE INDEX IF NOT EXISTS idx_section_enrollments_section ON section_enrollments(section_id);
 CREATE INDEX IF NOT EXISTS idx_section_enrollments_student ON section_enrollments(student_user_id);
 
+-- Section staff (co-instructors and teaching assistants besides the owner)
+CREATE TABLE IF NOT EXISTS section_staff (
+  section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  staff_role TEXT NOT NULL CHECK (staff_role IN ('co_instructor', 'ta')),
+  added_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (section_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_section_staff_user ON section_staff(user_id);
+
 -- ============================================================================
 -- Learner sessions (experimental condition tracking)
 -- ============================================================================
@@ -150,6 +172,7 @@ CREATE TABLE IF NOT EXISTS interaction_events (
   policy_version TEXT,
   time_spent INTEGER,
   successful BOOLEAN,
+  result_similarity NUMERIC,
   rule_fired TEXT,
   template_id TEXT,
   input_hash TEXT,
@@ -267,6 +290,7 @@ ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS source TEXT;
 ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS total_time INTEGER;
 ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS problems_attempted INTEGER;
 ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS problems_solved INTEGER;
+ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS result_similarity NUMERIC;
 CREATE INDEX IF NOT EXISTS idx_interaction_events_section_id ON interaction_events(section_id);
 
 -- ============================================================================
@@ -340,6 +364,166 @@ UNIQUE (event_id, unit_id);
 CREATE INDEX IF NOT EXISTS idx_retrievals_event_id ON interaction_textbook_unit_retrievals(event_id);
 CREATE INDEX IF NOT EXISTS idx_retrievals_unit_id ON interaction_textbook_unit_retrievals(unit_id);
 
+-- ============================================================================
+-- Problem bank (instructor-authored problems published to sections)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS problems (
+  id TEXT PRIMARY KEY,
+  author_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  difficulty TEXT NOT NULL CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+  topic TEXT NOT NULL,
+  topic_difficulty_level INTEGER NOT NULL DEFAULT 1,
+  concepts TEXT NOT NULL DEFAULT '[]',
+  schema_sql TEXT NOT NULL,
+  expected_query TEXT NOT NULL,
+  expected_result TEXT,
+  grading_mode TEXT,
+  state_verification TEXT,
+  hidden_datasets TEXT NOT NULL DEFAULT '[]',
+  dialect TEXT NOT NULL DEFAULT 'sqlite' CHECK (dialect IN ('sqlite', 'postgres')),
+  hints TEXT NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE problems ADD COLUMN IF NOT EXISTS state_verification TEXT;
+ALTER TABLE problems ADD COLUMN IF NOT EXISTS hidden_datasets TEXT NOT NULL DEFAULT '[]';
+
+CREATE TABLE IF NOT EXISTS problem_sections (
+  problem_id TEXT NOT NULL REFERENCES problems(id) ON DELETE CASCADE,
+  section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+  PRIMARY KEY (problem_id, section_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_problems_author ON problems(author_user_id);
+CREATE INDEX IF NOT EXISTS idx_problems_status ON problems(status);
+CREATE INDEX IF NOT EXISTS idx_problem_sections_section_id ON problem_sections(section_id);
+
+-- ============================================================================
+-- Assignments (problem lists released to a section with open/due dates)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS assignments (
+  id TEXT PRIMARY KEY,
+  section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+  created_by_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  problem_ids TEXT NOT NULL DEFAULT '[]',
+  opens_at TIMESTAMPTZ NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  max_attempts INTEGER CHECK (max_attempts IS NULL OR max_attempts > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (due_at > opens_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignments_section_id ON assignments(section_id);
+CREATE INDEX IF NOT EXISTS idx_assignments_due_at ON assignments(due_at);
+
+-- ============================================================================
+-- LTI 1.3 (LMS users, courses and resource links)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS lti_user_links (
+  issuer TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  learner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_launch_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (issuer, subject)
+);
+
+CREATE TABLE IF NOT EXISTS lti_contexts (
+  issuer TEXT NOT NULL,
+  context_id TEXT NOT NULL,
+  section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (issuer, context_id)
+);
+
+CREATE TABLE IF NOT EXISTS lti_resource_links (
+  issuer TEXT NOT NULL,
+  resource_link_id TEXT NOT NULL,
+  context_id TEXT,
+  deployment_id TEXT NOT NULL,
+  assignment_id TEXT REFERENCES assignments(id) ON DELETE SET NULL,
+  lineitem_url TEXT,
+  lineitems_url TEXT,
+  ags_scopes TEXT NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (issuer, resource_link_id)
+);
+
+ALTER TABLE lti_resource_links ADD COLUMN IF NOT EXISTS client_id TEXT;
+
+CREATE TABLE IF NOT EXISTS lti_nonces (
+  nonce TEXT PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lti_user_links_learner_id ON lti_user_links(learner_id);
+CREATE INDEX IF NOT EXISTS idx_lti_resource_links_assignment_id ON lti_resource_links(assignment_id);
+CREATE INDEX IF NOT EXISTS idx_lti_nonces_expires_at ON lti_nonces(expires_at);
+
+-- ============================================================================
+-- Research consent and export audit
+-- ============================================================================
+
+-- One current decision per learner; learners without a row are excluded from research data
+CREATE TABLE IF NOT EXISTS research_consents (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  consented BOOLEAN NOT NULL,
+  consent_version TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('signup', 'settings')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS research_export_audit (
+  id TEXT PRIMARY KEY,
+  actor_user_id TEXT,
+  actor_role TEXT,
+  channel TEXT NOT NULL CHECK (channel IN ('api', 'script')),
+  format TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  learner_count INTEGER NOT NULL,
+  excluded_learner_count INTEGER NOT NULL,
+  interaction_count INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_consents_consented ON research_consents(consented);
+CREATE INDEX IF NOT EXISTS idx_research_export_audit_created_at ON research_export_audit(created_at DESC);
+
+-- ============================================================================
+-- Daily LLM token usage per learner (budgets and instructor usage report)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS llm_usage_daily (
+  learner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  usage_date DATE NOT NULL,
+  section_id TEXT REFERENCES course_sections(id) ON DELETE SET NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  cache_hits INTEGER NOT NULL DEFAULT 0,
+  budget_fallbacks INTEGER NOT NULL DEFAULT 0,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  reserved_tokens INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (learner_id, usage_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_daily_section_date ON llm_usage_daily(section_id, usage_date);
+
 -- ============================================================================
 -- Processed corpus tables (local-only raw PDF -> remote Neon corpus)
 -- ============================================================================
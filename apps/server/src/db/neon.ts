@@ -25,6 +25,10 @@ import type {
   CreateUnitRequest,
   LearnerProfile,
   SessionData,
+  AuthoredProblem,
+  CreateProblemRequest,
+  UpdateProblemRequest,
+  UserRole,
 } from '../types.js';
 
 export interface CorpusManifestDocumentRow {
@@ -77,15 +81,31 @@ export interface CorpusActiveRunRow {
   updatedBy: string | null;
 }
 
+/**
+ * What an auth event records. Null on events logged before event types
+ * existed; those are all signup or login attempts.
+ */
+export type AuthEventType =
+  | 'signup'
+  | 'login'
+  | 'logout'
+  | 'logout_all'
+  | 'session_revoked'
+  | 'refresh_token_reuse'
+  | 'password_changed';
+
 export interface AuthEventRow {
   id: string;
   timestamp: string;
   emailHash: string;
   accountId: string | null;
   learnerId: string | null;
-  role: 'student' | 'instructor' | null;
+  role: UserRole | null;
+  eventType: AuthEventType | null;
   outcome: 'success' | 'failure';
   failureReason: string | null;
+  /** Account that acted on this one (e.g. an instructor revoking sessions); null when self-initiated */
+  actorAccountId: string | null;
   createdAt: string;
 }
 
@@ -93,9 +113,11 @@ export interface CreateAuthEventRequest {
   email: string;
   accountId?: string | null;
   learnerId?: string | null;
-  role?: 'student' | 'instructor' | null;
+  role?: UserRole | null;
+  eventType?: AuthEventType | null;
   outcome: 'success' | 'failure';
   failureReason?: string | null;
+  actorAccountId?: string | null;
 }
 
 export const DEFAULT_ACTIVE_CORPUS_DOC_ID = 'dbms-ramakrishnan-3rd-edition';
@@ -137,6 +159,30 @@ export function resetDb(): void {
 // Schema Initialization
 // ============================================================================
 
+/**
+ * Replace a `<table>_role_check` constraint that predates the 'ta' and
+ * 'researcher' roles. No-op once the constraint allows the newest role
+ * ('researcher'), so it is safe on every cold start.
+ */
+async function ensureRoleCheckCurrent(
+  db: NeonQueryFunction<false, false>,
+  table: 'users' | 'auth_accounts' | 'auth_events'
+): Promise<void> {
+  await db.query(`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = '${table}_role_check'
+          AND pg_get_constraintdef(oid) LIKE '%''researcher''%'
+      ) THEN
+        ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${table}_role_check;
+        ALTER TABLE ${table} ADD CONSTRAINT ${table}_role_check CHECK (role IN ('student', 'instructor', 'ta', 'researcher'));
+      END IF;
+    END $$;
+  `);
+}
+
 export async function initializeSchema(): Promise<void> {
   const db = getDb();
 
@@ -145,7 +191,7 @@ export async function initializeSchema(): Promise<void> {
     CREATE TABLE IF NOT EXISTS users (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
-      role TEXT NOT NULL CHECK (role IN ('student', 'instructor')),
+      role TEXT NOT NULL CHECK (role IN ('student', 'instructor', 'ta', 'researcher')),
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
       updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     )
@@ -163,18 +209,25 @@ export async function initializeSchema(): Promise<void> {
       email_hash TEXT NOT NULL,
       account_id TEXT,
       learner_id TEXT REFERENCES users(id) ON DELETE SET NULL,
-      role TEXT CHECK (role IN ('student', 'instructor')),
+      role TEXT CHECK (role IN ('student', 'instructor', 'ta', 'researcher')),
       outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure')),
       failure_reason TEXT,
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
     )
   `;
 
+  await db`ALTER TABLE auth_events ADD COLUMN IF NOT EXISTS event_type TEXT`;
+  await db`ALTER TABLE auth_events ADD COLUMN IF NOT EXISTS actor_account_id TEXT`;
   await db`CREATE INDEX IF NOT EXISTS idx_auth_events_timestamp ON auth_events(timestamp)`;
   await db`CREATE INDEX IF NOT EXISTS idx_auth_events_outcome ON auth_events(outcome)`;
   await db`CREATE INDEX IF NOT EXISTS idx_auth_events_learner_id ON auth_events(learner_id)`;
   await db`CREATE INDEX IF NOT EXISTS idx_auth_events_account_id ON auth_events(account_id)`;
 
+  // Role checks created before the 'ta' and 'researcher' roles existed
+  await ensureRoleCheckCurrent(db, 'users');
+  await ensureRoleCheckCurrent(db, 'auth_accounts');
+  await ensureRoleCheckCurrent(db, 'auth_events');
+
   // Course sections (durable instructor ownership model)
   await db`
     CREATE TABLE IF NOT EXISTS course_sections (
@@ -202,6 +255,20 @@ export async function initializeSchema(): Promise<void> {
   await db`CREATE INDEX IF NOT EXISTS idx_section_enrollments_section ON section_enrollments(section_id)`;
   await db`CREATE INDEX IF NOT EXISTS idx_section_enrollments_student ON section_enrollments(student_user_id)`;
 
+  // Section staff (co-instructors and teaching assistants besides the owner)
+  await db`
+    CREATE TABLE IF NOT EXISTS section_staff (
+      section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      staff_role TEXT NOT NULL CHECK (staff_role IN ('co_instructor', 'ta')),
+      added_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (section_id, user_id)
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_section_staff_user ON section_staff(user_id)`;
+
   // Learner sessions (experimental condition tracking)
   await db`
     CREATE TABLE IF NOT EXISTS learner_sessions (
@@ -282,6 +349,7 @@ export async function initializeSchema(): Promise<void> {
       policy_version TEXT,
       time_spent INTEGER,
       successful BOOLEAN,
+      result_similarity NUMERIC,
       rule_fired TEXT,
       template_id TEXT,
       input_hash TEXT,
@@ -376,6 +444,7 @@ export async function initializeSchema(): Promise<void> {
   await db`ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS total_time INTEGER`;
   await db`ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS problems_attempted INTEGER`;
   await db`ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS problems_solved INTEGER`;
+  await db`ALTER TABLE interaction_events ADD COLUMN IF NOT EXISTS result_similarity NUMERIC`;
 
   // Textbook units (My Textbook)
   await db`
@@ -539,6 +608,173 @@ export async function initializeSchema(): Promise<void> {
 
   await db`CREATE INDEX IF NOT EXISTS idx_learner_profiles_last_activity ON learner_profiles(last_activity_at)`;
 
+  // Problem bank (instructor-authored problems published to sections)
+  await db`
+    CREATE TABLE IF NOT EXISTS problems (
+      id TEXT PRIMARY KEY,
+      author_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      difficulty TEXT NOT NULL CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+      topic TEXT NOT NULL,
+      topic_difficulty_level INTEGER NOT NULL DEFAULT 1,
+      concepts TEXT NOT NULL DEFAULT '[]',
+      schema_sql TEXT NOT NULL,
+      expected_query TEXT NOT NULL,
+      expected_result TEXT,
+      grading_mode TEXT,
+      state_verification TEXT,
+      hidden_datasets TEXT NOT NULL DEFAULT '[]',
+      dialect TEXT NOT NULL DEFAULT 'sqlite' CHECK (dialect IN ('sqlite', 'postgres')),
+      hints TEXT NOT NULL DEFAULT '[]',
+      status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+      published_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Bundle import fields (migration path for problem banks created before them)
+  await db`ALTER TABLE problems ADD COLUMN IF NOT EXISTS state_verification TEXT`;
+  await db`ALTER TABLE problems ADD COLUMN IF NOT EXISTS hidden_datasets TEXT NOT NULL DEFAULT '[]'`;
+
+  await db`
+    CREATE TABLE IF NOT EXISTS problem_sections (
+      problem_id TEXT NOT NULL REFERENCES problems(id) ON DELETE CASCADE,
+      section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+      PRIMARY KEY (problem_id, section_id)
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_problems_author ON problems(author_user_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_problems_status ON problems(status)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_problem_sections_section_id ON problem_sections(section_id)`;
+
+  // Assignments (problem lists released to a section with open/due dates)
+  await db`
+    CREATE TABLE IF NOT EXISTS assignments (
+      id TEXT PRIMARY KEY,
+      section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+      created_by_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      problem_ids TEXT NOT NULL DEFAULT '[]',
+      opens_at TIMESTAMPTZ NOT NULL,
+      due_at TIMESTAMPTZ NOT NULL,
+      max_attempts INTEGER CHECK (max_attempts IS NULL OR max_attempts > 0),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      CHECK (due_at > opens_at)
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_assignments_section_id ON assignments(section_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_assignments_due_at ON assignments(due_at)`;
+
+  // LTI 1.3: LMS users, courses and resource links mapped onto accounts, sections and assignments
+  await db`
+    CREATE TABLE IF NOT EXISTS lti_user_links (
+      issuer TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      account_id TEXT NOT NULL,
+      learner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_launch_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (issuer, subject)
+    )
+  `;
+
+  await db`
+    CREATE TABLE IF NOT EXISTS lti_contexts (
+      issuer TEXT NOT NULL,
+      context_id TEXT NOT NULL,
+      section_id TEXT NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+      title TEXT NOT NULL DEFAULT '',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (issuer, context_id)
+    )
+  `;
+
+  await db`
+    CREATE TABLE IF NOT EXISTS lti_resource_links (
+      issuer TEXT NOT NULL,
+      resource_link_id TEXT NOT NULL,
+      context_id TEXT,
+      deployment_id TEXT NOT NULL,
+      assignment_id TEXT REFERENCES assignments(id) ON DELETE SET NULL,
+      lineitem_url TEXT,
+      lineitems_url TEXT,
+      ags_scopes TEXT NOT NULL DEFAULT '[]',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (issuer, resource_link_id)
+    )
+  `;
+
+  await db`ALTER TABLE lti_resource_links ADD COLUMN IF NOT EXISTS client_id TEXT`;
+
+  // Launch nonces already used, kept until the login state they belong to expires
+  await db`
+    CREATE TABLE IF NOT EXISTS lti_nonces (
+      nonce TEXT PRIMARY KEY,
+      expires_at TIMESTAMPTZ NOT NULL
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_lti_user_links_learner_id ON lti_user_links(learner_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_lti_resource_links_assignment_id ON lti_resource_links(assignment_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_lti_nonces_expires_at ON lti_nonces(expires_at)`;
+
+  // Research consent (one current decision per learner; no row means no consent)
+  await db`
+    CREATE TABLE IF NOT EXISTS research_consents (
+      user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      consented BOOLEAN NOT NULL,
+      consent_version TEXT NOT NULL,
+      source TEXT NOT NULL CHECK (source IN ('signup', 'settings')),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Research export audit log (API and script exports)
+  await db`
+    CREATE TABLE IF NOT EXISTS research_export_audit (
+      id TEXT PRIMARY KEY,
+      actor_user_id TEXT,
+      actor_role TEXT,
+      channel TEXT NOT NULL CHECK (channel IN ('api', 'script')),
+      format TEXT NOT NULL,
+      filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+      learner_count INTEGER NOT NULL,
+      excluded_learner_count INTEGER NOT NULL,
+      interaction_count INTEGER NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_research_consents_consented ON research_consents(consented)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_research_export_audit_created_at ON research_export_audit(created_at DESC)`;
+
+  // Daily LLM token usage per learner (server-side budgets and the instructor usage report)
+  await db`
+    CREATE TABLE IF NOT EXISTS llm_usage_daily (
+      learner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      usage_date DATE NOT NULL,
+      section_id TEXT REFERENCES course_sections(id) ON DELETE SET NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      cache_hits INTEGER NOT NULL DEFAULT 0,
+      budget_fallbacks INTEGER NOT NULL DEFAULT 0,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      reserved_tokens INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (learner_id, usage_date)
+    )
+  `;
+
+  await db`CREATE INDEX IF NOT EXISTS idx_llm_usage_daily_section_date ON llm_usage_daily(section_id, usage_date)`;
+
   console.log('✅ Neon PostgreSQL schema initialized');
 }
 
@@ -888,7 +1124,7 @@ export async function createInteraction(data: CreateInteractionRequest & { id: s
       problem_set_id, problem_number, code, error, error_subtype_id,
       hint_id, explanation_id, hint_text, hint_level, help_request_index,
       sql_engage_subtype, sql_engage_row_id, policy_version, time_spent,
-      successful, rule_fired, template_id, input_hash, model,
+      successful, result_similarity, rule_fired, template_id, input_hash, model,
       note_id, note_title, note_content,
       retrieved_source_ids, retrieved_chunks, trigger_interaction_ids,
       evidence_interaction_ids, source_interaction_ids, inputs, outputs, concept_id, concept_ids,
@@ -928,6 +1164,7 @@ export async function createInteraction(data: CreateInteractionRequest & { id: s
       ${payload.policyVersion || null},
       ${payload.timeSpent || null},
       ${payload.successful ?? null},
+      ${payload.resultSimilarity ?? null},
       ${payload.ruleFired || null},
       ${payload.templateId || null},
       ${payload.inputHash || null},
@@ -1417,6 +1654,148 @@ export async function deleteTextbookUnit(userId: string, unitId: string): Promis
   return Array.isArray(result) && result.length === 0;
 }
 
+// ============================================================================
+// Problem Bank Operations
+// ============================================================================
+
+export async function createProblem(
+  authorUserId: string,
+  data: CreateProblemRequest & { id: string }
+): Promise<AuthoredProblem> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  await db`
+    INSERT INTO problems (
+      id, author_user_id, title, description, difficulty, topic,
+      topic_difficulty_level, concepts, schema_sql, expected_query,
+      expected_result, grading_mode, state_verification, hidden_datasets,
+      dialect, hints, status, created_at, updated_at
+    ) VALUES (
+      ${data.id}, ${authorUserId}, ${data.title}, ${data.description},
+      ${data.difficulty}, ${data.topic}, ${data.topicDifficultyLevel ?? 1},
+      ${JSON.stringify(data.concepts)}, ${data.schema}, ${data.expectedQuery},
+      ${data.expectedResult ? JSON.stringify(data.expectedResult) : null},
+      ${data.gradingMode ?? null},
+      ${data.stateVerification ? JSON.stringify(data.stateVerification) : null},
+      ${JSON.stringify(data.hiddenDatasets ?? [])}, ${data.dialect ?? 'sqlite'},
+      ${JSON.stringify(data.hints ?? [])}, 'draft', ${now}, ${now}
+    )
+  `;
+
+  return (await getProblemById(data.id))!;
+}
+
+export async function getProblemById(id: string): Promise<AuthoredProblem | null> {
+  const db = getDb();
+  const [result] = await db`
+    SELECT p.*, ARRAY(
+      SELECT ps.section_id FROM problem_sections ps WHERE ps.problem_id = p.id ORDER BY ps.section_id
+    ) AS section_ids
+    FROM problems p
+    WHERE p.id = ${id}
+  `;
+  return result ? rowToAuthoredProblem(result) : null;
+}
+
+export async function getProblemsByAuthor(authorUserId: string): Promise<AuthoredProblem[]> {
+  const db = getDb();
+  const results = await db`
+    SELECT p.*, ARRAY(
+      SELECT ps.section_id FROM problem_sections ps WHERE ps.problem_id = p.id ORDER BY ps.section_id
+    ) AS section_ids
+    FROM problems p
+    WHERE p.author_user_id = ${authorUserId}
+    ORDER BY p.updated_at DESC
+  `;
+  return results.map(rowToAuthoredProblem);
+}
+
+export async function getPublishedProblemsForSection(sectionId: string): Promise<AuthoredProblem[]> {
+  const db = getDb();
+  const results = await db`
+    SELECT p.*, ARRAY(
+      SELECT ps.section_id FROM problem_sections ps WHERE ps.problem_id = p.id ORDER BY ps.section_id
+    ) AS section_ids
+    FROM problems p
+    INNER JOIN problem_sections s ON s.problem_id = p.id
+    WHERE s.section_id = ${sectionId} AND p.status = 'published'
+    ORDER BY p.topic, p.topic_difficulty_level, p.published_at
+  `;
+  return results.map(rowToAuthoredProblem);
+}
+
+export async function updateProblem(id: string, data: UpdateProblemRequest): Promise<AuthoredProblem | null> {
+  const db = getDb();
+  const existing = await getProblemById(id);
+  if (!existing) return null;
+
+  const merged = { ...existing, ...data };
+  const now = new Date().toISOString();
+
+  await db`
+    UPDATE problems SET
+      title = ${merged.title},
+      description = ${merged.description},
+      difficulty = ${merged.difficulty},
+      topic = ${merged.topic},
+      topic_difficulty_level = ${merged.topicDifficultyLevel},
+      concepts = ${JSON.stringify(merged.concepts)},
+      schema_sql = ${merged.schema},
+      expected_query = ${merged.expectedQuery},
+      expected_result = ${merged.expectedResult ? JSON.stringify(merged.expectedResult) : null},
+      grading_mode = ${merged.gradingMode ?? null},
+      state_verification = ${merged.stateVerification ? JSON.stringify(merged.stateVerification) : null},
+      hidden_datasets = ${JSON.stringify(merged.hiddenDatasets ?? [])},
+      dialect = ${merged.dialect},
+      hints = ${JSON.stringify(merged.hints)},
+      updated_at = ${now}
+    WHERE id = ${id}
+  `;
+
+  return getProblemById(id);
+}
+
+/**
+ * Replace the problem's section list. An empty list returns it to draft.
+ * Runs as one transaction so a failure never leaves the problem published
+ * with no sections.
+ */
+export async function setProblemSections(id: string, sectionIds: string[]): Promise<AuthoredProblem | null> {
+  const db = getDb();
+  const ids = Array.from(new Set(sectionIds.filter(Boolean)));
+  const now = new Date().toISOString();
+
+  await db.transaction([
+    db`DELETE FROM problem_sections WHERE problem_id = ${id}`,
+    ...ids.map((sectionId) => db`
+      INSERT INTO problem_sections (problem_id, section_id)
+      VALUES (${id}, ${sectionId})
+      ON CONFLICT (problem_id, section_id) DO NOTHING
+    `),
+    ids.length > 0
+      ? db`
+        UPDATE problems SET
+          status = 'published',
+          published_at = COALESCE(published_at, ${now}),
+          updated_at = ${now}
+        WHERE id = ${id}
+      `
+      : db`
+        UPDATE problems SET status = 'draft', published_at = NULL, updated_at = ${now}
+        WHERE id = ${id}
+      `,
+  ]);
+
+  return getProblemById(id);
+}
+
+export async function deleteProblem(id: string): Promise<boolean> {
+  const db = getDb();
+  const result = await db`DELETE FROM problems WHERE id = ${id} RETURNING id`;
+  return result.length > 0;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -1449,6 +1828,7 @@ function rowToInteraction(row: any): Interaction {
     policyVersion: row.policy_version,
     timeSpent: row.time_spent,
     successful: row.successful,
+    resultSimilarity: row.result_similarity == null ? undefined : Number(row.result_similarity),
     ruleFired: row.rule_fired,
     templateId: row.template_id,
     inputHash: row.input_hash,
@@ -1561,9 +1941,11 @@ function rowToAuthEvent(row: Record<string, unknown>): AuthEventRow {
     emailHash: String(row.email_hash),
     accountId: row.account_id ? String(row.account_id) : null,
     learnerId: row.learner_id ? String(row.learner_id) : null,
-    role: row.role ? (String(row.role) as 'student' | 'instructor') : null,
+    role: row.role ? (String(row.role) as UserRole) : null,
+    eventType: row.event_type ? (String(row.event_type) as AuthEventType) : null,
     outcome: String(row.outcome) as 'success' | 'failure',
     failureReason: row.failure_reason ? String(row.failure_reason) : null,
+    actorAccountId: row.actor_account_id ? String(row.actor_account_id) : null,
     createdAt: new Date(String(row.created_at)).toISOString(),
   };
 }
@@ -1574,7 +1956,8 @@ export async function createAuthEvent(data: CreateAuthEventRequest): Promise<Aut
   const id = `auth-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
   const [result] = await db`
     INSERT INTO auth_events (
-      id, timestamp, email_hash, account_id, learner_id, role, outcome, failure_reason, created_at
+      id, timestamp, email_hash, account_id, learner_id, role, event_type, outcome, failure_reason,
+      actor_account_id, created_at
     ) VALUES (
       ${id},
       ${now},
@@ -1582,8 +1965,10 @@ export async function createAuthEvent(data: CreateAuthEventRequest): Promise<Aut
       ${data.accountId || null},
       ${data.learnerId || null},
       ${data.role || null},
+      ${data.eventType || null},
       ${data.outcome},
       ${data.failureReason || null},
+      ${data.actorAccountId || null},
       ${now}
     )
     RETURNING *
@@ -1614,6 +1999,32 @@ function rowToInstructionalUnit(row: any): InstructionalUnit {
   };
 }
 
+function rowToAuthoredProblem(row: any): AuthoredProblem {
+  return {
+    id: row.id,
+    authorUserId: row.author_user_id,
+    title: row.title,
+    description: row.description,
+    difficulty: row.difficulty,
+    concepts: parseJson(row.concepts) || [],
+    topic: row.topic,
+    topicDifficultyLevel: Number(row.topic_difficulty_level),
+    schema: row.schema_sql,
+    expectedQuery: row.expected_query,
+    expectedResult: parseJson(row.expected_result),
+    gradingMode: row.grading_mode ?? null,
+    stateVerification: parseJson(row.state_verification),
+    hiddenDatasets: parseJson(row.hidden_datasets) || [],
+    dialect: row.dialect,
+    hints: parseJson(row.hints) || [],
+    status: row.status,
+    sectionIds: Array.isArray(row.section_ids) ? row.section_ids : [],
+    publishedAt: row.published_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
 function parseJson(value: string | null): any {
   if (!value) return null;
   try {
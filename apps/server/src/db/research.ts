@@ -0,0 +1,153 @@
+import { getDb } from './neon.js';
+import type { UserRole } from '../types.js';
+
+export type ResearchConsentSource = 'signup' | 'settings';
+
+export interface ResearchConsent {
+  userId: string;
+  consented: boolean;
+  consentVersion: string;
+  source: ResearchConsentSource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResearchExportAuditEntry {
+  id: string;
+  actorUserId: string | null;
+  actorRole: UserRole | null;
+  channel: 'api' | 'script';
+  format: string;
+  filters: Record<string, unknown>;
+  learnerCount: number;
+  excludedLearnerCount: number;
+  interactionCount: number;
+  createdAt: string;
+}
+
+function toIso(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function mapResearchConsent(row: Record<string, unknown>): ResearchConsent {
+  return {
+    userId: String(row.user_id),
+    consented: Boolean(row.consented),
+    consentVersion: String(row.consent_version),
+    source: String(row.source) as ResearchConsentSource,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+function mapAuditEntry(row: Record<string, unknown>): ResearchExportAuditEntry {
+  return {
+    id: String(row.id),
+    actorUserId: row.actor_user_id ? String(row.actor_user_id) : null,
+    actorRole: row.actor_role ? (String(row.actor_role) as UserRole) : null,
+    channel: String(row.channel) as ResearchExportAuditEntry['channel'],
+    format: String(row.format),
+    filters: (row.filters as Record<string, unknown> | null) ?? {},
+    learnerCount: Number(row.learner_count),
+    excludedLearnerCount: Number(row.excluded_learner_count),
+    interactionCount: Number(row.interaction_count),
+    createdAt: toIso(row.created_at),
+  };
+}
+
+// ============================================================================
+// Consent
+// ============================================================================
+
+export async function getResearchConsent(userId: string): Promise<ResearchConsent | null> {
+  const db = getDb();
+  const rows = await db`SELECT * FROM research_consents WHERE user_id = ${userId} LIMIT 1`;
+  return rows[0] ? mapResearchConsent(rows[0] as Record<string, unknown>) : null;
+}
+
+/**
+ * Record the learner's current decision. Later decisions (including
+ * withdrawal) replace earlier ones; exports only ever see the latest.
+ */
+export async function setResearchConsent(params: {
+  userId: string;
+  consented: boolean;
+  consentVersion: string;
+  source: ResearchConsentSource;
+}): Promise<ResearchConsent> {
+  const db = getDb();
+  const rows = await db`
+    INSERT INTO research_consents (user_id, consented, consent_version, source)
+    VALUES (${params.userId}, ${params.consented}, ${params.consentVersion}, ${params.source})
+    ON CONFLICT (user_id) DO UPDATE SET
+      consented = EXCLUDED.consented,
+      consent_version = EXCLUDED.consent_version,
+      source = EXCLUDED.source,
+      updated_at = NOW()
+    RETURNING *
+  `;
+  return mapResearchConsent(rows[0] as Record<string, unknown>);
+}
+
+/**
+ * Learners who currently consent to research use. Learners with no consent
+ * record (including accounts created before consent was collected) are excluded.
+ */
+export async function getConsentedLearnerIds(): Promise<string[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT rc.user_id
+    FROM research_consents rc
+    INNER JOIN users u ON u.id = rc.user_id
+    WHERE rc.consented = TRUE AND u.role = 'student'
+  `;
+  return rows.map((row) => String((row as Record<string, unknown>).user_id));
+}
+
+/**
+ * Keep only the given learners that currently consent, preserving order.
+ */
+export async function filterConsentedLearnerIds(learnerIds: string[]): Promise<string[]> {
+  if (learnerIds.length === 0) return [];
+  const consented = new Set(await getConsentedLearnerIds());
+  return learnerIds.filter((learnerId) => consented.has(learnerId));
+}
+
+// ============================================================================
+// Export audit
+// ============================================================================
+
+export async function recordResearchExport(params: {
+  actorUserId: string | null;
+  actorRole: UserRole | null;
+  channel: ResearchExportAuditEntry['channel'];
+  format: string;
+  filters: Record<string, unknown>;
+  learnerCount: number;
+  excludedLearnerCount: number;
+  interactionCount: number;
+}): Promise<ResearchExportAuditEntry> {
+  const db = getDb();
+  const rows = await db`
+    INSERT INTO research_export_audit (
+      id, actor_user_id, actor_role, channel, format, filters,
+      learner_count, excluded_learner_count, interaction_count
+    ) VALUES (
+      ${crypto.randomUUID()}, ${params.actorUserId}, ${params.actorRole}, ${params.channel},
+      ${params.format}, ${JSON.stringify(params.filters)}::jsonb,
+      ${params.learnerCount}, ${params.excludedLearnerCount}, ${params.interactionCount}
+    )
+    RETURNING *
+  `;
+  return mapAuditEntry(rows[0] as Record<string, unknown>);
+}
+
+export async function getResearchExportAudit(limit = 100): Promise<ResearchExportAuditEntry[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT * FROM research_export_audit
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+  return rows.map((row) => mapAuditEntry(row as Record<string, unknown>));
+}
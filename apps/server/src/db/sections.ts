@@ -11,6 +11,23 @@ export interface CourseSection {
   updatedAt: string;
 }
 
+export type SectionStaffRole = 'co_instructor' | 'ta';
+
+/** A section with how the requesting user is attached to it */
+export interface ScopedSection extends CourseSection {
+  accessRole: 'owner' | SectionStaffRole;
+}
+
+export interface SectionStaffMember {
+  sectionId: string;
+  userId: string;
+  name: string;
+  email: string | null;
+  staffRole: SectionStaffRole;
+  addedByUserId: string | null;
+  createdAt: string;
+}
+
 export interface SectionEnrollment {
   id: number;
   sectionId: string;
@@ -18,6 +35,16 @@ export interface SectionEnrollment {
   joinedAt: string;
 }
 
+/** An enrolled student with the account details instructors manage */
+export interface SectionStudent {
+  learnerId: string;
+  name: string;
+  email: string | null;
+  externalStudentId: string | null;
+  pendingActivation: boolean;
+  joinedAt: string;
+}
+
 function mapCourseSection(row: Record<string, unknown>): CourseSection {
   return {
     id: String(row.id),
@@ -145,6 +172,10 @@ export async function enrollStudentInSection(params: {
   return mapSectionEnrollment(rows[0] as Record<string, unknown>);
 }
 
+/**
+ * Learners enrolled in any section the user owns or is staffed on
+ * (co-instructor or TA). This is the read scope for instructor and TA routes.
+ */
 export async function getInstructorScopedLearnerIds(
   instructorUserId: string
 ): Promise<string[]> {
@@ -154,10 +185,17 @@ export async function getInstructorScopedLearnerIds(
     FROM section_enrollments e
     INNER JOIN course_sections s ON s.id = e.section_id
     WHERE s.instructor_user_id = ${instructorUserId}
+       OR EXISTS (
+         SELECT 1 FROM section_staff st
+         WHERE st.section_id = s.id AND st.user_id = ${instructorUserId}
+       )
   `;
   return rows.map((row) => String((row as Record<string, unknown>).student_user_id));
 }
 
+/**
+ * The learner's section when it is in the user's scope (owned or staffed), else null.
+ */
 export async function getSectionForLearnerInInstructorScope(params: {
   instructorUserId: string;
   learnerId: string;
@@ -167,8 +205,14 @@ export async function getSectionForLearnerInInstructorScope(params: {
     SELECT s.*
     FROM course_sections s
     INNER JOIN section_enrollments e ON e.section_id = s.id
-    WHERE s.instructor_user_id = ${params.instructorUserId}
-      AND e.student_user_id = ${params.learnerId}
+    WHERE e.student_user_id = ${params.learnerId}
+      AND (
+        s.instructor_user_id = ${params.instructorUserId}
+        OR EXISTS (
+          SELECT 1 FROM section_staff st
+          WHERE st.section_id = s.id AND st.user_id = ${params.instructorUserId}
+        )
+      )
     LIMIT 1
   `;
   if (rows.length === 0) {
@@ -177,3 +221,177 @@ export async function getSectionForLearnerInInstructorScope(params: {
   return mapCourseSection(rows[0] as Record<string, unknown>);
 }
 
+// ============================================================================
+// Rosters
+// ============================================================================
+
+export async function getSectionStudents(sectionId: string): Promise<SectionStudent[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT e.student_user_id, e.joined_at, u.name, a.email, a.external_student_id, a.pending_activation
+    FROM section_enrollments e
+    INNER JOIN users u ON u.id = e.student_user_id
+    LEFT JOIN auth_accounts a ON a.learner_id = e.student_user_id
+    WHERE e.section_id = ${sectionId}
+    ORDER BY LOWER(u.name) ASC
+  `;
+  return rows.map((row) => {
+    const record = row as Record<string, unknown>;
+    return {
+      learnerId: String(record.student_user_id),
+      name: String(record.name),
+      email: record.email ? String(record.email) : null,
+      externalStudentId: record.external_student_id ? String(record.external_student_id) : null,
+      pendingActivation: record.pending_activation === true,
+      joinedAt: String(record.joined_at),
+    };
+  });
+}
+
+/**
+ * Section ids each student is enrolled in, keyed by student user id.
+ * Students with no enrollment are absent from the map.
+ */
+export async function getSectionIdsForStudents(
+  studentUserIds: string[]
+): Promise<Map<string, string[]>> {
+  const enrolled = new Map<string, string[]>();
+  if (studentUserIds.length === 0) return enrolled;
+  const db = getDb();
+  const rows = await db`
+    SELECT student_user_id, section_id
+    FROM section_enrollments
+    WHERE student_user_id = ANY(${studentUserIds})
+  `;
+  for (const row of rows) {
+    const record = row as Record<string, unknown>;
+    const studentUserId = String(record.student_user_id);
+    enrolled.set(studentUserId, [...(enrolled.get(studentUserId) ?? []), String(record.section_id)]);
+  }
+  return enrolled;
+}
+
+export async function removeStudentFromSection(sectionId: string, studentUserId: string): Promise<boolean> {
+  const db = getDb();
+  const rows = await db`
+    DELETE FROM section_enrollments
+    WHERE section_id = ${sectionId} AND student_user_id = ${studentUserId}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Move a student's enrollment in one statement, so a failure cannot leave
+ * them in neither section. Returns null when they were not in the source.
+ */
+export async function moveStudentToSection(params: {
+  fromSectionId: string;
+  toSectionId: string;
+  studentUserId: string;
+}): Promise<SectionEnrollment | null> {
+  const db = getDb();
+  const rows = await db`
+    WITH removed AS (
+      DELETE FROM section_enrollments
+      WHERE section_id = ${params.fromSectionId} AND student_user_id = ${params.studentUserId}
+      RETURNING student_user_id
+    )
+    INSERT INTO section_enrollments (section_id, student_user_id)
+    SELECT ${params.toSectionId}, student_user_id FROM removed
+    ON CONFLICT (section_id, student_user_id) DO UPDATE SET joined_at = NOW()
+    RETURNING *
+  `;
+  if (rows.length === 0) {
+    return null;
+  }
+  return mapSectionEnrollment(rows[0] as Record<string, unknown>);
+}
+
+// ============================================================================
+// Section staff (co-instructors and TAs)
+// ============================================================================
+
+/**
+ * Sections the user owns or is staffed on. Owned sections come first.
+ */
+export async function getScopedSections(userId: string): Promise<ScopedSection[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT s.*, 'owner' AS access_role, 0 AS access_order
+    FROM course_sections s
+    WHERE s.instructor_user_id = ${userId}
+    UNION ALL
+    SELECT s.*, st.staff_role AS access_role, 1 AS access_order
+    FROM course_sections s
+    INNER JOIN section_staff st ON st.section_id = s.id
+    WHERE st.user_id = ${userId} AND s.instructor_user_id <> ${userId}
+    ORDER BY access_order ASC, created_at ASC
+  `;
+  return rows.map((row) => {
+    const record = row as Record<string, unknown>;
+    return {
+      ...mapCourseSection(record),
+      accessRole: String(record.access_role) as ScopedSection['accessRole'],
+    };
+  });
+}
+
+/**
+ * Sections the instructor can manage: owned plus co-instructed.
+ * TAs never manage sections, so staff rows with role 'ta' are excluded.
+ */
+export async function getTeachingSections(instructorUserId: string): Promise<CourseSection[]> {
+  const sections = await getScopedSections(instructorUserId);
+  return sections.filter((section) => section.accessRole !== 'ta');
+}
+
+export async function getSectionStaff(sectionId: string): Promise<SectionStaffMember[]> {
+  const db = getDb();
+  const rows = await db`
+    SELECT st.*, u.name, a.email
+    FROM section_staff st
+    INNER JOIN users u ON u.id = st.user_id
+    LEFT JOIN auth_accounts a ON a.learner_id = st.user_id
+    WHERE st.section_id = ${sectionId}
+    ORDER BY st.created_at ASC
+  `;
+  return rows.map((row) => {
+    const record = row as Record<string, unknown>;
+    return {
+      sectionId: String(record.section_id),
+      userId: String(record.user_id),
+      name: String(record.name),
+      email: record.email ? String(record.email) : null,
+      staffRole: String(record.staff_role) as SectionStaffRole,
+      addedByUserId: record.added_by_user_id ? String(record.added_by_user_id) : null,
+      createdAt: String(record.created_at),
+    };
+  });
+}
+
+export async function addSectionStaff(params: {
+  sectionId: string;
+  userId: string;
+  staffRole: SectionStaffRole;
+  addedByUserId: string;
+}): Promise<void> {
+  const db = getDb();
+  await db`
+    INSERT INTO section_staff (section_id, user_id, staff_role, added_by_user_id)
+    VALUES (${params.sectionId}, ${params.userId}, ${params.staffRole}, ${params.addedByUserId})
+    ON CONFLICT (section_id, user_id) DO UPDATE SET
+      staff_role = EXCLUDED.staff_role,
+      added_by_user_id = EXCLUDED.added_by_user_id
+  `;
+}
+
+export async function removeSectionStaff(sectionId: string, userId: string): Promise<boolean> {
+  const db = getDb();
+  const rows = await db`
+    DELETE FROM section_staff
+    WHERE section_id = ${sectionId} AND user_id = ${userId}
+    RETURNING user_id
+  `;
+  return rows.length > 0;
+}
@@ -20,7 +20,18 @@ import type {
   Session,
   SessionData,
   EventType,
+  AuthoredProblem,
+  CreateProblemRequest,
+  UpdateProblemRequest,
 } from '../types.js';
+import {
+  toUsageDate,
+  type LLMTokenReservation,
+  type RecordLLMUsageRequest,
+  type ReserveLLMTokensRequest,
+  type ReserveLLMTokensResult,
+  type SettleLLMTokensRequest,
+} from './llm-usage.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = path.resolve(__dirname, '../../data');
@@ -98,19 +109,56 @@ function allAsync<T>(db: sqlite3.Database, sql: string, params: unknown[] = []):
 // Schema Initialization
 // ============================================================================
 
-export async function initializeSchema(): Promise<void> {
-  const database = getDb();
-
-  // Learners table (basic auth info)
-  await runAsync(database, `
-    CREATE TABLE IF NOT EXISTS learners (
+const LEARNERS_TABLE_COLUMNS = `
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
-      role TEXT NOT NULL CHECK (role IN ('student', 'instructor')),
+      role TEXT NOT NULL CHECK (role IN ('student', 'instructor', 'ta', 'researcher')),
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
-    )
-  `);
+`;
+
+/**
+ * Rebuild a learners table whose role check predates the 'ta' and
+ * 'researcher' roles; SQLite cannot alter a CHECK in place. Foreign keys are
+ * off during the swap so dropping the old table does not cascade into the
+ * tables that reference it. No-op once the check allows 'researcher'.
+ */
+async function ensureLearnersRoleCheckCurrent(database: sqlite3.Database): Promise<void> {
+  const table = await getAsync<{ sql: string }>(
+    database,
+    `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'learners'`
+  );
+  if (!table || table.sql.includes(`'researcher'`)) return;
+
+  await runAsync(database, 'PRAGMA foreign_keys = OFF');
+  try {
+    await runAsync(database, 'BEGIN');
+    try {
+      await runAsync(database, `CREATE TABLE learners_new (${LEARNERS_TABLE_COLUMNS})`);
+      await runAsync(database, `
+        INSERT INTO learners_new (id, name, role, created_at, updated_at)
+        SELECT id, name, role, created_at, updated_at FROM learners
+      `);
+      await runAsync(database, 'DROP TABLE learners');
+      await runAsync(database, 'ALTER TABLE learners_new RENAME TO learners');
+      await runAsync(database, 'COMMIT');
+    } catch (error) {
+      await runAsync(database, 'ROLLBACK');
+      throw error;
+    }
+  } finally {
+    await runAsync(database, 'PRAGMA foreign_keys = ON');
+  }
+}
+
+export async function initializeSchema(): Promise<void> {
+  const database = getDb();
+
+  // Learners table (basic auth info)
+  await runAsync(database, `CREATE TABLE IF NOT EXISTS learners (${LEARNERS_TABLE_COLUMNS})`);
+
+  // Role check created before the 'ta' and 'researcher' roles existed
+  await ensureLearnersRoleCheckCurrent(database);
 
   await runAsync(database, `CREATE INDEX IF NOT EXISTS idx_learners_role ON learners(role)`);
 
@@ -173,6 +221,52 @@ export async function initializeSchema(): Promise<void> {
 
   await runAsync(database, `CREATE INDEX IF NOT EXISTS idx_sessions_learner ON sessions(learner_id)`);
 
+  // Problem bank table (sections are Neon-only, so section ids are kept as JSON)
+  await runAsync(database, `
+    CREATE TABLE IF NOT EXISTS problems (
+      id TEXT PRIMARY KEY,
+      author_user_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      difficulty TEXT NOT NULL CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+      topic TEXT NOT NULL,
+      topic_difficulty_level INTEGER NOT NULL DEFAULT 1,
+      concepts TEXT NOT NULL DEFAULT '[]',
+      schema_sql TEXT NOT NULL,
+      expected_query TEXT NOT NULL,
+      expected_result TEXT,
+      grading_mode TEXT,
+      state_verification TEXT,
+      hidden_datasets TEXT NOT NULL DEFAULT '[]',
+      dialect TEXT NOT NULL DEFAULT 'sqlite' CHECK (dialect IN ('sqlite', 'postgres')),
+      hints TEXT NOT NULL DEFAULT '[]',
+      status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+      section_ids TEXT NOT NULL DEFAULT '[]',
+      published_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await runAsync(database, `CREATE INDEX IF NOT EXISTS idx_problems_author ON problems(author_user_id)`);
+  await runAsync(database, `CREATE INDEX IF NOT EXISTS idx_problems_status ON problems(status)`);
+
+  // Daily LLM usage (no accounts here, so learner_id may be an ip:<address> key)
+  await runAsync(database, `
+    CREATE TABLE IF NOT EXISTS llm_usage_daily (
+      learner_id TEXT NOT NULL,
+      usage_date TEXT NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      cache_hits INTEGER NOT NULL DEFAULT 0,
+      budget_fallbacks INTEGER NOT NULL DEFAULT 0,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      reserved_tokens INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (learner_id, usage_date)
+    )
+  `);
+
   console.log('✅ SQLite database schema initialized');
 }
 
@@ -599,6 +693,215 @@ export async function getTextbookUnit(learnerId: string, unitId: string): Promis
   return getTextbookUnitById(learnerId, unitId);
 }
 
+// ============================================================================
+// Problem Bank Operations
+// ============================================================================
+
+export async function createProblem(
+  authorUserId: string,
+  data: CreateProblemRequest & { id: string }
+): Promise<AuthoredProblem> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const problem: AuthoredProblem = {
+    id: data.id,
+    authorUserId,
+    title: data.title,
+    description: data.description,
+    difficulty: data.difficulty,
+    concepts: data.concepts,
+    topic: data.topic,
+    topicDifficultyLevel: data.topicDifficultyLevel ?? 1,
+    schema: data.schema,
+    expectedQuery: data.expectedQuery,
+    expectedResult: data.expectedResult ?? null,
+    gradingMode: data.gradingMode ?? null,
+    stateVerification: data.stateVerification ?? null,
+    hiddenDatasets: data.hiddenDatasets ?? [],
+    dialect: data.dialect ?? 'sqlite',
+    hints: data.hints ?? [],
+    status: 'draft',
+    sectionIds: [],
+    publishedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await runAsync(db, `
+    INSERT INTO problems (
+      id, author_user_id, title, description, difficulty, topic, topic_difficulty_level,
+      concepts, schema_sql, expected_query, expected_result, grading_mode, state_verification,
+      hidden_datasets, dialect, hints, status, section_ids, published_at, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, problemToParams(problem));
+
+  return problem;
+}
+
+export async function getProblemById(id: string): Promise<AuthoredProblem | null> {
+  const row = await getAsync<ProblemRow>(getDb(), 'SELECT * FROM problems WHERE id = ?', [id]);
+  return row ? rowToAuthoredProblem(row) : null;
+}
+
+export async function getProblemsByAuthor(authorUserId: string): Promise<AuthoredProblem[]> {
+  const rows = await allAsync<ProblemRow>(
+    getDb(),
+    'SELECT * FROM problems WHERE author_user_id = ? ORDER BY updated_at DESC',
+    [authorUserId]
+  );
+  return rows.map(rowToAuthoredProblem);
+}
+
+/**
+ * Published problems. Sections only exist on Neon, so every published problem
+ * is visible to every learner in local mode.
+ */
+export async function getPublishedProblems(): Promise<AuthoredProblem[]> {
+  const rows = await allAsync<ProblemRow>(
+    getDb(),
+    `SELECT * FROM problems WHERE status = 'published' ORDER BY topic, topic_difficulty_level, published_at`
+  );
+  return rows.map(rowToAuthoredProblem);
+}
+
+export async function updateProblem(id: string, data: UpdateProblemRequest): Promise<AuthoredProblem | null> {
+  const existing = await getProblemById(id);
+  if (!existing) return null;
+
+  return saveProblem({ ...existing, ...data, updatedAt: new Date().toISOString() });
+}
+
+export async function setProblemSections(id: string, sectionIds: string[]): Promise<AuthoredProblem | null> {
+  const existing = await getProblemById(id);
+  if (!existing) return null;
+
+  const ids = Array.from(new Set(sectionIds.filter(Boolean)));
+  const now = new Date().toISOString();
+  const published = ids.length > 0;
+
+  return saveProblem({
+    ...existing,
+    sectionIds: ids,
+    status: published ? 'published' : 'draft',
+    publishedAt: published ? existing.publishedAt ?? now : null,
+    updatedAt: now,
+  });
+}
+
+export async function deleteProblem(id: string): Promise<boolean> {
+  const result = await runAsync(getDb(), 'DELETE FROM problems WHERE id = ?', [id]);
+  return result.changes > 0;
+}
+
+async function saveProblem(problem: AuthoredProblem): Promise<AuthoredProblem> {
+  const [id, ...values] = problemToParams(problem);
+  await runAsync(getDb(), `
+    UPDATE problems SET
+      author_user_id = ?, title = ?, description = ?, difficulty = ?, topic = ?,
+      topic_difficulty_level = ?, concepts = ?, schema_sql = ?, expected_query = ?,
+      expected_result = ?, grading_mode = ?, state_verification = ?, hidden_datasets = ?,
+      dialect = ?, hints = ?, status = ?,
+      section_ids = ?, published_at = ?, created_at = ?, updated_at = ?
+    WHERE id = ?
+  `, [...values, id]);
+  return problem;
+}
+
+// ============================================================================
+// LLM Usage Operations (sections are Neon-only, so only learner budgets apply)
+// ============================================================================
+
+export async function recordLLMUsage(data: RecordLLMUsageRequest): Promise<void> {
+  const database = getDb();
+  const served = data.cacheHit || data.budgetFallback ? 0 : 1;
+
+  await runAsync(database, `
+    INSERT INTO llm_usage_daily (
+      learner_id, usage_date, requests, cache_hits, budget_fallbacks, input_tokens, output_tokens, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (learner_id, usage_date) DO UPDATE SET
+      requests = requests + excluded.requests,
+      cache_hits = cache_hits + excluded.cache_hits,
+      budget_fallbacks = budget_fallbacks + excluded.budget_fallbacks,
+      input_tokens = input_tokens + excluded.input_tokens,
+      output_tokens = output_tokens + excluded.output_tokens,
+      updated_at = excluded.updated_at
+  `, [
+    data.learnerId,
+    toUsageDate(),
+    served,
+    data.cacheHit ? 1 : 0,
+    data.budgetFallback ? 1 : 0,
+    data.inputTokens ?? 0,
+    data.outputTokens ?? 0,
+    new Date().toISOString(),
+  ]);
+}
+
+/**
+ * Hold tokens against the learner budget unless it is already spent. The
+ * check and the hold are one statement, so concurrent requests cannot all
+ * pass before any of them is counted.
+ */
+export async function reserveLLMTokens(data: ReserveLLMTokensRequest): Promise<ReserveLLMTokensResult> {
+  const database = getDb();
+  const usageDate = toUsageDate();
+
+  const result = await runAsync(database, `
+    INSERT INTO llm_usage_daily (learner_id, usage_date, reserved_tokens, updated_at)
+    SELECT ?, ?, ?, ?
+    WHERE ? <= 0 OR COALESCE((
+      SELECT input_tokens + output_tokens + reserved_tokens
+      FROM llm_usage_daily
+      WHERE learner_id = ? AND usage_date = ?
+    ), 0) < ?
+    ON CONFLICT (learner_id, usage_date) DO UPDATE SET
+      reserved_tokens = reserved_tokens + excluded.reserved_tokens,
+      updated_at = excluded.updated_at
+  `, [
+    data.learnerId, usageDate, data.tokens, new Date().toISOString(),
+    data.learnerLimit, data.learnerId, usageDate, data.learnerLimit,
+  ]);
+
+  if (result.changes > 0) {
+    const reservation: LLMTokenReservation = { learnerId: data.learnerId, usageDate, tokens: data.tokens };
+    return { reserved: true, reservation };
+  }
+
+  const row = await getAsync<{ used: number }>(database, `
+    SELECT input_tokens + output_tokens + reserved_tokens AS used
+    FROM llm_usage_daily
+    WHERE learner_id = ? AND usage_date = ?
+  `, [data.learnerId, usageDate]);
+  return { reserved: false, scope: 'learner', limit: data.learnerLimit, used: Number(row?.used ?? 0) };
+}
+
+export async function settleLLMTokens(data: SettleLLMTokensRequest): Promise<void> {
+  const database = getDb();
+  const { reservation } = data;
+  const served = data.inputTokens !== undefined || data.outputTokens !== undefined ? 1 : 0;
+
+  await runAsync(database, `
+    UPDATE llm_usage_daily SET
+      reserved_tokens = MAX(reserved_tokens - ?, 0),
+      requests = requests + ?,
+      input_tokens = input_tokens + ?,
+      output_tokens = output_tokens + ?,
+      updated_at = ?
+    WHERE learner_id = ? AND usage_date = ?
+  `, [
+    reservation.tokens,
+    served,
+    data.inputTokens ?? 0,
+    data.outputTokens ?? 0,
+    new Date().toISOString(),
+    reservation.learnerId,
+    reservation.usageDate,
+  ]);
+}
+
 // ============================================================================
 // Class Stats Operations
 // ============================================================================
@@ -731,6 +1034,67 @@ function rowToInstructionalUnit(row: TextbookRow): InstructionalUnit {
   }
 }
 
+function problemToParams(problem: AuthoredProblem): unknown[] {
+  return [
+    problem.id,
+    problem.authorUserId,
+    problem.title,
+    problem.description,
+    problem.difficulty,
+    problem.topic,
+    problem.topicDifficultyLevel,
+    JSON.stringify(problem.concepts),
+    problem.schema,
+    problem.expectedQuery,
+    problem.expectedResult ? JSON.stringify(problem.expectedResult) : null,
+    problem.gradingMode,
+    problem.stateVerification ? JSON.stringify(problem.stateVerification) : null,
+    JSON.stringify(problem.hiddenDatasets),
+    problem.dialect,
+    JSON.stringify(problem.hints),
+    problem.status,
+    JSON.stringify(problem.sectionIds),
+    problem.publishedAt,
+    problem.createdAt,
+    problem.updatedAt,
+  ];
+}
+
+function parseJsonColumn<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToAuthoredProblem(row: ProblemRow): AuthoredProblem {
+  return {
+    id: row.id,
+    authorUserId: row.author_user_id,
+    title: row.title,
+    description: row.description,
+    difficulty: row.difficulty,
+    concepts: parseJsonColumn<string[]>(row.concepts, []),
+    topic: row.topic,
+    topicDifficultyLevel: row.topic_difficulty_level,
+    schema: row.schema_sql,
+    expectedQuery: row.expected_query,
+    expectedResult: parseJsonColumn<Record<string, unknown>[] | null>(row.expected_result, null),
+    gradingMode: row.grading_mode,
+    stateVerification: parseJsonColumn<AuthoredProblem['stateVerification']>(row.state_verification, null),
+    hiddenDatasets: parseJsonColumn<AuthoredProblem['hiddenDatasets']>(row.hidden_datasets, []),
+    dialect: row.dialect,
+    hints: parseJsonColumn<string[]>(row.hints, []),
+    status: row.status,
+    sectionIds: parseJsonColumn<string[]>(row.section_ids, []),
+    publishedAt: row.published_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -776,3 +1140,27 @@ interface SessionRow {
   created_at: string;
   updated_at: string;
 }
+
+interface ProblemRow {
+  id: string;
+  author_user_id: string;
+  title: string;
+  description: string;
+  difficulty: AuthoredProblem['difficulty'];
+  topic: AuthoredProblem['topic'];
+  topic_difficulty_level: number;
+  concepts: string;
+  schema_sql: string;
+  expected_query: string;
+  expected_result: string | null;
+  grading_mode: string | null;
+  state_verification: string | null;
+  hidden_datasets: string;
+  dialect: AuthoredProblem['dialect'];
+  hints: string;
+  status: AuthoredProblem['status'];
+  section_ids: string;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,65 @@
+/**
+ * Email Module Index
+ *
+ * Exports the transport interface, the SMTP/file/console transports, the
+ * account email templates, and the configured default transport.
+ */
+
+export type { EmailMessage, EmailTransport } from './transport.js';
+export { formatEmailMessage } from './transport.js';
+export { SmtpEmailTransport, SmtpError, type SmtpTransportConfig } from './transports/smtp.js';
+export { FileEmailTransport, ConsoleEmailTransport, type FileTransportConfig } from './transports/file.js';
+export { buildAccountActivationEmail, buildPasswordResetEmail, buildEmailVerificationEmail } from './templates.js';
+
+import {
+  EMAIL_FROM,
+  EMAIL_OUTBOX_DIR,
+  EMAIL_TRANSPORT,
+  SMTP_HOST,
+  SMTP_PASSWORD,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+  type EmailTransportType,
+} from '../config.js';
+import type { EmailTransport } from './transport.js';
+import { SmtpEmailTransport } from './transports/smtp.js';
+import { ConsoleEmailTransport, FileEmailTransport } from './transports/file.js';
+
+/**
+ * Factory function to create an email transport by type
+ */
+export function createEmailTransport(type: EmailTransportType): EmailTransport {
+  switch (type) {
+    case 'smtp':
+      if (!SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp email transport');
+      }
+      return new SmtpEmailTransport({
+        host: SMTP_HOST,
+        port: SMTP_PORT,
+        secure: SMTP_SECURE,
+        user: SMTP_USER || undefined,
+        password: SMTP_PASSWORD || undefined,
+        from: EMAIL_FROM,
+      });
+    case 'file':
+      return new FileEmailTransport({ outboxDir: EMAIL_OUTBOX_DIR, from: EMAIL_FROM });
+    case 'console':
+      return new ConsoleEmailTransport({ from: EMAIL_FROM });
+    default:
+      throw new Error(`Unknown email transport: ${type}`);
+  }
+}
+
+let defaultTransport: EmailTransport | null = null;
+
+/**
+ * Transport selected by EMAIL_TRANSPORT, created on first use
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!defaultTransport) {
+    defaultTransport = createEmailTransport(EMAIL_TRANSPORT);
+  }
+  return defaultTransport;
+}
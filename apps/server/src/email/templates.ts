@@ -0,0 +1,74 @@
+/**
+ * Account Email Templates
+ *
+ * Plain-text bodies for the password reset, email verification and roster
+ * account activation messages.
+ */
+
+import type { EmailMessage } from './transport.js';
+
+export function buildPasswordResetEmail(params: {
+  to: string;
+  name: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}): EmailMessage {
+  return {
+    to: params.to,
+    subject: 'Reset your SQL-Adapt password',
+    text: [
+      `Hi ${params.name},`,
+      '',
+      'Someone asked to reset the password for your SQL-Adapt account. Open this link to choose a new one:',
+      '',
+      params.resetUrl,
+      '',
+      `The link works once and expires in ${params.expiresInMinutes} minutes.`,
+      'If you did not ask for this, you can ignore this email; your password stays the same.',
+    ].join('\n'),
+  };
+}
+
+export function buildEmailVerificationEmail(params: {
+  to: string;
+  name: string;
+  verifyUrl: string;
+  expiresInHours: number;
+}): EmailMessage {
+  return {
+    to: params.to,
+    subject: 'Confirm your SQL-Adapt email address',
+    text: [
+      `Hi ${params.name},`,
+      '',
+      'Please confirm this is your email address so we can reach you about your account:',
+      '',
+      params.verifyUrl,
+      '',
+      `The link expires in ${params.expiresInHours} hours.`,
+    ].join('\n'),
+  };
+}
+
+export function buildAccountActivationEmail(params: {
+  to: string;
+  name: string;
+  sectionName: string;
+  activateUrl: string;
+  expiresInDays: number;
+}): EmailMessage {
+  return {
+    to: params.to,
+    subject: 'Activate your SQL-Adapt account',
+    text: [
+      `Hi ${params.name},`,
+      '',
+      `Your instructor has added you to ${params.sectionName} on SQL-Adapt. Open this link to choose a password and activate your account:`,
+      '',
+      params.activateUrl,
+      '',
+      `The link works once and expires in ${params.expiresInDays} days.`,
+      'If the link has expired, use "Forgot password?" on the sign-in page with this email address.',
+    ].join('\n'),
+  };
+}
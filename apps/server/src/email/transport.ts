@@ -0,0 +1,54 @@
+/**
+ * Email Transport Abstraction
+ *
+ * Defines the interface shared by the SMTP transport used in production and
+ * the file/console transports used in development and tests.
+ */
+
+import { randomUUID } from 'crypto';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Bare address from a "Name <address>" header value
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII subjects and display names
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Render a message as RFC 5322 text with a base64 UTF-8 body, so it can be
+ * sent over SMTP without 8BITMIME or written to disk as a .eml file.
+ */
+export function formatEmailMessage(message: EmailMessage, from: string, date = new Date()): string {
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
@@ -0,0 +1,55 @@
+/**
+ * Development Email Transports
+ *
+ * FileEmailTransport writes each message to an outbox directory as a .eml
+ * file that any mail client can open; ConsoleEmailTransport prints it to the
+ * server log. Neither sends anything over the network.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { formatEmailMessage, type EmailMessage, type EmailTransport } from '../transport.js';
+
+export interface FileTransportConfig {
+  outboxDir: string;
+  from: string;
+}
+
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+  private config: FileTransportConfig;
+
+  constructor(config: FileTransportConfig) {
+    this.config = config;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.config.outboxDir, { recursive: true });
+    const date = new Date();
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filename = `${date.toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`;
+    await writeFile(
+      path.join(this.config.outboxDir, filename),
+      formatEmailMessage(message, this.config.from, date),
+      'utf8'
+    );
+  }
+}
+
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+  private from: string;
+
+  constructor(config: { from: string }) {
+    this.from = config.from;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    console.info('[email/console]', {
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+    });
+    console.info(message.text);
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * SMTP Email Transport
+ *
+ * Minimal SMTP client (RFC 5321) on node:net/node:tls: implicit TLS or
+ * STARTTLS, AUTH PLAIN/LOGIN, and a single recipient per message. One
+ * connection is opened per message, which is plenty for account emails.
+ */
+
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { extractAddress, formatEmailMessage, type EmailMessage, type EmailTransport } from '../transport.js';
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (usually port 465) */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Line-oriented reader/writer over one socket. Replies are queued in order;
+ * a reply is complete when a line has a space (not "-") after the code.
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket, timeoutMs);
+  }
+
+  private attach(socket: net.Socket, timeoutMs: number): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs);
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('timeout', () => {
+      this.fail(new SmtpError('SMTP connection timed out'));
+      socket.destroy();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pendingLines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines };
+        this.pendingLines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${context} failed: ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Upgrade the plain socket after STARTTLS. Listeners move to the TLS socket.
+   */
+  async upgrade(host: string, timeoutMs: number): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('timeout');
+    plain.removeAllListeners('close');
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: host }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure, timeoutMs);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpTransportConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: Error) => reject(error);
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => {
+          socket.off('error', onError);
+          resolve(socket);
+        })
+      : net.connect({ host: config.host, port: config.port }, () => {
+          socket.off('error', onError);
+          resolve(socket);
+        });
+    socket.once('error', onError);
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy();
+      reject(new SmtpError('SMTP connection timed out'));
+    });
+  });
+}
+
+function capabilities(reply: SmtpReply): string[] {
+  // First line is the greeting; the rest are "250-CAPABILITY args"
+  return reply.lines.slice(1).map((line) => line.slice(4).toUpperCase());
+}
+
+/**
+ * Escape lines that start with "." so they are not read as end-of-data
+ */
+function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, '$1..');
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private config: SmtpTransportConfig;
+
+  constructor(config: SmtpTransportConfig) {
+    this.config = config;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const timeoutMs = this.config.timeoutMs ?? 15000;
+    const connection = new SmtpConnection(await connect(this.config, timeoutMs), timeoutMs);
+    const hostname = os.hostname() || 'localhost';
+
+    try {
+      await connection.expect([220], 'greeting');
+      let ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+
+      if (!this.config.secure && capabilities(ehlo).includes('STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.config.host, timeoutMs);
+        ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+      }
+
+      if (this.config.user) {
+        await this.authenticate(connection, capabilities(ehlo));
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(this.config.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      connection.write(`${dotStuff(formatEmailMessage(message, this.config.from))}\r\n.\r\n`);
+      await connection.expect([250], 'DATA');
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+
+  private async authenticate(connection: SmtpConnection, caps: string[]): Promise<void> {
+    const user = this.config.user ?? '';
+    const password = this.config.password ?? '';
+    const authLine = caps.find((cap) => cap.startsWith('AUTH')) ?? '';
+    const encode = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+    if (authLine.includes('PLAIN') || !authLine.includes('LOGIN')) {
+      await connection.command(`AUTH PLAIN ${encode(`\0${user}\0${password}`)}`, [235]);
+      return;
+    }
+    await connection.command('AUTH LOGIN', [334]);
+    await connection.command(encode(user), [334], 'AUTH LOGIN');
+    await connection.command(encode(password), [235], 'AUTH LOGIN');
+  }
+}
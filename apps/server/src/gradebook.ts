@@ -0,0 +1,159 @@
+/**
+ * Gradebook
+ *
+ * Builds a section gradebook from assignment results and problem_progress,
+ * and formats it as CSV that Canvas and Moodle grade imports accept.
+ */
+
+import type { Assignment, AssignmentProblemActivity } from './db/assignments.js';
+import type { ProblemProgressTotals, RosterEntry } from './db/gradebook.js';
+
+export type GradebookCsvFormat = 'canvas' | 'moodle';
+
+export interface GradebookColumn {
+  assignmentId: string;
+  title: string;
+  dueAt: string;
+  pointsPossible: number;
+}
+
+export interface GradebookScore {
+  /** Assignment problems solved (late solves included) */
+  points: number;
+  /** Problems first solved after the due date */
+  lateSolved: number;
+  attempted: boolean;
+}
+
+export interface GradebookRow {
+  learnerId: string;
+  name: string;
+  email: string | null;
+  practiceSolved: number;
+  practiceAttempted: number;
+  scores: Record<string, GradebookScore>;
+}
+
+export interface Gradebook {
+  section: { id: string; name: string };
+  generatedAt: string;
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+}
+
+export function scoreAssignment(
+  assignment: Assignment,
+  activity: AssignmentProblemActivity[]
+): GradebookScore {
+  const dueAt = Date.parse(assignment.dueAt);
+  const solved = activity.filter((item) => item.firstSolvedAt !== null);
+  return {
+    points: solved.length,
+    lateSolved: solved.filter((item) => Date.parse(item.firstSolvedAt as string) > dueAt).length,
+    attempted: activity.length > 0,
+  };
+}
+
+export function buildGradebook(params: {
+  section: { id: string; name: string };
+  roster: RosterEntry[];
+  assignments: Assignment[];
+  activityByAssignment: Map<string, AssignmentProblemActivity[]>;
+  progress: Map<string, ProblemProgressTotals>;
+  now?: Date;
+}): Gradebook {
+  const columns = params.assignments.map((assignment) => ({
+    assignmentId: assignment.id,
+    title: assignment.title,
+    dueAt: assignment.dueAt,
+    pointsPossible: assignment.problemIds.length,
+  }));
+
+  const rows = params.roster.map((student) => {
+    const scores: Record<string, GradebookScore> = {};
+    for (const assignment of params.assignments) {
+      const activity = (params.activityByAssignment.get(assignment.id) ?? [])
+        .filter((item) => item.learnerId === student.learnerId);
+      scores[assignment.id] = scoreAssignment(assignment, activity);
+    }
+    const progress = params.progress.get(student.learnerId);
+    return {
+      learnerId: student.learnerId,
+      name: student.name,
+      email: student.email,
+      practiceSolved: progress?.solved ?? 0,
+      practiceAttempted: progress?.attempted ?? 0,
+      scores,
+    };
+  });
+
+  return {
+    section: params.section,
+    generatedAt: (params.now ?? new Date()).toISOString(),
+    columns,
+    rows,
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Quote a CSV cell. Cells starting with a formula character are prefixed
+ * with an apostrophe so spreadsheet tools do not evaluate them.
+ */
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(cells: Array<string | number | null | undefined>): string {
+  return cells.map(csvCell).join(',');
+}
+
+/**
+ * Canvas matches assignment columns by the "(id)" suffix and students by any
+ * of ID / SIS User ID / SIS Login ID; we fill SIS Login ID with the email.
+ */
+function toCanvasCsv(gradebook: Gradebook): string {
+  const header = [
+    'Student', 'ID', 'SIS User ID', 'SIS Login ID', 'Section',
+    ...gradebook.columns.map((column) => `${column.title} (${column.assignmentId})`),
+  ];
+  const pointsPossible = [
+    '    Points Possible', '', '', '', '',
+    ...gradebook.columns.map((column) => column.pointsPossible),
+  ];
+  const rows = gradebook.rows.map((row) => [
+    row.name, '', '', row.email ?? '', gradebook.section.name,
+    ...gradebook.columns.map((column) => row.scores[column.assignmentId]?.points ?? 0),
+  ]);
+  return [header, pointsPossible, ...rows].map(csvLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Moodle's grade import maps "Email address" to the user and each remaining
+ * column to a grade item chosen during import.
+ */
+function toMoodleCsv(gradebook: Gradebook): string {
+  const header = [
+    'Full name', 'Email address',
+    ...gradebook.columns.map((column) => column.title),
+    'Practice problems solved',
+  ];
+  const rows = gradebook.rows.map((row) => [
+    row.name, row.email ?? '',
+    ...gradebook.columns.map((column) => row.scores[column.assignmentId]?.points ?? 0),
+    row.practiceSolved,
+  ]);
+  return [header, ...rows].map(csvLine).join('\r\n') + '\r\n';
+}
+
+export function gradebookToCsv(gradebook: Gradebook, format: GradebookCsvFormat): string {
+  return format === 'canvas' ? toCanvasCsv(gradebook) : toMoodleCsv(gradebook);
+}
@@ -0,0 +1,116 @@
+/**
+ * LLM Usage Report
+ *
+ * Summarizes a section's daily LLM usage for instructors: tokens spent per
+ * day and per student, how much the server response cache saved, and how
+ * often students ran into a daily token budget.
+ */
+
+import type { RosterEntry } from './db/gradebook.js';
+import type { LLMUsageDay } from './db/llm-usage.js';
+
+export interface LLMUsageTotals {
+  requests: number;
+  cacheHits: number;
+  budgetFallbacks: number;
+  inputTokens: number;
+  outputTokens: number;
+  tokens: number;
+}
+
+export interface LLMUsageDaySummary extends LLMUsageTotals {
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+}
+
+export interface LLMUsageLearnerRow extends LLMUsageTotals {
+  learnerId: string;
+  name: string;
+  email: string | null;
+  /** Tokens spent today, against the per-learner budget */
+  todayTokens: number;
+}
+
+export interface LLMUsageReport {
+  section: { id: string; name: string };
+  generatedAt: string;
+  /** First and last day covered (UTC, inclusive) */
+  from: string;
+  to: string;
+  /** Daily token budgets; 0 means unlimited */
+  budgets: { learnerDaily: number; sectionDaily: number };
+  totals: LLMUsageTotals;
+  /** One entry per day in range, oldest first, including days without usage */
+  days: LLMUsageDaySummary[];
+  /** Enrolled students plus anyone who used the LLM while in the section, heaviest users first */
+  learners: LLMUsageLearnerRow[];
+}
+
+function emptyTotals(): LLMUsageTotals {
+  return { requests: 0, cacheHits: 0, budgetFallbacks: 0, inputTokens: 0, outputTokens: 0, tokens: 0 };
+}
+
+function addUsage(totals: LLMUsageTotals, usage: LLMUsageDay): void {
+  totals.requests += usage.requests;
+  totals.cacheHits += usage.cacheHits;
+  totals.budgetFallbacks += usage.budgetFallbacks;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.tokens += usage.inputTokens + usage.outputTokens;
+}
+
+export function buildLLMUsageReport(params: {
+  section: { id: string; name: string };
+  roster: RosterEntry[];
+  usage: LLMUsageDay[];
+  days: number;
+  budgets: { learnerDaily: number; sectionDaily: number };
+  now?: Date;
+}): LLMUsageReport {
+  const now = params.now ?? new Date();
+  const dates = Array.from({ length: params.days }, (_, index) => {
+    const date = new Date(now);
+    date.setUTCDate(date.getUTCDate() - (params.days - 1 - index));
+    return date.toISOString().slice(0, 10);
+  });
+  const today = dates[dates.length - 1];
+
+  const totals = emptyTotals();
+  const byDate = new Map(dates.map((date) => [date, { date, ...emptyTotals() }]));
+  const byLearner = new Map<string, LLMUsageLearnerRow>(
+    params.roster.map((student) => [
+      student.learnerId,
+      { learnerId: student.learnerId, name: student.name, email: student.email, todayTokens: 0, ...emptyTotals() },
+    ])
+  );
+
+  for (const usage of params.usage) {
+    const day = byDate.get(usage.usageDate);
+    if (!day) continue;
+    addUsage(totals, usage);
+    addUsage(day, usage);
+
+    let learner = byLearner.get(usage.learnerId);
+    if (!learner) {
+      // Moved to another section or removed since; their usage still counted here
+      learner = { learnerId: usage.learnerId, name: usage.learnerId, email: null, todayTokens: 0, ...emptyTotals() };
+      byLearner.set(usage.learnerId, learner);
+    }
+    addUsage(learner, usage);
+    if (usage.usageDate === today) {
+      learner.todayTokens += usage.inputTokens + usage.outputTokens;
+    }
+  }
+
+  return {
+    section: params.section,
+    generatedAt: now.toISOString(),
+    from: dates[0],
+    to: today,
+    budgets: params.budgets,
+    totals,
+    days: Array.from(byDate.values()),
+    learners: Array.from(byLearner.values())
+      .sort((a, b) => b.tokens - a.tokens || a.name.localeCompare(b.name)),
+  };
+}
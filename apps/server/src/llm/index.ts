@@ -12,10 +12,36 @@ export type {
   LLMModelInfo,
   LLMHealthStatus,
   LLMGenerationParams,
+  LLMStreamHandler,
 } from './provider.js';
 
 export { OllamaProvider, type OllamaConfig } from './providers/ollama.js';
 export { GroqProvider, type GroqConfig } from './providers/groq.js';
+export { OpenAICompatibleProvider, type OpenAICompatibleConfig } from './providers/openai-compatible.js';
+export { MockProvider, type MockConfig } from './providers/mock.js';
+export { readStreamLines } from './providers/stream-lines.js';
+export {
+  PROMPT_TEMPLATES,
+  PROMPT_VARIANT_PLANS,
+  getPromptTemplate,
+  resolvePromptTemplate,
+  validatePromptVariables,
+  renderPromptTemplate,
+  type PromptTemplate,
+  type PromptVariableSpec,
+  type PromptVariantPlan,
+  type PromptAssignment,
+  type ResolvedPromptTemplate,
+} from './prompt-registry.js';
+export {
+  LLMResponseCache,
+  buildResponseCacheKey,
+  normalizePrompt,
+  type ResponseCacheConfig,
+  type ResponseCacheKeyInput,
+  type ResponseCacheParams,
+  type ResponseCacheStats,
+} from './response-cache.js';
 
 import type {
   LLMProvider,
@@ -23,11 +49,15 @@ import type {
 } from './provider.js';
 import { OllamaProvider, type OllamaConfig } from './providers/ollama.js';
 import { GroqProvider, type GroqConfig } from './providers/groq.js';
+import { OpenAICompatibleProvider, type OpenAICompatibleConfig } from './providers/openai-compatible.js';
+import { MockProvider, type MockConfig } from './providers/mock.js';
 
 export interface LLMProviderFactoryConfig {
   type: LLMProviderType;
   ollamaConfig?: OllamaConfig;
   groqConfig?: GroqConfig;
+  openaiCompatibleConfig?: OpenAICompatibleConfig;
+  mockConfig?: MockConfig;
 }
 
 /**
@@ -45,6 +75,13 @@ export function createLLMProvider(config: LLMProviderFactoryConfig): LLMProvider
         throw new Error('Groq config is required for groq provider');
       }
       return new GroqProvider(config.groqConfig);
+    case 'openai-compatible':
+      if (!config.openaiCompatibleConfig) {
+        throw new Error('OpenAI-compatible config is required for openai-compatible provider');
+      }
+      return new OpenAICompatibleProvider(config.openaiCompatibleConfig);
+    case 'mock':
+      return new MockProvider(config.mockConfig);
     default:
       throw new Error(`Unknown provider type: ${config.type}`);
   }
@@ -0,0 +1,328 @@
+/**
+ * Prompt Template Registry
+ *
+ * Versioned prompt templates rendered on the server, so prompts can change
+ * without a client deploy and experiments can compare prompt versions.
+ *
+ * A template family (e.g. `explanation`) has one or more versions
+ * (`explanation.v1`, `explanation.v2`). Requests name either a family, which
+ * is resolved to a version for the learner's experimental condition, or a
+ * concrete version, which pins it. The resolved version is returned with the
+ * generation and stamped on llm_generate events for replay analyses.
+ */
+
+export interface PromptVariableSpec {
+  type: 'string' | 'json';
+  required: boolean;
+  /** Upper bound on the rendered value, to keep prompts inside context limits */
+  maxLength?: number;
+  description: string;
+}
+
+export interface PromptTemplate {
+  /** Version id, `<family>.v<version>` */
+  id: string;
+  family: string;
+  version: number;
+  description: string;
+  variables: Record<string, PromptVariableSpec>;
+  /** Template lines; `{{name}}` is replaced with the variable's value */
+  lines: string[];
+}
+
+/**
+ * Versions each experimental condition draws from. Learners in a condition
+ * with several versions are split between them by a stable hash of their id.
+ */
+export interface PromptVariantPlan {
+  defaultVersion: string;
+  conditions: Record<string, string[]>;
+}
+
+export type PromptAssignment = 'pinned' | 'condition' | 'default';
+
+export interface ResolvedPromptTemplate {
+  template: PromptTemplate;
+  assignment: PromptAssignment;
+}
+
+const SOURCES_VARIABLE: PromptVariableSpec = {
+  type: 'json',
+  required: true,
+  maxLength: 60000,
+  description: 'Retrieval bundle the content must be grounded in',
+};
+
+const REVISION_VARIABLE: PromptVariableSpec = {
+  type: 'string',
+  required: false,
+  maxLength: 1000,
+  description: 'Correction for a regenerated response, e.g. after the first one gave away the answer',
+};
+
+const GROUNDING_RULES = [
+  'You are a constrained SQL learning content realizer.',
+  'Use ONLY facts from the provided Sources.',
+  'If a required detail is absent, write exactly: "Not found in provided sources."',
+  'Do not add outside facts, external SQL rules, or fabricated examples.',
+  'Return ONLY valid JSON and no surrounding text.',
+  'Output must be a single JSON object (not markdown, not prose, not arrays).',
+  'Do not wrap the JSON in code fences.',
+  'Use double quotes for all keys and string values.',
+  'Do not use comments or trailing commas.',
+  'Required arrays must contain at least one item: key_points, next_steps, source_ids.',
+];
+
+const OUTPUT_SCHEMA = [
+  'JSON schema guidance:',
+  '{',
+  '  "title": "string",',
+  '  "content_markdown": "string",',
+  '  "key_points": ["string"],',
+  '  "common_pitfall": "string",',
+  '  "next_steps": ["string"],',
+  '  "source_ids": ["string"]',
+  '}',
+];
+
+const OUTPUT_CONTRACT =
+  'Output contract: JSON with fields: title, content_markdown, key_points[], common_pitfall, next_steps[], source_ids[]';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'explanation.v1',
+    family: 'explanation',
+    version: 1,
+    description: 'Concise grounded explanation after escalation',
+    variables: { sources: SOURCES_VARIABLE, revision: REVISION_VARIABLE },
+    lines: [
+      ...GROUNDING_RULES,
+      'IMPORTANT: Keep content_markdown concise — under 200 words. Students reported notes were too long. Focus on the core concept and one worked example only.',
+      'Produce a concise grounded explanation after escalation. Keep content_markdown under 200 words. Use short bullet points for key_points (max 4). One sentence for common_pitfall.',
+      'Template ID: explanation.v1',
+      OUTPUT_CONTRACT,
+      '{{revision}}',
+      'Sources:',
+      '{{sources}}',
+      ...OUTPUT_SCHEMA,
+    ],
+  },
+  {
+    id: 'explanation.v2',
+    family: 'explanation',
+    version: 2,
+    description: 'Misconception-first explanation: names the likely mistake before the concept',
+    variables: { sources: SOURCES_VARIABLE, revision: REVISION_VARIABLE },
+    lines: [
+      ...GROUNDING_RULES,
+      'IMPORTANT: Keep content_markdown under 200 words.',
+      'Open content_markdown with one sentence naming the misconception the learner\'s recent errors suggest, then explain the concept that corrects it, then give one worked example from the Sources.',
+      'Use short bullet points for key_points (max 4). One sentence for common_pitfall. Phrase next_steps as questions the learner can check against their own query.',
+      'Template ID: explanation.v2',
+      OUTPUT_CONTRACT,
+      '{{revision}}',
+      'Sources:',
+      '{{sources}}',
+      ...OUTPUT_SCHEMA,
+    ],
+  },
+  {
+    id: 'notebook_unit.v1',
+    family: 'notebook_unit',
+    version: 1,
+    description: 'Brief My Notes unit for notebook storage',
+    variables: { sources: SOURCES_VARIABLE, revision: REVISION_VARIABLE },
+    lines: [
+      ...GROUNDING_RULES,
+      'IMPORTANT: Keep content_markdown concise — under 200 words. Students reported notes were too long. Focus on the core concept and one worked example only.',
+      'Produce a brief, focused My Notes unit for notebook storage. Keep content_markdown under 150 words. Use short bullet points for key_points (max 3). One sentence for common_pitfall.',
+      'Template ID: notebook_unit.v1',
+      OUTPUT_CONTRACT,
+      '{{revision}}',
+      'Sources:',
+      '{{sources}}',
+      ...OUTPUT_SCHEMA,
+    ],
+  },
+  {
+    id: 'adaptive_hint.v1',
+    family: 'adaptive_hint',
+    version: 1,
+    description: 'Rung-specific hint that steers toward the fix without giving the answer',
+    variables: {
+      problem_title: { type: 'string', required: true, maxLength: 500, description: 'Title of the current problem' },
+      error_subtype: { type: 'string', required: true, maxLength: 200, description: 'Error subtype the hint addresses' },
+      learner_state: {
+        type: 'string',
+        required: true,
+        maxLength: 2000,
+        description: 'Recent failures, retries, hints and stuck signal, one per line',
+      },
+      context: {
+        type: 'string',
+        required: false,
+        maxLength: 4000,
+        description: 'Hints already shown and relevant textbook units',
+      },
+      instruction: {
+        type: 'string',
+        required: true,
+        maxLength: 1000,
+        description: 'What the hint at this rung of the guidance ladder may reveal',
+      },
+      revision: REVISION_VARIABLE,
+    },
+    lines: [
+      'You are an adaptive SQL tutor helping a learner with: "{{problem_title}}"',
+      '',
+      'Never give the final answer. Never provide runnable SQL for the learner\'s exact problem. Do not include a complete query.',
+      'Current error/issue: {{error_subtype}}',
+      '',
+      'Learner state:',
+      '{{learner_state}}',
+      '',
+      '{{context}}',
+      'Instruction: {{instruction}}',
+      '',
+      '{{revision}}',
+      'Format your response as:',
+      'Content: [your hint here]',
+      'Concepts: [comma-separated concept IDs]',
+      'Sources: [comma-separated source references]',
+    ],
+  },
+];
+
+/**
+ * Conditions are the escalation policy ids assigned by the client's
+ * condition-assignment module
+ */
+export const PROMPT_VARIANT_PLANS: Record<string, PromptVariantPlan> = {
+  explanation: {
+    defaultVersion: 'explanation.v1',
+    conditions: {
+      adaptive: ['explanation.v1', 'explanation.v2'],
+      explanation_first: ['explanation.v2'],
+    },
+  },
+  notebook_unit: {
+    defaultVersion: 'notebook_unit.v1',
+    conditions: {},
+  },
+  adaptive_hint: {
+    defaultVersion: 'adaptive_hint.v1',
+    conditions: {},
+  },
+};
+
+const TEMPLATES_BY_ID = new Map(PROMPT_TEMPLATES.map((template) => [template.id, template]));
+
+/**
+ * Same hash as the client's condition-assignment module, so a learner's arm
+ * can be recomputed from exported data
+ */
+function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+export function getPromptTemplate(id: string): PromptTemplate | undefined {
+  return TEMPLATES_BY_ID.get(id);
+}
+
+/**
+ * Resolve a family or version id to the template this request should use.
+ * Returns null for unknown ids.
+ */
+export function resolvePromptTemplate(
+  id: string,
+  context: { conditionId?: string; learnerId?: string } = {}
+): ResolvedPromptTemplate | null {
+  const pinned = TEMPLATES_BY_ID.get(id);
+  if (pinned) {
+    return { template: pinned, assignment: 'pinned' };
+  }
+
+  const plan = PROMPT_VARIANT_PLANS[id];
+  if (!plan) {
+    return null;
+  }
+
+  const candidates = context.conditionId ? plan.conditions[context.conditionId] : undefined;
+  if (!candidates?.length) {
+    return { template: TEMPLATES_BY_ID.get(plan.defaultVersion)!, assignment: 'default' };
+  }
+
+  // Salted with the family so one learner's arms are independent across families
+  const index = hashString(`${context.learnerId ?? ''}:${id}`) % candidates.length;
+  return { template: TEMPLATES_BY_ID.get(candidates[index])!, assignment: 'condition' };
+}
+
+function stringifyVariable(spec: PromptVariableSpec, value: unknown): string {
+  if (spec.type === 'json' && typeof value !== 'string') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Check variables against the template's schema
+ * @returns Validation errors (empty when valid)
+ */
+export function validatePromptVariables(
+  template: PromptTemplate,
+  variables: Record<string, unknown>
+): string[] {
+  const errors: string[] = [];
+
+  for (const [name, spec] of Object.entries(template.variables)) {
+    const value = variables[name];
+    if (value === undefined || value === null || value === '') {
+      if (spec.required) errors.push(`${name} is required`);
+      continue;
+    }
+    if (spec.type === 'string' && typeof value !== 'string') {
+      errors.push(`${name} must be a string`);
+      continue;
+    }
+    if (spec.maxLength !== undefined && stringifyVariable(spec, value).length > spec.maxLength) {
+      errors.push(`${name} exceeds ${spec.maxLength} characters`);
+    }
+  }
+
+  for (const name of Object.keys(variables)) {
+    if (!template.variables[name]) {
+      errors.push(`${name} is not a variable of ${template.id}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Render a template with already-validated variables
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  variables: Record<string, unknown>
+): string {
+  return template.lines
+    // A line holding only an optional variable disappears while it is unset
+    .filter((line) => {
+      const bare = /^\{\{(\w+)\}\}$/.exec(line);
+      if (!bare) return true;
+      const value = variables[bare[1]];
+      return value !== undefined && value !== null && value !== '';
+    })
+    .join('\n')
+    .replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => {
+      const spec = template.variables[name];
+      if (!spec) return placeholder;
+      const value = variables[name];
+      return value === undefined || value === null ? '' : stringifyVariable(spec, value);
+    });
+}
@@ -5,7 +5,7 @@
  * to enable seamless switching between local and hosted LLMs.
  */
 
-export type LLMProviderType = 'ollama' | 'groq';
+export type LLMProviderType = 'ollama' | 'groq' | 'openai-compatible' | 'mock';
 
 export interface LLMGenerationParams {
   temperature: number;
@@ -22,8 +22,15 @@ export interface LLMGenerateRequest {
     format: 'json';
     schema: Record<string, unknown>;
   };
+  /** Aborts the upstream request, e.g. when a streaming client disconnects */
+  signal?: AbortSignal;
 }
 
+/**
+ * Receives each piece of generated text as the provider streams it
+ */
+export type LLMStreamHandler = (delta: string) => void;
+
 export interface LLMGenerateResponse {
   text: string;
   model: string;
@@ -68,6 +75,14 @@ export interface LLMProvider {
    */
   generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse>;
 
+  /**
+   * Generate text, passing it to onDelta as the provider produces it
+   * @param request - Generation request parameters
+   * @param onDelta - Called with each new piece of text
+   * @returns Promise resolving to the complete text and metadata
+   */
+  generateStream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResponse>;
+
   /**
    * Check provider health and available models
    * @returns Health status with available models
@@ -13,7 +13,9 @@ import {
   LLMModelInfo,
   LLMHealthStatus,
   LLMGenerationParams,
+  LLMStreamHandler,
 } from '../provider.js';
+import { forwardAbort, readStreamLines } from './stream-lines.js';
 
 export interface GroqConfig {
   apiKey: string;
@@ -42,6 +44,22 @@ interface GroqChatCompletionResponse {
   };
 }
 
+interface GroqChatCompletionChunk {
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: GroqChatCompletionResponse['usage'];
+  x_groq?: {
+    usage?: GroqChatCompletionResponse['usage'];
+  };
+}
+
 interface GroqModelInfo {
   id: string;
   object: string;
@@ -87,13 +105,11 @@ export class GroqProvider implements LLMProvider {
     return options;
   }
 
-  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
-    const startTime = Date.now();
+  private buildRequestBody(request: LLMGenerateRequest, stream: boolean): Record<string, unknown> {
     const { model, prompt, params, structuredOutput } = request;
-    const requestedModel = model || this.defaultModel;
 
     const body: Record<string, unknown> = {
-      model: requestedModel,
+      model: model || this.defaultModel,
       messages: [
         {
           role: 'user',
@@ -103,6 +119,10 @@ export class GroqProvider implements LLMProvider {
       ...this.mapParamsToGroqOptions(params),
     };
 
+    if (stream) {
+      body.stream = true;
+    }
+
     // Add structured output support
     if (structuredOutput) {
       body.response_format = {
@@ -110,33 +130,50 @@ export class GroqProvider implements LLMProvider {
       };
     }
 
+    return body;
+  }
+
+  private async postChatCompletion(
+    body: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Groq API key is invalid');
+      }
+      if (response.status === 429) {
+        throw new Error('Groq rate limit exceeded');
+      }
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`Groq returned status ${response.status}: ${errorText}`);
+    }
+
+    return response;
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    const startTime = Date.now();
+    const { params } = request;
+
     const controller = new AbortController();
+    forwardAbort(request.signal, controller);
     const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs || this.config.timeoutMs);
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
+      const response = await this.postChatCompletion(this.buildRequestBody(request, false), controller.signal);
 
       clearTimeout(timeoutId);
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Groq API key is invalid');
-        }
-        if (response.status === 429) {
-          throw new Error('Groq rate limit exceeded');
-        }
-        const errorText = await response.text().catch(() => 'Unknown error');
-        throw new Error(`Groq returned status ${response.status}: ${errorText}`);
-      }
-
       const data = await response.json() as GroqChatCompletionResponse;
       const latencyMs = Date.now() - startTime;
 
@@ -163,6 +200,66 @@ export class GroqProvider implements LLMProvider {
     }
   }
 
+  async generateStream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResponse> {
+    const startTime = Date.now();
+    const { params } = request;
+
+    const controller = new AbortController();
+    forwardAbort(request.signal, controller);
+    const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs || this.config.timeoutMs);
+
+    try {
+      const response = await this.postChatCompletion(this.buildRequestBody(request, true), controller.signal);
+      if (!response.body) {
+        throw new Error('Groq returned an empty stream');
+      }
+
+      let text = '';
+      let model = request.model || this.defaultModel;
+      let usage: GroqChatCompletionResponse['usage'] | undefined;
+
+      // Server-sent events: one `data: {chunk}` line per delta, ending with `data: [DONE]`
+      for await (const line of readStreamLines(response.body)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') break;
+
+        const chunk = JSON.parse(data) as GroqChatCompletionChunk;
+        model = chunk.model || model;
+        usage = chunk.x_groq?.usage ?? chunk.usage ?? usage;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+
+      clearTimeout(timeoutId);
+
+      return {
+        text,
+        model,
+        provider: 'groq',
+        usage: {
+          inputTokens: usage?.prompt_tokens || 0,
+          outputTokens: usage?.completion_tokens || 0,
+        },
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if ((error as Error).name === 'AbortError') {
+        if (request.signal?.aborted) {
+          throw new Error('Groq stream cancelled');
+        }
+        throw new Error(`Groq request timed out after ${params.timeoutMs || this.config.timeoutMs}ms`);
+      }
+
+      throw error;
+    }
+  }
+
   async listModels(): Promise<LLMModelInfo[]> {
     try {
       const response = await fetch(`${this.config.baseUrl}/models`, {
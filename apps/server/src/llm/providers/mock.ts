@@ -0,0 +1,131 @@
+/**
+ * Mock Provider Implementation
+ *
+ * In-process LLMProvider for tests, CI and offline demos. Replies are picked
+ * from a fixed set of Socratic nudges by hashing the prompt, so the same
+ * prompt always gets the same reply, and no network is involved.
+ */
+
+import {
+  LLMProvider,
+  LLMProviderType,
+  LLMGenerateRequest,
+  LLMGenerateResponse,
+  LLMModelInfo,
+  LLMHealthStatus,
+  LLMStreamHandler,
+} from '../provider.js';
+
+export interface MockConfig {
+  defaultModel?: string;
+  /** Replies to choose from; defaults to generic tutoring nudges */
+  responses?: string[];
+}
+
+const DEFAULT_MOCK_MODEL = 'mock-tutor';
+
+const DEFAULT_MOCK_RESPONSES = [
+  'Which table holds the rows you need, and which columns identify them?',
+  'Look at the condition you filter on. Does it keep exactly the rows the question asks for?',
+  'Think about the order the clauses run in. Which step should happen before you group the rows?',
+  'Compare your output with the expected columns. Is anything missing or extra?',
+  'Check how the two tables are related. Which column do they have in common?',
+];
+
+/** FNV-1a: stable across runs and platforms, unlike Math.random */
+function hashPrompt(prompt: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export class MockProvider implements LLMProvider {
+  readonly provider: LLMProviderType = 'mock';
+  readonly defaultModel: string;
+  private responses: string[];
+
+  constructor(config: MockConfig = {}) {
+    this.defaultModel = config.defaultModel || DEFAULT_MOCK_MODEL;
+    this.responses = config.responses?.length ? config.responses : DEFAULT_MOCK_RESPONSES;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private buildText(request: LLMGenerateRequest): string {
+    const reply = this.responses[hashPrompt(request.prompt) % this.responses.length];
+    if (!request.structuredOutput) {
+      return reply;
+    }
+
+    // Fill each declared property with a value of its type so callers can parse it
+    const properties = (request.structuredOutput.schema.properties ?? {}) as Record<string, { type?: string }>;
+    const output: Record<string, unknown> = {};
+    for (const [key, definition] of Object.entries(properties)) {
+      switch (definition?.type) {
+        case 'string': output[key] = reply; break;
+        case 'number':
+        case 'integer': output[key] = 0; break;
+        case 'boolean': output[key] = false; break;
+        case 'array': output[key] = []; break;
+        case 'object': output[key] = {}; break;
+        default: output[key] = null;
+      }
+    }
+    return JSON.stringify(output);
+  }
+
+  private buildResponse(request: LLMGenerateRequest, text: string): LLMGenerateResponse {
+    return {
+      text,
+      model: request.model || this.defaultModel,
+      provider: 'mock',
+      usage: {
+        inputTokens: countTokens(request.prompt),
+        outputTokens: countTokens(text),
+      },
+      latencyMs: 0,
+    };
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    if (request.signal?.aborted) {
+      throw new Error('Mock generation cancelled');
+    }
+    return this.buildResponse(request, this.buildText(request));
+  }
+
+  async generateStream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResponse> {
+    const text = this.buildText(request);
+    // One delta per word, keeping the whitespace that follows it
+    for (const piece of text.match(/\S+\s*/g) ?? []) {
+      if (request.signal?.aborted) {
+        throw new Error('Mock stream cancelled');
+      }
+      onDelta(piece);
+    }
+    return this.buildResponse(request, text);
+  }
+
+  async listModels(): Promise<LLMModelInfo[]> {
+    return [{ name: this.defaultModel }];
+  }
+
+  async health(): Promise<LLMHealthStatus> {
+    return {
+      ok: true,
+      provider: 'mock',
+      message: 'Mock LLM provider active (deterministic replies, no model calls)',
+      models: await this.listModels(),
+      enabled: true,
+    };
+  }
+}
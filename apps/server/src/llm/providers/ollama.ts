@@ -12,7 +12,9 @@ import {
   LLMModelInfo,
   LLMHealthStatus,
   LLMGenerationParams,
+  LLMStreamHandler,
 } from '../provider.js';
+import { forwardAbort, readStreamLines } from './stream-lines.js';
 
 export interface OllamaConfig {
   baseUrl: string;
@@ -92,6 +94,7 @@ export class OllamaProvider implements LLMProvider {
     for (const candidateModel of candidateModels) {
       const ollamaBody = this.buildOllamaBody(candidateModel, prompt, params);
       const controller = new AbortController();
+      forwardAbort(request.signal, controller);
       const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs || this.config.timeoutMs);
 
       try {
@@ -147,6 +150,76 @@ export class OllamaProvider implements LLMProvider {
     throw new Error(`All model attempts failed (${attemptErrors.join(' | ')})`);
   }
 
+  async generateStream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResponse> {
+    const startTime = Date.now();
+    const { model, prompt, params } = request;
+    // No fallback model: text from the first model may already have reached the client
+    const requestedModel = model || this.defaultModel;
+    const ollamaBody = this.buildOllamaBody(requestedModel, prompt, { ...params, stream: true });
+
+    const controller = new AbortController();
+    forwardAbort(request.signal, controller);
+    const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs || this.config.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ollamaBody),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        throw new Error(`Ollama returned status ${response.status}: ${errorText}`);
+      }
+      if (!response.body) {
+        throw new Error('Ollama returned an empty stream');
+      }
+
+      let text = '';
+      let final: OllamaGenerateResponse | null = null;
+
+      // Newline-delimited JSON: one partial response per line, the last with done=true
+      for await (const line of readStreamLines(response.body)) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line) as OllamaGenerateResponse;
+        if (chunk.response) {
+          text += chunk.response;
+          onDelta(chunk.response);
+        }
+        if (chunk.done) {
+          final = chunk;
+          break;
+        }
+      }
+
+      clearTimeout(timeoutId);
+
+      return {
+        text,
+        model: final?.model || requestedModel,
+        provider: 'ollama',
+        usage: {
+          inputTokens: final?.prompt_eval_count || 0,
+          outputTokens: final?.eval_count || 0,
+        },
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if ((error as Error).name === 'AbortError') {
+        if (request.signal?.aborted) {
+          throw new Error('Ollama stream cancelled');
+        }
+        throw new Error(`LLM generation timed out after ${params.timeoutMs || this.config.timeoutMs}ms`);
+      }
+
+      throw error;
+    }
+  }
+
   async listModels(): Promise<LLMModelInfo[]> {
     try {
       const response = await fetch(`${this.config.baseUrl}/api/tags`, {
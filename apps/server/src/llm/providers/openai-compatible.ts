@@ -0,0 +1,344 @@
+/**
+ * OpenAI-Compatible Provider Implementation
+ *
+ * Implements the LLMProvider interface for self-hosted servers that expose
+ * the OpenAI chat completions API, such as vLLM and the llama.cpp server.
+ */
+
+import {
+  LLMProvider,
+  LLMProviderType,
+  LLMGenerateRequest,
+  LLMGenerateResponse,
+  LLMModelInfo,
+  LLMHealthStatus,
+  LLMGenerationParams,
+  LLMStreamHandler,
+} from '../provider.js';
+import { forwardAbort, readStreamLines } from './stream-lines.js';
+
+export interface OpenAICompatibleConfig {
+  /** API root including the version prefix, e.g. http://gpu-01:8000/v1 */
+  baseUrl: string;
+  defaultModel: string;
+  /** Sent as a bearer token when set; local servers usually need none */
+  apiKey?: string;
+  /** Extra headers for gateways in front of the server */
+  headers?: Record<string, string>;
+  /** Models to advertise instead of asking the server's /models endpoint */
+  models?: string[];
+  timeoutMs?: number;
+}
+
+interface ChatCompletionResponse {
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionResponse['usage'] | null;
+}
+
+interface ModelsResponse {
+  object: string;
+  data: Array<{
+    id: string;
+    object: string;
+    created?: number;
+    owned_by?: string;
+  }>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly provider: LLMProviderType = 'openai-compatible';
+  readonly defaultModel: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      timeoutMs: 60000,
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+    };
+    this.defaultModel = config.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.baseUrl) && Boolean(this.config.defaultModel);
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private mapParamsToOptions(params: LLMGenerationParams): Record<string, unknown> {
+    const options: Record<string, unknown> = {};
+
+    if (params.temperature !== undefined) {
+      options.temperature = Math.max(0, Math.min(2, params.temperature));
+    }
+    if (params.top_p !== undefined) {
+      options.top_p = Math.max(0, Math.min(1, params.top_p));
+    }
+
+    return options;
+  }
+
+  private buildRequestBody(request: LLMGenerateRequest, stream: boolean): Record<string, unknown> {
+    const { model, prompt, params, structuredOutput } = request;
+
+    const body: Record<string, unknown> = {
+      model: model || this.defaultModel,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      ...this.mapParamsToOptions(params),
+    };
+
+    if (stream) {
+      body.stream = true;
+      // vLLM only reports usage on streams when asked; llama.cpp ignores this
+      body.stream_options = { include_usage: true };
+    }
+
+    if (structuredOutput) {
+      body.response_format = {
+        type: 'json_object',
+      };
+    }
+
+    return body;
+  }
+
+  private async postChatCompletion(
+    body: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('OpenAI-compatible server rejected the API key');
+      }
+      if (response.status === 404) {
+        throw new Error(`OpenAI-compatible server does not serve model ${String(body.model)}`);
+      }
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`OpenAI-compatible server returned status ${response.status}: ${errorText}`);
+    }
+
+    return response;
+  }
+
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    const startTime = Date.now();
+    const { params } = request;
+
+    const controller = new AbortController();
+    forwardAbort(request.signal, controller);
+    const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs || this.config.timeoutMs);
+
+    try {
+      const response = await this.postChatCompletion(this.buildRequestBody(request, false), controller.signal);
+
+      clearTimeout(timeoutId);
+
+      const data = await response.json() as ChatCompletionResponse;
+
+      return {
+        text: data.choices[0]?.message?.content || '',
+        model: data.model || request.model || this.defaultModel,
+        provider: 'openai-compatible',
+        usage: {
+          inputTokens: data.usage?.prompt_tokens || 0,
+          outputTokens: data.usage?.completion_tokens || 0,
+        },
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if ((error as Error).name === 'AbortError') {
+        throw new Error(`OpenAI-compatible request timed out after ${params.timeoutMs || this.config.timeoutMs}ms`);
+      }
+
+      throw error;
+    }
+  }
+
+  async generateStream(request: LLMGenerateRequest, onDelta: LLMStreamHandler): Promise<LLMGenerateResponse> {
+    const startTime = Date.now();
+    const { params } = request;
+
+    const controller = new AbortController();
+    forwardAbort(request.signal, controller);
+    const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs || this.config.timeoutMs);
+
+    try {
+      const response = await this.postChatCompletion(this.buildRequestBody(request, true), controller.signal);
+      if (!response.body) {
+        throw new Error('OpenAI-compatible server returned an empty stream');
+      }
+
+      let text = '';
+      let model = request.model || this.defaultModel;
+      let usage: ChatCompletionResponse['usage'] | undefined;
+
+      // Server-sent events: one `data: {chunk}` line per delta, ending with `data: [DONE]`
+      for await (const line of readStreamLines(response.body)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') break;
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        model = chunk.model || model;
+        usage = chunk.usage ?? usage;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+
+      clearTimeout(timeoutId);
+
+      return {
+        text,
+        model,
+        provider: 'openai-compatible',
+        usage: {
+          inputTokens: usage?.prompt_tokens || 0,
+          outputTokens: usage?.completion_tokens || 0,
+        },
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if ((error as Error).name === 'AbortError') {
+        if (request.signal?.aborted) {
+          throw new Error('OpenAI-compatible stream cancelled');
+        }
+        throw new Error(`OpenAI-compatible request timed out after ${params.timeoutMs || this.config.timeoutMs}ms`);
+      }
+
+      throw error;
+    }
+  }
+
+  private async fetchServedModels(): Promise<Response> {
+    return fetch(`${this.config.baseUrl}/models`, {
+      method: 'GET',
+      headers: this.buildHeaders(),
+      signal: AbortSignal.timeout(5000),
+    });
+  }
+
+  private toModelInfo(data: ModelsResponse): LLMModelInfo[] {
+    return Array.isArray(data?.data)
+      ? data.data.map((entry) => ({
+          name: entry.id,
+          modifiedAt: entry.created ? new Date(entry.created * 1000).toISOString() : undefined,
+        }))
+      : [];
+  }
+
+  /**
+   * Configured models first (default model leading), otherwise whatever the
+   * server reports it is serving
+   */
+  async listModels(): Promise<LLMModelInfo[]> {
+    if (this.config.models?.length) {
+      return Array.from(new Set([this.defaultModel, ...this.config.models])).map((name) => ({ name }));
+    }
+
+    try {
+      const response = await this.fetchServedModels();
+      if (!response.ok) {
+        return [];
+      }
+      return this.toModelInfo(await response.json() as ModelsResponse);
+    } catch {
+      return [];
+    }
+  }
+
+  async health(): Promise<LLMHealthStatus> {
+    try {
+      const response = await this.fetchServedModels();
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          provider: 'openai-compatible',
+          message: response.status === 401 || response.status === 403
+            ? 'OpenAI-compatible server rejected the API key'
+            : `OpenAI-compatible server responded with status ${response.status}`,
+          models: [],
+          enabled: true,
+        };
+      }
+
+      const served = this.toModelInfo(await response.json() as ModelsResponse);
+      const models = this.config.models?.length ? await this.listModels() : served;
+      // llama.cpp serves one model under its file name and answers to any model id
+      const servesDefault = served.length <= 1 || served.some((model) => model.name === this.defaultModel);
+
+      return {
+        ok: servesDefault,
+        provider: 'openai-compatible',
+        message: servesDefault
+          ? `OpenAI-compatible server connected at ${this.config.baseUrl} with ${served.length} model(s) served`
+          : `OpenAI-compatible server connected, but ${this.defaultModel} is not among its served models`,
+        details: served.map((model) => model.name).join(', ') || undefined,
+        models,
+        enabled: true,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        provider: 'openai-compatible',
+        message: `OpenAI-compatible server unreachable at ${this.config.baseUrl}`,
+        details: (error as Error).message,
+        models: [],
+        enabled: true,
+      };
+    }
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Streaming Response Helpers
+ *
+ * Splits a streamed HTTP response body into lines. Ollama streams
+ * newline-delimited JSON; Groq streams server-sent events.
+ */
+
+/**
+ * Yield each line of a streamed response body as it arrives (without the
+ * trailing newline). A final unterminated line is yielded at the end.
+ */
+export async function* readStreamLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex >= 0) {
+        yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield buffer.replace(/\r$/, '');
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Abort `controller` when `signal` aborts, e.g. to cancel an upstream request
+ * when the downstream client goes away.
+ */
+export function forwardAbort(signal: AbortSignal | undefined, controller: AbortController): void {
+  if (!signal) return;
+  if (signal.aborted) {
+    controller.abort();
+    return;
+  }
+  signal.addEventListener('abort', () => controller.abort(), { once: true });
+}
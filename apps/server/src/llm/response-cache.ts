@@ -0,0 +1,139 @@
+/**
+ * LLM Response Cache
+ *
+ * In-memory cache of generated text shared by every learner, so a class
+ * hitting the same error on the same problem costs one provider call instead
+ * of one per student. Entries expire after a TTL and the least recently used
+ * entry is evicted when the cache is full. The cache is per process and is
+ * emptied on restart.
+ */
+
+import crypto from 'node:crypto';
+import type { LLMGenerateResponse } from './provider.js';
+
+export interface ResponseCacheKeyInput {
+  prompt: string;
+  /** Template version the prompt was rendered from, if any */
+  templateId?: string;
+  model: string;
+  /** Structured output requests get JSON back, so they never share entries with plain ones */
+  structuredOutput?: unknown;
+  /** Sampling settings change the answer, so requests only share entries when these match */
+  params?: ResponseCacheParams;
+}
+
+export interface ResponseCacheParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+}
+
+export interface ResponseCacheConfig {
+  maxEntries: number;
+  ttlMs: number;
+  /** Clock, replaceable in tests */
+  now?: () => number;
+}
+
+interface CacheEntry {
+  response: LLMGenerateResponse;
+  expiresAt: number;
+}
+
+/**
+ * Collapse whitespace runs and trim, so prompts differing only in layout
+ * share a cache entry
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fixed-order tuple of sampling settings, so key order in the request and
+ * omitted settings never split or merge entries
+ */
+function normalizeParams(params: ResponseCacheParams | undefined): Array<number | null> {
+  return [params?.temperature ?? null, params?.top_p ?? null, params?.max_tokens ?? null];
+}
+
+export function buildResponseCacheKey(input: ResponseCacheKeyInput): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      normalizePrompt(input.prompt),
+      input.templateId ?? null,
+      input.model,
+      input.structuredOutput ?? null,
+      normalizeParams(input.params),
+    ]))
+    .digest('hex');
+}
+
+export class LLMResponseCache {
+  // Map iteration order is insertion order; re-inserting on read keeps it LRU
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+
+  constructor(config: ResponseCacheConfig) {
+    this.maxEntries = config.maxEntries;
+    this.ttlMs = config.ttlMs;
+    this.now = config.now ?? Date.now;
+  }
+
+  get enabled(): boolean {
+    return this.maxEntries > 0 && this.ttlMs > 0;
+  }
+
+  get(key: string): LLMGenerateResponse | null {
+    if (!this.enabled) return null;
+
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.response;
+  }
+
+  set(key: string, response: LLMGenerateResponse): void {
+    if (!this.enabled) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: this.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  stats(): ResponseCacheStats {
+    return {
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * LTI Assignment and Grade Services (AGS)
+ *
+ * Client-credentials tokens, line item creation and score passback.
+ */
+
+import crypto from 'node:crypto';
+import type { LtiPlatformConfig } from '../config.js';
+import { signWithToolKey } from './keys.js';
+
+export const AGS_SCOPE = {
+  lineItem: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+  score: 'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+} as const;
+
+export interface LtiScore {
+  userId: string;
+  scoreGiven: number;
+  scoreMaximum: number;
+  activityProgress: 'Initialized' | 'Started' | 'InProgress' | 'Submitted' | 'Completed';
+  gradingProgress: 'FullyGraded' | 'Pending' | 'PendingManual' | 'Failed' | 'NotReady';
+  timestamp: string;
+  comment?: string;
+}
+
+/**
+ * OAuth2 client_credentials grant with a JWT client assertion signed by the
+ * tool key (LTI Security Framework, section 4.1).
+ */
+export async function getAgsAccessToken(platform: LtiPlatformConfig, scopes: string[]): Promise<string> {
+  const assertion = signWithToolKey({
+    iss: platform.clientId,
+    sub: platform.clientId,
+    aud: platform.authTokenUrl,
+    jti: crypto.randomUUID(),
+  });
+  const response = await fetch(platform.authTokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+      client_assertion: assertion,
+      scope: scopes.join(' '),
+    }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    throw new Error(`AGS token request failed with ${response.status}`);
+  }
+  const body = (await response.json()) as { access_token?: string };
+  if (!body.access_token) {
+    throw new Error('AGS token response had no access_token');
+  }
+  return body.access_token;
+}
+
+/**
+ * Create a line item in the platform gradebook; returns its URL.
+ */
+export async function createLineItem(
+  accessToken: string,
+  lineItemsUrl: string,
+  item: { label: string; scoreMaximum: number; resourceId: string; resourceLinkId?: string }
+): Promise<string> {
+  const response = await fetch(lineItemsUrl, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/vnd.ims.lis.v2.lineitem+json',
+      Accept: 'application/vnd.ims.lis.v2.lineitem+json',
+    },
+    body: JSON.stringify(item),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    throw new Error(`Line item creation failed with ${response.status}`);
+  }
+  const body = (await response.json()) as { id?: string };
+  if (!body.id) {
+    throw new Error('Line item response had no id');
+  }
+  return body.id;
+}
+
+/**
+ * POST a score to `<lineitem>/scores`, keeping any query string on the line item URL.
+ */
+export async function postScore(accessToken: string, lineItemUrl: string, score: LtiScore): Promise<void> {
+  const url = new URL(lineItemUrl);
+  url.pathname = `${url.pathname.replace(/\/+$/, '')}/scores`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/vnd.ims.lis.v1.score+json',
+    },
+    body: JSON.stringify(score),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    throw new Error(`Score passback failed with ${response.status}`);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * LTI Deep Linking
+ *
+ * Builds the signed LtiDeepLinkingResponse that places assignments in the
+ * LMS course as gradable resource links.
+ */
+
+import crypto from 'node:crypto';
+import type { LtiPlatformConfig } from '../config.js';
+import { LTI_CLAIM } from './launch.js';
+import { signWithToolKey } from './keys.js';
+
+export interface DeepLinkAssignment {
+  id: string;
+  title: string;
+  description: string;
+  problemCount: number;
+}
+
+export function buildDeepLinkingResponse(params: {
+  platform: LtiPlatformConfig;
+  deploymentId: string;
+  data: string | null;
+  launchUrl: string;
+  assignments: DeepLinkAssignment[];
+}): string {
+  const contentItems = params.assignments.map((assignment) => ({
+    type: 'ltiResourceLink',
+    title: assignment.title,
+    text: assignment.description || undefined,
+    url: params.launchUrl,
+    custom: { assignment_id: assignment.id },
+    lineItem: {
+      label: assignment.title,
+      scoreMaximum: assignment.problemCount,
+      resourceId: assignment.id,
+    },
+  }));
+
+  return signWithToolKey({
+    iss: params.platform.clientId,
+    aud: params.platform.issuer,
+    nonce: crypto.randomBytes(16).toString('hex'),
+    [LTI_CLAIM.messageType]: 'LtiDeepLinkingResponse',
+    [LTI_CLAIM.version]: '1.3.0',
+    [LTI_CLAIM.deploymentId]: params.deploymentId,
+    [LTI_CLAIM.deepLinkingContentItems]: contentItems,
+    ...(params.data ? { [LTI_CLAIM.deepLinkingData]: params.data } : {}),
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * LTI Module Index
+ *
+ * LTI 1.3 tool provider: launch validation, deep linking and AGS score passback
+ */
+
+export { getToolJwks, signWithToolKey } from './keys.js';
+export {
+  LTI_CLAIM,
+  LtiLaunchError,
+  createLoginState,
+  findPlatform,
+  verifyLaunch,
+  type LtiLaunch,
+  type LtiMessageType,
+} from './launch.js';
+export { buildDeepLinkingResponse, type DeepLinkAssignment } from './deep-linking.js';
+export { AGS_SCOPE, createLineItem, getAgsAccessToken, postScore, type LtiScore } from './ags.js';
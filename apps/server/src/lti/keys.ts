@@ -0,0 +1,42 @@
+/**
+ * LTI Tool Keys
+ *
+ * The RSA key this tool signs deep linking responses and AGS client
+ * assertions with, and the JWKS platforms fetch to verify them.
+ */
+
+import crypto, { type JsonWebKey, type KeyObject } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { LTI_KEY_ID, LTI_PRIVATE_KEY, NODE_ENV } from '../config.js';
+
+let toolKey: KeyObject | null = null;
+
+/**
+ * The configured tool key. Outside production a key is generated once per
+ * process so launches work locally without setup; platforms re-fetch the JWKS.
+ */
+function getToolKey(): KeyObject {
+  if (toolKey) return toolKey;
+  if (LTI_PRIVATE_KEY) {
+    toolKey = crypto.createPrivateKey(LTI_PRIVATE_KEY);
+  } else if (NODE_ENV !== 'production') {
+    console.warn('[lti] LTI_PRIVATE_KEY not set, using an ephemeral development key');
+    toolKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+  } else {
+    throw new Error('LTI_PRIVATE_KEY must be set in production');
+  }
+  return toolKey;
+}
+
+export function getToolJwks(): { keys: JsonWebKey[] } {
+  const jwk = crypto.createPublicKey(getToolKey()).export({ format: 'jwk' });
+  return { keys: [{ ...jwk, kid: LTI_KEY_ID, alg: 'RS256', use: 'sig' }] };
+}
+
+export function signWithToolKey(payload: Record<string, unknown>, expiresInSeconds = 300): string {
+  return jwt.sign(payload, getToolKey(), {
+    algorithm: 'RS256',
+    keyid: LTI_KEY_ID,
+    expiresIn: expiresInSeconds,
+  });
+}
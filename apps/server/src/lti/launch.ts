@@ -0,0 +1,236 @@
+/**
+ * LTI Launch Validation
+ *
+ * OIDC login state and id_token verification for LTI 1.3 launches
+ * (resource link and deep linking requests).
+ */
+
+import crypto, { type JsonWebKey, type KeyObject } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { JWT_SECRET, LTI_PLATFORMS, type LtiPlatformConfig } from '../config.js';
+import { consumeLtiNonce } from '../db/lti.js';
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+export const LTI_CLAIM = {
+  messageType: 'https://purl.imsglobal.org/spec/lti/claim/message_type',
+  version: 'https://purl.imsglobal.org/spec/lti/claim/version',
+  deploymentId: 'https://purl.imsglobal.org/spec/lti/claim/deployment_id',
+  targetLinkUri: 'https://purl.imsglobal.org/spec/lti/claim/target_link_uri',
+  resourceLink: 'https://purl.imsglobal.org/spec/lti/claim/resource_link',
+  roles: 'https://purl.imsglobal.org/spec/lti/claim/roles',
+  context: 'https://purl.imsglobal.org/spec/lti/claim/context',
+  custom: 'https://purl.imsglobal.org/spec/lti/claim/custom',
+  ags: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint',
+  deepLinkingSettings: 'https://purl.imsglobal.org/spec/lti-dl/claim/deep_linking_settings',
+  deepLinkingContentItems: 'https://purl.imsglobal.org/spec/lti-dl/claim/content_items',
+  deepLinkingData: 'https://purl.imsglobal.org/spec/lti-dl/claim/data',
+} as const;
+
+export type LtiMessageType = 'LtiResourceLinkRequest' | 'LtiDeepLinkingRequest';
+
+export interface LtiLaunch {
+  platform: LtiPlatformConfig;
+  messageType: LtiMessageType;
+  deploymentId: string;
+  subject: string;
+  name: string;
+  role: 'student' | 'instructor';
+  context: { id: string; title: string } | null;
+  resourceLinkId: string | null;
+  custom: Record<string, string>;
+  ags: { lineitem: string | null; lineitems: string | null; scopes: string[] } | null;
+  deepLinking: { returnUrl: string; data: string | null } | null;
+}
+
+export class LtiLaunchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LtiLaunchError';
+  }
+}
+
+// ============================================================================
+// Platforms
+// ============================================================================
+
+export function findPlatform(issuer: string, clientId?: string): LtiPlatformConfig | null {
+  const normalized = issuer.replace(/\/+$/, '');
+  return LTI_PLATFORMS.find((platform) =>
+    platform.issuer === normalized && (clientId === undefined || platform.clientId === clientId)
+  ) ?? null;
+}
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const jwksCache = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+async function fetchPlatformKeys(platform: LtiPlatformConfig, forceRefresh: boolean): Promise<JsonWebKey[]> {
+  const cached = jwksCache.get(platform.jwksUrl);
+  if (cached && !forceRefresh && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL_MS) {
+    return cached.keys;
+  }
+  const response = await fetch(platform.jwksUrl, { signal: AbortSignal.timeout(10000) });
+  if (!response.ok) {
+    throw new LtiLaunchError(`Platform JWKS request failed with ${response.status}`);
+  }
+  const body = (await response.json()) as { keys?: JsonWebKey[] };
+  const keys = body.keys ?? [];
+  jwksCache.set(platform.jwksUrl, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+/**
+ * Platform signing key for a token's kid. A miss refreshes the JWKS once so
+ * platform key rotation is picked up before the cache expires.
+ */
+async function getPlatformKey(platform: LtiPlatformConfig, kid: string | undefined): Promise<KeyObject> {
+  for (const forceRefresh of [false, true]) {
+    const keys = await fetchPlatformKeys(platform, forceRefresh);
+    const jwk = kid ? keys.find((key) => key.kid === kid) : keys[0];
+    if (jwk) {
+      return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    }
+  }
+  throw new LtiLaunchError('No platform key matches the id_token');
+}
+
+// ============================================================================
+// OIDC login state
+// ============================================================================
+
+interface LoginState {
+  iss: string;
+  clientId: string;
+  nonce: string;
+}
+
+const LOGIN_STATE_TTL_SECONDS = 10 * 60;
+
+/**
+ * The login state is a short-lived signed token rather than a cookie: the
+ * launch is a cross-site POST from the LMS frame, which SameSite=Lax cookies
+ * do not survive. Nonces are single-use (see consumeLtiNonce).
+ */
+export function createLoginState(platform: LtiPlatformConfig): { state: string; nonce: string } {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const state = jwt.sign(
+    { iss: platform.issuer, clientId: platform.clientId, nonce } satisfies LoginState,
+    JWT_SECRET,
+    { expiresIn: LOGIN_STATE_TTL_SECONDS, audience: 'lti-login-state' }
+  );
+  return { state, nonce };
+}
+
+function readLoginState(state: string): LoginState {
+  try {
+    return jwt.verify(state, JWT_SECRET, { audience: 'lti-login-state' }) as LoginState;
+  } catch {
+    throw new LtiLaunchError('Login state is missing, invalid or expired');
+  }
+}
+
+// ============================================================================
+// id_token
+// ============================================================================
+
+const INSTRUCTOR_ROLE_PATTERN = /#(Instructor|Administrator|ContentDeveloper)$/;
+
+/**
+ * Staff role claims only make an instructor on registrations that set
+ * allowInstructors; elsewhere every launch is a student launch
+ */
+function launchRole(platform: LtiPlatformConfig, roles: string[]): LtiLaunch['role'] {
+  return platform.allowInstructors && roles.some((role) => INSTRUCTOR_ROLE_PATTERN.test(role))
+    ? 'instructor'
+    : 'student';
+}
+
+function stringClaim(claims: Record<string, unknown>, key: string): string | null {
+  const value = claims[key];
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+/**
+ * Verify an id_token posted to the launch endpoint against the login state
+ * and the issuing platform's keys, and read the claims the tool uses.
+ */
+export async function verifyLaunch(idToken: string, state: string): Promise<LtiLaunch> {
+  const loginState = readLoginState(state);
+  const platform = findPlatform(loginState.iss, loginState.clientId);
+  if (!platform) {
+    throw new LtiLaunchError('Platform is not registered');
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new LtiLaunchError('id_token is not a JWT');
+  }
+  const key = await getPlatformKey(platform, decoded.header.kid);
+
+  let claims: Record<string, unknown>;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      issuer: [platform.issuer, `${platform.issuer}/`],
+      audience: platform.clientId,
+    }) as Record<string, unknown>;
+  } catch (error) {
+    throw new LtiLaunchError(`id_token rejected: ${(error as Error).message}`);
+  }
+
+  const nonceMatches = claims.nonce === loginState.nonce;
+  if (!nonceMatches || !(await consumeLtiNonce(loginState.nonce, LOGIN_STATE_TTL_SECONDS * 1000))) {
+    throw new LtiLaunchError('Nonce mismatch or replayed launch');
+  }
+  if (claims[LTI_CLAIM.version] !== '1.3.0') {
+    throw new LtiLaunchError('Unsupported LTI version');
+  }
+  const messageType = claims[LTI_CLAIM.messageType];
+  if (messageType !== 'LtiResourceLinkRequest' && messageType !== 'LtiDeepLinkingRequest') {
+    throw new LtiLaunchError(`Unsupported message type: ${String(messageType)}`);
+  }
+  const deploymentId = stringClaim(claims, LTI_CLAIM.deploymentId);
+  if (!deploymentId || (platform.deploymentIds.length > 0 && !platform.deploymentIds.includes(deploymentId))) {
+    throw new LtiLaunchError('Unknown deployment');
+  }
+  const subject = stringClaim(claims, 'sub');
+  if (!subject) {
+    throw new LtiLaunchError('Anonymous launches are not supported');
+  }
+
+  const roles = Array.isArray(claims[LTI_CLAIM.roles]) ? (claims[LTI_CLAIM.roles] as string[]) : [];
+  const context = claims[LTI_CLAIM.context] as { id?: string; title?: string; label?: string } | undefined;
+  const resourceLink = claims[LTI_CLAIM.resourceLink] as { id?: string } | undefined;
+  const ags = claims[LTI_CLAIM.ags] as { lineitem?: string; lineitems?: string; scope?: string[] } | undefined;
+  const deepLinking = claims[LTI_CLAIM.deepLinkingSettings] as { deep_link_return_url?: string; data?: string } | undefined;
+  const custom = (claims[LTI_CLAIM.custom] ?? {}) as Record<string, unknown>;
+
+  if (messageType === 'LtiDeepLinkingRequest' && !deepLinking?.deep_link_return_url) {
+    throw new LtiLaunchError('Deep linking request without a return URL');
+  }
+
+  const name = stringClaim(claims, 'name')
+    ?? [stringClaim(claims, 'given_name'), stringClaim(claims, 'family_name')].filter(Boolean).join(' ');
+
+  return {
+    platform,
+    messageType,
+    deploymentId,
+    subject,
+    name: name || 'LMS User',
+    role: launchRole(platform, roles),
+    context: context?.id ? { id: context.id, title: context.title || context.label || 'LMS Course' } : null,
+    resourceLinkId: resourceLink?.id ?? null,
+    custom: Object.fromEntries(
+      Object.entries(custom).filter(([, value]) => typeof value === 'string')
+    ) as Record<string, string>,
+    ags: ags
+      ? { lineitem: ags.lineitem ?? null, lineitems: ags.lineitems ?? null, scopes: ags.scope ?? [] }
+      : null,
+    deepLinking: deepLinking?.deep_link_return_url
+      ? { returnUrl: deepLinking.deep_link_return_url, data: deepLinking.data ?? null }
+      : null,
+  };
+}
@@ -2,17 +2,25 @@
  * Auth Middleware
  *
  * JWT-based authentication via httpOnly cookies.
- * Cookie name: sql_adapt_auth
+ * sql_adapt_auth    - short-lived access token (ACCESS_TOKEN_TTL_SECONDS)
+ * sql_adapt_refresh - rotating refresh token for POST /api/auth/refresh,
+ *                     backed by the auth_sessions table (sent to /api/auth only)
  *
  * requireAuth  - blocks unauthenticated requests (401)
  * optionalAuth - attaches user if cookie present, continues regardless
- * requireOwnership - verifies req.auth.learnerId === route :learnerId (or user is instructor)
+ * requireOwnership - verifies req.auth.learnerId === route :learnerId (or learner is in the caller's sections)
+ * requireStaff - instructors and TAs; TAs are read-only for other learners' data
+ * requireResearchAccess - instructors and researchers (research API)
+ * requireResearcher - researcher accounts only (research exports)
  */
 
 import type { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { JWT_SECRET } from '../config.js';
+import { ACCESS_TOKEN_TTL_SECONDS, JWT_SECRET, REFRESH_TOKEN_TTL_DAYS } from '../config.js';
+import type { UserRole } from '../types.js';
 import { getSectionForLearnerInInstructorScope } from '../db/sections.js';
+import { createAuthSession, type AuthAccount } from '../db/auth.js';
+import { getDb } from '../db/neon.js';
 import { getCookieBaseOptions } from './cookie-config.js';
 
 // ============================================================================
@@ -23,8 +31,10 @@ export interface AuthPayload {
   accountId: string;
   learnerId: string;
   email: string;
-  role: 'student' | 'instructor';
+  role: UserRole;
   name: string;
+  /** auth_sessions row this access token was issued for */
+  sessionId: string;
 }
 
 declare global {
@@ -40,15 +50,21 @@ declare global {
 // ============================================================================
 
 export const COOKIE_NAME = 'sql_adapt_auth';
-export const COOKIE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const COOKIE_MAX_AGE_MS = ACCESS_TOKEN_TTL_SECONDS * 1000;
+export const REFRESH_COOKIE_NAME = 'sql_adapt_refresh';
+export const REFRESH_TOKEN_TTL_MS = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+/** The refresh cookie only goes to the auth routes that use it */
+const REFRESH_COOKIE_PATH = '/api/auth';
 
 export function signToken(payload: AuthPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '30d' });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
 }
 
 export function verifyToken(token: string): AuthPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as AuthPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as AuthPayload;
+    // Tokens from before server-side sessions cannot be revoked; make them sign in again
+    return payload.sessionId ? payload : null;
   } catch {
     return null;
   }
@@ -73,6 +89,50 @@ export function clearAuthCookie(res: Response): void {
     sameSite,
     httpOnly: true,
   });
+  res.clearCookie(REFRESH_COOKIE_NAME, {
+    path: REFRESH_COOKIE_PATH,
+    secure,
+    sameSite,
+    httpOnly: true,
+  });
+}
+
+export function setRefreshCookie(res: Response, refreshToken: string): void {
+  const { sameSite, secure } = getCookieBaseOptions();
+  res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite,
+    maxAge: REFRESH_TOKEN_TTL_MS,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+export function toAuthPayload(account: AuthAccount, sessionId: string): AuthPayload {
+  return {
+    accountId: account.id,
+    learnerId: account.learnerId,
+    email: account.email,
+    role: account.role,
+    name: account.name,
+    sessionId,
+  };
+}
+
+/**
+ * Sign an account in on this device: create a session and set the access
+ * and refresh cookies. Returns the new session id.
+ */
+export async function startAuthSession(req: Request, res: Response, account: AuthAccount): Promise<string> {
+  const { session, refreshToken } = await createAuthSession(getDb(), {
+    accountId: account.id,
+    ttlMs: REFRESH_TOKEN_TTL_MS,
+    userAgent: req.get?.('user-agent') ?? null,
+    ipAddress: req.ip ?? null,
+  });
+  setAuthCookie(res, signToken(toAuthPayload(account, session.id)));
+  setRefreshCookie(res, refreshToken);
+  return session.id;
 }
 
 // ============================================================================
@@ -125,9 +185,69 @@ export function requireInstructor(req: Request, res: Response, next: NextFunctio
   next();
 }
 
+/**
+ * Requires an instructor or teaching-assistant account. Routes behind this
+ * must still scope data with the section helpers in db/sections.ts.
+ */
+export function requireStaff(req: Request, res: Response, next: NextFunction): void {
+  const auth = req.auth;
+  if (!auth) {
+    res.status(401).json({ success: false, error: 'Authentication required' });
+    return;
+  }
+  if (auth.role !== 'instructor' && auth.role !== 'ta') {
+    res.status(403).json({ success: false, error: 'Instructor or TA role required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Requires an instructor or researcher account. Instructors see their own
+ * sections; researchers see consenting learners (see routes/research.ts).
+ */
+export function requireResearchAccess(req: Request, res: Response, next: NextFunction): void {
+  const auth = req.auth;
+  if (!auth) {
+    res.status(401).json({ success: false, error: 'Authentication required' });
+    return;
+  }
+  if (auth.role !== 'instructor' && auth.role !== 'researcher') {
+    res.status(403).json({ success: false, error: 'Instructor or researcher role required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Requires an authenticated researcher account.
+ */
+export function requireResearcher(req: Request, res: Response, next: NextFunction): void {
+  const auth = req.auth;
+  if (!auth) {
+    res.status(401).json({ success: false, error: 'Authentication required' });
+    return;
+  }
+  if (auth.role !== 'researcher') {
+    res.status(403).json({ success: false, error: 'Researcher role required' });
+    return;
+  }
+  next();
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * TAs may read learners in their sections but never write on their behalf.
+ */
+export function isReadOnlyDenied(auth: AuthPayload, method: string): boolean {
+  return auth.role === 'ta' && !SAFE_METHODS.has(method.toUpperCase());
+}
+
 /**
  * After requireAuth: verifies that the route :learnerId or :id param belongs
- * to the authenticated user. Instructors may access any learner's data.
+ * to the authenticated user. Instructors and TAs may access learners in the
+ * sections they own or are staffed on; TAs only with safe (read) methods.
  *
  * Usage: router.get('/:learnerId/...', requireAuth, requireOwnership, handler)
  */
@@ -164,6 +284,18 @@ export function requireOwnership(req: Request, res: Response, next: NextFunction
     return;
   }
 
+  if (isReadOnlyDenied(auth, req.method)) {
+    console.warn('[authz/ownership_denied]', {
+      route: `${req.method} ${req.baseUrl}${req.path}`,
+      actorRole: auth.role,
+      actorId: auth.learnerId,
+      targetLearnerId: paramLearnerId,
+      targetSectionId: null,
+    });
+    res.status(403).json({ success: false, error: 'Access denied: teaching assistants have read-only access' });
+    return;
+  }
+
   getSectionForLearnerInInstructorScope({
     instructorUserId: auth.learnerId,
     learnerId: paramLearnerId,
@@ -229,6 +361,18 @@ export function requireSectionAccess(req: Request, res: Response, next: NextFunc
     return;
   }
 
+  if (isReadOnlyDenied(auth, req.method)) {
+    console.warn('[authz/section_access_denied]', {
+      route: `${req.method} ${req.baseUrl}${req.path}`,
+      actorRole: auth.role,
+      actorId: auth.learnerId,
+      targetLearnerId: targetLearnerId,
+      targetSectionId: null,
+    });
+    res.status(403).json({ success: false, error: 'Access denied: teaching assistants have read-only access' });
+    return;
+  }
+
   getSectionForLearnerInInstructorScope({
     instructorUserId: auth.learnerId,
     learnerId: targetLearnerId,
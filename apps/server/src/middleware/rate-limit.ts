@@ -8,6 +8,7 @@
  * use user+session keys to prevent students from throttling each other.
  */
 
+import { createHash } from 'crypto';
 import { rateLimit } from 'express-rate-limit';
 import { Request, Response } from 'express';
 
@@ -134,6 +135,103 @@ export const signupRateLimiter = rateLimit({
   },
 });
 
+/**
+ * Password reset rate limiter
+ * 5 requests per 15 minutes per email+IP combination
+ * Covers both requesting a reset email and redeeming a reset token
+ */
+export const passwordResetRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 5, // 5 reset requests per window per email+IP
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: 'Too many password reset attempts',
+    message: 'Too many password reset attempts. Please try again later.',
+    retryAfter: '15 minutes',
+  },
+  keyGenerator: (req: Request) => {
+    const email = (req.body?.email as string)?.toLowerCase()?.trim() ?? 'token';
+    const ip = req.ip ?? 'unknown';
+    return `password-reset:${email}:${ip}`;
+  },
+  handler: (_req: Request, res: Response) => {
+    res.status(429).json({
+      success: false,
+      error: 'Too many password reset attempts',
+      message: 'Too many password reset attempts. Please try again later.',
+      retryAfter: '15 minutes',
+    });
+  },
+});
+
+/**
+ * Account activation rate limiters (roster-imported students)
+ * 5 attempts per 15 minutes per activation link, and 200 per IP
+ *
+ * CLASSROOM SAFE: activation links carry no email, so the per-link limit is
+ * keyed by a hash of the token; the per-IP ceiling is sized for a whole
+ * class activating from behind one NAT.
+ */
+export const activationTokenRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 5, // 5 attempts per window per activation link
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    const token = typeof req.body?.token === 'string' ? req.body.token : '';
+    return `activation:${createHash('sha256').update(token).digest('hex')}`;
+  },
+  handler: (_req: Request, res: Response) => {
+    res.status(429).json({
+      success: false,
+      error: 'Too many activation attempts',
+      message: 'Too many activation attempts. Please try again later.',
+      retryAfter: '15 minutes',
+    });
+  },
+});
+
+export const activationIpRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 200, // 200 activations per window per IP
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    return `activation:ip:${req.ip ?? 'unknown'}`;
+  },
+  handler: (_req: Request, res: Response) => {
+    res.status(429).json({
+      success: false,
+      error: 'Too many activation attempts',
+      message: 'Too many activation attempts. Please try again later.',
+      retryAfter: '15 minutes',
+    });
+  },
+});
+
+/**
+ * Refresh token rate limiter
+ * 60 requests per 15 minutes per IP
+ * Generous enough for several open tabs refreshing short-lived access tokens
+ */
+export const refreshRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 60, // 60 refreshes per window per IP
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: 'Too many session refreshes',
+    message: 'Too many session refreshes. Please try again later.',
+    retryAfter: '15 minutes',
+  },
+  keyGenerator: (req: Request) => {
+    return `refresh:${req.ip ?? 'unknown'}`;
+  },
+});
+
 /**
  * Stricter rate limiter for sensitive operations
  * 10 requests per 15 minutes per user
@@ -0,0 +1,399 @@
+/**
+ * Research Export Pseudonymization
+ *
+ * Replaces learner, section and session identifiers with keyed HMAC-SHA256
+ * pseudonyms, scrubs emails and learner names from free-text fields (SQL is
+ * scrubbed of emails only, so names like "Max" or "Case" cannot break it), drops
+ * configured columns, and describes the resulting InteractionEvent columns in
+ * a data dictionary that ships with the export.
+ *
+ * Pseudonyms are derived from the study id as well as the key, so the same
+ * learner gets the same pseudonym in every export of one study but cannot be
+ * linked across studies.
+ */
+
+import { createHmac } from 'node:crypto';
+import type { AuthEventRow } from './db/neon.js';
+import type { InstructionalUnit, Interaction, Learner } from './types.js';
+
+export type ExportFieldTreatment = 'pseudonymized' | 'scrubbed' | 'dropped' | 'preserved';
+
+export interface PseudonymizationOptions {
+  key: string;
+  studyId: string;
+  /** Interaction fields removed from the export entirely */
+  dropColumns: string[];
+  /** Learner names to scrub from free text, usually every learner in the export */
+  knownNames: string[];
+}
+
+export interface DataDictionaryEntry {
+  field: string;
+  type: string;
+  description: string;
+  treatment: ExportFieldTreatment;
+}
+
+export interface InteractionDataDictionary {
+  studyId: string;
+  pseudonymized: boolean;
+  generatedAt: string;
+  fields: DataDictionaryEntry[];
+}
+
+type FieldDescription = { type: string; description: string };
+
+/**
+ * Every InteractionEvent field that can appear in an export. Typed against
+ * Interaction so a new event field fails the build until it is documented here.
+ */
+export const INTERACTION_FIELD_DESCRIPTIONS: Record<keyof Interaction, FieldDescription> = {
+  id: { type: 'string', description: 'Unique interaction event id' },
+  learnerId: { type: 'string', description: 'Learner who produced the event' },
+  sectionId: { type: 'string | null', description: 'Course section the learner was enrolled in' },
+  sessionId: { type: 'string | null', description: 'Practice session the event belongs to' },
+  timestamp: { type: 'ISO 8601 string', description: 'Client time the event occurred' },
+  eventType: { type: 'string', description: 'Kind of event (execution, hint_view, guidance_escalate, ...)' },
+  problemId: { type: 'string', description: 'Practice problem the learner was working on' },
+  problemSetId: { type: 'string', description: 'Problem set containing the problem' },
+  problemNumber: { type: 'number', description: 'Position of the problem within its set' },
+  code: { type: 'string', description: 'SQL submitted by the learner' },
+  error: { type: 'string', description: 'Database error message returned for the submission' },
+  errorSubtypeId: { type: 'string', description: 'Classified SQL error subtype' },
+  executionTimeMs: { type: 'number', description: 'Query execution time in milliseconds' },
+  hintId: { type: 'string', description: 'Hint shown to the learner' },
+  explanationId: { type: 'string', description: 'Explanation shown to the learner' },
+  hintText: { type: 'string', description: 'Text of the hint shown' },
+  hintLevel: { type: 'number', description: 'Hint ladder level (1-3)' },
+  helpRequestIndex: { type: 'number', description: 'Ordinal of this help request within the problem' },
+  sqlEngageSubtype: { type: 'string', description: 'SQL-Engage error subtype used to select the hint' },
+  sqlEngageRowId: { type: 'string', description: 'SQL-Engage dataset row the hint came from' },
+  policyVersion: { type: 'string', description: 'Guidance policy version active for the event' },
+  timeSpent: { type: 'number', description: 'Time spent on the problem in milliseconds' },
+  successful: { type: 'boolean', description: 'Whether the submission produced the expected result' },
+  resultSimilarity: { type: 'number', description: 'Partial-credit score in [0, 1] for result-graded executions' },
+  ruleFired: { type: 'string', description: 'Guidance rule that produced the event' },
+  templateId: { type: 'string', description: 'Prompt template used for generated content' },
+  inputHash: { type: 'string', description: 'Hash of the generation inputs, for cache replay' },
+  model: { type: 'string', description: 'LLM used for generated content' },
+  noteId: { type: 'string', description: 'Textbook note touched by the event' },
+  noteTitle: { type: 'string', description: 'Title of the textbook note' },
+  noteContent: { type: 'string', description: 'Body of the textbook note' },
+  retrievedSourceIds: { type: 'string[]', description: 'Textbook sources retrieved for grounding' },
+  retrievedChunks: { type: 'object[]', description: 'Retrieved textbook chunks with scores' },
+  triggerInteractionIds: { type: 'string[]', description: 'Interaction events that triggered this one' },
+  evidenceInteractionIds: { type: 'string[]', description: 'Interaction events used as evidence' },
+  sourceInteractionIds: { type: 'string[]', description: 'Interaction events the generated content was built from' },
+  inputs: { type: 'object', description: 'Inputs recorded for the event' },
+  outputs: { type: 'object', description: 'Outputs recorded for the event' },
+  conceptId: { type: 'string', description: 'Primary SQL concept involved' },
+  conceptIds: { type: 'string[]', description: 'All SQL concepts involved' },
+  source: { type: "'problem' | 'hint' | 'textbook'", description: 'Where a concept view was opened from' },
+  totalTime: { type: 'number', description: 'Total session time in milliseconds' },
+  problemsAttempted: { type: 'number', description: 'Problems attempted in the session' },
+  problemsSolved: { type: 'number', description: 'Problems solved in the session' },
+  requestType: { type: "'hint' | 'explanation' | 'textbook'", description: 'Kind of help requested' },
+  currentRung: { type: 'number', description: 'Guidance ladder rung before the request' },
+  rung: { type: 'number', description: 'Guidance ladder rung of the content shown' },
+  grounded: { type: 'boolean', description: 'Whether generated content cited textbook sources' },
+  contentLength: { type: 'number', description: 'Length of the generated content in characters' },
+  fromRung: { type: 'number', description: 'Rung before an escalation' },
+  toRung: { type: 'number', description: 'Rung after an escalation' },
+  trigger: { type: 'string', description: 'What caused the escalation' },
+  unitId: { type: 'string', description: 'Textbook unit created or updated' },
+  action: { type: "'created' | 'updated'", description: 'Textbook unit change' },
+  dedupeKey: { type: 'string', description: 'Key used to merge duplicate textbook units' },
+  revisionCount: { type: 'number', description: 'Revisions of the textbook unit so far' },
+  passageCount: { type: 'number', description: 'Source passages shown' },
+  expanded: { type: 'boolean', description: 'Whether the source view was expanded' },
+  chatMessage: { type: 'string', description: 'Message the learner sent to the textbook chat' },
+  chatResponse: { type: 'string', description: 'Response returned by the textbook chat' },
+  chatQuickChip: { type: 'string', description: 'Quick-reply chip the learner picked' },
+  savedToNotes: { type: 'boolean', description: 'Whether the chat response was saved to notes' },
+  textbookUnitsRetrieved: { type: 'string[]', description: 'Textbook units retrieved for the chat response' },
+  profileId: { type: 'string', description: 'Escalation profile assigned' },
+  assignmentStrategy: { type: "'static' | 'diagnostic' | 'bandit'", description: 'How the escalation profile was assigned' },
+  previousThresholds: { type: 'object', description: 'Escalation thresholds before the update' },
+  newThresholds: { type: 'object', description: 'Escalation thresholds after the update' },
+  selectedArm: { type: 'string', description: 'Bandit arm selected' },
+  selectionMethod: { type: "'thompson_sampling' | 'epsilon_greedy'", description: 'Bandit selection method' },
+  armStatsAtSelection: { type: 'object', description: 'Per-arm statistics when the arm was selected' },
+  reward: { type: 'object', description: 'Bandit reward components' },
+  newAlpha: { type: 'number', description: 'Beta-distribution alpha after the update' },
+  newBeta: { type: 'number', description: 'Beta-distribution beta after the update' },
+  hdi: { type: 'number', description: 'Hint Dependency Index in [0, 1]' },
+  hdiLevel: { type: "'low' | 'medium' | 'high'", description: 'Banded HDI' },
+  hdiComponents: { type: 'object', description: 'Components the HDI was computed from' },
+  trend: { type: "'increasing' | 'stable' | 'decreasing'", description: 'HDI trend' },
+  slope: { type: 'number', description: 'Slope of the HDI trend' },
+  interventionType: { type: 'string', description: 'Dependency intervention applied' },
+  scheduleId: { type: 'string', description: 'Reinforcement schedule' },
+  promptId: { type: 'string', description: 'Reinforcement prompt shown' },
+  promptType: { type: "'mcq' | 'sql_completion' | 'concept_explanation'", description: 'Kind of reinforcement prompt' },
+  response: { type: 'string', description: 'Learner answer to the reinforcement prompt' },
+  isCorrect: { type: 'boolean', description: 'Whether the reinforcement answer was correct' },
+  scheduledTime: { type: 'number', description: 'When the prompt was scheduled (epoch ms)' },
+  shownTime: { type: 'number', description: 'When the prompt was shown (epoch ms)' },
+  learnerProfileId: { type: 'string', description: 'Assigned escalation profile (canonical)' },
+  escalationTriggerReason: { type: 'string', description: 'Reason escalation fired (canonical)' },
+  errorCountAtEscalation: { type: 'number', description: 'Error count when escalation fired (canonical)' },
+  timeToEscalation: { type: 'number', description: 'Milliseconds from first problem interaction to escalation (canonical)' },
+  strategyAssigned: { type: 'string', description: 'Instructional strategy assigned (canonical)' },
+  strategyUpdated: { type: 'string', description: 'Strategy updated after a reward (canonical)' },
+  rewardValue: { type: 'number', description: 'Total reward signal in [0, 1] (canonical)' },
+  payload: { type: 'object', description: 'Legacy event payload' },
+  metadata: { type: 'object', description: 'Additional event metadata' },
+  createdAt: { type: 'ISO 8601 string', description: 'Server time the event was stored' },
+};
+
+export const INTERACTION_EXPORT_FIELDS = Object.keys(INTERACTION_FIELD_DESCRIPTIONS) as Array<keyof Interaction>;
+
+/** Identifier fields replaced with pseudonyms */
+const PSEUDONYMIZED_FIELDS: ReadonlyArray<keyof Interaction> = ['learnerId', 'sectionId', 'sessionId'];
+
+/** Free-text fields scrubbed of emails and learner names (object fields are scrubbed recursively) */
+const SCRUBBED_FIELDS: ReadonlyArray<keyof Interaction> = [
+  'code', 'error', 'hintText', 'noteTitle', 'noteContent', 'chatMessage', 'chatResponse',
+  'response', 'inputs', 'outputs', 'payload', 'metadata',
+];
+
+/** Identifier keys nested in object fields (payload, metadata, ...); their values are pseudonymized */
+const NESTED_IDENTIFIER_KEYS = new Set([
+  'learnerId', 'userId', 'sessionId', 'sectionId', 'accountId',
+  'learner_id', 'user_id', 'session_id', 'section_id', 'account_id',
+]);
+
+/** Keys holding SQL, here or nested in objects; only emails are scrubbed from them */
+const SQL_KEYS = new Set(['code', 'lastCode', 'query', 'sql', 'expectedQuery']);
+
+/**
+ * SQL keywords and functions that double as given names or surnames. A name
+ * part matching one is not scrubbed on its own (the full name still is), so
+ * "Max Case" does not turn every MAX and CASE in an error message into [name].
+ */
+const SQL_WORDS = new Set([
+  'abs', 'all', 'alter', 'and', 'any', 'as', 'asc', 'avg', 'between', 'by', 'case', 'cast',
+  'check', 'coalesce', 'count', 'create', 'cross', 'date', 'day', 'default', 'delete', 'desc',
+  'distinct', 'drop', 'else', 'end', 'except', 'exists', 'false', 'filter', 'foreign', 'from',
+  'full', 'greatest', 'group', 'having', 'ifnull', 'in', 'index', 'inner', 'insert', 'intersect',
+  'into', 'is', 'join', 'key', 'least', 'left', 'length', 'like', 'limit', 'lower', 'max', 'min',
+  'month', 'natural', 'not', 'null', 'nullif', 'offset', 'on', 'or', 'order', 'outer', 'over',
+  'partition', 'primary', 'rank', 'references', 'replace', 'returning', 'right', 'round', 'row',
+  'rows', 'select', 'set', 'some', 'sum', 'table', 'then', 'time', 'top', 'trim', 'true', 'union',
+  'unique', 'update', 'upper', 'using', 'values', 'view', 'when', 'where', 'window', 'with', 'year',
+]);
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+/**
+ * Split a comma-separated column list and report any names that are not
+ * InteractionEvent fields.
+ */
+export function parseDropColumns(raw: string | undefined): { columns: string[]; unknown: string[] } {
+  const requested = (raw ?? '').split(',').map((column) => column.trim()).filter(Boolean);
+  const known = new Set<string>(INTERACTION_EXPORT_FIELDS);
+  return {
+    columns: Array.from(new Set(requested.filter((column) => known.has(column)))),
+    unknown: requested.filter((column) => !known.has(column)),
+  };
+}
+
+export function pseudonymizeId(value: string, options: Pick<PseudonymizationOptions, 'key' | 'studyId'>): string {
+  const digest = createHmac('sha256', options.key).update(`${options.studyId}:${value}`).digest('hex');
+  return `p_${digest.slice(0, 24)}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build one case-insensitive pattern for the given names. Full names are
+ * matched before their parts so "Ada Lovelace" becomes one [name] token.
+ */
+function buildNamePattern(knownNames: string[]): RegExp | null {
+  const terms = new Set<string>();
+  for (const name of knownNames) {
+    const trimmed = name.trim();
+    if (trimmed.length < 2) continue;
+    terms.add(trimmed);
+    for (const part of trimmed.split(/\s+/)) {
+      if (part.length >= 2 && !SQL_WORDS.has(part.toLowerCase())) terms.add(part);
+    }
+  }
+  if (terms.size === 0) return null;
+  const alternatives = Array.from(terms)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'gi');
+}
+
+type IdPseudonymizer = (value: string) => string;
+
+function pseudonymizeNestedId(value: unknown, pseudonymize: IdPseudonymizer): unknown {
+  if (typeof value === 'string' && value) {
+    return pseudonymize(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => pseudonymizeNestedId(item, pseudonymize));
+  }
+  return value;
+}
+
+/**
+ * Scrub emails and names from strings, recursing into arrays and objects.
+ * With `pseudonymize`, values under identifier keys inside objects are
+ * replaced with pseudonyms rather than scrubbed.
+ */
+function scrubValue(value: unknown, namePattern: RegExp | null, pseudonymize?: IdPseudonymizer): unknown {
+  if (typeof value === 'string') {
+    const withoutEmails = value.replace(EMAIL_PATTERN, '[email]');
+    return namePattern ? withoutEmails.replace(namePattern, '[name]') : withoutEmails;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubValue(item, namePattern, pseudonymize));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        pseudonymize && NESTED_IDENTIFIER_KEYS.has(key)
+          ? pseudonymizeNestedId(item, pseudonymize)
+          : scrubField(key, item, namePattern, pseudonymize),
+      ])
+    );
+  }
+  return value;
+}
+
+function scrubField(key: string, value: unknown, namePattern: RegExp | null, pseudonymize?: IdPseudonymizer): unknown {
+  return scrubValue(value, SQL_KEYS.has(key) ? null : namePattern, pseudonymize);
+}
+
+export function scrubFreeText(text: string, knownNames: string[]): string {
+  return scrubValue(text, buildNamePattern(knownNames)) as string;
+}
+
+/**
+ * Returns a function that applies the export options to one interaction.
+ * The name pattern is compiled once per export rather than once per event.
+ */
+export function createInteractionPseudonymizer(
+  options: PseudonymizationOptions
+): (interaction: Interaction) => Partial<Interaction> {
+  const namePattern = buildNamePattern(options.knownNames);
+  const pseudonymize: IdPseudonymizer = (value) => pseudonymizeId(value, options);
+
+  return (interaction) => {
+    const result: Record<string, unknown> = { ...interaction };
+    for (const field of PSEUDONYMIZED_FIELDS) {
+      const value = result[field];
+      if (typeof value === 'string' && value) {
+        result[field] = pseudonymize(value);
+      }
+    }
+    for (const field of SCRUBBED_FIELDS) {
+      if (result[field] !== undefined && result[field] !== null) {
+        result[field] = scrubField(field, result[field], namePattern, pseudonymize);
+      }
+    }
+    return dropInteractionColumns(result, options.dropColumns);
+  };
+}
+
+/** Learner records keep only the pseudonym, role and timestamps */
+export function pseudonymizeLearner(
+  learner: Learner,
+  options: PseudonymizationOptions
+): Omit<Learner, 'name'> {
+  return {
+    id: pseudonymizeId(learner.id, options),
+    role: learner.role,
+    createdAt: learner.createdAt,
+    updatedAt: learner.updatedAt,
+  };
+}
+
+/**
+ * Returns a function that pseudonymizes one textbook unit, sharing one
+ * compiled name pattern across the export like createInteractionPseudonymizer.
+ */
+export function createTextbookUnitPseudonymizer(
+  options: PseudonymizationOptions
+): (unit: InstructionalUnit) => InstructionalUnit {
+  const namePattern = buildNamePattern(options.knownNames);
+
+  return (unit) => ({
+    ...unit,
+    learnerId: pseudonymizeId(unit.learnerId, options),
+    title: scrubValue(unit.title, namePattern) as string,
+    content: scrubValue(unit.content, namePattern) as string,
+  });
+}
+
+/** Auth events lose the (unkeyed) email hash, which could be matched against a known address */
+export function pseudonymizeAuthEvent(
+  event: AuthEventRow,
+  options: PseudonymizationOptions
+): Omit<AuthEventRow, 'emailHash'> {
+  const { emailHash: _emailHash, ...rest } = event;
+  return {
+    ...rest,
+    accountId: event.accountId ? pseudonymizeId(event.accountId, options) : null,
+    learnerId: event.learnerId ? pseudonymizeId(event.learnerId, options) : null,
+    actorAccountId: event.actorAccountId ? pseudonymizeId(event.actorAccountId, options) : null,
+  };
+}
+
+export function buildInteractionDataDictionary(params: {
+  studyId: string;
+  pseudonymized: boolean;
+  dropColumns: string[];
+}): InteractionDataDictionary {
+  const dropped = new Set(params.dropColumns);
+  return {
+    studyId: params.studyId,
+    pseudonymized: params.pseudonymized,
+    generatedAt: new Date().toISOString(),
+    fields: INTERACTION_EXPORT_FIELDS.map((field) => {
+      let treatment: ExportFieldTreatment = 'preserved';
+      if (dropped.has(field)) {
+        treatment = 'dropped';
+      } else if (params.pseudonymized && PSEUDONYMIZED_FIELDS.includes(field)) {
+        treatment = 'pseudonymized';
+      } else if (params.pseudonymized && SCRUBBED_FIELDS.includes(field)) {
+        treatment = 'scrubbed';
+      }
+      return { field, ...INTERACTION_FIELD_DESCRIPTIONS[field], treatment };
+    }),
+  };
+}
+
+/**
+ * Columns to drop for one export: the request's own list, plus the configured
+ * defaults when the export is pseudonymized. Unknown requested names are
+ * reported so the route can reject them; unknown configured names are ignored.
+ */
+export function resolveDropColumns(
+  requested: string | undefined,
+  configured: string[],
+  pseudonymized: boolean
+): { columns: string[]; unknown: string[] } {
+  const fromRequest = parseDropColumns(requested);
+  const fromConfig = pseudonymized ? parseDropColumns(configured.join(',')).columns : [];
+  return {
+    columns: Array.from(new Set([...fromConfig, ...fromRequest.columns])),
+    unknown: fromRequest.unknown,
+  };
+}
+
+export function dropInteractionColumns(
+  interaction: Interaction | Record<string, unknown>,
+  dropColumns: string[]
+): Partial<Interaction> {
+  const result: Record<string, unknown> = { ...interaction };
+  for (const field of dropColumns) {
+    delete result[field];
+  }
+  return result as Partial<Interaction>;
+}
@@ -0,0 +1,253 @@
+/**
+ * Roster Import
+ *
+ * Parses an instructor's CSV roster (name, email, student ID) and decides what
+ * to do with each row: create a pending account, enroll an existing student,
+ * or report it as a duplicate, conflict or invalid row. Database writes happen
+ * in the roster routes; this module only plans them.
+ */
+
+import { z } from 'zod';
+import type { UserRole } from './types.js';
+
+export const ROSTER_IMPORT_MAX_ROWS = 2000;
+
+export type RosterImportOutcome =
+  | 'created'
+  | 'enrolled'
+  | 'already_enrolled'
+  | 'duplicate'
+  | 'conflict'
+  | 'invalid'
+  | 'failed';
+
+export interface RosterCsvRow {
+  /** 1-based line in the uploaded file, for error messages */
+  line: number;
+  name: string;
+  email: string;
+  studentId: string | null;
+}
+
+export interface RosterImportRowResult extends RosterCsvRow {
+  outcome: RosterImportOutcome;
+  reason?: string;
+  learnerId?: string;
+  activationEmailSent?: boolean;
+}
+
+export interface ParsedRoster {
+  rows: RosterCsvRow[];
+  /** Rows rejected while parsing (missing or malformed fields) */
+  invalid: RosterImportRowResult[];
+}
+
+/** What the importer needs to know about an existing account with a roster email */
+export interface ExistingRosterAccount {
+  role: UserRole;
+  learnerId: string;
+  externalStudentId: string | null;
+}
+
+export class RosterCsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RosterCsvError';
+  }
+}
+
+const HEADER_ALIASES = {
+  name: ['name', 'full name', 'student name', 'display name'],
+  firstName: ['first name', 'given name', 'first'],
+  lastName: ['last name', 'family name', 'surname', 'last'],
+  email: ['email', 'e-mail', 'email address', 'login email'],
+  studentId: ['student id', 'studentid', 'student number', 'sis id', 'sis user id', 'id'],
+} as const;
+
+type RosterColumn = keyof typeof HEADER_ALIASES;
+
+const emailSchema = z.string().email();
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields, doubled quotes,
+ * CRLF or LF line endings). Blank lines are kept as empty records so line
+ * numbers stay accurate.
+ */
+export function parseCsvRecords(csv: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = csv.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new RosterCsvError('Unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function normalizeHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+}
+
+/**
+ * Map header cells to roster columns. Returns null when the first record is
+ * not a header (no cell names an email column).
+ */
+function resolveHeader(header: string[]): Partial<Record<RosterColumn, number>> | null {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<RosterColumn, number>> = {};
+  for (const column of Object.keys(HEADER_ALIASES) as RosterColumn[]) {
+    const index = normalized.findIndex((cell) => (HEADER_ALIASES[column] as readonly string[]).includes(cell));
+    if (index >= 0) columns[column] = index;
+  }
+  return columns.email === undefined ? null : columns;
+}
+
+/**
+ * Parse a roster CSV. A header row is optional; without one the columns are
+ * name, email, student ID. Names may also come from first/last name columns.
+ */
+export function parseRosterCsv(csv: string): ParsedRoster {
+  const records = parseCsvRecords(csv);
+  const header = records.length > 0 ? resolveHeader(records[0]) : null;
+  const columns = header ?? { name: 0, email: 1, studentId: 2 };
+  if (header && header.name === undefined && header.firstName === undefined && header.lastName === undefined) {
+    throw new RosterCsvError('The header has an email column but no name column');
+  }
+
+  const rows: RosterCsvRow[] = [];
+  const invalid: RosterImportRowResult[] = [];
+  const cell = (record: string[], column: RosterColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : (record[index] ?? '').trim();
+  };
+
+  records.forEach((record, index) => {
+    if (header && index === 0) return;
+    if (record.every((value) => value.trim() === '')) return;
+
+    const line = index + 1;
+    const name = cell(record, 'name') || [cell(record, 'firstName'), cell(record, 'lastName')].filter(Boolean).join(' ');
+    const email = cell(record, 'email').toLowerCase();
+    const studentId = cell(record, 'studentId') || null;
+    const row = { line, name, email, studentId };
+
+    if (!emailSchema.safeParse(email).success) {
+      invalid.push({ ...row, outcome: 'invalid', reason: email ? 'Invalid email address' : 'Missing email address' });
+    } else if (!name) {
+      invalid.push({ ...row, outcome: 'invalid', reason: 'Missing name' });
+    } else if (name.length > 100) {
+      invalid.push({ ...row, outcome: 'invalid', reason: 'Name is longer than 100 characters' });
+    } else {
+      rows.push(row);
+    }
+  });
+
+  if (rows.length + invalid.length > ROSTER_IMPORT_MAX_ROWS) {
+    throw new RosterCsvError(`Rosters are limited to ${ROSTER_IMPORT_MAX_ROWS} students per import`);
+  }
+  return { rows, invalid };
+}
+
+/**
+ * Decide the outcome of each parsed row against existing accounts and
+ * enrollments. The first occurrence of an email or student ID wins; later
+ * ones are duplicates. Students already in another section are conflicts:
+ * instructors move them explicitly rather than by re-importing.
+ */
+export function planRosterImport(
+  rows: RosterCsvRow[],
+  context: {
+    sectionId: string;
+    accountsByEmail: Map<string, ExistingRosterAccount>;
+    sectionIdsByLearner: Map<string, string[]>;
+  }
+): RosterImportRowResult[] {
+  const seenEmails = new Set<string>();
+  const seenStudentIds = new Set<string>();
+
+  return rows.map((row): RosterImportRowResult => {
+    if (seenEmails.has(row.email)) {
+      return { ...row, outcome: 'duplicate', reason: 'Email appears earlier in the file' };
+    }
+    seenEmails.add(row.email);
+    if (row.studentId) {
+      if (seenStudentIds.has(row.studentId)) {
+        return { ...row, outcome: 'duplicate', reason: 'Student ID appears earlier in the file' };
+      }
+      seenStudentIds.add(row.studentId);
+    }
+
+    const existing = context.accountsByEmail.get(row.email);
+    if (!existing) {
+      return { ...row, outcome: 'created' };
+    }
+
+    const result = { ...row, learnerId: existing.learnerId };
+    if (existing.role !== 'student') {
+      return { ...result, outcome: 'conflict', reason: `Email belongs to an account with the ${existing.role} role` };
+    }
+    if (row.studentId && existing.externalStudentId && row.studentId !== existing.externalStudentId) {
+      return { ...result, outcome: 'conflict', reason: 'Student ID does not match the existing account' };
+    }
+
+    const sectionIds = context.sectionIdsByLearner.get(existing.learnerId) ?? [];
+    if (sectionIds.includes(context.sectionId)) {
+      return { ...result, outcome: 'already_enrolled' };
+    }
+    if (sectionIds.length > 0) {
+      return { ...result, outcome: 'conflict', reason: 'Already enrolled in another section' };
+    }
+    return { ...result, outcome: 'enrolled' };
+  });
+}
+
+export function summarizeRosterImport(results: RosterImportRowResult[]): Record<RosterImportOutcome, number> {
+  const summary: Record<RosterImportOutcome, number> = {
+    created: 0,
+    enrolled: 0,
+    already_enrolled: 0,
+    duplicate: 0,
+    conflict: 0,
+    invalid: 0,
+    failed: 0,
+  };
+  for (const result of results) {
+    summary[result.outcome] += 1;
+  }
+  return summary;
+}
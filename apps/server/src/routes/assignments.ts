@@ -0,0 +1,335 @@
+/**
+ * Assignment API Routes
+ * Instructors release problem lists to a section with open/due dates and
+ * attempt limits; students see the released assignments with their progress.
+ * Completion, late submissions and time-on-task come from interaction_events.
+ * Neon only (sections do not exist in SQLite mode).
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import {
+  createAssignment,
+  deleteAssignment,
+  getAssignmentActivity,
+  getAssignmentById,
+  getAssignmentsBySections,
+  getOpenAssignmentsForSection,
+  getSectionStudents,
+  updateAssignment,
+  type Assignment,
+  type AssignmentProblemActivity,
+} from '../db/assignments.js';
+import { getScopedSections, getSectionForStudent, getTeachingSections } from '../db/sections.js';
+import { requireInstructor } from '../middleware/auth.js';
+import type { ApiResponse } from '../types.js';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const assignmentFields = {
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).optional(),
+  problemIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .refine((ids) => new Set(ids).size === ids.length, 'Problem ids must be unique'),
+  opensAt: z.string().datetime(),
+  dueAt: z.string().datetime(),
+  maxAttempts: z.number().int().positive().nullable().optional(),
+};
+
+const createAssignmentSchema = z
+  .object({ sectionId: z.string().min(1), ...assignmentFields })
+  .refine((data) => Date.parse(data.dueAt) > Date.parse(data.opensAt), {
+    message: 'dueAt must be after opensAt',
+    path: ['dueAt'],
+  });
+
+const updateAssignmentSchema = z.object(assignmentFields).partial();
+
+function validationFailed(res: Response, error: z.ZodError): void {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: 'Validation failed',
+    message: error.message,
+  };
+  res.status(400).json(response);
+}
+
+/**
+ * Load an assignment in one of the requesting instructor's sections (owned or co-instructed).
+ * Responds 404 for other instructors' assignments so ids are not enumerable.
+ */
+async function loadOwnAssignment(req: Request, res: Response): Promise<Assignment | null> {
+  const [assignment, sections] = await Promise.all([
+    getAssignmentById(req.params.id),
+    getTeachingSections(req.auth!.learnerId),
+  ]);
+  if (!assignment || !sections.some((section) => section.id === assignment.sectionId)) {
+    res.status(404).json({ success: false, error: 'Assignment not found' });
+    return null;
+  }
+  return assignment;
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+interface AssignmentStudentReport {
+  learnerId: string;
+  name: string | null;
+  solvedCount: number;
+  completed: boolean;
+  completedAt: string | null;
+  attempts: number;
+  lateAttempts: number;
+  lateSolvedCount: number;
+  timeOnTaskMs: number;
+  lastAttemptAt: string | null;
+  /** Problems where recorded runs exceed the attempt limit */
+  overLimitProblemIds: string[];
+}
+
+function buildStudentReport(
+  assignment: Assignment,
+  learnerId: string,
+  name: string | null,
+  activity: AssignmentProblemActivity[]
+): AssignmentStudentReport {
+  const dueAt = Date.parse(assignment.dueAt);
+  const solved = activity.filter((item) => item.firstSolvedAt !== null);
+  const completed = solved.length === assignment.problemIds.length;
+  const lastSolvedAt = solved
+    .map((item) => item.firstSolvedAt as string)
+    .sort()
+    .at(-1) ?? null;
+
+  return {
+    learnerId,
+    name,
+    solvedCount: solved.length,
+    completed,
+    completedAt: completed ? lastSolvedAt : null,
+    attempts: activity.reduce((sum, item) => sum + item.attempts, 0),
+    lateAttempts: activity.reduce((sum, item) => sum + item.lateAttempts, 0),
+    lateSolvedCount: solved.filter((item) => Date.parse(item.firstSolvedAt as string) > dueAt).length,
+    timeOnTaskMs: activity.reduce((sum, item) => sum + item.timeOnTaskMs, 0),
+    lastAttemptAt: activity
+      .map((item) => item.lastAttemptAt)
+      .filter((value): value is string => value !== null)
+      .sort()
+      .at(-1) ?? null,
+    overLimitProblemIds: assignment.maxAttempts === null
+      ? []
+      : activity.filter((item) => item.attempts > assignment.maxAttempts!).map((item) => item.problemId),
+  };
+}
+
+function buildProblemReport(assignment: Assignment, activity: AssignmentProblemActivity[]) {
+  const dueAt = Date.parse(assignment.dueAt);
+  return assignment.problemIds.map((problemId) => {
+    const forProblem = activity.filter((item) => item.problemId === problemId);
+    const solved = forProblem.filter((item) => item.firstSolvedAt !== null);
+    return {
+      problemId,
+      attemptedCount: forProblem.length,
+      solvedCount: solved.length,
+      lateSolvedCount: solved.filter((item) => Date.parse(item.firstSolvedAt as string) > dueAt).length,
+      averageAttempts: forProblem.length > 0
+        ? forProblem.reduce((sum, item) => sum + item.attempts, 0) / forProblem.length
+        : 0,
+    };
+  });
+}
+
+// ============================================================================
+// Instructor Management - /api/instructor/assignments
+// ============================================================================
+
+const instructorRouter = Router();
+
+instructorRouter.use(requireInstructor);
+
+// GET /api/instructor/assignments - Assignments across the instructor's sections
+instructorRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const sections = await getTeachingSections(req.auth!.learnerId);
+    const assignments = await getAssignmentsBySections(sections.map((section) => section.id));
+    res.json({ success: true, data: assignments });
+  } catch (error) {
+    console.error('[instructor/assignments]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch assignments' });
+  }
+});
+
+// POST /api/instructor/assignments - Create an assignment for a section the caller teaches
+instructorRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const parseResult = createAssignmentSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const { sectionId, ...input } = parseResult.data;
+    const sections = await getTeachingSections(req.auth!.learnerId);
+    if (!sections.some((section) => section.id === sectionId)) {
+      res.status(403).json({ success: false, error: 'You can only assign to sections you teach' });
+      return;
+    }
+
+    const assignment = await createAssignment({
+      ...input,
+      sectionId,
+      createdByUserId: req.auth!.learnerId,
+    });
+    res.status(201).json({ success: true, data: assignment });
+  } catch (error) {
+    console.error('[instructor/assignments:create]', error);
+    res.status(500).json({ success: false, error: 'Failed to create assignment' });
+  }
+});
+
+// PUT /api/instructor/assignments/:id
+instructorRouter.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const parseResult = updateAssignmentSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const existing = await loadOwnAssignment(req, res);
+    if (!existing) return;
+
+    const opensAt = parseResult.data.opensAt ?? existing.opensAt;
+    const dueAt = parseResult.data.dueAt ?? existing.dueAt;
+    if (Date.parse(dueAt) <= Date.parse(opensAt)) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'dueAt must be after opensAt',
+      });
+      return;
+    }
+
+    const assignment = await updateAssignment(existing.id, parseResult.data);
+    res.json({ success: true, data: assignment });
+  } catch (error) {
+    console.error('[instructor/assignments:update]', error);
+    res.status(500).json({ success: false, error: 'Failed to update assignment' });
+  }
+});
+
+// DELETE /api/instructor/assignments/:id
+instructorRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await loadOwnAssignment(req, res);
+    if (!existing) return;
+
+    await deleteAssignment(existing.id);
+    res.json({ success: true, message: 'Assignment deleted' });
+  } catch (error) {
+    console.error('[instructor/assignments:delete]', error);
+    res.status(500).json({ success: false, error: 'Failed to delete assignment' });
+  }
+});
+
+// GET /api/instructor/assignments/:id/report - Completion, lateness and time-on-task
+instructorRouter.get('/:id/report', async (req: Request, res: Response) => {
+  try {
+    const assignment = await loadOwnAssignment(req, res);
+    if (!assignment) return;
+
+    const learners = await getSectionStudents(assignment.sectionId);
+    const activity = await getAssignmentActivity(
+      assignment,
+      learners.map((learner) => learner.learnerId)
+    );
+
+    const students = learners.map((learner) =>
+      buildStudentReport(
+        assignment,
+        learner.learnerId,
+        learner.name,
+        activity.filter((item) => item.learnerId === learner.learnerId)
+      )
+    );
+    const completedCount = students.filter((student) => student.completed).length;
+
+    res.json({
+      success: true,
+      data: {
+        assignment,
+        summary: {
+          studentCount: students.length,
+          completedCount,
+          completionRate: students.length > 0 ? completedCount / students.length : 0,
+          lateStudentCount: students.filter((student) => student.lateAttempts > 0).length,
+          averageTimeOnTaskMs: students.length > 0
+            ? Math.round(students.reduce((sum, student) => sum + student.timeOnTaskMs, 0) / students.length)
+            : 0,
+        },
+        problems: buildProblemReport(assignment, activity),
+        students,
+      },
+    });
+  } catch (error) {
+    console.error('[instructor/assignments:report]', error);
+    res.status(500).json({ success: false, error: 'Failed to build assignment report' });
+  }
+});
+
+// ============================================================================
+// Learner View - /api/assignments
+// ============================================================================
+
+const learnerRouter = Router();
+
+// GET /api/assignments - Released assignments with the caller's progress
+learnerRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const { learnerId, role } = req.auth!;
+
+    // Instructors and TAs preview every assignment in their sections
+    if (role === 'instructor' || role === 'ta') {
+      const sections = await getScopedSections(learnerId);
+      const assignments = await getAssignmentsBySections(sections.map((section) => section.id));
+      res.json({
+        success: true,
+        data: assignments.map((assignment) => ({ ...assignment, progress: [] })),
+      });
+      return;
+    }
+
+    const section = await getSectionForStudent(learnerId);
+    if (!section) {
+      res.json({ success: true, data: [] });
+      return;
+    }
+
+    const assignments = await getOpenAssignmentsForSection(section.id);
+    const data = await Promise.all(
+      assignments.map(async (assignment) => {
+        const activity = await getAssignmentActivity(assignment, [learnerId]);
+        return {
+          ...assignment,
+          progress: activity.map((item) => ({
+            problemId: item.problemId,
+            attempts: item.attempts,
+            solved: item.firstSolvedAt !== null,
+          })),
+        };
+      })
+    );
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('[assignments]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch assignments' });
+  }
+});
+
+export { instructorRouter as instructorAssignmentsRouter, learnerRouter as assignmentsRouter };
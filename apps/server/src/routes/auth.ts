@@ -1,10 +1,23 @@
 /**
  * Auth Routes
  *
- * POST /api/auth/signup  - Create account (student or instructor)
+ * POST /api/auth/signup  - Create account (student, instructor, teaching assistant or researcher)
  * POST /api/auth/login   - Login and receive JWT cookie
- * POST /api/auth/logout  - Clear JWT cookie
+ * POST /api/auth/refresh - Rotate the refresh token and issue a new access token
+ * POST /api/auth/logout  - Revoke this device's session and clear cookies
+ * POST /api/auth/logout-all - Revoke every session for the account
+ * GET  /api/auth/sessions - List the account's active sessions
+ * DELETE /api/auth/sessions/:id - Revoke one session (e.g. a lost device)
  * GET  /api/auth/me      - Return current authenticated user
+ * GET  /api/auth/research-consent - Current learner's research consent decision
+ * PUT  /api/auth/research-consent - Give or withdraw research consent
+ * POST /api/auth/password-reset/request - Email a password reset link
+ * POST /api/auth/password-reset/confirm - Set a new password with a reset token
+ * POST /api/auth/activate - Claim a roster-imported account with its activation token
+ * POST /api/auth/verify-email/request   - Email a verification link to the current user
+ * POST /api/auth/verify-email/confirm   - Mark the email verified with a verification token
+ * PUT  /api/auth/password - Change password (current password required)
+ * DELETE /api/auth/account - Delete the account and its learner data (password required)
  */
 
 import { Router, type Request, type Response } from 'express';
@@ -13,19 +26,36 @@ import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 
 import { isUsingNeon, createUser } from '../db/index.js';
-import { createAuthEvent, getDb, saveLearnerProfile } from '../db/neon.js';
+import { createAuthEvent, getDb, saveLearnerProfile, type AuthEventType } from '../db/neon.js';
 import {
+  consumeAuthToken,
   createAuthAccount,
+  createAuthToken,
+  deleteAuthAccountAndLearner,
   getAuthAccountByEmail,
   getAuthAccountById,
+  getAuthSessionByRefreshToken,
+  listActiveAuthSessions,
+  markAuthAccountEmailVerified,
+  revokeAuthSession,
+  revokeAuthSessionsForAccount,
+  rotateAuthSession,
+  updateAuthAccountPassword,
+  type AuthAccount,
   type AuthAccountPublic,
   toPublicAccount,
 } from '../db/auth.js';
 import {
   signToken,
   setAuthCookie,
+  setRefreshCookie,
   clearAuthCookie,
+  startAuthSession,
+  toAuthPayload,
   COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+  REFRESH_TOKEN_TTL_MS,
+  requireAuth,
   verifyToken,
 } from '../middleware/auth.js';
 import {
@@ -35,19 +65,39 @@ import {
   clearCsrfCookie,
   requireCsrf,
 } from '../middleware/csrf.js';
-import { INSTRUCTOR_SIGNUP_CODE } from '../config.js';
+import {
+  INSTRUCTOR_SIGNUP_CODE,
+  RESEARCH_CONSENT_VERSION,
+  RESEARCHER_SIGNUP_CODE,
+  TA_SIGNUP_CODE,
+  WEB_APP_URL,
+} from '../config.js';
 import {
   createSectionForInstructor,
   enrollStudentInSection,
   getOwnedSectionsByInstructor,
+  getScopedSections,
   getSectionBySignupCode,
   getSectionForStudent,
 } from '../db/sections.js';
-import { loginRateLimiter, signupRateLimiter } from '../middleware/rate-limit.js';
+import { getResearchConsent, setResearchConsent } from '../db/research.js';
+import {
+  activationIpRateLimiter,
+  activationTokenRateLimiter,
+  loginRateLimiter,
+  passwordResetRateLimiter,
+  refreshRateLimiter,
+  signupRateLimiter,
+  strictRateLimiter,
+} from '../middleware/rate-limit.js';
+import { buildEmailVerificationEmail, buildPasswordResetEmail, getEmailTransport } from '../email/index.js';
+import type { UserRole } from '../types.js';
 
 const router = Router();
 
 const SALT_ROUNDS = 12;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
 
 // ============================================================================
 // Validation schemas
@@ -57,9 +107,17 @@ const SignupSchema = z.object({
   name: z.string().min(1).max(100).trim(),
   email: z.string().email().toLowerCase().trim(),
   password: z.string().min(8, 'Password must be at least 8 characters'),
-  role: z.enum(['student', 'instructor']),
+  role: z.enum(['student', 'instructor', 'ta', 'researcher']),
   classCode: z.string().optional(),
   instructorCode: z.string().optional(),
+  taCode: z.string().optional(),
+  researcherCode: z.string().optional(),
+  /** Students only: agreement to have their data used for research (IRB consent) */
+  researchConsent: z.boolean().optional(),
+});
+
+const ResearchConsentSchema = z.object({
+  consented: z.boolean(),
 });
 
 const LoginSchema = z.object({
@@ -67,6 +125,34 @@ const LoginSchema = z.object({
   password: z.string().min(1),
 });
 
+const PasswordResetRequestSchema = z.object({
+  email: z.string().email().toLowerCase().trim(),
+});
+
+const PasswordResetConfirmSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const ActivateAccountSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  researchConsent: z.boolean().optional(),
+});
+
+const EmailVerificationConfirmSchema = z.object({
+  token: z.string().min(1),
+});
+
+const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const DeleteAccountSchema = z.object({
+  password: z.string().min(1),
+});
+
 // Fast path: minimal context for login response (non-blocking)
 // Heavy hydration should be done by the frontend after login
 async function withMinimalSectionContext(account: AuthAccountPublic) {
@@ -79,6 +165,17 @@ async function withMinimalSectionContext(account: AuthAccountPublic) {
     };
   }
 
+  if (account.role === 'ta') {
+    return {
+      ...account,
+      staffSections: [],
+    };
+  }
+
+  if (account.role === 'researcher') {
+    return account;
+  }
+
   // For instructors, return empty sections array - they can fetch full list via /api/instructor/overview
   return {
     ...account,
@@ -89,11 +186,31 @@ async function withMinimalSectionContext(account: AuthAccountPublic) {
 // Full context for when explicitly needed (e.g., /api/auth/me)
 async function withSectionContext(account: AuthAccountPublic) {
   if (account.role === 'student') {
-    const section = await getSectionForStudent(account.learnerId);
+    const [section, consent] = await Promise.all([
+      getSectionForStudent(account.learnerId),
+      getResearchConsent(account.learnerId),
+    ]);
     return {
       ...account,
       sectionId: section?.id ?? null,
       sectionName: section?.name ?? null,
+      researchConsent: consent?.consented ?? null,
+    };
+  }
+
+  if (account.role === 'researcher') {
+    return account;
+  }
+
+  if (account.role === 'ta') {
+    const staffSections = await getScopedSections(account.learnerId);
+    return {
+      ...account,
+      staffSections: staffSections.map((section) => ({
+        id: section.id,
+        name: section.name,
+        accessRole: section.accessRole,
+      })),
     };
   }
 
@@ -119,12 +236,15 @@ function getOrCreateCsrfToken(req: Request, res: Response): string {
 }
 
 async function logAuthEvent(params: {
+  eventType: AuthEventType;
   email?: string;
   accountId?: string | null;
   learnerId?: string | null;
-  role?: 'student' | 'instructor' | null;
+  role?: UserRole | null;
   outcome: 'success' | 'failure';
   failureReason?: string | null;
+  /** Who performed the action, when it was not the account owner */
+  actorAccountId?: string | null;
 }): Promise<void> {
   if (!params.email?.trim()) {
     return;
@@ -132,18 +252,82 @@ async function logAuthEvent(params: {
 
   try {
     await createAuthEvent({
+      eventType: params.eventType,
       email: params.email,
       accountId: params.accountId,
       learnerId: params.learnerId,
       role: params.role,
       outcome: params.outcome,
       failureReason: params.failureReason,
+      actorAccountId: params.actorAccountId,
     });
   } catch (error) {
     console.warn('[auth/telemetry]', error);
   }
 }
 
+/**
+ * Email a verification link. Failures are logged, never surfaced: signup
+ * and the resend endpoint succeed even when the mail server is down.
+ */
+async function sendVerificationEmail(account: AuthAccount): Promise<boolean> {
+  try {
+    const token = await createAuthToken(getDb(), {
+      accountId: account.id,
+      purpose: 'email_verification',
+      ttlMs: EMAIL_VERIFICATION_TTL_MS,
+    });
+    await getEmailTransport().send(
+      buildEmailVerificationEmail({
+        to: account.email,
+        name: account.name,
+        verifyUrl: `${WEB_APP_URL}/verify-email?token=${encodeURIComponent(token)}`,
+        expiresInHours: EMAIL_VERIFICATION_TTL_MS / (60 * 60 * 1000),
+      })
+    );
+    return true;
+  } catch (error) {
+    console.error('[auth/email:verification]', error);
+    return false;
+  }
+}
+
+/**
+ * Look up the account and email it a reset link. Runs after the response is
+ * sent, so the reply takes the same time whether or not the account exists.
+ */
+async function sendPasswordResetEmail(email: string): Promise<void> {
+  try {
+    const db = getDb();
+    const account = await getAuthAccountByEmail(db, email);
+    if (!account) return;
+    const token = await createAuthToken(db, {
+      accountId: account.id,
+      purpose: 'password_reset',
+      ttlMs: PASSWORD_RESET_TTL_MS,
+    });
+    await getEmailTransport().send(
+      buildPasswordResetEmail({
+        to: account.email,
+        name: account.name,
+        resetUrl: `${WEB_APP_URL}/reset-password?token=${encodeURIComponent(token)}`,
+        expiresInMinutes: PASSWORD_RESET_TTL_MS / (60 * 1000),
+      })
+    );
+  } catch (error) {
+    console.error('[auth/email:password-reset]', error);
+  }
+}
+
+function rejectWithoutNeon(res: Response): boolean {
+  if (isUsingNeon()) return false;
+  res.status(503).json({
+    success: false,
+    error: 'Account system requires a Neon database. Running in local SQLite mode.',
+  });
+  return true;
+}
+
 // ============================================================================
 // POST /api/auth/signup
 // ============================================================================
@@ -165,6 +349,7 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
   const parsed = SignupSchema.safeParse(req.body);
   if (!parsed.success) {
     await logAuthEvent({
+      eventType: 'signup',
       email: telemetryEmail,
       outcome: 'failure',
       failureReason: 'validation_error',
@@ -177,12 +362,23 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
     return;
   }
 
-  const { name, email, password, role, classCode, instructorCode } = parsed.data;
+  const {
+    name,
+    email,
+    password,
+    role,
+    classCode,
+    instructorCode,
+    taCode,
+    researcherCode,
+    researchConsent,
+  } = parsed.data;
 
   // Validate instructor code
   if (role === 'instructor') {
     if (!INSTRUCTOR_SIGNUP_CODE) {
       await logAuthEvent({
+        eventType: 'signup',
         email,
         role,
         outcome: 'failure',
@@ -196,6 +392,7 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
     }
     if (!instructorCode || instructorCode !== INSTRUCTOR_SIGNUP_CODE) {
       await logAuthEvent({
+        eventType: 'signup',
         email,
         role,
         outcome: 'failure',
@@ -209,6 +406,70 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
     }
   }
 
+  // Validate TA code. TAs start with no sections; an instructor adds them as section staff.
+  if (role === 'ta') {
+    if (!TA_SIGNUP_CODE) {
+      await logAuthEvent({
+        eventType: 'signup',
+        email,
+        role,
+        outcome: 'failure',
+        failureReason: 'ta_signup_not_configured',
+      });
+      res.status(503).json({
+        success: false,
+        error: 'Teaching assistant signup is not configured on this server',
+      });
+      return;
+    }
+    if (!taCode || taCode !== TA_SIGNUP_CODE) {
+      await logAuthEvent({
+        eventType: 'signup',
+        email,
+        role,
+        outcome: 'failure',
+        failureReason: 'invalid_ta_code',
+      });
+      res.status(403).json({
+        success: false,
+        error: 'Invalid teaching assistant code',
+      });
+      return;
+    }
+  }
+
+  // Validate researcher code
+  if (role === 'researcher') {
+    if (!RESEARCHER_SIGNUP_CODE) {
+      await logAuthEvent({
+        eventType: 'signup',
+        email,
+        role,
+        outcome: 'failure',
+        failureReason: 'researcher_signup_not_configured',
+      });
+      res.status(503).json({
+        success: false,
+        error: 'Researcher signup is not configured on this server',
+      });
+      return;
+    }
+    if (!researcherCode || researcherCode !== RESEARCHER_SIGNUP_CODE) {
+      await logAuthEvent({
+        eventType: 'signup',
+        email,
+        role,
+        outcome: 'failure',
+        failureReason: 'invalid_researcher_code',
+      });
+      res.status(403).json({
+        success: false,
+        error: 'Invalid researcher code',
+      });
+      return;
+    }
+  }
+
   try {
     const db = getDb();
     let studentSection = null as Awaited<ReturnType<typeof getSectionBySignupCode>>;
@@ -217,6 +478,7 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
     if (role === 'student') {
       if (!classCode?.trim()) {
         await logAuthEvent({
+          eventType: 'signup',
           email,
           role,
           outcome: 'failure',
@@ -231,6 +493,7 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
       studentSection = await getSectionBySignupCode(classCode);
       if (!studentSection) {
         await logAuthEvent({
+          eventType: 'signup',
           email,
           role,
           outcome: 'failure',
@@ -248,6 +511,7 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
     const existing = await getAuthAccountByEmail(db, email);
     if (existing) {
       await logAuthEvent({
+        eventType: 'signup',
         email,
         role,
         outcome: 'failure',
@@ -255,7 +519,9 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
       });
       res.status(409).json({
         success: false,
-        error: 'An account with this email already exists',
+        error: existing.pendingActivation
+          ? 'Your instructor already created an account for this email. Use the activation link we emailed you, or reset your password.'
+          : 'An account with this email already exists',
       });
       return;
     }
@@ -295,6 +561,16 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
       });
     }
 
+    // Record the consent decision either way; learners who decline are excluded from research data
+    if (role === 'student') {
+      await setResearchConsent({
+        userId: learnerId,
+        consented: researchConsent ?? false,
+        consentVersion: RESEARCH_CONSENT_VERSION,
+        source: 'signup',
+      });
+    }
+
     if (role === 'student' && studentSection) {
       await enrollStudentInSection({
         sectionId: studentSection.id,
@@ -310,6 +586,7 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
     }
 
     await logAuthEvent({
+      eventType: 'signup',
       email,
       accountId: account.id,
       learnerId: account.learnerId,
@@ -317,15 +594,11 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
       outcome: 'success',
     });
 
-    // Issue JWT cookie
-    const token = signToken({
-      accountId: account.id,
-      learnerId: account.learnerId,
-      email: account.email,
-      role: account.role,
-      name: account.name,
-    });
-    setAuthCookie(res, token);
+    // Not awaited: a slow mail server must not hold up signup
+    void sendVerificationEmail(account);
+
+    // Issue access and refresh cookies for a new session
+    await startAuthSession(req, res, account);
     const csrfToken = createCsrfToken();
     setCsrfCookie(res, csrfToken);
 
@@ -336,6 +609,7 @@ router.post('/signup', signupRateLimiter, async (req: Request, res: Response) =>
     });
   } catch (err) {
     await logAuthEvent({
+      eventType: 'signup',
       email: telemetryEmail,
       outcome: 'failure',
       failureReason: 'internal_error',
@@ -365,6 +639,7 @@ router.post('/login', loginRateLimiter, async (req: Request, res: Response) => {
   const parsed = LoginSchema.safeParse(req.body);
   if (!parsed.success) {
     await logAuthEvent({
+      eventType: 'login',
       email: telemetryEmail,
       outcome: 'failure',
       failureReason: 'validation_error',
@@ -389,6 +664,7 @@ router.post('/login', loginRateLimiter, async (req: Request, res: Response) => {
 
     if (!account || !passwordMatch) {
       await logAuthEvent({
+        eventType: 'login',
         email,
         outcome: 'failure',
         failureReason: 'invalid_credentials',
@@ -400,17 +676,11 @@ router.post('/login', loginRateLimiter, async (req: Request, res: Response) => {
       return;
     }
 
-    const token = signToken({
-      accountId: account.id,
-      learnerId: account.learnerId,
-      email: account.email,
-      role: account.role,
-      name: account.name,
-    });
-    setAuthCookie(res, token);
+    await startAuthSession(req, res, account);
     const csrfToken = createCsrfToken();
     setCsrfCookie(res, csrfToken);
     await logAuthEvent({
+      eventType: 'login',
       email,
       accountId: account.id,
       learnerId: account.learnerId,
@@ -425,6 +695,7 @@ router.post('/login', loginRateLimiter, async (req: Request, res: Response) => {
     });
   } catch (err) {
     await logAuthEvent({
+      eventType: 'login',
       email: telemetryEmail,
       outcome: 'failure',
       failureReason: 'internal_error',
@@ -434,17 +705,185 @@ router.post('/login', loginRateLimiter, async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// POST /api/auth/refresh
+// Trades the refresh cookie for a new access token and a rotated refresh
+// token. No CSRF check: the refresh cookie is SameSite and only ever sent to
+// /api/auth, and this endpoint changes nothing but the caller's own cookies.
+// ============================================================================
+
+router.post('/refresh', refreshRateLimiter, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  const refreshToken = req.cookies?.[REFRESH_COOKIE_NAME];
+  if (typeof refreshToken !== 'string' || !refreshToken) {
+    res.status(401).json({ success: false, error: 'Not authenticated' });
+    return;
+  }
+
+  try {
+    const db = getDb();
+    const result = await rotateAuthSession(db, { refreshToken, ttlMs: REFRESH_TOKEN_TTL_MS });
+
+    if (result.status === 'superseded') {
+      // Another tab rotated this token a moment ago and already holds the new cookies
+      res.status(401).json({ success: false, error: 'Session was refreshed by another request' });
+      return;
+    }
+
+    const account = result.status === 'invalid' ? null : await getAuthAccountById(db, result.session.accountId);
+    if (result.status === 'reused') {
+      // An old refresh token came back: assume it was stolen; the session is already revoked
+      await logAuthEvent({
+        eventType: 'refresh_token_reuse',
+        email: account?.email,
+        accountId: account?.id,
+        learnerId: account?.learnerId,
+        role: account?.role,
+        outcome: 'failure',
+        failureReason: 'refresh_token_reuse',
+      });
+    }
+    if (result.status !== 'rotated' || !account) {
+      clearAuthCookie(res);
+      res.status(401).json({ success: false, error: 'Invalid or expired session' });
+      return;
+    }
+
+    // Re-read the account so role and name changes take effect at the next refresh
+    setAuthCookie(res, signToken(toAuthPayload(account, result.session.id)));
+    setRefreshCookie(res, result.refreshToken);
+    const csrfToken = getOrCreateCsrfToken(req, res);
+    res.json({ success: true, csrfToken });
+  } catch (err) {
+    console.error('[auth/refresh]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // ============================================================================
 // POST /api/auth/logout
 // No rate limiting - logout should always work
 // ============================================================================
 
-router.post('/logout', requireCsrf, (_req: Request, res: Response) => {
+router.post('/logout', requireCsrf, async (req: Request, res: Response) => {
+  try {
+    if (isUsingNeon()) {
+      const db = getDb();
+      const refreshToken = req.cookies?.[REFRESH_COOKIE_NAME];
+      const session = typeof refreshToken === 'string' && refreshToken
+        ? await getAuthSessionByRefreshToken(db, refreshToken)
+        : null;
+      // Fall back to the access token when the refresh cookie is already gone
+      const payload = session ? null : verifyToken(req.cookies?.[COOKIE_NAME] ?? '');
+      const sessionId = session?.id ?? payload?.sessionId;
+      const accountId = session?.accountId ?? payload?.accountId;
+      if (sessionId && accountId && (await revokeAuthSession(db, sessionId, 'logout', accountId))) {
+        const account = await getAuthAccountById(db, accountId);
+        await logAuthEvent({
+          eventType: 'logout',
+          email: account?.email,
+          accountId,
+          learnerId: account?.learnerId,
+          role: account?.role,
+          outcome: 'success',
+        });
+      }
+    }
+  } catch (err) {
+    // Still clear the cookies; the session expires on its own
+    console.error('[auth/logout]', err);
+  }
   clearAuthCookie(res);
   clearCsrfCookie(res);
   res.json({ success: true });
 });
 
+// ============================================================================
+// POST /api/auth/logout-all
+// Revokes every session for the account, including this one
+// ============================================================================
+
+router.post('/logout-all', requireAuth, requireCsrf, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  try {
+    const auth = req.auth!;
+    const revoked = await revokeAuthSessionsForAccount(getDb(), auth.accountId, 'logout_all');
+    await logAuthEvent({
+      eventType: 'logout_all',
+      email: auth.email,
+      accountId: auth.accountId,
+      learnerId: auth.learnerId,
+      role: auth.role,
+      outcome: 'success',
+    });
+    clearAuthCookie(res);
+    clearCsrfCookie(res);
+    res.json({ success: true, data: { revoked } });
+  } catch (err) {
+    console.error('[auth/logout-all]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// GET /api/auth/sessions
+// DELETE /api/auth/sessions/:id
+// ============================================================================
+
+router.get('/sessions', requireAuth, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  try {
+    const sessions = await listActiveAuthSessions(getDb(), req.auth!.accountId);
+    res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === req.auth!.sessionId,
+      })),
+    });
+  } catch (err) {
+    console.error('[auth/sessions]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+router.delete('/sessions/:id', requireAuth, requireCsrf, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  try {
+    const auth = req.auth!;
+    const revoked = await revokeAuthSession(getDb(), req.params.id, 'user_revoked', auth.accountId);
+    if (!revoked) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+    await logAuthEvent({
+      eventType: 'session_revoked',
+      email: auth.email,
+      accountId: auth.accountId,
+      learnerId: auth.learnerId,
+      role: auth.role,
+      outcome: 'success',
+    });
+    if (req.params.id === auth.sessionId) {
+      clearAuthCookie(res);
+      clearCsrfCookie(res);
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[auth/sessions:revoke]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // ============================================================================
 // GET /api/auth/me
 // No rate limiting - session check should always work
@@ -506,6 +945,369 @@ router.get('/me', (req: Request, res: Response) => {
   });
 });
 
+// ============================================================================
+// GET/PUT /api/auth/research-consent
+// Learners can review and change their decision at any time
+// ============================================================================
+
+router.get('/research-consent', requireAuth, async (req: Request, res: Response) => {
+  if (!isUsingNeon()) {
+    res.status(503).json({ success: false, error: 'Research consent requires a Neon database' });
+    return;
+  }
+  if (req.auth!.role !== 'student') {
+    res.status(403).json({ success: false, error: 'Research consent applies to student accounts only' });
+    return;
+  }
+
+  try {
+    const consent = await getResearchConsent(req.auth!.learnerId);
+    res.json({
+      success: true,
+      data: {
+        consented: consent?.consented ?? false,
+        consentVersion: consent?.consentVersion ?? null,
+        currentVersion: RESEARCH_CONSENT_VERSION,
+        updatedAt: consent?.updatedAt ?? null,
+      },
+    });
+  } catch (err) {
+    console.error('[auth/research-consent]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+router.put('/research-consent', requireAuth, requireCsrf, async (req: Request, res: Response) => {
+  if (!isUsingNeon()) {
+    res.status(503).json({ success: false, error: 'Research consent requires a Neon database' });
+    return;
+  }
+  if (req.auth!.role !== 'student') {
+    res.status(403).json({ success: false, error: 'Research consent applies to student accounts only' });
+    return;
+  }
+
+  const parsed = ResearchConsentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: parsed.error.flatten().fieldErrors,
+    });
+    return;
+  }
+
+  try {
+    const consent = await setResearchConsent({
+      userId: req.auth!.learnerId,
+      consented: parsed.data.consented,
+      consentVersion: RESEARCH_CONSENT_VERSION,
+      source: 'settings',
+    });
+    res.json({
+      success: true,
+      data: {
+        consented: consent.consented,
+        consentVersion: consent.consentVersion,
+        currentVersion: RESEARCH_CONSENT_VERSION,
+        updatedAt: consent.updatedAt,
+      },
+    });
+  } catch (err) {
+    console.error('[auth/research-consent:update]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// POST /api/auth/password-reset/request
+// Always answers the same way, before any lookup, so the endpoint cannot be
+// used to probe for accounts by content or timing
+// ============================================================================
+
+router.post('/password-reset/request', passwordResetRateLimiter, (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  const parsed = PasswordResetRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: parsed.error.flatten().fieldErrors,
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: 'If an account exists for that email, a reset link is on its way.',
+  });
+  void sendPasswordResetEmail(parsed.data.email);
+});
+
+// ============================================================================
+// POST /api/auth/password-reset/confirm
+// ============================================================================
+
+router.post('/password-reset/confirm', passwordResetRateLimiter, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  const parsed = PasswordResetConfirmSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: parsed.error.flatten().fieldErrors,
+    });
+    return;
+  }
+
+  try {
+    const db = getDb();
+    const accountId = await consumeAuthToken(db, { token: parsed.data.token, purpose: 'password_reset' });
+    if (!accountId) {
+      res.status(400).json({ success: false, error: 'Invalid or expired reset link' });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(parsed.data.password, SALT_ROUNDS);
+    await updateAuthAccountPassword(db, accountId, passwordHash);
+    // Receiving the reset email proves the learner controls the address
+    await markAuthAccountEmailVerified(db, accountId);
+    // Whoever knew the old password is signed out everywhere
+    await revokeAuthSessionsForAccount(db, accountId, 'password_changed');
+    const account = await getAuthAccountById(db, accountId);
+    await logAuthEvent({
+      eventType: 'password_changed',
+      email: account?.email,
+      accountId,
+      learnerId: account?.learnerId,
+      role: account?.role,
+      outcome: 'success',
+    });
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[auth/password-reset:confirm]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// POST /api/auth/activate
+// Roster-imported students choose a password and record their consent decision
+// ============================================================================
+
+router.post('/activate', activationIpRateLimiter, activationTokenRateLimiter, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  const parsed = ActivateAccountSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: parsed.error.flatten().fieldErrors,
+    });
+    return;
+  }
+
+  try {
+    const db = getDb();
+    const accountId = await consumeAuthToken(db, { token: parsed.data.token, purpose: 'account_activation' });
+    const account = accountId ? await getAuthAccountById(db, accountId) : null;
+    if (!account) {
+      res.status(400).json({ success: false, error: 'Invalid or expired activation link' });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(parsed.data.password, SALT_ROUNDS);
+    await updateAuthAccountPassword(db, account.id, passwordHash);
+    // The activation link went to this address
+    await markAuthAccountEmailVerified(db, account.id);
+    if (account.role === 'student') {
+      await setResearchConsent({
+        userId: account.learnerId,
+        consented: parsed.data.researchConsent ?? false,
+        consentVersion: RESEARCH_CONSENT_VERSION,
+        source: 'signup',
+      });
+    }
+
+    res.json({ success: true, data: { email: account.email } });
+  } catch (err) {
+    console.error('[auth/activate]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// POST /api/auth/verify-email/request
+// ============================================================================
+
+router.post(
+  '/verify-email/request',
+  requireAuth,
+  requireCsrf,
+  strictRateLimiter,
+  async (req: Request, res: Response) => {
+    if (rejectWithoutNeon(res)) return;
+
+    try {
+      const account = await getAuthAccountById(getDb(), req.auth!.accountId);
+      if (!account) {
+        res.status(404).json({ success: false, error: 'Account not found' });
+        return;
+      }
+      if (account.emailVerifiedAt) {
+        res.json({ success: true, data: { alreadyVerified: true } });
+        return;
+      }
+
+      const sent = await sendVerificationEmail(account);
+      if (!sent) {
+        res.status(502).json({ success: false, error: 'Could not send the verification email' });
+        return;
+      }
+      res.json({ success: true, data: { alreadyVerified: false } });
+    } catch (err) {
+      console.error('[auth/verify-email:request]', err);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/auth/verify-email/confirm
+// No session required: the link may be opened on another device
+// ============================================================================
+
+router.post('/verify-email/confirm', passwordResetRateLimiter, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  const parsed = EmailVerificationConfirmSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: parsed.error.flatten().fieldErrors,
+    });
+    return;
+  }
+
+  try {
+    const db = getDb();
+    const accountId = await consumeAuthToken(db, { token: parsed.data.token, purpose: 'email_verification' });
+    if (!accountId) {
+      res.status(400).json({ success: false, error: 'Invalid or expired verification link' });
+      return;
+    }
+    await markAuthAccountEmailVerified(db, accountId);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[auth/verify-email:confirm]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// PUT /api/auth/password
+// ============================================================================
+
+router.put('/password', requireAuth, requireCsrf, strictRateLimiter, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  const parsed = ChangePasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: parsed.error.flatten().fieldErrors,
+    });
+    return;
+  }
+
+  try {
+    const db = getDb();
+    const account = await getAuthAccountById(db, req.auth!.accountId);
+    if (!account) {
+      res.status(404).json({ success: false, error: 'Account not found' });
+      return;
+    }
+    if (!(await bcrypt.compare(parsed.data.currentPassword, account.passwordHash))) {
+      res.status(403).json({ success: false, error: 'Current password is incorrect' });
+      return;
+    }
+
+    await updateAuthAccountPassword(db, account.id, await bcrypt.hash(parsed.data.newPassword, SALT_ROUNDS));
+    // Keep this device signed in; every other device has to sign in with the new password
+    await revokeAuthSessionsForAccount(db, account.id, 'password_changed', req.auth!.sessionId);
+    await logAuthEvent({
+      eventType: 'password_changed',
+      email: account.email,
+      accountId: account.id,
+      learnerId: account.learnerId,
+      role: account.role,
+      outcome: 'success',
+    });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[auth/password]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ============================================================================
+// DELETE /api/auth/account
+// Removes the account and every learner record cascading from users
+// ============================================================================
+
+router.delete('/account', requireAuth, requireCsrf, strictRateLimiter, async (req: Request, res: Response) => {
+  if (rejectWithoutNeon(res)) return;
+
+  const parsed = DeleteAccountSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      details: parsed.error.flatten().fieldErrors,
+    });
+    return;
+  }
+
+  try {
+    const db = getDb();
+    const account = await getAuthAccountById(db, req.auth!.accountId);
+    if (!account) {
+      res.status(404).json({ success: false, error: 'Account not found' });
+      return;
+    }
+    if (!(await bcrypt.compare(parsed.data.password, account.passwordHash))) {
+      res.status(403).json({ success: false, error: 'Password is incorrect' });
+      return;
+    }
+
+    // Deleting an instructor would cascade to their sections and every enrollment
+    if (account.role === 'instructor') {
+      const ownedSections = await getOwnedSectionsByInstructor(account.learnerId);
+      if (ownedSections.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Delete or hand over your sections before deleting your account',
+        });
+        return;
+      }
+    }
+
+    await deleteAuthAccountAndLearner(db, account);
+    clearAuthCookie(res);
+    clearCsrfCookie(res);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[auth/account:delete]', err);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // ============================================================================
 // POST /api/auth/test-seed
 // Preview-only endpoint for deterministic E2E test account provisioning
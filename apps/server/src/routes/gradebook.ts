@@ -0,0 +1,99 @@
+/**
+ * Gradebook API Routes
+ * Per-section gradebook (assignment scores plus practice progress) as JSON
+ * for the instructor dashboard and as Canvas/Moodle-compatible CSV.
+ * Neon only (sections do not exist in SQLite mode).
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { getAssignmentActivity, getAssignmentsBySections } from '../db/assignments.js';
+import { getProblemProgressTotals, getSectionRoster } from '../db/gradebook.js';
+import { getTeachingSections } from '../db/sections.js';
+import { buildGradebook, gradebookToCsv, type Gradebook } from '../gradebook.js';
+import { requireInstructor } from '../middleware/auth.js';
+
+const gradebookQuerySchema = z.object({
+  sectionId: z.string().min(1),
+  format: z.enum(['canvas', 'moodle']).default('canvas'),
+});
+
+/**
+ * Build the gradebook for one of the requesting instructor's sections.
+ * Responds 404 for sections the instructor neither owns nor co-instructs.
+ */
+async function loadOwnGradebook(req: Request, res: Response, sectionId: string): Promise<Gradebook | null> {
+  const sections = await getTeachingSections(req.auth!.learnerId);
+  const section = sections.find((candidate) => candidate.id === sectionId);
+  if (!section) {
+    res.status(404).json({ success: false, error: 'Section not found' });
+    return null;
+  }
+
+  const [roster, assignments] = await Promise.all([
+    getSectionRoster(section.id),
+    getAssignmentsBySections([section.id]),
+  ]);
+  const learnerIds = roster.map((student) => student.learnerId);
+  const [activity, progress] = await Promise.all([
+    Promise.all(assignments.map((assignment) => getAssignmentActivity(assignment, learnerIds))),
+    getProblemProgressTotals(learnerIds),
+  ]);
+
+  return buildGradebook({
+    section: { id: section.id, name: section.name },
+    roster,
+    // Oldest due date first, matching the column order instructors expect in the LMS
+    assignments: [...assignments].sort((a, b) => a.dueAt.localeCompare(b.dueAt)),
+    activityByAssignment: new Map(assignments.map((assignment, index) => [assignment.id, activity[index]])),
+    progress,
+  });
+}
+
+const router = Router();
+
+router.use(requireInstructor);
+
+// GET /api/instructor/gradebook?sectionId=
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const parseResult = gradebookQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: 'Validation failed', message: parseResult.error.message });
+      return;
+    }
+
+    const gradebook = await loadOwnGradebook(req, res, parseResult.data.sectionId);
+    if (!gradebook) return;
+    res.json({ success: true, data: gradebook });
+  } catch (error) {
+    console.error('[instructor/gradebook]', error);
+    res.status(500).json({ success: false, error: 'Failed to build gradebook' });
+  }
+});
+
+// GET /api/instructor/gradebook/export?sectionId=&format=canvas|moodle
+router.get('/export', async (req: Request, res: Response) => {
+  try {
+    const parseResult = gradebookQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: 'Validation failed', message: parseResult.error.message });
+      return;
+    }
+
+    const { sectionId, format } = parseResult.data;
+    const gradebook = await loadOwnGradebook(req, res, sectionId);
+    if (!gradebook) return;
+
+    const slug = gradebook.section.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'section';
+    const date = gradebook.generatedAt.slice(0, 10);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="gradebook-${slug}-${format}-${date}.csv"`);
+    res.send(gradebookToCsv(gradebook, format));
+  } catch (error) {
+    console.error('[instructor/gradebook:export]', error);
+    res.status(500).json({ success: false, error: 'Failed to export gradebook' });
+  }
+});
+
+export { router as gradebookRouter };
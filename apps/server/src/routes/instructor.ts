@@ -11,10 +11,21 @@ import {
 } from '../db/neon.js';
 import {
   getInstructorScopedLearnerIds,
-  getOwnedSectionsByInstructor,
+  getScopedSections,
   getSectionForLearnerInInstructorScope,
 } from '../db/sections.js';
-import { requireInstructor } from '../middleware/auth.js';
+import { requireInstructor, requireStaff } from '../middleware/auth.js';
+import { RESEARCH_EXPORT_DROP_COLUMNS, RESEARCH_PSEUDONYM_KEY, RESEARCH_STUDY_ID } from '../config.js';
+import {
+  buildInteractionDataDictionary,
+  createInteractionPseudonymizer,
+  createTextbookUnitPseudonymizer,
+  dropInteractionColumns,
+  pseudonymizeId,
+  pseudonymizeLearner,
+  resolveDropColumns,
+  type PseudonymizationOptions,
+} from '../research-pseudonymization.js';
 
 const router = Router();
 
@@ -26,7 +37,8 @@ const EXPORT_CONFIG = {
   ESTIMATED_BYTES_PER_INTERACTION: 500, // Approximate memory per interaction
 };
 
-router.use(requireInstructor);
+// Instructors and TAs see the sections they own or are staffed on; raw export stays instructor-only.
+router.use(requireStaff);
 
 const INSTRUCTOR_ANALYTICS_CONCEPT_TOTAL = 6;
 
@@ -35,7 +47,7 @@ router.get('/overview', async (req: Request, res: Response) => {
     const instructorId = req.auth!.learnerId;
     const [learnerIds, sections] = await Promise.all([
       getInstructorScopedLearnerIds(instructorId),
-      getOwnedSectionsByInstructor(instructorId),
+      getScopedSections(instructorId),
     ]);
 
     // Use batch aggregates instead of N+1 queries for better performance
@@ -57,6 +69,7 @@ router.get('/overview', async (req: Request, res: Response) => {
           id: section.id,
           name: section.name,
           studentSignupCode: section.studentSignupCode,
+          accessRole: section.accessRole,
         })),
         learnerCount: learnerIds.length,
         totalInteractions: interactionAggregates.totalCount,
@@ -82,7 +95,7 @@ router.get('/analytics/summary', async (req: Request, res: Response) => {
     const instructorId = req.auth!.learnerId;
     const [learnerIds, sections] = await Promise.all([
       getInstructorScopedLearnerIds(instructorId),
-      getOwnedSectionsByInstructor(instructorId),
+      getScopedSections(instructorId),
     ]);
 
     const withSummaryDiagnostics = async <T>(
@@ -142,6 +155,7 @@ router.get('/analytics/summary', async (req: Request, res: Response) => {
           id: section.id,
           name: section.name,
           studentSignupCode: section.studentSignupCode,
+          accessRole: section.accessRole,
         })),
         totalStudents: learnerIds.length,
         activeToday: activeLearnerCounts.last24Hours,
@@ -312,12 +326,12 @@ router.get('/learner/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/export', async (req: Request, res: Response) => {
+router.get('/export', requireInstructor, async (req: Request, res: Response) => {
   const startedAt = Date.now();
   try {
     const instructorId = req.auth!.learnerId;
     const learnerIds = await getInstructorScopedLearnerIds(instructorId);
-    const sections = await getOwnedSectionsByInstructor(instructorId);
+    const sections = await getScopedSections(instructorId);
 
     // Parse pagination parameters
     const page = Math.max(1, parseInt(req.query.page as string) || 1);
@@ -326,6 +340,25 @@ router.get('/export', async (req: Request, res: Response) => {
       Math.max(1, parseInt(req.query.perPage as string) || EXPORT_CONFIG.DEFAULT_PER_PAGE)
     );
     const useStreaming = req.query.stream === 'true';
+    const pseudonymize = req.query.pseudonymize === 'true';
+    const dropColumns = resolveDropColumns(
+      req.query.dropColumns as string | undefined,
+      RESEARCH_EXPORT_DROP_COLUMNS,
+      pseudonymize
+    );
+
+    if (dropColumns.unknown.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: `Unknown export columns: ${dropColumns.unknown.join(', ')}`,
+      });
+      return;
+    }
+    if (pseudonymize && !RESEARCH_PSEUDONYM_KEY) {
+      res.status(503).json({ success: false, error: 'Pseudonymized exports are not configured' });
+      return;
+    }
 
     // Calculate pagination for learners
     const startLearnerIndex = (page - 1) * perPage;
@@ -352,8 +385,8 @@ router.get('/export', async (req: Request, res: Response) => {
     }
 
     // Fetch learners with pagination
-    const learners = (await Promise.all(paginatedLearnerIds.map((id) => getUserById(id)))).filter(
-      Boolean
+    const rawLearners = (await Promise.all(paginatedLearnerIds.map((id) => getUserById(id)))).filter(
+      (learner): learner is NonNullable<typeof learner> => Boolean(learner)
     );
 
     // 3. Fetch interactions with reduced limit (10000 instead of 100000)
@@ -386,7 +419,54 @@ router.get('/export', async (req: Request, res: Response) => {
       }))
     );
 
-    const interactions = interactionsByLearner.flatMap((item) => item.interactions);
+    // Optional pseudonymization: ids become study-scoped HMAC pseudonyms, names
+    // and emails are scrubbed from free text, and configured columns are dropped
+    const pseudonymization: PseudonymizationOptions | null = pseudonymize
+      ? {
+          key: RESEARCH_PSEUDONYM_KEY,
+          studyId: RESEARCH_STUDY_ID,
+          dropColumns: dropColumns.columns,
+          knownNames: rawLearners.map((learner) => learner.name),
+        }
+      : null;
+    const pseudonymizeInteraction = pseudonymization ? createInteractionPseudonymizer(pseudonymization) : null;
+    const pseudonymizeUnit = pseudonymization ? createTextbookUnitPseudonymizer(pseudonymization) : null;
+    const toExportId = (id: string) => (pseudonymization ? pseudonymizeId(id, pseudonymization) : id);
+    const learners = pseudonymization
+      ? rawLearners.map((learner) => pseudonymizeLearner(learner, pseudonymization))
+      : rawLearners;
+    const exportedByLearner = interactionsByLearner.map((item) => ({
+      learnerId: toExportId(item.learnerId),
+      interactions: item.interactions.map((interaction) =>
+        pseudonymizeInteraction
+          ? pseudonymizeInteraction(interaction)
+          : dropInteractionColumns(interaction, dropColumns.columns)
+      ),
+    }));
+    const exportedTextbook = textbookByLearner.map((item) => ({
+      learnerId: toExportId(item.learnerId),
+      units: pseudonymizeUnit ? item.units.map(pseudonymizeUnit) : item.units,
+    }));
+    const exportMetadata = {
+      actorRole: req.auth!.role,
+      actorId: instructorId,
+      sectionIds: sections.map((section) => toExportId(section.id)),
+      sectionNames: sections.map((section) => section.name),
+      pseudonymization: {
+        enabled: pseudonymize,
+        studyId: pseudonymize ? RESEARCH_STUDY_ID : undefined,
+        droppedColumns: dropColumns.columns,
+      },
+    };
+    const dataDictionary = buildInteractionDataDictionary({
+      studyId: RESEARCH_STUDY_ID,
+      pseudonymized: pseudonymize,
+      dropColumns: dropColumns.columns,
+    });
+    const fieldsPreserved = ['id', 'learnerId', 'sectionId', 'sessionId', 'timestamp', 'eventType', 'problemId']
+      .filter((field) => !dropColumns.columns.includes(field));
+
+    const interactions = exportedByLearner.flatMap((item) => item.interactions);
 
     // Build warnings if limits were reached
     const warnings: string[] = [];
@@ -419,12 +499,7 @@ router.get('/export', async (req: Request, res: Response) => {
         JSON.stringify({
           type: 'metadata',
           exportedAt: new Date().toISOString(),
-          exportMetadata: {
-            actorRole: req.auth!.role,
-            actorId: instructorId,
-            sectionIds: sections.map((section) => section.id),
-            sectionNames: sections.map((section) => section.name),
-          },
+          exportMetadata,
           pagination: {
             page,
             perPage,
@@ -443,24 +518,26 @@ router.get('/export', async (req: Request, res: Response) => {
           learnerCount: learners.length,
           interactionCount: interactions.length,
           textbookUnitCount: textbookByLearner.reduce((acc, item) => acc + item.units.length, 0),
-          fieldsPreserved: ['id', 'learnerId', 'sectionId', 'sessionId', 'timestamp', 'eventType', 'problemId'],
+          fieldsPreserved,
         }) + '\n'
       );
 
+      res.write(JSON.stringify({ type: 'dataDictionary', data: dataDictionary }) + '\n');
+
       // Stream learners
       for (const learner of learners) {
         res.write(JSON.stringify({ type: 'learner', data: learner }) + '\n');
       }
 
       // Stream interactions in batches
-      for (const item of interactionsByLearner) {
+      for (const item of exportedByLearner) {
         for (const interaction of item.interactions) {
           res.write(JSON.stringify({ type: 'interaction', data: interaction }) + '\n');
         }
       }
 
       // Stream textbook units
-      for (const item of textbookByLearner) {
+      for (const item of exportedTextbook) {
         res.write(JSON.stringify({ type: 'textbookUnit', learnerId: item.learnerId, data: item.units }) + '\n');
       }
 
@@ -475,12 +552,7 @@ router.get('/export', async (req: Request, res: Response) => {
       success: boolean;
       data: {
         exportedAt: string;
-        exportMetadata: {
-          actorRole: string;
-          actorId: string;
-          sectionIds: string[];
-          sectionNames: string[];
-        };
+        exportMetadata: typeof exportMetadata;
         pagination: {
           page: number;
           perPage: number;
@@ -494,21 +566,17 @@ router.get('/export', async (req: Request, res: Response) => {
           textbookUnitCount: number;
           fieldsPreserved: string[];
         };
+        dataDictionary: typeof dataDictionary;
         learners: (typeof learners)[number][];
         interactions: typeof interactions;
-        textbookUnits: typeof textbookByLearner;
+        textbookUnits: typeof exportedTextbook;
       };
       warnings?: string[];
     } = {
       success: true,
       data: {
         exportedAt: new Date().toISOString(),
-        exportMetadata: {
-          actorRole: req.auth!.role,
-          actorId: instructorId,
-          sectionIds: sections.map((section) => section.id),
-          sectionNames: sections.map((section) => section.name),
-        },
+        exportMetadata,
         pagination: {
           page,
           perPage,
@@ -520,11 +588,12 @@ router.get('/export', async (req: Request, res: Response) => {
           learnerCount: learners.length,
           interactionCount: interactions.length,
           textbookUnitCount: textbookByLearner.reduce((acc, item) => acc + item.units.length, 0),
-          fieldsPreserved: ['id', 'learnerId', 'sectionId', 'sessionId', 'timestamp', 'eventType', 'problemId'],
+          fieldsPreserved,
         },
+        dataDictionary,
         learners,
         interactions,
-        textbookUnits: textbookByLearner,
+        textbookUnits: exportedTextbook,
       },
     };
 
@@ -87,6 +87,7 @@ export const createInteractionSchema = z.object({
   policyVersion: z.string().optional(),
   timeSpent: z.number().optional(),
   successful: z.boolean().optional(),
+  resultSimilarity: z.number().min(0).max(1).optional(),
   ruleFired: z.string().optional(),
   templateId: z.string().optional(),
   inputHash: z.string().optional(),
@@ -0,0 +1,69 @@
+/**
+ * LLM Usage API Routes
+ * Per-section report of LLM token use, response cache hits and daily budget
+ * refusals for the instructor dashboard.
+ * Neon only (usage is not recorded in SQLite mode).
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { LLM_LEARNER_DAILY_TOKEN_BUDGET, LLM_SECTION_DAILY_TOKEN_BUDGET } from '../config.js';
+import { getSectionRoster } from '../db/gradebook.js';
+import { getSectionLLMUsage } from '../db/llm-usage.js';
+import { getTeachingSections } from '../db/sections.js';
+import { buildLLMUsageReport } from '../llm-usage-report.js';
+import { requireInstructor } from '../middleware/auth.js';
+
+const usageQuerySchema = z.object({
+  sectionId: z.string().min(1),
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+const router = Router();
+
+router.use(requireInstructor);
+
+// GET /api/instructor/llm-usage?sectionId=&days=7
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const parseResult = usageQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json({ success: false, error: 'Validation failed', message: parseResult.error.message });
+      return;
+    }
+
+    const { sectionId, days } = parseResult.data;
+    const sections = await getTeachingSections(req.auth!.learnerId);
+    const section = sections.find((candidate) => candidate.id === sectionId);
+    if (!section) {
+      res.status(404).json({ success: false, error: 'Section not found' });
+      return;
+    }
+
+    const now = new Date();
+    const from = new Date(now);
+    from.setUTCDate(from.getUTCDate() - (days - 1));
+    const [roster, usage] = await Promise.all([
+      getSectionRoster(section.id),
+      getSectionLLMUsage(section.id, from.toISOString().slice(0, 10)),
+    ]);
+
+    const report = buildLLMUsageReport({
+      section: { id: section.id, name: section.name },
+      roster,
+      usage,
+      days,
+      budgets: {
+        learnerDaily: Math.max(0, LLM_LEARNER_DAILY_TOKEN_BUDGET),
+        sectionDaily: Math.max(0, LLM_SECTION_DAILY_TOKEN_BUDGET),
+      },
+      now,
+    });
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('[instructor/llm-usage]', error);
+    res.status(500).json({ success: false, error: 'Failed to build LLM usage report' });
+  }
+});
+
+export { router as llmUsageRouter };
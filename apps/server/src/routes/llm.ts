@@ -1,24 +1,61 @@
 /**
  * LLM API Routes
  * Provider-agnostic LLM API using the provider abstraction layer
- * Supports both Ollama (local) and Groq (hosted) providers
+ * Supports Ollama (local), Groq (hosted), OpenAI-compatible servers
+ * (vLLM, llama.cpp) and a deterministic mock provider
+ *
+ * POST /generate takes either a raw `prompt` or a registry `template`
+ * ({ id, variables }); family ids are resolved to a version for the condition
+ * on the authenticated learner's active session and the version used is
+ * returned as `promptTemplate`. A `conditionId` in the body is ignored, so
+ * learners cannot choose their own arm.
+ *
+ * POST /generate with `stream: true` answers with server-sent events:
+ *   event: token  data: { text }            - next piece of generated text
+ *   event: done   data: GenerateResponse    - full text and metadata
+ *   event: error  data: { error, message }  - generation failed mid-stream
+ *
+ * Responses are cached in memory by normalized prompt, template version and
+ * model, and cache hits are marked `cached: true`. Student generations count
+ * against daily learner and section token budgets: tokens are reserved before
+ * the provider is called and settled to the real count afterwards. Once a
+ * budget is spent /generate answers 429 with `error: 'Token budget exceeded'`
+ * and the client falls back to its deterministic templates. With Neon,
+ * /generate requires a signed-in user; the SQLite dev server has no accounts
+ * and budgets anonymous callers per IP address.
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import type { ApiResponse } from '../types.js';
 import {
   ENABLE_LLM,
   LLM_PROVIDER,
-  OLLAMA_BASE_URL,
+  LLM_TIMEOUT_MS,
+  LLM_CACHE_MAX_ENTRIES,
+  LLM_CACHE_TTL_MS,
+  LLM_LEARNER_DAILY_TOKEN_BUDGET,
+  LLM_SECTION_DAILY_TOKEN_BUDGET,
   OLLAMA_DEFAULT_MODEL,
-  OLLAMA_FALLBACK_MODEL,
-  GROQ_API_KEY,
-  GROQ_MODEL,
+  getLLMProviderConfig,
 } from '../config.js';
+import { getActiveSession, isUsingNeon, recordLLMUsage, reserveLLMTokens, settleLLMTokens } from '../db/index.js';
+import type { LLMTokenReservation, RecordLLMUsageRequest } from '../db/llm-usage.js';
+import { getSectionForStudent } from '../db/sections.js';
+import { requireAuth } from '../middleware/auth.js';
 import {
   createLLMProvider,
   LLMProvider,
+  LLMGenerateRequest,
+  LLMGenerateResponse,
   LLMGenerationParams,
+  LLMResponseCache,
+  buildResponseCacheKey,
+  PROMPT_TEMPLATES,
+  PROMPT_VARIANT_PLANS,
+  PromptAssignment,
+  resolvePromptTemplate,
+  validatePromptVariables,
+  renderPromptTemplate,
 } from '../llm/index.js';
 
 const router = Router();
@@ -28,35 +65,25 @@ const router = Router();
 // ============================================================================
 
 function getProvider(): LLMProvider {
-  if (LLM_PROVIDER === 'groq') {
-    return createLLMProvider({
-      type: 'groq',
-      groqConfig: {
-        apiKey: GROQ_API_KEY,
-        defaultModel: GROQ_MODEL,
-        timeoutMs: 30000,
-      },
-    });
-  }
-
-  return createLLMProvider({
-    type: 'ollama',
-    ollamaConfig: {
-      baseUrl: OLLAMA_BASE_URL,
-      defaultModel: OLLAMA_DEFAULT_MODEL,
-      fallbackModel: OLLAMA_FALLBACK_MODEL,
-      timeoutMs: 60000,
-    },
-  });
+  return createLLMProvider(getLLMProviderConfig());
 }
 
+const responseCache = new LLMResponseCache({
+  maxEntries: LLM_CACHE_MAX_ENTRIES,
+  ttlMs: LLM_CACHE_TTL_MS,
+});
+
 // ============================================================================
 // Types
 // ============================================================================
 
 interface GenerateRequest {
   model?: string;
-  prompt: string;
+  prompt?: string;
+  template?: {
+    id: string;
+    variables: Record<string, unknown>;
+  };
   stream?: boolean;
   options?: {
     temperature?: number;
@@ -79,6 +106,23 @@ interface GenerateResponse {
   latencyMs: number;
   provider: string;
   fallbackUsed?: boolean;
+  promptTemplate?: PromptTemplateStamp;
+  /** Served from the response cache without a provider call */
+  cached?: boolean;
+}
+
+interface PromptTemplateStamp {
+  /** Version id, e.g. explanation.v2 */
+  id: string;
+  family: string;
+  version: number;
+  assignment: PromptAssignment;
+}
+
+/** What a template family is resolved against */
+interface PromptContext {
+  learnerId?: string;
+  conditionId?: string;
 }
 
 // ============================================================================
@@ -92,13 +136,26 @@ function validateGenerateRequest(body: unknown): { valid: boolean; error?: strin
 
   const req = body as Record<string, unknown>;
 
-  if (typeof req.prompt !== 'string' || req.prompt.length === 0) {
+  const template = req.template && typeof req.template === 'object'
+    ? req.template as Record<string, unknown>
+    : undefined;
+  if (template) {
+    if (typeof template.id !== 'string' || template.id.length === 0) {
+      return { valid: false, error: 'template.id is required and must be a non-empty string' };
+    }
+    if (template.variables !== undefined && (typeof template.variables !== 'object' || template.variables === null || Array.isArray(template.variables))) {
+      return { valid: false, error: 'template.variables must be an object' };
+    }
+  } else if (typeof req.prompt !== 'string' || req.prompt.length === 0) {
     return { valid: false, error: 'prompt is required and must be a non-empty string' };
   }
 
   const result: GenerateRequest = {
     model: typeof req.model === 'string' && req.model.trim().length > 0 ? req.model.trim() : undefined,
-    prompt: req.prompt,
+    prompt: template ? undefined : req.prompt as string,
+    template: template
+      ? { id: template.id as string, variables: (template.variables ?? {}) as Record<string, unknown> }
+      : undefined,
     stream: typeof req.stream === 'boolean' ? req.stream : false,
   };
 
@@ -128,6 +185,238 @@ function validateGenerateRequest(body: unknown): { valid: boolean; error?: strin
   return { valid: true, data: result };
 }
 
+/**
+ * Condition recorded on the learner's active session, which the server
+ * stores when the session is created. Anonymous callers and learners without
+ * a session get each family's default version.
+ */
+async function loadPromptContext(req: Request): Promise<PromptContext> {
+  const learnerId = req.auth?.learnerId;
+  if (!learnerId) {
+    return {};
+  }
+  try {
+    const session = await getActiveSession(learnerId);
+    const conditionId = session?.conditionId ?? session?.data?.conditionId;
+    return { learnerId, conditionId: typeof conditionId === 'string' ? conditionId : undefined };
+  } catch (error) {
+    console.error('[llm/condition]', error);
+    return { learnerId };
+  }
+}
+
+/**
+ * Turn a validated request into prompt text, rendering its template if it
+ * names one
+ */
+function resolveRequestPrompt(
+  data: GenerateRequest,
+  context: PromptContext
+): { prompt: string; promptTemplate?: PromptTemplateStamp } | { error: string } {
+  if (!data.template) {
+    return { prompt: data.prompt! };
+  }
+
+  const resolved = resolvePromptTemplate(data.template.id, context);
+  if (!resolved) {
+    return { error: `Unknown prompt template: ${data.template.id}` };
+  }
+  const errors = validatePromptVariables(resolved.template, data.template.variables);
+  if (errors.length > 0) {
+    return { error: `Invalid variables for ${resolved.template.id}: ${errors.join('; ')}` };
+  }
+
+  return {
+    prompt: renderPromptTemplate(resolved.template, data.template.variables),
+    promptTemplate: {
+      id: resolved.template.id,
+      family: resolved.template.family,
+      version: resolved.template.version,
+      assignment: resolved.assignment,
+    },
+  };
+}
+
+// ============================================================================
+// Token Budgets
+// ============================================================================
+
+/** Who a generation is billed to */
+interface UsageContext {
+  /** Account id, or `ip:<address>` for anonymous callers on SQLite */
+  learnerId: string;
+  sectionId: string | null;
+  /** Budgets apply to students and anonymous callers; staff usage is recorded but never refused */
+  budgeted: boolean;
+}
+
+interface TokenBudgetExceeded {
+  scope: 'learner' | 'section';
+  limit: number;
+  used: number;
+  /** Next midnight UTC */
+  resetsAt: string;
+}
+
+/** Output tokens held for a generation in flight until its real usage is known */
+const RESERVED_OUTPUT_TOKENS = 1024;
+
+/**
+ * Neon deployments have accounts, so every generation is billed to one.
+ * SQLite has no sign-in; callers there are billed by IP address.
+ */
+function requireGenerationAuth(req: Request, res: Response, next: NextFunction): void {
+  if (isUsingNeon()) {
+    requireAuth(req, res, next);
+    return;
+  }
+  next();
+}
+
+async function loadUsageContext(req: Request): Promise<UsageContext> {
+  const auth = req.auth;
+  if (!auth?.learnerId) {
+    return { learnerId: `ip:${req.ip ?? 'unknown'}`, sectionId: null, budgeted: true };
+  }
+  const budgeted = auth.role === 'student';
+  const section = budgeted && isUsingNeon() ? await getSectionForStudent(auth.learnerId) : null;
+  return { learnerId: auth.learnerId, sectionId: section?.id ?? null, budgeted };
+}
+
+/**
+ * Reserve tokens for a generation, or report the budget that is spent.
+ * Staff reservations pass no limits, so they are tracked but never refused.
+ */
+async function reserveTokens(
+  usage: UsageContext,
+  prompt: string
+): Promise<{ reservation: LLMTokenReservation } | { exceeded: TokenBudgetExceeded }> {
+  const learnerLimit = usage.budgeted ? LLM_LEARNER_DAILY_TOKEN_BUDGET : 0;
+  const sectionLimit = usage.budgeted && usage.sectionId ? LLM_SECTION_DAILY_TOKEN_BUDGET : 0;
+
+  const result = await reserveLLMTokens({
+    learnerId: usage.learnerId,
+    sectionId: usage.sectionId,
+    tokens: Math.ceil(prompt.length / 4) + RESERVED_OUTPUT_TOKENS,
+    learnerLimit,
+    sectionLimit,
+  });
+  if (result.reserved) {
+    return { reservation: result.reservation };
+  }
+
+  const tomorrow = new Date();
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return {
+    exceeded: { scope: result.scope, limit: result.limit, used: result.used, resetsAt: tomorrow.toISOString() },
+  };
+}
+
+/**
+ * Tokens billed for a generation. Providers that report no usage are
+ * estimated at four characters per token.
+ */
+function billedTokens(prompt: string, result: LLMGenerateResponse): { inputTokens: number; outputTokens: number } {
+  if (result.usage && (result.usage.inputTokens > 0 || result.usage.outputTokens > 0)) {
+    return result.usage;
+  }
+  return {
+    inputTokens: Math.ceil(prompt.length / 4),
+    outputTokens: Math.ceil(result.text.length / 4),
+  };
+}
+
+/** Usage accounting never fails a generation */
+function recordUsage(usage: UsageContext | null, data: Omit<RecordLLMUsageRequest, 'learnerId' | 'sectionId'>): void {
+  if (!usage) return;
+  recordLLMUsage({ learnerId: usage.learnerId, sectionId: usage.sectionId, ...data }).catch((error) => {
+    console.error('[llm/usage]', error);
+  });
+}
+
+/**
+ * Bill a finished generation, or release the tokens held for one that
+ * failed. Without a reservation (the usage store was unreachable when the
+ * generation started) the tokens are recorded directly.
+ */
+function settleUsage(
+  usage: UsageContext | null,
+  reservation: LLMTokenReservation | null,
+  tokens?: { inputTokens: number; outputTokens: number }
+): void {
+  if (!reservation) {
+    if (tokens) recordUsage(usage, tokens);
+    return;
+  }
+  settleLLMTokens({ reservation, ...tokens }).catch((error) => {
+    console.error('[llm/usage]', error);
+  });
+}
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+function writeSseEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  // compression() buffers output until flushed
+  (res as Response & { flush?: () => void }).flush?.();
+}
+
+function startEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+}
+
+async function streamGeneration(
+  res: Response,
+  provider: LLMProvider,
+  request: LLMGenerateRequest,
+  promptTemplate: PromptTemplateStamp | undefined,
+  onComplete: (result: LLMGenerateResponse) => void
+): Promise<void> {
+  startEventStream(res);
+
+  // Stop paying for tokens nobody will read
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const result = await provider.generateStream(
+      { ...request, signal: controller.signal },
+      (delta) => writeSseEvent(res, 'token', { text: delta })
+    );
+    onComplete(result);
+    const data: GenerateResponse = {
+      model: result.model,
+      response: result.text,
+      done: true,
+      usage: result.usage,
+      latencyMs: result.latencyMs,
+      provider: result.provider,
+      fallbackUsed: false,
+      promptTemplate,
+    };
+    writeSseEvent(res, 'done', data);
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('[llm/generate/stream]', error);
+      writeSseEvent(res, 'error', {
+        error: 'Failed to generate text',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  } finally {
+    res.end();
+  }
+}
+
 // ============================================================================
 // GET /api/llm/status - Get LLM service status
 // ============================================================================
@@ -162,6 +451,7 @@ router.get('/status', async (_req: Request, res: Response) => {
       available: boolean;
       provider: string;
       models: string[];
+      defaultModel: string;
     }> = {
       success: true,
       data: {
@@ -169,6 +459,7 @@ router.get('/status', async (_req: Request, res: Response) => {
         available: health.ok,
         provider: health.provider,
         models: health.models.map((m) => m.name),
+        defaultModel: provider.defaultModel,
       },
       message: health.message,
     };
@@ -202,9 +493,9 @@ router.get('/models', async (_req: Request, res: Response) => {
     const provider = getProvider();
     const models = await provider.listModels();
 
-    const response: ApiResponse<{ models: string[] }> = {
+    const response: ApiResponse<{ models: string[]; defaultModel: string }> = {
       success: true,
-      data: { models: models.map((m) => m.name) },
+      data: { models: models.map((m) => m.name), defaultModel: provider.defaultModel },
     };
     res.json(response);
   } catch (error) {
@@ -217,11 +508,41 @@ router.get('/models', async (_req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// GET /api/llm/templates - List registry templates and per-condition variants
+// ============================================================================
+
+router.get('/templates', (_req: Request, res: Response) => {
+  const response: ApiResponse<{
+    templates: Array<{
+      id: string;
+      family: string;
+      version: number;
+      description: string;
+      variables: typeof PROMPT_TEMPLATES[number]['variables'];
+    }>;
+    variants: typeof PROMPT_VARIANT_PLANS;
+  }> = {
+    success: true,
+    data: {
+      templates: PROMPT_TEMPLATES.map(({ id, family, version, description, variables }) => ({
+        id,
+        family,
+        version,
+        description,
+        variables,
+      })),
+      variants: PROMPT_VARIANT_PLANS,
+    },
+  };
+  res.json(response);
+});
+
 // ============================================================================
 // POST /api/llm/generate - Generate text using configured provider
 // ============================================================================
 
-router.post('/generate', async (req: Request, res: Response) => {
+router.post('/generate', requireGenerationAuth, async (req: Request, res: Response) => {
   try {
     if (!ENABLE_LLM) {
       const response: ApiResponse<never> = {
@@ -245,17 +566,28 @@ router.post('/generate', async (req: Request, res: Response) => {
       return;
     }
 
-    const { model, prompt, options, structuredOutput } = validation.data!;
+    const { model, stream, options, structuredOutput } = validation.data!;
+    const resolvedPrompt = resolveRequestPrompt(validation.data!, await loadPromptContext(req));
+    if ('error' in resolvedPrompt) {
+      const response: ApiResponse<never> = {
+        success: false,
+        error: 'Validation failed',
+        message: resolvedPrompt.error,
+      };
+      res.status(400).json(response);
+      return;
+    }
+    const { prompt, promptTemplate } = resolvedPrompt;
 
     const params: LLMGenerationParams = {
       temperature: options?.temperature ?? 0,
       top_p: options?.top_p ?? 1,
-      stream: false,
-      timeoutMs: LLM_PROVIDER === 'groq' ? 30000 : 60000,
+      stream: Boolean(stream),
+      timeoutMs: LLM_TIMEOUT_MS,
     };
 
     const provider = getProvider();
-    const result = await provider.generate({
+    const generateRequest: LLMGenerateRequest = {
       model,
       prompt,
       params,
@@ -263,9 +595,92 @@ router.post('/generate', async (req: Request, res: Response) => {
         format: 'json',
         schema: structuredOutput.schema,
       } : undefined,
+    };
+    const requestedModel = model || provider.defaultModel;
+
+    let usage: UsageContext | null = null;
+    try {
+      usage = await loadUsageContext(req);
+    } catch (error) {
+      console.error('[llm/usage]', error);
+    }
+
+    // Cache hits cost no tokens, so they are served even over budget
+    const cacheKey = buildResponseCacheKey({
+      prompt,
+      templateId: promptTemplate?.id,
+      model: requestedModel,
+      structuredOutput: generateRequest.structuredOutput,
+      params: { temperature: params.temperature, top_p: params.top_p },
     });
+    const cachedResult = responseCache.get(cacheKey);
+    if (cachedResult) {
+      recordUsage(usage, { cacheHit: true });
+      const data: GenerateResponse = {
+        model: cachedResult.model,
+        response: cachedResult.text,
+        done: true,
+        latencyMs: 0,
+        provider: cachedResult.provider,
+        fallbackUsed: cachedResult.model !== requestedModel,
+        promptTemplate,
+        cached: true,
+      };
+      if (params.stream) {
+        startEventStream(res);
+        writeSseEvent(res, 'token', { text: cachedResult.text });
+        writeSseEvent(res, 'done', data);
+        res.end();
+        return;
+      }
+      const response: ApiResponse<GenerateResponse> = { success: true, data };
+      res.json(response);
+      return;
+    }
+
+    let reserved: Awaited<ReturnType<typeof reserveTokens>> | null = null;
+    try {
+      reserved = usage ? await reserveTokens(usage, prompt) : null;
+    } catch (error) {
+      console.error('[llm/usage]', error);
+    }
+    if (reserved && 'exceeded' in reserved) {
+      const { exceeded } = reserved;
+      recordUsage(usage, { budgetFallback: true });
+      const response: ApiResponse<TokenBudgetExceeded> = {
+        success: false,
+        error: 'Token budget exceeded',
+        message: exceeded.scope === 'learner'
+          ? 'Daily AI tutor budget used up; hints will use built-in templates until tomorrow.'
+          : 'Your section has used its daily AI tutor budget; hints will use built-in templates until tomorrow.',
+        data: exceeded,
+      };
+      res.status(429).json(response);
+      return;
+    }
+
+    const reservation = reserved?.reservation ?? null;
+    let settled = false;
+    const completeGeneration = (result: LLMGenerateResponse) => {
+      settled = true;
+      settleUsage(usage, reservation, billedTokens(prompt, result));
+      if (result.text.trim()) {
+        responseCache.set(cacheKey, result);
+      }
+    };
+
+    let result: LLMGenerateResponse;
+    try {
+      if (params.stream) {
+        await streamGeneration(res, provider, generateRequest, promptTemplate, completeGeneration);
+        return;
+      }
+      result = await provider.generate(generateRequest);
+      completeGeneration(result);
+    } finally {
+      if (!settled) settleUsage(usage, reservation);
+    }
 
-    const requestedModel = model || provider.defaultModel;
     const fallbackUsed = result.model !== requestedModel;
 
     const response: ApiResponse<GenerateResponse> = {
@@ -278,6 +693,7 @@ router.post('/generate', async (req: Request, res: Response) => {
         latencyMs: result.latencyMs,
         provider: result.provider,
         fallbackUsed,
+        promptTemplate,
       },
       message: fallbackUsed ? `Primary model unavailable; served by fallback ${result.model}.` : undefined,
     };
@@ -296,11 +712,14 @@ router.post('/generate', async (req: Request, res: Response) => {
 // POST /api/llm/generate/validate - Validate prompt without generating
 // ============================================================================
 
-router.post('/generate/validate', (req: Request, res: Response) => {
+router.post('/generate/validate', async (req: Request, res: Response) => {
   try {
     const validation = validateGenerateRequest(req.body);
+    const resolvedPrompt = validation.valid
+      ? resolveRequestPrompt(validation.data!, await loadPromptContext(req))
+      : { error: validation.error || 'Validation failed' };
 
-    if (!validation.valid) {
+    if ('error' in resolvedPrompt) {
       const response: ApiResponse<{
         valid: boolean;
         errors: string[];
@@ -308,7 +727,7 @@ router.post('/generate/validate', (req: Request, res: Response) => {
         success: true,
         data: {
           valid: false,
-          errors: [validation.error || 'Validation failed'],
+          errors: [resolvedPrompt.error],
         },
       };
       res.json(response);
@@ -322,13 +741,15 @@ router.post('/generate/validate', (req: Request, res: Response) => {
       errors: string[];
       model: string;
       promptLength: number;
+      promptTemplate?: PromptTemplateStamp;
     }> = {
       success: true,
       data: {
         valid: true,
         errors: [],
         model: validation.data!.model || (provider?.defaultModel ?? OLLAMA_DEFAULT_MODEL),
-        promptLength: validation.data!.prompt.length,
+        promptLength: resolvedPrompt.prompt.length,
+        promptTemplate: resolvedPrompt.promptTemplate,
       },
     };
     res.json(response);
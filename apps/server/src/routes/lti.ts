@@ -0,0 +1,572 @@
+/**
+ * LTI 1.3 Routes
+ *
+ * Tool provider endpoints an LMS (Canvas, Moodle, ...) is registered with:
+ *   GET|POST /api/lti/login     - OIDC third-party login initiation
+ *   POST     /api/lti/launch    - id_token launch (resource link or deep linking)
+ *   GET      /api/lti/jwks      - tool public keys
+ *   POST     /api/lti/deep-link - assignment picker submission (deep linking)
+ *
+ * Instructor grade passback (AGS) lives under /api/instructor/lti.
+ * LMS users get their own auth_accounts, LMS courses map onto sections. Neon only.
+ */
+
+import crypto from 'node:crypto';
+import { Router, type Request, type Response } from 'express';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+import { createUser, isUsingNeon, updateUser } from '../db/index.js';
+import { getDb, saveLearnerProfile } from '../db/neon.js';
+import { createAuthAccount, getAuthAccountById, updateAuthAccountRole, type AuthAccount } from '../db/auth.js';
+import {
+  getAssignmentActivity,
+  getAssignmentById,
+  getAssignmentsBySections,
+  getSectionStudentIds,
+  type Assignment,
+} from '../db/assignments.js';
+import {
+  createSectionForInstructor,
+  enrollStudentInSection,
+  getOwnedSectionsByInstructor,
+  getTeachingSections,
+} from '../db/sections.js';
+import {
+  getLtiContextSectionId,
+  getLtiLinkedAssignmentIds,
+  getLtiResourceLinksForAssignment,
+  getLtiSubjectsForLearners,
+  getLtiUserLink,
+  saveLtiContext,
+  saveLtiResourceLink,
+  saveLtiUserLink,
+  setLtiResourceLinkLineItem,
+} from '../db/lti.js';
+import { scoreAssignment } from '../gradebook.js';
+import {
+  AGS_SCOPE,
+  LtiLaunchError,
+  buildDeepLinkingResponse,
+  createLoginState,
+  createLineItem,
+  findPlatform,
+  getAgsAccessToken,
+  getToolJwks,
+  postScore,
+  verifyLaunch,
+  type LtiLaunch,
+} from '../lti/index.js';
+import { JWT_SECRET, LTI_PLATFORMS, LTI_TOOL_URL, LTI_WEB_APP_URL } from '../config.js';
+import { requireInstructor, startAuthSession } from '../middleware/auth.js';
+import { createCsrfToken, setCsrfCookie } from '../middleware/csrf.js';
+
+const SALT_ROUNDS = 12;
+const LAUNCH_URL = `${LTI_TOOL_URL}/api/lti/launch`;
+const DEEP_LINK_URL = `${LTI_TOOL_URL}/api/lti/deep-link`;
+
+// ============================================================================
+// HTML helpers (responses rendered inside the LMS frame)
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:40rem;margin:2rem auto;padding:0 1rem;color:#111}
+label{display:block;margin:.5rem 0}button{margin-top:1rem;padding:.5rem 1rem}</style></head>
+<body>${body}</body>
+</html>`;
+}
+
+function sendLaunchError(res: Response, status: number, message: string): void {
+  res.status(status).type('html').send(
+    renderPage('Launch failed', `<h1>Launch failed</h1><p>${escapeHtml(message)}</p>`)
+  );
+}
+
+/** Auto-submitting form, the LTI way to POST a JWT back to the platform */
+function renderAutoPost(action: string, fields: Record<string, string>): string {
+  const inputs = Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('');
+  return renderPage(
+    'Returning to your course',
+    `<form id="lti-return" method="POST" action="${escapeHtml(action)}">${inputs}<noscript><button type="submit">Continue</button></noscript></form>
+<script>document.getElementById('lti-return').submit();</script>`
+  );
+}
+
+// ============================================================================
+// Launch mapping
+// ============================================================================
+
+function placeholderEmail(launch: LtiLaunch): string {
+  const digest = crypto.createHash('sha256').update(`${launch.platform.issuer}|${launch.subject}`).digest('hex');
+  return `lti-${digest.slice(0, 24)}@lti.invalid`;
+}
+
+/**
+ * The account for an LMS user, keyed on the platform and its user id (iss,
+ * sub). The first launch provisions an LMS-only account with an unusable
+ * random password. The email claim is not verified by the platform, so it
+ * never selects an existing account and the new one gets a placeholder address.
+ * The LMS role is re-applied on every launch, so course role changes (and
+ * revoking allowInstructors on a registration) take effect at the next launch.
+ */
+async function resolveLaunchAccount(launch: LtiLaunch): Promise<AuthAccount> {
+  const db = getDb();
+  const issuer = launch.platform.issuer;
+
+  const link = await getLtiUserLink(issuer, launch.subject);
+  if (link) {
+    const linked = await getAuthAccountById(db, link.accountId);
+    if (linked) {
+      await saveLtiUserLink(link);
+      if (linked.role !== launch.role) {
+        await updateAuthAccountRole(db, linked.id, launch.role);
+        await updateUser(linked.learnerId, { role: launch.role });
+        return { ...linked, role: launch.role };
+      }
+      return linked;
+    }
+  }
+
+  const learnerId = uuidv4();
+  await createUser(learnerId, { name: launch.name, role: launch.role });
+  const account = await createAuthAccount(db, {
+    email: placeholderEmail(launch),
+    passwordHash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), SALT_ROUNDS),
+    role: launch.role,
+    learnerId,
+    name: launch.name,
+  });
+  if (launch.role === 'student') {
+    await saveLearnerProfile(learnerId, {
+      name: launch.name,
+      conceptsCovered: [],
+      conceptCoverageEvidence: {},
+      errorHistory: {},
+      interactionCount: 0,
+      currentStrategy: 'adaptive-medium',
+      preferences: {
+        escalationThreshold: 3,
+        aggregationDelay: 300000,
+        autoTextbookEnabled: true,
+        notificationsEnabled: true,
+        theme: 'system',
+      },
+      extendedData: {},
+    });
+  }
+
+  await saveLtiUserLink({ issuer, subject: launch.subject, accountId: account.id, learnerId: account.learnerId });
+  return account;
+}
+
+/**
+ * The section for the LMS course. The first instructor launch creates it;
+ * students launching into a mapped course are enrolled.
+ */
+async function resolveLaunchSection(launch: LtiLaunch, account: AuthAccount): Promise<string | null> {
+  if (!launch.context) return null;
+  const issuer = launch.platform.issuer;
+
+  let sectionId = await getLtiContextSectionId(issuer, launch.context.id);
+  if (!sectionId && account.role === 'instructor') {
+    const section = await createSectionForInstructor({
+      instructorUserId: account.learnerId,
+      name: launch.context.title,
+    });
+    sectionId = section.id;
+    await saveLtiContext({ issuer, contextId: launch.context.id, sectionId, title: launch.context.title });
+  }
+  if (sectionId && account.role === 'student') {
+    await enrollStudentInSection({ sectionId, studentUserId: account.learnerId });
+  }
+  return sectionId;
+}
+
+async function issueSession(req: Request, res: Response, account: AuthAccount): Promise<void> {
+  await startAuthSession(req, res, account);
+  setCsrfCookie(res, createCsrfToken());
+}
+
+// ============================================================================
+// Deep linking picker
+// ============================================================================
+
+interface DeepLinkSession {
+  iss: string;
+  clientId: string;
+  deploymentId: string;
+  returnUrl: string;
+  data: string | null;
+  learnerId: string;
+}
+
+const DEEP_LINK_TTL_SECONDS = 30 * 60;
+
+async function renderAssignmentPicker(res: Response, launch: LtiLaunch, account: AuthAccount, sectionId: string | null) {
+  // Same ownership rule as the POST below: only the instructor's own sections
+  const ownedIds = (await getOwnedSectionsByInstructor(account.learnerId)).map((section) => section.id);
+  const sectionIds = sectionId && ownedIds.includes(sectionId) ? [sectionId] : ownedIds;
+  const assignments = await getAssignmentsBySections(sectionIds);
+
+  const token = jwt.sign(
+    {
+      iss: launch.platform.issuer,
+      clientId: launch.platform.clientId,
+      deploymentId: launch.deploymentId,
+      returnUrl: launch.deepLinking!.returnUrl,
+      data: launch.deepLinking!.data,
+      learnerId: account.learnerId,
+    } satisfies DeepLinkSession,
+    JWT_SECRET,
+    { expiresIn: DEEP_LINK_TTL_SECONDS, audience: 'lti-deep-link' }
+  );
+
+  const options = assignments.length > 0
+    ? assignments.map((assignment) =>
+        `<label><input type="checkbox" name="assignmentIds" value="${escapeHtml(assignment.id)}"> ${escapeHtml(assignment.title)} (${assignment.problemIds.length} problems, due ${escapeHtml(assignment.dueAt.slice(0, 10))})</label>`
+      ).join('')
+    : '<p>No assignments yet. Create one from the instructor dashboard, then add it here.</p>';
+
+  res.type('html').send(renderPage(
+    'Add SQL-Adapt assignments',
+    `<h1>Add SQL-Adapt assignments</h1>
+<p>Each selected assignment becomes a graded link in your course. Scores are the number of problems solved.</p>
+<form method="POST" action="${escapeHtml(DEEP_LINK_URL)}">
+<input type="hidden" name="token" value="${escapeHtml(token)}">
+${options}
+<button type="submit">Add to course</button>
+</form>`
+  ));
+}
+
+// ============================================================================
+// Public LTI endpoints - /api/lti
+// ============================================================================
+
+const launchRouter = Router();
+
+const loginSchema = z.object({
+  iss: z.string().min(1),
+  login_hint: z.string().min(1),
+  target_link_uri: z.string().url().optional(),
+  client_id: z.string().optional(),
+  lti_message_hint: z.string().optional(),
+  lti_deployment_id: z.string().optional(),
+});
+
+// GET|POST /api/lti/login - OIDC login initiation from the platform
+launchRouter.all('/login', (req: Request, res: Response) => {
+  const parseResult = loginSchema.safeParse(req.method === 'POST' ? req.body : req.query);
+  if (!parseResult.success) {
+    sendLaunchError(res, 400, 'The login request is missing iss or login_hint.');
+    return;
+  }
+
+  const params = parseResult.data;
+  const platform = findPlatform(params.iss, params.client_id);
+  if (!platform) {
+    sendLaunchError(res, 400, 'This LMS is not registered with SQL-Adapt.');
+    return;
+  }
+
+  const { state, nonce } = createLoginState(platform);
+  const authUrl = new URL(platform.authLoginUrl);
+  authUrl.search = new URLSearchParams({
+    scope: 'openid',
+    response_type: 'id_token',
+    response_mode: 'form_post',
+    prompt: 'none',
+    client_id: platform.clientId,
+    redirect_uri: LAUNCH_URL,
+    login_hint: params.login_hint,
+    state,
+    nonce,
+    ...(params.lti_message_hint ? { lti_message_hint: params.lti_message_hint } : {}),
+  }).toString();
+  res.redirect(302, authUrl.toString());
+});
+
+// POST /api/lti/launch - id_token from the platform's authorization endpoint
+launchRouter.post('/launch', async (req: Request, res: Response) => {
+  if (!isUsingNeon()) {
+    sendLaunchError(res, 503, 'LMS launches require a Neon database.');
+    return;
+  }
+
+  const idToken = typeof req.body?.id_token === 'string' ? req.body.id_token : '';
+  const state = typeof req.body?.state === 'string' ? req.body.state : '';
+  if (!idToken || !state) {
+    sendLaunchError(res, 400, 'The launch is missing id_token or state.');
+    return;
+  }
+
+  try {
+    const launch = await verifyLaunch(idToken, state);
+    const account = await resolveLaunchAccount(launch);
+    const sectionId = await resolveLaunchSection(launch, account);
+
+    if (launch.messageType === 'LtiDeepLinkingRequest') {
+      if (account.role !== 'instructor') {
+        sendLaunchError(res, 403, 'Only instructors can add SQL-Adapt content to a course.');
+        return;
+      }
+      await issueSession(req, res, account);
+      await renderAssignmentPicker(res, launch, account, sectionId);
+      return;
+    }
+
+    let assignment: Assignment | null = null;
+    const requestedAssignmentId = launch.custom.assignment_id;
+    if (requestedAssignmentId) {
+      const candidate = await getAssignmentById(requestedAssignmentId);
+      // Only honor assignments that belong to the course's section
+      assignment = candidate && candidate.sectionId === sectionId ? candidate : null;
+    }
+
+    if (launch.resourceLinkId) {
+      const link = await saveLtiResourceLink({
+        issuer: launch.platform.issuer,
+        clientId: launch.platform.clientId,
+        resourceLinkId: launch.resourceLinkId,
+        contextId: launch.context?.id ?? null,
+        deploymentId: launch.deploymentId,
+        assignmentId: assignment?.id ?? null,
+        lineItemUrl: launch.ags?.lineitem ?? null,
+        lineItemsUrl: launch.ags?.lineitems ?? null,
+        agsScopes: launch.ags?.scopes ?? [],
+      });
+      if (!assignment && link.assignmentId) {
+        assignment = await getAssignmentById(link.assignmentId);
+      }
+    }
+
+    await issueSession(req, res, account);
+    const destination = account.role === 'instructor'
+      ? '/instructor-dashboard'
+      : assignment ? `/practice?assignmentId=${encodeURIComponent(assignment.id)}` : '/practice';
+    res.redirect(302, `${LTI_WEB_APP_URL}${destination}`);
+  } catch (error) {
+    if (error instanceof LtiLaunchError) {
+      console.warn('[lti/launch] rejected:', error.message);
+      sendLaunchError(res, 401, error.message);
+      return;
+    }
+    console.error('[lti/launch]', error);
+    sendLaunchError(res, 500, 'Something went wrong while starting SQL-Adapt.');
+  }
+});
+
+// GET /api/lti/jwks - Tool public keys for the platform
+launchRouter.get('/jwks', (_req: Request, res: Response) => {
+  try {
+    res.json(getToolJwks());
+  } catch (error) {
+    console.error('[lti/jwks]', error);
+    res.status(503).json({ success: false, error: 'LTI signing key is not configured' });
+  }
+});
+
+// POST /api/lti/deep-link - Picker submission; returns the signed response to the platform
+launchRouter.post('/deep-link', async (req: Request, res: Response) => {
+  let session: DeepLinkSession;
+  try {
+    session = jwt.verify(String(req.body?.token ?? ''), JWT_SECRET, { audience: 'lti-deep-link' }) as DeepLinkSession;
+  } catch {
+    sendLaunchError(res, 401, 'This selection expired. Start again from your course.');
+    return;
+  }
+
+  try {
+    const platform = findPlatform(session.iss, session.clientId);
+    if (!platform) {
+      sendLaunchError(res, 400, 'This LMS is no longer registered with SQL-Adapt.');
+      return;
+    }
+
+    const rawIds = req.body?.assignmentIds;
+    const requestedIds: string[] = Array.isArray(rawIds) ? rawIds.map(String) : rawIds ? [String(rawIds)] : [];
+    const sections = await getOwnedSectionsByInstructor(session.learnerId);
+    const owned = await getAssignmentsBySections(sections.map((section) => section.id));
+    const selected = owned.filter((assignment) => requestedIds.includes(assignment.id));
+
+    const jwtResponse = buildDeepLinkingResponse({
+      platform,
+      deploymentId: session.deploymentId,
+      data: session.data,
+      launchUrl: LAUNCH_URL,
+      assignments: selected.map((assignment) => ({
+        id: assignment.id,
+        title: assignment.title,
+        description: assignment.description,
+        problemCount: assignment.problemIds.length,
+      })),
+    });
+    res.type('html').send(renderAutoPost(session.returnUrl, { JWT: jwtResponse }));
+  } catch (error) {
+    console.error('[lti/deep-link]', error);
+    sendLaunchError(res, 500, 'Could not build the deep linking response.');
+  }
+});
+
+// ============================================================================
+// Instructor grade passback - /api/instructor/lti
+// ============================================================================
+
+const instructorRouter = Router();
+
+instructorRouter.use(requireInstructor);
+
+async function loadOwnAssignment(req: Request, res: Response): Promise<Assignment | null> {
+  const [assignment, sections] = await Promise.all([
+    getAssignmentById(req.params.id),
+    getTeachingSections(req.auth!.learnerId),
+  ]);
+  if (!assignment || !sections.some((section) => section.id === assignment.sectionId)) {
+    res.status(404).json({ success: false, error: 'Assignment not found' });
+    return null;
+  }
+  return assignment;
+}
+
+// GET /api/instructor/lti/status - Registration URLs and which assignments are linked
+instructorRouter.get('/status', async (req: Request, res: Response) => {
+  try {
+    const sections = await getTeachingSections(req.auth!.learnerId);
+    const assignments = await getAssignmentsBySections(sections.map((section) => section.id));
+    res.json({
+      success: true,
+      data: {
+        configured: LTI_PLATFORMS.length > 0,
+        platforms: LTI_PLATFORMS.map((platform) => platform.issuer),
+        loginUrl: `${LTI_TOOL_URL}/api/lti/login`,
+        launchUrl: LAUNCH_URL,
+        jwksUrl: `${LTI_TOOL_URL}/api/lti/jwks`,
+        linkedAssignmentIds: await getLtiLinkedAssignmentIds(assignments.map((assignment) => assignment.id)),
+      },
+    });
+  } catch (error) {
+    console.error('[instructor/lti:status]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch LTI status' });
+  }
+});
+
+// POST /api/instructor/lti/assignments/:id/sync - Send assignment scores to the LMS gradebook
+instructorRouter.post('/assignments/:id/sync', async (req: Request, res: Response) => {
+  try {
+    const assignment = await loadOwnAssignment(req, res);
+    if (!assignment) return;
+
+    const links = await getLtiResourceLinksForAssignment(assignment.id);
+    if (links.length === 0) {
+      res.status(409).json({ success: false, error: 'Assignment is not linked to an LMS course' });
+      return;
+    }
+
+    const learnerIds = await getSectionStudentIds(assignment.sectionId);
+    const activity = await getAssignmentActivity(assignment, learnerIds);
+    const now = new Date().toISOString();
+
+    const results = [];
+    for (const link of links) {
+      const result = {
+        resourceLinkId: link.resourceLinkId,
+        lineItemUrl: link.lineItemUrl,
+        posted: 0,
+        failed: 0,
+        unlinkedStudents: 0,
+        error: null as string | null,
+      };
+      results.push(result);
+
+      if (!link.clientId) {
+        result.error = 'Launch this link from the LMS once more to refresh its registration';
+        continue;
+      }
+      const platform = findPlatform(link.issuer, link.clientId);
+      if (
+        !platform ||
+        (platform.deploymentIds.length > 0 && !platform.deploymentIds.includes(link.deploymentId))
+      ) {
+        result.error = 'Platform is no longer registered';
+        continue;
+      }
+      if (!link.agsScopes.includes(AGS_SCOPE.score)) {
+        result.error = 'The LMS did not grant score passback for this link';
+        continue;
+      }
+
+      try {
+        const canCreateLineItem = link.agsScopes.includes(AGS_SCOPE.lineItem) && link.lineItemsUrl !== null;
+        const accessToken = await getAgsAccessToken(
+          platform,
+          canCreateLineItem ? [AGS_SCOPE.score, AGS_SCOPE.lineItem] : [AGS_SCOPE.score]
+        );
+
+        if (!result.lineItemUrl && canCreateLineItem) {
+          result.lineItemUrl = await createLineItem(accessToken, link.lineItemsUrl!, {
+            label: assignment.title,
+            scoreMaximum: assignment.problemIds.length,
+            resourceId: assignment.id,
+            resourceLinkId: link.resourceLinkId,
+          });
+          await setLtiResourceLinkLineItem(link.issuer, link.resourceLinkId, result.lineItemUrl);
+        }
+        if (!result.lineItemUrl) {
+          result.error = 'The LMS provided no gradebook column for this link';
+          continue;
+        }
+
+        const subjects = await getLtiSubjectsForLearners(link.issuer, learnerIds);
+        for (const learnerId of learnerIds) {
+          const subject = subjects.get(learnerId);
+          if (!subject) {
+            result.unlinkedStudents += 1;
+            continue;
+          }
+          const score = scoreAssignment(assignment, activity.filter((item) => item.learnerId === learnerId));
+          try {
+            await postScore(accessToken, result.lineItemUrl, {
+              userId: subject,
+              scoreGiven: score.points,
+              scoreMaximum: assignment.problemIds.length,
+              activityProgress: score.points === assignment.problemIds.length
+                ? 'Completed'
+                : score.attempted ? 'InProgress' : 'Initialized',
+              gradingProgress: 'FullyGraded',
+              timestamp: now,
+            });
+            result.posted += 1;
+          } catch (error) {
+            console.warn('[instructor/lti:sync] score rejected:', (error as Error).message);
+            result.failed += 1;
+          }
+        }
+      } catch (error) {
+        result.error = (error as Error).message;
+      }
+    }
+
+    res.json({ success: true, data: { assignmentId: assignment.id, links: results } });
+  } catch (error) {
+    console.error('[instructor/lti:sync]', error);
+    res.status(500).json({ success: false, error: 'Failed to sync grades' });
+  }
+});
+
+export { launchRouter as ltiRouter, instructorRouter as instructorLtiRouter };
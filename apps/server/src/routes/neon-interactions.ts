@@ -5,6 +5,7 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import * as db from '../db/neon.js';
+import { getExhaustedAssignment } from '../db/assignments.js';
 import {
   getSectionForLearnerInInstructorScope,
   getSectionForStudent,
@@ -24,6 +25,8 @@ const interactionEventSchema = z.object({
   learnerId: z.string(),
   eventType: z.string(),
   problemId: z.string(),
+  // Assignment the run was made for; attempt limits apply only to tagged runs
+  problemSetId: z.string().optional(),
   id: z.string().optional(),
   sessionId: z.string().optional(),
   timestamp: z.string().optional(),
@@ -38,6 +41,7 @@ const interactionEventSchema = z.object({
   problemsAttempted: z.number().optional(),
   problemsSolved: z.number().optional(),
   successful: z.boolean().optional(),
+  resultSimilarity: z.number().min(0).max(1).optional(),
   // Escalation Profile fields
   profileId: z.string().optional(),
   assignmentStrategy: z.string().optional(),
@@ -183,6 +187,7 @@ export function buildNeonInteractionPayload(event: NeonInteractionEventInput): R
     code: event.code,
     error: event.error,
     successful: event.successful,
+    resultSimilarity: event.resultSimilarity,
     hintText: event.hintText,
     hintLevel: event.hintLevel,
     // Escalation Profile fields (RESEARCH-3B)
@@ -266,6 +271,12 @@ async function resolveScopedTarget(
     return { learnerId: requestedLearnerId, sectionId: null };
   }
 
+  if (mode === 'write' && auth.role === 'ta') {
+    throw new AccessError(403, 'Access denied: teaching assistants have read-only access', {
+      targetLearnerId: requestedLearnerId,
+    });
+  }
+
   const scopedSection = await getSectionForLearnerInInstructorScope({
     instructorUserId: auth.learnerId,
     learnerId: requestedLearnerId,
@@ -278,6 +289,38 @@ async function resolveScopedTarget(
   return { learnerId: requestedLearnerId, sectionId: scopedSection.id };
 }
 
+/**
+ * Rejects a student's run made for an attempt-limited assignment (tagged with
+ * its id as problemSetId) once the assignment has no runs left for the
+ * problem. The web client disables Run at the limit inside the assignment
+ * view; this keeps direct API calls from going past it. Untagged runs (free
+ * practice) are always recorded.
+ */
+async function assertWithinAttemptLimit(
+  req: Request,
+  target: ScopedTarget,
+  event: { eventType: string; problemId: string; problemSetId?: string | null }
+): Promise<void> {
+  if (req.auth?.role !== 'student' || !target.sectionId || !event.problemSetId) {
+    return;
+  }
+  if (event.eventType !== 'execution' && event.eventType !== 'error') {
+    return;
+  }
+  const exhausted = await getExhaustedAssignment({
+    sectionId: target.sectionId,
+    learnerId: target.learnerId,
+    problemId: event.problemId,
+    assignmentId: event.problemSetId,
+  });
+  if (exhausted) {
+    throw new AccessError(409, `Attempt limit reached for assignment: ${exhausted.title}`, {
+      targetLearnerId: target.learnerId,
+      targetSectionId: target.sectionId,
+    });
+  }
+}
+
 // ============================================================================
 // Event Logging
 // ============================================================================
@@ -310,6 +353,7 @@ router.post('/', async (req: Request, res: Response) => {
     const scopedTarget = await resolveScopedTarget(req, validatedEvent.learnerId, 'write');
     validatedEvent.learnerId = scopedTarget.learnerId;
     validatedEvent.sectionId = scopedTarget.sectionId;
+    await assertWithinAttemptLimit(req, scopedTarget, validatedEvent);
 
     const id = validatedEvent.id || `${validatedEvent.eventType}-${scopedTarget.learnerId}-${Date.now()}`;
 
@@ -464,6 +508,7 @@ router.post('/batch', async (req: Request, res: Response) => {
         const scopedTarget = await resolveScopedTarget(req, event.learnerId, 'write');
         event.learnerId = scopedTarget.learnerId;
         event.sectionId = scopedTarget.sectionId;
+        await assertWithinAttemptLimit(req, scopedTarget, event);
         const id = event.id || `${event.eventType}-${scopedTarget.learnerId}-${Date.now()}`;
         
         const payload = buildNeonInteractionPayload(event);
@@ -45,8 +45,8 @@ router.get('/', async (req: Request, res: Response) => {
       return;
     }
     
-    // Instructors only see learners in their sections (scope enforcement)
-    if (req.auth?.role === 'instructor') {
+    // Instructors and TAs only see learners in their sections (scope enforcement)
+    if (req.auth?.role === 'instructor' || req.auth?.role === 'ta') {
       const scopedLearnerIds = await getInstructorScopedLearnerIds(req.auth.learnerId);
       const scopedUsers = await Promise.all(
         scopedLearnerIds.map((id) => db.getUserById(id))
@@ -55,9 +55,9 @@ router.get('/', async (req: Request, res: Response) => {
       return;
     }
     
-    // Admin or other roles - return all users (if needed)
-    const users = await db.getAllUsers();
-    res.json({ success: true, data: users });
+    // Researchers read learner data through /api/research, which applies consent
+    const self = req.auth ? await db.getUserById(req.auth.learnerId) : null;
+    res.json({ success: true, data: self ? [self] : [] });
   } catch (error) {
     console.error('Error fetching users:', error);
     res.status(500).json({ success: false, error: 'Failed to fetch users' });
@@ -0,0 +1,241 @@
+/**
+ * Problem Bank API Routes
+ * Instructor authoring (CRUD + publish to sections) and the learner-facing
+ * list of published problems. Works on both Neon and SQLite.
+ */
+
+import crypto from 'node:crypto';
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import {
+  isUsingNeon,
+  createProblem,
+  getProblemById,
+  getProblemsByAuthor,
+  updateProblem,
+  setProblemSections,
+  deleteProblem,
+  getPublishedProblemsForSection,
+} from '../db/index.js';
+import { getSectionForStudent, getTeachingSections } from '../db/sections.js';
+import { requireInstructor } from '../middleware/auth.js';
+import type { ApiResponse, AuthoredProblem } from '../types.js';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const problemSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  concepts: z.array(z.string().min(1)).min(1),
+  topic: z.enum(['basics', 'filtering', 'joining', 'aggregation', 'functions', 'advanced']),
+  topicDifficultyLevel: z.number().int().min(1).max(5).optional(),
+  schema: z.string().trim().min(1),
+  expectedQuery: z.string().trim().min(1),
+  expectedResult: z.array(z.record(z.unknown())).nullable().optional(),
+  gradingMode: z
+    .enum(['result', 'exec-only', 'ordered-result', 'exact-columns', 'ordered-and-exact', 'final-state'])
+    .nullable()
+    .optional(),
+  stateVerification: z
+    .object({ query: z.string().min(1).optional(), tables: z.array(z.string().min(1)).optional() })
+    .nullable()
+    .optional(),
+  hiddenDatasets: z.array(z.object({ id: z.string().min(1), schema: z.string().trim().min(1) })).optional(),
+  dialect: z.enum(['sqlite', 'postgres']).optional(),
+  hints: z.array(z.string().min(1)).optional(),
+});
+
+const publishSchema = z.object({
+  sectionIds: z.array(z.string().min(1)).min(1),
+});
+
+function validationFailed(res: Response, error: z.ZodError): void {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: 'Validation failed',
+    message: error.message,
+  };
+  res.status(400).json(response);
+}
+
+/**
+ * Load a problem the requesting instructor authored. Responds 404 (rather
+ * than 403) for other instructors' problems so ids are not enumerable.
+ */
+async function loadOwnProblem(req: Request, res: Response): Promise<AuthoredProblem | null> {
+  const problem = await getProblemById(req.params.id);
+  if (!problem || problem.authorUserId !== req.auth!.learnerId) {
+    res.status(404).json({ success: false, error: 'Problem not found' });
+    return null;
+  }
+  return problem;
+}
+
+// ============================================================================
+// Instructor Authoring - /api/instructor/problems
+// ============================================================================
+
+const instructorRouter = Router();
+
+instructorRouter.use(requireInstructor);
+
+// GET /api/instructor/problems - Problems authored by the current instructor
+instructorRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const problems = await getProblemsByAuthor(req.auth!.learnerId);
+    res.json({ success: true, data: problems });
+  } catch (error) {
+    console.error('[instructor/problems]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch problems' });
+  }
+});
+
+// GET /api/instructor/problems/:id
+instructorRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const problem = await loadOwnProblem(req, res);
+    if (!problem) return;
+    res.json({ success: true, data: problem });
+  } catch (error) {
+    console.error('[instructor/problems/:id]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch problem' });
+  }
+});
+
+// POST /api/instructor/problems - Create a draft problem
+instructorRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const parseResult = problemSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const problem = await createProblem(req.auth!.learnerId, {
+      ...parseResult.data,
+      id: `authored-${crypto.randomUUID()}`,
+    });
+    res.status(201).json({ success: true, data: problem });
+  } catch (error) {
+    console.error('[instructor/problems:create]', error);
+    res.status(500).json({ success: false, error: 'Failed to create problem' });
+  }
+});
+
+// PUT /api/instructor/problems/:id - Update problem content
+instructorRouter.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const parseResult = problemSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const existing = await loadOwnProblem(req, res);
+    if (!existing) return;
+
+    const problem = await updateProblem(existing.id, parseResult.data);
+    res.json({ success: true, data: problem });
+  } catch (error) {
+    console.error('[instructor/problems:update]', error);
+    res.status(500).json({ success: false, error: 'Failed to update problem' });
+  }
+});
+
+// DELETE /api/instructor/problems/:id
+instructorRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await loadOwnProblem(req, res);
+    if (!existing) return;
+
+    await deleteProblem(existing.id);
+    res.json({ success: true, message: 'Problem deleted' });
+  } catch (error) {
+    console.error('[instructor/problems:delete]', error);
+    res.status(500).json({ success: false, error: 'Failed to delete problem' });
+  }
+});
+
+// POST /api/instructor/problems/:id/publish - Publish to the given sections
+instructorRouter.post('/:id/publish', async (req: Request, res: Response) => {
+  try {
+    const parseResult = publishSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const existing = await loadOwnProblem(req, res);
+    if (!existing) return;
+
+    const { sectionIds } = parseResult.data;
+    if (isUsingNeon()) {
+      const owned = new Set(
+        (await getTeachingSections(req.auth!.learnerId)).map((section) => section.id)
+      );
+      const foreign = sectionIds.filter((sectionId) => !owned.has(sectionId));
+      if (foreign.length > 0) {
+        res.status(403).json({
+          success: false,
+          error: 'You can only publish to sections you teach',
+          message: `Not taught: ${foreign.join(', ')}`,
+        });
+        return;
+      }
+    }
+
+    const problem = await setProblemSections(existing.id, sectionIds);
+    res.json({ success: true, data: problem });
+  } catch (error) {
+    console.error('[instructor/problems:publish]', error);
+    res.status(500).json({ success: false, error: 'Failed to publish problem' });
+  }
+});
+
+// POST /api/instructor/problems/:id/unpublish - Withdraw from all sections
+instructorRouter.post('/:id/unpublish', async (req: Request, res: Response) => {
+  try {
+    const existing = await loadOwnProblem(req, res);
+    if (!existing) return;
+
+    const problem = await setProblemSections(existing.id, []);
+    res.json({ success: true, data: problem });
+  } catch (error) {
+    console.error('[instructor/problems:unpublish]', error);
+    res.status(500).json({ success: false, error: 'Failed to unpublish problem' });
+  }
+});
+
+// ============================================================================
+// Learner Catalog - /api/problems
+// ============================================================================
+
+const learnerRouter = Router();
+
+// GET /api/problems - Published problems for the learner's section
+learnerRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    if (!isUsingNeon() || !req.auth) {
+      res.json({ success: true, data: await getPublishedProblemsForSection(null) });
+      return;
+    }
+
+    // Instructors preview their own published problems
+    if (req.auth.role === 'instructor') {
+      const authored = await getProblemsByAuthor(req.auth.learnerId);
+      res.json({ success: true, data: authored.filter((problem) => problem.status === 'published') });
+      return;
+    }
+
+    const section = await getSectionForStudent(req.auth.learnerId);
+    res.json({ success: true, data: await getPublishedProblemsForSection(section?.id ?? null) });
+  } catch (error) {
+    console.error('[problems]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch problems' });
+  }
+});
+
+export { instructorRouter as instructorProblemsRouter, learnerRouter as problemsRouter };
@@ -2,9 +2,19 @@
  * Research API Routes
  * Instructor/researcher endpoints for data export and analysis
  * Returns full InteractionEvents for research replay
+ *
+ * Every role sees only learners with research consent on record; learners
+ * who declined (or never answered) are excluded. Instructors are further
+ * limited to their own sections and the full export is researcher-only.
+ * Every read of learner data (export, aggregates, learner list, trajectory)
+ * is written to the research_export_audit table.
+ *
+ * Exports accept ?pseudonymize=true (HMAC pseudonyms, scrubbed free text and
+ * the configured dropped columns) and ?dropColumns=a,b; the JSON export always
+ * carries a data dictionary for the InteractionEvent columns it contains.
  */
 
-import { Router } from 'express';
+import { Router, type Request } from 'express';
 import {
   getAuthEvents,
   getUserById,
@@ -21,7 +31,26 @@ import type {
   EventType,
   Interaction,
 } from '../types.js';
-import { getInstructorScopedLearnerIds, getOwnedSectionsByInstructor } from '../db/sections.js';
+import { getInstructorScopedLearnerIds } from '../db/sections.js';
+import { getConsentedLearnerIds, getResearchExportAudit, recordResearchExport } from '../db/research.js';
+import { requireResearcher } from '../middleware/auth.js';
+import {
+  RESEARCH_CONSENT_VERSION,
+  RESEARCH_EXPORT_DROP_COLUMNS,
+  RESEARCH_PSEUDONYM_KEY,
+  RESEARCH_STUDY_ID,
+} from '../config.js';
+import {
+  buildInteractionDataDictionary,
+  createInteractionPseudonymizer,
+  createTextbookUnitPseudonymizer,
+  dropInteractionColumns,
+  pseudonymizeAuthEvent,
+  pseudonymizeId,
+  pseudonymizeLearner,
+  resolveDropColumns,
+  type PseudonymizationOptions,
+} from '../research-pseudonymization.js';
 
 const router = Router();
 
@@ -35,9 +64,41 @@ export const RESEARCH_EXPORT_FIELDS_PRESERVED = [
   'payload', 'metadata', 'createdAt'
 ];
 
-async function getScopedLearnerIdsForInstructor(instructorUserId: string): Promise<Set<string>> {
-  const ids = await getInstructorScopedLearnerIds(instructorUserId);
-  return new Set(ids);
+interface ResearchScope {
+  learnerIds: Set<string>;
+  /** Candidates within the caller's reach left out for lack of consent */
+  excludedLearnerCount: number;
+}
+
+/**
+ * Which of the candidate learners the caller may see: those with research
+ * consent, and for instructors only those in their own sections.
+ */
+async function getResearchScope(req: Request, candidateIds: string[]): Promise<ResearchScope> {
+  let reachable = candidateIds;
+  if (req.auth!.role !== 'researcher') {
+    const sectionLearnerIds = new Set(await getInstructorScopedLearnerIds(req.auth!.learnerId));
+    reachable = candidateIds.filter((id) => sectionLearnerIds.has(id));
+  }
+  const consented = new Set(await getConsentedLearnerIds());
+  const learnerIds = new Set(reachable.filter((id) => consented.has(id)));
+  return { learnerIds, excludedLearnerCount: reachable.length - learnerIds.size };
+}
+
+async function recordResearchRead(
+  req: Request,
+  format: string,
+  filters: Record<string, unknown>,
+  counts: { learnerCount: number; excludedLearnerCount: number; interactionCount: number }
+): Promise<void> {
+  await recordResearchExport({
+    actorUserId: req.auth!.learnerId,
+    actorRole: req.auth!.role,
+    channel: 'api',
+    format,
+    filters,
+    ...counts,
+  });
 }
 
 // ============================================================================
@@ -46,9 +107,9 @@ async function getScopedLearnerIdsForInstructor(instructorUserId: string): Promi
 
 router.get('/aggregates', async (req, res) => {
   try {
-    const instructorUserId = req.auth!.learnerId;
-    const scopedLearnerIds = await getScopedLearnerIdsForInstructor(instructorUserId);
-    const learners = (await getAllUsers()).filter((learner) => scopedLearnerIds.has(learner.id));
+    const students = (await getAllUsers()).filter((learner) => learner.role === 'student');
+    const scope = await getResearchScope(req, students.map((learner) => learner.id));
+    const learners = students.filter((learner) => scope.learnerIds.has(learner.id));
     
     // Use single aggregated queries instead of N+1 loops
     const learnerIds = learners.map(l => l.id);
@@ -63,6 +124,12 @@ router.get('/aggregates', async (req, res) => {
       totalTextbookUnits += count;
     }
 
+    await recordResearchRead(req, 'aggregates', {}, {
+      learnerCount: learners.length,
+      excludedLearnerCount: scope.excludedLearnerCount,
+      interactionCount: aggregates.totalCount,
+    });
+
     const response: ApiResponse<ClassStats> = {
       success: true,
       data: {
@@ -95,19 +162,26 @@ router.get('/aggregates', async (req, res) => {
 
 router.get('/learner/:id/trajectory', async (req, res) => {
   try {
-    const instructorUserId = req.auth!.learnerId;
-    const scopedLearnerIds = await getScopedLearnerIdsForInstructor(instructorUserId);
+    const actorUserId = req.auth!.learnerId;
     const { id } = req.params;
-    if (!scopedLearnerIds.has(id)) {
+    const scope = await getResearchScope(req, [id]);
+    if (!scope.learnerIds.has(id)) {
       console.warn('[authz/research]', {
         route: `${req.method} ${req.baseUrl}${req.path}`,
         actorRole: req.auth?.role ?? 'unknown',
-        actorId: instructorUserId,
+        actorId: actorUserId,
         targetLearnerId: id,
         targetSectionId: null,
-        reason: 'learner not in instructor scope',
+        reason: req.auth?.role === 'researcher'
+          ? 'learner has no research consent'
+          : 'learner not in instructor scope or has no research consent',
+      });
+      res.status(403).json({
+        success: false,
+        error: req.auth?.role === 'researcher'
+          ? 'Access denied: learner has not consented to research use'
+          : 'Access denied: learner not in your section or has not consented to research use',
       });
-      res.status(403).json({ success: false, error: 'Access denied: learner not in your section' });
       return;
     }
     const learner = await getUserById(id);
@@ -123,6 +197,11 @@ router.get('/learner/:id/trajectory', async (req, res) => {
 
     const interactions = (await getInteractionsByUser(id, { limit: 10000 })).interactions;
     const textbookUnits = await getTextbookUnitsByUser(id);
+    await recordResearchRead(req, 'trajectory', { learnerId: id }, {
+      learnerCount: 1,
+      excludedLearnerCount: 0,
+      interactionCount: interactions.length,
+    });
 
     // Calculate summary stats
     const uniqueProblems = new Set(interactions.map(i => i.problemId));
@@ -181,26 +260,45 @@ router.get('/learner/:id/trajectory', async (req, res) => {
 });
 
 // ============================================================================
-// GET /api/research/export - Full dataset export (lossless)
+// GET /api/research/export - Full dataset export (lossless, researchers only)
 // ============================================================================
 
-router.get('/export', async (req, res) => {
+router.get('/export', requireResearcher, async (req, res) => {
   try {
-    const instructorUserId = req.auth!.learnerId;
-    const scopedLearnerIds = await getScopedLearnerIdsForInstructor(instructorUserId);
-    const ownedSections = await getOwnedSectionsByInstructor(instructorUserId);
+    const actorUserId = req.auth!.learnerId;
     const format = (req.query.format as string) || 'json';
     const startDate = req.query.startDate as string | undefined;
     const endDate = req.query.endDate as string | undefined;
     const learnerIds = req.query.learnerIds ? (req.query.learnerIds as string).split(',') : undefined;
     const eventTypes = req.query.eventTypes ? (req.query.eventTypes as string).split(',') as EventType[] : undefined;
+    const pseudonymize = req.query.pseudonymize === 'true';
+    const dropColumns = resolveDropColumns(
+      req.query.dropColumns as string | undefined,
+      RESEARCH_EXPORT_DROP_COLUMNS,
+      pseudonymize
+    );
 
-    // Get all learners (filtered if learnerIds provided)
-    let learners = await getAllUsers();
-    learners = learners.filter((l) => scopedLearnerIds.has(l.id));
+    if (dropColumns.unknown.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        message: `Unknown export columns: ${dropColumns.unknown.join(', ')}`,
+      });
+      return;
+    }
+    if (pseudonymize && !RESEARCH_PSEUDONYM_KEY) {
+      res.status(503).json({ success: false, error: 'Pseudonymized exports are not configured' });
+      return;
+    }
+
+    // Get all learners (filtered if learnerIds provided), then drop anyone without consent
+    let learners = (await getAllUsers()).filter((l) => l.role === 'student');
     if (learnerIds && learnerIds.length > 0) {
       learners = learners.filter(l => learnerIds.includes(l.id));
     }
+    const scope = await getResearchScope(req, learners.map((l) => l.id));
+    learners = learners.filter((l) => scope.learnerIds.has(l.id));
+    const { excludedLearnerCount } = scope;
 
     // SAFETY: Limit the number of learners processed to prevent memory exhaustion
     const MAX_LEARNERS_FOR_SUMMARY = 100;
@@ -271,7 +369,23 @@ router.get('/export', async (req, res) => {
       ['bandit_arm_selected', 'bandit_reward_observed', 'bandit_updated'].includes(i.eventType)
     );
     const authEvents = (await getAuthEvents()).filter((event) =>
-      event.learnerId !== null && scopedLearnerIds.has(event.learnerId)
+      event.learnerId !== null && scope.learnerIds.has(event.learnerId)
+    );
+
+    const pseudonymization: PseudonymizationOptions | null = pseudonymize
+      ? {
+          key: RESEARCH_PSEUDONYM_KEY,
+          studyId: RESEARCH_STUDY_ID,
+          dropColumns: dropColumns.columns,
+          knownNames: learners.map((learner) => learner.name),
+        }
+      : null;
+    const pseudonymizeInteraction = pseudonymization ? createInteractionPseudonymizer(pseudonymization) : null;
+    const pseudonymizeUnit = pseudonymization ? createTextbookUnitPseudonymizer(pseudonymization) : null;
+    const exportedInteractions = filteredInteractions.map((interaction) =>
+      pseudonymizeInteraction
+        ? pseudonymizeInteraction(interaction)
+        : dropInteractionColumns(interaction, dropColumns.columns)
     );
 
     const exportData = {
@@ -279,14 +393,24 @@ router.get('/export', async (req, res) => {
       filters: {
         startDate,
         endDate,
-        learnerIds,
+        learnerIds: pseudonymization
+          ? learnerIds?.map((learnerId) => pseudonymizeId(learnerId, pseudonymization))
+          : learnerIds,
         eventTypes,
       },
       exportMetadata: {
         actorRole: req.auth!.role,
-        actorId: instructorUserId,
-        sectionIds: ownedSections.map((section) => section.id),
-        sectionNames: ownedSections.map((section) => section.name),
+        actorId: actorUserId,
+        consent: {
+          required: true,
+          currentVersion: RESEARCH_CONSENT_VERSION,
+          excludedLearnerCount,
+        },
+        pseudonymization: {
+          enabled: pseudonymize,
+          studyId: pseudonymize ? RESEARCH_STUDY_ID : undefined,
+          droppedColumns: dropColumns.columns,
+        },
       },
       summary: {
         learnerCount: learners.length,
@@ -296,17 +420,42 @@ router.get('/export', async (req, res) => {
         escalationEventCount: escalationEvents.length,
         hdiReadingCount: hdiEvents.length,
         banditEventCount: banditEvents.length,
-        fieldsPreserved: RESEARCH_EXPORT_FIELDS_PRESERVED,
+        fieldsPreserved: RESEARCH_EXPORT_FIELDS_PRESERVED.filter((field) => !dropColumns.columns.includes(field)),
       },
-      learners,
-      authEvents,
-      interactions: filteredInteractions, // Full events preserved
-      textbookUnits: allTextbookUnits,
+      dataDictionary: buildInteractionDataDictionary({
+        studyId: RESEARCH_STUDY_ID,
+        pseudonymized: pseudonymize,
+        dropColumns: dropColumns.columns,
+      }),
+      learners: pseudonymization
+        ? learners.map((learner) => pseudonymizeLearner(learner, pseudonymization))
+        : learners,
+      authEvents: pseudonymization
+        ? authEvents.map((event) => pseudonymizeAuthEvent(event, pseudonymization))
+        : authEvents,
+      interactions: exportedInteractions, // Full events preserved unless columns were dropped
+      textbookUnits: pseudonymization && pseudonymizeUnit
+        ? allTextbookUnits.map((entry) => ({
+            learnerId: pseudonymizeId(entry.learnerId, pseudonymization),
+            units: entry.units.map(pseudonymizeUnit),
+          }))
+        : allTextbookUnits,
     };
 
+    await recordResearchExport({
+      actorUserId,
+      actorRole: req.auth!.role,
+      channel: 'api',
+      format,
+      filters: { startDate, endDate, learnerIds, eventTypes, pseudonymize, dropColumns: dropColumns.columns },
+      learnerCount: learners.length,
+      excludedLearnerCount,
+      interactionCount: filteredInteractions.length,
+    });
+
     if (format === 'csv') {
       // Export interactions as CSV with all fields
-      const interactionsCsv = convertInteractionsToCsv(filteredInteractions);
+      const interactionsCsv = convertInteractionsToCsv(exportedInteractions, dropColumns.columns);
       
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', `attachment; filename="sql-adapt-export-${new Date().toISOString().split('T')[0]}.csv"`);
@@ -329,6 +478,60 @@ router.get('/export', async (req, res) => {
   }
 });
 
+// ============================================================================
+// GET /api/research/export/dictionary - Data dictionary for export columns
+// Describes columns only (no learner data), so it is neither scoped nor audited.
+// ============================================================================
+
+router.get('/export/dictionary', (req, res) => {
+  const pseudonymize = req.query.pseudonymize === 'true';
+  const dropColumns = resolveDropColumns(
+    req.query.dropColumns as string | undefined,
+    RESEARCH_EXPORT_DROP_COLUMNS,
+    pseudonymize
+  );
+  if (dropColumns.unknown.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: `Unknown export columns: ${dropColumns.unknown.join(', ')}`,
+    });
+    return;
+  }
+
+  const response: ApiResponse<ReturnType<typeof buildInteractionDataDictionary>> = {
+    success: true,
+    data: buildInteractionDataDictionary({
+      studyId: RESEARCH_STUDY_ID,
+      pseudonymized: pseudonymize,
+      dropColumns: dropColumns.columns,
+    }),
+  };
+  res.json(response);
+});
+
+// ============================================================================
+// GET /api/research/audit - Recent research exports (researchers only)
+// ============================================================================
+
+router.get('/audit', requireResearcher, async (req, res) => {
+  try {
+    const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 100));
+    const response: ApiResponse<Awaited<ReturnType<typeof getResearchExportAudit>>> = {
+      success: true,
+      data: await getResearchExportAudit(limit),
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse<never> = {
+      success: false,
+      error: 'Failed to fetch export audit log',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    };
+    res.status(500).json(response);
+  }
+});
+
 // ============================================================================
 // GET /api/research/learners - List all learners with summary stats
 // ============================================================================
@@ -339,9 +542,9 @@ const MAX_LEARNERS_PER_PAGE = 200;
 
 router.get('/learners', async (req, res) => {
   try {
-    const instructorUserId = req.auth!.learnerId;
-    const scopedLearnerIds = await getScopedLearnerIdsForInstructor(instructorUserId);
-    let learners = (await getAllUsers()).filter((learner) => scopedLearnerIds.has(learner.id));
+    const students = (await getAllUsers()).filter((learner) => learner.role === 'student');
+    const scope = await getResearchScope(req, students.map((learner) => learner.id));
+    const learners = students.filter((learner) => scope.learnerIds.has(learner.id));
 
     // Pagination parameters
     const page = Math.max(1, parseInt(req.query.page as string) || 1);
@@ -387,6 +590,12 @@ router.get('/learners', async (req, res) => {
       })
     );
 
+    await recordResearchRead(req, 'learners', { page, perPage }, {
+      learnerCount: paginatedLearners.length,
+      excludedLearnerCount: scope.excludedLearnerCount,
+      interactionCount: learnersWithStats.reduce((sum, learner) => sum + learner.stats.totalInteractions, 0),
+    });
+
     // Add pagination metadata to response
     const responseData = {
       success: true,
@@ -421,7 +630,10 @@ router.get('/learners', async (req, res) => {
 // Helper Functions
 // ============================================================================
 
-export function convertInteractionsToCsv(interactions: Interaction[]): string {
+export function convertInteractionsToCsv(
+  interactions: Array<Partial<Interaction>>,
+  dropColumns: string[] = []
+): string {
   const headers = [
     'id',
     'learnerId',
@@ -509,7 +721,12 @@ export function convertInteractionsToCsv(interactions: Interaction[]): string {
     i.createdAt,
   ]);
 
-  return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
+  const keptIndexes = headers
+    .map((header, index) => (dropColumns.includes(header) ? -1 : index))
+    .filter((index) => index >= 0);
+  const pick = (row: Array<string | undefined>) => keptIndexes.map((index) => row[index] ?? '');
+
+  return [pick(headers).join(','), ...rows.map(r => pick(r).join(','))].join('\n');
 }
 
 export { router as researchRouter };
@@ -0,0 +1,367 @@
+/**
+ * Section Roster API Routes
+ * Owners and co-instructors import a CSV roster into a section, list its
+ * students, resend activation links, move or remove students, and sign a
+ * student out of every device (e.g. a shared lab computer or a leaked password).
+ *
+ * Imported students without an account get a pending account with an
+ * unusable password and an emailed one-time activation link
+ * (POST /api/auth/activate). Removing a student only ends the enrollment;
+ * the account and its history are kept.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { createUser } from '../db/index.js';
+import { createAuthEvent, getDb, saveLearnerProfile } from '../db/neon.js';
+import {
+  createAuthAccount,
+  createAuthToken,
+  getAuthAccountByLearnerId,
+  getAuthAccountsByEmails,
+  revokeAuthSessionsForAccount,
+  type AuthAccount,
+} from '../db/auth.js';
+import {
+  enrollStudentInSection,
+  getSectionIdsForStudents,
+  getSectionStudents,
+  getTeachingSections,
+  moveStudentToSection,
+  removeStudentFromSection,
+  type CourseSection,
+} from '../db/sections.js';
+import { requireInstructor } from '../middleware/auth.js';
+import { WEB_APP_URL } from '../config.js';
+import { buildAccountActivationEmail, getEmailTransport } from '../email/index.js';
+import {
+  RosterCsvError,
+  parseRosterCsv,
+  planRosterImport,
+  summarizeRosterImport,
+  type ExistingRosterAccount,
+  type RosterImportRowResult,
+} from '../roster-import.js';
+import type { ApiResponse } from '../types.js';
+
+const SALT_ROUNDS = 12;
+const ACCOUNT_ACTIVATION_TTL_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+const importRosterSchema = z.object({
+  csv: z.string().min(1).max(1_000_000),
+  /** Report what would happen without creating or enrolling anyone */
+  dryRun: z.boolean().optional().default(false),
+  sendActivationEmails: z.boolean().optional().default(true),
+});
+
+const moveStudentSchema = z.object({
+  targetSectionId: z.string().min(1),
+});
+
+function validationFailed(res: Response, error: z.ZodError): void {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: 'Validation failed',
+    message: error.message,
+  };
+  res.status(400).json(response);
+}
+
+/**
+ * Load a section the requesting instructor owns or co-instructs; 404 otherwise.
+ */
+async function loadTeachingSection(req: Request, res: Response): Promise<CourseSection | null> {
+  const sections = await getTeachingSections(req.auth!.learnerId);
+  const section = sections.find((candidate) => candidate.id === req.params.id);
+  if (!section) {
+    res.status(404).json({ success: false, error: 'Section not found' });
+    return null;
+  }
+  return section;
+}
+
+/**
+ * Email a one-time activation link. Failures are logged and reported per
+ * student, never thrown, so one bad address does not abort an import.
+ */
+async function sendActivationEmail(account: AuthAccount, section: CourseSection): Promise<boolean> {
+  try {
+    const token = await createAuthToken(getDb(), {
+      accountId: account.id,
+      purpose: 'account_activation',
+      ttlMs: ACCOUNT_ACTIVATION_TTL_MS,
+    });
+    await getEmailTransport().send(
+      buildAccountActivationEmail({
+        to: account.email,
+        name: account.name,
+        sectionName: section.name,
+        activateUrl: `${WEB_APP_URL}/activate?token=${encodeURIComponent(token)}`,
+        expiresInDays: ACCOUNT_ACTIVATION_TTL_MS / (24 * 60 * 60 * 1000),
+      })
+    );
+    return true;
+  } catch (error) {
+    console.error('[instructor/sections/roster:activation-email]', error);
+    return false;
+  }
+}
+
+/**
+ * Create a pending student account (learner profile included) and enroll it.
+ */
+async function createRosterStudent(
+  row: RosterImportRowResult,
+  section: CourseSection,
+  unusablePasswordHash: string
+): Promise<AuthAccount> {
+  const db = getDb();
+  const learnerId = uuidv4();
+  await createUser(learnerId, { name: row.name, role: 'student' });
+  const account = await createAuthAccount(db, {
+    email: row.email,
+    passwordHash: unusablePasswordHash,
+    role: 'student',
+    learnerId,
+    name: row.name,
+    pendingActivation: true,
+    externalStudentId: row.studentId,
+  });
+  await saveLearnerProfile(learnerId, {
+    name: row.name,
+    conceptsCovered: [],
+    conceptCoverageEvidence: {},
+    errorHistory: {},
+    interactionCount: 0,
+    currentStrategy: 'adaptive-medium',
+    preferences: {
+      escalationThreshold: 3,
+      aggregationDelay: 300000,
+      autoTextbookEnabled: true,
+      notificationsEnabled: true,
+      theme: 'system',
+    },
+    extendedData: {},
+  });
+  await enrollStudentInSection({ sectionId: section.id, studentUserId: learnerId });
+  return account;
+}
+
+const router = Router();
+
+router.use(requireInstructor);
+
+// GET /api/instructor/sections/:id/roster
+router.get('/:id/roster', async (req: Request, res: Response) => {
+  try {
+    const section = await loadTeachingSection(req, res);
+    if (!section) return;
+    res.json({ success: true, data: await getSectionStudents(section.id) });
+  } catch (error) {
+    console.error('[instructor/sections/roster]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch section roster' });
+  }
+});
+
+// POST /api/instructor/sections/:id/roster/import - CSV roster (name, email, student ID)
+router.post('/:id/roster/import', async (req: Request, res: Response) => {
+  try {
+    const parseResult = importRosterSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const section = await loadTeachingSection(req, res);
+    if (!section) return;
+
+    const { csv, dryRun, sendActivationEmails } = parseResult.data;
+    let parsed;
+    try {
+      parsed = parseRosterCsv(csv);
+    } catch (error) {
+      if (error instanceof RosterCsvError) {
+        res.status(400).json({ success: false, error: 'Validation failed', message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const db = getDb();
+    const accounts = await getAuthAccountsByEmails(db, parsed.rows.map((row) => row.email));
+    const accountsByEmail = new Map<string, ExistingRosterAccount>(
+      accounts.map((account) => [account.email, account])
+    );
+    const sectionIdsByLearner = await getSectionIdsForStudents(
+      accounts.filter((account) => account.role === 'student').map((account) => account.learnerId)
+    );
+    const planned = planRosterImport(parsed.rows, { sectionId: section.id, accountsByEmail, sectionIdsByLearner });
+
+    const results: RosterImportRowResult[] = [];
+    if (dryRun) {
+      results.push(...planned);
+    } else {
+      // One hash of a discarded random secret serves every new account in this import
+      const unusablePasswordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), SALT_ROUNDS);
+      for (const row of planned) {
+        try {
+          if (row.outcome === 'created') {
+            const account = await createRosterStudent(row, section, unusablePasswordHash);
+            results.push({
+              ...row,
+              learnerId: account.learnerId,
+              activationEmailSent: sendActivationEmails ? await sendActivationEmail(account, section) : false,
+            });
+          } else if (row.outcome === 'enrolled' && row.learnerId) {
+            await enrollStudentInSection({ sectionId: section.id, studentUserId: row.learnerId });
+            results.push(row);
+          } else {
+            results.push(row);
+          }
+        } catch (error) {
+          console.error('[instructor/sections/roster:import-row]', error);
+          results.push({ ...row, outcome: 'failed', reason: 'Could not save this student' });
+        }
+      }
+    }
+
+    const rows = [...results, ...parsed.invalid].sort((a, b) => a.line - b.line);
+    res.json({
+      success: true,
+      data: {
+        sectionId: section.id,
+        dryRun,
+        summary: summarizeRosterImport(rows),
+        rows,
+      },
+    });
+  } catch (error) {
+    console.error('[instructor/sections/roster:import]', error);
+    res.status(500).json({ success: false, error: 'Failed to import roster' });
+  }
+});
+
+// POST /api/instructor/sections/:id/roster/:learnerId/activation - Resend the activation link
+router.post('/:id/roster/:learnerId/activation', async (req: Request, res: Response) => {
+  try {
+    const section = await loadTeachingSection(req, res);
+    if (!section) return;
+
+    const students = await getSectionStudents(section.id);
+    const account = students.some((student) => student.learnerId === req.params.learnerId)
+      ? await getAuthAccountByLearnerId(getDb(), req.params.learnerId)
+      : null;
+    if (!account) {
+      res.status(404).json({ success: false, error: 'Student not found in this section' });
+      return;
+    }
+    if (!account.pendingActivation) {
+      res.status(409).json({ success: false, error: 'This account is already active' });
+      return;
+    }
+
+    if (!(await sendActivationEmail(account, section))) {
+      res.status(502).json({ success: false, error: 'Could not send the activation email' });
+      return;
+    }
+    res.json({ success: true, data: { email: account.email } });
+  } catch (error) {
+    console.error('[instructor/sections/roster:activation]', error);
+    res.status(500).json({ success: false, error: 'Failed to resend activation email' });
+  }
+});
+
+// POST /api/instructor/sections/:id/roster/:learnerId/sessions/revoke - Sign the student out everywhere
+router.post('/:id/roster/:learnerId/sessions/revoke', async (req: Request, res: Response) => {
+  try {
+    const section = await loadTeachingSection(req, res);
+    if (!section) return;
+
+    const students = await getSectionStudents(section.id);
+    const db = getDb();
+    const account = students.some((student) => student.learnerId === req.params.learnerId)
+      ? await getAuthAccountByLearnerId(db, req.params.learnerId)
+      : null;
+    if (!account) {
+      res.status(404).json({ success: false, error: 'Student not found in this section' });
+      return;
+    }
+
+    const revoked = await revokeAuthSessionsForAccount(db, account.id, 'staff_revoked');
+    await createAuthEvent({
+      eventType: 'session_revoked',
+      email: account.email,
+      accountId: account.id,
+      learnerId: account.learnerId,
+      role: account.role,
+      outcome: 'success',
+      actorAccountId: req.auth!.accountId,
+    });
+    res.json({ success: true, data: { revoked } });
+  } catch (error) {
+    console.error('[instructor/sections/roster:revoke-sessions]', error);
+    res.status(500).json({ success: false, error: 'Failed to revoke sessions' });
+  }
+});
+
+// POST /api/instructor/sections/:id/roster/:learnerId/move - Move a student to another of your sections
+router.post('/:id/roster/:learnerId/move', async (req: Request, res: Response) => {
+  try {
+    const parseResult = moveStudentSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const section = await loadTeachingSection(req, res);
+    if (!section) return;
+
+    const { targetSectionId } = parseResult.data;
+    if (targetSectionId === section.id) {
+      res.status(400).json({ success: false, error: 'The student is already in this section' });
+      return;
+    }
+    const sections = await getTeachingSections(req.auth!.learnerId);
+    if (!sections.some((candidate) => candidate.id === targetSectionId)) {
+      res.status(404).json({ success: false, error: 'Target section not found' });
+      return;
+    }
+
+    const enrollment = await moveStudentToSection({
+      fromSectionId: section.id,
+      toSectionId: targetSectionId,
+      studentUserId: req.params.learnerId,
+    });
+    if (!enrollment) {
+      res.status(404).json({ success: false, error: 'Student not found in this section' });
+      return;
+    }
+    res.json({ success: true, data: await getSectionStudents(section.id) });
+  } catch (error) {
+    console.error('[instructor/sections/roster:move]', error);
+    res.status(500).json({ success: false, error: 'Failed to move student' });
+  }
+});
+
+// DELETE /api/instructor/sections/:id/roster/:learnerId - Remove a student from the section
+router.delete('/:id/roster/:learnerId', async (req: Request, res: Response) => {
+  try {
+    const section = await loadTeachingSection(req, res);
+    if (!section) return;
+
+    const removed = await removeStudentFromSection(section.id, req.params.learnerId);
+    if (!removed) {
+      res.status(404).json({ success: false, error: 'Student not found in this section' });
+      return;
+    }
+    res.json({ success: true, data: await getSectionStudents(section.id) });
+  } catch (error) {
+    console.error('[instructor/sections/roster:remove]', error);
+    res.status(500).json({ success: false, error: 'Failed to remove student' });
+  }
+});
+
+export { router as sectionRosterRouter };
@@ -0,0 +1,135 @@
+/**
+ * Section Staff API Routes
+ * Section owners add co-instructors and teaching assistants to their sections.
+ * Co-instructors can manage assignments, problems and the gradebook; TAs get
+ * read-only access to the section's learners and interactions.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { getDb } from '../db/neon.js';
+import { getAuthAccountByEmail } from '../db/auth.js';
+import {
+  addSectionStaff,
+  getOwnedSectionsByInstructor,
+  getSectionStaff,
+  removeSectionStaff,
+  type CourseSection,
+} from '../db/sections.js';
+import { requireInstructor } from '../middleware/auth.js';
+import type { ApiResponse } from '../types.js';
+
+const addStaffSchema = z.object({
+  email: z.string().email().toLowerCase().trim(),
+  role: z.enum(['co_instructor', 'ta']),
+});
+
+/** Account role each staff role requires */
+const REQUIRED_ACCOUNT_ROLE = {
+  co_instructor: 'instructor',
+  ta: 'ta',
+} as const;
+
+function validationFailed(res: Response, error: z.ZodError): void {
+  const response: ApiResponse<never> = {
+    success: false,
+    error: 'Validation failed',
+    message: error.message,
+  };
+  res.status(400).json(response);
+}
+
+/**
+ * Load a section the requesting instructor owns. Staff are managed by the
+ * owner only; responds 404 for any other section so ids are not enumerable.
+ */
+async function loadOwnSection(req: Request, res: Response): Promise<CourseSection | null> {
+  const sections = await getOwnedSectionsByInstructor(req.auth!.learnerId);
+  const section = sections.find((candidate) => candidate.id === req.params.id);
+  if (!section) {
+    res.status(404).json({ success: false, error: 'Section not found' });
+    return null;
+  }
+  return section;
+}
+
+const router = Router();
+
+router.use(requireInstructor);
+
+// GET /api/instructor/sections/:id/staff
+router.get('/:id/staff', async (req: Request, res: Response) => {
+  try {
+    const section = await loadOwnSection(req, res);
+    if (!section) return;
+    res.json({ success: true, data: await getSectionStaff(section.id) });
+  } catch (error) {
+    console.error('[instructor/sections/staff]', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch section staff' });
+  }
+});
+
+// POST /api/instructor/sections/:id/staff - Add (or change the role of) a staff member by email
+router.post('/:id/staff', async (req: Request, res: Response) => {
+  try {
+    const parseResult = addStaffSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      validationFailed(res, parseResult.error);
+      return;
+    }
+
+    const section = await loadOwnSection(req, res);
+    if (!section) return;
+
+    const { email, role } = parseResult.data;
+    const account = await getAuthAccountByEmail(getDb(), email);
+    if (!account) {
+      res.status(404).json({ success: false, error: 'No account with that email' });
+      return;
+    }
+    if (account.learnerId === section.instructorUserId) {
+      res.status(400).json({ success: false, error: 'The section owner is already on staff' });
+      return;
+    }
+    if (account.role !== REQUIRED_ACCOUNT_ROLE[role]) {
+      res.status(400).json({
+        success: false,
+        error: role === 'ta'
+          ? 'Only teaching-assistant accounts can be added as TAs'
+          : 'Only instructor accounts can be added as co-instructors',
+      });
+      return;
+    }
+
+    await addSectionStaff({
+      sectionId: section.id,
+      userId: account.learnerId,
+      staffRole: role,
+      addedByUserId: req.auth!.learnerId,
+    });
+    res.status(201).json({ success: true, data: await getSectionStaff(section.id) });
+  } catch (error) {
+    console.error('[instructor/sections/staff:add]', error);
+    res.status(500).json({ success: false, error: 'Failed to add section staff' });
+  }
+});
+
+// DELETE /api/instructor/sections/:id/staff/:userId
+router.delete('/:id/staff/:userId', async (req: Request, res: Response) => {
+  try {
+    const section = await loadOwnSection(req, res);
+    if (!section) return;
+
+    const removed = await removeSectionStaff(section.id, req.params.userId);
+    if (!removed) {
+      res.status(404).json({ success: false, error: 'Staff member not found' });
+      return;
+    }
+    res.json({ success: true, data: await getSectionStaff(section.id) });
+  } catch (error) {
+    console.error('[instructor/sections/staff:remove]', error);
+    res.status(500).json({ success: false, error: 'Failed to remove section staff' });
+  }
+});
+
+export { router as sectionStaffRouter };
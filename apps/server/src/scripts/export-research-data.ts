@@ -2,14 +2,18 @@
 /**
  * Research Data Export Script
  *
- * Exports interaction_events with provenance status tracking.
+ * Exports interaction_events with provenance status tracking. Only learners
+ * with research consent on record are included, and every run is logged to
+ * research_export_audit.
  * Run with: npx tsx apps/server/src/scripts/export-research-data.ts [--format=json|csv] [--output=path]
  *
  * @module scripts/export-research-data
  */
 
 import { neon } from '@neondatabase/serverless';
+import { randomUUID } from 'crypto';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -185,10 +189,26 @@ async function main() {
           WHERE r.event_id = ie.id
         ) as has_retrieval_links
       FROM interaction_events ie
+      WHERE EXISTS (
+        SELECT 1 FROM research_consents rc
+        WHERE rc.user_id = ie.user_id AND rc.consented = TRUE
+      )
       ORDER BY ie.timestamp DESC
     `;
 
-    console.log(`   Found ${rows.length} events (before filtering)`);
+    // Learners with activity but no consent on record are left out entirely
+    const [excluded] = await db`
+      SELECT COUNT(DISTINCT ie.user_id)::int AS count
+      FROM interaction_events ie
+      WHERE NOT EXISTS (
+        SELECT 1 FROM research_consents rc
+        WHERE rc.user_id = ie.user_id AND rc.consented = TRUE
+      )
+    `;
+    const excludedLearnerCount = Number(excluded?.count ?? 0);
+
+    console.log(`   Found ${rows.length} events from consenting learners (before filtering)`);
+    console.log(`   Excluded ${excludedLearnerCount} learners without research consent`);
 
     // RESEARCH-5: Filter to native_complete only if requested
     let filteredRows = rows;
@@ -241,6 +261,19 @@ async function main() {
     fs.mkdirSync(path.dirname(outputFile), { recursive: true });
     fs.writeFileSync(outputFile, output);
 
+    const learnerCount = new Set(exportRows.map(row => row.learnerId)).size;
+    await db`
+      INSERT INTO research_export_audit (
+        id, actor_user_id, actor_role, channel, format, filters,
+        learner_count, excluded_learner_count, interaction_count
+      ) VALUES (
+        ${randomUUID()}, NULL, NULL, 'script', ${FORMAT},
+        ${JSON.stringify({ nativeOnly: NATIVE_ONLY, operator: os.userInfo().username, outputFile })}::jsonb,
+        ${learnerCount}, ${excludedLearnerCount}, ${exportRows.length}
+      )
+    `;
+    console.log('   Export recorded in research_export_audit');
+
     console.log(`\n✅ Export saved: ${outputFile}`);
 
   } catch (error) {
@@ -0,0 +1,301 @@
+/**
+ * Mock LMS (LTI 1.3 platform) for local testing of the tool endpoints.
+ *
+ * Plays the Canvas/Moodle side of an LTI 1.3 integration: OIDC login,
+ * signed id_token launches, deep linking return, client-credentials tokens,
+ * line items and a score store.
+ *
+ * Usage:
+ *   npm run lti:mock-lms
+ *   # start the API with the LTI_PLATFORMS value the mock prints, then open
+ *   # http://localhost:3100 and launch as the instructor or a student
+ *
+ * Env:
+ *   MOCK_LMS_PORT  (default 3100)
+ *   LTI_TOOL_URL   (default http://localhost:3001)
+ */
+
+import crypto from 'node:crypto';
+import express, { type Request, type Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+const PORT = parseInt(process.env.MOCK_LMS_PORT || '3100', 10);
+const ISSUER = `http://localhost:${PORT}`;
+const TOOL_URL = (process.env.LTI_TOOL_URL || 'http://localhost:3001').replace(/\/+$/, '');
+const CLIENT_ID = 'mock-lms-client';
+const DEPLOYMENT_ID = 'mock-deployment-1';
+const KEY_ID = 'mock-lms-key-1';
+
+const COURSE = { id: 'mock-course-101', title: 'Databases 101 (Mock LMS)' };
+
+const USERS: Record<string, { sub: string; name: string; email: string; roles: string[] }> = {
+  instructor: {
+    sub: 'mock-instructor-1',
+    name: 'Ada Instructor',
+    email: 'instructor@mock-lms.test',
+    roles: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor'],
+  },
+  student1: {
+    sub: 'mock-student-1',
+    name: 'Grace Student',
+    email: 'student1@mock-lms.test',
+    roles: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'],
+  },
+  student2: {
+    sub: 'mock-student-2',
+    name: 'Edgar Student',
+    email: 'student2@mock-lms.test',
+    roles: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'],
+  },
+};
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface MockResourceLink {
+  id: string;
+  title: string;
+  custom: Record<string, string>;
+  lineItemId: string | null;
+}
+
+interface MockLineItem {
+  id: string;
+  label: string;
+  scoreMaximum: number;
+  resourceId?: string;
+  resourceLinkId?: string;
+  scores: Record<string, Record<string, unknown>>;
+}
+
+const resourceLinks: MockResourceLink[] = [];
+const lineItems = new Map<string, MockLineItem>();
+const pendingLaunches = new Map<string, { user: string; message: 'resource' | 'deep-link'; linkId?: string }>();
+const accessTokens = new Set<string>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function page(body: string): string {
+  return `<!doctype html><html><head><meta charset="utf-8"><title>Mock LMS</title>
+<style>body{font-family:system-ui,sans-serif;max-width:50rem;margin:2rem auto}td,th{padding:.25rem .75rem;text-align:left}</style>
+</head><body>${body}</body></html>`;
+}
+
+function lineItemUrl(id: string): string {
+  return `${ISSUER}/lineitems/${id}`;
+}
+
+async function fetchToolKey(kid: string | undefined): Promise<crypto.KeyObject> {
+  const response = await fetch(`${TOOL_URL}/api/lti/jwks`);
+  const body = (await response.json()) as { keys: crypto.JsonWebKey[] };
+  const jwk = body.keys.find((key) => !kid || key.kid === kid);
+  if (!jwk) throw new Error('Tool key not found');
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+async function verifyToolToken(token: string, audience: string): Promise<Record<string, unknown>> {
+  const decoded = jwt.decode(token, { complete: true });
+  const key = await fetchToolKey(decoded?.header.kid);
+  return jwt.verify(token, key, { algorithms: ['RS256'], audience, issuer: CLIENT_ID }) as Record<string, unknown>;
+}
+
+function requireAccessToken(req: Request, res: Response): boolean {
+  const token = req.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (!accessTokens.has(token)) {
+    res.status(401).json({ error: 'invalid_token' });
+    return false;
+  }
+  return true;
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ type: ['application/json', 'application/*+json'] }));
+
+app.get('/', (_req: Request, res: Response) => {
+  const launchLinks = Object.keys(USERS)
+    .map((user) => `<li><a href="/start?user=${user}">Open course tool as ${user}</a></li>`)
+    .join('');
+  const linkRows = resourceLinks
+    .map((link) => `<tr><td>${escapeHtml(link.title)}</td><td>${Object.keys(USERS)
+      .map((user) => `<a href="/start?user=${user}&link=${link.id}">${user}</a>`)
+      .join(' ')}</td></tr>`)
+    .join('');
+  const gradeRows = [...lineItems.values()]
+    .flatMap((item) => Object.entries(item.scores).map(([userId, score]) =>
+      `<tr><td>${escapeHtml(item.label)}</td><td>${escapeHtml(userId)}</td><td>${String(score.scoreGiven)} / ${String(score.scoreMaximum)}</td><td>${escapeHtml(String(score.activityProgress))}</td></tr>`
+    ))
+    .join('');
+  res.send(page(`<h1>${escapeHtml(COURSE.title)}</h1>
+<h2>Course navigation</h2><ul>${launchLinks}<li><a href="/start?user=instructor&message=deep-link">Add SQL-Adapt assignments (deep linking, instructor)</a></li></ul>
+<h2>Assignment links</h2><table>${linkRows || '<tr><td>None yet - use deep linking above.</td></tr>'}</table>
+<h2>Gradebook</h2><table><tr><th>Item</th><th>User</th><th>Score</th><th>Progress</th></tr>${gradeRows}</table>`));
+});
+
+// Step 1: third-party initiated login at the tool
+app.get('/start', (req: Request, res: Response) => {
+  const user = String(req.query.user || 'student1');
+  if (!USERS[user]) {
+    res.status(400).send('Unknown user');
+    return;
+  }
+  const hint = crypto.randomUUID();
+  pendingLaunches.set(hint, {
+    user,
+    message: req.query.message === 'deep-link' ? 'deep-link' : 'resource',
+    linkId: typeof req.query.link === 'string' ? req.query.link : undefined,
+  });
+  const login = new URL(`${TOOL_URL}/api/lti/login`);
+  login.search = new URLSearchParams({
+    iss: ISSUER,
+    client_id: CLIENT_ID,
+    login_hint: hint,
+    lti_deployment_id: DEPLOYMENT_ID,
+    target_link_uri: `${TOOL_URL}/api/lti/launch`,
+  }).toString();
+  res.redirect(login.toString());
+});
+
+// Step 2: the tool's OIDC authentication request; answer with a signed id_token
+app.get('/auth', (req: Request, res: Response) => {
+  const pending = pendingLaunches.get(String(req.query.login_hint));
+  if (!pending || req.query.client_id !== CLIENT_ID) {
+    res.status(400).send('Unknown login_hint or client_id');
+    return;
+  }
+  pendingLaunches.delete(String(req.query.login_hint));
+
+  const user = USERS[pending.user];
+  const link = resourceLinks.find((candidate) => candidate.id === pending.linkId);
+  const claims: Record<string, unknown> = {
+    sub: user.sub,
+    name: user.name,
+    email: user.email,
+    nonce: req.query.nonce,
+    'https://purl.imsglobal.org/spec/lti/claim/version': '1.3.0',
+    'https://purl.imsglobal.org/spec/lti/claim/deployment_id': DEPLOYMENT_ID,
+    'https://purl.imsglobal.org/spec/lti/claim/roles': user.roles,
+    'https://purl.imsglobal.org/spec/lti/claim/context': { id: COURSE.id, title: COURSE.title },
+    'https://purl.imsglobal.org/spec/lti/claim/target_link_uri': req.query.redirect_uri,
+  };
+
+  if (pending.message === 'deep-link') {
+    claims['https://purl.imsglobal.org/spec/lti/claim/message_type'] = 'LtiDeepLinkingRequest';
+    claims['https://purl.imsglobal.org/spec/lti-dl/claim/deep_linking_settings'] = {
+      deep_link_return_url: `${ISSUER}/deep-link-return`,
+      accept_types: ['ltiResourceLink'],
+      accept_presentation_document_targets: ['iframe', 'window'],
+      accept_multiple: true,
+      data: 'mock-deep-link-data',
+    };
+  } else {
+    claims['https://purl.imsglobal.org/spec/lti/claim/message_type'] = 'LtiResourceLinkRequest';
+    claims['https://purl.imsglobal.org/spec/lti/claim/resource_link'] = {
+      id: link?.id ?? 'mock-course-navigation',
+      title: link?.title ?? 'SQL-Adapt',
+    };
+    claims['https://purl.imsglobal.org/spec/lti/claim/custom'] = link?.custom ?? {};
+    claims['https://purl.imsglobal.org/spec/lti-ags/claim/endpoint'] = {
+      scope: [
+        'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+        'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+      ],
+      lineitems: `${ISSUER}/lineitems`,
+      ...(link?.lineItemId ? { lineitem: lineItemUrl(link.lineItemId) } : {}),
+    };
+  }
+
+  const idToken = jwt.sign(claims, privateKey, {
+    algorithm: 'RS256',
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience: CLIENT_ID,
+    expiresIn: 300,
+  });
+  res.send(page(`<form id="f" method="POST" action="${escapeHtml(String(req.query.redirect_uri))}">
+<input type="hidden" name="id_token" value="${escapeHtml(idToken)}">
+<input type="hidden" name="state" value="${escapeHtml(String(req.query.state))}">
+</form><script>document.getElementById('f').submit()</script>`));
+});
+
+app.get('/.well-known/jwks.json', (_req: Request, res: Response) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+});
+
+// Deep linking return: verify the tool's response and add the links to the course
+app.post('/deep-link-return', async (req: Request, res: Response) => {
+  try {
+    const claims = await verifyToolToken(String(req.body.JWT), ISSUER);
+    const items = (claims['https://purl.imsglobal.org/spec/lti-dl/claim/content_items'] ?? []) as Array<{
+      title: string;
+      custom?: Record<string, string>;
+      lineItem?: { label: string; scoreMaximum: number; resourceId?: string };
+    }>;
+    for (const item of items) {
+      const id = `mock-link-${resourceLinks.length + 1}`;
+      let lineItemId: string | null = null;
+      if (item.lineItem) {
+        lineItemId = crypto.randomUUID();
+        lineItems.set(lineItemId, { id: lineItemId, ...item.lineItem, resourceLinkId: id, scores: {} });
+      }
+      resourceLinks.push({ id, title: item.title, custom: item.custom ?? {}, lineItemId });
+    }
+    console.log(`[mock-lms] deep linking added ${items.length} link(s)`);
+    res.redirect('/');
+  } catch (error) {
+    res.status(400).send(`Deep linking response rejected: ${(error as Error).message}`);
+  }
+});
+
+app.post('/token', async (req: Request, res: Response) => {
+  try {
+    await verifyToolToken(String(req.body.client_assertion), `${ISSUER}/token`);
+    const token = crypto.randomBytes(24).toString('hex');
+    accessTokens.add(token);
+    res.json({ access_token: token, token_type: 'Bearer', expires_in: 3600, scope: req.body.scope });
+  } catch (error) {
+    res.status(401).json({ error: 'invalid_client', error_description: (error as Error).message });
+  }
+});
+
+app.post('/lineitems', (req: Request, res: Response) => {
+  if (!requireAccessToken(req, res)) return;
+  const id = crypto.randomUUID();
+  const item: MockLineItem = { id, ...req.body, scores: {} };
+  lineItems.set(id, item);
+  const link = resourceLinks.find((candidate) => candidate.id === item.resourceLinkId);
+  if (link) link.lineItemId = id;
+  res.status(201).json({ ...item, id: lineItemUrl(id), scores: undefined });
+});
+
+app.post('/lineitems/:id/scores', (req: Request, res: Response) => {
+  if (!requireAccessToken(req, res)) return;
+  const item = lineItems.get(req.params.id);
+  if (!item) {
+    res.status(404).json({ error: 'Unknown line item' });
+    return;
+  }
+  item.scores[String(req.body.userId)] = req.body;
+  console.log(`[mock-lms] score ${item.label}: ${req.body.userId} = ${req.body.scoreGiven}/${req.body.scoreMaximum}`);
+  res.status(204).end();
+});
+
+app.get('/gradebook', (_req: Request, res: Response) => {
+  res.json([...lineItems.values()]);
+});
+
+app.listen(PORT, () => {
+  const platforms = [{
+    issuer: ISSUER,
+    clientId: CLIENT_ID,
+    deploymentIds: [DEPLOYMENT_ID],
+    authLoginUrl: `${ISSUER}/auth`,
+    authTokenUrl: `${ISSUER}/token`,
+    jwksUrl: `${ISSUER}/.well-known/jwks.json`,
+    allowInstructors: true,
+  }];
+  console.log(`Mock LMS listening on ${ISSUER} (tool: ${TOOL_URL})`);
+  console.log('Start the API with:');
+  console.log(`  LTI_PLATFORMS='${JSON.stringify(platforms)}'`);
+});
@@ -7,7 +7,11 @@
 // Learner Types
 // ============================================================================
 
-export type UserRole = 'student' | 'instructor';
+/**
+ * 'ta' accounts get read-only access to the sections they are staffed on;
+ * 'researcher' accounts use the research API, limited to consenting learners.
+ */
+export type UserRole = 'student' | 'instructor' | 'ta' | 'researcher';
 
 export interface Learner {
   id: string;
@@ -181,7 +185,8 @@ export type EventType =
   | 'bandit_updated'
   | 'hdi_calculated'
   | 'hdi_trajectory_updated'
-  | 'dependency_intervention_triggered';
+  | 'dependency_intervention_triggered'
+  | 'query_plan_view';
 
 /**
  * HDI (Hint Dependency Index) Components
@@ -253,6 +258,8 @@ export interface Interaction {
   policyVersion?: string;
   timeSpent?: number;
   successful?: boolean;
+  /** Partial-credit score in [0, 1] on result-graded execution events */
+  resultSimilarity?: number;
   ruleFired?: string;
   templateId?: string;
   inputHash?: string;
@@ -389,6 +396,8 @@ export interface CreateInteractionRequest {
   policyVersion?: string;
   timeSpent?: number;
   successful?: boolean;
+  /** Partial-credit score in [0, 1] on result-graded execution events */
+  resultSimilarity?: number;
   ruleFired?: string;
   templateId?: string;
   inputHash?: string;
@@ -548,6 +557,76 @@ export interface UpdateUnitRequest {
   status?: UnitStatus;
 }
 
+// ============================================================================
+// Problem Bank Types
+// ============================================================================
+
+export type ProblemDifficulty = 'beginner' | 'intermediate' | 'advanced';
+export type ProblemTopic = 'basics' | 'filtering' | 'joining' | 'aggregation' | 'functions' | 'advanced';
+export type ProblemDialect = 'sqlite' | 'postgres';
+export type ProblemStatus = 'draft' | 'published';
+
+export interface ProblemStateVerification {
+  query?: string;
+  tables?: string[];
+}
+
+export interface ProblemHiddenDataset {
+  id: string;
+  schema: string;
+}
+
+/**
+ * Instructor-authored problem. Mirrors the web SQLProblem shape so published
+ * problems can be served to the practice page as-is.
+ */
+export interface AuthoredProblem {
+  id: string;
+  authorUserId: string;
+  title: string;
+  description: string;
+  difficulty: ProblemDifficulty;
+  concepts: string[];
+  topic: ProblemTopic;
+  topicDifficultyLevel: number;
+  schema: string;
+  expectedQuery: string;
+  /** Rows expectedQuery returns, computed in the browser with sql.js */
+  expectedResult: Record<string, unknown>[] | null;
+  gradingMode: string | null;
+  /** Final-state verification for write-query problems */
+  stateVerification: ProblemStateVerification | null;
+  /** Grading-only datasets (DDL + seed rows) expectedQuery must also agree on */
+  hiddenDatasets: ProblemHiddenDataset[];
+  dialect: ProblemDialect;
+  hints: string[];
+  status: ProblemStatus;
+  /** Sections the problem is published to (empty while a draft) */
+  sectionIds: string[];
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateProblemRequest {
+  title: string;
+  description: string;
+  difficulty: ProblemDifficulty;
+  concepts: string[];
+  topic: ProblemTopic;
+  topicDifficultyLevel?: number;
+  schema: string;
+  expectedQuery: string;
+  expectedResult?: Record<string, unknown>[] | null;
+  gradingMode?: string | null;
+  stateVerification?: ProblemStateVerification | null;
+  hiddenDatasets?: ProblemHiddenDataset[];
+  dialect?: ProblemDialect;
+  hints?: string[];
+}
+
+export type UpdateProblemRequest = Partial<CreateProblemRequest>;
+
 // ============================================================================
 // Session Types
 // ============================================================================
@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { KeyRound, Laptop } from 'lucide-react';
+import { Card } from '../../ui/card';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import { Separator } from '../../ui/separator';
+import { useAuth } from '../../../lib/auth-context';
+import {
+  changePassword,
+  deleteAccount,
+  listSessions,
+  logoutAllDevices,
+  requestEmailVerification,
+  revokeSession,
+  type AuthSessionInfo,
+} from '../../../lib/api/auth-client';
+
+/**
+ * Email verification status, password change, signed-in devices and account
+ * deletion for signed-in accounts. Renders nothing without a backend account.
+ */
+export function AccountSecurityCard() {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+
+  const [verificationMessage, setVerificationMessage] = useState<string | null>(null);
+  const [isSendingVerification, setIsSendingVerification] = useState(false);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [passwordMessage, setPasswordMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  const [sessions, setSessions] = useState<AuthSessionInfo[]>([]);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [isLoggingOutAll, setIsLoggingOutAll] = useState(false);
+
+  const [showDelete, setShowDelete] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    listSessions().then(loaded => {
+      if (!cancelled && loaded) setSessions(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (!user) return null;
+
+  const handleResendVerification = async () => {
+    setIsSendingVerification(true);
+    const result = await requestEmailVerification();
+    setIsSendingVerification(false);
+    setVerificationMessage(
+      result.success ? `Verification email sent to ${user.email}.` : result.error ?? 'Could not send the email.'
+    );
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChangingPassword(true);
+    const result = await changePassword(currentPassword, newPassword);
+    setIsChangingPassword(false);
+    if (result.success) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setPasswordMessage({ ok: true, text: 'Password updated.' });
+    } else {
+      setPasswordMessage({
+        ok: false,
+        text: result.details?.newPassword?.[0] ?? result.error ?? 'Could not update your password.',
+      });
+    }
+  };
+
+  const handleRevokeSession = async (session: AuthSessionInfo) => {
+    setSessionError(null);
+    const result = await revokeSession(session.id);
+    if (!result.success) {
+      setSessionError(result.error ?? 'Could not sign out that device.');
+      return;
+    }
+    if (session.current) {
+      await logout();
+      navigate('/login', { replace: true });
+      return;
+    }
+    setSessions(current => current.filter(candidate => candidate.id !== session.id));
+  };
+
+  const handleLogoutAll = async () => {
+    setIsLoggingOutAll(true);
+    setSessionError(null);
+    const result = await logoutAllDevices();
+    setIsLoggingOutAll(false);
+    if (!result.success) {
+      setSessionError(result.error ?? 'Could not sign out your devices.');
+      return;
+    }
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsDeleting(true);
+    setDeleteError(null);
+    const result = await deleteAccount(deletePassword);
+    setIsDeleting(false);
+    if (!result.success) {
+      setDeleteError(result.error ?? 'Could not delete your account.');
+      return;
+    }
+    // The server already ended the session; this clears local state
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <Card className="p-6" data-testid="account-security-section">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-slate-100 rounded-lg">
+          <KeyRound className="size-5 text-slate-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Account</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Email, password, devices and account removal</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <div className="text-sm">
+            <span className="text-gray-700 dark:text-gray-300">{user.email}</span>{' '}
+            {user.emailVerified ? (
+              <Badge variant="secondary">Verified</Badge>
+            ) : (
+              <Badge variant="outline">Not verified</Badge>
+            )}
+          </div>
+          {!user.emailVerified && (
+            <Button variant="outline" size="sm" onClick={handleResendVerification} disabled={isSendingVerification}>
+              {isSendingVerification ? 'Sending...' : 'Resend verification email'}
+            </Button>
+          )}
+        </div>
+        {verificationMessage && <p className="text-xs text-gray-500" role="status">{verificationMessage}</p>}
+      </div>
+
+      <Separator className="my-4" />
+
+      <form onSubmit={handleChangePassword} className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Change password</h3>
+        <div className="space-y-1">
+          <Label htmlFor="current-password">Current password</Label>
+          <Input
+            id="current-password"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-password">New password</Label>
+          <Input
+            id="new-password"
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            autoComplete="new-password"
+            minLength={8}
+            required
+          />
+        </div>
+        {passwordMessage && (
+          <p
+            className={passwordMessage.ok ? 'text-sm text-green-600' : 'text-sm text-red-600'}
+            role={passwordMessage.ok ? 'status' : 'alert'}
+          >
+            {passwordMessage.text}
+          </p>
+        )}
+        <Button type="submit" size="sm" disabled={!currentPassword || newPassword.length < 8 || isChangingPassword}>
+          {isChangingPassword ? 'Saving...' : 'Update password'}
+        </Button>
+      </form>
+
+      <Separator className="my-4" />
+
+      <div className="space-y-3" data-testid="account-sessions">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Signed-in devices</h3>
+        {sessions.length > 0 && (
+          <ul className="divide-y rounded border text-sm">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center gap-2 p-2">
+                <Laptop className="size-4 text-gray-400 shrink-0" />
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate text-gray-700 dark:text-gray-300">
+                    {session.userAgent ?? 'Unknown device'}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    Last active {new Date(session.lastUsedAt).toLocaleString()}
+                    {session.ipAddress ? ` · ${session.ipAddress}` : ''}
+                  </span>
+                </span>
+                {session.current ? (
+                  <Badge variant="secondary">This device</Badge>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => handleRevokeSession(session)}>
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {sessionError && <p className="text-sm text-red-600" role="alert">{sessionError}</p>}
+        <Button variant="outline" size="sm" onClick={handleLogoutAll} disabled={isLoggingOutAll}>
+          {isLoggingOutAll ? 'Signing out...' : 'Log out all devices'}
+        </Button>
+      </div>
+
+      <Separator className="my-4" />
+
+      {showDelete ? (
+        <form onSubmit={handleDelete} className="space-y-3">
+          <p className="text-sm text-red-700">
+            This permanently deletes your account, practice history and textbook. It cannot be undone.
+          </p>
+          <div className="space-y-1">
+            <Label htmlFor="delete-password">Confirm with your password</Label>
+            <Input
+              id="delete-password"
+              type="password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          {deleteError && <p className="text-sm text-red-600" role="alert">{deleteError}</p>}
+          <div className="flex gap-2">
+            <Button type="submit" variant="destructive" size="sm" disabled={!deletePassword || isDeleting}>
+              {isDeleting ? 'Deleting...' : 'Delete my account'}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowDelete(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="outline" size="sm" className="text-red-600" onClick={() => setShowDelete(true)}>
+          Delete account...
+        </Button>
+      )}
+    </Card>
+  );
+}
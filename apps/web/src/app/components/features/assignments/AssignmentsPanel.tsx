@@ -0,0 +1,491 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, BarChart3, CalendarClock, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Checkbox } from '../../ui/checkbox';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import { Textarea } from '../../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../ui/table';
+import { ConfirmDialog } from '../../ui/confirm-dialog';
+import {
+  storageClient,
+  type Assignment,
+  type AssignmentInput,
+  type AssignmentReport,
+} from '../../../lib/api/storage-client';
+import { formatDuration, getAssignmentStatus, toDateTimeLocalValue } from '../../../lib/assignments';
+import { mergeProblemCatalog, toSqlProblem } from '../../../lib/problem-bank';
+import { getProblemsByDifficultyRank } from '../../../lib/problem-ranking';
+import { sqlProblems } from '../../../data/problems';
+import type { SQLProblem } from '../../../types';
+
+interface AssignmentsPanelProps {
+  sections: Array<{ id: string; name: string }>;
+}
+
+interface AssignmentDraft {
+  sectionId: string;
+  title: string;
+  description: string;
+  problemIds: string[];
+  /** datetime-local values */
+  opensAt: string;
+  dueAt: string;
+  /** Blank means unlimited */
+  maxAttempts: string;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function emptyDraft(sectionId: string): AssignmentDraft {
+  const now = new Date().toISOString();
+  return {
+    sectionId,
+    title: '',
+    description: '',
+    problemIds: [],
+    opensAt: toDateTimeLocalValue(now),
+    dueAt: toDateTimeLocalValue(new Date(Date.now() + WEEK_MS).toISOString()),
+    maxAttempts: '',
+  };
+}
+
+function toDraft(assignment: Assignment): AssignmentDraft {
+  return {
+    sectionId: assignment.sectionId,
+    title: assignment.title,
+    description: assignment.description,
+    problemIds: assignment.problemIds,
+    opensAt: toDateTimeLocalValue(assignment.opensAt),
+    dueAt: toDateTimeLocalValue(assignment.dueAt),
+    maxAttempts: assignment.maxAttempts === null ? '' : String(assignment.maxAttempts),
+  };
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Instructor assignments: pick problems for a section, set open/due dates
+ * and an attempt limit, and review completion, late work and time-on-task.
+ */
+export function AssignmentsPanel({ sections }: AssignmentsPanelProps) {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [authoredProblems, setAuthoredProblems] = useState<SQLProblem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<AssignmentDraft>(() => emptyDraft(sections[0]?.id ?? ''));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Assignment | null>(null);
+  const [report, setReport] = useState<AssignmentReport | null>(null);
+  const [loadingReportId, setLoadingReportId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      storageClient.getInstructorAssignments(),
+      storageClient.getInstructorProblems(),
+    ]).then(([loadedAssignments, loadedProblems]) => {
+      if (cancelled) return;
+      setAssignments(loadedAssignments);
+      setAuthoredProblems(loadedProblems.map(toSqlProblem));
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const catalog = useMemo(
+    () => getProblemsByDifficultyRank(mergeProblemCatalog(sqlProblems, authoredProblems)),
+    [authoredProblems]
+  );
+  const problemTitles = useMemo(
+    () => new Map(catalog.map(problem => [problem.id, problem.title])),
+    [catalog]
+  );
+  const sectionNames = useMemo(
+    () => new Map(sections.map(section => [section.id, section.name])),
+    [sections]
+  );
+
+  const missingFields = useMemo(() => {
+    const missing: string[] = [];
+    if (!draft.sectionId) missing.push('section');
+    if (!draft.title.trim()) missing.push('title');
+    if (draft.problemIds.length === 0) missing.push('at least one problem');
+    if (!draft.opensAt || !draft.dueAt) missing.push('open and due dates');
+    else if (Date.parse(draft.dueAt) <= Date.parse(draft.opensAt)) missing.push('a due date after the open date');
+    return missing;
+  }, [draft]);
+
+  const updateDraft = <K extends keyof AssignmentDraft>(key: K, value: AssignmentDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleProblem = (problemId: string, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      problemIds: checked
+        ? [...prev.problemIds, problemId]
+        : prev.problemIds.filter(id => id !== problemId),
+    }));
+  };
+
+  const resetForm = () => {
+    setDraft(emptyDraft(sections[0]?.id ?? ''));
+    setEditingId(null);
+    setError(null);
+  };
+
+  const replaceAssignment = (updated: Assignment) => {
+    setAssignments(prev => [updated, ...prev.filter(assignment => assignment.id !== updated.id)]);
+  };
+
+  const handleSave = async () => {
+    if (missingFields.length > 0 || isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+    const maxAttempts = Number.parseInt(draft.maxAttempts, 10);
+    const input: AssignmentInput = {
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      problemIds: draft.problemIds,
+      opensAt: new Date(draft.opensAt).toISOString(),
+      dueAt: new Date(draft.dueAt).toISOString(),
+      maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : null,
+    };
+
+    const saved = editingId
+      ? await storageClient.updateInstructorAssignment(editingId, input)
+      : await storageClient.createInstructorAssignment(draft.sectionId, input);
+    setIsSaving(false);
+
+    if (!saved) {
+      setError('Could not save the assignment. Check the fields and try again.');
+      return;
+    }
+    replaceAssignment(saved);
+    resetForm();
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const deleted = await storageClient.deleteInstructorAssignment(pendingDelete.id);
+    if (deleted) {
+      setAssignments(prev => prev.filter(assignment => assignment.id !== pendingDelete.id));
+      if (editingId === pendingDelete.id) resetForm();
+      if (report?.assignment.id === pendingDelete.id) setReport(null);
+    } else {
+      setError(`Could not delete "${pendingDelete.title}".`);
+    }
+    setPendingDelete(null);
+  };
+
+  const handleShowReport = async (assignment: Assignment) => {
+    if (report?.assignment.id === assignment.id) {
+      setReport(null);
+      return;
+    }
+    setLoadingReportId(assignment.id);
+    const loaded = await storageClient.getAssignmentReport(assignment.id);
+    setLoadingReportId(null);
+    if (loaded) {
+      setReport(loaded);
+    } else {
+      setError(`Could not load the report for "${assignment.title}".`);
+    }
+  };
+
+  return (
+    <Card data-testid="assignments-panel">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <CalendarClock className="size-4" />
+          Assignments
+        </CardTitle>
+        <CardDescription>
+          Release a problem list to a section with a due date and an optional attempt limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sections.length === 0 ? (
+          <p className="text-sm text-gray-500">Create a section before adding assignments.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Section</Label>
+                  <Select
+                    value={draft.sectionId}
+                    onValueChange={(value) => updateDraft('sectionId', value)}
+                    disabled={editingId !== null}
+                  >
+                    <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {sections.map(section => (
+                        <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="assignment-max-attempts">Attempts per problem</Label>
+                  <Input
+                    id="assignment-max-attempts"
+                    type="number"
+                    min={1}
+                    placeholder="Unlimited"
+                    value={draft.maxAttempts}
+                    onChange={(event) => updateDraft('maxAttempts', event.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="assignment-opens-at">Opens</Label>
+                  <Input
+                    id="assignment-opens-at"
+                    type="datetime-local"
+                    value={draft.opensAt}
+                    onChange={(event) => updateDraft('opensAt', event.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="assignment-due-at">Due</Label>
+                  <Input
+                    id="assignment-due-at"
+                    type="datetime-local"
+                    value={draft.dueAt}
+                    onChange={(event) => updateDraft('dueAt', event.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="assignment-title">Title</Label>
+                <Input
+                  id="assignment-title"
+                  value={draft.title}
+                  onChange={(event) => updateDraft('title', event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="assignment-description">Instructions (optional)</Label>
+                <Textarea
+                  id="assignment-description"
+                  rows={2}
+                  value={draft.description}
+                  onChange={(event) => updateDraft('description', event.target.value)}
+                />
+              </div>
+              {error && (
+                <p className="text-sm text-red-600 flex items-center gap-1.5">
+                  <AlertCircle className="size-4" />
+                  {error}
+                </p>
+              )}
+              {missingFields.length > 0 && (
+                <p className="text-xs text-gray-500">Still needed: {missingFields.join(', ')}.</p>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSave}
+                  disabled={missingFields.length > 0 || isSaving}
+                  data-testid="assignment-save"
+                >
+                  {isSaving && <Loader2 className="size-4 mr-1 animate-spin" />}
+                  {editingId ? 'Save changes' : 'Create assignment'}
+                </Button>
+                {editingId && <Button variant="outline" onClick={resetForm}>Cancel</Button>}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Problems ({draft.problemIds.length} selected, in the order picked)</Label>
+              <div className="max-h-[320px] overflow-y-auto rounded border divide-y" data-testid="assignment-problem-picker">
+                {catalog.map(problem => {
+                  const id = `assignment-problem-${problem.id}`;
+                  const position = draft.problemIds.indexOf(problem.id);
+                  return (
+                    <div key={problem.id} className="flex items-center gap-2 px-3 py-1.5">
+                      <Checkbox
+                        id={id}
+                        checked={position >= 0}
+                        onCheckedChange={(checked) => toggleProblem(problem.id, checked === true)}
+                      />
+                      <Label htmlFor={id} className="flex-1 text-sm font-normal cursor-pointer">
+                        {problem.title}
+                        <span className="text-xs text-gray-500 ml-2">{problem.topic} · {problem.difficulty}</span>
+                      </Label>
+                      {position >= 0 && <Badge variant="secondary">#{position + 1}</Badge>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Your assignments</p>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading…</p>
+          ) : assignments.length === 0 ? (
+            <p className="text-sm text-gray-500">No assignments yet.</p>
+          ) : (
+            <ul className="space-y-2" data-testid="assignment-list">
+              {assignments.map(assignment => {
+                const status = getAssignmentStatus(assignment);
+                return (
+                  <li key={assignment.id} className="rounded border bg-white px-3 py-2 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="text-sm font-medium text-gray-800">{assignment.title}</span>
+                        <span className="text-xs text-gray-500 ml-2">
+                          {sectionNames.get(assignment.sectionId) ?? 'Unknown section'} · {assignment.problemIds.length} problems
+                          · due {formatDate(assignment.dueAt)}
+                          {assignment.maxAttempts !== null && ` · ${assignment.maxAttempts} attempts`}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Badge variant={status === 'open' ? 'default' : 'secondary'}>{status}</Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleShowReport(assignment)}
+                          aria-label={`Report for ${assignment.title}`}
+                        >
+                          {loadingReportId === assignment.id
+                            ? <Loader2 className="size-4 animate-spin" />
+                            : <BarChart3 className="size-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setDraft(toDraft(assignment));
+                            setEditingId(assignment.id);
+                            setError(null);
+                          }}
+                          aria-label={`Edit ${assignment.title}`}
+                        >
+                          <Pencil className="size-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPendingDelete(assignment)}
+                          aria-label={`Delete ${assignment.title}`}
+                        >
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {report?.assignment.id === assignment.id && (
+                      <AssignmentReportView report={report} problemTitles={problemTitles} />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        title="Delete assignment?"
+        description={`"${pendingDelete?.title ?? ''}" will disappear for students. Their practice history is kept.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </Card>
+  );
+}
+
+function AssignmentReportView({
+  report,
+  problemTitles,
+}: {
+  report: AssignmentReport;
+  problemTitles: Map<string, string>;
+}) {
+  const { summary } = report;
+  return (
+    <div className="space-y-3" data-testid="assignment-report">
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        <span>
+          Completed: <strong>{summary.completedCount}</strong> of {summary.studentCount}
+          {' '}({Math.round(summary.completionRate * 100)}%)
+        </span>
+        <span>Submitted late: <strong>{summary.lateStudentCount}</strong></span>
+        <span>Average time on task: <strong>{formatDuration(summary.averageTimeOnTaskMs)}</strong></span>
+      </div>
+
+      <div className="rounded border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Problem</TableHead>
+              <TableHead>Attempted</TableHead>
+              <TableHead>Solved</TableHead>
+              <TableHead>Solved late</TableHead>
+              <TableHead>Avg. attempts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.problems.map(problem => (
+              <TableRow key={problem.problemId}>
+                <TableCell>{problemTitles.get(problem.problemId) ?? problem.problemId}</TableCell>
+                <TableCell>{problem.attemptedCount}</TableCell>
+                <TableCell>{problem.solvedCount}</TableCell>
+                <TableCell>{problem.lateSolvedCount}</TableCell>
+                <TableCell>{problem.averageAttempts.toFixed(1)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="rounded border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Student</TableHead>
+              <TableHead>Solved</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Late runs</TableHead>
+              <TableHead>Time on task</TableHead>
+              <TableHead>Last activity</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.students.map(student => (
+              <TableRow key={student.learnerId}>
+                <TableCell>
+                  {student.name ?? student.learnerId}
+                  {student.completed && <Badge variant="outline" className="ml-2">complete</Badge>}
+                  {student.overLimitProblemIds.length > 0 && (
+                    <Badge variant="destructive" className="ml-2">over limit</Badge>
+                  )}
+                </TableCell>
+                <TableCell>{student.solvedCount} / {report.assignment.problemIds.length}</TableCell>
+                <TableCell>{student.attempts}</TableCell>
+                <TableCell>{student.lateAttempts}</TableCell>
+                <TableCell>{formatDuration(student.timeOnTaskMs)}</TableCell>
+                <TableCell>{student.lastAttemptAt ? formatDate(student.lastAttemptAt) : '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -26,7 +26,8 @@ import {
   HelpCircle,
   Hash,
   X,
-  CheckCircle
+  CheckCircle,
+  Loader2
 } from 'lucide-react';
 // Note: Using div with overflow-auto instead of ScrollArea
 import { cn } from '../../ui/utils';
@@ -36,9 +37,14 @@ import { MAX_CHAT_MESSAGES, trimChatHistory } from '../../../lib/storage/cache-t
 import { createEventId } from '../../../lib/utils/event-id';
 import type { InteractionEvent, InstructionalUnit } from '../../../types';
 import { buildRetrievalBundle } from '../../../lib/content/retrieval-bundle';
-import { generateWithLLM, getLLMStatus } from '../../../lib/api/llm-client';
+import { streamWithLLM, getLLMStatus, isBudgetExceededError } from '../../../lib/api/llm-client';
 import { getProblemById } from '../../../data/problems';
-import { checkAvailableResources, checkAvailableResourcesAsync, type AvailableResources } from '../../../lib/ml/enhanced-hint-service';
+import {
+  applyHintSafetyLayer,
+  checkAvailableResources,
+  checkAvailableResourcesAsync,
+  type AvailableResources
+} from '../../../lib/ml/enhanced-hint-service';
 import { Sparkles } from 'lucide-react';
 import { ConfirmDialog } from '../../ui/confirm-dialog';
 
@@ -337,6 +343,36 @@ function ChatMessageBubble({ msg, idx, onSaveToNotes }: ChatMessageBubbleProps)
   );
 }
 
+/**
+ * Assistant reply that is still streaming in. Content is already
+ * safety-checked; saving and sources wait for the finished message.
+ */
+function StreamingResponseBubble({ content }: { content: string }) {
+  const sanitizedHtml = DOMPurify.sanitize(renderMarkdownToHtml(content), {
+    ALLOWED_TAGS: ['strong', 'em', 'code', 'pre', 'li', 'br', 'span'],
+    ALLOWED_ATTR: ['class']
+  });
+
+  return (
+    <div className="flex flex-col gap-1.5 items-start" data-testid="chat-streaming-response">
+      <div
+        className="rounded-lg px-3 py-2.5 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 dark:text-gray-100 shadow-sm"
+        aria-live="polite"
+        aria-busy="true"
+      >
+        <div
+          className="whitespace-pre-wrap break-words prose prose-sm max-w-none text-gray-700 dark:text-gray-200"
+          dangerouslySetInnerHTML={{ __html: sanitizedHtml }}
+        />
+      </div>
+      <span className="inline-flex items-center gap-1 text-xs text-gray-400 dark:text-gray-500">
+        <Loader2 className="size-3 animate-spin" />
+        Writing...
+      </span>
+    </div>
+  );
+}
+
 /**
  * Ask My Textbook Chat Component (Week 3 Feature)
  * 
@@ -361,6 +397,7 @@ export function AskMyTextbookChat({
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingResponse, setStreamingResponse] = useState<string | null>(null);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [toasts, setToasts] = useState<Toast[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -1075,27 +1112,49 @@ export function AskMyTextbookChat({
       
       const systemPrompt = `You are a Socratic SQL tutor. Use the learner's latest error, retry count, hints viewed, and stuck signal to choose the next helpful nudge. NEVER give working SQL code. NEVER give the solution. NEVER write "Example: SELECT..." with real code. Help students discover answers through guidance and questions. Be concise (under 300 chars). Cite sources like "(from your notes)".`;
       
-      // Call LLM
+      // Chat replies get the same answer-leak checks as rung 3 hints
+      const leakContext = problem?.expectedQuery
+        ? { expectedQuery: problem.expectedQuery, expectedResult: problem.expectedResult }
+        : undefined;
+      const checkSafety = (text: string) =>
+        applyHintSafetyLayer(text, 3, errorSubtype || 'unknown', leakContext);
+
+      // Call LLM, showing the reply as it streams in
       const llmCall = async (prompt: string): Promise<string> => {
-        const result = await generateWithLLM(prompt, { 
-          params: { temperature: 0.3, max_tokens: 200 }
+        const result = await streamWithLLM(prompt, {
+          params: { temperature: 0.3, max_tokens: 200 },
+          onToken: (_delta, text) => {
+            const preview = checkSafety(text);
+            // Never flash text that the final check would replace
+            setStreamingResponse(preview.fallbackReason?.endsWith('_blocked') ? '' : preview.content);
+          }
         });
         return result.text;
       };
       
       const response = await llmCall(systemPrompt + '\n\n' + userPrompt);
+      const safety = checkSafety(response);
+      if (safety.fallbackReason?.endsWith('_blocked') || safety.fallbackReason === 'empty_after_safety_filter') {
+        return {
+          text: null,
+          provider: llmStatus.provider,
+          fallbackReason: safety.fallbackReason,
+          learningSignals
+        };
+      }
       
       return {
-        text: response.trim(),
+        text: safety.content,
         provider: llmStatus.provider,
+        fallbackReason: safety.fallbackReason ?? undefined,
         learningSignals
       };
-    } catch {
+    } catch (error) {
       // LLM generation failed - fallback will be used
       return {
         text: null,
         provider: llmStatus.provider,
-        fallbackReason: 'llm_error',
+        fallbackReason: isBudgetExceededError(error) ? 'llm_budget_exceeded' : 'llm_error',
         learningSignals
       };
     }
@@ -1426,6 +1485,7 @@ export function AskMyTextbookChat({
 
     setMessages(prev => [...prev, assistantMessage]);
     setIsLoading(false);
+    setStreamingResponse(null);
 
     // Save to textbook automatically
     await saveChatResponseToTextbook(
@@ -1577,6 +1637,9 @@ export function AskMyTextbookChat({
               />
             ))
           )}
+          {isLoading && streamingResponse && (
+            <StreamingResponseBubble content={streamingResponse} />
+          )}
           <div ref={messagesEndRef} />
         </div>
       </div>
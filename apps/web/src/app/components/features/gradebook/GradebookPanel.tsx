@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Download, GraduationCap, Loader2, Send } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Label } from '../../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../ui/table';
+import {
+  storageClient,
+  type Gradebook,
+  type GradebookCsvFormat,
+  type LtiGradeSyncResult,
+  type LtiStatus,
+} from '../../../lib/api/storage-client';
+
+interface GradebookPanelProps {
+  sections: Array<{ id: string; name: string }>;
+}
+
+function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+function describeSync(result: LtiGradeSyncResult): string {
+  const posted = result.links.reduce((sum, link) => sum + link.posted, 0);
+  const failed = result.links.reduce((sum, link) => sum + link.failed, 0);
+  const unlinked = Math.max(0, ...result.links.map(link => link.unlinkedStudents));
+  const errors = result.links.map(link => link.error).filter((error): error is string => error !== null);
+  const parts = [`${posted} score${posted === 1 ? '' : 's'} sent`];
+  if (failed > 0) parts.push(`${failed} rejected`);
+  if (unlinked > 0) parts.push(`${unlinked} student${unlinked === 1 ? ' has' : 's have'} not launched from the LMS yet`);
+  return [parts.join(', '), ...errors].join('. ');
+}
+
+/**
+ * Section gradebook: assignment scores (problems solved) and practice
+ * progress, exported as Canvas or Moodle CSV, with LTI grade passback for
+ * assignments placed in an LMS course.
+ */
+export function GradebookPanel({ sections }: GradebookPanelProps) {
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+  const [gradebook, setGradebook] = useState<Gradebook | null>(null);
+  const [ltiStatus, setLtiStatus] = useState<LtiStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<GradebookCsvFormat | null>(null);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [syncMessages, setSyncMessages] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sectionId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      storageClient.getGradebook(sectionId),
+      storageClient.getLtiStatus(),
+    ]).then(([loadedGradebook, loadedStatus]) => {
+      if (cancelled) return;
+      setGradebook(loadedGradebook);
+      setLtiStatus(loadedStatus);
+      setIsLoading(false);
+      if (!loadedGradebook) setError('Could not load the gradebook.');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sectionId]);
+
+  const handleExport = async (format: GradebookCsvFormat) => {
+    setExportingFormat(format);
+    const exported = await storageClient.getGradebookCsv(sectionId, format);
+    setExportingFormat(null);
+    if (exported) {
+      downloadCsv(exported.filename, exported.csv);
+    } else {
+      setError('Could not export the gradebook.');
+    }
+  };
+
+  const handleSync = async (assignmentId: string) => {
+    setSyncingId(assignmentId);
+    const result = await storageClient.syncAssignmentGrades(assignmentId);
+    setSyncingId(null);
+    setSyncMessages(prev => ({
+      ...prev,
+      [assignmentId]: result ? describeSync(result) : 'Could not send grades to the LMS.',
+    }));
+  };
+
+  const linkedIds = new Set(ltiStatus?.linkedAssignmentIds ?? []);
+  const linkedColumns = gradebook?.columns.filter(column => linkedIds.has(column.assignmentId)) ?? [];
+
+  return (
+    <Card data-testid="gradebook-panel">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <GraduationCap className="size-4" />
+          Gradebook
+        </CardTitle>
+        <CardDescription>
+          Assignment scores are problems solved. Export a CSV for your LMS grade import, or send grades to
+          assignments placed in an LMS course through LTI.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sections.length === 0 ? (
+          <p className="text-sm text-gray-500">Create a section to see its gradebook.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1 min-w-[200px]">
+                <Label>Section</Label>
+                <Select value={sectionId} onValueChange={setSectionId}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {sections.map(section => (
+                      <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(['canvas', 'moodle'] as const).map(format => (
+                <Button
+                  key={format}
+                  variant="outline"
+                  onClick={() => handleExport(format)}
+                  disabled={!gradebook || exportingFormat !== null}
+                  data-testid={`gradebook-export-${format}`}
+                >
+                  {exportingFormat === format
+                    ? <Loader2 className="size-4 mr-1 animate-spin" />
+                    : <Download className="size-4 mr-1" />}
+                  {format === 'canvas' ? 'Canvas CSV' : 'Moodle CSV'}
+                </Button>
+              ))}
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1.5">
+                <AlertCircle className="size-4" />
+                {error}
+              </p>
+            )}
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <Loader2 className="size-4 animate-spin" /> Loading gradebook…
+              </p>
+            ) : gradebook && gradebook.rows.length === 0 ? (
+              <p className="text-sm text-gray-500">No students are enrolled in this section yet.</p>
+            ) : gradebook && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      {gradebook.columns.map(column => (
+                        <TableHead key={column.assignmentId} className="text-right">
+                          {column.title}
+                          <span className="block text-xs font-normal text-gray-500">/ {column.pointsPossible}</span>
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right">Practice solved</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gradebook.rows.map(row => (
+                      <TableRow key={row.learnerId}>
+                        <TableCell>
+                          {row.name}
+                          {row.email && <span className="block text-xs text-gray-500">{row.email}</span>}
+                        </TableCell>
+                        {gradebook.columns.map(column => {
+                          const score = row.scores[column.assignmentId];
+                          return (
+                            <TableCell key={column.assignmentId} className="text-right">
+                              {score?.attempted ? score.points : '–'}
+                              {score && score.lateSolved > 0 && (
+                                <Badge variant="outline" className="ml-1">{score.lateSolved} late</Badge>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-right">{row.practiceSolved}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="rounded border p-3 space-y-2 text-sm" data-testid="gradebook-lti">
+              <p className="font-medium">LMS grade passback (LTI 1.3)</p>
+              {!ltiStatus?.configured ? (
+                <p className="text-gray-500">
+                  No LMS is registered on the server. Set LTI_PLATFORMS to enable course launches and grade passback.
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500 break-all">
+                    Login URL {ltiStatus.loginUrl} · Launch URL {ltiStatus.launchUrl} · JWKS {ltiStatus.jwksUrl}
+                  </p>
+                  {linkedColumns.length === 0 ? (
+                    <p className="text-gray-500">
+                      No assignments in this section are placed in an LMS course yet. Add them from the LMS with
+                      the SQL-Adapt deep linking tool.
+                    </p>
+                  ) : linkedColumns.map(column => (
+                    <div key={column.assignmentId} className="flex flex-wrap items-center gap-2">
+                      <span className="flex-1">{column.title}</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleSync(column.assignmentId)}
+                        disabled={syncingId !== null}
+                      >
+                        {syncingId === column.assignmentId
+                          ? <Loader2 className="size-4 mr-1 animate-spin" />
+                          : <Send className="size-4 mr-1" />}
+                        Send grades to LMS
+                      </Button>
+                      {syncMessages[column.assignmentId] && (
+                        <span className="w-full text-xs text-gray-600">{syncMessages[column.assignmentId]}</span>
+                      )}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
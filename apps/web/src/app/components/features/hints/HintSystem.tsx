@@ -24,6 +24,7 @@ import { getConceptFromRegistry } from '../../../data';
 
 // Enhanced Hint System imports
 import { useEnhancedHints } from '../../../hooks/useEnhancedHints';
+import { HintDisplay } from './components/HintDisplay';
 import { HintSourceStatus } from './HintSourceStatus';
 import type { EnhancedHint } from '../../../lib/ml/enhanced-hint-service';
 import { useUserRole } from '../../../hooks/useUserRole';
@@ -33,6 +34,7 @@ import type { SessionConfig } from '../../../types';
 import { orchestrate, type OrchestrationDecision } from '../../../lib/ml/textbook-orchestrator';
 import { buildHintViewEvent, buildStableHintId } from '../../../lib/telemetry/build-hint-view-event';
 import { clearProblemHints, loadHintInfo, saveHintSnapshot } from '../../../lib/storage/hint-cache';
+import type { QueryStageDivergence } from '../../../lib/query-stages';
 
 /**
  * Props for the HintSystem component
@@ -46,6 +48,8 @@ interface HintSystemProps {
   problemId: string;
   /** Error subtype identifier for targeted hints */
   errorSubtypeId?: string;
+  /** First SELECT stage where the learner's last wrong result diverged (used at rung 2) */
+  stageDivergence?: QueryStageDivergence | null;
   /** Whether instructor subtype override is active */
   isSubtypeOverrideActive?: boolean;
   /** Subtype override value from instructor mode */
@@ -67,6 +71,7 @@ export function HintSystem({
   learnerId, 
   problemId, 
   errorSubtypeId,
+  stageDivergence,
   isSubtypeOverrideActive = false,
   knownSubtypeOverride,
   recentInteractions,
@@ -170,13 +175,15 @@ export function HintSystem({
   const {
     generateHint: generateEnhancedHint,
     isGenerating: isGeneratingEnhanced,
+    streamingContent: streamingHint,
     lastHint: lastEnhancedHint,
     availableResources
   } = useEnhancedHints({
     learnerId,
     problemId,
     sessionId,
-    recentInteractions
+    recentInteractions,
+    stageDivergence
   });
   
   // Track if we're using enhanced hints
@@ -615,6 +622,8 @@ export function HintSystem({
     retrievedChunkIds: string[];
     llmFailed?: boolean;
     llmErrorMessage?: string;
+    templateVersion?: string;
+    templateAssignment?: string;
   } | null> => {
     if (!profile) return null;
     
@@ -659,7 +668,9 @@ export function HintSystem({
           retrievedSourceIds: enhancedHint.retrievedSourceIds,
           retrievedChunkIds: enhancedHint.retrievedChunkIds,
           llmFailed: enhancedHint.llmFailed,
-          llmErrorMessage: enhancedHint.llmErrorMessage
+          llmErrorMessage: enhancedHint.llmErrorMessage,
+          templateVersion: enhancedHint.templateVersion,
+          templateAssignment: enhancedHint.templateAssignment
         };
       }
     } catch {
@@ -997,6 +1008,8 @@ export function HintSystem({
         retrievedChunkIds: string[];
         llmFailed?: boolean;
         llmErrorMessage?: string;
+        templateVersion?: string;
+        templateAssignment?: string;
       } | null = null;
 
       try {
@@ -1124,6 +1137,8 @@ export function HintSystem({
           sql_engage_subtype: hintSelection.sqlEngageSubtype,
           sql_engage_row_id: hintSelection.sqlEngageRowId,
           template_id: hintSelection.templateId,
+          template_version: hintSelection.templateVersion ?? null,
+          template_assignment: hintSelection.templateAssignment ?? null,
           will_escalate: willEscalate,
           rule_fired: willEscalate ? 'progressive-hint-will-escalate' : (hintSelection.isEnhanced ? 'enhanced-hint' : 'progressive-hint'),
           is_enhanced: hintSelection.isEnhanced,
@@ -1559,6 +1574,11 @@ export function HintSystem({
         </div>
       )}
 
+      {/* LLM hint still streaming in; the stored hint replaces it once the full text passes the safety layer */}
+      {isGeneratingEnhanced && streamingHint && (
+        <HintDisplay index={hints.length} hint={streamingHint} isLatest isStreaming />
+      )}
+
       {/* Week 3 D7: Source Viewer for grounded help - always render for UX consistency */}
       <SourceViewer
         passages={hintPdfPassages[hintPdfPassages.length - 1]?.map(p => ({
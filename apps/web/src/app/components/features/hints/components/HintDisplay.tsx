@@ -34,6 +34,8 @@ export interface HintDisplayProps {
   onExpandChange?: (expanded: boolean) => void;
   /** Whether this is the latest hint */
   isLatest?: boolean;
+  /** Whether the hint is still streaming in from the LLM */
+  isStreaming?: boolean;
 }
 
 import type { RetrievalPdfPassage } from '../../../../lib/content/retrieval-bundle';
@@ -47,6 +49,7 @@ export function HintDisplay({
   onRate,
   onExpandChange,
   isLatest = false,
+  isStreaming = false,
 }: HintDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -85,8 +88,15 @@ export function HintDisplay({
               Enhanced
             </span>
           )}
+          {isStreaming && (
+            <span className="flex items-center gap-1 text-xs text-gray-500">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Writing...
+            </span>
+          )}
         </div>
 
+        {!isStreaming && (
         <Button
           variant="ghost"
           size="sm"
@@ -100,6 +110,7 @@ export function HintDisplay({
             <ChevronDown className="h-4 w-4" />
           )}
         </Button>
+        )}
       </div>
 
       {/* Content */}
@@ -107,8 +118,10 @@ export function HintDisplay({
         <div
           className={cn(
             'prose prose-sm max-w-none text-gray-700',
-            !isExpanded && 'line-clamp-3'
+            !isExpanded && !isStreaming && 'line-clamp-3'
           )}
+          aria-live={isStreaming ? 'polite' : undefined}
+          aria-busy={isStreaming || undefined}
           dangerouslySetInnerHTML={{ __html: sanitizedHint }}
         />
 
@@ -120,7 +133,8 @@ export function HintDisplay({
         )}
       </div>
 
-      {/* Footer with actions */}
+      {/* Footer with actions (rating waits for the finished hint) */}
+      {!isStreaming && (
       <div className="mt-3 flex items-center justify-between">
         {/* Helpfulness rating */}
         <div className="flex items-center gap-1">
@@ -167,6 +181,7 @@ export function HintDisplay({
           </div>
         )}
       </div>
+      )}
     </div>
   );
 }
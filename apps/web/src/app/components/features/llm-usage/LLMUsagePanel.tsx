@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Cpu, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Badge } from '../../ui/badge';
+import { Label } from '../../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../ui/table';
+import { storageClient, type LLMUsageReport } from '../../../lib/api/storage-client';
+
+interface LLMUsagePanelProps {
+  sections: Array<{ id: string; name: string }>;
+}
+
+const RANGE_OPTIONS = [7, 14, 30] as const;
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString();
+}
+
+function formatBudget(used: number, budget: number): string {
+  return budget > 0 ? `${formatTokens(used)} / ${formatTokens(budget)}` : formatTokens(used);
+}
+
+/**
+ * LLM usage for a section: tokens spent per student, generations answered
+ * from the server cache, and how often students hit their daily token
+ * budget and got deterministic hints instead.
+ */
+export function LLMUsagePanel({ sections }: LLMUsagePanelProps) {
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+  const [days, setDays] = useState<number>(7);
+  const [report, setReport] = useState<LLMUsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sectionId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    storageClient.getLLMUsageReport(sectionId, days).then(loaded => {
+      if (cancelled) return;
+      setReport(loaded);
+      setIsLoading(false);
+      if (!loaded) setError('Could not load LLM usage.');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sectionId, days]);
+
+  const todaySectionTokens = report?.days[report.days.length - 1]?.tokens ?? 0;
+  const answered = (report?.totals.requests ?? 0) + (report?.totals.cacheHits ?? 0);
+
+  return (
+    <Card data-testid="llm-usage-panel">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Cpu className="size-4" />
+          LLM Usage
+        </CardTitle>
+        <CardDescription>
+          Tokens spent on hints and explanations. Repeated prompts are answered from the server cache for free;
+          students over their daily budget get deterministic hints until midnight UTC.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sections.length === 0 ? (
+          <p className="text-sm text-gray-500">Create a section to see its LLM usage.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1 min-w-[200px]">
+                <Label>Section</Label>
+                <Select value={sectionId} onValueChange={setSectionId}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {sections.map(section => (
+                      <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 min-w-[140px]">
+                <Label>Period</Label>
+                <Select value={String(days)} onValueChange={value => setDays(Number(value))}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RANGE_OPTIONS.map(option => (
+                      <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1.5">
+                <AlertCircle className="size-4" />
+                {error}
+              </p>
+            )}
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <Loader2 className="size-4 animate-spin" /> Loading LLM usage…
+              </p>
+            ) : report && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm" data-testid="llm-usage-totals">
+                  <div className="rounded border p-3">
+                    <p className="text-gray-500">Tokens</p>
+                    <p className="text-lg font-semibold">{formatTokens(report.totals.tokens)}</p>
+                  </div>
+                  <div className="rounded border p-3">
+                    <p className="text-gray-500">Section today</p>
+                    <p className="text-lg font-semibold">
+                      {formatBudget(todaySectionTokens, report.budgets.sectionDaily)}
+                    </p>
+                  </div>
+                  <div className="rounded border p-3">
+                    <p className="text-gray-500">From cache</p>
+                    <p className="text-lg font-semibold">
+                      {answered > 0 ? Math.round((report.totals.cacheHits / answered) * 100) : 0}%
+                    </p>
+                  </div>
+                  <div className="rounded border p-3">
+                    <p className="text-gray-500">Over budget</p>
+                    <p className="text-lg font-semibold">{report.totals.budgetFallbacks}</p>
+                  </div>
+                </div>
+
+                {report.learners.length === 0 ? (
+                  <p className="text-sm text-gray-500">No students are enrolled in this section yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Student</TableHead>
+                          <TableHead className="text-right">Tokens</TableHead>
+                          <TableHead className="text-right">Today</TableHead>
+                          <TableHead className="text-right">Generations</TableHead>
+                          <TableHead className="text-right">Cache hits</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.learners.map(learner => (
+                          <TableRow key={learner.learnerId}>
+                            <TableCell>
+                              {learner.name}
+                              {learner.email && <span className="block text-xs text-gray-500">{learner.email}</span>}
+                            </TableCell>
+                            <TableCell className="text-right">{formatTokens(learner.tokens)}</TableCell>
+                            <TableCell className="text-right">
+                              {formatBudget(learner.todayTokens, report.budgets.learnerDaily)}
+                              {learner.budgetFallbacks > 0 && (
+                                <Badge variant="outline" className="ml-1">{learner.budgetFallbacks} over budget</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{learner.requests}</TableCell>
+                            <TableCell className="text-right">{learner.cacheHits}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
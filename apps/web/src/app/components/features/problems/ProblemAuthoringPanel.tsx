@@ -0,0 +1,627 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import { AlertCircle, Download, FilePlus2, Loader2, Pencil, Trash2, Upload } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Checkbox } from '../../ui/checkbox';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import { Textarea } from '../../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../ui/table';
+import { ConfirmDialog } from '../../ui/confirm-dialog';
+import {
+  storageClient,
+  type AuthoredProblem,
+  type AuthoredProblemInput,
+} from '../../../lib/api/storage-client';
+import {
+  computeExpectedResult,
+  runBundleQuery,
+  toAuthoredProblemInput,
+  toSqlProblem,
+  type ExpectedResultPreview,
+} from '../../../lib/problem-bank';
+import {
+  ProblemBundleError,
+  createProblemBundle,
+  formatBundleIssue,
+  parseProblemBundle,
+  resolveBundleProblems,
+  serializeProblemBundle,
+  validateProblemBundle,
+  type ProblemBundleFileFormat,
+  type ProblemBundleIssue,
+} from '../../../lib/problem-bundle';
+import { CONCEPT_GRAPH } from '../../../data/concept-graph';
+import { DIALECT_LABELS } from '../../../lib/sql-dialect';
+import type { SQLDialect, SQLProblem, SQLProblemTopic } from '../../../types';
+
+interface ProblemAuthoringPanelProps {
+  sections: Array<{ id: string; name: string }>;
+}
+
+type ProblemDraft = Omit<AuthoredProblemInput, 'expectedResult' | 'hints'> & { hints: string };
+
+const TOPICS: SQLProblemTopic[] = ['basics', 'filtering', 'joining', 'aggregation', 'functions', 'advanced'];
+const DIFFICULTIES: SQLProblem['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+const PREVIEW_DEBOUNCE_MS = 400;
+const PREVIEW_ROW_LIMIT = 10;
+
+const EMPTY_DRAFT: ProblemDraft = {
+  title: '',
+  description: '',
+  difficulty: 'beginner',
+  concepts: [],
+  topic: 'basics',
+  topicDifficultyLevel: 1,
+  schema: '',
+  expectedQuery: '',
+  dialect: 'sqlite',
+  hints: '',
+};
+
+const CONCEPT_OPTIONS = Object.values(CONCEPT_GRAPH).filter(concept => concept.category !== 'errors');
+
+function toDraft(problem: AuthoredProblem): ProblemDraft {
+  return {
+    title: problem.title,
+    description: problem.description,
+    difficulty: problem.difficulty,
+    concepts: problem.concepts,
+    topic: problem.topic,
+    topicDifficultyLevel: problem.topicDifficultyLevel,
+    schema: problem.schema,
+    expectedQuery: problem.expectedQuery,
+    gradingMode: problem.gradingMode,
+    stateVerification: problem.stateVerification,
+    hiddenDatasets: problem.hiddenDatasets,
+    dialect: problem.dialect,
+    hints: problem.hints.join('\n'),
+  };
+}
+
+function downloadBundle(problems: AuthoredProblem[], fileFormat: ProblemBundleFileFormat): void {
+  const bundle = createProblemBundle(problems.map(toSqlProblem), { title: 'Problem bank export' });
+  const text = serializeProblemBundle(bundle, fileFormat);
+  const blob = new Blob([text], { type: fileFormat === 'yaml' ? 'application/yaml' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `problem-bundle-${new Date().toISOString().split('T')[0]}.${fileFormat}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Instructor authoring for the server-backed problem bank. The expected
+ * result is recomputed with sql.js as the schema and query are edited, and
+ * saved with the problem so learners are graded against exactly what the
+ * instructor saw.
+ */
+export function ProblemAuthoringPanel({ sections }: ProblemAuthoringPanelProps) {
+  const [problems, setProblems] = useState<AuthoredProblem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<ProblemDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ExpectedResultPreview | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AuthoredProblem | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importIssues, setImportIssues] = useState<ProblemBundleIssue[]>([]);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    storageClient.getInstructorProblems().then((loaded) => {
+      if (cancelled) return;
+      setProblems(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Live expected result: rerun expectedQuery on a fresh database after edits settle
+  useEffect(() => {
+    if (!draft.schema.trim() || !draft.expectedQuery.trim()) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsComputing(true);
+    const timer = setTimeout(() => {
+      computeExpectedResult(draft.schema, draft.expectedQuery, draft.dialect)
+        .then((result) => {
+          if (!cancelled) setPreview(result);
+        })
+        .finally(() => {
+          if (!cancelled) setIsComputing(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft.schema, draft.expectedQuery, draft.dialect]);
+
+  const missingFields = useMemo(() => {
+    const missing: string[] = [];
+    if (!draft.title.trim()) missing.push('title');
+    if (!draft.description.trim()) missing.push('description');
+    if (draft.concepts.length === 0) missing.push('at least one concept');
+    if (!draft.schema.trim()) missing.push('schema');
+    if (!draft.expectedQuery.trim()) missing.push('expected query');
+    return missing;
+  }, [draft]);
+
+  const canSave = missingFields.length === 0 && preview?.success === true && !isComputing && !isSaving;
+
+  const updateDraft = <K extends keyof ProblemDraft>(key: K, value: ProblemDraft[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleConcept = (conceptId: string) => {
+    setDraft(prev => ({
+      ...prev,
+      concepts: prev.concepts.includes(conceptId)
+        ? prev.concepts.filter(id => id !== conceptId)
+        : [...prev.concepts, conceptId],
+    }));
+  };
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const replaceProblem = (updated: AuthoredProblem) => {
+    setProblems(prev => {
+      const rest = prev.filter(problem => problem.id !== updated.id);
+      return [updated, ...rest];
+    });
+  };
+
+  const handleSave = async () => {
+    if (!canSave || !preview?.success) return;
+
+    setIsSaving(true);
+    setError(null);
+    const input: AuthoredProblemInput = {
+      ...draft,
+      hints: draft.hints.split('\n').map(hint => hint.trim()).filter(Boolean),
+      expectedResult: preview.rows,
+    };
+
+    const saved = editingId
+      ? await storageClient.updateInstructorProblem(editingId, input)
+      : await storageClient.createInstructorProblem(input);
+    setIsSaving(false);
+
+    if (!saved) {
+      setError('Could not save the problem. Check the fields and try again.');
+      return;
+    }
+    replaceProblem(saved);
+    resetForm();
+  };
+
+  /**
+   * Import a shared bundle. Nothing is created unless the whole bundle
+   * validates, so a partner course never ends up with half a problem set.
+   */
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setImportIssues([]);
+    setImportMessage(null);
+    try {
+      const bundle = parseProblemBundle(await file.text());
+      const issues = await validateProblemBundle(bundle, runBundleQuery);
+      if (issues.length > 0) {
+        setImportIssues(issues);
+        setImportMessage(`${file.name} was not imported.`);
+        return;
+      }
+
+      const created: AuthoredProblem[] = [];
+      const failed: string[] = [];
+      for (const problem of resolveBundleProblems(bundle)) {
+        const result = await computeExpectedResult(problem.schema, problem.expectedQuery, problem.dialect);
+        const saved = await storageClient.createInstructorProblem(
+          toAuthoredProblemInput(problem, result.success ? result.rows : null)
+        );
+        if (saved) {
+          created.push(saved);
+        } else {
+          failed.push(problem.title);
+        }
+      }
+
+      setProblems(prev => [...created.reverse(), ...prev]);
+      setImportMessage(
+        `Imported ${created.length} problem${created.length !== 1 ? 's' : ''} as drafts` +
+        (failed.length > 0 ? `; could not save: ${failed.join(', ')}.` : '.')
+      );
+    } catch (importError) {
+      if (importError instanceof ProblemBundleError) {
+        setImportIssues(importError.issues);
+      }
+      setImportMessage(`${file.name} could not be read: ${importError instanceof Error ? importError.message : String(importError)}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleToggleSection = async (problem: AuthoredProblem, sectionId: string, checked: boolean) => {
+    const sectionIds = checked
+      ? [...problem.sectionIds, sectionId]
+      : problem.sectionIds.filter(id => id !== sectionId);
+    const updated = await storageClient.publishInstructorProblem(problem.id, sectionIds);
+    if (updated) {
+      replaceProblem(updated);
+    } else {
+      setError(`Could not update sections for "${problem.title}".`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const deleted = await storageClient.deleteInstructorProblem(pendingDelete.id);
+    if (deleted) {
+      setProblems(prev => prev.filter(problem => problem.id !== pendingDelete.id));
+      if (editingId === pendingDelete.id) resetForm();
+    } else {
+      setError(`Could not delete "${pendingDelete.title}".`);
+    }
+    setPendingDelete(null);
+  };
+
+  return (
+    <Card data-testid="problem-authoring-panel">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FilePlus2 className="size-4" />
+          Problem Bank
+        </CardTitle>
+        <CardDescription>
+          Write your own practice problems and publish them to your sections.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Authoring form */}
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="problem-title">Title</Label>
+              <Input
+                id="problem-title"
+                value={draft.title}
+                onChange={(event) => updateDraft('title', event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="problem-description">Description</Label>
+              <Textarea
+                id="problem-description"
+                rows={3}
+                value={draft.description}
+                onChange={(event) => updateDraft('description', event.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Topic</Label>
+                <Select value={draft.topic} onValueChange={(value) => updateDraft('topic', value as SQLProblemTopic)}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TOPICS.map(topic => <SelectItem key={topic} value={topic}>{topic}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Difficulty</Label>
+                <Select
+                  value={draft.difficulty}
+                  onValueChange={(value) => updateDraft('difficulty', value as SQLProblem['difficulty'])}
+                >
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTIES.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="problem-topic-level">Level within topic (1–5)</Label>
+                <Input
+                  id="problem-topic-level"
+                  type="number"
+                  min={1}
+                  max={5}
+                  value={draft.topicDifficultyLevel}
+                  onChange={(event) => updateDraft('topicDifficultyLevel', Math.min(5, Math.max(1, Number(event.target.value) || 1)))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Dialect</Label>
+                <Select value={draft.dialect} onValueChange={(value) => updateDraft('dialect', value as SQLDialect)}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DIALECT_LABELS) as SQLDialect[]).map(dialect => (
+                      <SelectItem key={dialect} value={dialect}>{DIALECT_LABELS[dialect]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Concepts</Label>
+              <div className="flex flex-wrap gap-1.5" data-testid="problem-concepts">
+                {CONCEPT_OPTIONS.map(concept => {
+                  const selected = draft.concepts.includes(concept.id);
+                  return (
+                    <button
+                      key={concept.id}
+                      type="button"
+                      onClick={() => toggleConcept(concept.id)}
+                      title={concept.description}
+                      aria-pressed={selected}
+                    >
+                      <Badge variant={selected ? 'default' : 'outline'} className="cursor-pointer">
+                        {concept.name}
+                      </Badge>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="problem-schema">Schema (DDL and seed rows)</Label>
+              <Textarea
+                id="problem-schema"
+                rows={6}
+                className="font-mono text-xs"
+                value={draft.schema}
+                onChange={(event) => updateDraft('schema', event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="problem-expected-query">Expected query</Label>
+              <Textarea
+                id="problem-expected-query"
+                rows={3}
+                className="font-mono text-xs"
+                value={draft.expectedQuery}
+                onChange={(event) => updateDraft('expectedQuery', event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="problem-hints">Hints (one per line, optional)</Label>
+              <Textarea
+                id="problem-hints"
+                rows={2}
+                value={draft.hints}
+                onChange={(event) => updateDraft('hints', event.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Live expected result */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-700">Expected result</p>
+              {isComputing && <Loader2 className="size-4 animate-spin text-gray-400" />}
+            </div>
+            <ExpectedResultView preview={preview} />
+
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1.5">
+                <AlertCircle className="size-4" />
+                {error}
+              </p>
+            )}
+            {missingFields.length > 0 && (
+              <p className="text-xs text-gray-500">Still needed: {missingFields.join(', ')}.</p>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={!canSave} data-testid="problem-save">
+                {isSaving && <Loader2 className="size-4 mr-1 animate-spin" />}
+                {editingId ? 'Save changes' : 'Save draft'}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={resetForm}>Cancel</Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Authored problems and section publishing */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-gray-700">Your problems</p>
+            <div className="flex items-center gap-2">
+              <label>
+                <input
+                  type="file"
+                  accept=".json,.yaml,.yml"
+                  onChange={handleImport}
+                  className="hidden"
+                  disabled={isImporting}
+                  data-testid="problem-bundle-import"
+                />
+                <Button variant="outline" size="sm" asChild disabled={isImporting}>
+                  <span>
+                    {isImporting
+                      ? <Loader2 className="size-4 mr-1 animate-spin" />
+                      : <Upload className="size-4 mr-1" />}
+                    Import bundle
+                  </span>
+                </Button>
+              </label>
+              {(['json', 'yaml'] as const).map(fileFormat => (
+                <Button
+                  key={fileFormat}
+                  variant="outline"
+                  size="sm"
+                  disabled={problems.length === 0}
+                  onClick={() => downloadBundle(problems, fileFormat)}
+                >
+                  <Download className="size-4 mr-1" />
+                  Export {fileFormat.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {importMessage && (
+            <div
+              className={`rounded border p-3 text-sm ${importIssues.length > 0 ? 'border-red-200 bg-red-50 text-red-700' : 'bg-gray-50 text-gray-700'}`}
+              data-testid="problem-bundle-import-result"
+            >
+              <p>{importMessage}</p>
+              {importIssues.length > 0 && (
+                <ul className="mt-1 list-disc pl-5 font-mono text-xs space-y-0.5">
+                  {importIssues.map((issue, index) => <li key={index}>{formatBundleIssue(issue)}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading…</p>
+          ) : problems.length === 0 ? (
+            <p className="text-sm text-gray-500">No problems yet. Saved problems start as drafts.</p>
+          ) : (
+            <ul className="space-y-2" data-testid="authored-problem-list">
+              {problems.map(problem => (
+                <li key={problem.id} className="rounded border bg-white px-3 py-2 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <span className="text-sm font-medium text-gray-800">{problem.title}</span>
+                      <span className="text-xs text-gray-500 ml-2">{problem.topic} · {problem.difficulty}</span>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Badge variant={problem.status === 'published' ? 'default' : 'secondary'}>
+                        {problem.status}
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setDraft(toDraft(problem));
+                          setEditingId(problem.id);
+                          setError(null);
+                        }}
+                        aria-label={`Edit ${problem.title}`}
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPendingDelete(problem)}
+                        aria-label={`Delete ${problem.title}`}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {sections.length > 0 && (
+                    <div className="flex flex-wrap gap-3">
+                      {sections.map(section => {
+                        const id = `publish-${problem.id}-${section.id}`;
+                        return (
+                          <div key={section.id} className="flex items-center gap-1.5">
+                            <Checkbox
+                              id={id}
+                              checked={problem.sectionIds.includes(section.id)}
+                              onCheckedChange={(checked) => handleToggleSection(problem, section.id, checked === true)}
+                            />
+                            <Label htmlFor={id} className="text-xs text-gray-600 cursor-pointer">
+                              {section.name}
+                            </Label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        title="Delete problem?"
+        description={`"${pendingDelete?.title ?? ''}" will be removed from every section it is published to.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </Card>
+  );
+}
+
+function ExpectedResultView({ preview }: { preview: ExpectedResultPreview | null }) {
+  if (!preview) {
+    return (
+      <p className="text-sm text-gray-500 rounded border border-dashed p-4">
+        Enter a schema and an expected query to see the result learners must match.
+      </p>
+    );
+  }
+
+  if (!preview.success) {
+    return (
+      <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700" data-testid="expected-result-error">
+        <p className="font-medium">{preview.stage === 'schema' ? 'Schema failed to load' : 'Expected query failed'}</p>
+        <p className="font-mono text-xs mt-1">{preview.error}</p>
+      </div>
+    );
+  }
+
+  if (preview.columns.length === 0) {
+    return <p className="text-sm text-gray-500">The query ran but returned no result set.</p>;
+  }
+
+  return (
+    <div className="rounded border overflow-x-auto" data-testid="expected-result-preview">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {preview.columns.map(column => <TableHead key={column}>{column}</TableHead>)}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map((row, index) => (
+            <TableRow key={index}>
+              {preview.columns.map(column => (
+                <TableCell key={column} className="font-mono text-xs">
+                  {row[column] === null ? 'NULL' : String(row[column])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-gray-500 px-3 py-1.5 border-t">
+        {preview.rows.length} row{preview.rows.length !== 1 ? 's' : ''}
+        {preview.rows.length > PREVIEW_ROW_LIMIT ? ` (showing first ${PREVIEW_ROW_LIMIT})` : ''}
+      </p>
+    </div>
+  );
+}
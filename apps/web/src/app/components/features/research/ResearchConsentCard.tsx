@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Card } from '../../ui/card';
+import { Label } from '../../ui/label';
+import { Switch } from '../../ui/switch';
+import {
+  getResearchConsent,
+  updateResearchConsent,
+  type ResearchConsentStatus,
+} from '../../../lib/api/auth-client';
+
+/**
+ * Research participation toggle for signed-in students. The decision is
+ * stored on the server; learners without consent are left out of every
+ * research export.
+ */
+export function ResearchConsentCard() {
+  const [status, setStatus] = useState<ResearchConsentStatus | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getResearchConsent().then(loaded => {
+      if (!cancelled) setStatus(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Nothing to show when the account system is unavailable
+  if (!status) return null;
+
+  const handleChange = async (consented: boolean) => {
+    setIsSaving(true);
+    setError(null);
+    const updated = await updateResearchConsent(consented);
+    setIsSaving(false);
+    if (updated) {
+      setStatus(updated);
+    } else {
+      setError('Could not save your choice. Please try again.');
+    }
+  };
+
+  return (
+    <Card className="p-6" data-testid="research-consent-section">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-emerald-100 rounded-lg">
+          <ShieldCheck className="size-5 text-emerald-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Research Participation</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Choose whether your activity is used for research</p>
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="research-consent-toggle" className="text-sm">
+          Include my practice activity in the research study
+        </Label>
+        <Switch
+          id="research-consent-toggle"
+          checked={status.consented}
+          onCheckedChange={handleChange}
+          disabled={isSaving}
+        />
+      </div>
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        Participation is optional and does not affect your grade. Withdrawing removes you from all future research
+        exports.
+        {status.consented && status.consentVersion !== status.currentVersion && (
+          <> The consent form has changed since you agreed; toggle off and on to accept the current version.</>
+        )}
+      </p>
+      {error && <p className="mt-2 text-sm text-red-600" role="alert">{error}</p>}
+    </Card>
+  );
+}
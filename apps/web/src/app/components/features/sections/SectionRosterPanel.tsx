@@ -0,0 +1,353 @@
+import { useEffect, useState, type ChangeEvent } from 'react';
+import { AlertCircle, ClipboardList, Loader2, LogOut, Mail, Trash2, Upload } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Checkbox } from '../../ui/checkbox';
+import { Label } from '../../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../ui/table';
+import { ConfirmDialog } from '../../ui/confirm-dialog';
+import {
+  storageClient,
+  type RosterImportOutcome,
+  type RosterImportResult,
+  type SectionStudent,
+} from '../../../lib/api/storage-client';
+
+interface SectionRosterPanelProps {
+  sections: Array<{ id: string; name: string }>;
+}
+
+const OUTCOME_LABELS: Record<RosterImportOutcome, string> = {
+  created: 'New account',
+  enrolled: 'Existing account enrolled',
+  already_enrolled: 'Already enrolled',
+  duplicate: 'Duplicate',
+  conflict: 'Conflict',
+  invalid: 'Invalid',
+  failed: 'Failed',
+};
+
+/** Outcomes that need the instructor's attention */
+const PROBLEM_OUTCOMES: RosterImportOutcome[] = ['duplicate', 'conflict', 'invalid', 'failed'];
+
+/**
+ * Section roster: import students from a CSV (name, email, student ID),
+ * resend activation links, sign students out of every device, and move or
+ * remove students.
+ */
+export function SectionRosterPanel({ sections }: SectionRosterPanelProps) {
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+  const [students, setStudents] = useState<SectionStudent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [csv, setCsv] = useState<{ name: string; text: string } | null>(null);
+  const [sendEmails, setSendEmails] = useState(true);
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingRemove, setPendingRemove] = useState<SectionStudent | null>(null);
+
+  const otherSections = sections.filter(section => section.id !== sectionId);
+
+  useEffect(() => {
+    if (!sectionId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+    setCsv(null);
+    storageClient.getSectionStudents(sectionId).then(loaded => {
+      if (cancelled) return;
+      setStudents(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sectionId]);
+
+  const runImport = async (text: string, dryRun: boolean) => {
+    setIsImporting(true);
+    setError(null);
+    setMessage(null);
+    const imported = await storageClient.importSectionRoster(sectionId, text, {
+      dryRun,
+      sendActivationEmails: sendEmails,
+    });
+    setIsImporting(false);
+    if ('error' in imported) {
+      setError(imported.error);
+      setResult(null);
+      return;
+    }
+    setResult(imported);
+    if (!dryRun) {
+      setCsv(null);
+      setStudents(await storageClient.getSectionStudents(sectionId));
+      const unsent = imported.rows.filter(row => row.outcome === 'created' && sendEmails && !row.activationEmailSent);
+      setMessage(
+        `Imported ${imported.summary.created + imported.summary.enrolled} students.` +
+          (unsent.length > 0 ? ` ${unsent.length} activation emails could not be sent.` : '')
+      );
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setCsv({ name: file.name, text });
+    // Preview first; nothing is written until the instructor confirms
+    await runImport(text, true);
+  };
+
+  const handleResend = async (student: SectionStudent) => {
+    setError(null);
+    const resent = await storageClient.resendRosterActivation(sectionId, student.learnerId);
+    if (resent.error) {
+      setError(resent.error);
+    } else {
+      setMessage(`Activation email sent to ${student.email ?? student.name}.`);
+    }
+  };
+
+  const handleRevokeSessions = async (student: SectionStudent) => {
+    setError(null);
+    const revoked = await storageClient.revokeStudentSessions(sectionId, student.learnerId);
+    if ('error' in revoked) {
+      setError(revoked.error);
+      return;
+    }
+    setMessage(`Signed ${student.name} out of ${revoked.revoked} ${revoked.revoked === 1 ? 'device' : 'devices'}.`);
+  };
+
+  const handleMove = async (student: SectionStudent, targetSectionId: string) => {
+    setError(null);
+    const moved = await storageClient.moveSectionStudent(sectionId, student.learnerId, targetSectionId);
+    if ('error' in moved) {
+      setError(moved.error);
+      return;
+    }
+    setStudents(moved.students);
+    const target = sections.find(section => section.id === targetSectionId);
+    setMessage(`Moved ${student.name} to ${target?.name ?? 'the other section'}.`);
+  };
+
+  const handleRemove = async () => {
+    if (!pendingRemove) return;
+    const student = pendingRemove;
+    setPendingRemove(null);
+    setError(null);
+    const updated = await storageClient.removeSectionStudent(sectionId, student.learnerId);
+    if (updated) {
+      setStudents(updated);
+    } else {
+      setError('Could not remove student.');
+    }
+  };
+
+  const problemRows = result?.rows.filter(row => PROBLEM_OUTCOMES.includes(row.outcome)) ?? [];
+  const toWrite = result ? result.summary.created + result.summary.enrolled : 0;
+
+  return (
+    <Card data-testid="section-roster-panel">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ClipboardList className="size-4" />
+          Section Roster
+        </CardTitle>
+        <CardDescription>
+          Upload a CSV with name, email and student ID columns. New students get an account and an emailed
+          activation link; students who already have an account are enrolled directly.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sections.length === 0 ? (
+          <p className="text-sm text-gray-500">Create a section to import a roster.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1 min-w-[200px]">
+                <Label>Section</Label>
+                <Select value={sectionId} onValueChange={setSectionId}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {sections.map(section => (
+                      <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFile}
+                  className="hidden"
+                  disabled={isImporting}
+                  data-testid="roster-csv-upload"
+                />
+                <Button variant="outline" asChild disabled={isImporting}>
+                  <span>
+                    {isImporting ? <Loader2 className="size-4 mr-1 animate-spin" /> : <Upload className="size-4 mr-1" />}
+                    Upload roster CSV
+                  </span>
+                </Button>
+              </label>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="roster-send-emails"
+                  checked={sendEmails}
+                  onCheckedChange={checked => setSendEmails(checked === true)}
+                />
+                <Label htmlFor="roster-send-emails" className="text-sm cursor-pointer">Email activation links</Label>
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1.5">
+                <AlertCircle className="size-4" />
+                {error}
+              </p>
+            )}
+            {message && <p className="text-sm text-green-700" role="status">{message}</p>}
+
+            {result && (
+              <div className="space-y-2 rounded border p-3">
+                <p className="text-sm font-medium text-gray-700">
+                  {result.dryRun ? `Preview of ${csv?.name ?? 'roster'}` : 'Import results'}
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {(Object.keys(OUTCOME_LABELS) as RosterImportOutcome[])
+                    .filter(outcome => result.summary[outcome] > 0)
+                    .map(outcome => (
+                      <Badge
+                        key={outcome}
+                        variant={PROBLEM_OUTCOMES.includes(outcome) ? 'destructive' : 'secondary'}
+                      >
+                        {OUTCOME_LABELS[outcome]}: {result.summary[outcome]}
+                      </Badge>
+                    ))}
+                </div>
+                {problemRows.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Line</TableHead>
+                        <TableHead>Student</TableHead>
+                        <TableHead>Issue</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {problemRows.map(row => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell>
+                            {row.name || '—'}
+                            <span className="block text-xs text-gray-500">{row.email || '—'}</span>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {OUTCOME_LABELS[row.outcome]}{row.reason ? `: ${row.reason}` : ''}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {result.dryRun && csv && (
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => runImport(csv.text, false)} disabled={toWrite === 0 || isImporting}>
+                      {isImporting && <Loader2 className="size-4 mr-1 animate-spin" />}
+                      Import {toWrite} students
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => { setCsv(null); setResult(null); }}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <Loader2 className="size-4 animate-spin" /> Loading roster…
+              </p>
+            ) : students.length === 0 ? (
+              <p className="text-sm text-gray-500">No students in this section yet.</p>
+            ) : (
+              <ul className="divide-y rounded border text-sm">
+                {students.map(student => (
+                  <li key={student.learnerId} className="flex flex-wrap items-center gap-2 p-2">
+                    <span className="flex-1 min-w-[160px]">
+                      {student.name}
+                      <span className="block text-xs text-gray-500">
+                        {[student.email, student.externalStudentId].filter(Boolean).join(' · ')}
+                      </span>
+                    </span>
+                    {student.pendingActivation && (
+                      <>
+                        <Badge variant="outline">Pending activation</Badge>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleResend(student)}
+                          aria-label={`Resend activation email to ${student.name}`}
+                        >
+                          <Mail className="size-4" />
+                        </Button>
+                      </>
+                    )}
+                    {!student.pendingActivation && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleRevokeSessions(student)}
+                        aria-label={`Sign ${student.name} out of all devices`}
+                        title="Sign out of all devices"
+                      >
+                        <LogOut className="size-4" />
+                      </Button>
+                    )}
+                    {otherSections.length > 0 && (
+                      <Select value="" onValueChange={value => handleMove(student, value)}>
+                        <SelectTrigger className="w-[160px] h-8" aria-label={`Move ${student.name}`}>
+                          <SelectValue placeholder="Move to…" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {otherSections.map(section => (
+                            <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setPendingRemove(student)}
+                      aria-label={`Remove ${student.name}`}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        isOpen={pendingRemove !== null}
+        onClose={() => setPendingRemove(null)}
+        title="Remove student?"
+        description={`${pendingRemove?.name ?? ''} will be removed from this section. Their account and practice history are kept.`}
+        confirmText="Remove"
+        variant="destructive"
+        onConfirm={handleRemove}
+      />
+    </Card>
+  );
+}
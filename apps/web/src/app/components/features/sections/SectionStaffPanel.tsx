@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, Trash2, UserPlus, Users } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../ui/card';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { Label } from '../../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/select';
+import {
+  storageClient,
+  type SectionStaffMember,
+  type SectionStaffRole,
+} from '../../../lib/api/storage-client';
+
+interface SectionStaffPanelProps {
+  sections: Array<{ id: string; name: string }>;
+}
+
+const STAFF_ROLE_LABELS: Record<SectionStaffRole, string> = {
+  co_instructor: 'Co-instructor',
+  ta: 'Teaching assistant',
+};
+
+/**
+ * Section staff: the owner adds co-instructors (who can manage assignments,
+ * problems and grades) and teaching assistants (read-only access to the
+ * section's students and their activity).
+ */
+export function SectionStaffPanel({ sections }: SectionStaffPanelProps) {
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+  const [staff, setStaff] = useState<SectionStaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<SectionStaffRole>('ta');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sectionId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    storageClient.getSectionStaff(sectionId).then(loaded => {
+      if (cancelled) return;
+      setStaff(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sectionId]);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    setError(null);
+    const result = await storageClient.addSectionStaff(sectionId, email.trim(), role);
+    setIsSaving(false);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setStaff(result.staff);
+    setEmail('');
+  };
+
+  const handleRemove = async (userId: string) => {
+    setError(null);
+    const updated = await storageClient.removeSectionStaff(sectionId, userId);
+    if (updated) {
+      setStaff(updated);
+    } else {
+      setError('Could not remove staff member.');
+    }
+  };
+
+  return (
+    <Card data-testid="section-staff-panel">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="size-4" />
+          Section Staff
+        </CardTitle>
+        <CardDescription>
+          Co-instructors can manage assignments, problems and grades. Teaching assistants can view students and
+          their activity but cannot change anything or export research data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sections.length === 0 ? (
+          <p className="text-sm text-gray-500">Create a section to add staff.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1 min-w-[200px]">
+                <Label>Section</Label>
+                <Select value={sectionId} onValueChange={setSectionId}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {sections.map(section => (
+                      <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 flex-1 min-w-[200px]">
+                <Label htmlFor="section-staff-email">Account email</Label>
+                <Input
+                  id="section-staff-email"
+                  type="email"
+                  value={email}
+                  onChange={event => setEmail(event.target.value)}
+                  placeholder="ta@example.edu"
+                />
+              </div>
+              <div className="space-y-1 min-w-[180px]">
+                <Label>Role</Label>
+                <Select value={role} onValueChange={value => setRole(value as SectionStaffRole)}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STAFF_ROLE_LABELS) as SectionStaffRole[]).map(option => (
+                      <SelectItem key={option} value={option}>{STAFF_ROLE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleAdd} disabled={!email.trim() || isSaving}>
+                {isSaving ? <Loader2 className="size-4 mr-1 animate-spin" /> : <UserPlus className="size-4 mr-1" />}
+                Add
+              </Button>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1.5">
+                <AlertCircle className="size-4" />
+                {error}
+              </p>
+            )}
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <Loader2 className="size-4 animate-spin" /> Loading staff…
+              </p>
+            ) : staff.length === 0 ? (
+              <p className="text-sm text-gray-500">No co-instructors or teaching assistants yet.</p>
+            ) : (
+              <ul className="divide-y rounded border text-sm">
+                {staff.map(member => (
+                  <li key={member.userId} className="flex items-center gap-2 p-2">
+                    <span className="flex-1">
+                      {member.name}
+                      {member.email && <span className="block text-xs text-gray-500">{member.email}</span>}
+                    </span>
+                    <Badge variant="outline">{STAFF_ROLE_LABELS[member.staffRole]}</Badge>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRemove(member.userId)}
+                      aria-label={`Remove ${member.name}`}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { Badge } from '../../ui/badge';
+import type { DialectIssue } from '../../../lib/sql-dialect';
+
+interface DialectIssuesViewProps {
+  issues: DialectIssue[];
+}
+
+/**
+ * PostgreSQL compatibility notes for the query in the editor. Shown only on
+ * 'postgres' problems; the query still runs on the SQLite practice database.
+ */
+export function DialectIssuesView({ issues }: DialectIssuesViewProps) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div
+      className="p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg space-y-2"
+      data-testid="dialect-issues"
+    >
+      <p className="text-sm font-medium text-amber-800 dark:text-amber-300">
+        PostgreSQL would handle this query differently:
+      </p>
+      <ul className="space-y-2">
+        {issues.map(issue => (
+          <li
+            key={`${issue.ruleId}:${issue.line}:${issue.column}`}
+            className="flex items-start gap-2 text-sm"
+            data-testid="dialect-issue"
+          >
+            {issue.kind === 'error' ? (
+              <XCircle className="size-4 text-red-600 shrink-0 mt-0.5" />
+            ) : (
+              <AlertTriangle className="size-4 text-amber-600 shrink-0 mt-0.5" />
+            )}
+            <div className="min-w-0">
+              <p className="text-gray-800 dark:text-gray-200">
+                <Badge variant="outline" className="font-mono text-xs mr-2">
+                  {issue.line}:{issue.column}
+                </Badge>
+                {issue.message}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">{issue.suggestion}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
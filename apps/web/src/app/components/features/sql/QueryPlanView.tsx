@@ -0,0 +1,134 @@
+import { AlertCircle, ListTree, X } from 'lucide-react';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Card } from '../../ui/card';
+import type { QueryPlanNode, QueryPlanNodeKind, QueryPlanResult } from '../../../lib/query-plan';
+
+interface QueryPlanViewProps {
+  explanation: QueryPlanResult;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<QueryPlanNodeKind, { label: string; className: string }> = {
+  scan: {
+    label: 'Full scan',
+    className: 'bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900/30 dark:text-amber-300'
+  },
+  search: {
+    label: 'Index search',
+    className: 'bg-green-100 text-green-800 border-green-300 dark:bg-green-900/30 dark:text-green-300'
+  },
+  temp_btree: {
+    label: 'Temp B-tree',
+    className: 'bg-purple-100 text-purple-800 border-purple-300 dark:bg-purple-900/30 dark:text-purple-300'
+  },
+  correlated_subquery: {
+    label: 'Correlated subquery',
+    className: 'bg-red-100 text-red-800 border-red-300 dark:bg-red-900/30 dark:text-red-300'
+  },
+  subquery: {
+    label: 'Subquery',
+    className: 'bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900/30 dark:text-blue-300'
+  },
+  compound: {
+    label: 'Compound',
+    className: 'bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900/30 dark:text-blue-300'
+  },
+  other: {
+    label: 'Step',
+    className: 'bg-gray-100 text-gray-700 border-gray-300 dark:bg-gray-800 dark:text-gray-300'
+  }
+};
+
+// One-line reading of a plan step in learner terms
+function describeNode(node: QueryPlanNode): string | null {
+  switch (node.kind) {
+    case 'scan':
+      return node.index
+        ? `Reads every row of ${node.table} in ${node.index} order.`
+        : `Reads every row of ${node.table}.`;
+    case 'search':
+      return `Jumps straight to matching rows of ${node.table} using ${node.index ?? 'an index'}.`;
+    case 'temp_btree':
+      return node.purpose
+        ? `Builds a temporary sorted structure to handle ${node.purpose}.`
+        : 'Builds a temporary sorted structure.';
+    case 'correlated_subquery':
+      return 'Runs again for every row of the outer query.';
+    default:
+      return null;
+  }
+}
+
+function PlanNode({ node }: { node: QueryPlanNode }) {
+  const style = KIND_STYLES[node.kind];
+  const description = describeNode(node);
+
+  return (
+    <li className="space-y-1" data-testid="query-plan-node">
+      <div className="flex items-start gap-2">
+        <Badge variant="outline" className={`shrink-0 text-[10px] ${style.className}`}>
+          {style.label}
+        </Badge>
+        <div className="min-w-0">
+          <code className="text-xs font-mono break-words">{node.detail}</code>
+          {description && (
+            <p className="text-xs text-gray-600 dark:text-gray-400">{description}</p>
+          )}
+        </div>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-4 pl-3 border-l border-gray-200 dark:border-gray-700 space-y-2">
+          {node.children.map(child => (
+            <PlanNode key={child.id} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Renders an EXPLAIN QUERY PLAN tree with per-step badges
+ */
+export function QueryPlanView({ explanation, onClose }: QueryPlanViewProps) {
+  return (
+    <Card className="p-4 max-h-[45%] overflow-y-auto flex-shrink-0" data-testid="query-plan-view">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold flex items-center gap-2">
+            <ListTree className="size-4" />
+            Query Plan
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close query plan">
+            <X className="size-4" />
+          </Button>
+        </div>
+
+        {explanation.success ? (
+          <>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              How SQLite would evaluate this query, top to bottom. Nested steps run inside their parent.
+            </p>
+            {explanation.plan.length > 0 ? (
+              <ul className="space-y-2">
+                {explanation.plan.map(node => (
+                  <PlanNode key={node.id} node={node} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">This query does not read any tables.</p>
+            )}
+          </>
+        ) : (
+          <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg" role="alert">
+            <p className="text-sm text-red-800 dark:text-red-300 flex items-start gap-2">
+              <AlertCircle className="size-4 shrink-0 mt-0.5" />
+              {explanation.error}
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { AlertCircle, Footprints, X } from 'lucide-react';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import { Card } from '../../ui/card';
+import type { QueryStageDivergence, QueryStageResult, QueryStageTrace } from '../../../lib/query-stages';
+
+interface QueryStepsViewProps {
+  trace: QueryStageTrace;
+  /** Highlights the first stage that differs from the solution */
+  divergence?: QueryStageDivergence | null;
+  onClose: () => void;
+}
+
+const MAX_STAGE_ROWS = 20;
+
+function StageCard({ stage, index, isDivergent }: { stage: QueryStageResult; index: number; isDivergent: boolean }) {
+  const { result } = stage;
+  const rowCount = result.values?.length ?? 0;
+
+  return (
+    <div
+      className={`w-72 shrink-0 rounded-lg border p-3 space-y-2 ${
+        isDivergent ? 'border-amber-400 bg-amber-50/60 dark:bg-amber-900/20' : 'border-gray-200 dark:border-gray-700'
+      }`}
+      data-testid="query-stage"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold">
+          {index + 1}. {stage.label}
+        </span>
+        {result.success && (
+          <Badge variant="outline" className="font-mono text-[10px]">
+            {rowCount} {rowCount === 1 ? 'row' : 'rows'}
+          </Badge>
+        )}
+      </div>
+      {isDivergent && (
+        <p className="text-xs font-medium text-amber-800 dark:text-amber-300">
+          Your result first differs from the solution here.
+        </p>
+      )}
+      <code className="block text-[11px] font-mono text-gray-600 dark:text-gray-400 break-words">{stage.sql}</code>
+
+      {result.success ? (
+        rowCount > 0 ? (
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-100 dark:bg-gray-700">
+                <tr>
+                  {result.columns?.map((col, idx) => (
+                    <th key={idx} scope="col" className="px-2 py-1 text-left border-b font-medium">
+                      {col}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.values!.slice(0, MAX_STAGE_ROWS).map((row, rowIdx) => (
+                  <tr key={rowIdx} className="border-b last:border-b-0">
+                    {row.map((cell, cellIdx) => (
+                      <td key={cellIdx} className="px-2 py-1 font-mono">
+                        {cell === null ? <span className="text-gray-400 italic">NULL</span> : String(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rowCount > MAX_STAGE_ROWS && (
+              <p className="px-2 py-1 text-[11px] text-gray-500">
+                Showing {MAX_STAGE_ROWS} of {rowCount} rows
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">No rows at this step.</p>
+        )
+      ) : (
+        <p className="text-xs text-gray-500">
+          This step can't be shown on its own: {result.error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shows the intermediate table after each SELECT clause, side by side
+ */
+export function QueryStepsView({ trace, divergence, onClose }: QueryStepsViewProps) {
+  return (
+    <Card className="p-4 max-h-[45%] overflow-y-auto flex-shrink-0" data-testid="query-steps-view">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Footprints className="size-4" />
+            Query Steps
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close query steps">
+            <X className="size-4" />
+          </Button>
+        </div>
+
+        {trace.success ? (
+          <>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              SQL evaluates clauses in this order, not the order they are written. Each card shows the table after that step.
+            </p>
+            {divergence && !trace.stages.some(stage => stage.kind === divergence.stage) && (
+              <p className="text-xs font-medium text-amber-800 dark:text-amber-300">
+                Your query has no {divergence.label} step, and that is where its result first differs from the solution.
+              </p>
+            )}
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {trace.stages.map((stage, idx) => (
+                <StageCard
+                  key={stage.kind}
+                  stage={stage}
+                  index={idx}
+                  isDivergent={divergence?.stage === stage.kind}
+                />
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg" role="alert">
+            <p className="text-sm text-red-800 dark:text-red-300 flex items-start gap-2">
+              <AlertCircle className="size-4 shrink-0 mt-0.5" />
+              {trace.error}
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
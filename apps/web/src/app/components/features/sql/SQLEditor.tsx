@@ -1,30 +1,83 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import Editor from '@monaco-editor/react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import Editor, { type Monaco } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
 import { Button } from '../../ui/button';
 import { Card } from '../../ui/card';
 import { Tooltip, TooltipContent, TooltipTrigger } from '../../ui/tooltip';
 import { Badge } from '../../ui/badge';
-import { Play, RotateCcw, CheckCircle, XCircle, AlertCircle, Terminal, Loader2, Copy, Check, Trash2, Keyboard, Lightbulb, RefreshCw } from 'lucide-react';
-import { SQLExecutor, QueryResult, resetSQLInitialization } from '../../../lib/sql-executor';
-import { SQLProblem } from '../../../types';
+import { Play, Square, ListTree, Footprints, RotateCcw, DatabaseBackup, CheckCircle, XCircle, AlertCircle, Terminal, Loader2, Copy, Check, Trash2, Keyboard, Lightbulb, RefreshCw } from 'lucide-react';
+import {
+  QueryResult,
+  SQLExecutor,
+  HiddenDatasetGradingResult,
+  FinalStateGradingResult,
+  resetSQLInitialization,
+  resolveGradingMode,
+  gradeAgainstHiddenDatasets,
+  gradeFinalDatabaseState,
+  NEAR_MISS_MAX_SCORE
+} from '../../../lib/sql-executor';
+import { SandboxedSQLExecutor } from '../../../lib/sql-sandbox';
+import { classifyResultMismatch } from '../../../lib/result-diff-classifier';
+import type { QueryPlanResult } from '../../../lib/query-plan';
+import {
+  findStageDivergence,
+  traceQueryStages,
+  type QueryStageDivergence,
+  type QueryStageTrace
+} from '../../../lib/query-stages';
+import { getQuerySandboxLimits } from '../../../lib/runtime-config';
+import { DIALECT_LABELS, lintForDialect, toSqliteDialect } from '../../../lib/sql-dialect';
+import { SQLGradingMode, SQLProblem } from '../../../types';
+import { DialectIssuesView } from './DialectIssuesView';
+import { QueryPlanView } from './QueryPlanView';
+import { QueryStepsView } from './QueryStepsView';
+import { StateDiffView } from './StateDiffView';
 
 export const DEFAULT_SQL_EDITOR_CODE = '-- Write your SQL query here';
 
+/**
+ * Grading details reported with an executed query
+ */
+export interface ExecutionGradingDetails {
+  /** Set for wrong results whose stages differ from the solution */
+  stageDivergence?: QueryStageDivergence | null;
+  /** Partial-credit score in [0, 1]; only for result-graded problems */
+  resultSimilarity?: number;
+}
+
 interface SQLEditorProps {
   problem: SQLProblem;
   code: string;
-  onExecute: (query: string, result: QueryResult, isCorrect?: boolean) => void;
+  onExecute: (
+    query: string,
+    result: QueryResult,
+    isCorrect?: boolean,
+    details?: ExecutionGradingDetails
+  ) => void;
   onCodeChange: (code: string) => void;
   onReset?: () => void;
+  /** Called after the practice database is restored to its original rows */
+  onDatabaseReset?: () => void;
+  /** Receives the live practice database once it is ready (null while loading) */
+  onExecutorReady?: (executor: SQLExecutor | null) => void;
+  /** Called after the learner asks to see the query plan */
+  onExplain?: (query: string, explanation: QueryPlanResult) => void;
+  /** When set, running is blocked and this reason is shown (e.g. assignment attempt limit) */
+  runDisabledReason?: string;
 }
 
 type CorrectnessState = {
   match: boolean;
   differences: string[];
-  mode: 'result' | 'exec-only';
+  mode: SQLGradingMode;
 };
 
+// Grading replays the learner's SQL, so it runs under the same sandbox limits as the run itself
+function createGradingExecutor(): SQLExecutor {
+  return new SandboxedSQLExecutor(getQuerySandboxLimits());
+}
+
 // Parse SQL error to extract line numbers and format message
 function parseSqlError(error: string): {
   message: string;
@@ -137,22 +190,60 @@ function generatePositiveFeedback(query: string): string {
  * 
  * @param props - SQLEditorProps configuration
  */
-export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: SQLEditorProps) {
+export function SQLEditor({
+  problem,
+  code,
+  onExecute,
+  onCodeChange,
+  onReset,
+  onDatabaseReset,
+  onExecutorReady,
+  onExplain,
+  runDisabledReason
+}: SQLEditorProps) {
   const [result, setResult] = useState<QueryResult | null>(null);
-  const [executor, setExecutor] = useState<SQLExecutor | null>(null);
+  const [hiddenGrading, setHiddenGrading] = useState<HiddenDatasetGradingResult | null>(null);
+  const [stateGrading, setStateGrading] = useState<FinalStateGradingResult | null>(null);
+  const [executor, setExecutor] = useState<SandboxedSQLExecutor | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [queryPlan, setQueryPlan] = useState<QueryPlanResult | null>(null);
+  const [querySteps, setQuerySteps] = useState<{
+    trace: QueryStageTrace;
+    divergence: QueryStageDivergence | null;
+  } | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
   const [initStatus, setInitStatus] = useState<'idle' | 'loading' | 'error' | 'ready'>('idle');
   const [initError, setInitError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const activeExecutorRef = useRef<SQLExecutor | null>(null);
+  const activeExecutorRef = useRef<SandboxedSQLExecutor | null>(null);
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
   const disposeTimeoutRef = useRef<number | null>(null);
   const initAttemptRef = useRef(0);
 
   const isMountedRef = useRef(true);
+  const monacoRef = useRef<Monaco | null>(null);
+
+  // 'postgres' problems accept PostgreSQL spellings with an exact SQLite
+  // equivalent and flag SQLite-isms; the query itself still runs on sql.js
+  const dialect = problem.dialect ?? 'sqlite';
+  const runnableCode = dialect === 'postgres' ? toSqliteDialect(code) : code;
+  const dialectIssues = useMemo(() => lintForDialect(code, dialect), [code, dialect]);
 
-  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor) => {
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+    monaco.editor.setModelMarkers(model, 'sql-dialect', dialectIssues.map(issue => ({
+      severity: issue.kind === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: `${issue.message} ${issue.suggestion}`,
+      startLineNumber: issue.line,
+      startColumn: issue.column,
+      endLineNumber: issue.endLine,
+      endColumn: issue.endColumn
+    })));
+  }, [dialectIssues]);
+
+  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor, monaco: Monaco) => {
     if (!isMountedRef.current) {
       // Component unmounted, dispose immediately
       const model = editor.getModel();
@@ -161,6 +252,7 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
       return;
     }
     editorRef.current = editor;
+    monacoRef.current = monaco;
   };
 
   useEffect(() => {
@@ -199,7 +291,8 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
     setInitErrorDetails(null);
     setExecutor(null);
     
-    const exec = new SQLExecutor();
+    // Learner queries run in a worker so runaway queries cannot freeze the page
+    const exec = new SandboxedSQLExecutor(getQuerySandboxLimits());
     
     try {
       await exec.initialize(problem.schema);
@@ -264,18 +357,27 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
     };
   }, [problem.id, initExecutor]);
 
-  // Helper to check correctness given a result (used for immediate feedback)
-  const checkCorrectnessForResult = (result: QueryResult): { match: boolean; mode: 'result' | 'exec-only' } | null => {
+  // Share the live database with read-only views such as the schema browser
+  useEffect(() => {
+    onExecutorReady?.(executor);
+  }, [executor, onExecutorReady]);
+
+  // Helper to check correctness given a result (used for immediate feedback).
+  // Wrong results also get a semantic SQL-Engage subtype inferred from the diff.
+  const checkCorrectnessForResult = (
+    result: QueryResult
+  ): { match: boolean; mode: SQLGradingMode; errorSubtypeId?: string; similarity?: number } | null => {
     // Use ref for immediate access to avoid stale closure issues
     const currentExecutor = activeExecutorRef.current || executor;
     if (!result.success || !currentExecutor) return null;
 
-    const hasExpectedResult = problem.expectedResult && problem.expectedResult.length > 0;
-    const gradingMode = problem.gradingMode ?? (hasExpectedResult ? 'result' : 'exec-only');
+    const gradingMode = resolveGradingMode(problem);
     
     if (gradingMode === 'exec-only') {
       return { match: result.success, mode: 'exec-only' };
     }
+    // Graded on database state by gradeFinalDatabaseState, not on rows
+    if (gradingMode === 'final-state') return null;
     
     // Defensive: log if formatResults returns empty unexpectedly
     const actualResults = currentExecutor.formatResults(result);
@@ -289,28 +391,87 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
       });
     }
     
-    const comparison = currentExecutor.compareResults(actualResults, problem.expectedResult!);
+    const comparison = currentExecutor.compareResults(actualResults, problem.expectedResult!, gradingMode);
+    const classification = classifyResultMismatch({
+      query: code,
+      actual: actualResults,
+      expected: problem.expectedResult!,
+      comparison,
+      expectedQuery: problem.expectedQuery
+    });
     
-    return { match: comparison.match, mode: 'result' };
+    return {
+      match: comparison.match,
+      mode: gradingMode,
+      errorSubtypeId: classification?.subtype,
+      similarity: comparison.similarity.score
+    };
   };
 
   const handleExecute = async () => {
-    if (!executor || !code.trim()) return;
+    if (!executor || !code.trim() || runDisabledReason) return;
 
     setIsExecuting(true);
     try {
-      const queryResult = await executor.executeQuery(code);
-      setResult(queryResult);
+      const queryResult = await executor.executeQuery(runnableCode);
+
+      // Cancelling is not an attempt: show the notice without grading or logging
+      if (queryResult.resourceLimit === 'cancelled') {
+        setHiddenGrading(null);
+        setStateGrading(null);
+        setResult(queryResult);
+        return;
+      }
       
       // Calculate correctness to pass to parent
+      const gradingMode = resolveGradingMode(problem);
       const correctness = checkCorrectnessForResult(queryResult);
-      onExecute(code, queryResult, correctness?.match ?? queryResult.success);
+      let isCorrect = correctness?.match ?? queryResult.success;
+
+      // Write-query problems: replay the statement on a fresh database and
+      // compare the tables it leaves behind
+      let state: FinalStateGradingResult | null = null;
+      if (gradingMode === 'final-state' && queryResult.success) {
+        state = await gradeFinalDatabaseState(runnableCode, problem, problem.schema, createGradingExecutor);
+        isCorrect = state.match;
+      }
+
+      // Visible rows match: confirm the query is not hard-coded to them
+      let hidden: HiddenDatasetGradingResult | null = null;
+      if (isCorrect && gradingMode !== 'exec-only' && queryResult.success && problem.hiddenDatasets?.length) {
+        hidden = await gradeAgainstHiddenDatasets(runnableCode, problem, createGradingExecutor);
+        isCorrect = hidden.passed;
+      }
+
+      // Wrong visible rows: find the clause where the learner's pipeline departs
+      // from the solution so rung-2 hints can point at it
+      const stageDivergence = correctness && !correctness.match && problem.expectedQuery
+        ? await findStageDivergence(executor, runnableCode, problem.expectedQuery)
+        : null;
+
+      // Visible rows that pass but fail hidden datasets stay a near miss
+      const resultSimilarity = correctness?.similarity === undefined
+        ? undefined
+        : isCorrect ? 1 : Math.min(correctness.similarity, NEAR_MISS_MAX_SCORE);
+
+      setHiddenGrading(hidden);
+      setStateGrading(state);
+      setResult(queryResult);
+      setQuerySteps(null);
+      onExecute(
+        code,
+        correctness?.errorSubtypeId ? { ...queryResult, errorSubtypeId: correctness.errorSubtypeId } : queryResult,
+        isCorrect,
+        { stageDivergence, resultSimilarity }
+      );
     } catch (error) {
       // Query execution error handled
       const errorResult: QueryResult = {
         success: false,
         error: error instanceof Error ? error.message : 'An unexpected error occurred during query execution'
       };
+      setHiddenGrading(null);
+      setStateGrading(null);
       setResult(errorResult);
       onExecute(code, errorResult, false);
     } finally {
@@ -318,13 +479,68 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
     }
   };
 
+  const handleExplain = async () => {
+    if (!executor || !code.trim()) return;
+
+    setIsExecuting(true);
+    try {
+      const explanation = await executor.explainQueryPlan(runnableCode);
+      setQueryPlan(explanation);
+      onExplain?.(code, explanation);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const handleShowSteps = async () => {
+    if (!executor || !code.trim()) return;
+
+    setIsExecuting(true);
+    try {
+      const trace = await traceQueryStages(executor, runnableCode);
+      const divergence = trace.success && resolveGradingMode(problem) !== 'exec-only' && problem.expectedQuery
+        ? await findStageDivergence(executor, runnableCode, problem.expectedQuery)
+        : null;
+      setQuerySteps({ trace, divergence });
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    executor?.cancel();
+  };
+
   const handleReset = () => {
     setResult(null);
+    setQueryPlan(null);
+    setQuerySteps(null);
+    setHiddenGrading(null);
+    setStateGrading(null);
     onReset?.();
   };
 
+  const handleResetDatabase = async () => {
+    if (!executor) return;
+
+    setIsExecuting(true);
+    try {
+      await executor.resetDatabase();
+      setResult(null);
+      setQueryPlan(null);
+      setQuerySteps(null);
+      setHiddenGrading(null);
+      setStateGrading(null);
+      onDatabaseReset?.();
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
   const handleClearResults = () => {
     setResult(null);
+    setHiddenGrading(null);
+    setStateGrading(null);
   };
 
   const handleCopyCode = async () => {
@@ -352,8 +568,7 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
 
     // Determine grading mode: explicit mode takes precedence, then fall back to
     // result-check if expectedResult exists with data, otherwise exec-only
-    const hasExpectedResult = problem.expectedResult && problem.expectedResult.length > 0;
-    const gradingMode = problem.gradingMode ?? (hasExpectedResult ? 'result' : 'exec-only');
+    const gradingMode = resolveGradingMode(problem);
     
     if (gradingMode === 'exec-only') {
       return {
@@ -363,10 +578,20 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
       };
     }
     
-    const actualResults = formatResults(result);
-    const comparison = executor.compareResults(actualResults, problem.expectedResult!);
+    const comparison = gradingMode === 'final-state'
+      ? stateGrading && { match: stateGrading.match, differences: stateGrading.differences }
+      : executor.compareResults(formatResults(result), problem.expectedResult!, gradingMode);
+    if (!comparison) return null;
+
+    if (comparison.match && hiddenGrading && !hiddenGrading.passed) {
+      return {
+        match: false,
+        differences: hiddenGrading.message ? [hiddenGrading.message] : [],
+        mode: gradingMode
+      };
+    }
     
-    return { ...comparison, mode: 'result' };
+    return { ...comparison, mode: gradingMode };
   };
 
   const correctness = checkCorrectness();
@@ -382,7 +607,7 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
                   <TooltipTrigger asChild>
                     <Button
                       onClick={handleExecute}
-                      disabled={isExecuting || !code.trim() || initStatus !== 'ready'}
+                      disabled={isExecuting || !code.trim() || initStatus !== 'ready' || Boolean(runDisabledReason)}
                       size="sm"
                       data-testid="run-query-btn"
                       className="bg-blue-600 hover:bg-blue-700"
@@ -398,6 +623,54 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
                     </div>
                   </TooltipContent>
                 </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={handleExplain}
+                      disabled={isExecuting || !code.trim() || initStatus !== 'ready'}
+                      variant="outline"
+                      size="sm"
+                      data-testid="explain-query-btn"
+                    >
+                      <ListTree className="size-4 mr-2" />
+                      Explain
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom">
+                    <span>Show how SQLite would run this query</span>
+                  </TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={handleShowSteps}
+                      disabled={isExecuting || !code.trim() || initStatus !== 'ready'}
+                      variant="outline"
+                      size="sm"
+                      data-testid="query-steps-btn"
+                    >
+                      <Footprints className="size-4 mr-2" />
+                      Steps
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom">
+                    <span>Show the table after each clause</span>
+                  </TooltipContent>
+                </Tooltip>
+                {runDisabledReason && (
+                  <span className="text-xs text-red-600" data-testid="run-disabled-reason">{runDisabledReason}</span>
+                )}
+                {isExecuting && (
+                  <Button
+                    onClick={handleCancel}
+                    variant="outline"
+                    size="sm"
+                    data-testid="cancel-query-btn"
+                  >
+                    <Square className="size-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button onClick={handleReset} variant="outline" size="sm">
@@ -409,6 +682,23 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
                     <p>Reset editor and clear results</p>
                   </TooltipContent>
                 </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={handleResetDatabase}
+                      disabled={isExecuting || initStatus !== 'ready'}
+                      variant="outline"
+                      size="sm"
+                      data-testid="reset-database-btn"
+                    >
+                      <DatabaseBackup className="size-4 mr-2" />
+                      Reset Data
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom">
+                    <p>Undo your changes to the practice tables</p>
+                  </TooltipContent>
+                </Tooltip>
                 {result && (
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -442,6 +732,18 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
                     <p>Copy SQL to clipboard</p>
                   </TooltipContent>
                 </Tooltip>
+                {dialect !== 'sqlite' && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Badge variant="outline" data-testid="dialect-badge">
+                        {DIALECT_LABELS[dialect]}
+                      </Badge>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                      <p>Runs on SQLite; constructs {DIALECT_LABELS[dialect]} handles differently are flagged</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
               </div>
               {correctness && (
                 <div className="flex items-center gap-2">
@@ -561,7 +863,7 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
             <div className="lg:hidden border-t p-2 flex justify-center bg-gray-50/50 shrink-0">
               <Button
                 onClick={handleExecute}
-                disabled={isExecuting || !code.trim() || initStatus !== 'ready'}
+                disabled={isExecuting || !code.trim() || initStatus !== 'ready' || Boolean(runDisabledReason)}
                 size="sm"
                 data-testid="run-query-btn-bottom"
                 className="bg-blue-600 hover:bg-blue-700"
@@ -569,10 +871,36 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
                 <Play className="size-4 mr-2" />
                 {isExecuting ? 'Executing...' : 'Run Query'}
               </Button>
+              {isExecuting && (
+                <Button
+                  onClick={handleCancel}
+                  variant="outline"
+                  size="sm"
+                  className="ml-2"
+                  data-testid="cancel-query-btn-bottom"
+                >
+                  <Square className="size-4 mr-2" />
+                  Cancel
+                </Button>
+              )}
             </div>
           </div>
         </Card>
 
+        <DialectIssuesView issues={dialectIssues} />
+
+        {querySteps && (
+          <QueryStepsView
+            trace={querySteps.trace}
+            divergence={querySteps.divergence}
+            onClose={() => setQuerySteps(null)}
+          />
+        )}
+
+        {queryPlan && (
+          <QueryPlanView explanation={queryPlan} onClose={() => setQueryPlan(null)} />
+        )}
+
         {result && (
           <Card className="p-4 max-h-[45%] overflow-y-auto flex-shrink-0">
             <div className="space-y-3">
@@ -640,7 +968,9 @@ export function SQLEditor({ problem, code, onExecute, onCodeChange, onReset }: S
                     </div>
                   )}
 
-                  {correctness && correctness.mode === 'result' && !correctness.match && (
+                  {stateGrading && !stateGrading.match && <StateDiffView grading={stateGrading} />}
+
+                  {correctness && correctness.mode !== 'exec-only' && !correctness.match && !(stateGrading && !stateGrading.match) && (
                     <div className="mt-3 p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg">
                       <p className="text-sm font-medium text-amber-800 dark:text-amber-300 mb-2 flex items-center gap-2">
                         <AlertCircle className="size-4" />
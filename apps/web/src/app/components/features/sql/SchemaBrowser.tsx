@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Eye, EyeOff, KeyRound, Loader2, Table } from 'lucide-react';
+import { Badge } from '../../ui/badge';
+import { Button } from '../../ui/button';
+import type { QueryResult, SQLExecutor, TableDescription } from '../../../lib/sql-executor';
+
+interface SchemaBrowserProps {
+  /** Live practice database; null while the editor is still loading */
+  executor: SQLExecutor | null;
+  /** Changes whenever the learner's statements or a reset may have changed the data */
+  refreshKey?: number;
+}
+
+const PREVIEW_ROWS = 5;
+
+function TablePreview({ preview }: { preview: QueryResult }) {
+  if (!preview.success) {
+    return <p className="text-xs text-red-600">{preview.error}</p>;
+  }
+  if (!preview.values?.length) {
+    return <p className="text-xs text-gray-500">This table is empty.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded border">
+      <table className="w-full text-[11px]">
+        <thead className="bg-gray-100 dark:bg-gray-700">
+          <tr>
+            {preview.columns?.map((col, idx) => (
+              <th key={idx} scope="col" className="px-2 py-1 text-left border-b font-medium">
+                {col}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {preview.values.map((row, rowIdx) => (
+            <tr key={rowIdx} className="border-b last:border-b-0">
+              {row.map((cell, cellIdx) => (
+                <td key={cellIdx} className="px-2 py-1 font-mono">
+                  {cell === null ? <span className="text-gray-400 italic">NULL</span> : String(cell)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Lists the practice database's tables with their columns and lets the
+ * learner peek at the first rows. Previews are not logged as attempts.
+ */
+export function SchemaBrowser({ executor, refreshKey = 0 }: SchemaBrowserProps) {
+  const [tables, setTables] = useState<TableDescription[] | null>(null);
+  const [openTable, setOpenTable] = useState<string | null>(null);
+  const [preview, setPreview] = useState<QueryResult | null>(null);
+
+  useEffect(() => {
+    if (!executor) {
+      setTables(null);
+      return;
+    }
+    let cancelled = false;
+    executor.describeTables().then((described) => {
+      if (!cancelled) setTables(described);
+    }).catch((error: unknown) => {
+      console.error('[SchemaBrowser] Failed to list tables:', error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [executor, refreshKey]);
+
+  useEffect(() => {
+    if (!executor || !openTable) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    executor.previewTable(openTable, PREVIEW_ROWS).then((result) => {
+      if (!cancelled) setPreview(result);
+    }).catch((error: unknown) => {
+      console.error('[SchemaBrowser] Failed to preview table:', error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [executor, openTable, refreshKey]);
+
+  if (!tables) {
+    return (
+      <p className="text-xs text-gray-500 flex items-center gap-2 mt-2">
+        <Loader2 className="size-3 animate-spin" />
+        Loading tables...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 mt-2" data-testid="schema-browser">
+      {tables.map(table => {
+        const isOpen = openTable === table.name;
+        return (
+          <div key={table.name} className="rounded border p-2 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium flex items-center gap-1.5">
+                <Table className="size-3.5" />
+                {table.name}
+                <Badge variant="outline" className="font-mono text-[10px]">
+                  {table.rowCount} {table.rowCount === 1 ? 'row' : 'rows'}
+                </Badge>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setPreview(null);
+                  setOpenTable(isOpen ? null : table.name);
+                }}
+                aria-label={isOpen ? `Hide rows of ${table.name}` : `Peek at rows of ${table.name}`}
+                data-testid={`peek-table-${table.name}`}
+              >
+                {isOpen ? <EyeOff className="size-3.5" /> : <Eye className="size-3.5" />}
+              </Button>
+            </div>
+            <ul className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+              {table.columns.map(column => (
+                <li key={column.name} className="text-xs font-mono flex items-center gap-1 min-w-0">
+                  {column.primaryKey && <KeyRound className="size-3 shrink-0 text-amber-600" aria-label="Primary key" />}
+                  <span className="truncate">{column.name}</span>
+                  <span className="text-gray-500 shrink-0">{column.type || 'ANY'}</span>
+                </li>
+              ))}
+            </ul>
+            {isOpen && preview && <TablePreview preview={preview} />}
+          </div>
+        );
+      })}
+      {tables.length === 0 && (
+        <p className="text-xs text-gray-500">The database has no tables.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { AlertCircle, Minus, Plus } from 'lucide-react';
+import type { FinalStateGradingResult, StateDiff } from '../../../lib/sql-executor';
+
+interface StateDiffViewProps {
+  grading: FinalStateGradingResult;
+}
+
+const MAX_DIFF_ROWS = 5;
+
+function DiffRows({ rows, kind }: { rows: Record<string, unknown>[]; kind: 'missing' | 'unexpected' }) {
+  if (rows.length === 0) return null;
+  const Icon = kind === 'missing' ? Minus : Plus;
+  const tone = kind === 'missing'
+    ? 'text-red-700 dark:text-red-300'
+    : 'text-blue-700 dark:text-blue-300';
+
+  return (
+    <div className="space-y-1">
+      <p className={`text-xs font-medium ${tone}`}>
+        {kind === 'missing' ? 'Expected but missing' : 'Present but not expected'}
+      </p>
+      <ul className="space-y-0.5">
+        {rows.slice(0, MAX_DIFF_ROWS).map((row, idx) => (
+          <li key={idx} className={`flex items-start gap-1.5 text-xs font-mono ${tone}`}>
+            <Icon className="size-3 shrink-0 mt-0.5" />
+            {JSON.stringify(row)}
+          </li>
+        ))}
+      </ul>
+      {rows.length > MAX_DIFF_ROWS && (
+        <p className="text-[11px] text-gray-500">and {rows.length - MAX_DIFF_ROWS} more</p>
+      )}
+    </div>
+  );
+}
+
+function TableDiff({ diff }: { diff: StateDiff }) {
+  return (
+    <div className="rounded border border-amber-200 dark:border-amber-800 p-2 space-y-2" data-testid="state-diff-table">
+      <p className="text-sm text-amber-800 dark:text-amber-300">{diff.message}</p>
+      <DiffRows rows={diff.missingRows} kind="missing" />
+      <DiffRows rows={diff.unexpectedRows} kind="unexpected" />
+    </div>
+  );
+}
+
+/**
+ * Per-table differences between the database the learner's statement left
+ * behind and the one the solution leaves behind
+ */
+export function StateDiffView({ grading }: StateDiffViewProps) {
+  const mismatched = grading.tables.filter(diff => !diff.match);
+
+  return (
+    <div
+      className="mt-3 p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg space-y-2"
+      data-testid="state-diff-view"
+    >
+      <p className="text-sm font-medium text-amber-800 dark:text-amber-300 flex items-center gap-2">
+        <AlertCircle className="size-4" />
+        The database doesn't end up in the expected state:
+      </p>
+      {grading.learnerError && (
+        <p className="text-sm text-amber-700 dark:text-amber-300">{grading.learnerError}</p>
+      )}
+      {grading.referenceError && (
+        <p className="text-sm text-amber-700 dark:text-amber-300">
+          This problem's solution could not be checked. Please report it to your instructor.
+        </p>
+      )}
+      {mismatched.map(diff => (
+        <TableDiff key={`${diff.kind}:${diff.name}`} diff={diff} />
+      ))}
+    </div>
+  );
+}
@@ -54,8 +54,8 @@ const DEFAULT_SETTINGS: LLMSettings = {
 
 const STORAGE_KEY = 'sql-adapt-llm-settings';
 
-// Provider-specific default models
-const PROVIDER_DEFAULTS: Record<LLMProvider, string> = {
+// Provider-specific default models; other backends report their own
+const PROVIDER_DEFAULTS: Partial<Record<LLMProvider, string>> = {
   ollama: OLLAMA_MODEL,
   groq: GROQ_MODEL,
 };
@@ -64,12 +64,16 @@ const PROVIDER_DEFAULTS: Record<LLMProvider, string> = {
 const PROVIDER_NAMES: Record<LLMProvider, string> = {
   ollama: 'Local (Ollama)',
   groq: 'Hosted (Groq)',
+  'openai-compatible': 'Self-hosted (OpenAI-compatible)',
+  mock: 'Mock (deterministic)',
 };
 
 // Provider icons
 const PROVIDER_ICONS: Record<LLMProvider, typeof Server> = {
   ollama: Server,
   groq: Cloud,
+  'openai-compatible': Server,
+  mock: Bot,
 };
 
 export function LLMSettingsHelper() {
@@ -86,6 +90,9 @@ export function LLMSettingsHelper() {
       try {
         const backendStatus = await getLLMStatus();
         const backendProvider = backendStatus.provider;
+        const backendModel = backendProvider
+          ? PROVIDER_DEFAULTS[backendProvider] ?? backendStatus.defaultModel ?? DEFAULT_SETTINGS.model
+          : undefined;
         if (backendStatus.models.length > 0) {
           setAvailableModels(backendStatus.models);
         }
@@ -100,7 +107,7 @@ export function LLMSettingsHelper() {
               ...DEFAULT_SETTINGS,
               ...parsed,
               provider: backendProvider,
-              model: PROVIDER_DEFAULTS[backendProvider],
+              model: backendModel,
             };
             setSettings(syncedSettings);
             // Save synced settings back to localStorage (cache priority - LLM settings are regenerable)
@@ -109,7 +116,7 @@ export function LLMSettingsHelper() {
             setSettings(prev => ({
               ...prev,
               ...parsed,
-              ...(backendProvider ? { provider: backendProvider, model: PROVIDER_DEFAULTS[backendProvider] } : {}),
+              ...(backendProvider ? { provider: backendProvider, model: backendModel } : {}),
             }));
           }
         } else {
@@ -118,7 +125,7 @@ export function LLMSettingsHelper() {
             ...DEFAULT_SETTINGS,
             ...(backendProvider ? {
               provider: backendProvider,
-              model: PROVIDER_DEFAULTS[backendProvider],
+              model: backendModel,
             } : {}),
           });
         }
@@ -165,7 +172,7 @@ export function LLMSettingsHelper() {
       const updated = { ...prev, [key]: value };
       // If provider changed, update model to default for that provider
       if (key === 'provider') {
-        updated.model = PROVIDER_DEFAULTS[value as LLMProvider];
+        updated.model = PROVIDER_DEFAULTS[value as LLMProvider] ?? prev.model;
       }
       return updated;
     });
@@ -236,12 +243,22 @@ export function LLMSettingsHelper() {
                 {PROVIDER_NAMES.groq}
               </div>
             </SelectItem>
+            {settings.provider !== 'ollama' && settings.provider !== 'groq' && (
+              <SelectItem value={settings.provider}>
+                <div className="flex items-center gap-2">
+                  <ProviderIcon className="size-4" />
+                  {PROVIDER_NAMES[settings.provider]}
+                </div>
+              </SelectItem>
+            )}
           </SelectContent>
         </Select>
         <p className="text-xs text-gray-500">
           {settings.provider === 'ollama'
             ? 'Use local Ollama instance. Requires Ollama running locally.'
-            : 'Use hosted Groq API. Requires GROQ_API_KEY on backend.'}
+            : settings.provider === 'groq'
+              ? 'Use hosted Groq API. Requires GROQ_API_KEY on backend.'
+              : 'Configured on the backend with LLM_PROVIDER.'}
         </p>
       </div>
 
@@ -8,7 +8,7 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { SQLExecutor } from '../lib/sql-executor';
+import { SQLExecutor, gradeAgainstHiddenDatasets } from '../lib/sql-executor';
 import { sqlProblems, getProblemById } from './problems';
 
 describe('SQL Problems Regression Suite - All 32 Problems', () => {
@@ -33,7 +33,7 @@ describe('SQL Problems Regression Suite - All 32 Problems', () => {
         
         // Compare with expected result
         const expected = problem.expectedResult ?? [];
-        const comparison = executor.compareResults(formatted, expected);
+        const comparison = executor.compareResults(formatted, expected, problem.gradingMode);
         
         // Assert they match with detailed failure message
         expect(
@@ -95,7 +95,7 @@ describe('SQL Problems - Tricky Cases (Focused Regression)', () => {
         
         // Compare with expected result
         const expected = problem.expectedResult ?? [];
-        const comparison = executor.compareResults(formatted, expected);
+        const comparison = executor.compareResults(formatted, expected, problem.gradingMode);
         
         // Detailed assertions for debugging
         expect(result.success).toBe(true);
@@ -471,6 +471,23 @@ describe('SQL Problems - By Difficulty', () => {
   });
 });
 
+/**
+ * Hidden dataset verification.
+ * Every hidden dataset must load and run expectedQuery, otherwise it is
+ * silently skipped at grading time and stops catching hard-coded answers.
+ */
+describe('SQL Problems - Hidden Datasets', () => {
+  const problemsWithHiddenData = sqlProblems.filter(p => p.hiddenDatasets && p.hiddenDatasets.length > 0);
+
+  for (const problem of problemsWithHiddenData) {
+    it(`${problem.id}: expectedQuery passes every hidden dataset`, async () => {
+      const grading = await gradeAgainstHiddenDatasets(problem.expectedQuery, problem);
+      expect(grading.cases).toHaveLength(problem.hiddenDatasets!.length);
+      expect(grading.passed).toBe(true);
+    });
+  }
+});
+
 /**
  * Concept coverage verification.
  * Ensures all concept types are tested.
@@ -161,6 +161,22 @@ INSERT INTO users VALUES (3, 'Charlie', 'charlie@email.com', 22);`,
     expectedResult: [
       { id: 1, name: 'Alice', email: 'alice@email.com', age: 25 },
       { id: 2, name: 'Bob', email: 'bob@email.com', age: 30 }
+    ],
+    hiddenDatasets: [
+      {
+        id: 'problem-2-hidden-1',
+        schema: `CREATE TABLE users (
+  id INTEGER PRIMARY KEY,
+  name TEXT,
+  email TEXT,
+  age INTEGER
+);
+
+INSERT INTO users VALUES (1, 'Priya', 'priya@email.com', 19);
+INSERT INTO users VALUES (2, 'Marco', 'marco@email.com', 24);
+INSERT INTO users VALUES (3, 'Yuki', 'yuki@email.com', 41);
+INSERT INTO users VALUES (4, 'Omar', 'omar@email.com', 27);`
+      }
     ]
   },
   {
@@ -265,6 +281,7 @@ INSERT INTO products VALUES (4, 'Chair', 'Furniture', 199.99);`,
     topicDifficultyLevel: 2,
     schema: usersPracticeSchema,
     expectedQuery: 'SELECT name, age FROM users ORDER BY age DESC;',
+    gradingMode: 'ordered-result',
     expectedResult: [
       { name: 'Evan', age: 35 },
       { name: 'Bob', age: 30 },
@@ -415,6 +432,7 @@ INSERT INTO products VALUES (4, 'Chair', 'Furniture', 199.99);`,
     topicDifficultyLevel: 3,
     schema: productsPracticeSchema,
     expectedQuery: 'SELECT name, price FROM products ORDER BY price DESC LIMIT 3;',
+    gradingMode: 'ordered-result',
     expectedResult: [
       { name: 'Laptop', price: 999.99 },
       { name: 'Desk', price: 299.99 },
@@ -431,6 +449,7 @@ INSERT INTO products VALUES (4, 'Chair', 'Furniture', 199.99);`,
     topicDifficultyLevel: 2,
     schema: usersOrdersPracticeSchema,
     expectedQuery: 'SELECT u.name, o.product, o.amount FROM users u JOIN orders o ON u.id = o.user_id ORDER BY o.amount DESC;',
+    gradingMode: 'ordered-result',
     expectedResult: [
       { name: 'Diana', product: 'Laptop', amount: 1099.00 },
       { name: 'Alice', product: 'Laptop', amount: 999.99 },
@@ -453,6 +472,23 @@ INSERT INTO products VALUES (4, 'Chair', 'Furniture', 199.99);`,
     expectedResult: [
       { category: 'Electronics', product_count: 3 },
       { category: 'Furniture', product_count: 2 }
+    ],
+    hiddenDatasets: [
+      {
+        id: 'problem-17-hidden-1',
+        schema: `CREATE TABLE products (
+  id INTEGER PRIMARY KEY,
+  name TEXT,
+  category TEXT,
+  price REAL
+);
+
+INSERT INTO products VALUES (1, 'Sofa', 'Furniture', 899.00);
+INSERT INTO products VALUES (2, 'Kettle', 'Kitchen', 39.99);
+INSERT INTO products VALUES (3, 'Toaster', 'Kitchen', 49.99);
+INSERT INTO products VALUES (4, 'Blender', 'Kitchen', 89.99);
+INSERT INTO products VALUES (5, 'Phone', 'Electronics', 699.00);`
+      }
     ]
   },
   {
@@ -8,6 +8,7 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { InteractionEvent, InstructionalUnit } from '../types';
 import type { GuidanceRung } from '../lib/ml/guidance-ladder';
+import type { QueryStageDivergence } from '../lib/query-stages';
 import {
   generateEnhancedHint,
   checkAvailableResources,
@@ -23,6 +24,8 @@ export type UseEnhancedHintsOptions = {
   problemId: string;
   sessionId?: string;
   recentInteractions: InteractionEvent[];
+  /** Divergent SELECT stage from the last wrong result */
+  stageDivergence?: QueryStageDivergence | null;
 };
 
 export type UseEnhancedHintsReturn = {
@@ -36,6 +39,8 @@ export type UseEnhancedHintsReturn = {
   preloadContext: (errorSubtypeId: string) => Promise<void>;
   /** Whether a hint is being generated */
   isGenerating: boolean;
+  /** Safety-checked text of an LLM hint that is still streaming in */
+  streamingContent: string | null;
   /** Last generated hint */
   lastHint: EnhancedHint | null;
   /** Available resources (cached) */
@@ -50,9 +55,10 @@ export type UseEnhancedHintsReturn = {
  * Hook for enhanced hint generation
  */
 export function useEnhancedHints(options: UseEnhancedHintsOptions): UseEnhancedHintsReturn {
-  const { learnerId, problemId, sessionId, recentInteractions } = options;
+  const { learnerId, problemId, sessionId, recentInteractions, stageDivergence } = options;
   
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
   const [lastHint, setLastHint] = useState<EnhancedHint | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [availableResources, setAvailableResources] = useState<AvailableResources>({
@@ -100,7 +106,9 @@ export function useEnhancedHints(options: UseEnhancedHintsOptions): UseEnhancedH
         sessionId,
         errorSubtypeId,
         rung,
-        recentInteractions
+        recentInteractions,
+        stageDivergence,
+        onPartialContent: setStreamingContent
       });
       
       setLastHint(hint);
@@ -113,8 +121,9 @@ export function useEnhancedHints(options: UseEnhancedHintsOptions): UseEnhancedH
       
     } finally {
       setIsGenerating(false);
+      setStreamingContent(null);
     }
-  }, [learnerId, problemId, sessionId, recentInteractions]);
+  }, [learnerId, problemId, sessionId, recentInteractions, stageDivergence]);
   
   /**
    * Check which resources are available
@@ -158,6 +167,7 @@ export function useEnhancedHints(options: UseEnhancedHintsOptions): UseEnhancedH
     getStrategyDescription,
     preloadContext,
     isGenerating,
+    streamingContent,
     lastHint,
     availableResources,
     error,
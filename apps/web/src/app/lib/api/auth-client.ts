@@ -8,7 +8,7 @@
  * these functions return no-op results and the app falls back to passcode auth.
  */
 
-import { withCsrfHeader, setCsrfToken, clearCsrfToken } from './csrf-client';
+import { withCsrfHeader, setCsrfToken, clearCsrfToken, refreshAuthSession } from './csrf-client';
 import { isResearchSafe, getResearchRuntimeMode, getApiBaseUrl, isBackendConfigured } from '../runtime-config';
 
 // '' for same-origin (relative /api/auth), a URL otherwise, undefined when unset.
@@ -56,9 +56,13 @@ export interface AuthUser {
   role: 'student' | 'instructor';
   learnerId: string;    // users.id — used for all data operations
   name: string;
+  /** False until the learner opens the verification link sent at signup */
+  emailVerified?: boolean;
   createdAt: string;
   sectionId?: string | null;
   sectionName?: string | null;
+  /** Students: current research consent decision (null when never recorded) */
+  researchConsent?: boolean | null;
   ownedSections?: Array<{
     id: string;
     name: string;
@@ -75,17 +79,49 @@ export interface AuthResult {
   retryAfter?: string;
 }
 
+export interface AccountActionResult {
+  success: boolean;
+  error?: string;
+  details?: Record<string, string[]>;
+}
+
 export interface LogoutResult {
   success: boolean;
   status?: number;
   error?: string;
 }
 
+export interface AuthSessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  /** The session this browser is signed in with */
+  current: boolean;
+}
+
 // ============================================================================
 // HTTP helper
 // ============================================================================
 
+/** Endpoints that establish or end a session; a 401 from these is final */
+const SESSION_PATHS = new Set(['/login', '/signup', '/refresh', '/logout']);
+
+/**
+ * Access tokens are short-lived: on a 401, refresh the session once and retry.
+ */
 async function authFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const response = await authFetchOnce(path, init);
+  if (response.status !== 401 || SESSION_PATHS.has(path)) {
+    return response;
+  }
+  const refreshed = await refreshAuthSession(`${AUTH_BASE}/refresh`);
+  return refreshed ? authFetchOnce(path, init) : response;
+}
+
+async function authFetchOnce(path: string, init: RequestInit): Promise<Response> {
   const requestInit = withCsrfHeader(init);
   const headers = new Headers(requestInit.headers || {});
   if (!headers.has('Content-Type')) {
@@ -130,6 +166,7 @@ export async function signup(params: {
   role: 'student' | 'instructor';
   classCode?: string;
   instructorCode?: string;
+  researchConsent?: boolean;
 }): Promise<AuthResult> {
   try {
     const res = await authFetch('/signup', {
@@ -206,6 +243,153 @@ export async function logout(): Promise<LogoutResult> {
   }
 }
 
+export interface ResearchConsentStatus {
+  consented: boolean;
+  /** Consent form version the learner answered (null when never recorded) */
+  consentVersion: string | null;
+  /** Consent form version currently in use on the server */
+  currentVersion: string;
+  updatedAt: string | null;
+}
+
+export async function getResearchConsent(): Promise<ResearchConsentStatus | null> {
+  try {
+    const res = await authFetch('/research-consent');
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data.success ? data.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Give or withdraw research consent. Withdrawal excludes the learner from all
+ * future research exports.
+ */
+export async function updateResearchConsent(consented: boolean): Promise<ResearchConsentStatus | null> {
+  try {
+    const res = await authFetch('/research-consent', {
+      method: 'PUT',
+      body: JSON.stringify({ consented }),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data.success ? data.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Account management
+// ============================================================================
+
+async function accountAction(path: string, init: RequestInit): Promise<AccountActionResult> {
+  try {
+    const res = await authFetch(path, init);
+    const data = await res.json().catch(() => ({} as { error?: string; details?: Record<string, string[]> }));
+    if (!res.ok) {
+      return { success: false, error: data.error ?? `HTTP ${res.status}`, details: data.details };
+    }
+    return { success: true };
+  } catch (err) {
+    return { success: false, error: formatNetworkError(err as Error) };
+  }
+}
+
+/**
+ * Ask for a password reset email. Succeeds whether or not the email has an
+ * account, so the response never reveals who is registered.
+ */
+export async function requestPasswordReset(email: string): Promise<AccountActionResult> {
+  return accountAction('/password-reset/request', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+export async function confirmPasswordReset(token: string, password: string): Promise<AccountActionResult> {
+  return accountAction('/password-reset/confirm', {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+}
+
+/**
+ * Claim a roster-imported account: set its first password and record the
+ * research consent decision. The learner signs in afterwards.
+ */
+export async function activateAccount(
+  token: string,
+  password: string,
+  researchConsent: boolean
+): Promise<AccountActionResult> {
+  return accountAction('/activate', {
+    method: 'POST',
+    body: JSON.stringify({ token, password, researchConsent }),
+  });
+}
+
+export async function requestEmailVerification(): Promise<AccountActionResult> {
+  return accountAction('/verify-email/request', { method: 'POST' });
+}
+
+export async function confirmEmailVerification(token: string): Promise<AccountActionResult> {
+  return accountAction('/verify-email/confirm', {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  });
+}
+
+export async function changePassword(currentPassword: string, newPassword: string): Promise<AccountActionResult> {
+  return accountAction('/password', {
+    method: 'PUT',
+    body: JSON.stringify({ currentPassword, newPassword }),
+  });
+}
+
+/**
+ * Permanently delete the signed-in account and its learner data. The server
+ * clears the session cookies on success.
+ */
+export async function deleteAccount(password: string): Promise<AccountActionResult> {
+  const result = await accountAction('/account', {
+    method: 'DELETE',
+    body: JSON.stringify({ password }),
+  });
+  if (result.success) {
+    clearCsrfToken();
+  }
+  return result;
+}
+
+/**
+ * Sign out every device, this one included.
+ */
+export async function logoutAllDevices(): Promise<AccountActionResult> {
+  const result = await accountAction('/logout-all', { method: 'POST' });
+  if (result.success) {
+    clearCsrfToken();
+  }
+  return result;
+}
+
+export async function listSessions(): Promise<AuthSessionInfo[] | null> {
+  try {
+    const res = await authFetch('/sessions');
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data.success ? data.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function revokeSession(sessionId: string): Promise<AccountActionResult> {
+  return accountAction(`/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+}
+
 export async function getMe(): Promise<AuthUser | null> {
   try {
     const res = await authFetch('/me');
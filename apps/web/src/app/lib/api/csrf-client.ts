@@ -97,3 +97,41 @@ export async function refreshCsrfTokenFromAuthMe(authMeUrl: string): Promise<boo
     return false;
   }
 }
+
+type RefreshResponse = {
+  csrfToken?: string;
+};
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Trade the refresh cookie for a new short-lived access cookie. Concurrent
+ * callers share one request: the server rotates the refresh token on every
+ * call, so parallel refreshes from the same tab would race each other.
+ */
+export function refreshAuthSession(refreshUrl: string): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const response = await fetch(refreshUrl, {
+          method: 'POST',
+          credentials: 'include',
+        });
+        if (!response.ok) {
+          return false;
+        }
+        const body = await response.json().catch(() => null as RefreshResponse | null);
+        const token = normalizeToken(body?.csrfToken);
+        if (token) {
+          setCsrfToken(token);
+        }
+        return true;
+      } catch {
+        return false;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+}
@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('./csrf-client', () => ({
   withCsrfHeader: (options: RequestInit) => options,
+  refreshAuthSession: vi.fn(async () => false),
 }));
 
 describe('learner-profile-client', () => {
@@ -13,7 +13,7 @@ import type {
   ConceptCoverageEvidence,
   InteractionEvent,
 } from '@/app/types';
-import { withCsrfHeader } from './csrf-client';
+import { refreshAuthSession, withCsrfHeader } from './csrf-client';
 import { safeSet } from '../storage/safe-storage';
 import { getApiBaseUrl } from '../runtime-config';
 
@@ -81,18 +81,25 @@ async function fetchApi<T>(
   options: RequestInit = {}
 ): Promise<ApiResponse<T>> {
   const url = `${API_URL}${endpoint}`;
-  const requestInit = withCsrfHeader(options);
-  const headers = new Headers(requestInit.headers || {});
-  if (!headers.has('Content-Type')) {
-    headers.set('Content-Type', 'application/json');
-  }
-  
-  try {
-    const response = await fetch(url, {
+  const executeRequest = (): Promise<Response> => {
+    const requestInit = withCsrfHeader(options);
+    const headers = new Headers(requestInit.headers || {});
+    if (!headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+    return fetch(url, {
       ...requestInit,
       credentials: 'include',
       headers,
     });
+  };
+
+  try {
+    let response = await executeRequest();
+    // Access tokens are short-lived; refresh the session once and retry
+    if (response.status === 401 && (await refreshAuthSession(`${API_URL}/auth/refresh`))) {
+      response = await executeRequest();
+    }
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
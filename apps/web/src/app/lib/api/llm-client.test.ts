@@ -19,6 +19,31 @@ function mockJsonResponse(data: unknown, ok = true): Response {
   } as Response;
 }
 
+function mockEventStreamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return {
+    ok: true,
+    headers: new Headers({ 'content-type': 'text/event-stream; charset=utf-8' }),
+    body,
+  } as Response;
+}
+
+const groqStatus = {
+  success: true,
+  data: {
+    enabled: true,
+    available: true,
+    provider: 'groq',
+    models: ['openai/gpt-oss-20b'],
+  },
+};
+
 describe('llm-client provider-neutral runtime', () => {
   beforeEach(() => {
     vi.resetModules();
@@ -131,4 +156,224 @@ describe('llm-client provider-neutral runtime', () => {
     expect(status.provider).toBeUndefined();
     expect(String(status.message).toLowerCase()).not.toContain('ollama');
   });
+
+  it('streams token events to onToken and resolves with the final text', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(mockJsonResponse(groqStatus))
+      .mockResolvedValueOnce(
+        mockEventStreamResponse([
+          'event: token\ndata: {"text":"Which "}\n\n',
+          'event: token\ndata: {"text":"column',
+          '"}\n\nevent: token\ndata: {"text":" joins them?"}\n\n',
+          'event: done\ndata: {"model":"openai/gpt-oss-20b","response":"Which column joins them?","done":true}\n\n',
+        ]),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { streamWithLLM } = await import('./llm-client');
+    const seen: string[] = [];
+    const result = await streamWithLLM('Give a hint', { onToken: (_delta, text) => seen.push(text) });
+
+    expect(result).toMatchObject({ text: 'Which column joins them?', model: 'openai/gpt-oss-20b' });
+    expect(seen).toEqual(['Which ', 'Which column', 'Which column joins them?']);
+    const request = fetchMock.mock.calls[1]?.[1] as RequestInit;
+    expect(JSON.parse(String(request.body))).toMatchObject({ stream: true, prompt: 'Give a hint' });
+  });
+
+  it('rejects a stream that fails after text was shown instead of silently regenerating', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(mockJsonResponse(groqStatus))
+      .mockResolvedValueOnce(
+        mockEventStreamResponse([
+          'event: token\ndata: {"text":"Think about"}\n\n',
+          'event: error\ndata: {"error":"Failed to generate text","message":"Groq rate limit exceeded"}\n\n',
+        ]),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { streamWithLLM } = await import('./llm-client');
+
+    await expect(streamWithLLM('Give a hint')).rejects.toMatchObject({ code: 'HTTP' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the backend-reported default model for providers without client defaults', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(
+        mockJsonResponse({
+          success: true,
+          data: {
+            enabled: true,
+            available: true,
+            provider: 'openai-compatible',
+            models: ['Qwen/Qwen2.5-7B-Instruct'],
+            defaultModel: 'Qwen/Qwen2.5-7B-Instruct',
+          },
+        }),
+      )
+      .mockResolvedValueOnce(mockJsonResponse({ success: false, error: 'Failed to generate text' }, false));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { generateWithLLM } = await import('./llm-client');
+
+    await expect(generateWithLLM('Explain this')).rejects.toMatchObject({ code: 'HTTP' });
+    // A single attempt: the Ollama fallback model is never tried against other backends
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const request = fetchMock.mock.calls[1]?.[1] as RequestInit;
+    expect(JSON.parse(String(request.body))).toMatchObject({ model: 'Qwen/Qwen2.5-7B-Instruct' });
+  });
+
+  it('sends a template reference with the condition and returns the version the server used', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const promptTemplate = { id: 'explanation.v2', family: 'explanation', version: 2, assignment: 'condition' };
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(
+        mockJsonResponse({
+          success: true,
+          data: {
+            enabled: true,
+            available: true,
+            provider: 'groq',
+            models: ['openai/gpt-oss-20b'],
+            message: 'Groq ready',
+          },
+        }),
+      )
+      .mockResolvedValueOnce(mockJsonResponse({ success: true, data: { response: '{}', promptTemplate } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { generateWithPromptTemplate } = await import('./llm-client');
+    const result = await generateWithPromptTemplate(
+      { id: 'explanation', variables: { sources: '{}' } },
+    );
+
+    expect(result).toMatchObject({ text: '{}', promptTemplate });
+    const body = JSON.parse(String((fetchMock.mock.calls[1]?.[1] as RequestInit).body));
+    expect(body).toMatchObject({
+      model: 'openai/gpt-oss-20b',
+      template: { id: 'explanation', variables: { sources: '{}' } },
+    });
+    expect(body).not.toHaveProperty('prompt');
+    expect(body).not.toHaveProperty('conditionId');
+  });
+
+  it('reports a spent token budget without retrying so callers fall back', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const budgetResponse = {
+      ...mockJsonResponse({
+        success: false,
+        error: 'Token budget exceeded',
+        message: 'Daily AI tutor budget used up; hints will use built-in templates until tomorrow.',
+      }, false),
+      status: 429,
+    } as Response;
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(mockJsonResponse(groqStatus))
+      .mockResolvedValueOnce(budgetResponse);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { isBudgetExceededError, streamWithLLM } = await import('./llm-client');
+    const error = await streamWithLLM('Give a hint').catch((caught: unknown) => caught);
+
+    expect(isBudgetExceededError(error)).toBe(true);
+    expect(error).toMatchObject({
+      status: 429,
+      message: 'Daily AI tutor budget used up; hints will use built-in templates until tomorrow.',
+    });
+    // No regular-request retry: it would only be refused again
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends the session cookie and retries once after refreshing an expired session', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const expired = { ...mockJsonResponse({ success: false, error: 'Unauthorized' }, false), status: 401 } as Response;
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(mockJsonResponse(groqStatus))
+      .mockResolvedValueOnce(expired)
+      .mockResolvedValueOnce(mockJsonResponse({ success: true, csrfToken: 'fresh-token' }))
+      .mockResolvedValueOnce(mockJsonResponse({ success: true, data: { response: 'Short answer' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { generateWithLLM } = await import('./llm-client');
+    const result = await generateWithLLM('Explain this');
+
+    expect(result).toMatchObject({ text: 'Short answer' });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.example.com/api/llm/status',
+      'https://api.example.com/api/llm/generate',
+      'https://api.example.com/api/auth/refresh',
+      'https://api.example.com/api/llm/generate',
+    ]);
+    for (const index of [0, 1, 3]) {
+      expect(fetchMock.mock.calls[index]?.[1]).toMatchObject({ credentials: 'include' });
+    }
+    const retry = fetchMock.mock.calls[3]?.[1] as RequestInit;
+    expect(new Headers(retry.headers).get('x-csrf-token')).toBe('fresh-token');
+  });
+
+  it('keeps openai-compatible backends and their default model and reports the serving provider', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const status = mockJsonResponse({
+      success: true,
+      data: {
+        enabled: true,
+        available: true,
+        provider: 'openai-compatible',
+        models: ['qwen2.5-7b-instruct'],
+        defaultModel: 'qwen2.5-7b-instruct',
+        message: 'Ready',
+      },
+    });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(status)
+      .mockResolvedValueOnce(status)
+      .mockResolvedValueOnce(mockJsonResponse({
+        success: true,
+        data: { response: '{}', provider: 'openai-compatible' },
+      }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { getLLMStatus, generateWithPromptTemplate } = await import('./llm-client');
+    expect((await getLLMStatus()).provider).toBe('openai-compatible');
+
+    const result = await generateWithPromptTemplate({ id: 'explanation', variables: { sources: '{}' } });
+
+    expect(result).toMatchObject({ model: 'qwen2.5-7b-instruct', provider: 'openai-compatible' });
+  });
+
+  it('streams template generations and returns the version the server rendered', async () => {
+    envRef.VITE_API_BASE_URL = 'https://api.example.com';
+
+    const promptTemplate = { id: 'adaptive_hint.v1', family: 'adaptive_hint', version: 1, assignment: 'condition' };
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(mockJsonResponse(groqStatus))
+      .mockResolvedValueOnce(mockEventStreamResponse([
+        'event: token\ndata: {"text":"Which table?"}\n\n',
+        `event: done\ndata: ${JSON.stringify({ response: 'Which table?', model: 'openai/gpt-oss-20b', provider: 'groq', promptTemplate })}\n\n`,
+      ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { streamWithPromptTemplate } = await import('./llm-client');
+    const result = await streamWithPromptTemplate(
+      { id: 'adaptive_hint', variables: { problem_title: 'Joins' } },
+    );
+
+    expect(result).toMatchObject({ text: 'Which table?', provider: 'groq', promptTemplate });
+    const body = JSON.parse(String((fetchMock.mock.calls[1]?.[1] as RequestInit).body));
+    expect(body).toMatchObject({
+      stream: true,
+      template: { id: 'adaptive_hint', variables: { problem_title: 'Joins' } },
+    });
+    expect(body).not.toHaveProperty('prompt');
+  });
 });
@@ -1,17 +1,20 @@
-import { LLMGenerationParams } from '../../types';
+import { LLMGenerationParams, LLMProvider } from '../../types';
 import { isDemoMode, shouldAttemptLLM } from '../utils/demo-mode';
 import { isBackendConfigured, isHostedMode, getLLMUnavailableError, getApiBaseUrl } from '../runtime-config';
+import { refreshAuthSession, withCsrfHeader } from './csrf-client';
 
 export const OLLAMA_MODEL = 'qwen3:4b';
 export const OLLAMA_FALLBACK_MODEL = 'llama3.2:3b';
 export const GROQ_MODEL = 'openai/gpt-oss-20b';
 
-export type LLMProvider = 'ollama' | 'groq';
+export type { LLMProvider };
 export interface LLMStatus {
   enabled: boolean;
   available: boolean;
   provider?: LLMProvider;
   models: string[];
+  /** Model the backend uses when a request names none */
+  defaultModel?: string;
   message: string;
 }
 
@@ -39,6 +42,35 @@ export type LLMGenerateOptions = {
 };
 export type OllamaGenerateOptions = LLMGenerateOptions;
 
+/**
+ * Reference to a prompt template in the server registry
+ */
+export type PromptTemplateRequest = {
+  /** Family id (resolved per condition) or version id (pinned) */
+  id: string;
+  variables: Record<string, unknown>;
+};
+
+/**
+ * Template version the server rendered, as returned with a generation
+ */
+export type PromptTemplateStamp = {
+  /** Version id, e.g. explanation.v2 */
+  id: string;
+  family: string;
+  version: number;
+  /** How the version was chosen */
+  assignment: 'pinned' | 'condition' | 'default';
+};
+
+/**
+ * Options for streamed LLM generation
+ */
+export type LLMStreamOptions = LLMGenerateOptions & {
+  /** Called as text arrives with the new piece and everything received so far */
+  onToken?: (delta: string, text: string) => void;
+};
+
 /**
  * Health status for LLM service
  */
@@ -67,7 +99,7 @@ export type LLMClientError = Error & {
   /** HTTP status code if applicable */
   status?: number;
   /** Error code category */
-  code: 'NETWORK' | 'TIMEOUT' | 'HTTP' | 'INVALID_RESPONSE' | 'NOT_ENABLED';
+  code: 'NETWORK' | 'TIMEOUT' | 'HTTP' | 'INVALID_RESPONSE' | 'NOT_ENABLED' | 'BUDGET_EXCEEDED';
 };
 export type OllamaClientError = LLMClientError;
 
@@ -96,10 +128,34 @@ function getErrorMessage(error: unknown): string {
   if (clientError.code === 'HTTP') return clientError.message || `HTTP ${clientError.status || 'error'}`;
   if (clientError.code === 'INVALID_RESPONSE') return clientError.message || 'invalid response payload';
   if (clientError.code === 'NOT_ENABLED') return clientError.message || 'LLM not enabled';
+  if (clientError.code === 'BUDGET_EXCEEDED') return clientError.message || 'daily LLM token budget spent';
   const genericMessage = (error as Error)?.message;
   return genericMessage || 'unknown error';
 }
 
+/**
+ * Whether an error means the backend refused generation because a daily
+ * token budget is spent; callers should fall back to deterministic content.
+ */
+export function isBudgetExceededError(error: unknown): boolean {
+  return (error as Partial<LLMClientError>)?.code === 'BUDGET_EXCEEDED';
+}
+
+/**
+ * Build the error for a 429 from /api/llm/generate, keeping the server's
+ * explanation of which budget was spent.
+ */
+async function buildBudgetExceededError(response: Response): Promise<LLMClientError> {
+  let message = 'Daily LLM token budget spent.';
+  try {
+    const payload = await response.json();
+    if (typeof payload?.message === 'string' && payload.message) message = payload.message;
+  } catch {
+    // Keep the generic message
+  }
+  return buildClientError('BUDGET_EXCEEDED', message, response.status);
+}
+
 function compactMessage(message: string): string {
   return message
     .replace(/\s+/g, ' ')
@@ -142,8 +198,26 @@ function canReachBackendProxy(): boolean {
   return isBackendConfigured() || Boolean(import.meta.env.DEV);
 }
 
+/**
+ * Call the backend with the session cookie, refreshing an expired access
+ * token once and retrying, like the storage and profile clients
+ */
+async function fetchBackend(path: string, init: RequestInit): Promise<Response> {
+  const url = `${API_BASE_URL}/api${path}`;
+  const executeRequest = (): Promise<Response> =>
+    fetch(url, { ...withCsrfHeader(init), credentials: 'include' });
+
+  const response = await executeRequest();
+  if (response.status === 401 && (await refreshAuthSession(`${API_BASE_URL}/api/auth/refresh`))) {
+    return executeRequest();
+  }
+  return response;
+}
+
+const LLM_PROVIDERS: readonly LLMProvider[] = ['ollama', 'groq', 'openai-compatible', 'mock'];
+
 function parseProvider(value: unknown): LLMProvider | undefined {
-  return value === 'ollama' || value === 'groq' ? value : undefined;
+  return LLM_PROVIDERS.find((provider) => provider === value);
 }
 
 function getFallbackProvider(): LLMProvider {
@@ -304,7 +378,7 @@ export async function getLLMStatus(): Promise<LLMStatus> {
   }
 
   try {
-    const response = await fetch(`${API_BASE_URL}/api/llm/status`, {
+    const response = await fetchBackend('/llm/status', {
       method: 'GET',
       signal: AbortSignal.timeout(HEALTHCHECK_TIMEOUT_MS),
     });
@@ -339,6 +413,7 @@ export async function getLLMStatus(): Promise<LLMStatus> {
       available: status.available === true,
       provider: parseProvider(status.provider),
       models: Array.isArray(status.models) ? status.models : [],
+      defaultModel: typeof status.defaultModel === 'string' ? status.defaultModel : undefined,
       message: payload.message || status.message || 'LLM status available.',
     };
   } catch (error) {
@@ -354,14 +429,13 @@ export async function getLLMStatus(): Promise<LLMStatus> {
 }
 
 /**
- * Generate text using the configured backend LLM provider via /api/llm/generate.
- * @param prompt - Prompt text to send
- * @param options - Generation options
- * @returns Promise resolving to generated text and metadata
- * @throws LLMClientError on failure
+ * Check that the backend can generate and pick the model and parameters
+ * for a request.
+ * @throws LLMClientError (NOT_ENABLED) when generation is unavailable
  */
-export async function generateWithLLM(prompt: string, options?: LLMGenerateOptions): Promise<{
-  text: string;
+async function resolveGenerationTarget(options?: LLMGenerateOptions): Promise<{
+  /** Undefined for backends this client has no model defaults for */
+  backendProvider?: LLMProvider;
   model: string;
   params: LLMGenerationParams;
 }> {
@@ -380,8 +454,11 @@ export async function generateWithLLM(prompt: string, options?: LLMGenerateOptio
     throw buildClientError('NOT_ENABLED', status.message || 'LLM backend is unavailable.');
   }
 
-  const backendProvider = status.provider ?? getFallbackProvider();
-  const defaultModel = getDefaultModelForProvider(backendProvider);
+  const backendProvider = status.provider ?? (status.defaultModel ? undefined : getFallbackProvider());
+  // OpenAI-compatible and mock backends have no client-side default model
+  const defaultModel = backendProvider === 'ollama' || backendProvider === 'groq'
+    ? getDefaultModelForProvider(backendProvider)
+    : status.defaultModel!;
   const model = options?.model || defaultModel;
 
   const rawParams: LLMGenerationParams = {
@@ -390,8 +467,29 @@ export async function generateWithLLM(prompt: string, options?: LLMGenerateOptio
   };
   const params = validateLLMParams(rawParams);
 
+  return { backendProvider, model, params };
+}
+
+/**
+ * POST a non-streamed generation to /api/llm/generate, retrying with the
+ * Ollama fallback model when the primary one fails.
+ * @param input - Either raw prompt text or a server prompt-template reference
+ */
+async function requestGeneration(
+  input: { prompt: string } | { template: PromptTemplateRequest },
+  options?: LLMGenerateOptions
+): Promise<{
+  text: string;
+  model: string;
+  params: LLMGenerationParams;
+  /** Provider that served the generation, as reported by the backend */
+  provider: LLMProvider;
+  promptTemplate?: PromptTemplateStamp;
+}> {
+  const { backendProvider, model, params } = await resolveGenerationTarget(options);
+
   // Only use Ollama fallback for Ollama provider
-  const candidateModels = backendProvider === 'groq'
+  const candidateModels = backendProvider !== 'ollama'
     ? [model]
     : (model === OLLAMA_FALLBACK_MODEL
         ? [model]
@@ -404,15 +502,16 @@ export async function generateWithLLM(prompt: string, options?: LLMGenerateOptio
     const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api/llm/generate`, {
+      const response = await fetchBackend('/llm/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: candidateModel,
-          prompt,
-          stream: params.stream,
+          ...input,
+          // Streamed responses are read by streamWithLLM
+          stream: false,
           options: {
             temperature: params.temperature,
             top_p: params.top_p
@@ -425,6 +524,9 @@ export async function generateWithLLM(prompt: string, options?: LLMGenerateOptio
         if (response.status === 503) {
           throw buildClientError('NOT_ENABLED', 'LLM is not enabled on the backend.', response.status);
         }
+        if (response.status === 429) {
+          throw await buildBudgetExceededError(response);
+        }
         const body = await response.text();
         throw buildClientError('HTTP', `LLM backend HTTP ${response.status}: ${body}`, response.status);
       }
@@ -438,7 +540,9 @@ export async function generateWithLLM(prompt: string, options?: LLMGenerateOptio
       return {
         text: payload.data.response,
         model: candidateModel,
-        params
+        params,
+        provider: parseProvider(payload.data.provider) ?? backendProvider ?? getFallbackProvider(),
+        ...(payload.data.promptTemplate ? { promptTemplate: payload.data.promptTemplate as PromptTemplateStamp } : {})
       };
     } catch (error) {
       if ((error as Error).name === 'AbortError') {
@@ -449,7 +553,7 @@ export async function generateWithLLM(prompt: string, options?: LLMGenerateOptio
         lastError = buildClientError('NETWORK', (error as Error).message || 'Failed to reach LLM backend.');
       }
 
-      if (lastError.code === 'NOT_ENABLED') {
+      if (lastError.code === 'NOT_ENABLED' || lastError.code === 'BUDGET_EXCEEDED') {
         throw lastError;
       }
 
@@ -469,6 +573,234 @@ export async function generateWithLLM(prompt: string, options?: LLMGenerateOptio
   throw (lastError ?? buildClientError('NETWORK', 'Failed to reach LLM backend.'));
 }
 
+/**
+ * Generate text using the configured backend LLM provider via /api/llm/generate.
+ * @param prompt - Prompt text to send
+ * @param options - Generation options
+ * @returns Promise resolving to generated text and metadata
+ * @throws LLMClientError on failure
+ */
+export async function generateWithLLM(prompt: string, options?: LLMGenerateOptions): Promise<{
+  text: string;
+  model: string;
+  params: LLMGenerationParams;
+}> {
+  const { text, model, params } = await requestGeneration({ prompt }, options);
+  return { text, model, params };
+}
+
+/**
+ * Generate text from a server-side prompt template. Naming a family (e.g.
+ * `explanation`) lets the server pick the version for the condition on the
+ * learner's session; the version it used is returned as `promptTemplate`.
+ * @param template - Template id and its variables
+ * @param options - Generation options
+ * @returns Promise resolving to generated text, metadata and template version
+ * @throws LLMClientError on failure
+ */
+export async function generateWithPromptTemplate(
+  template: PromptTemplateRequest,
+  options?: LLMGenerateOptions
+): Promise<{
+  text: string;
+  model: string;
+  params: LLMGenerationParams;
+  provider: LLMProvider;
+  promptTemplate?: PromptTemplateStamp;
+}> {
+  return requestGeneration({ template }, options);
+}
+
+/**
+ * Split a server-sent event stream into its events.
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary >= 0) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Stream a generation from /api/llm/generate, falling back to a regular
+ * request when the stream fails before any text arrived.
+ * @param input - Either raw prompt text or a server prompt-template reference
+ */
+async function requestStreamedGeneration(
+  input: { prompt: string } | { template: PromptTemplateRequest },
+  options?: LLMStreamOptions
+): Promise<{
+  text: string;
+  model: string;
+  params: LLMGenerationParams;
+  provider: LLMProvider;
+  promptTemplate?: PromptTemplateStamp;
+}> {
+  const { backendProvider, model, params } = await resolveGenerationTarget(options);
+  const onToken = options?.onToken;
+  const readProvider = (value: unknown): LLMProvider =>
+    parseProvider(value) ?? backendProvider ?? getFallbackProvider();
+  const readPromptTemplate = (value: unknown) =>
+    value ? { promptTemplate: value as PromptTemplateStamp } : {};
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), params.timeoutMs);
+  let text = '';
+
+  try {
+    const response = await fetchBackend('/llm/generate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream'
+      },
+      body: JSON.stringify({
+        model,
+        ...input,
+        stream: true,
+        options: {
+          temperature: params.temperature,
+          top_p: params.top_p
+        }
+      }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      if (response.status === 503) {
+        throw buildClientError('NOT_ENABLED', 'LLM is not enabled on the backend.', response.status);
+      }
+      if (response.status === 429) {
+        throw await buildBudgetExceededError(response);
+      }
+      const body = await response.text();
+      throw buildClientError('HTTP', `LLM backend HTTP ${response.status}: ${body}`, response.status);
+    }
+
+    const contentType = response.headers?.get('content-type') || '';
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      // Backends without streaming support answer with the usual JSON payload
+      const payload = await response.json();
+      if (!payload.success || !payload.data || typeof payload.data.response !== 'string') {
+        throw buildClientError('INVALID_RESPONSE', 'LLM backend returned an unexpected response payload.');
+      }
+      onToken?.(payload.data.response, payload.data.response);
+      return {
+        text: payload.data.response,
+        model,
+        params,
+        provider: readProvider(payload.data.provider),
+        ...readPromptTemplate(payload.data.promptTemplate)
+      };
+    }
+
+    for await (const event of readServerSentEvents(response.body)) {
+      const data = JSON.parse(event.data);
+      if (event.event === 'token' && typeof data.text === 'string') {
+        text += data.text;
+        onToken?.(data.text, text);
+      } else if (event.event === 'done') {
+        return {
+          text: typeof data.response === 'string' ? data.response : text,
+          model: typeof data.model === 'string' ? data.model : model,
+          params,
+          provider: readProvider(data.provider),
+          ...readPromptTemplate(data.promptTemplate)
+        };
+      } else if (event.event === 'error') {
+        throw buildClientError('HTTP', `LLM backend stream failed: ${data.message || data.error || 'unknown error'}`);
+      }
+    }
+
+    throw buildClientError('INVALID_RESPONSE', 'LLM stream ended before generation finished.');
+  } catch (error) {
+    let clientError: LLMClientError;
+    if ((error as Error).name === 'AbortError') {
+      clientError = buildClientError('TIMEOUT', `LLM request timed out after ${params.timeoutMs}ms.`);
+    } else if ((error as LLMClientError).code) {
+      clientError = error as LLMClientError;
+    } else {
+      clientError = buildClientError('NETWORK', (error as Error).message || 'Failed to reach LLM backend.');
+    }
+
+    // Nothing shown yet: a regular request can still use the Ollama fallback model
+    if (
+      !text
+      && clientError.code !== 'NOT_ENABLED'
+      && clientError.code !== 'TIMEOUT'
+      && clientError.code !== 'BUDGET_EXCEEDED'
+    ) {
+      return requestGeneration(input, options);
+    }
+    throw clientError;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Generate text like generateWithLLM, but stream it from /api/llm/generate so
+ * callers can render it while the model is still writing.
+ * @param prompt - Prompt text to send
+ * @param options - Generation options and the onToken callback
+ * @returns Promise resolving to the complete text and metadata
+ * @throws LLMClientError on failure
+ */
+export async function streamWithLLM(prompt: string, options?: LLMStreamOptions): Promise<{
+  text: string;
+  model: string;
+  params: LLMGenerationParams;
+}> {
+  const { text, model, params } = await requestStreamedGeneration({ prompt }, options);
+  return { text, model, params };
+}
+
+/**
+ * Stream text rendered from a server-side prompt template, as
+ * generateWithPromptTemplate does for regular requests.
+ * @param template - Template id and its variables
+ * @param options - Generation options and the onToken callback
+ * @returns Promise resolving to the complete text, metadata and template version
+ * @throws LLMClientError on failure
+ */
+export async function streamWithPromptTemplate(
+  template: PromptTemplateRequest,
+  options?: LLMStreamOptions
+): Promise<{
+  text: string;
+  model: string;
+  params: LLMGenerationParams;
+  provider: LLMProvider;
+  promptTemplate?: PromptTemplateStamp;
+}> {
+  return requestStreamedGeneration({ template }, options);
+}
+
 /**
  * @deprecated Use generateWithLLM for new code.
  */
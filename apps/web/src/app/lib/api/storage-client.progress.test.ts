@@ -5,6 +5,7 @@ vi.mock('./csrf-client', () => ({
   getCsrfHeaders: () => ({}),
   isMutatingMethod: (method?: string) => method === 'POST' || method === 'PUT' || method === 'PATCH' || method === 'DELETE',
   refreshCsrfTokenFromAuthMe: vi.fn(async () => true),
+  refreshAuthSession: vi.fn(async () => false),
 }));
 
 describe('storage-client progress persistence', () => {
@@ -10,11 +10,18 @@ import type {
   InstructionalUnit,
   LearnerProfile,
   ConceptCoverageEvidence,
+  SQLDialect,
+  SQLGradingMode,
+  SQLHiddenDataset,
+  SQLProblem,
+  SQLProblemTopic,
+  SQLStateVerification,
 } from '@/app/types';
 import {
   withCsrfHeader,
   isMutatingMethod,
   refreshCsrfTokenFromAuthMe,
+  refreshAuthSession,
   getCsrfHeaders,
 } from './csrf-client';
 import { isResearchSafe, getResearchRuntimeMode, getApiBaseUrl } from '../runtime-config';
@@ -169,6 +176,7 @@ interface BackendInteraction {
   policyVersion?: string;
   timeSpent?: number;
   successful?: boolean;
+  resultSimilarity?: number;
   ruleFired?: string;
   templateId?: string;
   inputHash?: string;
@@ -391,6 +399,203 @@ export interface InstructorAnalyticsInteractions {
   hasMore: boolean;
 }
 
+/** Instructor-authored problem as stored by the problem bank API */
+export interface AuthoredProblem {
+  id: string;
+  authorUserId: string;
+  title: string;
+  description: string;
+  difficulty: SQLProblem['difficulty'];
+  concepts: string[];
+  topic: SQLProblemTopic;
+  topicDifficultyLevel: number;
+  schema: string;
+  expectedQuery: string;
+  expectedResult: Record<string, unknown>[] | null;
+  gradingMode: SQLGradingMode | null;
+  stateVerification: SQLStateVerification | null;
+  hiddenDatasets: SQLHiddenDataset[];
+  dialect: SQLDialect;
+  hints: string[];
+  status: 'draft' | 'published';
+  sectionIds: string[];
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AuthoredProblemInput = Pick<
+  AuthoredProblem,
+  'title' | 'description' | 'difficulty' | 'concepts' | 'topic' | 'topicDifficultyLevel' |
+  'schema' | 'expectedQuery' | 'expectedResult' | 'dialect' | 'hints'
+> & {
+  gradingMode?: SQLGradingMode | null;
+  stateVerification?: SQLStateVerification | null;
+  hiddenDatasets?: SQLHiddenDataset[];
+};
+
+export interface Assignment {
+  id: string;
+  sectionId: string;
+  createdByUserId: string;
+  title: string;
+  description: string;
+  problemIds: string[];
+  opensAt: string;
+  dueAt: string;
+  /** Runs allowed per problem; null means unlimited */
+  maxAttempts: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssignmentInput = Pick<Assignment, 'title' | 'description' | 'problemIds' | 'opensAt' | 'dueAt' | 'maxAttempts'>;
+
+/** An assignment as a learner sees it, with their own progress per problem */
+export interface LearnerAssignment extends Assignment {
+  progress: Array<{ problemId: string; attempts: number; solved: boolean }>;
+}
+
+export interface AssignmentStudentReport {
+  learnerId: string;
+  name: string | null;
+  solvedCount: number;
+  completed: boolean;
+  completedAt: string | null;
+  attempts: number;
+  lateAttempts: number;
+  lateSolvedCount: number;
+  timeOnTaskMs: number;
+  lastAttemptAt: string | null;
+  overLimitProblemIds: string[];
+}
+
+export interface AssignmentReport {
+  assignment: Assignment;
+  summary: {
+    studentCount: number;
+    completedCount: number;
+    completionRate: number;
+    lateStudentCount: number;
+    averageTimeOnTaskMs: number;
+  };
+  problems: Array<{
+    problemId: string;
+    attemptedCount: number;
+    solvedCount: number;
+    lateSolvedCount: number;
+    averageAttempts: number;
+  }>;
+  students: AssignmentStudentReport[];
+}
+
+export type GradebookCsvFormat = 'canvas' | 'moodle';
+
+export interface Gradebook {
+  section: { id: string; name: string };
+  generatedAt: string;
+  columns: Array<{ assignmentId: string; title: string; dueAt: string; pointsPossible: number }>;
+  rows: Array<{
+    learnerId: string;
+    name: string;
+    email: string | null;
+    practiceSolved: number;
+    practiceAttempted: number;
+    scores: Record<string, { points: number; lateSolved: number; attempted: boolean }>;
+  }>;
+}
+
+export interface LLMUsageTotals {
+  requests: number;
+  cacheHits: number;
+  budgetFallbacks: number;
+  inputTokens: number;
+  outputTokens: number;
+  tokens: number;
+}
+
+export interface LLMUsageReport {
+  section: { id: string; name: string };
+  generatedAt: string;
+  from: string;
+  to: string;
+  /** Daily token budgets; 0 means unlimited */
+  budgets: { learnerDaily: number; sectionDaily: number };
+  totals: LLMUsageTotals;
+  days: Array<LLMUsageTotals & { date: string }>;
+  learners: Array<LLMUsageTotals & { learnerId: string; name: string; email: string | null; todayTokens: number }>;
+}
+
+export interface LtiStatus {
+  configured: boolean;
+  platforms: string[];
+  loginUrl: string;
+  launchUrl: string;
+  jwksUrl: string;
+  linkedAssignmentIds: string[];
+}
+
+export interface LtiGradeSyncResult {
+  assignmentId: string;
+  links: Array<{
+    resourceLinkId: string;
+    lineItemUrl: string | null;
+    posted: number;
+    failed: number;
+    unlinkedStudents: number;
+    error: string | null;
+  }>;
+}
+
+export type SectionStaffRole = 'co_instructor' | 'ta';
+
+export interface SectionStaffMember {
+  sectionId: string;
+  userId: string;
+  name: string;
+  email: string | null;
+  staffRole: SectionStaffRole;
+  addedByUserId: string | null;
+  createdAt: string;
+}
+
+export interface SectionStudent {
+  learnerId: string;
+  name: string;
+  email: string | null;
+  externalStudentId: string | null;
+  /** Imported from a roster and not yet activated by the student */
+  pendingActivation: boolean;
+  joinedAt: string;
+}
+
+export type RosterImportOutcome =
+  | 'created'
+  | 'enrolled'
+  | 'already_enrolled'
+  | 'duplicate'
+  | 'conflict'
+  | 'invalid'
+  | 'failed';
+
+export interface RosterImportRow {
+  line: number;
+  name: string;
+  email: string;
+  studentId: string | null;
+  outcome: RosterImportOutcome;
+  reason?: string;
+  learnerId?: string;
+  activationEmailSent?: boolean;
+}
+
+export interface RosterImportResult {
+  sectionId: string;
+  dryRun: boolean;
+  summary: Record<RosterImportOutcome, number>;
+  rows: RosterImportRow[];
+}
+
 export interface RemoteCorpusDocument {
   docId: string;
   title: string;
@@ -487,6 +692,14 @@ async function fetchApi<T>(
   try {
     const mutating = isMutatingMethod(options.method);
     let response = await executeRequest(withCsrfHeader(options));
+
+    // Access tokens are short-lived; trade the refresh cookie for a new one and retry once
+    if (response.status === 401 && !endpoint.startsWith('/auth/')) {
+      const refreshed = await refreshAuthSession(`${API_URL}/auth/refresh`);
+      if (refreshed) {
+        response = await executeRequest(withCsrfHeader(options));
+      }
+    }
     let errorData = await response.json().catch(() => ({} as { error?: string; message?: string }));
 
     // CSRF cookie/token can drift after auth state checks; refresh once and retry.
@@ -832,6 +1045,7 @@ function convertToBackendInteraction(event: InteractionEvent): Partial<BackendIn
     policyVersion: event.policyVersion,
     timeSpent: event.timeSpent,
     successful: event.successful,
+    resultSimilarity: event.resultSimilarity,
     ruleFired: event.ruleFired,
     templateId: event.templateId,
     inputHash: event.inputHash,
@@ -1083,6 +1297,7 @@ function convertToFrontendEvent(i: BackendInteraction): InteractionEvent {
     policyVersion: i.policyVersion,
     timeSpent: i.timeSpent,
     successful: i.successful,
+    resultSimilarity: i.resultSimilarity,
     ruleFired: i.ruleFired,
     templateId: i.templateId,
     inputHash: i.inputHash,
@@ -1643,6 +1858,316 @@ export async function setCorpusActiveRun(
   return response.data.activeRun;
 }
 
+// ============================================================================
+// Problem Bank API
+// ============================================================================
+
+export async function getInstructorProblems(): Promise<AuthoredProblem[]> {
+  const response = await fetchApi<AuthoredProblem[]>('/instructor/problems');
+  if (!response.success || !response.data) return [];
+  return response.data;
+}
+
+export async function createInstructorProblem(input: AuthoredProblemInput): Promise<AuthoredProblem | null> {
+  const response = await fetchApi<AuthoredProblem>('/instructor/problems', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+export async function updateInstructorProblem(
+  problemId: string,
+  input: Partial<AuthoredProblemInput>
+): Promise<AuthoredProblem | null> {
+  const response = await fetchApi<AuthoredProblem>(`/instructor/problems/${encodeURIComponent(problemId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(input),
+  });
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+export async function deleteInstructorProblem(problemId: string): Promise<boolean> {
+  const response = await fetchApi<never>(`/instructor/problems/${encodeURIComponent(problemId)}`, {
+    method: 'DELETE',
+  });
+  return response.success;
+}
+
+/**
+ * Publish a problem to the given sections; an empty list unpublishes it.
+ */
+export async function publishInstructorProblem(
+  problemId: string,
+  sectionIds: string[]
+): Promise<AuthoredProblem | null> {
+  const id = encodeURIComponent(problemId);
+  const response = sectionIds.length > 0
+    ? await fetchApi<AuthoredProblem>(`/instructor/problems/${id}/publish`, {
+        method: 'POST',
+        body: JSON.stringify({ sectionIds }),
+      })
+    : await fetchApi<AuthoredProblem>(`/instructor/problems/${id}/unpublish`, { method: 'POST' });
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+/**
+ * Problems published to the signed-in learner's section
+ */
+export async function getPublishedProblems(): Promise<AuthoredProblem[]> {
+  const response = await fetchApi<AuthoredProblem[]>('/problems');
+  if (!response.success || !response.data) return [];
+  return response.data;
+}
+
+// ============================================================================
+// Assignments API
+// ============================================================================
+
+export async function getInstructorAssignments(): Promise<Assignment[]> {
+  const response = await fetchApi<Assignment[]>('/instructor/assignments');
+  if (!response.success || !response.data) return [];
+  return response.data;
+}
+
+export async function createInstructorAssignment(
+  sectionId: string,
+  input: AssignmentInput
+): Promise<Assignment | null> {
+  const response = await fetchApi<Assignment>('/instructor/assignments', {
+    method: 'POST',
+    body: JSON.stringify({ sectionId, ...input }),
+  });
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+export async function updateInstructorAssignment(
+  assignmentId: string,
+  input: Partial<AssignmentInput>
+): Promise<Assignment | null> {
+  const response = await fetchApi<Assignment>(`/instructor/assignments/${encodeURIComponent(assignmentId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(input),
+  });
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+export async function deleteInstructorAssignment(assignmentId: string): Promise<boolean> {
+  const response = await fetchApi<never>(`/instructor/assignments/${encodeURIComponent(assignmentId)}`, {
+    method: 'DELETE',
+  });
+  return response.success;
+}
+
+export async function getAssignmentReport(assignmentId: string): Promise<AssignmentReport | null> {
+  const response = await fetchApi<AssignmentReport>(
+    `/instructor/assignments/${encodeURIComponent(assignmentId)}/report`
+  );
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+/**
+ * Assignments released to the signed-in learner's section, with their progress
+ */
+export async function getMyAssignments(): Promise<LearnerAssignment[]> {
+  const response = await fetchApi<LearnerAssignment[]>('/assignments');
+  if (!response.success || !response.data) return [];
+  return response.data;
+}
+
+// ============================================================================
+// Gradebook and LTI API
+// ============================================================================
+
+export async function getGradebook(sectionId: string): Promise<Gradebook | null> {
+  const response = await fetchApi<Gradebook>(`/instructor/gradebook?sectionId=${encodeURIComponent(sectionId)}`);
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+/**
+ * Gradebook CSV for an LMS import. Returned as text (not the JSON envelope)
+ * along with the server's suggested filename.
+ */
+export async function getGradebookCsv(
+  sectionId: string,
+  format: GradebookCsvFormat
+): Promise<{ filename: string; csv: string } | null> {
+  const query = new URLSearchParams({ sectionId, format }).toString();
+  try {
+    const response = await fetch(`${API_URL}/instructor/gradebook/export?${query}`, {
+      credentials: 'include',
+    });
+    if (!response.ok) return null;
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `gradebook-${format}.csv`;
+    return { filename, csv: await response.text() };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// LLM Usage API
+// ============================================================================
+
+/**
+ * A section's LLM token use, cache hits and budget refusals over the last days
+ */
+export async function getLLMUsageReport(sectionId: string, days = 7): Promise<LLMUsageReport | null> {
+  const query = new URLSearchParams({ sectionId, days: String(days) }).toString();
+  const response = await fetchApi<LLMUsageReport>(`/instructor/llm-usage?${query}`);
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+export async function getLtiStatus(): Promise<LtiStatus | null> {
+  const response = await fetchApi<LtiStatus>('/instructor/lti/status');
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+/**
+ * Send an LMS-linked assignment's scores to the LMS gradebook (LTI AGS)
+ */
+export async function syncAssignmentGrades(assignmentId: string): Promise<LtiGradeSyncResult | null> {
+  const response = await fetchApi<LtiGradeSyncResult>(
+    `/instructor/lti/assignments/${encodeURIComponent(assignmentId)}/sync`,
+    { method: 'POST' }
+  );
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+// ============================================================================
+// Section Staff API
+// ============================================================================
+
+export async function getSectionStaff(sectionId: string): Promise<SectionStaffMember[]> {
+  const response = await fetchApi<SectionStaffMember[]>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/staff`
+  );
+  if (!response.success || !response.data) return [];
+  return response.data;
+}
+
+/**
+ * Add a co-instructor or TA to a section by account email. Returns the
+ * updated staff list, or the server's error message.
+ */
+export async function addSectionStaff(
+  sectionId: string,
+  email: string,
+  role: SectionStaffRole
+): Promise<{ staff: SectionStaffMember[] } | { error: string }> {
+  const response = await fetchApi<SectionStaffMember[]>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/staff`,
+    { method: 'POST', body: JSON.stringify({ email, role }) }
+  );
+  if (!response.success || !response.data) {
+    return { error: response.error ?? 'Could not add staff member' };
+  }
+  return { staff: response.data };
+}
+
+export async function removeSectionStaff(sectionId: string, userId: string): Promise<SectionStaffMember[] | null> {
+  const response = await fetchApi<SectionStaffMember[]>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/staff/${encodeURIComponent(userId)}`,
+    { method: 'DELETE' }
+  );
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+// ============================================================================
+// Section Roster API
+// ============================================================================
+
+export async function getSectionStudents(sectionId: string): Promise<SectionStudent[]> {
+  const response = await fetchApi<SectionStudent[]>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/roster`
+  );
+  if (!response.success || !response.data) return [];
+  return response.data;
+}
+
+/**
+ * Upload a CSV roster (name, email, student ID). With dryRun the server
+ * reports what would happen without creating or enrolling anyone.
+ */
+export async function importSectionRoster(
+  sectionId: string,
+  csv: string,
+  options: { dryRun?: boolean; sendActivationEmails?: boolean } = {}
+): Promise<RosterImportResult | { error: string }> {
+  const response = await fetchApi<RosterImportResult>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/roster/import`,
+    { method: 'POST', body: JSON.stringify({ csv, ...options }) }
+  );
+  if (!response.success || !response.data) {
+    return { error: response.message ?? response.error ?? 'Could not import roster' };
+  }
+  return response.data;
+}
+
+export async function resendRosterActivation(sectionId: string, learnerId: string): Promise<{ error?: string }> {
+  const response = await fetchApi<{ email: string }>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/roster/${encodeURIComponent(learnerId)}/activation`,
+    { method: 'POST' }
+  );
+  return response.success ? {} : { error: response.error ?? 'Could not resend the activation email' };
+}
+
+/**
+ * Move a student to another section. Returns the source section's updated roster.
+ */
+export async function moveSectionStudent(
+  sectionId: string,
+  learnerId: string,
+  targetSectionId: string
+): Promise<{ students: SectionStudent[] } | { error: string }> {
+  const response = await fetchApi<SectionStudent[]>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/roster/${encodeURIComponent(learnerId)}/move`,
+    { method: 'POST', body: JSON.stringify({ targetSectionId }) }
+  );
+  if (!response.success || !response.data) {
+    return { error: response.error ?? 'Could not move student' };
+  }
+  return { students: response.data };
+}
+
+export async function removeSectionStudent(sectionId: string, learnerId: string): Promise<SectionStudent[] | null> {
+  const response = await fetchApi<SectionStudent[]>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/roster/${encodeURIComponent(learnerId)}`,
+    { method: 'DELETE' }
+  );
+  if (!response.success || !response.data) return null;
+  return response.data;
+}
+
+/**
+ * Sign a student out of every device. Returns how many sessions were ended.
+ */
+export async function revokeStudentSessions(
+  sectionId: string,
+  learnerId: string
+): Promise<{ revoked: number } | { error: string }> {
+  const response = await fetchApi<{ revoked: number }>(
+    `/instructor/sections/${encodeURIComponent(sectionId)}/roster/${encodeURIComponent(learnerId)}/sessions/revoke`,
+    { method: 'POST' }
+  );
+  if (!response.success || !response.data) {
+    return { error: response.error ?? 'Could not sign the student out' };
+  }
+  return response.data;
+}
+
 // ============================================================================
 // Problem Progress API
 // ============================================================================
@@ -1712,6 +2237,37 @@ export const storageClient = {
   getProblemProgress,
   getAllProblemProgress,
   updateProblemProgress,
+  // Problem bank
+  getInstructorProblems,
+  createInstructorProblem,
+  updateInstructorProblem,
+  deleteInstructorProblem,
+  publishInstructorProblem,
+  getPublishedProblems,
+  // Assignments
+  getInstructorAssignments,
+  createInstructorAssignment,
+  updateInstructorAssignment,
+  deleteInstructorAssignment,
+  getAssignmentReport,
+  getMyAssignments,
+  // Gradebook and LTI
+  getGradebook,
+  getGradebookCsv,
+  getLLMUsageReport,
+  getLtiStatus,
+  syncAssignmentGrades,
+  // Section staff
+  getSectionStaff,
+  addSectionStaff,
+  removeSectionStaff,
+  // Section roster
+  getSectionStudents,
+  importSectionRoster,
+  resendRosterActivation,
+  moveSectionStudent,
+  removeSectionStudent,
+  revokeStudentSessions,
   // Interactions
   logInteraction,
   logInteractionsBatch,
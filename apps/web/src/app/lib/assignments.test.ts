@@ -0,0 +1,110 @@
+/**
+ * Unit tests for assignment helpers
+ *
+ * These tests verify:
+ * - Status follows the open and due dates
+ * - Assignment problems resolve in assignment order, skipping unknown ids
+ * - Attempts combine server progress and unsynced local runs without double counting
+ * - Attempts remaining is null without a limit and never negative
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countAssignmentAttempts,
+  formatDuration,
+  getAssignmentStatus,
+  getAttemptsRemaining,
+  resolveAssignmentProblems,
+} from './assignments';
+import { sqlProblems } from '../data/problems';
+import type { LearnerAssignment } from './api/storage-client';
+import type { InteractionEvent } from '../types';
+
+const OPENS_AT = '2026-03-01T09:00:00.000Z';
+const DUE_AT = '2026-03-08T09:00:00.000Z';
+
+function makeAssignment(overrides: Partial<LearnerAssignment> = {}): LearnerAssignment {
+  return {
+    id: 'assignment-1',
+    sectionId: 'section-1',
+    createdByUserId: 'instructor-1',
+    title: 'Week 1',
+    description: '',
+    problemIds: ['problem-2', 'problem-1'],
+    opensAt: OPENS_AT,
+    dueAt: DUE_AT,
+    maxAttempts: 3,
+    createdAt: OPENS_AT,
+    updatedAt: OPENS_AT,
+    progress: [],
+    ...overrides,
+  };
+}
+
+function makeRun(problemId: string, timestamp: number, eventType: InteractionEvent['eventType'] = 'execution'): InteractionEvent {
+  return {
+    id: `event-${problemId}-${timestamp}`,
+    learnerId: 'learner-1',
+    timestamp,
+    eventType,
+    problemId,
+  };
+}
+
+describe('getAssignmentStatus', () => {
+  it('is upcoming before opening, open until due and past-due after', () => {
+    const assignment = makeAssignment();
+    expect(getAssignmentStatus(assignment, Date.parse(OPENS_AT) - 1)).toBe('upcoming');
+    expect(getAssignmentStatus(assignment, Date.parse(DUE_AT))).toBe('open');
+    expect(getAssignmentStatus(assignment, Date.parse(DUE_AT) + 1)).toBe('past-due');
+  });
+});
+
+describe('resolveAssignmentProblems', () => {
+  it('keeps assignment order and skips unknown ids', () => {
+    const problems = resolveAssignmentProblems(
+      makeAssignment({ problemIds: ['problem-2', 'deleted-problem', 'problem-1'] }),
+      sqlProblems
+    );
+    expect(problems.map(problem => problem.id)).toEqual(['problem-2', 'problem-1']);
+  });
+});
+
+describe('attempt counting', () => {
+  const opensAt = Date.parse(OPENS_AT);
+
+  it('counts only runs on the problem since the assignment opened', () => {
+    const interactions = [
+      makeRun('problem-1', opensAt - 1000),
+      makeRun('problem-1', opensAt + 1000),
+      makeRun('problem-1', opensAt + 2000, 'error'),
+      makeRun('problem-1', opensAt + 3000, 'hint_request'),
+      makeRun('problem-2', opensAt + 4000),
+    ];
+    expect(countAssignmentAttempts(makeAssignment(), 'problem-1', interactions)).toBe(2);
+  });
+
+  it('takes the larger of server and local counts', () => {
+    const assignment = makeAssignment({ progress: [{ problemId: 'problem-1', attempts: 2, solved: false }] });
+    expect(countAssignmentAttempts(assignment, 'problem-1', [makeRun('problem-1', opensAt + 1000)])).toBe(2);
+    expect(countAssignmentAttempts(assignment, 'problem-1', [
+      makeRun('problem-1', opensAt + 1000),
+      makeRun('problem-1', opensAt + 2000),
+      makeRun('problem-1', opensAt + 3000),
+    ])).toBe(3);
+  });
+
+  it('reports remaining attempts, floored at zero, or null without a limit', () => {
+    const assignment = makeAssignment({ progress: [{ problemId: 'problem-1', attempts: 5, solved: false }] });
+    expect(getAttemptsRemaining(assignment, 'problem-1', [])).toBe(0);
+    expect(getAttemptsRemaining(assignment, 'problem-2', [])).toBe(3);
+    expect(getAttemptsRemaining(makeAssignment({ maxAttempts: null }), 'problem-1', [])).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and hours', () => {
+    expect(formatDuration(5 * 60_000)).toBe('5m');
+    expect(formatDuration(125 * 60_000)).toBe('2h 5m');
+  });
+});
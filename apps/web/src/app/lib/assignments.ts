@@ -0,0 +1,68 @@
+/**
+ * Assignments — helpers shared by the instructor assignment panel and the
+ * learner's assignment view in the practice page.
+ */
+
+import type { InteractionEvent, SQLProblem } from '../types';
+import type { Assignment, LearnerAssignment } from './api/storage-client';
+
+export type AssignmentStatus = 'upcoming' | 'open' | 'past-due';
+
+export function getAssignmentStatus(assignment: Pick<Assignment, 'opensAt' | 'dueAt'>, now = Date.now()): AssignmentStatus {
+  if (now < Date.parse(assignment.opensAt)) return 'upcoming';
+  return now > Date.parse(assignment.dueAt) ? 'past-due' : 'open';
+}
+
+/**
+ * The assignment's problems in assignment order. Ids missing from the
+ * catalog (e.g. an authored problem that was deleted) are skipped.
+ */
+export function resolveAssignmentProblems(assignment: Pick<Assignment, 'problemIds'>, catalog: SQLProblem[]): SQLProblem[] {
+  const byId = new Map(catalog.map(problem => [problem.id, problem]));
+  return assignment.problemIds
+    .map(id => byId.get(id))
+    .filter((problem): problem is SQLProblem => problem !== undefined);
+}
+
+/**
+ * Runs counted against an assignment's attempt limit. The server count covers
+ * other devices; local interactions cover runs not yet synced. Taking the
+ * larger of the two avoids double counting runs present in both.
+ */
+export function countAssignmentAttempts(
+  assignment: LearnerAssignment,
+  problemId: string,
+  localInteractions: InteractionEvent[]
+): number {
+  const opensAt = Date.parse(assignment.opensAt);
+  const serverAttempts = assignment.progress.find(item => item.problemId === problemId)?.attempts ?? 0;
+  const localAttempts = localInteractions.filter(interaction =>
+    interaction.problemId === problemId &&
+    (interaction.eventType === 'execution' || interaction.eventType === 'error') &&
+    interaction.timestamp >= opensAt
+  ).length;
+  return Math.max(serverAttempts, localAttempts);
+}
+
+/** Attempts left on a problem, or null when the assignment has no limit */
+export function getAttemptsRemaining(
+  assignment: LearnerAssignment,
+  problemId: string,
+  localInteractions: InteractionEvent[]
+): number | null {
+  if (assignment.maxAttempts === null) return null;
+  return Math.max(0, assignment.maxAttempts - countAssignmentAttempts(assignment, problemId, localInteractions));
+}
+
+/** datetime-local input value (local time, minute precision) for an ISO timestamp */
+export function toDateTimeLocalValue(iso: string): string {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -45,6 +45,7 @@ interface AuthContextValue {
     role: 'student' | 'instructor';
     classCode?: string;
     instructorCode?: string;
+    researchConsent?: boolean;
   }) => Promise<AuthResult>;
 }
 
@@ -227,6 +228,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     role: 'student' | 'instructor';
     classCode?: string;
     instructorCode?: string;
+    researchConsent?: boolean;
   }): Promise<AuthResult> => {
     const result = await apiSignup(params);
     if (result.success && result.user) {
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RetrievalBundle } from './retrieval-bundle';
+
+const mocks = vi.hoisted(() => ({
+  generateWithPromptTemplate: vi.fn(),
+}));
+
+vi.mock('../api/llm-client', () => ({
+  generateWithPromptTemplate: mocks.generateWithPromptTemplate,
+  isBudgetExceededError: () => false,
+}));
+
+vi.mock('../storage/textbook-units', () => ({
+  calculateQualityScore: () => 0.8,
+}));
+
+vi.mock('./content-assembler', () => ({
+  assembleTextbookUnitDeterministic: vi.fn(),
+  shouldAttemptLLM: () => true,
+}));
+
+const expectedQuery = 'SELECT name, email FROM users WHERE age > 30 ORDER BY name;';
+const expectedResult = [
+  { name: 'Alice', email: 'alice@example.com' },
+  { name: 'Bruno', email: 'bruno@example.com' },
+  { name: 'Chen', email: 'chen@example.com' },
+];
+
+const bundle: RetrievalBundle = {
+  learnerId: 'learner-1',
+  problemId: 'problem-1',
+  problemTitle: 'Older users',
+  schemaText: 'CREATE TABLE users (id INTEGER, name TEXT, email TEXT, age INTEGER);',
+  lastErrorSubtypeId: 'incorrect results',
+  hintHistory: [],
+  conceptCandidates: [{ id: 'where-clause', name: 'WHERE', description: 'Filtering rows' }],
+  recentInteractionsSummary: { errors: 2, retries: 1, timeSpent: 1000, hintCount: 0 },
+  retrievedSourceIds: ['sql-engage:where-clause'],
+  triggerInteractionIds: ['exec-1'],
+  pdfPassages: [],
+  pdfIndexProvenance: null,
+  sourcePassages: [],
+  whyRetrieved: {
+    trigger: 'error_subtype_match',
+    errorSubtypeId: 'incorrect results',
+    conceptIds: ['where-clause'],
+    traceEvidence: {
+      errorCount: 2,
+      retryCount: 1,
+      hintCount: 0,
+      timeSpentMs: 1000,
+      lastInteractionTypes: ['execution'],
+    },
+  },
+  conceptSourceRefs: [],
+};
+
+function unitResponse(contentMarkdown: string) {
+  return {
+    text: JSON.stringify({
+      title: 'Filtering rows',
+      content_markdown: contentMarkdown,
+      key_points: ['WHERE keeps the rows whose condition is true'],
+      common_pitfall: 'Filtering on the wrong column.',
+      next_steps: ['Which column holds the age?'],
+      source_ids: ['sql-engage:where-clause'],
+    }),
+    model: 'qwen2.5-7b-instruct',
+    provider: 'openai-compatible',
+    params: { temperature: 0, top_p: 1, stream: false, timeoutMs: 25000 },
+    promptTemplate: { id: 'explanation.v1', family: 'explanation', version: 1, assignment: 'default' },
+  };
+}
+
+const resultMarkdown =
+  'The rows you should get back are Alice (alice@example.com), Bruno (bruno@example.com) and Chen (chen@example.com).';
+
+const leakingMarkdown =
+  'A WHERE clause keeps only the rows that satisfy a condition, and ORDER BY sorts what remains. ' +
+  `Here is the full query:\n\n\`${expectedQuery}\``;
+
+async function generate(leak = true) {
+  const { generateUnitFromLLM } = await import('./content-generator');
+  return generateUnitFromLLM({
+    learnerId: 'learner-1',
+    templateId: 'explanation.v1',
+    bundle,
+    triggerInteractionIds: ['exec-1'],
+    conditionId: 'adaptive',
+    ...(leak ? { leakContext: { expectedQuery, expectedResult } } : {}),
+  });
+}
+
+describe('generated unit answer-leak check', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Units are cached by input; every case starts cold
+    localStorage.clear();
+  });
+
+  it('redacts the solution query when enough explanation remains', async () => {
+    mocks.generateWithPromptTemplate.mockResolvedValueOnce(unitResponse(leakingMarkdown));
+
+    const result = await generate();
+
+    expect(mocks.generateWithPromptTemplate).toHaveBeenCalledTimes(1);
+    expect(result.unit.content).not.toContain('age > 30');
+    expect(result.unit.content).toContain('SELECT ___');
+    expect(result.usedFallback).toBe(false);
+    expect(result.fallbackReason).toBe('expected_query_leak_redacted');
+    expect(result.unit.provenance?.fallbackReason).toBe('expected_query_leak_redacted');
+    expect(result.unit.provenance?.provider).toBe('openai-compatible');
+  });
+
+  it('regenerates with a revision note when the unit quotes the expected result', async () => {
+    mocks.generateWithPromptTemplate
+      .mockResolvedValueOnce(unitResponse(resultMarkdown))
+      .mockResolvedValueOnce(unitResponse(
+        'A WHERE clause keeps only the rows whose condition is true. Compare the column you filter on with what the problem asks for.'
+      ));
+
+    const result = await generate();
+
+    expect(mocks.generateWithPromptTemplate).toHaveBeenCalledTimes(2);
+    const retryVariables = mocks.generateWithPromptTemplate.mock.calls[1][0].variables;
+    expect(retryVariables.revision).toContain('REVISION');
+    expect(mocks.generateWithPromptTemplate.mock.calls[0][0].variables).not.toHaveProperty('revision');
+    expect(result.unit.content).toContain('Compare the column');
+    expect(result.usedFallback).toBe(false);
+    expect(result.fallbackReason).toBe('answer_leak_regenerated');
+  });
+
+  it('falls back to the grounded unit when the regeneration leaks again', async () => {
+    mocks.generateWithPromptTemplate.mockResolvedValue(unitResponse(resultMarkdown));
+
+    const result = await generate();
+
+    expect(mocks.generateWithPromptTemplate).toHaveBeenCalledTimes(2);
+    expect(result.unit.content).not.toContain('alice@example.com');
+    expect(result.usedFallback).toBe(true);
+    expect(result.fallbackReason).toBe('expected_result_leak_blocked');
+    expect(result.unit.provenance?.provider).toBe('openai-compatible');
+  });
+
+  it('leaves units alone without a reference solution', async () => {
+    mocks.generateWithPromptTemplate.mockResolvedValueOnce(unitResponse(leakingMarkdown));
+
+    const result = await generate(false);
+
+    expect(result.unit.content).toContain('age > 30');
+    expect(result.fallbackReason).toBe('none');
+  });
+});
@@ -2,16 +2,21 @@ import {
   InstructionalUnit,
   LLMCacheRecord,
   LLMGenerationParams,
+  LLMProvider,
+  UnitProvenance,
   SQLProblem,
   InteractionEvent,
   PdfCitation
 } from '../../types';
 import { createInputHash, stableStringify } from '../utils/hash';
-import { generateWithLLM } from '../api/llm-client';
+import { generateWithPromptTemplate, isBudgetExceededError } from '../api/llm-client';
 import { buildRetrievalBundle, RetrievalBundle } from './retrieval-bundle';
-import { renderPrompt, TemplateId } from '../../prompts/templates';
+import { getTemplateFamily, TemplateId } from '../../prompts/templates';
+import { getPromptVariantCondition } from '../experiments/condition-assignment';
 import { storage } from '../storage/storage';
 import { calculateQualityScore } from '../storage/textbook-units';
+import { applyAnswerLeakCheck } from '../ml/hint-service/safety';
+import type { AnswerLeakContext } from '../ml/hint-service/answer-leak';
 import { 
   generateDeterministicFromBundle,
   hasRichTemplateForSubtype
@@ -41,6 +46,13 @@ export type GenerateUnitOptions = {
   model?: string;
   /** Generation parameters */
   params?: Partial<LLMGenerationParams>;
+  /**
+   * Experimental condition, which keys the local cache; defaults to the
+   * session's. The server picks the template version from its own record.
+   */
+  conditionId?: string;
+  /** Current problem's reference solution, which the unit must not give away */
+  leakContext?: AnswerLeakContext;
 };
 
 /**
@@ -67,6 +79,10 @@ export type GenerateUnitResult = {
   parseTelemetry: TemplateParseTelemetry;
   /** Generation time in milliseconds */
   generationTimeMs?: number;
+  /** Server prompt template version used; undefined when no prompt was rendered */
+  templateVersion?: string;
+  /** How the server chose the template version */
+  templateAssignment?: UnitProvenance['templateAssignment'];
 };
 
 type StructuredTemplateOutput = {
@@ -111,7 +127,31 @@ type ParseValidationResult =
   | { ok: true; output: StructuredTemplateOutput }
   | { ok: false; reason: string };
 
-export type FallbackReason = 'none' | 'replay_mode' | 'parse_failure' | 'llm_error';
+export type FallbackReason =
+  | 'none'
+  | 'replay_mode'
+  | 'parse_failure'
+  | 'llm_error'
+  | 'llm_budget_exceeded'
+  // Answer-leak outcomes, named as in the hint safety layer
+  | 'expected_query_leak_redacted'
+  | 'answer_leak_regenerated'
+  | 'expected_query_leak_blocked'
+  | 'expected_result_leak_blocked';
+
+/** Leak outcomes that still deliver the generated unit */
+const LEAK_RECOVERED_REASONS = new Set<FallbackReason>(['expected_query_leak_redacted', 'answer_leak_regenerated']);
+
+/**
+ * Units are judged like rung-3 hints: patterns may appear, and leaking SQL is
+ * redacted when enough explanation remains
+ */
+const UNIT_LEAK_RUNG = 3;
+
+const LEAK_REVISION_NOTE =
+  'REVISION: The previous response reproduced the solution query or its result rows. ' +
+  'Explain the concept and the likely mistake without writing the query that solves the current problem ' +
+  'or quoting its expected output; use ___ placeholders in any SQL.';
 
 const DEFAULT_PARAMS: LLMGenerationParams = {
   temperature: 0,
@@ -133,10 +173,14 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
     ...(options.params || {})
   };
 
+  const conditionId = options.conditionId ?? getPromptVariantCondition();
+
   const payloadForHash = {
     templateId: options.templateId,
     model: requestedModel,
     params,
+    // Conditions can draw different template versions, so they must not share cache entries
+    ...(conditionId ? { conditionId } : {}),
     bundle: {
       learnerId: options.bundle.learnerId,
       problemId: options.bundle.problemId,
@@ -180,7 +224,7 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
       inputHash,
       cacheKey,
       fromCache: true,
-      usedFallback: cachedFallbackReason !== 'none',
+      usedFallback: cachedFallbackReason !== 'none' && !LEAK_RECOVERED_REASONS.has(cachedFallbackReason),
       fallbackReason: cachedFallbackReason,
       model: cached.unit.provenance?.model || requestedModel,
       params,
@@ -189,12 +233,12 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
         cacheHit: true,
         generationTimeMs: Math.round(performance.now() - startTime)
       },
-      generationTimeMs: Math.round(performance.now() - startTime)
+      generationTimeMs: Math.round(performance.now() - startTime),
+      templateVersion: cached.unit.provenance?.templateVersion,
+      templateAssignment: cached.unit.provenance?.templateAssignment
     };
   }
 
-  const prompt = renderPrompt(options.templateId, stableStringify(options.bundle));
-
   // Check if LLM is available - if not, use deterministic generation
   if (!checkLLMAvailable()) {
     const deterministicStart = performance.now();
@@ -251,12 +295,23 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
   }
 
   try {
-    const response = await generateWithLLM(prompt, {
-      ...(options.model ? { model: options.model } : {}),
-      params,
-    });
+    const requestUnit = (revision?: string) => generateWithPromptTemplate(
+      {
+        id: getTemplateFamily(options.templateId),
+        variables: { sources: stableStringify(options.bundle), ...(revision ? { revision } : {}) }
+      },
+      {
+        ...(options.model ? { model: options.model } : {}),
+        params,
+      }
+    );
+    let response = await requestUnit();
+    const templateProvenance: Pick<UnitProvenance, 'templateVersion' | 'templateAssignment'> = {
+      templateVersion: response.promptTemplate?.id,
+      templateAssignment: response.promptTemplate?.assignment
+    };
     const llmTimeMs = Math.round(performance.now() - startTime);
-    const parsed = parseTemplateJson(response.text);
+    let parsed = parseTemplateJson(response.text);
     
     // Build retrieval metrics for telemetry
     const retrievalMetrics = {
@@ -271,12 +326,14 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
       const fallbackReason: FallbackReason = 'parse_failure';
       const fallback = buildFallbackUnit(
         options,
+        response.provider,
         response.model,
         response.params,
         inputHash,
         fallbackReason,
         parsed.telemetry
       );
+      fallback.provenance = { ...fallback.provenance!, ...templateProvenance };
       saveCache({
         cacheKey,
         learnerId: options.learnerId,
@@ -295,10 +352,63 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
         fallbackReason,
         model: response.model,
         params: response.params,
-        parseTelemetry: parsed.telemetry
+        parseTelemetry: parsed.telemetry,
+        ...templateProvenance
       };
     }
 
+    let output = parsed.output;
+    let leak = checkUnitAnswerLeak(renderUnitMarkdown(output), options.leakContext);
+    if (leak.blocked) {
+      // Regenerate once, like leaking hints; a second leak falls back
+      const retry = await requestUnit(LEAK_REVISION_NOTE);
+      const retryParsed = parseTemplateJson(retry.text);
+      const retryLeak = retryParsed.output
+        ? checkUnitAnswerLeak(renderUnitMarkdown(retryParsed.output), options.leakContext)
+        : null;
+
+      if (!retryParsed.output || !retryLeak || retryLeak.blocked) {
+        const fallbackReason = (retryLeak?.fallbackReason ?? leak.fallbackReason) as Exclude<FallbackReason, 'none'>;
+        const fallback = buildFallbackUnit(
+          options,
+          retry.provider,
+          retry.model,
+          retry.params,
+          inputHash,
+          fallbackReason,
+          retryParsed.telemetry
+        );
+        fallback.provenance = { ...fallback.provenance!, ...templateProvenance };
+        saveCache({
+          cacheKey,
+          learnerId: options.learnerId,
+          templateId: options.templateId,
+          inputHash,
+          unit: fallback,
+          createdAt: Date.now()
+        });
+
+        return {
+          unit: fallback,
+          inputHash,
+          cacheKey,
+          fromCache: false,
+          usedFallback: true,
+          fallbackReason,
+          model: retry.model,
+          params: retry.params,
+          parseTelemetry: retryParsed.telemetry,
+          ...templateProvenance
+        };
+      }
+
+      response = retry;
+      parsed = retryParsed;
+      output = retryParsed.output;
+      // Keep the first attempt's leak on record so exports count it
+      leak = { ...retryLeak, fallbackReason: 'answer_leak_regenerated' };
+    }
+
     const enrichedTelemetry: TemplateParseTelemetry = {
       ...parsed.telemetry,
       generationTimeMs: Math.round(performance.now() - startTime),
@@ -312,12 +422,15 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
 
     const unit = await buildUnitFromStructuredOutput(
       options,
-      parsed.output,
+      output,
+      leak.markdown,
+      response.provider,
       response.model,
       response.params,
       inputHash,
       enrichedTelemetry
     );
+    unit.provenance = { ...unit.provenance!, ...templateProvenance, fallbackReason: leak.fallbackReason };
     saveCache({
       cacheKey,
       learnerId: options.learnerId,
@@ -333,14 +446,16 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
       cacheKey,
       fromCache: false,
       usedFallback: false,
-      fallbackReason: 'none',
+      fallbackReason: leak.fallbackReason,
       model: response.model,
       params: response.params,
       parseTelemetry: enrichedTelemetry,
-      generationTimeMs: Math.round(performance.now() - startTime)
+      generationTimeMs: Math.round(performance.now() - startTime),
+      ...templateProvenance
     };
   } catch (error) {
     // LLM failed - use deterministic generation as fallback
+    const fallbackReason: FallbackReason = isBudgetExceededError(error) ? 'llm_budget_exceeded' : 'llm_error';
     const deterministicStart = performance.now();
     const deterministicResult = await generateDeterministicFromBundle(
       options.bundle,
@@ -369,17 +484,20 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
     // Update provenance to indicate this was an LLM fallback
     deterministicResult.unit.provenance = {
       ...deterministicResult.unit.provenance!,
-      fallbackReason: 'llm_error'
+      fallbackReason
     };
     
-    saveCache({
-      cacheKey,
-      learnerId: options.learnerId,
-      templateId: options.templateId,
-      inputHash,
-      unit: deterministicResult.unit,
-      createdAt: Date.now()
-    });
+    // Budgets reset daily, so don't pin the deterministic unit in the cache
+    if (fallbackReason !== 'llm_budget_exceeded') {
+      saveCache({
+        cacheKey,
+        learnerId: options.learnerId,
+        templateId: options.templateId,
+        inputHash,
+        unit: deterministicResult.unit,
+        createdAt: Date.now()
+      });
+    }
 
     return {
       unit: deterministicResult.unit,
@@ -387,7 +505,7 @@ export async function generateUnitFromLLM(options: GenerateUnitOptions): Promise
       cacheKey,
       fromCache: false,
       usedFallback: true,
-      fallbackReason: 'llm_error',
+      fallbackReason,
       model: 'deterministic-generator',
       params: {
         temperature: 0,
@@ -452,7 +570,12 @@ function getFallbackReasonFromUnit(unit: InstructionalUnit): FallbackReason {
     reason === 'none' ||
     reason === 'replay_mode' ||
     reason === 'parse_failure' ||
-    reason === 'llm_error'
+    reason === 'llm_error' ||
+    reason === 'llm_budget_exceeded' ||
+    reason === 'expected_query_leak_redacted' ||
+    reason === 'answer_leak_regenerated' ||
+    reason === 'expected_query_leak_blocked' ||
+    reason === 'expected_result_leak_blocked'
   ) {
     return reason;
   }
@@ -502,9 +625,62 @@ function normalizeRetrievedSourceIds(sourceIds: string[]): string[] {
   });
 }
 
+/**
+ * Render structured template output as the unit's markdown
+ */
+function renderUnitMarkdown(output: StructuredTemplateOutput): string {
+  // Helper to sanitize list items: strip code fences and collapse whitespace
+  // This prevents malformed markdown when LLM returns multi-line content in bullets
+  const oneLine = (s: string) =>
+    s
+      .replace(/```[\s\S]*?```/g, '')   // strip fenced code blocks in bullets
+      .replace(/\s+/g, ' ')              // collapse all whitespace to single spaces
+      .trim();
+
+  return [
+    output.content_markdown?.trim() || '',
+    '',
+    '## Key Points',
+    ...output.key_points.map((point) => `- ${oneLine(point)}`),
+    '',
+    '## Next Steps',
+    ...output.next_steps.map((step, index) => `${index + 1}. ${oneLine(step)}`),
+    '',
+    `Common pitfall: ${(output.common_pitfall || 'Not found in provided sources.').trim()}`
+  ].join('\n');
+}
+
+type UnitLeakCheck = {
+  /** Unit markdown, with leaking SQL redacted when that was enough */
+  markdown: string;
+  fallbackReason: FallbackReason;
+  /** Whether the unit gives the answer away and must not be shown */
+  blocked: boolean;
+};
+
+/**
+ * Check unit markdown against the problem's expectedQuery and result rows
+ */
+function checkUnitAnswerLeak(markdown: string, leakContext?: AnswerLeakContext): UnitLeakCheck {
+  if (!leakContext?.expectedQuery) {
+    return { markdown, fallbackReason: 'none', blocked: false };
+  }
+  const check = applyAnswerLeakCheck(markdown, UNIT_LEAK_RUNG, 'unknown', leakContext);
+  if (!check.safetyFilterApplied) {
+    return { markdown, fallbackReason: 'none', blocked: false };
+  }
+  const fallbackReason = check.fallbackReason as FallbackReason;
+  if (LEAK_RECOVERED_REASONS.has(fallbackReason)) {
+    return { markdown: check.content, fallbackReason, blocked: false };
+  }
+  return { markdown, fallbackReason, blocked: true };
+}
+
 async function buildUnitFromStructuredOutput(
   options: GenerateUnitOptions,
   output: StructuredTemplateOutput,
+  markdown: string,
+  provider: LLMProvider,
   model: string,
   params: LLMGenerationParams,
   inputHash: string,
@@ -524,26 +700,6 @@ async function buildUnitFromStructuredOutput(
   );
   const retrievedPdfCitations = selectPdfCitations(options.bundle, normalizedSourceIds);
 
-  // Helper to sanitize list items: strip code fences and collapse whitespace
-  // This prevents malformed markdown when LLM returns multi-line content in bullets
-  const oneLine = (s: string) =>
-    s
-      .replace(/```[\s\S]*?```/g, '')   // strip fenced code blocks in bullets
-      .replace(/\s+/g, ' ')              // collapse all whitespace to single spaces
-      .trim();
-
-  const markdown = [
-    output.content_markdown?.trim() || '',
-    '',
-    '## Key Points',
-    ...output.key_points.map((point) => `- ${oneLine(point)}`),
-    '',
-    '## Next Steps',
-    ...output.next_steps.map((step, index) => `${index + 1}. ${oneLine(step)}`),
-    '',
-    `Common pitfall: ${(output.common_pitfall || 'Not found in provided sources.').trim()}`
-  ].join('\n');
-
   // Cap generated textbook content to prevent unbounded length
   const MAX_TEXTBOOK_LENGTH = 1200;
   const finalMarkdown = markdown.length > MAX_TEXTBOOK_LENGTH
@@ -595,7 +751,7 @@ async function buildUnitFromStructuredOutput(
     sourceInteractionIds: Array.from(new Set(options.triggerInteractionIds)),
     lastErrorSubtypeId: options.bundle.lastErrorSubtypeId,
     provenance: {
-      provider: 'ollama',
+      provider,
       model,
       sourceMix: [],
       params,
@@ -622,6 +778,7 @@ async function buildUnitFromStructuredOutput(
 
 function buildFallbackUnit(
   options: GenerateUnitOptions,
+  provider: LLMProvider,
   model: string,
   params: LLMGenerationParams,
   inputHash: string,
@@ -686,7 +843,7 @@ function buildFallbackUnit(
     sourceInteractionIds: Array.from(new Set(options.triggerInteractionIds)),
     lastErrorSubtypeId: options.bundle.lastErrorSubtypeId,
     provenance: {
-      provider: 'ollama',
+      provider,
       model,
       sourceMix: [],
       params,
@@ -8,6 +8,7 @@ import {
   validateSessionConfig,
   getExperimentalConditions,
   getConditionAssignmentVersion,
+  getPromptVariantCondition,
   saveSessionConfig,
   loadSessionConfig,
   safeClearSessionConfig,
@@ -293,6 +294,17 @@ describe('@weekly Condition Assignment', () => {
     });
   });
 
+  describe('getPromptVariantCondition', () => {
+    it('should return the condition of the given session config', () => {
+      const config = assignCondition('learner-123', { forceCondition: 'explanation_first' });
+      expect(getPromptVariantCondition(config)).toBe('explanation_first');
+    });
+
+    it('should return undefined without a session config', () => {
+      expect(getPromptVariantCondition(null)).toBeUndefined();
+    });
+  });
+
   // ============================================================================
   // Session Config Persistence Tests (Workstream 3/6)
   // ============================================================================
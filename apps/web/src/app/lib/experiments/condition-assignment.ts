@@ -356,6 +356,21 @@ export function getConditionAssignmentVersion(): string {
   return 'condition-assignment-v2';
 }
 
+/**
+ * Condition the server's prompt registry uses to pick a template version.
+ * The server reads it from the learner's stored session rather than from
+ * requests, and splits learners within a condition with the same hashString,
+ * so the version a learner saw can be recomputed from exported data.
+ *
+ * @param config - Session config; defaults to the one in sessionStorage
+ * @returns Condition ID, or undefined when no session is configured
+ */
+export function getPromptVariantCondition(
+  config: SessionConfig | null = loadSessionConfig()
+): string | undefined {
+  return config?.conditionId || undefined;
+}
+
 // ============================================================================
 // Session Config Persistence (Redesigned Workstream 3/6)
 // ============================================================================
@@ -89,6 +89,13 @@ const DECAY_CONFIG = {
   practiceResetsDecay: true  // Successful practice resets decay
 };
 
+// Score deltas for execution events; near misses earn a share of the gap
+// in proportion to their resultSimilarity
+const EXECUTION_SCORE = {
+  success: 15,
+  failure: 5
+};
+
 // Propagation configuration
 const PROPAGATION_CONFIG = {
   enabled: true,
@@ -213,9 +220,13 @@ export function updateMasteryFromInteraction(
     switch (event.eventType) {
       case 'execution':
         if (event.successful) {
-          scoreDelta = 15; // Successful execution
+          scoreDelta = EXECUTION_SCORE.success;
         } else {
-          scoreDelta = 5;  // Attempted but failed
+          // Attempted but failed; partial credit for near-miss results
+          const similarity = Math.max(0, Math.min(1, event.resultSimilarity ?? 0));
+          scoreDelta = Math.round(
+            EXECUTION_SCORE.failure + (EXECUTION_SCORE.success - EXECUTION_SCORE.failure) * similarity
+          );
         }
         break;
       case 'error':
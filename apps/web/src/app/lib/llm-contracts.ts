@@ -37,7 +37,7 @@ export type LLMOutputMetadata = {
  * LLM Telemetry metadata for provider/model tracking
  */
 export type LLMTelemetryMetadata = {
-  /** Provider used (ollama or groq) */
+  /** Provider used */
   provider: LLMProvider;
   /** Model name used */
   model: string;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { assessAnswerLeak, extractSqlFragments, measureSqlSimilarity, tokenizeSqlForLeakCheck } from './answer-leak';
+import { applyHintSafetyLayer } from './safety';
+
+const leakContext = {
+  expectedQuery: `SELECT d.name, COUNT(*) AS headcount
+FROM employees e
+JOIN departments d ON e.dept_id = d.id
+WHERE e.salary > 50000
+GROUP BY d.name;`,
+  expectedResult: [
+    { name: 'Engineering', headcount: 4 },
+    { name: 'Marketing', headcount: 2 },
+    { name: 'Operations', headcount: 3 },
+  ],
+};
+
+describe('answer leak detection', () => {
+  it('normalizes case, quoting, aliases and comments before comparing', () => {
+    expect(tokenizeSqlForLeakCheck('SELECT "Name" AS n -- pick\nFROM `Users`;')).toEqual([
+      'select', 'name', 'n', 'from', 'users',
+    ]);
+    const rewritten = `select d.name, count(*) headcount from employees e
+      inner join departments d on e.dept_id = d.id where e.salary > 50000 group by d.name`;
+    expect(measureSqlSimilarity(rewritten, leakContext.expectedQuery)).toBeGreaterThan(0.9);
+  });
+
+  it('scores placeholder patterns well below a near-verbatim answer', () => {
+    const skeleton = measureSqlSimilarity('SELECT ___, COUNT(*) FROM ___ JOIN ___ ON ___ GROUP BY ___', leakContext.expectedQuery);
+    const partial = measureSqlSimilarity('JOIN departments d ON e.dept_id = d.id WHERE e.salary > ___', leakContext.expectedQuery);
+    expect(skeleton).toBeLessThan(0.3);
+    expect(partial).toBeGreaterThan(skeleton);
+  });
+
+  it('finds SQL in code fences, inline code and bare clauses', () => {
+    const fragments = extractSqlFragments(
+      'Start with `FROM employees e`. Then:\n```sql\nGROUP BY d.name\n```\nFinally filter WHERE e.salary > 50000 to finish.'
+    );
+    expect(fragments.map((fragment) => fragment.text)).toEqual([
+      '`FROM employees e`',
+      '```sql\nGROUP BY d.name\n```',
+      'WHERE e.salary > 50000 to finish',
+    ]);
+  });
+
+  it('applies stricter thresholds on lower rungs', () => {
+    const hint = 'You need `JOIN departments d ON e.dept_id = d.id WHERE e.salary > ___` here.';
+    expect(assessAnswerLeak(hint, 1, leakContext).queryLeaked).toBe(true);
+    expect(assessAnswerLeak(hint, 2, leakContext).queryLeaked).toBe(false);
+    expect(assessAnswerLeak(hint, 3, leakContext).queryLeaked).toBe(false);
+  });
+
+  it('flags hints that quote the expected result rows', () => {
+    const leak = assessAnswerLeak(
+      'Your output should list Engineering, Marketing and Operations with their counts.',
+      2,
+      leakContext
+    );
+    expect(leak.resultLeaked).toBe(true);
+    expect(assessAnswerLeak('Check that Engineering appears in your output.', 2, leakContext).resultLeaked).toBe(false);
+  });
+});
+
+describe('safety layer with expectedQuery', () => {
+  it('blocks a rung 2 hint that reproduces the expected query around a placeholder', () => {
+    const result = applyHintSafetyLayer(
+      'Try `SELECT d.name, COUNT(*) FROM employees e JOIN departments d ON e.dept_id = d.id WHERE e.salary > ___ GROUP BY d.name`',
+      2,
+      'aggregation',
+      leakContext
+    );
+    expect(result.safetyFilterApplied).toBe(true);
+    expect(result.fallbackReason).toBe('expected_query_leak_blocked');
+    expect(result.content).not.toContain('departments');
+  });
+
+  it('redacts the leaking SQL from a rung 3 explanation and keeps the prose', () => {
+    const result = applyHintSafetyLayer(
+      'Count employees per department after joining the two tables on the department id. ' +
+        'Something like `SELECT d.name, COUNT(*) FROM employees e JOIN departments d ON e.dept_id = d.id WHERE e.salary > 50000 GROUP BY d.name` works.',
+      3,
+      'aggregation',
+      leakContext
+    );
+    expect(result.fallbackReason).toBe('expected_query_leak_redacted');
+    expect(result.content).toContain('Count employees per department');
+    expect(result.content).toContain('`SELECT ___ FROM ___ JOIN ___ ON ___ WHERE ___ GROUP BY ___`');
+  });
+
+  it('blocks hints that give away the result rows', () => {
+    const result = applyHintSafetyLayer(
+      'The expected rows are Engineering, Marketing and Operations.',
+      2,
+      'incorrect results',
+      leakContext
+    );
+    expect(result.fallbackReason).toBe('expected_result_leak_blocked');
+  });
+
+  it('leaves conceptual hints alone', () => {
+    const content = 'Which column links employees to departments? Filter before you group.';
+    const result = applyHintSafetyLayer(content, 2, 'aggregation', leakContext);
+    expect(result).toEqual({ content, safetyFilterApplied: false, fallbackReason: null });
+  });
+});
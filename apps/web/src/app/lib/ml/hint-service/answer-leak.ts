@@ -0,0 +1,249 @@
+/**
+ * Hint Service Answer-Leak Detection
+ *
+ * Compares SQL embedded in generated hints and explanations with the current
+ * problem's expectedQuery (and its result rows). The keyword and
+ * SELECT...FROM checks in safety.ts miss near-verbatim answers that carry a
+ * stray ___ placeholder or skip the SELECT, so this measures how much of the
+ * reference solution a hint reproduces instead of looking for keywords.
+ */
+
+import type { GuidanceRung } from '../guidance-ladder';
+
+/**
+ * Similarity to expectedQuery above which a hint counts as leaking the answer.
+ * Rung 3 may show partial patterns, so it tolerates more overlap.
+ */
+export const ANSWER_LEAK_THRESHOLDS: Record<GuidanceRung, number> = {
+  1: 0.3,
+  2: 0.45,
+  3: 0.65,
+};
+
+/** Result cells a hint may quote before it counts as giving away the output */
+const MAX_QUOTED_RESULT_VALUES = 2;
+
+export type AnswerLeakContext = {
+  /** Reference solution for the current problem */
+  expectedQuery: string;
+  /** Rows expectedQuery returns, when known */
+  expectedResult?: Array<Record<string, unknown>>;
+};
+
+export type SqlFragment = {
+  /** Span of the hint text, including any backticks or code fence */
+  text: string;
+  /** SQL inside the span */
+  sql: string;
+  start: number;
+  end: number;
+};
+
+export type AnswerLeakAssessment = {
+  /** Highest similarity of any SQL in the hint to expectedQuery (0-1) */
+  similarity: number;
+  threshold: number;
+  queryLeaked: boolean;
+  /** Fragments whose own similarity crosses the threshold */
+  leakingFragments: SqlFragment[];
+  /** Distinct expectedResult values quoted in the hint */
+  quotedResultValues: string[];
+  resultLeaked: boolean;
+};
+
+const CLAUSE_KEYWORDS = [
+  'select', 'from', 'join', 'on', 'where', 'group by', 'having', 'order by', 'limit',
+  'union', 'insert into', 'values', 'update', 'set', 'delete from',
+];
+
+/** Keywords that may be dropped without changing what a query means */
+const NOISE_TOKENS = new Set(['as', 'inner', 'outer', ';']);
+
+/**
+ * Tokenize SQL for comparison: lowercase keywords and identifiers, unquote
+ * identifiers, keep literals, collapse ___ placeholders, drop comments and
+ * noise keywords (AS, INNER, OUTER) so cosmetic rewrites still match.
+ */
+export function tokenizeSqlForLeakCheck(sql: string): string[] {
+  const withoutComments = sql.replace(/--[^\n]*/g, ' ').replace(/\/\*[\s\S]*?\*\//g, ' ');
+  const tokenPattern =
+    /'(?:[^']|'')*'|"[^"]*"|`[^`]*`|\[[^\]]*\]|_{2,}|\d+(?:\.\d+)?|[a-z_][a-z0-9_]*|<>|!=|<=|>=|\|\||[(),.=<>*+\-/%;]/gi;
+  const tokens: string[] = [];
+  for (const match of withoutComments.matchAll(tokenPattern)) {
+    const raw = match[0];
+    let token: string;
+    if (raw.startsWith("'")) {
+      token = raw.toLowerCase();
+    } else if (/^["`[]/.test(raw)) {
+      token = raw.slice(1, -1).toLowerCase();
+    } else if (/^_{2,}$/.test(raw)) {
+      token = '___';
+    } else {
+      token = raw.toLowerCase();
+    }
+    if (token === '!=') token = '<>';
+    if (!NOISE_TOKENS.has(token)) tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Find SQL in generated text: fenced code blocks, inline code that contains a
+ * clause keyword, and bare statements or clauses running to the end of the
+ * sentence.
+ */
+export function extractSqlFragments(text: string): SqlFragment[] {
+  const fragments: SqlFragment[] = [];
+  let masked = text;
+  const add = (value: string, sql: string, start: number) => {
+    const end = start + value.length;
+    fragments.push({ text: value, sql, start, end });
+    // Blank out claimed spans so later passes neither re-match nor run through them
+    masked = `${masked.slice(0, start)}${' '.repeat(value.length)}${masked.slice(end)}`;
+  };
+
+  for (const match of text.matchAll(/```[a-z]*\n?([\s\S]*?)```/gi)) {
+    add(match[0], match[1], match.index ?? 0);
+  }
+  for (const match of masked.matchAll(/`([^`\n]+)`/g)) {
+    if (/\b(select|from|where|join|group\s+by|order\s+by|having)\b/i.test(match[1])) {
+      add(match[0], match[1], match.index ?? 0);
+    }
+  }
+  const barePattern =
+    /\b(?:select|with|insert\s+into|update|delete\s+from|from|where|group\s+by|having|order\s+by)\b[^`]*?(?=\n\s*\n|[.?!](?:\s+[A-Z]|\s*$)|`|$)/gi;
+  for (const match of masked.matchAll(barePattern)) {
+    // Bare clauses need at least a keyword and a few tokens to count as SQL
+    if (tokenizeSqlForLeakCheck(match[0]).length >= 4) {
+      add(match[0], match[0], match.index ?? 0);
+    }
+  }
+  return fragments.sort((a, b) => a.start - b.start);
+}
+
+function ngrams(tokens: string[], size: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + size).join(' ');
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function clauseSignature(tokens: string[]): string[] {
+  const joined = ` ${tokens.join(' ')} `;
+  return CLAUSE_KEYWORDS.filter((keyword) => joined.includes(` ${keyword} `));
+}
+
+/**
+ * Structural similarity of candidate SQL to the expected query (0-1): the
+ * share of the expected query's token trigrams the candidate reproduces,
+ * lightly weighted by how closely their clause structure matches.
+ * Placeholders never match, so SELECT ___ FROM ___ patterns score low.
+ */
+export function measureSqlSimilarity(candidateSql: string, expectedSql: string): number {
+  const candidate = tokenizeSqlForLeakCheck(candidateSql);
+  const expected = tokenizeSqlForLeakCheck(expectedSql);
+  if (candidate.length === 0 || expected.length === 0) return 0;
+
+  const size = Math.min(3, expected.length);
+  const expectedGrams = ngrams(expected, size);
+  const candidateGrams = ngrams(candidate, size);
+  let shared = 0;
+  let total = 0;
+  for (const [gram, count] of expectedGrams) {
+    total += count;
+    shared += Math.min(count, candidateGrams.get(gram) ?? 0);
+  }
+  const containment = total > 0 ? shared / total : 0;
+
+  const expectedClauses = clauseSignature(expected);
+  const candidateClauses = new Set(clauseSignature(candidate));
+  const clauseOverlap = expectedClauses.length > 0
+    ? expectedClauses.filter((clause) => candidateClauses.has(clause)).length / expectedClauses.length
+    : 0;
+
+  // Matching clause names alone (a bare template) must never reach a threshold
+  return Math.min(1, containment * 0.85 + containment * clauseOverlap * 0.15);
+}
+
+function collectResultValues(rows: Array<Record<string, unknown>>, expectedQuery: string): string[] {
+  const queryText = expectedQuery.toLowerCase();
+  const values = new Set<string>();
+  for (const row of rows) {
+    for (const cell of Object.values(row)) {
+      if (cell === null || cell === undefined) continue;
+      const value = String(cell).trim();
+      // Short values (ids, 0/1 flags) appear in prose by chance; literals from
+      // the query are already judged by the query check
+      if (value.length < 3 || queryText.includes(value.toLowerCase())) continue;
+      values.add(value);
+    }
+  }
+  return Array.from(values);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Judge whether generated hint text gives away the current problem's answer.
+ */
+export function assessAnswerLeak(
+  content: string,
+  rung: GuidanceRung,
+  context: AnswerLeakContext
+): AnswerLeakAssessment {
+  const threshold = ANSWER_LEAK_THRESHOLDS[rung];
+  const fragments = extractSqlFragments(content);
+
+  const leakingFragments: SqlFragment[] = [];
+  let similarity = 0;
+  for (const fragment of fragments) {
+    const score = measureSqlSimilarity(fragment.sql, context.expectedQuery);
+    similarity = Math.max(similarity, score);
+    if (score >= threshold) leakingFragments.push(fragment);
+  }
+  // The answer can also be spread across several short fragments
+  if (fragments.length > 1) {
+    const combined = measureSqlSimilarity(fragments.map((fragment) => fragment.sql).join(' '), context.expectedQuery);
+    if (combined >= threshold && leakingFragments.length === 0) {
+      leakingFragments.push(...fragments);
+    }
+    similarity = Math.max(similarity, combined);
+  }
+
+  const resultValues = context.expectedResult?.length
+    ? collectResultValues(context.expectedResult, context.expectedQuery)
+    : [];
+  const quotedResultValues = resultValues.filter((value) =>
+    new RegExp(`(^|[^\\w])${escapeRegExp(value)}($|[^\\w])`, 'i').test(content)
+  );
+
+  return {
+    similarity: Number(similarity.toFixed(4)),
+    threshold,
+    queryLeaked: leakingFragments.length > 0,
+    leakingFragments,
+    quotedResultValues,
+    resultLeaked: resultValues.length > MAX_QUOTED_RESULT_VALUES && quotedResultValues.length > MAX_QUOTED_RESULT_VALUES,
+  };
+}
+
+/**
+ * Replace leaking SQL with its clause skeleton (SELECT ___ FROM ___ ...), the
+ * same placeholder style rung-3 hints already use.
+ */
+export function redactLeakingSql(content: string, fragments: SqlFragment[]): string {
+  let next = content;
+  for (const fragment of [...fragments].sort((a, b) => b.start - a.start)) {
+    const clauses = clauseSignature(tokenizeSqlForLeakCheck(fragment.sql));
+    const skeleton = clauses.length > 0
+      ? clauses.map((clause) => `${clause.toUpperCase()} ___`).join(' ')
+      : '___';
+    const fenced = fragment.text.startsWith('`');
+    next = `${next.slice(0, fragment.start)}${fenced ? `\`${skeleton}\`` : skeleton}${next.slice(fragment.end)}`;
+  }
+  return next.replace(/[ \t]{2,}/g, ' ').trim();
+}
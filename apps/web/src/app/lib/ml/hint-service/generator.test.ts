@@ -257,6 +257,37 @@ describe('hint-service Groq-first generator policy', () => {
     expect(result.llmGenerated).toBe(false);
     expect(mocks.resolveRefinedHintForProblem).toHaveBeenCalled();
   });
+
+  it('points rung 2 hints to the divergent query stage', async () => {
+    mocks.generateLLMEnhancedHint.mockResolvedValue({ ...llmHint, rung: 2 });
+    const stageDivergence = { stage: 'where' as const, label: 'WHERE', actualRowCount: 6, expectedRowCount: 2 };
+
+    const { generateEnhancedHint } = await import('./generator');
+    const rung2 = await generateEnhancedHint({
+      learnerId: 'learner-1',
+      problemId: 'problem-1',
+      errorSubtypeId: 'incomplete query',
+      rung: 2,
+      recentInteractions: [],
+      stageDivergence,
+    });
+
+    expect(rung2.content).toContain(llmHint.content);
+    expect(rung2.content).toContain('at the WHERE step');
+    expect(rung2.content).toContain('6 rows');
+
+    mocks.generateLLMEnhancedHint.mockResolvedValue(llmHint);
+    const rung1 = await generateEnhancedHint({
+      learnerId: 'learner-1',
+      problemId: 'problem-1',
+      errorSubtypeId: 'incomplete query',
+      rung: 1,
+      recentInteractions: [],
+      stageDivergence,
+    });
+
+    expect(rung1.content).toBe(llmHint.content);
+  });
 });
 
 describe('getGenericFallbackHint improved quality', () => {
@@ -14,6 +14,7 @@ import { generateLLMEnhancedHint } from './llm-generation';
 import { resolveRefinedHintForProblem } from './refined-hints';
 import { loadConceptMap } from '../../content/concept-loader';
 import { getProblemById } from '../../../data/problems';
+import { describeStageDivergence } from '../../query-stages';
 
 /**
  * Generate enhanced hint using available resources
@@ -29,6 +30,23 @@ import { getProblemById } from '../../../data/problems';
  * @returns Promise resolving to enhanced hint
  */
 export async function generateEnhancedHint(options: HintGenerationOptions): Promise<EnhancedHint> {
+  const hint = await generateHintFromResources(options);
+  return withStageDivergence(hint, options);
+}
+
+/**
+ * Rung-2 explanations point to the SELECT stage where the learner's
+ * intermediate result first departed from the solution
+ */
+function withStageDivergence(hint: EnhancedHint, options: HintGenerationOptions): EnhancedHint {
+  if (hint.rung !== 2 || !options.stageDivergence) return hint;
+  return {
+    ...hint,
+    content: `${hint.content}\n\n${describeStageDivergence(options.stageDivergence)}`
+  };
+}
+
+async function generateHintFromResources(options: HintGenerationOptions): Promise<EnhancedHint> {
   const { learnerId, rung, errorSubtypeId, forceLLM } = options;
 
   // Check available resources
@@ -36,7 +36,9 @@ export { MIN_RETRIEVAL_CONFIDENCE, ENHANCED_HINT_SERVICE_VERSION } from './types
 // Core functions
 export { generateEnhancedHint, preloadHintContext } from './generator';
 export { checkAvailableResources, checkAvailableResourcesAsync, findRelevantTextbookUnits, getHintStrategyDescription } from './resources';
-export { applyHintSafetyLayer, scoreRefinedHintCandidate, getGenericFallbackHint } from './safety';
+export { applyHintSafetyLayer, applyAnswerLeakCheck, scoreRefinedHintCandidate, getGenericFallbackHint } from './safety';
+export { assessAnswerLeak, measureSqlSimilarity, ANSWER_LEAK_THRESHOLDS } from './answer-leak';
+export type { AnswerLeakContext, AnswerLeakAssessment } from './answer-leak';
 export { buildEnhancedRetrievalBundle, extractRetrievalSignals } from './retrieval';
 export { generateSqlEngageFallbackHint } from './fallback';
 export { generateTextbookEnhancedHint } from './textbook-generation';
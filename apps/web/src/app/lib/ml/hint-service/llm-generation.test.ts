@@ -2,12 +2,14 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { EnhancedRetrievalBundle, RetrievalSignalMeta } from './types';
 
 const mocks = vi.hoisted(() => ({
-  generateWithLLM: vi.fn(),
+  generateWithPromptTemplate: vi.fn(),
+  streamWithPromptTemplate: vi.fn(),
   isLLMAvailable: vi.fn(),
 }));
 
 vi.mock('../../api/llm-client', () => ({
-  generateWithLLM: mocks.generateWithLLM,
+  generateWithPromptTemplate: mocks.generateWithPromptTemplate,
+  streamWithPromptTemplate: mocks.streamWithPromptTemplate,
   isLLMAvailable: mocks.isLLMAvailable,
 }));
 
@@ -66,7 +68,7 @@ describe('LLM hint generation safety retry', () => {
   });
 
   it('retries with stricter instructions when the first LLM hint leaks a direct answer', async () => {
-    mocks.generateWithLLM
+    mocks.generateWithPromptTemplate
       .mockResolvedValueOnce({
         text: 'Content: SELECT * FROM users;\nConcepts: select-basic\nSources: sql-engage:select-basic',
         model: 'openai/gpt-oss-20b',
@@ -103,9 +105,84 @@ describe('LLM hint generation safety retry', () => {
       retrievalSignals,
     );
 
-    expect(mocks.generateWithLLM).toHaveBeenCalledTimes(2);
+    expect(mocks.generateWithPromptTemplate).toHaveBeenCalledTimes(2);
     expect(result.content).toContain('every row');
     expect(result.content).not.toContain('SELECT * FROM users');
     expect(result.safetyFilterApplied).toBe(false);
   });
+
+  it('regenerates a hint that reproduces the expected query and records the leak', async () => {
+    mocks.generateWithPromptTemplate
+      .mockResolvedValueOnce({
+        text: 'Content: Try `SELECT * FROM ___` with users: SELECT * FROM users\nConcepts: select-basic\nSources: sql-engage:select-basic',
+        model: 'openai/gpt-oss-20b',
+        params: {},
+      })
+      .mockResolvedValueOnce({
+        text: 'Content: Which table holds the people the problem asks about, and do you need every column?\nConcepts: select-basic\nSources: sql-engage:select-basic',
+        model: 'openai/gpt-oss-20b',
+        params: {},
+      });
+
+    const { generateLLMEnhancedHint } = await import('./llm-generation');
+    const result = await generateLLMEnhancedHint(
+      {
+        learnerId: 'learner-1',
+        problemId: 'problem-1',
+        errorSubtypeId: 'incorrect results',
+        rung: 3,
+        recentInteractions: [],
+      },
+      retrievalBundle,
+      { sqlEngage: true, textbook: false, llm: true, pdfIndex: false },
+      retrievalSignals,
+    );
+
+    expect(mocks.generateWithPromptTemplate).toHaveBeenCalledTimes(2);
+    expect(mocks.generateWithPromptTemplate.mock.calls[0][0].variables).not.toHaveProperty('revision');
+    expect(mocks.generateWithPromptTemplate.mock.calls[1][0].variables.revision).toContain('STRICT RETRY');
+    expect(result.content).toContain('every column');
+    expect(result.fallbackReason).toBe('answer_leak_regenerated');
+  });
+
+  it('streams hints from the registry template and keeps the version it was rendered from', async () => {
+    const promptTemplate = { id: 'adaptive_hint.v1', family: 'adaptive_hint', version: 1, assignment: 'default' };
+    mocks.streamWithPromptTemplate.mockImplementationOnce(async (_template, options) => {
+      options.onToken('Content: Which', 'Content: Which');
+      return {
+        text: 'Content: Which table holds the people the problem asks about?\nConcepts: select-basic\nSources: sql-engage:select-basic',
+        model: 'openai/gpt-oss-20b',
+        params: {},
+        provider: 'groq',
+        promptTemplate,
+      };
+    });
+    const onPartialContent = vi.fn();
+
+    const { generateLLMEnhancedHint } = await import('./llm-generation');
+    const result = await generateLLMEnhancedHint(
+      {
+        learnerId: 'learner-1',
+        problemId: 'problem-1',
+        errorSubtypeId: 'incorrect results',
+        rung: 2,
+        recentInteractions: [],
+        onPartialContent,
+      },
+      retrievalBundle,
+      { sqlEngage: true, textbook: false, llm: true, pdfIndex: false },
+      retrievalSignals,
+    );
+
+    const [template] = mocks.streamWithPromptTemplate.mock.calls[0];
+    expect(template).toMatchObject({
+      id: 'adaptive_hint',
+      variables: { problem_title: 'Select All Users', error_subtype: 'incorrect results' },
+    });
+    expect(template.variables.instruction).toContain('guiding question');
+    expect(template.variables.context).toContain('Think about what should appear.');
+    expect(onPartialContent).toHaveBeenCalled();
+    expect(mocks.generateWithPromptTemplate).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ templateVersion: 'adaptive_hint.v1', templateAssignment: 'default' });
+  });
 });
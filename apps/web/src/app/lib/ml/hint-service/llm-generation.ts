@@ -4,17 +4,27 @@
  * LLM-based adaptive hint generation for all guidance rungs.
  */
 
-import { generateWithLLM, isLLMAvailable } from '../../api/llm-client';
+import {
+  generateWithPromptTemplate,
+  isBudgetExceededError,
+  isLLMAvailable,
+  streamWithPromptTemplate,
+  type PromptTemplateStamp,
+} from '../../api/llm-client';
 import type { GuidanceRung } from '../guidance-ladder';
 import type { AdaptiveHintContext, AdaptiveHintOutput, EnhancedHint, LearningSignalSummary, RetrievalSignalMeta } from './types';
 import type { AvailableResources } from './types';
 import type { EnhancedRetrievalBundle, HintGenerationOptions } from './types';
 import { applyHintSafetyLayer } from './safety';
+import type { AnswerLeakContext } from './answer-leak';
 import { generateSqlEngageFallbackHint, mergeFallbackReasons } from './fallback';
 import { generateTextbookEnhancedHint } from './textbook-generation';
 import { getCachedHint, saveCachedHint } from './hint-cache';
 import { MIN_RETRIEVAL_CONFIDENCE } from './types';
 
+/** Server prompt-registry family for adaptive hints */
+const ADAPTIVE_HINT_TEMPLATE = 'adaptive_hint';
+
 /**
  * Generate hint using LLM.
  *
@@ -86,25 +96,49 @@ export async function generateLLMEnhancedHint(
   };
 
   try {
-    // Generate adaptive hint using LLM
-    const llmCall = async (prompt: string) => {
-      const response = await generateWithLLM(prompt, {
+    const leakContext: AnswerLeakContext = {
+      expectedQuery: retrievalBundle.problem.expectedQuery,
+      expectedResult: retrievalBundle.problem.expectedResult,
+    };
+
+    // Generate adaptive hint using LLM; the server renders the prompt for the learner's condition
+    const { onPartialContent } = options;
+    let promptTemplate: PromptTemplateStamp | undefined;
+    const llmCall = async (variables: Record<string, string>) => {
+      const template = { id: ADAPTIVE_HINT_TEMPLATE, variables };
+      const llmOptions = {
         params: {
           temperature: 0.7,
           max_tokens: 500,
         },
+      };
+      if (!onPartialContent) {
+        const response = await generateWithPromptTemplate(template, llmOptions);
+        promptTemplate = response.promptTemplate;
+        return response.text;
+      }
+      onPartialContent('');
+      const response = await streamWithPromptTemplate(template, {
+        ...llmOptions,
+        onToken: (_delta, text) => {
+          onPartialContent(previewStreamingHint(text, rung, errorSubtypeId || 'unknown', leakContext));
+        },
       });
+      promptTemplate = response.promptTemplate;
       return response.text;
     };
-
     let adaptiveOutput = await generateAdaptiveHint(context, llmCall);
-    let safety = applyHintSafetyLayer(adaptiveOutput.content, rung, errorSubtypeId || 'unknown');
+    let safety = applyHintSafetyLayer(adaptiveOutput.content, rung, errorSubtypeId || 'unknown', leakContext);
 
     if (shouldRetryForSafety(safety.fallbackReason)) {
+      const leakedExpectedAnswer = isExpectedAnswerLeak(safety.fallbackReason);
       const retryOutput = await generateAdaptiveHint(context, llmCall, true);
-      const retrySafety = applyHintSafetyLayer(retryOutput.content, rung, errorSubtypeId || 'unknown');
+      const retrySafety = applyHintSafetyLayer(retryOutput.content, rung, errorSubtypeId || 'unknown', leakContext);
       adaptiveOutput = retryOutput;
-      safety = retrySafety;
+      // Keep the first attempt's leak on record so exports count it even when the retry is clean
+      safety = leakedExpectedAnswer
+        ? { ...retrySafety, fallbackReason: mergeFallbackReasons('answer_leak_regenerated', retrySafety.fallbackReason) }
+        : retrySafety;
     }
 
     // Cache successful LLM hints for resilience when LLM is later unavailable
@@ -138,22 +172,26 @@ export async function generateLLMEnhancedHint(
       safetyFilterApplied: safety.safetyFilterApplied,
       retrievedSourceIds: retrievalSignals.retrievedSourceIds,
       retrievedChunkIds: retrievalSignals.retrievedChunkIds,
+      templateVersion: promptTemplate?.id,
+      templateAssignment: promptTemplate?.assignment,
     };
   } catch (error) {
     console.error('[LLMGeneration] Failed to generate hint:', error);
+    // A spent daily token budget is expected, not a failure; record it separately
+    const llmFallbackReason = isBudgetExceededError(error) ? 'llm_budget_exceeded' : 'llm_error';
 
     // Fall back to textbook-enhanced or SQL-Engage
     if (resources.textbook && retrievalBundle.textbookUnits?.length) {
       return generateTextbookEnhancedHint(options, retrievalBundle, resources, {
         ...retrievalSignals,
-        fallbackReason: mergeFallbackReasons('llm_error', retrievalSignals.fallbackReason),
+        fallbackReason: mergeFallbackReasons(llmFallbackReason, retrievalSignals.fallbackReason),
       });
     }
 
     if (errorSubtypeId) {
       return generateSqlEngageFallbackHint(errorSubtypeId, rung, {
         ...retrievalSignals,
-        fallbackReason: mergeFallbackReasons('llm_error', retrievalSignals.fallbackReason),
+        fallbackReason: mergeFallbackReasons(llmFallbackReason, retrievalSignals.fallbackReason),
       });
     }
 
@@ -174,13 +212,13 @@ export async function generateLLMEnhancedHint(
  */
 async function generateAdaptiveHint(
   context: AdaptiveHintContext,
-  llmCall: (prompt: string) => Promise<string>,
+  llmCall: (variables: Record<string, string>) => Promise<string>,
   strictMode = false
 ): Promise<AdaptiveHintOutput> {
-  const prompt = buildAdaptivePrompt(context, strictMode);
+  const variables = buildAdaptivePromptVariables(context, strictMode);
 
   try {
-    const rawOutput = await llmCall(prompt);
+    const rawOutput = await llmCall(variables);
     return parseAdaptiveOutput(rawOutput, context.rung);
   } catch (error) {
     console.error('[AdaptiveHint] Hint generation failed:', error);
@@ -189,9 +227,9 @@ async function generateAdaptiveHint(
 }
 
 /**
- * Build rung-specific adaptive prompt
+ * Build the variables of the rung-specific adaptive_hint template
  */
-function buildAdaptivePrompt(context: AdaptiveHintContext, strictMode = false): string {
+function buildAdaptivePromptVariables(context: AdaptiveHintContext, strictMode = false): Record<string, string> {
   const { rung, errorSubtype, problem, previousHints, textbookUnits, learningSignals } = context;
 
   const rungPrompts: Record<number, string> = {
@@ -200,39 +238,67 @@ function buildAdaptivePrompt(context: AdaptiveHintContext, strictMode = false):
     3: `Provide clear explanation (max 500 characters) about "${errorSubtype}". You may use partial patterns with ___ placeholders, but never complete SQL or the final solution.`,
   };
 
-  let prompt = `You are an adaptive SQL tutor helping a learner with: "${problem.title}"\n\n`;
-  prompt += `Never give the final answer. Never provide runnable SQL for the learner's exact problem. Do not include a complete query.\n`;
-  prompt += `Current error/issue: ${errorSubtype}\n\n`;
-  prompt += `Learner state:\n`;
-  prompt += `- Latest issue: ${learningSignals.latestIssue}\n`;
-  prompt += `- Failed runs: ${learningSignals.failedRunCount}\n`;
-  prompt += `- Retry count: ${learningSignals.retryCount}\n`;
-  prompt += `- Hints viewed: ${learningSignals.hintCount}\n`;
-  prompt += `- Recent events: ${learningSignals.lastInteractionTypes.join(', ') || 'none'}\n`;
-  if (learningSignals.stuckReason) {
-    prompt += `- Stuck signal: ${learningSignals.stuckReason}\n`;
-  }
-  prompt += '\n';
+  const learnerState = [
+    `- Latest issue: ${learningSignals.latestIssue}`,
+    `- Failed runs: ${learningSignals.failedRunCount}`,
+    `- Retry count: ${learningSignals.retryCount}`,
+    `- Hints viewed: ${learningSignals.hintCount}`,
+    `- Recent events: ${learningSignals.lastInteractionTypes.join(', ') || 'none'}`,
+    ...(learningSignals.stuckReason ? [`- Stuck signal: ${learningSignals.stuckReason}`] : []),
+  ];
 
+  let hintContext = '';
   if (previousHints.length > 0) {
-    prompt += `Previous hints given:\n${previousHints.map((h) => `- ${h}`).join('\n')}\n\n`;
+    hintContext += `Previous hints given:\n${previousHints.map((h) => `- ${h}`).join('\n')}\n\n`;
   }
-
   if (textbookUnits.length > 0) {
-    prompt += `Relevant textbook units:\n${textbookUnits.slice(0, 2).map((u) => `- ${u.title}: ${u.content.slice(0, 100)}...`).join('\n')}\n\n`;
+    hintContext += `Relevant textbook units:\n${textbookUnits.slice(0, 2).map((u) => `- ${u.title}: ${u.content.slice(0, 100)}...`).join('\n')}\n\n`;
   }
 
-  prompt += `Instruction: ${rungPrompts[rung]}\n\n`;
-  if (strictMode) {
-    prompt += `STRICT RETRY: The prior response leaked runnable SQL or direct SQL keywords. Return only conceptual guidance. For rung 1, use no SQL keywords. For rung 2 or 3, use placeholders only if necessary and never produce a complete SELECT...FROM pattern.\n\n`;
-  }
-  prompt += `Format your response as:\nContent: [your hint here]\nConcepts: [comma-separated concept IDs]\nSources: [comma-separated source references]`;
+  return {
+    problem_title: problem.title,
+    error_subtype: errorSubtype,
+    learner_state: learnerState.join('\n'),
+    ...(hintContext ? { context: hintContext.trim() } : {}),
+    instruction: rungPrompts[rung],
+    ...(strictMode
+      ? {
+          revision: 'STRICT RETRY: The prior response leaked runnable SQL, direct SQL keywords, or the expected query or its result rows. Return only conceptual guidance. For rung 1, use no SQL keywords. For rung 2 or 3, use placeholders only if necessary and never produce a complete SELECT...FROM pattern.',
+        }
+      : {}),
+  };
+}
 
-  return prompt;
+/**
+ * What the learner may see of a hint that is still streaming. The complete
+ * text is checked again before the hint is stored.
+ */
+function previewStreamingHint(
+  rawOutput: string,
+  rung: GuidanceRung,
+  errorSubtypeId: string,
+  leakContext: AnswerLeakContext
+): string {
+  // Wait until "Content:" is complete rather than flashing the label
+  if ('content:'.startsWith(rawOutput.trim().toLowerCase())) return '';
+  const { content } = parseAdaptiveOutput(rawOutput, rung as 1 | 2 | 3);
+  const safety = applyHintSafetyLayer(content, rung, errorSubtypeId, leakContext);
+  const blocked = (safety.fallbackReason ?? '').split(',').some((reason) =>
+    reason.endsWith('_blocked') || reason === 'empty_after_safety_filter'
+  );
+  return blocked ? '' : safety.content;
 }
 
 function shouldRetryForSafety(fallbackReason: string | null): boolean {
-  return fallbackReason === 'answer_leak_blocked' || fallbackReason === 'rung1_sql_keyword_blocked';
+  return fallbackReason === 'answer_leak_blocked'
+    || fallbackReason === 'rung1_sql_keyword_blocked'
+    || isExpectedAnswerLeak(fallbackReason);
+}
+
+function isExpectedAnswerLeak(fallbackReason: string | null): boolean {
+  return (fallbackReason ?? '').split(',').some((reason) =>
+    reason === 'expected_query_leak_blocked' || reason === 'expected_result_leak_blocked'
+  );
 }
 
 function buildLearningSignals(
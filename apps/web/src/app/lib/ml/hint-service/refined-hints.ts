@@ -42,7 +42,10 @@ export async function resolveRefinedHintForProblem(
     }
 
     // Score the candidate for quality and safety
-    const scored = scoreRefinedHintCandidate(candidateText || '', rung, errorSubtypeId);
+    const scored = scoreRefinedHintCandidate(candidateText || '', rung, errorSubtypeId, {
+      expectedQuery: problem.expectedQuery,
+      expectedResult: problem.expectedResult,
+    });
 
     if (!scored.accepted) {
       continue;
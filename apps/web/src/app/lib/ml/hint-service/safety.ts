@@ -6,6 +6,10 @@
 
 import type { GuidanceRung } from '../guidance-ladder';
 import type { SafetyLayerResult, ScoredHintCandidate } from './types';
+import { assessAnswerLeak, redactLeakingSql, type AnswerLeakContext } from './answer-leak';
+
+/** Prose a redacted hint must keep to still be worth showing */
+const MIN_REDACTED_PROSE_LENGTH = 40;
 
 /**
  * Apply safety filtering to hint content
@@ -13,11 +17,14 @@ import type { SafetyLayerResult, ScoredHintCandidate } from './types';
  * Ensures hints follow pedagogical guidelines:
  * - Rung 1: No SQL keywords, brief nudges only
  * - All rungs: No full answer leaks, no front-matter styles
+ * - With leakContext: no SQL too close to the problem's expectedQuery and no
+ *   quoting of its result rows (rung 3 gets the SQL redacted where possible)
  */
 export function applyHintSafetyLayer(
   content: string,
   rung: GuidanceRung,
-  errorSubtypeId: string
+  errorSubtypeId: string,
+  leakContext?: AnswerLeakContext
 ): SafetyLayerResult {
   let next = content.trim();
   let safetyFilterApplied = false;
@@ -42,6 +49,19 @@ export function applyHintSafetyLayer(
     };
   }
 
+  // Compare against the reference solution when the caller knows it
+  if (leakContext?.expectedQuery) {
+    const leak = applyAnswerLeakCheck(next, rung, errorSubtypeId, leakContext);
+    if (leak.fallbackReason?.endsWith('_blocked')) {
+      return { ...leak, fallbackReason: mergeFallbackReasons(fallbackReason, leak.fallbackReason) };
+    }
+    if (leak.safetyFilterApplied) {
+      next = leak.content;
+      safetyFilterApplied = true;
+      fallbackReason = mergeFallbackReasons(fallbackReason, leak.fallbackReason);
+    }
+  }
+
   // Block full answer SQL patterns (SELECT ... FROM ... without placeholders)
   const fullAnswerRegex = /\bselect\s+.+\s+from\s+.+\b/i;
   if (fullAnswerRegex.test(next) && !next.includes('___')) {
@@ -77,13 +97,53 @@ export function applyHintSafetyLayer(
   };
 }
 
+/**
+ * Check generated text against the problem's expectedQuery and result rows.
+ * Rung 3 text has leaking SQL redacted to a placeholder skeleton when enough
+ * prose remains; anything else that leaks is replaced by the generic hint.
+ */
+export function applyAnswerLeakCheck(
+  content: string,
+  rung: GuidanceRung,
+  errorSubtypeId: string,
+  leakContext: AnswerLeakContext
+): SafetyLayerResult {
+  const leak = assessAnswerLeak(content, rung, leakContext);
+  if (leak.resultLeaked) {
+    return {
+      content: getGenericFallbackHint(rung, errorSubtypeId),
+      safetyFilterApplied: true,
+      fallbackReason: 'expected_result_leak_blocked',
+    };
+  }
+  if (!leak.queryLeaked) {
+    return { content, safetyFilterApplied: false, fallbackReason: null };
+  }
+
+  const redacted = rung === 3 ? redactLeakingSql(content, leak.leakingFragments) : '';
+  const prose = redacted.replace(/`[^`]*`|\b[A-Z]+(?: BY| INTO| FROM)? ___/g, '').trim();
+  if (prose.length < MIN_REDACTED_PROSE_LENGTH) {
+    return {
+      content: getGenericFallbackHint(rung, errorSubtypeId),
+      safetyFilterApplied: true,
+      fallbackReason: 'expected_query_leak_blocked',
+    };
+  }
+  return {
+    content: redacted,
+    safetyFilterApplied: true,
+    fallbackReason: 'expected_query_leak_redacted',
+  };
+}
+
 /**
  * Score a refined hint candidate for quality and safety
  */
 export function scoreRefinedHintCandidate(
   value: string,
   rung: GuidanceRung,
-  errorSubtypeId: string
+  errorSubtypeId: string,
+  leakContext?: AnswerLeakContext
 ): ScoredHintCandidate {
   if (!value || value.trim().length === 0) {
     return {
@@ -94,7 +154,7 @@ export function scoreRefinedHintCandidate(
     };
   }
 
-  const safety = applyHintSafetyLayer(value, rung, errorSubtypeId);
+  const safety = applyHintSafetyLayer(value, rung, errorSubtypeId, leakContext);
   if (!safety.content.trim()) {
     return {
       accepted: false,
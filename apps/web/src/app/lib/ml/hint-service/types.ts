@@ -8,6 +8,7 @@ import type { InteractionEvent, InstructionalUnit, SQLProblem, RetrievedChunkInf
 import type { SqlEngageRecord } from '../../../data/sql-engage';
 import type { GuidanceRung } from '../guidance-ladder';
 import type { RetrievalBundle } from '../../content/retrieval-bundle';
+import type { QueryStageDivergence } from '../../query-stages';
 
 /**
  * Available resource types for hint generation
@@ -62,6 +63,10 @@ export type EnhancedHint = {
   llmFailed?: boolean;
   /** Error message if LLM failed */
   llmErrorMessage?: string;
+  /** Server prompt template version an LLM hint was generated from */
+  templateVersion?: string;
+  /** How the server chose that version */
+  templateAssignment?: 'pinned' | 'condition' | 'default';
 };
 
 /**
@@ -82,6 +87,13 @@ export type HintGenerationOptions = {
   recentInteractions: InteractionEvent[];
   /** Whether to force LLM generation even if available */
   forceLLM?: boolean;
+  /** First SELECT stage where the learner's wrong result diverged (rung 2 points to it) */
+  stageDivergence?: QueryStageDivergence | null;
+  /**
+   * Receives an LLM hint while it streams in, already through the safety
+   * layer; empty while the partial text would be blocked
+   */
+  onPartialContent?: (content: string) => void;
 };
 
 /**
@@ -54,6 +54,8 @@ export const PROFILE_TO_ARM_ID: Record<string, BanditArmId> = {
 export interface LearningOutcome {
   /** Whether the learner solved the problem */
   solved: boolean;
+  /** Result similarity in [0, 1] when not solved (partial credit) */
+  partialCredit?: number;
   /** Whether the learner used explanation to solve */
   usedExplanation: boolean;
   /** Number of errors made during the attempt */
@@ -137,7 +139,7 @@ export class LearnerBanditManager {
    * - Efficient time usage
    * Lower rewards (penalties) for:
    * - High hint dependency (HDI)
-   * - Failure to solve
+   * - Failure to solve (softened by partial credit for near misses)
    *
    * @param learnerId - Unique identifier for the learner
    * @param armId - Bandit arm that was used
@@ -148,7 +150,7 @@ export class LearnerBanditManager {
 
     // Calculate reward components
     const components: RewardComponents = {
-      independentSuccess: calculateIndependentSuccess(outcome.usedExplanation, outcome.solved),
+      independentSuccess: calculateIndependentSuccess(outcome.usedExplanation, outcome.solved, outcome.partialCredit),
       errorReduction: calculateErrorReduction(outcome.errorCount, outcome.baselineErrors),
       delayedRetention: 0, // Not available immediately
       dependencyPenalty: -outcome.hdiScore, // Negative because it's a penalty
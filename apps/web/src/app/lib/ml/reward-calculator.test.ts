@@ -169,6 +169,17 @@ describe('calculateIndependentSuccess', () => {
     expect(calculateIndependentSuccess(false, false)).toBe(0);
     expect(calculateIndependentSuccess(true, false)).toBe(0);
   });
+
+  it('should give partial credit for near misses', () => {
+    expect(calculateIndependentSuccess(false, false, 0.8)).toBe(0.8);
+    expect(calculateIndependentSuccess(true, false, 0.8)).toBe(0.4);
+  });
+
+  it('should ignore partial credit once solved and clamp it to [0, 1]', () => {
+    expect(calculateIndependentSuccess(false, true, 0.3)).toBe(1.0);
+    expect(calculateIndependentSuccess(false, false, 1.7)).toBe(1.0);
+    expect(calculateIndependentSuccess(false, false, -0.2)).toBe(0);
+  });
 });
 
 describe('calculateErrorReduction', () => {
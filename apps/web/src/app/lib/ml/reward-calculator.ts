@@ -15,7 +15,7 @@ export interface RewardComponents {
    * Independent problem solving
    * +1.0 if solved without reaching explanation
    * +0.5 if solved with explanation
-   * 0.0 if not solved
+   * Partial credit (result similarity) if not solved, halved with explanation
    */
   independentSuccess: number;
   
@@ -126,14 +126,17 @@ export function calculateReward(
  * 
  * @param usedExplanation - Whether the learner reached the explanation rung
  * @param solved - Whether the problem was solved correctly
- * @returns 1.0 if solved without explanation, 0.5 if solved with explanation, 0.0 if not solved
+ * @param partialCredit - Result similarity in [0, 1] of an unsolved attempt
+ * @returns 1.0 if solved without explanation, 0.5 if solved with explanation,
+ *          otherwise the partial credit (halved with explanation)
  */
 export function calculateIndependentSuccess(
   usedExplanation: boolean,
-  solved: boolean
+  solved: boolean,
+  partialCredit: number = 0
 ): number {
-  if (!solved) return 0;
-  return usedExplanation ? 0.5 : 1.0;
+  const credit = solved ? 1.0 : Math.max(0, Math.min(1, partialCredit));
+  return usedExplanation ? credit * 0.5 : credit;
 }
 
 /**
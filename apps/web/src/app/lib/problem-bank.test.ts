@@ -0,0 +1,139 @@
+/**
+ * Unit tests for problem bank helpers
+ *
+ * These tests verify:
+ * - Authored problems convert to the SQLProblem shape without null fields
+ * - Imported problems convert back to a create payload
+ * - Built-in problems win when merging the catalog
+ * - Expected results are computed on a fresh sql.js database
+ * - Schema and query failures are reported with the failing stage
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { computeExpectedResult, mergeProblemCatalog, toAuthoredProblemInput, toSqlProblem } from './problem-bank';
+import type { AuthoredProblem } from './api/storage-client';
+import type { SQLProblem } from '../types';
+
+const SCHEMA = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER);
+  INSERT INTO users VALUES (1, 'Ana', 31), (2, 'ben', 24);
+`;
+
+function makeAuthored(overrides: Partial<AuthoredProblem> = {}): AuthoredProblem {
+  return {
+    id: 'authored-1',
+    authorUserId: 'instructor-1',
+    title: 'Adults',
+    description: 'List users older than 30.',
+    difficulty: 'beginner',
+    concepts: ['select-basic', 'where-clause'],
+    topic: 'filtering',
+    topicDifficultyLevel: 1,
+    schema: SCHEMA,
+    expectedQuery: 'SELECT name FROM users WHERE age > 30',
+    expectedResult: null,
+    gradingMode: null,
+    stateVerification: null,
+    hiddenDatasets: [],
+    dialect: 'sqlite',
+    hints: [],
+    status: 'published',
+    sectionIds: ['section-1'],
+    publishedAt: '2026-01-01T00:00:00.000Z',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('toSqlProblem', () => {
+  it('keeps practice fields and drops authoring metadata and nulls', () => {
+    const problem = toSqlProblem(makeAuthored());
+
+    expect(problem).toMatchObject({ id: 'authored-1', topic: 'filtering', dialect: 'sqlite' });
+    expect(problem).not.toHaveProperty('expectedResult');
+    expect(problem).not.toHaveProperty('gradingMode');
+    expect(problem).not.toHaveProperty('hiddenDatasets');
+    expect(problem).not.toHaveProperty('sectionIds');
+  });
+
+  it('carries the stored expected result and grading mode', () => {
+    const problem = toSqlProblem(makeAuthored({ expectedResult: [{ name: 'Ana' }], gradingMode: 'ordered-result' }));
+
+    expect(problem.expectedResult).toEqual([{ name: 'Ana' }]);
+    expect(problem.gradingMode).toBe('ordered-result');
+  });
+
+  it('carries hidden datasets and state verification', () => {
+    const problem = toSqlProblem(makeAuthored({
+      gradingMode: 'final-state',
+      stateVerification: { tables: ['users'] },
+      hiddenDatasets: [{ id: 'hidden-1', schema: SCHEMA }],
+    }));
+
+    expect(problem.stateVerification).toEqual({ tables: ['users'] });
+    expect(problem.hiddenDatasets).toEqual([{ id: 'hidden-1', schema: SCHEMA }]);
+  });
+});
+
+describe('toAuthoredProblemInput', () => {
+  it('round-trips through toSqlProblem', () => {
+    const authored = makeAuthored({
+      expectedResult: [{ name: 'Ana' }],
+      hints: ['Filter on age'],
+      hiddenDatasets: [{ id: 'hidden-1', schema: SCHEMA }],
+    });
+
+    const input = toAuthoredProblemInput(toSqlProblem(authored), authored.expectedResult);
+
+    expect(input).toMatchObject({
+      title: authored.title,
+      concepts: authored.concepts,
+      expectedResult: [{ name: 'Ana' }],
+      gradingMode: null,
+      stateVerification: null,
+      hiddenDatasets: [{ id: 'hidden-1', schema: SCHEMA }],
+      hints: ['Filter on age'],
+    });
+  });
+});
+
+describe('mergeProblemCatalog', () => {
+  it('appends authored problems and skips ids already in the catalog', () => {
+    const builtIn = [toSqlProblem(makeAuthored({ id: 'problem-1', title: 'Built-in' }))];
+    const authored: SQLProblem[] = [
+      toSqlProblem(makeAuthored({ id: 'problem-1', title: 'Shadow' })),
+      toSqlProblem(makeAuthored({ id: 'authored-2' })),
+    ];
+
+    const merged = mergeProblemCatalog(builtIn, authored);
+
+    expect(merged.map(problem => problem.id)).toEqual(['problem-1', 'authored-2']);
+    expect(merged[0].title).toBe('Built-in');
+  });
+});
+
+describe('computeExpectedResult', () => {
+  it('returns the rows expectedQuery produces', async () => {
+    const preview = await computeExpectedResult(SCHEMA, 'SELECT name FROM users WHERE age > 30');
+
+    expect(preview).toEqual({ success: true, columns: ['name'], rows: [{ name: 'Ana' }] });
+  });
+
+  it('rewrites PostgreSQL spellings for postgres problems', async () => {
+    const preview = await computeExpectedResult(SCHEMA, "SELECT name FROM users WHERE name ILIKE 'B%'", 'postgres');
+
+    expect(preview).toMatchObject({ success: true, rows: [{ name: 'ben' }] });
+  });
+
+  it('reports which stage failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const schemaError = await computeExpectedResult('CREATE TABLE (', 'SELECT 1');
+    const queryError = await computeExpectedResult(SCHEMA, 'SELECT missing FROM users');
+
+    expect(schemaError).toMatchObject({ success: false, stage: 'schema' });
+    expect(queryError).toMatchObject({ success: false, stage: 'query' });
+    expect(queryError.success === false && queryError.error).toContain('missing');
+  });
+});
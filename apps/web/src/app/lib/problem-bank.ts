@@ -0,0 +1,109 @@
+/**
+ * Problem Bank — helpers shared by the instructor authoring panel and the
+ * practice page for instructor-authored (server-stored) problems.
+ */
+
+import type { SQLDialect, SQLProblem } from '../types';
+import type { AuthoredProblem, AuthoredProblemInput } from './api/storage-client';
+import { SQLExecutor } from './sql-executor';
+import { toSqliteDialect } from './sql-dialect';
+
+export type ExpectedResultPreview =
+  | { success: true; columns: string[]; rows: Record<string, unknown>[] }
+  | { success: false; stage: 'schema' | 'query'; error: string };
+
+/**
+ * Convert an authored problem into the SQLProblem shape the practice page uses.
+ */
+export function toSqlProblem(problem: AuthoredProblem): SQLProblem {
+  return {
+    id: problem.id,
+    title: problem.title,
+    description: problem.description,
+    difficulty: problem.difficulty,
+    concepts: problem.concepts,
+    schema: problem.schema,
+    expectedQuery: problem.expectedQuery,
+    ...(problem.expectedResult ? { expectedResult: problem.expectedResult } : {}),
+    ...(problem.gradingMode ? { gradingMode: problem.gradingMode } : {}),
+    ...(problem.stateVerification ? { stateVerification: problem.stateVerification } : {}),
+    ...(problem.hiddenDatasets?.length ? { hiddenDatasets: problem.hiddenDatasets } : {}),
+    dialect: problem.dialect,
+    hints: problem.hints,
+    topic: problem.topic,
+    topicDifficultyLevel: problem.topicDifficultyLevel,
+  };
+}
+
+/**
+ * Convert an imported SQLProblem into the create payload for the problem bank.
+ */
+export function toAuthoredProblemInput(
+  problem: SQLProblem,
+  expectedResult: Record<string, unknown>[] | null
+): AuthoredProblemInput {
+  return {
+    title: problem.title,
+    description: problem.description,
+    difficulty: problem.difficulty,
+    concepts: problem.concepts,
+    topic: problem.topic,
+    topicDifficultyLevel: problem.topicDifficultyLevel,
+    schema: problem.schema,
+    expectedQuery: problem.expectedQuery,
+    expectedResult,
+    gradingMode: problem.gradingMode ?? null,
+    stateVerification: problem.stateVerification ?? null,
+    hiddenDatasets: problem.hiddenDatasets ?? [],
+    dialect: problem.dialect ?? 'sqlite',
+    hints: problem.hints ?? [],
+  };
+}
+
+/**
+ * Append authored problems to the built-in catalog. Built-in ids win, so a
+ * stale server row can never shadow a bundled problem.
+ */
+export function mergeProblemCatalog(builtIn: SQLProblem[], authored: SQLProblem[]): SQLProblem[] {
+  if (authored.length === 0) return builtIn;
+  const seen = new Set(builtIn.map(problem => problem.id));
+  return [...builtIn, ...authored.filter(problem => !seen.has(problem.id))];
+}
+
+/**
+ * Run expectedQuery against a fresh database built from schema, the same way
+ * the practice page will when grading.
+ */
+export async function computeExpectedResult(
+  schema: string,
+  expectedQuery: string,
+  dialect: SQLDialect = 'sqlite'
+): Promise<ExpectedResultPreview> {
+  const executor = new SQLExecutor();
+  try {
+    try {
+      await executor.initialize(schema);
+    } catch (error) {
+      return { success: false, stage: 'schema', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const query = dialect === 'postgres' ? toSqliteDialect(expectedQuery) : expectedQuery;
+    const result = await executor.executeQuery(query);
+    if (!result.success) {
+      return { success: false, stage: 'query', error: result.error ?? 'Query failed' };
+    }
+
+    return { success: true, columns: result.columns ?? [], rows: executor.formatResults(result) };
+  } finally {
+    executor.close();
+  }
+}
+
+/**
+ * Bundle validation runner backed by sql.js in the browser.
+ */
+export async function runBundleQuery(schema: string, query: string, dialect: SQLDialect): Promise<string | null> {
+  const preview = await computeExpectedResult(schema, query, dialect);
+  if (preview.success) return null;
+  return preview.stage === 'schema' ? `schema failed to load: ${preview.error}` : preview.error;
+}
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for problem bundles
+ *
+ * These tests verify:
+ * - Bundles round-trip through JSON and YAML
+ * - Schemas shared by several problems or hidden datasets are referenced by id
+ * - Structural problems and unsupported versions are rejected with issues
+ * - Validation flags unknown concepts and expected queries that do not run
+ * - The exported built-in catalog validates and imports back unchanged
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PROBLEM_BUNDLE_VERSION,
+  ProblemBundleError,
+  bundleFormatFromFileName,
+  createProblemBundle,
+  parseProblemBundle,
+  resolveBundleProblems,
+  serializeProblemBundle,
+  validateProblemBundle,
+} from './problem-bundle';
+import { computeExpectedResult, runBundleQuery, toAuthoredProblemInput } from './problem-bank';
+import { sqlProblems } from '../data/problems';
+import type { SQLProblem } from '../types';
+
+const SCHEMA = `CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+INSERT INTO users VALUES (1, 'Ana'), (2, 'Ben');`;
+
+function makeProblem(overrides: Partial<SQLProblem> = {}): SQLProblem {
+  return {
+    id: 'p1',
+    title: 'All users',
+    description: 'List every user.',
+    difficulty: 'beginner',
+    concepts: ['select-basic'],
+    schema: SCHEMA,
+    expectedQuery: 'SELECT * FROM users',
+    topic: 'basics',
+    topicDifficultyLevel: 1,
+    ...overrides,
+  };
+}
+
+function parseIssues(text: string) {
+  try {
+    parseProblemBundle(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProblemBundleError);
+    return (error as ProblemBundleError).issues;
+  }
+  throw new Error('expected parse to fail');
+}
+
+describe('createProblemBundle', () => {
+  it('moves schemas used more than once into shared schemas', () => {
+    const bundle = createProblemBundle([
+      makeProblem(),
+      makeProblem({ id: 'p2', hiddenDatasets: [{ id: 'p2-hidden', schema: 'CREATE TABLE users (id INTEGER, name TEXT);' }] }),
+      makeProblem({ id: 'p3', schema: 'CREATE TABLE t (x INTEGER);', expectedQuery: 'SELECT x FROM t' }),
+    ], { title: 'Week 1', exportedAt: '2026-01-01T00:00:00.000Z' });
+
+    expect(bundle).toMatchObject({ version: PROBLEM_BUNDLE_VERSION, title: 'Week 1' });
+    expect(bundle.schemas).toEqual({ 'schema-1': SCHEMA });
+    expect(bundle.problems[0]).toMatchObject({ schemaRef: 'schema-1' });
+    expect(bundle.problems[1].hiddenDatasets?.[0]).toEqual({ id: 'p2-hidden', schema: 'CREATE TABLE users (id INTEGER, name TEXT);' });
+    expect(bundle.problems[2]).toMatchObject({ schema: 'CREATE TABLE t (x INTEGER);' });
+  });
+
+  it('round-trips through JSON and YAML', () => {
+    const problems = [makeProblem({ hints: ['Use SELECT *'] }), makeProblem({ id: 'p2', dialect: 'postgres' })];
+    const bundle = createProblemBundle(problems);
+
+    for (const format of ['json', 'yaml'] as const) {
+      const parsed = parseProblemBundle(serializeProblemBundle(bundle, format));
+      expect(resolveBundleProblems(parsed)).toEqual(problems);
+    }
+  });
+
+  it('picks the file format from the extension', () => {
+    expect(bundleFormatFromFileName('week1.yaml')).toBe('yaml');
+    expect(bundleFormatFromFileName('week1.YML')).toBe('yaml');
+    expect(bundleFormatFromFileName('week1.json')).toBe('json');
+  });
+});
+
+describe('parseProblemBundle', () => {
+  it('rejects unknown formats and newer versions', () => {
+    expect(() => parseProblemBundle('{"format":"other","version":1}')).toThrow(/Unrecognized bundle format/);
+    expect(() => parseProblemBundle(`format: sql-adapt/problem-bundle\nversion: ${PROBLEM_BUNDLE_VERSION + 1}\nproblems: []`))
+      .toThrow(/newer than the supported version/);
+    expect(() => parseProblemBundle('{not json')).toThrow(ProblemBundleError);
+  });
+
+  it('lists every structural issue', () => {
+    const bundle = createProblemBundle([makeProblem(), makeProblem()]);
+    const broken = {
+      ...bundle,
+      problems: [
+        { ...bundle.problems[0], difficulty: 'expert', schemaRef: 'missing' },
+        { ...bundle.problems[1], concepts: [] },
+      ],
+    };
+
+    const issues = parseIssues(JSON.stringify(broken));
+
+    expect(issues.map(issue => `${issue.problemId}:${issue.field}`)).toEqual([
+      'p1:difficulty',
+      'p1:schema',
+      'p1:id',
+      'p1:concepts',
+    ]);
+  });
+});
+
+describe('validateProblemBundle', () => {
+  it('flags unknown concepts and queries that fail on the schema or a hidden dataset', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bundle = createProblemBundle([
+      makeProblem({ concepts: ['select-basic', 'time-travel'] }),
+      makeProblem({ id: 'p2', expectedQuery: 'SELECT email FROM users' }),
+      makeProblem({ id: 'p3', hiddenDatasets: [{ id: 'p3-hidden', schema: 'CREATE TABLE people (id INTEGER);' }] }),
+    ]);
+
+    const issues = await validateProblemBundle(bundle, runBundleQuery);
+
+    expect(issues).toEqual([
+      { problemId: 'p1', field: 'concepts', message: 'Unknown concept "time-travel"' },
+      expect.objectContaining({ problemId: 'p2', field: 'expectedQuery', message: expect.stringContaining('email') }),
+      expect.objectContaining({ problemId: 'p3', field: 'expectedQuery', message: expect.stringContaining('hidden dataset p3-hidden') }),
+    ]);
+  });
+
+  it('validates the exported built-in catalog and imports it back unchanged', async () => {
+    const bundle = parseProblemBundle(serializeProblemBundle(createProblemBundle(sqlProblems), 'yaml'));
+    const issues = await validateProblemBundle(bundle, runBundleQuery);
+
+    expect(issues).toEqual([]);
+    const imported = resolveBundleProblems(bundle);
+    expect(imported).toEqual(sqlProblems);
+
+    for (const problem of imported) {
+      const result = await computeExpectedResult(problem.schema, problem.expectedQuery, problem.dialect);
+      expect(result.success).toBe(true);
+      expect(toAuthoredProblemInput(problem, result.success ? result.rows : null)).toMatchObject({
+        title: problem.title,
+        concepts: problem.concepts,
+        schema: problem.schema,
+        expectedQuery: problem.expectedQuery,
+      });
+    }
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Problem Bundles — portable, versioned problem sets for sharing exercises
+ * between courses.
+ *
+ * A bundle is a JSON or YAML document:
+ *
+ *   format: sql-adapt/problem-bundle
+ *   version: 1
+ *   title: Week 3 joins
+ *   schemas:            # shared schemas, referenced by id
+ *     shop: CREATE TABLE ...
+ *   problems:
+ *     - id: joins-1
+ *       schemaRef: shop   # or an inline `schema`
+ *       hiddenDatasets:
+ *         - id: joins-1-hidden
+ *           schema: CREATE TABLE ...
+ *       ...SQLProblem fields
+ *
+ * Parsing only checks structure. validateProblemBundle additionally checks
+ * that every concept is one the app knows and every expectedQuery runs
+ * against its schema (and each hidden dataset) with the supplied runner, so
+ * the same code serves the instructor UI (sql.js in the browser) and the CLI.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { CONCEPT_GRAPH } from '../data/concept-graph';
+import { sqlProblems } from '../data/problems';
+import type {
+  SQLDialect,
+  SQLGradingMode,
+  SQLHiddenDataset,
+  SQLProblem,
+  SQLProblemTopic,
+  SQLStateVerification,
+} from '../types';
+
+export const PROBLEM_BUNDLE_FORMAT = 'sql-adapt/problem-bundle';
+export const PROBLEM_BUNDLE_VERSION = 1;
+
+export type ProblemBundleFileFormat = 'json' | 'yaml';
+
+/** Schema given inline or by reference to the bundle's shared schemas */
+type SchemaSource = { schema: string; schemaRef?: never } | { schemaRef: string; schema?: never };
+
+export type BundleHiddenDataset = { id: string } & SchemaSource;
+
+export type BundleProblem = Omit<SQLProblem, 'schema' | 'hiddenDatasets'> &
+  SchemaSource & { hiddenDatasets?: BundleHiddenDataset[] };
+
+export interface ProblemBundle {
+  format: typeof PROBLEM_BUNDLE_FORMAT;
+  version: number;
+  title?: string;
+  exportedAt?: string;
+  schemas: Record<string, string>;
+  problems: BundleProblem[];
+}
+
+export interface ProblemBundleIssue {
+  /** Problem the issue belongs to; absent for bundle-level issues */
+  problemId?: string;
+  field: string;
+  message: string;
+}
+
+/**
+ * Runs a query against a fresh database built from schema.
+ * Resolves to an error message, or null when the query succeeds.
+ */
+export type BundleQueryRunner = (schema: string, query: string, dialect: SQLDialect) => Promise<string | null>;
+
+export class ProblemBundleError extends Error {
+  constructor(message: string, public readonly issues: ProblemBundleIssue[] = []) {
+    super(message);
+    this.name = 'ProblemBundleError';
+  }
+}
+
+const DIFFICULTIES: SQLProblem['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+const TOPICS: SQLProblemTopic[] = ['basics', 'filtering', 'joining', 'aggregation', 'functions', 'advanced'];
+const GRADING_MODES: SQLGradingMode[] = [
+  'result', 'exec-only', 'ordered-result', 'exact-columns', 'ordered-and-exact', 'final-state',
+];
+const DIALECTS: SQLDialect[] = ['sqlite', 'postgres'];
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Build a bundle from problems. Schemas used by more than one problem or
+ * dataset move into `schemas` and are referenced by id.
+ */
+export function createProblemBundle(
+  problems: SQLProblem[],
+  options: { title?: string; exportedAt?: string } = {}
+): ProblemBundle {
+  const usage = new Map<string, number>();
+  const countSchema = (schema: string) => usage.set(schema, (usage.get(schema) ?? 0) + 1);
+  for (const problem of problems) {
+    countSchema(problem.schema);
+    problem.hiddenDatasets?.forEach(dataset => countSchema(dataset.schema));
+  }
+
+  const schemas: Record<string, string> = {};
+  const schemaIds = new Map<string, string>();
+  const sourceFor = (schema: string): SchemaSource => {
+    if ((usage.get(schema) ?? 0) < 2) return { schema };
+    let id = schemaIds.get(schema);
+    if (!id) {
+      id = `schema-${schemaIds.size + 1}`;
+      schemaIds.set(schema, id);
+      schemas[id] = schema;
+    }
+    return { schemaRef: id };
+  };
+
+  const bundleProblems = problems.map((problem): BundleProblem => {
+    const { schema, hiddenDatasets, ...rest } = problem;
+    return {
+      ...rest,
+      ...sourceFor(schema),
+      ...(hiddenDatasets?.length
+        ? { hiddenDatasets: hiddenDatasets.map(dataset => ({ id: dataset.id, ...sourceFor(dataset.schema) })) }
+        : {}),
+    };
+  });
+
+  return {
+    format: PROBLEM_BUNDLE_FORMAT,
+    version: PROBLEM_BUNDLE_VERSION,
+    ...(options.title ? { title: options.title } : {}),
+    exportedAt: options.exportedAt ?? new Date().toISOString(),
+    schemas,
+    problems: bundleProblems,
+  };
+}
+
+export function serializeProblemBundle(bundle: ProblemBundle, fileFormat: ProblemBundleFileFormat = 'json'): string {
+  return fileFormat === 'yaml'
+    ? stringifyYaml(bundle, { lineWidth: 0, blockQuote: 'literal' })
+    : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+/** File format implied by a file name; defaults to JSON */
+export function bundleFormatFromFileName(fileName: string): ProblemBundleFileFormat {
+  return /\.ya?ml$/i.test(fileName) ? 'yaml' : 'json';
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse a JSON or YAML bundle and check its structure.
+ * @throws ProblemBundleError listing every structural issue
+ */
+export function parseProblemBundle(text: string): ProblemBundle {
+  let raw: unknown;
+  try {
+    // YAML 1.2 is a superset of JSON, so one parser reads both formats
+    raw = parseYaml(text);
+  } catch (error) {
+    throw new ProblemBundleError(`Not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isRecord(raw)) {
+    throw new ProblemBundleError('A problem bundle must be an object');
+  }
+  if (raw.format !== PROBLEM_BUNDLE_FORMAT) {
+    throw new ProblemBundleError(`Unrecognized bundle format; expected "${PROBLEM_BUNDLE_FORMAT}"`);
+  }
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new ProblemBundleError('Bundle version must be a positive integer');
+  }
+  if (raw.version > PROBLEM_BUNDLE_VERSION) {
+    throw new ProblemBundleError(
+      `Bundle version ${raw.version} is newer than the supported version ${PROBLEM_BUNDLE_VERSION}`
+    );
+  }
+
+  const issues: ProblemBundleIssue[] = [];
+  const schemas = raw.schemas ?? {};
+  if (!isRecord(schemas) || Object.values(schemas).some(schema => typeof schema !== 'string')) {
+    issues.push({ field: 'schemas', message: 'schemas must map ids to SQL strings' });
+  }
+  if (!Array.isArray(raw.problems) || raw.problems.length === 0) {
+    issues.push({ field: 'problems', message: 'problems must be a non-empty list' });
+  } else {
+    const sharedIds = isRecord(schemas) ? new Set(Object.keys(schemas)) : new Set<string>();
+    const seenIds = new Set<string>();
+    raw.problems.forEach((problem, index) => {
+      issues.push(...checkProblemStructure(problem, index, sharedIds, seenIds));
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ProblemBundleError(`Problem bundle has ${issues.length} issue${issues.length === 1 ? '' : 's'}`, issues);
+  }
+
+  return { ...(raw as unknown as ProblemBundle), schemas: schemas as Record<string, string> };
+}
+
+/**
+ * Inline shared schemas, producing problems ready for the practice page.
+ */
+export function resolveBundleProblems(bundle: ProblemBundle): SQLProblem[] {
+  const resolve = (source: SchemaSource) => source.schema ?? bundle.schemas[source.schemaRef!];
+
+  return bundle.problems.map((problem): SQLProblem => {
+    const { schemaRef: _schemaRef, schema: _schema, hiddenDatasets, ...rest } = problem;
+    return {
+      ...rest,
+      schema: resolve(problem),
+      ...(hiddenDatasets?.length
+        ? {
+            hiddenDatasets: hiddenDatasets.map((dataset): SQLHiddenDataset => ({
+              id: dataset.id,
+              schema: resolve(dataset),
+            })),
+          }
+        : {}),
+    };
+  });
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Concept ids a bundle may tag problems with: the concept graph plus the ids
+ * the built-in catalog already uses (DML, EXISTS, COALESCE, ...), so an
+ * exported catalog validates on import.
+ */
+export const KNOWN_CONCEPT_IDS: ReadonlySet<string> = new Set([
+  ...Object.keys(CONCEPT_GRAPH),
+  ...sqlProblems.flatMap(problem => problem.concepts),
+]);
+
+/**
+ * Check that every concept is a known concept id and every
+ * expectedQuery (and state verification query) runs against the problem's
+ * schema and each hidden dataset.
+ */
+export async function validateProblemBundle(
+  bundle: ProblemBundle,
+  runQuery: BundleQueryRunner,
+  conceptIds: ReadonlySet<string> = KNOWN_CONCEPT_IDS
+): Promise<ProblemBundleIssue[]> {
+  const issues: ProblemBundleIssue[] = [];
+
+  for (const problem of resolveBundleProblems(bundle)) {
+    for (const concept of problem.concepts) {
+      if (!conceptIds.has(concept)) {
+        issues.push({ problemId: problem.id, field: 'concepts', message: `Unknown concept "${concept}"` });
+      }
+    }
+
+    const dialect = problem.dialect ?? 'sqlite';
+    const datasets = [{ label: 'schema', schema: problem.schema }]
+      .concat((problem.hiddenDatasets ?? []).map(dataset => ({ label: `hidden dataset ${dataset.id}`, schema: dataset.schema })));
+
+    for (const dataset of datasets) {
+      const error = await runQuery(dataset.schema, problem.expectedQuery, dialect);
+      if (error) {
+        issues.push({
+          problemId: problem.id,
+          field: 'expectedQuery',
+          message: `Fails against ${dataset.label}: ${error}`,
+        });
+      }
+    }
+
+    const verificationQuery = problem.stateVerification?.query;
+    if (verificationQuery) {
+      const error = await runQuery(problem.schema, `${problem.expectedQuery};\n${verificationQuery}`, dialect);
+      if (error) {
+        issues.push({ problemId: problem.id, field: 'stateVerification.query', message: error });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function formatBundleIssue(issue: ProblemBundleIssue): string {
+  return issue.problemId
+    ? `${issue.problemId} · ${issue.field}: ${issue.message}`
+    : `${issue.field}: ${issue.message}`;
+}
+
+function checkProblemStructure(
+  problem: unknown,
+  index: number,
+  sharedIds: Set<string>,
+  seenIds: Set<string>
+): ProblemBundleIssue[] {
+  if (!isRecord(problem)) {
+    return [{ field: `problems[${index}]`, message: 'Problem must be an object' }];
+  }
+
+  const problemId = typeof problem.id === 'string' && problem.id.trim() ? problem.id : undefined;
+  const issues: ProblemBundleIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ problemId: problemId ?? `problems[${index}]`, field, message });
+
+  if (!problemId) {
+    fail('id', 'id is required');
+  } else if (seenIds.has(problemId)) {
+    fail('id', 'Duplicate problem id');
+  } else {
+    seenIds.add(problemId);
+  }
+
+  for (const field of ['title', 'description', 'expectedQuery'] as const) {
+    if (typeof problem[field] !== 'string' || !(problem[field] as string).trim()) {
+      fail(field, `${field} is required`);
+    }
+  }
+  if (!DIFFICULTIES.includes(problem.difficulty as SQLProblem['difficulty'])) {
+    fail('difficulty', `difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+  if (!TOPICS.includes(problem.topic as SQLProblemTopic)) {
+    fail('topic', `topic must be one of ${TOPICS.join(', ')}`);
+  }
+  if (
+    typeof problem.topicDifficultyLevel !== 'number' ||
+    !Number.isInteger(problem.topicDifficultyLevel) ||
+    problem.topicDifficultyLevel < 1 ||
+    problem.topicDifficultyLevel > 5
+  ) {
+    fail('topicDifficultyLevel', 'topicDifficultyLevel must be an integer from 1 to 5');
+  }
+  if (!isStringArray(problem.concepts) || problem.concepts.length === 0) {
+    fail('concepts', 'concepts must be a non-empty list of concept ids');
+  }
+  if (problem.hints !== undefined && !isStringArray(problem.hints)) {
+    fail('hints', 'hints must be a list of strings');
+  }
+  if (problem.gradingMode !== undefined && !GRADING_MODES.includes(problem.gradingMode as SQLGradingMode)) {
+    fail('gradingMode', `gradingMode must be one of ${GRADING_MODES.join(', ')}`);
+  }
+  if (problem.dialect !== undefined && !DIALECTS.includes(problem.dialect as SQLDialect)) {
+    fail('dialect', `dialect must be one of ${DIALECTS.join(', ')}`);
+  }
+  if (problem.expectedResult !== undefined && !Array.isArray(problem.expectedResult)) {
+    fail('expectedResult', 'expectedResult must be a list of rows');
+  }
+  if (problem.stateVerification !== undefined && !isStateVerification(problem.stateVerification)) {
+    fail('stateVerification', 'stateVerification must have a query string and/or a list of tables');
+  }
+
+  const schemaIssue = checkSchemaSource(problem, sharedIds);
+  if (schemaIssue) fail('schema', schemaIssue);
+
+  if (problem.hiddenDatasets !== undefined) {
+    if (!Array.isArray(problem.hiddenDatasets)) {
+      fail('hiddenDatasets', 'hiddenDatasets must be a list');
+    } else {
+      problem.hiddenDatasets.forEach((dataset, datasetIndex) => {
+        const field = `hiddenDatasets[${datasetIndex}]`;
+        if (!isRecord(dataset) || typeof dataset.id !== 'string' || !dataset.id.trim()) {
+          fail(field, 'Hidden dataset needs an id');
+          return;
+        }
+        const datasetIssue = checkSchemaSource(dataset, sharedIds);
+        if (datasetIssue) fail(field, datasetIssue);
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkSchemaSource(source: Record<string, unknown>, sharedIds: Set<string>): string | null {
+  const hasInline = typeof source.schema === 'string' && source.schema.trim() !== '';
+  const hasRef = typeof source.schemaRef === 'string';
+  if (hasInline === hasRef) {
+    return 'Give exactly one of schema or schemaRef';
+  }
+  if (hasRef && !sharedIds.has(source.schemaRef as string)) {
+    return `schemaRef "${source.schemaRef}" is not in the bundle's schemas`;
+  }
+  return null;
+}
+
+function isStateVerification(value: unknown): value is SQLStateVerification {
+  if (!isRecord(value)) return false;
+  if (value.query !== undefined && typeof value.query !== 'string') return false;
+  if (value.tables !== undefined && !isStringArray(value.tables)) return false;
+  return value.query !== undefined || value.tables !== undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
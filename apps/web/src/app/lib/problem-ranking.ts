@@ -44,8 +44,8 @@ export function getCompositeDifficulty(problem: SQLProblem): number {
  * Get the full list of problems sorted by composite difficulty.
  * Useful for displaying a curriculum map.
  */
-export function getProblemsByDifficultyRank(): SQLProblem[] {
-  return [...sqlProblems].sort((a, b) => {
+export function getProblemsByDifficultyRank(problems: SQLProblem[] = sqlProblems): SQLProblem[] {
+  return [...problems].sort((a, b) => {
     const scoreA = getCompositeDifficulty(a);
     const scoreB = getCompositeDifficulty(b);
     if (scoreA !== scoreB) {
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the EXPLAIN QUERY PLAN parser
+ *
+ * These tests verify:
+ * - Flat plan rows are rebuilt into a tree via parent ids
+ * - Scans, index searches, temp B-trees and correlated subqueries are tagged
+ * - SQLExecutor.explainQueryPlan explains one statement without running it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseQueryPlan, splitFirstStatement, summarizeQueryPlan } from './query-plan';
+import { SQLExecutor } from './sql-executor';
+
+describe('parseQueryPlan', () => {
+  it('nests children under their parent step', () => {
+    const plan = parseQueryPlan([
+      [2, 0, 216, 'SCAN u'],
+      [6, 0, 0, 'CORRELATED SCALAR SUBQUERY 1'],
+      [11, 6, 55, 'SEARCH o USING COVERING INDEX o_uid (uid=?)']
+    ]);
+
+    expect(plan).toHaveLength(2);
+    expect(plan[1].kind).toBe('correlated_subquery');
+    expect(plan[1].children).toHaveLength(1);
+    expect(plan[1].children[0]).toMatchObject({ kind: 'search', table: 'o', index: 'o_uid' });
+  });
+
+  it('tags scans, rowid searches and temp B-trees', () => {
+    const plan = parseQueryPlan([
+      [4, 0, 216, 'SCAN o'],
+      [6, 0, 45, 'SEARCH u USING INTEGER PRIMARY KEY (rowid=?)'],
+      [19, 0, 0, 'USE TEMP B-TREE FOR ORDER BY']
+    ]);
+
+    expect(plan.map(node => node.kind)).toEqual(['scan', 'search', 'temp_btree']);
+    expect(plan[0]).toMatchObject({ table: 'o', index: undefined });
+    expect(plan[1]).toMatchObject({ table: 'u', index: 'PRIMARY KEY' });
+    expect(plan[2].purpose).toBe('ORDER BY');
+  });
+
+  it('reads the purpose of compound-query temp B-trees', () => {
+    const plan = parseQueryPlan([
+      [1, 0, 0, 'COMPOUND QUERY'],
+      [2, 1, 0, 'LEFT-MOST SUBQUERY'],
+      [33, 1, 0, 'UNION USING TEMP B-TREE']
+    ]);
+
+    expect(plan[0].kind).toBe('compound');
+    expect(plan[0].children.map(node => node.kind)).toEqual(['subquery', 'temp_btree']);
+    expect(plan[0].children[1].purpose).toBe('UNION');
+  });
+});
+
+describe('summarizeQueryPlan', () => {
+  it('counts full scans, searches, temp B-trees and correlated subqueries', () => {
+    const summary = summarizeQueryPlan(parseQueryPlan([
+      [2, 0, 216, 'SCAN u'],
+      [6, 0, 0, 'CORRELATED SCALAR SUBQUERY 1'],
+      [11, 6, 55, 'SEARCH o USING COVERING INDEX o_uid (uid=?)'],
+      [20, 0, 0, 'USE TEMP B-TREE FOR GROUP BY']
+    ]));
+
+    expect(summary).toEqual({
+      nodeCount: 4,
+      fullScans: ['u'],
+      indexSearches: 1,
+      tempBTrees: ['GROUP BY'],
+      correlatedSubqueries: 1
+    });
+  });
+});
+
+describe('splitFirstStatement', () => {
+  it('ignores semicolons inside string literals', () => {
+    expect(splitFirstStatement("SELECT 'a;b' FROM t;")).toEqual({ statement: "SELECT 'a;b' FROM t", hasMore: false });
+  });
+
+  it('reports trailing statements', () => {
+    expect(splitFirstStatement('SELECT 1; DELETE FROM t').hasMore).toBe(true);
+  });
+});
+
+describe('SQLExecutor.explainQueryPlan', () => {
+  let executor: SQLExecutor;
+
+  beforeEach(async () => {
+    executor = new SQLExecutor();
+    await executor.initialize(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER);
+      CREATE INDEX idx_orders_user ON orders(user_id);
+      INSERT INTO users VALUES (1, 'Alice');
+    `);
+  });
+
+  afterEach(() => {
+    executor.close();
+  });
+
+  it('explains a join with ORDER BY', async () => {
+    const explanation = await executor.explainQueryPlan(
+      'SELECT u.name FROM users u JOIN orders o ON o.user_id = u.id ORDER BY u.name;'
+    );
+
+    expect(explanation.success).toBe(true);
+    if (!explanation.success) return;
+    expect(explanation.summary.fullScans.length).toBeGreaterThan(0);
+    expect(explanation.summary.indexSearches).toBeGreaterThan(0);
+    expect(explanation.summary.tempBTrees).toContain('ORDER BY');
+  });
+
+  it('does not execute the explained statement', async () => {
+    const explanation = await executor.explainQueryPlan('DELETE FROM users');
+    const remaining = await executor.executeQuery('SELECT COUNT(*) FROM users');
+
+    expect(explanation.success).toBe(true);
+    expect(remaining.values).toEqual([[1]]);
+  });
+
+  it('refuses multiple statements', async () => {
+    const explanation = await executor.explainQueryPlan('SELECT * FROM users; DROP TABLE users');
+
+    expect(explanation.success).toBe(false);
+    const tables = await executor.executeQuery("SELECT name FROM sqlite_master WHERE name = 'users'");
+    expect(tables.values).toEqual([['users']]);
+  });
+
+  it('returns SQLite errors for invalid queries', async () => {
+    const explanation = await executor.explainQueryPlan('SELECT * FROM missing_table');
+
+    expect(explanation.success).toBe(false);
+    if (explanation.success) return;
+    expect(explanation.error).toContain('no such table');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Query Plan — parses SQLite EXPLAIN QUERY PLAN output into a tree.
+ *
+ * EXPLAIN QUERY PLAN returns flat (id, parent, notused, detail) rows. This
+ * module rebuilds the tree from the parent links and tags each node with
+ * the concept learners should notice: a full table scan, an index search,
+ * a temporary B-tree built for ORDER BY / GROUP BY / DISTINCT, or a
+ * correlated subquery that re-runs for every outer row.
+ *
+ * Pure functions only; execution lives in SQLExecutor.explainQueryPlan.
+ */
+
+/**
+ * What a plan step does
+ */
+export type QueryPlanNodeKind =
+  | 'scan'
+  | 'search'
+  | 'temp_btree'
+  | 'correlated_subquery'
+  | 'subquery'
+  | 'compound'
+  | 'other';
+
+export interface QueryPlanNode {
+  /** Plan row id (unique within one plan) */
+  id: number;
+  /** Parent row id, 0 for top-level steps */
+  parentId: number;
+  /** Raw SQLite detail text, e.g. "SEARCH u USING INTEGER PRIMARY KEY (rowid=?)" */
+  detail: string;
+  kind: QueryPlanNodeKind;
+  /** Table (or alias/CTE) read by a scan or search */
+  table?: string;
+  /** Index used by a scan or search */
+  index?: string;
+  /** Clause a temp B-tree serves, e.g. 'ORDER BY', 'GROUP BY', 'DISTINCT' */
+  purpose?: string;
+  children: QueryPlanNode[];
+}
+
+/**
+ * Counts used for logging and the plan legend
+ */
+export interface QueryPlanSummary {
+  nodeCount: number;
+  /** Tables read row by row without an index */
+  fullScans: string[];
+  indexSearches: number;
+  /** Clauses that needed a temporary B-tree */
+  tempBTrees: string[];
+  correlatedSubqueries: number;
+}
+
+export type QueryPlanResult =
+  | { success: true; query: string; plan: QueryPlanNode[]; summary: QueryPlanSummary }
+  | { success: false; query: string; error: string };
+
+const TABLE_STEP = /^(SCAN|SEARCH)\s+(?:TABLE\s+)?(\S+)(?:\s+AS\s+\S+)?(?:\s+USING\s+(?:(?:COVERING\s+)?INDEX\s+(\S+)|(INTEGER PRIMARY KEY)))?/i;
+
+function classifyDetail(detail: string): Pick<QueryPlanNode, 'kind' | 'table' | 'index' | 'purpose'> {
+  const tableStep = TABLE_STEP.exec(detail);
+  if (tableStep) {
+    const [, verb, table, index, rowid] = tableStep;
+    // A scan that walks a covering index is still a scan of every row
+    return {
+      kind: verb.toUpperCase() === 'SEARCH' ? 'search' : 'scan',
+      table,
+      index: index ?? (rowid ? 'PRIMARY KEY' : undefined)
+    };
+  }
+
+  const tempBTree = /TEMP B-TREE(?:\s+FOR\s+(.+))?$/i.exec(detail);
+  if (tempBTree) {
+    const purpose = tempBTree[1] ?? /^(\w+)\s+USING/i.exec(detail)?.[1];
+    return { kind: 'temp_btree', purpose: purpose?.toUpperCase() };
+  }
+
+  if (/^CORRELATED\b/i.test(detail)) return { kind: 'correlated_subquery' };
+  if (/^COMPOUND QUERY/i.test(detail)) return { kind: 'compound' };
+  if (/SUBQUERY|MATERIALIZE|CO-ROUTINE/i.test(detail)) return { kind: 'subquery' };
+  return { kind: 'other' };
+}
+
+/**
+ * Builds the plan tree from EXPLAIN QUERY PLAN rows.
+ *
+ * @param rows - Result values in (id, parent, notused, detail) column order
+ * @returns Top-level plan steps in execution order
+ */
+export function parseQueryPlan(rows: unknown[][]): QueryPlanNode[] {
+  const nodes = new Map<number, QueryPlanNode>();
+  const roots: QueryPlanNode[] = [];
+
+  for (const row of rows) {
+    const [id, parentId, , detail] = row;
+    const node: QueryPlanNode = {
+      id: Number(id),
+      parentId: Number(parentId),
+      detail: String(detail ?? ''),
+      children: [],
+      ...classifyDetail(String(detail ?? ''))
+    };
+    nodes.set(node.id, node);
+
+    // SQLite emits parents before children, so the parent is already known
+    const parent = nodes.get(node.parentId);
+    if (parent && node.parentId !== 0) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Summarizes a plan tree for logging and display
+ */
+export function summarizeQueryPlan(plan: QueryPlanNode[]): QueryPlanSummary {
+  const summary: QueryPlanSummary = {
+    nodeCount: 0,
+    fullScans: [],
+    indexSearches: 0,
+    tempBTrees: [],
+    correlatedSubqueries: 0
+  };
+
+  const visit = (node: QueryPlanNode) => {
+    summary.nodeCount++;
+    if (node.kind === 'scan' && node.table && !node.index) summary.fullScans.push(node.table);
+    if (node.kind === 'search') summary.indexSearches++;
+    if (node.kind === 'temp_btree' && node.purpose) summary.tempBTrees.push(node.purpose);
+    if (node.kind === 'correlated_subquery') summary.correlatedSubqueries++;
+    node.children.forEach(visit);
+  };
+  plan.forEach(visit);
+
+  return summary;
+}
+
+/**
+ * Returns the first statement of `sql` and whether anything follows it.
+ * Semicolons inside string literals and quoted identifiers are ignored.
+ * Expects comments to be stripped already.
+ */
+export function splitFirstStatement(sql: string): { statement: string; hasMore: boolean } {
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '[') {
+      quote = ']';
+    } else if (char === ';') {
+      return { statement: sql.slice(0, i).trim(), hasMore: sql.slice(i + 1).trim().length > 0 };
+    }
+  }
+
+  return { statement: sql.trim(), hasMore: false };
+}
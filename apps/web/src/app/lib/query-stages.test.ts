@@ -0,0 +1,186 @@
+/**
+ * Unit tests for step-through SELECT evaluation
+ *
+ * These tests verify:
+ * - SELECT statements split into clauses at the top level only
+ * - One stage query per clause, in logical evaluation order
+ * - Stage traces run through SQLExecutor, tolerating stages that cannot run alone
+ * - Divergence detection names the first stage that departs from the solution
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  buildQueryStages,
+  describeStageDivergence,
+  findStageDivergence,
+  parseSelectClauses,
+  traceQueryStages
+} from './query-stages';
+import { SQLExecutor } from './sql-executor';
+
+const schema = `
+  CREATE TABLE employees (id INTEGER PRIMARY KEY, name TEXT, dept TEXT, salary INTEGER);
+  INSERT INTO employees VALUES
+    (1, 'Ana', 'Eng', 120),
+    (2, 'Ben', 'Eng', 90),
+    (3, 'Cy', 'Sales', 70),
+    (4, 'Di', 'Sales', 95),
+    (5, 'Ed', 'HR', 60),
+    (6, 'Flo', 'Eng', 105);
+`;
+
+describe('parseSelectClauses', () => {
+  it('splits every clause of a grouped query', () => {
+    const clauses = parseSelectClauses(
+      'SELECT DISTINCT dept, COUNT(*) AS n FROM employees WHERE salary > 50 GROUP BY dept HAVING COUNT(*) > 1 ORDER BY n DESC LIMIT 2'
+    );
+
+    expect(clauses).toEqual({
+      with: undefined,
+      distinct: true,
+      select: 'dept, COUNT(*) AS n',
+      from: 'employees',
+      where: 'salary > 50',
+      groupBy: 'dept',
+      having: 'COUNT(*) > 1',
+      orderBy: 'n DESC',
+      limit: '2'
+    });
+  });
+
+  it('ignores keywords inside subqueries and strings', () => {
+    const clauses = parseSelectClauses(
+      "SELECT name FROM employees WHERE salary > (SELECT AVG(salary) FROM employees WHERE dept = 'order by')"
+    );
+
+    expect(clauses?.from).toBe('employees');
+    expect(clauses?.where).toBe("salary > (SELECT AVG(salary) FROM employees WHERE dept = 'order by')");
+    expect(clauses?.orderBy).toBeUndefined();
+  });
+
+  it('keeps a WITH prefix and does not split identifiers containing keywords', () => {
+    const clauses = parseSelectClauses('WITH t AS (SELECT * FROM employees) SELECT order_total FROM t');
+
+    expect(clauses?.with).toBe('WITH t AS (SELECT * FROM employees)');
+    expect(clauses?.select).toBe('order_total');
+    expect(clauses?.from).toBe('t');
+  });
+
+  it('rejects compound queries and non-SELECT statements', () => {
+    expect(parseSelectClauses('SELECT name FROM employees UNION SELECT dept FROM employees')).toBeNull();
+    expect(parseSelectClauses("UPDATE employees SET name = 'x'")).toBeNull();
+  });
+});
+
+describe('buildQueryStages', () => {
+  it('orders stages by evaluation, not by writing order', () => {
+    const stages = buildQueryStages(parseSelectClauses(
+      'SELECT dept, COUNT(*) FROM employees WHERE salary > 80 GROUP BY dept HAVING COUNT(*) > 1 ORDER BY dept LIMIT 1'
+    )!);
+
+    expect(stages.map(stage => stage.kind)).toEqual(['from', 'where', 'group_by', 'having', 'select', 'order_by', 'limit']);
+    expect(stages[0].sql).toBe('SELECT * FROM employees');
+    expect(stages[2].sql).toBe('SELECT dept, COUNT(*) AS group_rows FROM employees WHERE salary > 80 GROUP BY dept');
+  });
+
+  it('only builds stages for clauses that are present', () => {
+    const stages = buildQueryStages(parseSelectClauses('SELECT name FROM employees')!);
+
+    expect(stages.map(stage => stage.kind)).toEqual(['from', 'select']);
+  });
+});
+
+describe('traceQueryStages and findStageDivergence', () => {
+  let executor: SQLExecutor;
+
+  beforeEach(async () => {
+    executor = new SQLExecutor();
+    await executor.initialize(schema);
+  });
+
+  afterEach(() => {
+    executor.close();
+  });
+
+  it('runs every stage and shows the intermediate row counts', async () => {
+    const trace = await traceQueryStages(
+      executor,
+      'SELECT dept, COUNT(*) AS n FROM employees WHERE salary > 80 GROUP BY dept HAVING COUNT(*) > 1;'
+    );
+
+    expect(trace.success).toBe(true);
+    if (!trace.success) return;
+    expect(trace.stages.map(stage => stage.result.values?.length)).toEqual([6, 4, 2, 1, 1]);
+  });
+
+  it('keeps a stage that cannot run on its own as an error', async () => {
+    const trace = await traceQueryStages(
+      executor,
+      "SELECT CASE WHEN salary > 100 THEN 'high' ELSE 'low' END AS band, COUNT(*) FROM employees GROUP BY band"
+    );
+
+    expect(trace.success).toBe(true);
+    if (!trace.success) return;
+    const groupStage = trace.stages.find(stage => stage.kind === 'group_by');
+    expect(groupStage?.result.success).toBe(false);
+    expect(trace.stages.find(stage => stage.kind === 'select')?.result.success).toBe(true);
+  });
+
+  it('rejects multiple statements', async () => {
+    const trace = await traceQueryStages(executor, 'SELECT * FROM employees; DELETE FROM employees');
+
+    expect(trace.success).toBe(false);
+  });
+
+  it('finds a missing WHERE at the WHERE stage', async () => {
+    const divergence = await findStageDivergence(
+      executor,
+      'SELECT name FROM employees',
+      "SELECT name FROM employees WHERE dept = 'Eng'"
+    );
+
+    expect(divergence).toEqual({ stage: 'where', label: 'WHERE', actualRowCount: 6, expectedRowCount: 3 });
+  });
+
+  it('finds a wrong HAVING threshold at the HAVING stage', async () => {
+    const divergence = await findStageDivergence(
+      executor,
+      'SELECT dept, COUNT(*) FROM employees GROUP BY dept HAVING COUNT(*) > 0',
+      'SELECT dept, COUNT(*) FROM employees GROUP BY dept HAVING COUNT(*) > 1'
+    );
+
+    expect(divergence?.stage).toBe('having');
+    expect(divergence?.actualRowCount).toBe(3);
+    expect(divergence?.expectedRowCount).toBe(2);
+  });
+
+  it('finds a wrong sort direction at the ORDER BY stage', async () => {
+    const divergence = await findStageDivergence(
+      executor,
+      'SELECT name FROM employees ORDER BY salary',
+      'SELECT name FROM employees ORDER BY salary DESC'
+    );
+
+    expect(divergence?.stage).toBe('order_by');
+  });
+
+  it('returns null when the pipelines match', async () => {
+    const divergence = await findStageDivergence(
+      executor,
+      'select name from employees where salary >= 100',
+      'SELECT name FROM employees WHERE salary >= 100'
+    );
+
+    expect(divergence).toBeNull();
+  });
+});
+
+describe('describeStageDivergence', () => {
+  it('names the stage and both row counts', () => {
+    const text = describeStageDivergence({ stage: 'group_by', label: 'GROUP BY', actualRowCount: 1, expectedRowCount: 3 });
+
+    expect(text).toContain('GROUP BY step');
+    expect(text).toContain('1 row there');
+    expect(text).toContain('3 rows');
+  });
+});
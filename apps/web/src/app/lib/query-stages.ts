@@ -0,0 +1,322 @@
+/**
+ * Query Stages — step-through evaluation of a SELECT statement.
+ *
+ * Splits a single SELECT into its logical evaluation order
+ * (FROM/JOIN → WHERE → GROUP BY → HAVING → SELECT → ORDER BY → LIMIT),
+ * builds one runnable query per stage that shows the intermediate table,
+ * and runs them through SQLExecutor. Comparing the learner's stages with
+ * the expectedQuery's stages finds the first step where the two diverge,
+ * which rung-2 hints point to.
+ *
+ * Only plain SELECTs (optionally with a WITH prefix) are decomposed;
+ * compound queries and other statements are reported as unsupported.
+ */
+
+import type { QueryResult, SQLExecutor } from './sql-executor';
+import { splitFirstStatement } from './query-plan';
+
+export type QueryStageKind = 'from' | 'where' | 'group_by' | 'having' | 'select' | 'order_by' | 'limit';
+
+/** Logical evaluation order of SELECT clauses */
+export const QUERY_STAGE_ORDER: QueryStageKind[] = ['from', 'where', 'group_by', 'having', 'select', 'order_by', 'limit'];
+
+export const QUERY_STAGE_LABELS: Record<QueryStageKind, string> = {
+  from: 'FROM / JOIN',
+  where: 'WHERE',
+  group_by: 'GROUP BY',
+  having: 'HAVING',
+  select: 'SELECT',
+  order_by: 'ORDER BY',
+  limit: 'LIMIT'
+};
+
+/**
+ * Clause text of a single SELECT statement (without the keywords)
+ */
+export interface SelectClauses {
+  /** Full WITH ... prefix, reused by every stage */
+  with?: string;
+  distinct: boolean;
+  select: string;
+  from?: string;
+  where?: string;
+  groupBy?: string;
+  having?: string;
+  orderBy?: string;
+  limit?: string;
+}
+
+export interface QueryStage {
+  kind: QueryStageKind;
+  label: string;
+  /** Query that produces the intermediate table after this stage */
+  sql: string;
+}
+
+export interface QueryStageResult extends QueryStage {
+  result: QueryResult;
+}
+
+export type QueryStageTrace =
+  | { success: true; query: string; stages: QueryStageResult[] }
+  | { success: false; query: string; error: string };
+
+/**
+ * First stage where the learner's intermediate table differs from the
+ * expected query's
+ */
+export interface QueryStageDivergence {
+  stage: QueryStageKind;
+  label: string;
+  /** Rows in the learner's intermediate table at that stage */
+  actualRowCount: number;
+  /** Rows in the expected intermediate table at that stage */
+  expectedRowCount: number;
+}
+
+type ClauseKeyword = 'select' | 'from' | 'where' | 'group' | 'having' | 'order' | 'limit';
+
+const KEYWORD_PATTERN = /(select|from|where|group\s+by|having|order\s+by|limit|union|intersect|except|window)\b/iy;
+
+const CLAUSE_SEQUENCE: ClauseKeyword[] = ['select', 'from', 'where', 'group', 'having', 'order', 'limit'];
+
+/**
+ * Finds top-level clause keywords (outside parentheses, strings and quoted
+ * identifiers). Returns null for compound queries or repeated clauses.
+ */
+function findTopLevelKeywords(sql: string): Array<{ keyword: ClauseKeyword; start: number; end: number }> | null {
+  const found: Array<{ keyword: ClauseKeyword; start: number; end: number }> = [];
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+      continue;
+    }
+    if (char === '[') {
+      quote = ']';
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+      continue;
+    }
+    if (char === ')') {
+      depth--;
+      continue;
+    }
+    if (depth !== 0 || (i > 0 && /[\w$]/.test(sql[i - 1]))) continue;
+
+    KEYWORD_PATTERN.lastIndex = i;
+    const match = KEYWORD_PATTERN.exec(sql);
+    if (!match) continue;
+
+    const word = match[1].toLowerCase().split(/\s+/)[0];
+    if (word === 'union' || word === 'intersect' || word === 'except' || word === 'window') return null;
+    const keyword = word as ClauseKeyword;
+    if (found.some(entry => entry.keyword === keyword)) return null;
+    found.push({ keyword, start: i, end: i + match[0].length });
+    i += match[0].length - 1;
+  }
+
+  return found;
+}
+
+/**
+ * Splits a single SELECT statement into clause texts.
+ *
+ * @param sql - One statement with comments already stripped
+ * @returns Clauses, or null when the statement is not a plain SELECT
+ */
+export function parseSelectClauses(sql: string): SelectClauses | null {
+  const keywords = findTopLevelKeywords(sql);
+  if (!keywords || keywords.length === 0 || keywords[0].keyword !== 'select') return null;
+
+  // Clauses must appear in SQL's written order
+  const positions = keywords.map(entry => CLAUSE_SEQUENCE.indexOf(entry.keyword));
+  if (positions.some((position, idx) => idx > 0 && position <= positions[idx - 1])) return null;
+
+  const prefix = sql.slice(0, keywords[0].start).trim();
+  if (prefix && !/^with\b/i.test(prefix)) return null;
+
+  const text: Partial<Record<ClauseKeyword, string>> = {};
+  keywords.forEach((entry, idx) => {
+    const end = idx + 1 < keywords.length ? keywords[idx + 1].start : sql.length;
+    text[entry.keyword] = sql.slice(entry.end, end).trim();
+  });
+
+  let select = text.select ?? '';
+  const distinct = /^distinct\b/i.test(select);
+  if (distinct) select = select.replace(/^distinct\b/i, '').trim();
+  if (!select) return null;
+
+  return {
+    with: prefix || undefined,
+    distinct,
+    select,
+    from: text.from,
+    where: text.where,
+    groupBy: text.group,
+    having: text.having,
+    orderBy: text.order,
+    limit: text.limit
+  };
+}
+
+/**
+ * Builds one query per stage present in the statement.
+ * GROUP BY and HAVING stages show the group keys with their row counts.
+ */
+export function buildQueryStages(clauses: SelectClauses): QueryStage[] {
+  const prefix = clauses.with ? `${clauses.with} ` : '';
+  const stages: QueryStage[] = [];
+  const add = (kind: QueryStageKind, sql: string) => {
+    stages.push({ kind, label: QUERY_STAGE_LABELS[kind], sql: `${prefix}${sql}` });
+  };
+
+  let source = clauses.from ? ` FROM ${clauses.from}` : '';
+  if (clauses.from) {
+    add('from', `SELECT *${source}`);
+    if (clauses.where) {
+      source += ` WHERE ${clauses.where}`;
+      add('where', `SELECT *${source}`);
+    }
+  }
+
+  if (clauses.groupBy) {
+    source += ` GROUP BY ${clauses.groupBy}`;
+    add('group_by', `SELECT ${clauses.groupBy}, COUNT(*) AS group_rows${source}`);
+  }
+  if (clauses.having) {
+    source += ` HAVING ${clauses.having}`;
+    if (clauses.groupBy) {
+      add('having', `SELECT ${clauses.groupBy}, COUNT(*) AS group_rows${source}`);
+    }
+  }
+
+  let projected = `SELECT ${clauses.distinct ? 'DISTINCT ' : ''}${clauses.select}${source}`;
+  add('select', projected);
+  if (clauses.orderBy) {
+    projected += ` ORDER BY ${clauses.orderBy}`;
+    add('order_by', projected);
+  }
+  if (clauses.limit) {
+    projected += ` LIMIT ${clauses.limit}`;
+    add('limit', projected);
+  }
+
+  return stages;
+}
+
+/**
+ * Decomposes a SELECT and runs every stage.
+ * A stage that cannot run on its own (e.g. GROUP BY on a SELECT alias)
+ * keeps its error result; later stages still run.
+ *
+ * @param executor - Executor initialized with the problem schema
+ * @param query - Learner SQL
+ */
+export async function traceQueryStages(executor: SQLExecutor, query: string): Promise<QueryStageTrace> {
+  const { statement, hasMore } = splitFirstStatement(stripComments(query));
+  if (!statement) {
+    return { success: false, query, error: 'Write a query to step through first.' };
+  }
+  if (hasMore) {
+    return { success: false, query, error: 'Steps work on one statement at a time. Remove everything after the first semicolon.' };
+  }
+
+  const clauses = parseSelectClauses(statement);
+  if (!clauses) {
+    return {
+      success: false,
+      query,
+      error: 'Steps are available for single SELECT queries (no UNION, INTERSECT or EXCEPT).'
+    };
+  }
+
+  const stages: QueryStageResult[] = [];
+  for (const stage of buildQueryStages(clauses)) {
+    stages.push({ ...stage, result: await executor.executeQuery(stage.sql) });
+  }
+  return { success: true, query, stages };
+}
+
+/** Latest stage at or before `kind` in evaluation order */
+function stageAsOf(stages: QueryStageResult[], kind: QueryStageKind): QueryStageResult | undefined {
+  const limit = QUERY_STAGE_ORDER.indexOf(kind);
+  let latest: QueryStageResult | undefined;
+  for (const stage of stages) {
+    if (QUERY_STAGE_ORDER.indexOf(stage.kind) <= limit) latest = stage;
+  }
+  return latest;
+}
+
+/**
+ * Finds the first stage where the learner's intermediate table differs
+ * from the expected query's. Stages missing on one side are compared
+ * against that side's latest earlier stage, so a missing WHERE diverges at
+ * WHERE. Stages that fail to run on either side are skipped.
+ *
+ * @param executor - Executor initialized with the problem schema
+ * @param query - Learner SQL
+ * @param expectedQuery - Reference solution
+ * @returns The divergent stage, or null when both decompose identically
+ *          or either query cannot be decomposed
+ */
+export async function findStageDivergence(
+  executor: SQLExecutor,
+  query: string,
+  expectedQuery: string
+): Promise<QueryStageDivergence | null> {
+  const actual = await traceQueryStages(executor, query);
+  const expected = await traceQueryStages(executor, expectedQuery);
+  if (!actual.success || !expected.success) return null;
+
+  const expectedOrdered = expected.stages.some(stage => stage.kind === 'order_by');
+
+  for (const kind of QUERY_STAGE_ORDER) {
+    const actualStage = stageAsOf(actual.stages, kind);
+    const expectedStage = stageAsOf(expected.stages, kind);
+    if (!actualStage || !expectedStage) continue;
+    if (actualStage.kind !== kind && expectedStage.kind !== kind) continue;
+    if (!actualStage.result.success || !expectedStage.result.success) continue;
+
+    const actualRows = executor.formatResults(actualStage.result);
+    const expectedRows = executor.formatResults(expectedStage.result);
+    const ordered = expectedOrdered && (kind === 'order_by' || kind === 'limit');
+    const comparison = executor.compareResults(actualRows, expectedRows, ordered ? 'ordered-result' : 'result');
+
+    if (!comparison.match) {
+      return {
+        stage: kind,
+        label: QUERY_STAGE_LABELS[kind],
+        actualRowCount: actualRows.length,
+        expectedRowCount: expectedRows.length
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Learner-facing sentence pointing to the divergent stage (no solution data
+ * beyond row counts)
+ */
+export function describeStageDivergence(divergence: QueryStageDivergence): string {
+  const rows = (count: number) => `${count} ${count === 1 ? 'row' : 'rows'}`;
+  const counts = divergence.actualRowCount === divergence.expectedRowCount
+    ? `Both have ${rows(divergence.actualRowCount)} there, but the values differ.`
+    : `Your query has ${rows(divergence.actualRowCount)} there; the solution has ${rows(divergence.expectedRowCount)}.`;
+  return `Your intermediate result first goes wrong at the ${divergence.label} step. ${counts} Use "Steps" to compare.`;
+}
+
+function stripComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, ' ').replace(/\/\*[\s\S]*?\*\//g, ' ');
+}
@@ -5,7 +5,7 @@
  * Enables comparison of different LLM-assisted policy variants.
  */
 
-import type { InteractionEvent, InstructionalUnit } from '../../types';
+import type { InteractionEvent, InstructionalUnit, LLMProvider } from '../../types';
 
 /**
  * Policy variant definition for comparison
@@ -17,8 +17,8 @@ export type PolicyVariant = {
   name: string;
   /** Description of the policy */
   description: string;
-  /** Provider used (ollama or groq) */
-  provider: 'ollama' | 'groq';
+  /** Provider used */
+  provider: LLMProvider;
   /** Model used */
   model: string;
   /** Generation mode */
@@ -267,3 +267,51 @@ export function exportComparisonAsCSV(result: ComparisonResult): string {
 
   return [headers, ...rows].join('\n');
 }
+
+/**
+ * Server prompt template version stamped on an llm_generate or LLM hint_view
+ * event, if any. Events logged before the prompt registry carry none.
+ */
+export function getTemplateVersion(event: InteractionEvent): string | null {
+  const version = event.outputs?.template_version;
+  return typeof version === 'string' && version.length > 0 ? version : null;
+}
+
+/**
+ * Split an event log by the prompt version each session drew for a template
+ * family, for use as the eventLog of compareVariants.
+ *
+ * The server assigns versions per learner and condition, so a session is put
+ * in the arm of its first generation from the family. Sessions that never
+ * generated from the family are left out.
+ *
+ * @param events - Interaction events across learners and sessions
+ * @param family - Template family, e.g. 'explanation'
+ * @returns Events keyed by template version id
+ */
+export function splitEventsByTemplateVersion(
+  events: InteractionEvent[],
+  family: string
+): Record<string, InteractionEvent[]> {
+  const sessionKey = (event: InteractionEvent) => `${event.learnerId}::${event.sessionId ?? ''}`;
+  const versionBySession = new Map<string, string>();
+
+  const generations = events
+    .filter(e => e.eventType === 'llm_generate' || e.eventType === 'hint_view')
+    .sort((a, b) => a.timestamp - b.timestamp);
+  for (const event of generations) {
+    const version = getTemplateVersion(event);
+    const key = sessionKey(event);
+    if (version?.startsWith(`${family}.`) && !versionBySession.has(key)) {
+      versionBySession.set(key, version);
+    }
+  }
+
+  const split: Record<string, InteractionEvent[]> = {};
+  for (const event of events) {
+    const version = versionBySession.get(sessionKey(event));
+    if (!version) continue;
+    (split[version] ??= []).push(event);
+  }
+  return split;
+}
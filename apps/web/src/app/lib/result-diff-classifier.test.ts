@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SQLExecutor } from './sql-executor';
+import { classifyResultMismatch } from './result-diff-classifier';
+import type { SQLGradingMode } from '../types';
+
+const schema = `
+  CREATE TABLE departments (dept_id INTEGER PRIMARY KEY, dept_name TEXT);
+  CREATE TABLE employees (emp_id INTEGER PRIMARY KEY, emp_name TEXT, dept_id INTEGER, salary REAL);
+  INSERT INTO departments VALUES (1, 'Engineering'), (2, 'Sales'), (3, 'HR');
+  INSERT INTO employees VALUES
+    (1, 'Alice', 1, 90000), (2, 'Bob', 1, 75000), (3, 'Carol', 2, 70000),
+    (4, 'David', 2, 65000), (5, 'Eve', 3, 55000);
+`;
+
+describe('result-diff-classifier', () => {
+  let executor: SQLExecutor;
+
+  beforeEach(async () => {
+    executor = new SQLExecutor();
+    await executor.initialize(schema);
+  });
+
+  afterEach(() => {
+    executor.close();
+  });
+
+  async function classify(query: string, expectedQuery: string, mode: SQLGradingMode = 'result') {
+    const actual = executor.formatResults(await executor.executeQuery(query));
+    const expected = executor.formatResults(await executor.executeQuery(expectedQuery));
+    const comparison = executor.compareResults(actual, expected, mode);
+    return classifyResultMismatch({ query, actual, expected, comparison, expectedQuery });
+  }
+
+  it('returns null for matching results', async () => {
+    const classification = await classify('SELECT emp_name FROM employees', 'SELECT emp_name FROM employees');
+    expect(classification).toBeNull();
+  });
+
+  it('detects a missing WHERE filter', async () => {
+    const classification = await classify(
+      'SELECT emp_name FROM employees',
+      'SELECT emp_name FROM employees WHERE salary > 70000'
+    );
+    expect(classification).toEqual({ subtype: 'incomplete query', reason: 'missing_filter' });
+  });
+
+  it('detects a filter that is too loose', async () => {
+    const classification = await classify(
+      'SELECT emp_name FROM employees WHERE salary > 60000',
+      'SELECT emp_name FROM employees WHERE salary > 70000'
+    );
+    expect(classification?.reason).toBe('loose_filter');
+    expect(classification?.subtype).toBe('operator misuse');
+  });
+
+  it('detects a filter that drops expected rows', async () => {
+    const classification = await classify(
+      'SELECT emp_name FROM employees WHERE salary > 70000',
+      'SELECT emp_name FROM employees WHERE salary >= 70000'
+    );
+    expect(classification?.reason).toBe('over_filtered');
+  });
+
+  it('detects a missing join condition as row explosion', async () => {
+    const classification = await classify(
+      'SELECT e.emp_name, d.dept_name FROM employees e, departments d',
+      'SELECT e.emp_name, d.dept_name FROM employees e JOIN departments d ON e.dept_id = d.dept_id'
+    );
+    expect(classification).toEqual({ subtype: 'incorrect join usage', reason: 'row_explosion' });
+  });
+
+  it('detects a JOIN without ON', async () => {
+    const classification = await classify(
+      'SELECT e.emp_name, d.dept_name FROM employees e JOIN departments d',
+      'SELECT e.emp_name, d.dept_name FROM employees e JOIN departments d ON e.dept_id = d.dept_id'
+    );
+    expect(classification?.reason).toBe('row_explosion');
+  });
+
+  it('detects missing DISTINCT', async () => {
+    const classification = await classify(
+      'SELECT dept_id FROM employees',
+      'SELECT DISTINCT dept_id FROM employees'
+    );
+    expect(classification).toEqual({ subtype: 'incorrect distinct usage', reason: 'missing_distinct' });
+  });
+
+  it('detects wrong aggregation grouping', async () => {
+    const classification = await classify(
+      'SELECT COUNT(*) AS cnt FROM employees',
+      'SELECT dept_id, COUNT(*) AS cnt FROM employees GROUP BY dept_id'
+    );
+    expect(classification?.subtype).toBe('incorrect select usage');
+
+    const sameColumns = await classify(
+      'SELECT dept_id, COUNT(*) AS cnt FROM employees',
+      'SELECT dept_id, COUNT(*) AS cnt FROM employees GROUP BY dept_id'
+    );
+    expect(sameColumns).toEqual({ subtype: 'incorrect group by usage', reason: 'wrong_grouping' });
+  });
+
+  it('detects wrong aggregate values with the right shape', async () => {
+    const classification = await classify(
+      'SELECT dept_id, SUM(salary) AS total FROM employees GROUP BY dept_id',
+      'SELECT dept_id, AVG(salary) AS total FROM employees GROUP BY dept_id'
+    );
+    expect(classification).toEqual({ subtype: 'aggregation misuse', reason: 'wrong_aggregate_values' });
+  });
+
+  it('detects a wrong column set', async () => {
+    const classification = await classify(
+      'SELECT emp_name, salary FROM employees',
+      'SELECT emp_name FROM employees'
+    );
+    expect(classification).toEqual({ subtype: 'incorrect select usage', reason: 'wrong_columns' });
+  });
+
+  it('maps order-sensitive mismatches to ORDER BY usage', async () => {
+    const classification = await classify(
+      'SELECT emp_name, salary FROM employees ORDER BY salary',
+      'SELECT emp_name, salary FROM employees ORDER BY salary DESC',
+      'ordered-result'
+    );
+    expect(classification).toEqual({ subtype: 'incorrect order by usage', reason: 'row_order' });
+  });
+
+  it('returns null when no pattern applies', async () => {
+    const classification = await classify(
+      "SELECT emp_name FROM employees WHERE emp_name = 'Alice'",
+      "SELECT emp_name FROM employees WHERE emp_name = 'Bob'"
+    );
+    expect(classification).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Result Diff Classifier — infers SQL-Engage subtypes for wrong-result queries.
+ *
+ * normalizeSqlErrorSubtype only sees queries that throw. A query that runs
+ * but returns the wrong rows is the most common failure, so this module
+ * looks at the shape of the result diff (from compareResults) plus a light
+ * read of the query text to name the likely mistake: missing filter,
+ * missing join condition, wrong grouping, missing DISTINCT, wrong columns.
+ *
+ * Stateless and storage-free; returns null when no confident guess exists.
+ */
+
+import { canonicalizeSqlEngageSubtype } from '../data/sql-engage';
+import type { ResultComparison } from './sql-executor';
+
+/** Structural reason behind a wrong result */
+export type ResultDiffReason =
+  | 'row_order'
+  | 'column_order'
+  | 'wrong_columns'
+  | 'missing_distinct'
+  | 'row_explosion'
+  | 'missing_filter'
+  | 'loose_filter'
+  | 'over_filtered'
+  | 'wrong_having'
+  | 'wrong_grouping'
+  | 'wrong_aggregate_values';
+
+export interface ResultDiffClassification {
+  /** Canonical SQL-Engage subtype for hints and the orchestrator */
+  subtype: string;
+  reason: ResultDiffReason;
+}
+
+export interface ResultDiffInput {
+  /** Learner query text */
+  query: string;
+  /** Learner result rows (formatResults output) */
+  actual: Record<string, unknown>[];
+  /** Expected result rows */
+  expected: Record<string, unknown>[];
+  /** compareResults output for actual vs expected */
+  comparison: ResultComparison;
+  /** Reference solution, used to spot missing GROUP BY / DISTINCT */
+  expectedQuery?: string;
+}
+
+const REASON_SUBTYPES: Record<ResultDiffReason, string> = {
+  row_order: 'incorrect order by usage',
+  column_order: 'incorrect select usage',
+  wrong_columns: 'incorrect select usage',
+  missing_distinct: 'incorrect distinct usage',
+  row_explosion: 'incorrect join usage',
+  missing_filter: 'incomplete query',
+  loose_filter: 'operator misuse',
+  over_filtered: 'operator misuse',
+  wrong_having: 'incorrect having clause',
+  wrong_grouping: 'incorrect group by usage',
+  wrong_aggregate_values: 'aggregation misuse'
+};
+
+const AGGREGATE_PATTERN = /\b(count|sum|avg|min|max|group_concat|total)\s*\(/i;
+
+function stripSqlComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, ' ').replace(/\/\*[\s\S]*?\*\//g, ' ');
+}
+
+function hasClause(sql: string, pattern: RegExp): boolean {
+  return pattern.test(stripSqlComments(sql));
+}
+
+function isAggregateQuery(sql: string): boolean {
+  return hasClause(sql, /\bgroup\s+by\b/i) || hasClause(sql, AGGREGATE_PATTERN);
+}
+
+/**
+ * Detects a join whose condition is missing: JOIN without ON/USING,
+ * CROSS JOIN, or a comma-separated FROM list without a WHERE clause.
+ */
+function hasMissingJoinCondition(sql: string): boolean {
+  const clean = stripSqlComments(sql);
+  if (/\bcross\s+join\b/i.test(clean)) return true;
+  if (/\bjoin\b/i.test(clean) && !/\b(on|using)\b/i.test(clean) && !/\bnatural\s+join\b/i.test(clean)) {
+    return true;
+  }
+  const commaJoin = /\bfrom\s+[\w.]+(?:\s+(?:as\s+)?\w+)?\s*,\s*[\w.]+/i.test(clean);
+  return commaJoin && !/\bwhere\b/i.test(clean);
+}
+
+function normalizeCell(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  const numeric = Number(value);
+  if (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(numeric))) {
+    return String(Math.round(numeric * 100) / 100);
+  }
+  return String(value).trim();
+}
+
+/** Order-independent signature of a row: lower-cased column names with normalized values */
+function rowSignature(row: Record<string, unknown>): string {
+  return Object.keys(row)
+    .map(key => `${key.toLowerCase()}=${normalizeCell(row[key])}`)
+    .sort()
+    .join('|');
+}
+
+function countSignatures(rows: Record<string, unknown>[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const signature = rowSignature(row);
+    counts.set(signature, (counts.get(signature) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** True when every row in `inner` also appears in `outer` at least as many times */
+function isSubMultiset(inner: Map<string, number>, outer: Map<string, number>): boolean {
+  for (const [signature, count] of inner) {
+    if ((outer.get(signature) ?? 0) < count) return false;
+  }
+  return true;
+}
+
+function columnSet(rows: Record<string, unknown>[]): string[] {
+  return rows.length > 0 ? Object.keys(rows[0]).map(column => column.toLowerCase()).sort() : [];
+}
+
+function isExpressionColumn(column: string): boolean {
+  return column.includes('(') || column.includes(')');
+}
+
+function classifyReason(input: ResultDiffInput): ResultDiffReason | null {
+  const { query, actual, expected, comparison, expectedQuery = '' } = input;
+
+  if (comparison.mismatchKind === 'row_order') return 'row_order';
+  if (comparison.mismatchKind === 'column_order') return 'column_order';
+
+  // Column shape: only meaningful when both sides returned rows
+  const actualColumns = columnSet(actual);
+  const expectedColumns = columnSet(expected);
+  if (actualColumns.length > 0 && expectedColumns.length > 0) {
+    const sameColumns = actualColumns.length === expectedColumns.length &&
+      actualColumns.every((column, idx) => column === expectedColumns[idx]);
+    // Aliased expressions (COUNT(*) vs product_count) are graded by value, not name
+    const aliasTolerated = actualColumns.length === expectedColumns.length &&
+      (actualColumns.some(isExpressionColumn) || expectedColumns.some(isExpressionColumn));
+    if (!sameColumns && !aliasTolerated) return 'wrong_columns';
+  }
+
+  const actualCounts = countSignatures(actual);
+  const expectedCounts = countSignatures(expected);
+  const learnerAggregates = isAggregateQuery(query);
+  const expectedAggregates = isAggregateQuery(expectedQuery);
+
+  if (actual.length > expected.length) {
+    // Same distinct rows, just repeated: DISTINCT was dropped
+    const distinctMatches = actualCounts.size === expectedCounts.size &&
+      [...expectedCounts.keys()].every(signature => actualCounts.has(signature));
+    if (distinctMatches && [...expectedCounts.values()].every(count => count === 1)) {
+      return 'missing_distinct';
+    }
+    if (hasMissingJoinCondition(query)) return 'row_explosion';
+    if (expectedAggregates && !hasClause(query, /\bgroup\s+by\b/i) && !learnerAggregates) return 'wrong_grouping';
+    if (isSubMultiset(expectedCounts, actualCounts)) {
+      if (learnerAggregates && hasClause(query, /\bhaving\b/i)) return 'wrong_having';
+      return hasClause(query, /\bwhere\b/i) ? 'loose_filter' : 'missing_filter';
+    }
+    if (learnerAggregates || expectedAggregates) return 'wrong_grouping';
+    return null;
+  }
+
+  if (actual.length < expected.length) {
+    if (learnerAggregates && !expectedAggregates) return 'wrong_grouping';
+    if (expectedAggregates && hasClause(expectedQuery, /\bgroup\s+by\b/i) && !hasClause(query, /\bgroup\s+by\b/i)) {
+      return 'wrong_grouping';
+    }
+    if (isSubMultiset(actualCounts, expectedCounts)) {
+      return learnerAggregates && hasClause(query, /\bhaving\b/i) ? 'wrong_having' : 'over_filtered';
+    }
+    if (learnerAggregates || expectedAggregates) return 'wrong_grouping';
+    return null;
+  }
+
+  // Same row count, different values
+  if (learnerAggregates || expectedAggregates) return 'wrong_aggregate_values';
+  return null;
+}
+
+/**
+ * Classifies why a query that ran successfully returned the wrong result.
+ *
+ * @param input - Learner query, both result sets and their comparison
+ * @returns Canonical SQL-Engage subtype with its structural reason, or null
+ *          when the results match or no confident guess exists
+ */
+export function classifyResultMismatch(input: ResultDiffInput): ResultDiffClassification | null {
+  if (input.comparison.match) return null;
+  const reason = classifyReason(input);
+  if (!reason) return null;
+  return { subtype: canonicalizeSqlEngageSubtype(REASON_SUBTYPES[reason]), reason };
+}
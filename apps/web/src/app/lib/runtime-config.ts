@@ -76,6 +76,35 @@ export function isPDFIndexAvailable(): boolean {
   return enablePDF === 'true';
 }
 
+/**
+ * Limits applied to learner queries in the SQL sandbox worker
+ */
+export interface QuerySandboxLimits {
+  /** Wall-clock timeout per query in milliseconds */
+  timeoutMs: number;
+  /** Maximum rows a single query may produce */
+  maxRows: number;
+}
+
+const DEFAULT_QUERY_TIMEOUT_MS = 5000;
+const DEFAULT_QUERY_MAX_ROWS = 1000;
+
+function readPositiveInt(value: unknown, fallback: number): number {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Get query sandbox limits
+ * Configurable via VITE_SQL_QUERY_TIMEOUT_MS and VITE_SQL_MAX_RESULT_ROWS
+ */
+export function getQuerySandboxLimits(): QuerySandboxLimits {
+  return {
+    timeoutMs: readPositiveInt(import.meta.env.VITE_SQL_QUERY_TIMEOUT_MS, DEFAULT_QUERY_TIMEOUT_MS),
+    maxRows: readPositiveInt(import.meta.env.VITE_SQL_MAX_RESULT_ROWS, DEFAULT_QUERY_MAX_ROWS)
+  };
+}
+
 /**
  * Check if running in hosted mode (Vercel/Netlify static hosting)
  * This affects feature availability for backend-dependent features
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for PostgreSQL dialect checks
+ *
+ * These tests verify:
+ * - SQLite-isms PostgreSQL rejects are flagged with a position and suggestion
+ * - Case-insensitive LIKE is reported as a behavior difference
+ * - Bare columns next to aggregates or missing from GROUP BY are flagged
+ * - Portable queries, strings and comments produce no issues
+ * - PostgreSQL spellings with a SQLite equivalent are rewritten and run
+ * - PostgreSQL error messages map to SQL-Engage subtypes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lintForDialect, lintPostgresCompatibility, toSqliteDialect } from './sql-dialect';
+import { SQLExecutor } from './sql-executor';
+
+const ruleIds = (sql: string) => lintPostgresCompatibility(sql).map(issue => issue.ruleId);
+
+describe('lintPostgresCompatibility', () => {
+  it('flags SQLite-only functions and keywords', () => {
+    expect(ruleIds('SELECT IFNULL(email, \'none\') FROM users')).toEqual(['sqlite-function']);
+    expect(ruleIds('SELECT dept, GROUP_CONCAT(name) FROM employees GROUP BY dept')).toEqual(['sqlite-function']);
+    expect(ruleIds('CREATE TABLE t (id INTEGER PRIMARY KEY AUTOINCREMENT)')).toEqual(['autoincrement']);
+    expect(ruleIds("INSERT OR IGNORE INTO t VALUES (1)")).toEqual(['insert-or']);
+    expect(ruleIds('SELECT * FROM t LIMIT 10, 5')).toEqual(['limit-comma']);
+    expect(ruleIds('SELECT MAX(a, b) FROM t')).toEqual(['scalar-min-max']);
+    expect(ruleIds("SELECT date('now', '-1 day')")).toEqual(['date-modifier']);
+  });
+
+  it('reports the position and a PostgreSQL suggestion', () => {
+    const [issue] = lintPostgresCompatibility('SELECT *\nFROM t\nLIMIT 10, 5');
+
+    expect(issue).toMatchObject({ kind: 'error', line: 3, column: 1, endLine: 3, endColumn: 12, snippet: 'LIMIT 10, 5' });
+    expect(issue.suggestion).toBe('Use LIMIT 5 OFFSET 10.');
+  });
+
+  it('flags non-standard identifier quoting and double-quoted strings', () => {
+    expect(ruleIds('SELECT `name` FROM [users]')).toEqual(['backtick-identifier', 'bracket-identifier']);
+    expect(ruleIds('SELECT * FROM users WHERE city = "Boston"')).toEqual(['double-quoted-string']);
+    expect(ruleIds('INSERT INTO users (name) VALUES ("Ana"), ("Ben")')).toEqual(['double-quoted-string', 'double-quoted-string']);
+    expect(ruleIds('SELECT "name" FROM "users"')).toEqual([]);
+  });
+
+  it('flags loose typing that SQLite coerces silently', () => {
+    expect(ruleIds('SELECT 1 || 2')).toEqual(['concat-number']);
+    expect(ruleIds("SELECT price + 'abc' FROM items")).toEqual(['text-arithmetic']);
+    expect(ruleIds("SELECT price + '5', DATE '2024-01-01' + 1 FROM items")).toEqual([]);
+    expect(ruleIds('SELECT * FROM t WHERE 1')).toEqual(['integer-condition']);
+    expect(ruleIds('SELECT * FROM t WHERE a == 1')).toEqual(['double-equals']);
+  });
+
+  it('reports case-insensitive LIKE as a behavior difference', () => {
+    const issues = lintPostgresCompatibility("SELECT * FROM users WHERE name LIKE 'a%'");
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ ruleId: 'like-case', kind: 'behavior' });
+    expect(ruleIds("SELECT * FROM users WHERE code LIKE '12%'")).toEqual([]);
+  });
+
+  it('flags bare columns PostgreSQL requires to be grouped', () => {
+    expect(ruleIds('SELECT dept, name, COUNT(*) FROM employees GROUP BY dept')).toEqual(['ungrouped-column']);
+    expect(ruleIds('SELECT name, MAX(salary) FROM employees')).toEqual(['ungrouped-column']);
+    expect(lintPostgresCompatibility('SELECT e.name, MAX(salary) FROM employees e')[0].snippet).toBe('e.name');
+  });
+
+  it('accepts grouped, positional, qualified and window-function columns', () => {
+    expect(ruleIds('SELECT dept AS d, COUNT(*) AS n FROM employees GROUP BY dept')).toEqual([]);
+    expect(ruleIds('SELECT e.dept, COUNT(*) FROM employees e GROUP BY dept')).toEqual([]);
+    expect(ruleIds('SELECT dept, COUNT(*) FROM employees e GROUP BY e.dept')).toEqual([]);
+    expect(ruleIds('SELECT dept, COUNT(*) FROM employees GROUP BY 1 ORDER BY 2 DESC')).toEqual([]);
+    expect(ruleIds('SELECT name, COUNT(*) OVER () FROM employees')).toEqual([]);
+    expect(ruleIds('SELECT name FROM employees WHERE salary > (SELECT AVG(salary) FROM employees)')).toEqual([]);
+  });
+
+  it('ignores SQLite-isms inside strings and comments', () => {
+    const sql = "-- IFNULL would fail here\nSELECT 'GROUP_CONCAT(x)' /* LIMIT 1, 2 */ FROM t";
+
+    expect(lintPostgresCompatibility(sql)).toEqual([]);
+  });
+
+  it('skips every check for SQLite problems', () => {
+    expect(lintForDialect('SELECT IFNULL(a, 0) FROM t')).toEqual([]);
+    expect(lintForDialect('SELECT IFNULL(a, 0) FROM t', 'postgres')).toHaveLength(1);
+  });
+});
+
+describe('toSqliteDialect', () => {
+  it('rewrites PostgreSQL spellings with a SQLite equivalent', () => {
+    expect(toSqliteDialect("SELECT STRING_AGG(name, ', ') FROM t WHERE name ILIKE 'a%'"))
+      .toBe("SELECT GROUP_CONCAT(name, ', ') FROM t WHERE name LIKE 'a%'");
+    expect(toSqliteDialect('SELECT GREATEST(a, b) FROM t')).toBe('SELECT MAX(COALESCE(a, b), COALESCE(b, a)) FROM t');
+    expect(toSqliteDialect('SELECT LEAST(a, LEAST(b, 0)) FROM t')).toBe(
+      'SELECT MIN(COALESCE(a, MIN(COALESCE(b, 0), COALESCE(0, b))), COALESCE(MIN(COALESCE(b, 0), COALESCE(0, b)), a)) FROM t'
+    );
+  });
+
+  it('leaves strings, comments and same-named columns alone', () => {
+    const sql = "SELECT greatest, 'ILIKE' FROM t -- string_agg(x)";
+
+    expect(toSqliteDialect(sql)).toBe(sql);
+  });
+
+  it('produces queries the practice database can run', async () => {
+    const executor = new SQLExecutor();
+    await executor.initialize(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, dept TEXT);
+      INSERT INTO users VALUES (1, 'Ana', 'Eng'), (2, 'ben', 'Eng'), (3, 'Cy', 'Ops');
+    `);
+
+    const result = await executor.executeQuery(
+      toSqliteDialect("SELECT dept, STRING_AGG(name, '|') AS names FROM users WHERE name ILIKE 'b%' OR id = 1 GROUP BY dept")
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.values).toEqual([['Eng', 'Ana|ben']]);
+    executor.close();
+  });
+
+  it('skips NULL arguments in GREATEST and LEAST like PostgreSQL', async () => {
+    const executor = new SQLExecutor();
+    await executor.initialize(`
+      CREATE TABLE scores (a INTEGER, b INTEGER, c INTEGER);
+      INSERT INTO scores VALUES (1, NULL, 3), (NULL, NULL, NULL), (5, 2, NULL);
+    `);
+
+    const result = await executor.executeQuery(
+      toSqliteDialect('SELECT GREATEST(a, b, c), LEAST(a, b, c) FROM scores')
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.values).toEqual([[3, 1], [null, null], [5, 2]]);
+    executor.close();
+  });
+});
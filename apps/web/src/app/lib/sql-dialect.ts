@@ -0,0 +1,596 @@
+/**
+ * SQL Dialect — PostgreSQL compatibility checks for SQLite practice.
+ *
+ * Practice queries run on sql.js (SQLite), but the course targets
+ * PostgreSQL. SQLite accepts a number of constructs that PostgreSQL rejects
+ * (IFNULL, backtick identifiers, bare columns next to aggregates) or runs
+ * with different results (case-insensitive LIKE, `||` on numbers). This
+ * module tokenizes a query locally and flags those constructs so problems
+ * set to the 'postgres' dialect can warn the learner before the habit sets.
+ * It also rewrites the few PostgreSQL spellings (ILIKE, STRING_AGG, ...)
+ * that have a SQLite equivalent, so those problems accept them.
+ *
+ * The checks are syntactic: they see the query text only, not the schema,
+ * so they favour constructs that are wrong regardless of column types.
+ */
+
+import type { SQLDialect } from '../types';
+
+/**
+ * 'error' — PostgreSQL rejects the construct.
+ * 'behavior' — PostgreSQL runs it but can return different results.
+ */
+export type DialectIssueKind = 'error' | 'behavior';
+
+export interface DialectIssue {
+  ruleId: string;
+  kind: DialectIssueKind;
+  message: string;
+  /** PostgreSQL spelling of the same intent */
+  suggestion: string;
+  /** 1-based position of the flagged text, for editor markers */
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  snippet: string;
+}
+
+export const DIALECT_LABELS: Record<SQLDialect, string> = {
+  sqlite: 'SQLite',
+  postgres: 'PostgreSQL'
+};
+
+type TokenType = 'word' | 'number' | 'string' | 'quoted' | 'backtick' | 'bracket' | 'operator' | 'punct';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  /** Lowercased text for words; raw text otherwise */
+  value: string;
+  start: number;
+  end: number;
+  /** Parenthesis depth the token sits at */
+  depth: number;
+}
+
+const OPERATORS = ['||', '==', '!=', '<>', '<=', '>=', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+const AGGREGATES = new Set(['count', 'sum', 'avg', 'min', 'max', 'total', 'group_concat', 'string_agg', 'array_agg', 'bool_and', 'bool_or', 'every']);
+
+const COMPARISON_CONTEXT = new Set(['=', '==', '!=', '<>', '<', '>', '<=', '>=', 'like', 'ilike', 'in', 'between', 'and', 'then', 'else', 'when']);
+
+const ARITHMETIC = new Set(['+', '-', '*', '/', '%']);
+
+const SET_OPERATORS = new Set(['union', 'intersect', 'except']);
+
+const CLAUSE_AFTER_GROUP_BY = new Set(['having', 'order', 'limit', 'offset', 'window', 'returning']);
+
+/** Words that are values rather than column names */
+const LITERAL_WORDS = new Set(['null', 'true', 'false', 'current_date', 'current_time', 'current_timestamp']);
+
+/** Type names that turn the next string into a typed literal (DATE '2024-01-01') */
+const TYPED_LITERAL_PREFIXES = new Set(['date', 'time', 'timestamp', 'interval']);
+
+/** SQLite-only functions and what PostgreSQL offers instead */
+const SQLITE_FUNCTIONS: Record<string, { message: string; suggestion: string }> = {
+  ifnull: {
+    message: 'IFNULL does not exist in PostgreSQL.',
+    suggestion: 'Use COALESCE(value, fallback).'
+  },
+  group_concat: {
+    message: 'GROUP_CONCAT does not exist in PostgreSQL.',
+    suggestion: "Use STRING_AGG(expr, ',')."
+  },
+  instr: {
+    message: 'INSTR does not exist in PostgreSQL.',
+    suggestion: 'Use STRPOS(text, substring) or POSITION(substring IN text).'
+  },
+  total: {
+    message: 'TOTAL does not exist in PostgreSQL.',
+    suggestion: 'Use COALESCE(SUM(expr), 0).'
+  },
+  printf: {
+    message: 'PRINTF does not exist in PostgreSQL.',
+    suggestion: 'Use FORMAT() or TO_CHAR().'
+  },
+  typeof: {
+    message: 'TYPEOF does not exist in PostgreSQL.',
+    suggestion: 'Use pg_typeof(expr).'
+  },
+  strftime: {
+    message: 'STRFTIME does not exist in PostgreSQL.',
+    suggestion: "Use TO_CHAR(ts, 'YYYY-MM-DD') or EXTRACT(YEAR FROM ts)."
+  },
+  julianday: {
+    message: 'JULIANDAY does not exist in PostgreSQL.',
+    suggestion: 'Subtract dates directly (date2 - date1) or use EXTRACT(EPOCH FROM ...).'
+  },
+  datetime: {
+    message: 'DATETIME() does not exist in PostgreSQL.',
+    suggestion: 'Use NOW(), CURRENT_TIMESTAMP or CAST(value AS TIMESTAMP).'
+  },
+  unixepoch: {
+    message: 'UNIXEPOCH does not exist in PostgreSQL.',
+    suggestion: 'Use EXTRACT(EPOCH FROM ts).'
+  },
+  last_insert_rowid: {
+    message: 'LAST_INSERT_ROWID does not exist in PostgreSQL.',
+    suggestion: 'Add RETURNING id to the INSERT.'
+  }
+};
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number) => {
+    const text = sql.slice(start, end);
+    tokens.push({ type, text, value: type === 'word' ? text.toLowerCase() : text, start, end, depth });
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (sql.startsWith('--', i)) {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline;
+    } else if (sql.startsWith('/*', i)) {
+      const close = sql.indexOf('*/', i + 2);
+      i = close === -1 ? sql.length : close + 2;
+    } else if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const closer = char === '[' ? ']' : char;
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === closer) {
+          // Doubled quotes escape themselves
+          if (closer !== ']' && sql[end + 1] === closer) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      const type: TokenType = char === "'" ? 'string' : char === '"' ? 'quoted' : char === '`' ? 'backtick' : 'bracket';
+      push(type, i, Math.min(end + 1, sql.length));
+      i = end + 1;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(sql[i + 1] ?? ''))) {
+      const match = /^\d*\.?\d+(?:e[+-]?\d+)?/i.exec(sql.slice(i))!;
+      push('number', i, i + match[0].length);
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[\w$]+/.exec(sql.slice(i))!;
+      push('word', i, i + match[0].length);
+      i += match[0].length;
+    } else if (char === '(') {
+      push('punct', i, i + 1);
+      depth++;
+      i++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+      push('punct', i, i + 1);
+      i++;
+    } else {
+      const operator = OPERATORS.find(op => sql.startsWith(op, i));
+      if (operator) {
+        push('operator', i, i + operator.length);
+        i += operator.length;
+      } else {
+        push('punct', i, i + 1);
+        i++;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function positionOf(sql: string, offset: number): { line: number; column: number } {
+  const before = sql.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+function isCall(tokens: Token[], idx: number): boolean {
+  return tokens[idx].type === 'word' && tokens[idx + 1]?.text === '(';
+}
+
+/** Number of top-level arguments in the call whose name is at idx */
+function countArguments(tokens: Token[], idx: number): number {
+  const open = tokens[idx + 1];
+  let count = 0;
+  for (let j = idx + 2; j < tokens.length && tokens[j].depth > open.depth; j++) {
+    if (count === 0) count = 1;
+    if (tokens[j].text === ',' && tokens[j].depth === open.depth + 1) count++;
+  }
+  return count;
+}
+
+function isStringLiteral(token: Token | undefined): boolean {
+  return token?.type === 'string';
+}
+
+function isNumericLiteral(token: Token | undefined): boolean {
+  return token?.type === 'number';
+}
+
+/** Splits tokens[from, to) on commas at the given depth */
+function splitTopLevel(tokens: Token[], from: number, to: number, depth: number): Token[][] {
+  const parts: Token[][] = [[]];
+  for (let j = from; j < to; j++) {
+    if (tokens[j].text === ',' && tokens[j].depth === depth) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(tokens[j]);
+    }
+  }
+  return parts.filter(part => part.length > 0);
+}
+
+/** Column reference of a select item that is only `col`, `t.col` or either with an alias */
+function bareColumn(item: Token[]): Token[] | null {
+  let body = item;
+  if (body.length >= 3 && body[body.length - 2].value === 'as') {
+    body = body.slice(0, -2);
+  } else if (body.length === 2 || (body.length === 4 && body[1].text === '.')) {
+    body = body.slice(0, -1);
+  }
+  const isName = (token: Token) => token.type === 'quoted' || (token.type === 'word' && !LITERAL_WORDS.has(token.value));
+  if (body.length === 1 && isName(body[0])) return body;
+  if (body.length === 3 && isName(body[0]) && body[1].text === '.' && isName(body[2])) return body;
+  return null;
+}
+
+function columnKey(tokens: Token[]): string {
+  return tokens.map(token => token.type === 'word' ? token.value : token.text).join('');
+}
+
+function closingParen(tokens: Token[], openIdx: number): number {
+  const depth = tokens[openIdx].depth;
+  const close = tokens.findIndex((token, j) => j > openIdx && token.text === ')' && token.depth === depth);
+  return close === -1 ? tokens.length - 1 : close;
+}
+
+/** Aggregate call that is not a window function (COUNT(*) OVER () keeps rows) */
+function hasAggregateCall(tokens: Token[], item: Token[]): boolean {
+  return item.some(token => {
+    const idx = tokens.indexOf(token);
+    if (token.type !== 'word' || !AGGREGATES.has(token.value) || !isCall(tokens, idx)) return false;
+    return tokens[closingParen(tokens, idx + 1) + 1]?.value !== 'over';
+  });
+}
+
+type Reporter = (ruleId: string, kind: DialectIssueKind, first: Token, last: Token, message: string, suggestion: string) => void;
+
+/**
+ * Flags bare columns that PostgreSQL requires to be grouped: columns listed
+ * next to an aggregate, or missing from GROUP BY, in any SELECT.
+ */
+function lintGrouping(tokens: Token[], report: Reporter) {
+  tokens.forEach((token, selectIdx) => {
+    if (token.type !== 'word' || token.value !== 'select') return;
+    const depth = token.depth;
+
+    let end = tokens.length;
+    let fromIdx = -1;
+    let groupIdx = -1;
+    let groupEnd = -1;
+    for (let j = selectIdx + 1; j < tokens.length; j++) {
+      const current = tokens[j];
+      if (current.depth < depth || current.text === ';') {
+        end = j;
+        break;
+      }
+      if (current.depth !== depth || current.type !== 'word') continue;
+      if (current.value === 'select' || SET_OPERATORS.has(current.value)) {
+        end = j;
+        break;
+      }
+      if (current.value === 'from' && fromIdx === -1) fromIdx = j;
+      if (current.value === 'group' && tokens[j + 1]?.value === 'by') groupIdx = j + 2;
+      if (groupIdx !== -1 && groupEnd === -1 && CLAUSE_AFTER_GROUP_BY.has(current.value)) groupEnd = j;
+    }
+    if (groupIdx !== -1 && groupEnd === -1) groupEnd = end;
+
+    const selectEnd = fromIdx !== -1 ? fromIdx : groupIdx !== -1 ? groupIdx - 2 : end;
+    const items = splitTopLevel(tokens, selectIdx + 1, selectEnd, depth);
+    if (items[0]?.[0]?.value === 'distinct') items[0] = items[0].slice(1);
+
+    const hasAggregate = items.some(item => hasAggregateCall(tokens, item));
+    if (groupIdx === -1 && !hasAggregate) return;
+
+    const groupItems = groupIdx === -1 ? [] : splitTopLevel(tokens, groupIdx, groupEnd, depth);
+    const groupKeys = groupItems.map(columnKey);
+    const groupedPositions = new Set(
+      groupItems.filter(item => item.length === 1 && isNumericLiteral(item[0])).map(item => Number(item[0].text))
+    );
+
+    items.forEach((item, position) => {
+      const column = bareColumn(item);
+      if (!column || groupedPositions.has(position + 1)) return;
+      const key = columnKey(column);
+      const unqualified = columnKey(column.slice(-1));
+      // GROUP BY dept covers e.dept and GROUP BY e.dept covers dept
+      const grouped = groupKeys.some(groupKey =>
+        groupKey === key || groupKey === unqualified || (column.length === 1 && groupKey.endsWith(`.${key}`))
+      );
+      if (grouped) return;
+
+      report(
+        'ungrouped-column',
+        'error',
+        column[0],
+        column[column.length - 1],
+        `Column ${column.map(part => part.text).join('')} must appear in GROUP BY or be used in an aggregate function in PostgreSQL; SQLite silently picks a value from an arbitrary row.`,
+        groupIdx === -1
+          ? 'Add a GROUP BY for the non-aggregated columns, or wrap the column in an aggregate such as MAX().'
+          : 'Add the column to GROUP BY (grouping by the primary key of its table also works), or aggregate it.'
+      );
+    });
+  });
+}
+
+/** True when the quoted token sits where a value belongs: after a comparison or inside VALUES/IN lists */
+function isValuePosition(tokens: Token[], idx: number): boolean {
+  const prev = tokens[idx - 1];
+  if (!prev) return false;
+  if (COMPARISON_CONTEXT.has(prev.value)) return true;
+  if (prev.text !== '(' && prev.text !== ',') return false;
+
+  const depth = tokens[idx].depth;
+  let open = idx - 1;
+  while (open >= 0 && !(tokens[open].text === '(' && tokens[open].depth === depth - 1)) open--;
+  if (open < 0) return false;
+
+  // Walk back over earlier row tuples: VALUES (...), (...)
+  let before = open - 1;
+  while (tokens[before]?.text === ',' && tokens[before - 1]?.text === ')') {
+    let previousOpen = before - 2;
+    while (previousOpen >= 0 && !(tokens[previousOpen].text === '(' && tokens[previousOpen].depth === depth - 1)) previousOpen--;
+    before = previousOpen - 1;
+  }
+  return tokens[before]?.value === 'values' || tokens[before]?.value === 'in';
+}
+
+/**
+ * Flags constructs that PostgreSQL rejects or evaluates differently.
+ *
+ * @param sql - Learner query (may hold several statements)
+ * @returns Issues in source order
+ */
+export function lintPostgresCompatibility(sql: string): DialectIssue[] {
+  const tokens = tokenize(sql);
+  const issues: DialectIssue[] = [];
+
+  const report: Reporter = (ruleId, kind, first, last, message, suggestion) => {
+    const start = positionOf(sql, first.start);
+    const end = positionOf(sql, last.end);
+    issues.push({
+      ruleId,
+      kind,
+      message,
+      suggestion,
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+      snippet: sql.slice(first.start, last.end)
+    });
+  };
+
+  tokens.forEach((token, idx) => {
+    const prev = tokens[idx - 1];
+    const next = tokens[idx + 1];
+
+    switch (token.type) {
+      case 'backtick':
+        report('backtick-identifier', 'error', token, token,
+          'Backtick-quoted identifiers are a syntax error in PostgreSQL.',
+          `Use double quotes: "${token.text.slice(1, -1)}".`);
+        return;
+      case 'bracket':
+        report('bracket-identifier', 'error', token, token,
+          'Square-bracket identifiers are a syntax error in PostgreSQL.',
+          `Use double quotes: "${token.text.slice(1, -1)}".`);
+        return;
+      case 'quoted':
+        if (isValuePosition(tokens, idx)) {
+          report('double-quoted-string', 'error', token, token,
+            `PostgreSQL reads ${token.text} as a column name, not a string; SQLite falls back to a string when no such column exists.`,
+            `Use single quotes for text: '${token.text.slice(1, -1)}'.`);
+        }
+        return;
+      case 'operator':
+        if (token.text === '==') {
+          report('double-equals', 'error', token, token,
+            '== is not an operator in PostgreSQL.',
+            'Use a single = for equality.');
+        } else if (token.text === '||' && isNumericLiteral(prev) && isNumericLiteral(next) && tokens[idx - 2]?.text !== '||') {
+          report('concat-number', 'error', prev, next,
+            'PostgreSQL has no || operator for two numbers; SQLite converts them to text silently.',
+            'Cast one side explicitly, e.g. CAST(1 AS TEXT) || 2, or use CONCAT().');
+        } else if (ARITHMETIC.has(token.text) && (isStringLiteral(prev) || isStringLiteral(next))) {
+          const literalIdx = isStringLiteral(prev) ? idx - 1 : idx + 1;
+          const literal = tokens[literalIdx];
+          const typed = TYPED_LITERAL_PREFIXES.has(tokens[literalIdx - 1]?.value ?? '');
+          if (!typed && !/^'\s*[-+]?\d*\.?\d+\s*'$/.test(literal.text)) {
+            report('text-arithmetic', 'error', literal, literal,
+              `PostgreSQL cannot do arithmetic on ${literal.text}; SQLite treats non-numeric text as 0.`,
+              'Use a number, or CAST a numeric column explicitly.');
+          }
+        }
+        return;
+      case 'number':
+        // WHERE 1 / WHERE 0 rely on SQLite treating integers as booleans
+        if ((prev?.value === 'where' || prev?.value === 'having') && (!next || next.text === ';' || (next.type === 'word' && ['group', 'order', 'limit', 'and', 'or'].includes(next.value)))) {
+          report('integer-condition', 'error', token, token,
+            `PostgreSQL requires a boolean condition; ${prev.text} ${token.text} is an integer.`,
+            'Use TRUE/FALSE or a comparison such as 1 = 1.');
+        }
+        return;
+      case 'word':
+        break;
+      default:
+        return;
+    }
+
+    const word = token.value;
+
+    if (isCall(tokens, idx) && prev?.text !== '.') {
+      if (SQLITE_FUNCTIONS[word]) {
+        report('sqlite-function', 'error', token, token, SQLITE_FUNCTIONS[word].message, SQLITE_FUNCTIONS[word].suggestion);
+        return;
+      }
+      if ((word === 'min' || word === 'max') && countArguments(tokens, idx) > 1) {
+        report('scalar-min-max', 'error', token, token,
+          `${token.text.toUpperCase()} with several arguments does not exist in PostgreSQL; SQLite treats it as a scalar pick.`,
+          `Use ${word === 'max' ? 'GREATEST' : 'LEAST'}(a, b).`);
+        return;
+      }
+      if ((word === 'date' || word === 'time') && countArguments(tokens, idx) > 1) {
+        report('date-modifier', 'error', token, token,
+          `${token.text.toUpperCase()}() with modifiers is SQLite-only.`,
+          "Use interval arithmetic, e.g. CURRENT_DATE - INTERVAL '1 day'.");
+        return;
+      }
+    }
+
+    if (word === 'autoincrement') {
+      report('autoincrement', 'error', token, token,
+        'AUTOINCREMENT is not a PostgreSQL keyword.',
+        'Declare the column as SERIAL or INTEGER GENERATED ALWAYS AS IDENTITY.');
+    } else if (word === 'glob' && prev && prev.type !== 'punct') {
+      report('glob', 'error', token, token,
+        'GLOB is not an operator in PostgreSQL.',
+        'Use LIKE, SIMILAR TO or a ~ regular expression.');
+    } else if (word === 'pragma' || word === 'sqlite_master' || word === 'sqlite_schema') {
+      report('sqlite-catalog', 'error', token, token,
+        `${token.text} is specific to SQLite.`,
+        'Query information_schema.tables / information_schema.columns instead.');
+    } else if ((word === 'rowid' || word === '_rowid_' || word === 'oid') && !isCall(tokens, idx)) {
+      report('rowid', 'error', token, token,
+        'PostgreSQL tables have no implicit rowid column.',
+        'Use the primary key column instead.');
+    } else if (word === 'insert' && next?.value === 'or') {
+      const action = tokens[idx + 2];
+      report('insert-or', 'error', token, action ?? next,
+        `INSERT OR ${action?.text.toUpperCase() ?? '...'} is SQLite-only.`,
+        action?.value === 'ignore'
+          ? 'Use INSERT ... ON CONFLICT DO NOTHING.'
+          : 'Use INSERT ... ON CONFLICT (key) DO UPDATE SET ...');
+    } else if (word === 'replace' && next?.value === 'into') {
+      report('insert-or', 'error', token, next,
+        'REPLACE INTO is SQLite-only.',
+        'Use INSERT ... ON CONFLICT (key) DO UPDATE SET ...');
+    } else if (word === 'limit' && isNumericLiteral(next) && tokens[idx + 2]?.text === ',' && isNumericLiteral(tokens[idx + 3])) {
+      report('limit-comma', 'error', token, tokens[idx + 3],
+        'LIMIT offset, count is not accepted by PostgreSQL.',
+        `Use LIMIT ${tokens[idx + 3].text} OFFSET ${next!.text}.`);
+    } else if (word === 'like' && isStringLiteral(next) && /[a-z]/i.test(next!.text)) {
+      report('like-case', 'behavior', token, next!,
+        'LIKE is case-sensitive in PostgreSQL but case-insensitive in SQLite, so this pattern may match fewer rows.',
+        'Use ILIKE for a case-insensitive match, or match the exact case.');
+    }
+  });
+
+  lintGrouping(tokens, report);
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Runs the checks for a problem's dialect. SQLite problems need none.
+ */
+export function lintForDialect(sql: string, dialect: SQLDialect = 'sqlite'): DialectIssue[] {
+  return dialect === 'postgres' ? lintPostgresCompatibility(sql) : [];
+}
+
+/** PostgreSQL spellings with an exact sql.js equivalent */
+const SQLITE_REWRITES: Record<string, { replacement: string; call: boolean }> = {
+  // SQLite LIKE is already case-insensitive for ASCII
+  ilike: { replacement: 'LIKE', call: false },
+  string_agg: { replacement: 'GROUP_CONCAT', call: true }
+};
+
+/**
+ * GREATEST/LEAST skip NULL arguments in PostgreSQL, while SQLite's
+ * multi-argument MAX/MIN return NULL as soon as any argument is NULL
+ */
+const NULL_SKIPPING_EXTREMES: Record<string, string> = {
+  greatest: 'MAX',
+  least: 'MIN'
+};
+
+/**
+ * Top-level argument texts of the call whose name is at idx, and the index
+ * of its closing parenthesis
+ */
+function callArguments(sql: string, tokens: Token[], idx: number): { args: string[]; close: number } {
+  const open = tokens[idx + 1];
+  const args: string[] = [];
+  let argStart = -1;
+  let j = idx + 2;
+
+  for (; j < tokens.length && tokens[j].depth > open.depth; j++) {
+    if (tokens[j].text === ',' && tokens[j].depth === open.depth + 1) {
+      args.push(sql.slice(tokens[argStart].start, tokens[j - 1].end));
+      argStart = -1;
+    } else if (argStart === -1) {
+      argStart = j;
+    }
+  }
+  if (argStart !== -1) args.push(sql.slice(tokens[argStart].start, tokens[j - 1].end));
+
+  return { args, close: j };
+}
+
+/**
+ * GREATEST(a, b) becomes MAX(COALESCE(a, b), COALESCE(b, a)): each argument
+ * stands in for itself when set and for another set argument when NULL, so
+ * the result is NULL only when every argument is
+ */
+function rewriteNullSkippingExtreme(name: string, args: string[]): string {
+  const rewritten = args.map(toSqliteDialect);
+  if (rewritten.length === 1) return `(${rewritten[0]})`;
+  const candidates = rewritten.map((arg, i) =>
+    `COALESCE(${[arg, ...rewritten.filter((_, other) => other !== i)].join(', ')})`
+  );
+  return `${name}(${candidates.join(', ')})`;
+}
+
+/**
+ * Rewrites PostgreSQL-only spellings that have a SQLite equivalent, so a
+ * 'postgres' problem can be answered in PostgreSQL style while the practice
+ * database stays on sql.js. Everything else is left untouched.
+ */
+export function toSqliteDialect(sql: string): string {
+  const tokens = tokenize(sql);
+  let output = '';
+  let cursor = 0;
+
+  for (let idx = 0; idx < tokens.length; idx++) {
+    const token = tokens[idx];
+    if (token.type !== 'word' || tokens[idx - 1]?.text === '.') continue;
+
+    const extreme = NULL_SKIPPING_EXTREMES[token.value];
+    if (extreme && isCall(tokens, idx)) {
+      const { args, close } = callArguments(sql, tokens, idx);
+      if (args.length === 0 || !tokens[close]) continue;
+      output += sql.slice(cursor, token.start) + rewriteNullSkippingExtreme(extreme, args);
+      cursor = tokens[close].end;
+      idx = close;
+      continue;
+    }
+
+    const rewrite = SQLITE_REWRITES[token.value];
+    if (!rewrite || rewrite.call !== isCall(tokens, idx)) continue;
+    output += sql.slice(cursor, token.start) + rewrite.replacement;
+    cursor = token.end;
+  }
+
+  return output + sql.slice(cursor);
+}
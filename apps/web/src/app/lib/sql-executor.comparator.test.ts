@@ -10,6 +10,7 @@
  * - Boolean normalization
  * - Column order independence
  * - Row order independence
+ * - Order-sensitive grading modes
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
@@ -297,6 +298,87 @@ describe('SQLExecutor Comparator - Edge Cases', () => {
     });
   });
 
+  // ============================================================================
+  // ORDER-SENSITIVE GRADING MODES
+  // ============================================================================
+  describe('Order-Sensitive Grading Modes', () => {
+    const expectedSorted = [
+      { name: 'Evan', age: 35 },
+      { name: 'Bob', age: 30 },
+      { name: 'Alice', age: 25 }
+    ];
+    const actualUnsorted = [
+      { name: 'Alice', age: 25 },
+      { name: 'Evan', age: 35 },
+      { name: 'Bob', age: 30 }
+    ];
+
+    it('ordered-result rejects correct rows in the wrong order', () => {
+      const comparison = executor.compareResults(actualUnsorted, expectedSorted, 'ordered-result');
+      expect(comparison.match).toBe(false);
+      expect(comparison.differences).toHaveLength(1);
+      expect(comparison.differences[0]).toContain('Rows are correct but out of order');
+      expect(comparison.differences[0]).toContain('row 1');
+    });
+
+    it('ordered-result accepts rows in the expected order', () => {
+      const actual = expectedSorted.map(row => ({ ...row }));
+      const comparison = executor.compareResults(actual, expectedSorted, 'ordered-result');
+      expect(comparison.match).toBe(true);
+    });
+
+    it('ordered-result still tolerates column order', () => {
+      const actual = expectedSorted.map(({ name, age }) => ({ age, name }));
+      const comparison = executor.compareResults(actual, expectedSorted, 'ordered-result');
+      expect(comparison.match).toBe(true);
+    });
+
+    it('ordered-result reports set differences before ordering', () => {
+      const actual = [{ name: 'Evan', age: 35 }, { name: 'Bob', age: 30 }, { name: 'Zed', age: 20 }];
+      const comparison = executor.compareResults(actual, expectedSorted, 'ordered-result');
+      expect(comparison.match).toBe(false);
+      expect(comparison.differences.some(d => d.includes('out of order'))).toBe(false);
+    });
+
+    it('exact-columns rejects correct columns in the wrong order', () => {
+      const actual = [{ age: 35, name: 'Evan' }];
+      const comparison = executor.compareResults(actual, [{ name: 'Evan', age: 35 }], 'exact-columns');
+      expect(comparison.match).toBe(false);
+      expect(comparison.differences[0]).toBe(
+        'Columns are correct but out of order: got (age, name), expected (name, age)'
+      );
+    });
+
+    it('exact-columns ignores row order and column name case', () => {
+      const actual = [{ NAME: 'Bob', AGE: 30 }, { NAME: 'Evan', AGE: 35 }];
+      const expected = [{ name: 'Evan', age: 35 }, { name: 'Bob', age: 30 }];
+      const comparison = executor.compareResults(actual, expected, 'exact-columns');
+      expect(comparison.match).toBe(true);
+    });
+
+    it('exact-columns accepts an aliased expression column in the right position', () => {
+      const actual = [{ category: 'A', 'COUNT(*)': 2 }];
+      const expected = [{ category: 'A', product_count: 2 }];
+      const comparison = executor.compareResults(actual, expected, 'exact-columns');
+      expect(comparison.match).toBe(true);
+    });
+
+    it('ordered-and-exact reports both row and column ordering problems', () => {
+      const actual = actualUnsorted.map(({ name, age }) => ({ age, name }));
+      const comparison = executor.compareResults(actual, expectedSorted, 'ordered-and-exact');
+      expect(comparison.match).toBe(false);
+      expect(comparison.differences).toHaveLength(2);
+      expect(comparison.differences[0]).toContain('Columns are correct but out of order');
+      expect(comparison.differences[1]).toContain('Rows are correct but out of order');
+    });
+
+    it('default result mode ignores both orderings', () => {
+      const actual = actualUnsorted.map(({ name, age }) => ({ age, name }));
+      const comparison = executor.compareResults(actual, expectedSorted);
+      expect(comparison.match).toBe(true);
+    });
+  });
+
   // ============================================================================
   // NULL / UNDEFINED / STRING HANDLING
   // ============================================================================
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for final-state grading of write queries
+ *
+ * These tests verify:
+ * - INSERT/UPDATE/DELETE and DDL are graded by the tables they leave behind
+ * - A verification query or table list narrows what is compared
+ * - Created/dropped tables and column changes are reported per table
+ * - Learner and reference failures are kept apart
+ * - Hidden datasets compare final states in 'final-state' mode
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { SQLExecutor, gradeAgainstHiddenDatasets, gradeFinalDatabaseState } from './sql-executor';
+import type { SQLProblem } from '../types';
+
+const schema = `
+  CREATE TABLE accounts (id INTEGER PRIMARY KEY, owner TEXT, balance INTEGER);
+  INSERT INTO accounts VALUES (1, 'Ana', 100), (2, 'Ben', 50), (3, 'Cy', 0);
+  CREATE TABLE audit (id INTEGER PRIMARY KEY, note TEXT);
+`;
+
+type FinalStateProblem = Pick<SQLProblem, 'schema' | 'expectedQuery' | 'stateVerification'>;
+
+function problem(expectedQuery: string, overrides: Partial<FinalStateProblem> = {}): FinalStateProblem {
+  return { schema, expectedQuery, ...overrides };
+}
+
+describe('gradeFinalDatabaseState', () => {
+  it('accepts an INSERT that produces the same rows', async () => {
+    const grading = await gradeFinalDatabaseState(
+      "INSERT INTO accounts (id, owner, balance) VALUES (4, 'Di', 25)",
+      problem("INSERT INTO accounts VALUES (4, 'Di', 25)")
+    );
+
+    expect(grading.match).toBe(true);
+    expect(grading.differences).toEqual([]);
+    expect(grading.tables.map(table => table.name).sort()).toEqual(['accounts', 'audit']);
+  });
+
+  it('accepts a differently written UPDATE with the same effect', async () => {
+    const grading = await gradeFinalDatabaseState(
+      "UPDATE accounts SET balance = balance + 10 WHERE owner IN ('Ben', 'Cy')",
+      problem('UPDATE accounts SET balance = balance + 10 WHERE id > 1')
+    );
+
+    expect(grading.match).toBe(true);
+  });
+
+  it('reports missing and unexpected rows for a wrong UPDATE', async () => {
+    const grading = await gradeFinalDatabaseState(
+      'UPDATE accounts SET balance = 0',
+      problem('UPDATE accounts SET balance = 0 WHERE balance < 60')
+    );
+
+    expect(grading.match).toBe(false);
+    const accounts = grading.tables.find(table => table.name === 'accounts');
+    expect(accounts?.missingRows).toEqual([{ id: 1, owner: 'Ana', balance: 100 }]);
+    expect(accounts?.unexpectedRows).toEqual([{ id: 1, owner: 'Ana', balance: 0 }]);
+    expect(grading.differences).toEqual(['Table "accounts": 1 expected row(s) missing, 1 unexpected row(s).']);
+    expect(grading.tables.find(table => table.name === 'audit')?.match).toBe(true);
+  });
+
+  it('catches a DELETE without a WHERE clause', async () => {
+    const grading = await gradeFinalDatabaseState(
+      'DELETE FROM accounts',
+      problem('DELETE FROM accounts WHERE balance = 0')
+    );
+
+    expect(grading.match).toBe(false);
+    expect(grading.tables.find(table => table.name === 'accounts')?.missingRows).toHaveLength(2);
+  });
+
+  it('reports a table that should have been created', async () => {
+    const grading = await gradeFinalDatabaseState(
+      'SELECT * FROM accounts',
+      problem('CREATE TABLE archive (id INTEGER PRIMARY KEY, owner TEXT)')
+    );
+
+    expect(grading.match).toBe(false);
+    expect(grading.differences).toEqual(['Table "archive" should exist but is missing after your statement.']);
+  });
+
+  it('reports a table that should not have been dropped', async () => {
+    const grading = await gradeFinalDatabaseState(
+      'DROP TABLE audit',
+      problem('DELETE FROM audit')
+    );
+
+    expect(grading.match).toBe(false);
+    expect(grading.differences).toContain('Table "audit" should exist but is missing after your statement.');
+  });
+
+  it('reports column differences in created tables', async () => {
+    const grading = await gradeFinalDatabaseState(
+      'CREATE TABLE archive (id INTEGER PRIMARY KEY, name TEXT)',
+      problem('CREATE TABLE archive (id INTEGER PRIMARY KEY, owner TEXT)')
+    );
+
+    expect(grading.match).toBe(false);
+    expect(grading.differences).toEqual(['Table "archive" has missing column(s) owner and unexpected column(s) name.']);
+  });
+
+  it('only compares the listed tables', async () => {
+    const grading = await gradeFinalDatabaseState(
+      "INSERT INTO audit VALUES (1, 'noise'); DELETE FROM accounts WHERE id = 3",
+      problem('DELETE FROM accounts WHERE id = 3', { stateVerification: { tables: ['accounts'] } })
+    );
+
+    expect(grading.match).toBe(true);
+    expect(grading.tables.map(table => table.name)).toEqual(['accounts']);
+  });
+
+  it('compares the verification query result instead of whole tables', async () => {
+    const grading = await gradeFinalDatabaseState(
+      "UPDATE accounts SET balance = 75, owner = 'Benjamin' WHERE id = 2",
+      problem('UPDATE accounts SET balance = 75 WHERE id = 2', {
+        stateVerification: { query: 'SELECT id, balance FROM accounts' }
+      })
+    );
+
+    expect(grading.match).toBe(true);
+    expect(grading.tables).toHaveLength(1);
+    expect(grading.tables[0].kind).toBe('query');
+  });
+
+  it('separates learner errors from reference errors', async () => {
+    const learner = await gradeFinalDatabaseState('DELETE FROM missing_table', problem('DELETE FROM audit'));
+    const reference = await gradeFinalDatabaseState('DELETE FROM audit', problem('DELETE FROM missing_table'));
+
+    expect(learner.match).toBe(false);
+    expect(learner.learnerError).toContain('no such table');
+    expect(learner.referenceError).toBeUndefined();
+    expect(reference.match).toBe(false);
+    expect(reference.referenceError).toContain('no such table');
+  });
+});
+
+describe('SQLExecutor.compareStates', () => {
+  let executor: SQLExecutor;
+
+  afterEach(() => {
+    executor.close();
+  });
+
+  it('matches snapshots regardless of row order', async () => {
+    executor = new SQLExecutor();
+    await executor.initialize(schema);
+    const before = await executor.snapshotState();
+    await executor.executeQuery('DELETE FROM accounts; INSERT INTO accounts VALUES (3, \'Cy\', 0), (2, \'Ben\', 50), (1, \'Ana\', 100)');
+    const after = await executor.snapshotState();
+
+    expect(executor.compareStates(after, before).every(diff => diff.match)).toBe(true);
+  });
+});
+
+describe('gradeAgainstHiddenDatasets in final-state mode', () => {
+  const hiddenSchema = `
+    CREATE TABLE accounts (id INTEGER PRIMARY KEY, owner TEXT, balance INTEGER);
+    INSERT INTO accounts VALUES (10, 'Eve', 5), (11, 'Flo', 500);
+    CREATE TABLE audit (id INTEGER PRIMARY KEY, note TEXT);
+  `;
+  const hiddenProblem = {
+    expectedQuery: 'UPDATE accounts SET balance = balance * 2 WHERE balance < 60',
+    gradingMode: 'final-state' as const,
+    stateVerification: { tables: ['accounts'] },
+    hiddenDatasets: [{ id: 'rich-and-poor', schema: hiddenSchema }]
+  };
+
+  it('passes a general statement', async () => {
+    const grading = await gradeAgainstHiddenDatasets(
+      'UPDATE accounts SET balance = 2 * balance WHERE NOT balance >= 60',
+      hiddenProblem
+    );
+
+    expect(grading.passed).toBe(true);
+    expect(grading.cases).toEqual([{ datasetId: 'rich-and-poor', passed: true }]);
+  });
+
+  it('fails a statement hard-coded to the visible ids', async () => {
+    const grading = await gradeAgainstHiddenDatasets(
+      'UPDATE accounts SET balance = balance * 2 WHERE id IN (2, 3)',
+      hiddenProblem
+    );
+
+    expect(grading.passed).toBe(false);
+    expect(grading.cases[0].failureKind).toBe('result_mismatch');
+    expect(grading.message).toContain('hidden test case 1 of 1');
+  });
+});
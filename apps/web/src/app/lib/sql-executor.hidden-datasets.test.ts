@@ -0,0 +1,94 @@
+/**
+ * Unit tests for hidden-dataset grading
+ *
+ * These tests verify:
+ * - Queries hard-coded to the visible rows fail on hidden data
+ * - Correct queries pass on every hidden dataset
+ * - Failure messages identify the case without revealing its data
+ * - Authoring errors in hidden datasets are skipped, not blamed on the learner
+ * - Grading runs under the caller's query limits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SQLExecutor, gradeAgainstHiddenDatasets } from './sql-executor';
+import type { SQLProblem } from '../types';
+
+const usersSchema = (rows: Array<[number, string, number]>) => `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER);
+  ${rows.map(([id, name, age]) => `INSERT INTO users VALUES (${id}, '${name}', ${age});`).join('\n')}
+`;
+
+const problem: Pick<SQLProblem, 'expectedQuery' | 'hiddenDatasets' | 'gradingMode' | 'expectedResult'> = {
+  expectedQuery: 'SELECT name FROM users WHERE age > 24',
+  expectedResult: [{ name: 'Alice' }, { name: 'Bob' }],
+  hiddenDatasets: [
+    { id: 'hidden-a', schema: usersSchema([[1, 'Priya', 19], [2, 'Marco', 41]]) },
+    { id: 'hidden-b', schema: usersSchema([[1, 'Yuki', 30], [2, 'Omar', 22], [3, 'Lena', 25]]) }
+  ]
+};
+
+describe('gradeAgainstHiddenDatasets', () => {
+  it('passes a general query on every hidden dataset', async () => {
+    const grading = await gradeAgainstHiddenDatasets('SELECT name FROM users WHERE age >= 25', problem);
+    expect(grading.passed).toBe(true);
+    expect(grading.cases.map(c => c.passed)).toEqual([true, true]);
+    expect(grading.message).toBeUndefined();
+  });
+
+  it('fails a query hard-coded to the visible row IDs', async () => {
+    const grading = await gradeAgainstHiddenDatasets('SELECT name FROM users WHERE id IN (1, 2)', problem);
+    expect(grading.passed).toBe(false);
+    expect(grading.cases[0]).toEqual({ datasetId: 'hidden-a', passed: false, failureKind: 'result_mismatch' });
+    expect(grading.message).toContain('hidden test case 1 of 2');
+  });
+
+  it('does not reveal hidden rows in the message', async () => {
+    const grading = await gradeAgainstHiddenDatasets("SELECT name FROM users WHERE name IN ('Alice', 'Bob')", problem);
+    expect(grading.passed).toBe(false);
+    for (const name of ['Priya', 'Marco', 'Yuki', 'Omar', 'Lena', 'hidden-a']) {
+      expect(grading.message).not.toContain(name);
+    }
+  });
+
+  it('reports learner errors on hidden data as failures', async () => {
+    const withExtraTable = {
+      ...problem,
+      hiddenDatasets: [{ id: 'hidden-c', schema: usersSchema([[1, 'Priya', 30]]) }]
+    };
+    const grading = await gradeAgainstHiddenDatasets('SELECT name FROM visible_only_table', withExtraTable);
+    expect(grading.passed).toBe(false);
+    expect(grading.cases[0].failureKind).toBe('learner_error');
+    expect(grading.message).toBe('Your query failed to run on hidden test case 1 of 1.');
+  });
+
+  it('fails a runaway query stopped by the grading executor limits', async () => {
+    const runaway = 'WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n) SELECT x AS name FROM n';
+    const grading = await gradeAgainstHiddenDatasets(runaway, problem, () => new SQLExecutor({ maxRows: 100 }));
+
+    expect(grading.passed).toBe(false);
+    expect(grading.cases.every(c => c.failureKind === 'learner_error')).toBe(true);
+  });
+
+  it('honors order-sensitive grading modes', async () => {
+    const ordered = { ...problem, expectedQuery: 'SELECT name FROM users ORDER BY age DESC', gradingMode: 'ordered-result' as const };
+    const grading = await gradeAgainstHiddenDatasets('SELECT name FROM users ORDER BY id', ordered);
+    expect(grading.passed).toBe(false);
+  });
+
+  it('skips datasets where expectedQuery itself fails', async () => {
+    const broken = {
+      ...problem,
+      hiddenDatasets: [{ id: 'broken', schema: 'CREATE TABLE people (id INTEGER);' }]
+    };
+    const grading = await gradeAgainstHiddenDatasets('SELECT name FROM users', broken);
+    expect(grading.passed).toBe(true);
+    expect(grading.cases).toHaveLength(0);
+  });
+
+  it('is a no-op for exec-only problems and problems without hidden data', async () => {
+    const execOnly = await gradeAgainstHiddenDatasets('SELECT 1', { ...problem, gradingMode: 'exec-only' });
+    expect(execOnly).toEqual({ passed: true, cases: [] });
+    const none = await gradeAgainstHiddenDatasets('SELECT 1', { ...problem, hiddenDatasets: undefined });
+    expect(none).toEqual({ passed: true, cases: [] });
+  });
+});
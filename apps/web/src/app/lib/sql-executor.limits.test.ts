@@ -0,0 +1,133 @@
+/**
+ * Unit tests for query resource limits
+ *
+ * These tests verify:
+ * - Row-capped execution matches Database.exec for normal queries
+ * - Cartesian products and unbounded recursive CTEs stop at the row cap
+ * - Limit results carry the 'inefficient query' SQL-Engage subtype
+ * - SandboxedSQLExecutor falls back to in-thread execution without Worker
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { SQLExecutor, createResourceLimitResult } from './sql-executor';
+import { SandboxedSQLExecutor } from './sql-sandbox';
+
+const schema = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+  INSERT INTO users VALUES (1, 'Alice'), (2, 'Bob'), (3, 'Cara');
+  CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER);
+  INSERT INTO orders VALUES (1, 1), (2, 1), (3, 2), (4, 3);
+`;
+
+describe('SQLExecutor row limit', () => {
+  let executor: SQLExecutor;
+
+  afterEach(() => {
+    executor.close();
+  });
+
+  it('returns the same results as an uncapped executor under the limit', async () => {
+    executor = new SQLExecutor({ maxRows: 100 });
+    await executor.initialize(schema);
+
+    const result = await executor.executeQuery('SELECT name FROM users ORDER BY id; SELECT COUNT(*) AS n FROM orders');
+
+    expect(result.success).toBe(true);
+    expect(result.columns).toEqual(['name']);
+    expect(result.values).toEqual([['Alice'], ['Bob'], ['Cara']]);
+    expect(result.allResults).toHaveLength(2);
+    expect(result.allResults?.[1]).toEqual({ columns: ['n'], values: [[4]] });
+    expect(result.resourceLimit).toBeUndefined();
+  });
+
+  it('allows a result of exactly maxRows rows', async () => {
+    executor = new SQLExecutor({ maxRows: 3 });
+    await executor.initialize(schema);
+
+    const result = await executor.executeQuery('SELECT * FROM users');
+
+    expect(result.success).toBe(true);
+    expect(result.values).toHaveLength(3);
+  });
+
+  it('stops a cartesian product at the row cap', async () => {
+    executor = new SQLExecutor({ maxRows: 5 });
+    await executor.initialize(schema);
+
+    const result = await executor.executeQuery('SELECT * FROM users, orders');
+
+    expect(result.success).toBe(false);
+    expect(result.resourceLimit).toBe('row_limit');
+    expect(result.errorSubtypeId).toBe('inefficient query');
+    expect(result.error).toContain('more than 5 rows');
+  });
+
+  it('stops an unbounded recursive CTE instead of hanging', async () => {
+    executor = new SQLExecutor({ maxRows: 50 });
+    await executor.initialize(schema);
+
+    const result = await executor.executeQuery(
+      'WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n) SELECT x FROM n'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.resourceLimit).toBe('row_limit');
+  });
+
+  it('keeps the database usable after a capped query', async () => {
+    executor = new SQLExecutor({ maxRows: 2 });
+    await executor.initialize(schema);
+
+    await executor.executeQuery('SELECT * FROM users; SELECT * FROM orders');
+    const result = await executor.executeQuery('SELECT COUNT(*) AS n FROM users');
+
+    expect(result.success).toBe(true);
+    expect(result.values).toEqual([[3]]);
+  });
+
+  it('still reports SQL errors with their SQL-Engage subtype', async () => {
+    executor = new SQLExecutor({ maxRows: 10 });
+    await executor.initialize(schema);
+
+    const result = await executor.executeQuery('SELECT missing_column FROM users');
+
+    expect(result.success).toBe(false);
+    expect(result.resourceLimit).toBeUndefined();
+    expect(result.errorSubtypeId).toBe('undefined column');
+  });
+});
+
+describe('createResourceLimitResult', () => {
+  it('maps timeouts to the inefficient query subtype', () => {
+    const result = createResourceLimitResult('timeout', { timeoutMs: 5000 });
+
+    expect(result.success).toBe(false);
+    expect(result.resourceLimit).toBe('timeout');
+    expect(result.errorSubtypeId).toBe('inefficient query');
+    expect(result.error).toContain('5.0s');
+  });
+
+  it('does not attach a subtype to cancellations', () => {
+    const result = createResourceLimitResult('cancelled', {});
+
+    expect(result.resourceLimit).toBe('cancelled');
+    expect(result.errorSubtypeId).toBeUndefined();
+  });
+});
+
+describe('SandboxedSQLExecutor without Worker support', () => {
+  it('runs queries in-thread with the row cap applied', async () => {
+    expect(SandboxedSQLExecutor.isSupported()).toBe(false);
+
+    const executor = new SandboxedSQLExecutor({ timeoutMs: 1000, maxRows: 2 });
+    await executor.initialize(schema);
+
+    const ok = await executor.executeQuery('SELECT name FROM users WHERE id = 1');
+    const capped = await executor.executeQuery('SELECT * FROM users');
+
+    expect(ok.values).toEqual([['Alice']]);
+    expect(capped.resourceLimit).toBe('row_limit');
+    expect(executor.isRunning()).toBe(false);
+    executor.close();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for partial-credit similarity in compareResults
+ *
+ * These tests verify:
+ * - Matches score 1 and unrelated results score low
+ * - An extra or missing column only costs column overlap
+ * - Missing, extra and wrong-valued rows lower precision, recall and accuracy
+ * - Aliased columns are paired by their values
+ * - Near misses (e.g. wrong row order) stay below NEAR_MISS_MAX_SCORE
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NEAR_MISS_MAX_SCORE, SQLExecutor } from './sql-executor';
+
+const executor = new SQLExecutor();
+
+const expected = [
+  { id: 1, name: 'Alice', dept: 'Eng' },
+  { id: 2, name: 'Bob', dept: 'Sales' },
+  { id: 3, name: 'Cara', dept: 'Eng' },
+  { id: 4, name: 'Dan', dept: 'HR' }
+];
+
+describe('compareResults similarity', () => {
+  it('scores a match as 1', () => {
+    const { similarity } = executor.compareResults([...expected].reverse(), expected);
+
+    expect(similarity).toEqual({ rowPrecision: 1, rowRecall: 1, columnOverlap: 1, valueAccuracy: 1, score: 1 });
+  });
+
+  it('gives high credit for right rows with one extra column', () => {
+    const actual = expected.map(row => ({ ...row, salary: 100 }));
+    const { match, similarity } = executor.compareResults(actual, expected);
+
+    expect(match).toBe(false);
+    expect(similarity.rowPrecision).toBe(1);
+    expect(similarity.rowRecall).toBe(1);
+    expect(similarity.valueAccuracy).toBe(1);
+    expect(similarity.columnOverlap).toBe(0.75);
+    expect(similarity.score).toBe(NEAR_MISS_MAX_SCORE);
+  });
+
+  it('counts a missing column against value accuracy and overlap', () => {
+    const actual = expected.map(({ id, name }) => ({ id, name }));
+    const { similarity } = executor.compareResults(actual, expected);
+
+    expect(similarity.rowPrecision).toBe(1);
+    expect(similarity.columnOverlap).toBeCloseTo(2 / 3);
+    expect(similarity.valueAccuracy).toBeCloseTo(2 / 3);
+  });
+
+  it('lowers recall for missing rows and precision for extra rows', () => {
+    const missing = executor.compareResults(expected.slice(0, 2), expected).similarity;
+    const extra = executor.compareResults([...expected, { id: 5, name: 'Eve', dept: 'HR' }], expected).similarity;
+
+    expect(missing.rowPrecision).toBe(1);
+    expect(missing.rowRecall).toBe(0.5);
+    expect(missing.valueAccuracy).toBe(0.5);
+    expect(extra.rowPrecision).toBe(0.8);
+    expect(extra.rowRecall).toBe(1);
+    expect(extra.valueAccuracy).toBe(1);
+  });
+
+  it('credits the correct cells of a row with a wrong value', () => {
+    const actual = expected.map(row => (row.id === 2 ? { ...row, dept: 'Eng' } : row));
+    const { similarity } = executor.compareResults(actual, expected);
+
+    expect(similarity.rowRecall).toBe(0.75);
+    expect(similarity.valueAccuracy).toBeCloseTo(11 / 12);
+    expect(similarity.score).toBeGreaterThan(0.8);
+  });
+
+  it('pairs aliased columns by their values', () => {
+    const actual = expected.map(({ id, name, dept }) => ({ id, employee: name, dept, extra: 0 }));
+    const { similarity } = executor.compareResults(actual, expected);
+
+    expect(similarity.rowRecall).toBe(1);
+    expect(similarity.columnOverlap).toBe(0.75);
+  });
+
+  it('keeps rows in the wrong order below a solve', () => {
+    const { match, similarity } = executor.compareResults([...expected].reverse(), expected, 'ordered-result');
+
+    expect(match).toBe(false);
+    expect(similarity.score).toBe(NEAR_MISS_MAX_SCORE);
+  });
+
+  it('scores unrelated or empty results low', () => {
+    const unrelated = executor.compareResults([{ total: 42 }], expected).similarity;
+    const empty = executor.compareResults([], expected).similarity;
+
+    expect(unrelated.score).toBe(0);
+    expect(empty.score).toBe(0);
+  });
+});
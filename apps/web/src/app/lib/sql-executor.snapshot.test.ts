@@ -0,0 +1,110 @@
+/**
+ * Unit tests for practice database snapshots and the schema browser queries
+ *
+ * These tests verify:
+ * - exportSnapshot/restoreSnapshot round-trip tables, rows and indexes
+ * - resetDatabase undoes every change made since initialize
+ * - describeTables reports columns, types, keys and row counts
+ * - previewTable returns the first rows without touching the data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SQLExecutor } from './sql-executor';
+import { SandboxedSQLExecutor } from './sql-sandbox';
+
+const schema = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, age INTEGER);
+  CREATE INDEX idx_users_name ON users(name);
+  INSERT INTO users VALUES (1, 'Alice', 30), (2, 'Bob', 25), (3, 'Cara', 41);
+  CREATE TABLE "order items" (order_id INTEGER, sku TEXT, qty);
+  INSERT INTO "order items" VALUES (10, 'A-1', 2);
+`;
+
+describe('SQLExecutor snapshots', () => {
+  let executor: SQLExecutor;
+
+  beforeEach(async () => {
+    executor = new SQLExecutor();
+    await executor.initialize(schema);
+  });
+
+  afterEach(() => {
+    executor.close();
+  });
+
+  it('restores a snapshot taken before a destructive statement', async () => {
+    await executor.executeQuery("UPDATE users SET name = 'Zed' WHERE id = 1");
+    const snapshot = await executor.exportSnapshot();
+    await executor.executeQuery('DELETE FROM users; DROP INDEX idx_users_name');
+
+    await executor.restoreSnapshot(snapshot!);
+
+    const users = await executor.executeQuery('SELECT name FROM users ORDER BY id');
+    expect(users.values).toEqual([['Zed'], ['Bob'], ['Cara']]);
+    const indexes = await executor.executeQuery("SELECT name FROM sqlite_master WHERE type = 'index'");
+    expect(indexes.values).toEqual([['idx_users_name']]);
+  });
+
+  it('resets to the original rows after inserts, deletes and DDL', async () => {
+    await executor.executeQuery("INSERT INTO users VALUES (4, 'Dee', 19); DELETE FROM users WHERE id = 2");
+    await executor.executeQuery('DROP TABLE "order items"; CREATE TABLE scratch (x)');
+
+    expect(await executor.resetDatabase()).toBe(true);
+
+    expect(await executor.listTables()).toEqual(['order items', 'users']);
+    const users = await executor.executeQuery('SELECT id FROM users ORDER BY id');
+    expect(users.values).toEqual([[1], [2], [3]]);
+  });
+
+  it('reports nothing to reset before initialize', async () => {
+    const fresh = new SQLExecutor();
+
+    expect(await fresh.exportSnapshot()).toBeNull();
+    expect(await fresh.resetDatabase()).toBe(false);
+  });
+
+  it('resets through the sandbox fallback when Worker is unavailable', async () => {
+    const sandboxed = new SandboxedSQLExecutor({ maxRows: 100 });
+    await sandboxed.initialize(schema);
+    await sandboxed.executeQuery('DELETE FROM users');
+
+    expect(await sandboxed.resetDatabase()).toBe(true);
+    const count = await sandboxed.executeQuery('SELECT COUNT(*) FROM users');
+    expect(count.values).toEqual([[3]]);
+    sandboxed.close();
+  });
+});
+
+describe('SQLExecutor schema browser queries', () => {
+  let executor: SQLExecutor;
+
+  beforeEach(async () => {
+    executor = new SQLExecutor();
+    await executor.initialize(schema);
+  });
+
+  afterEach(() => {
+    executor.close();
+  });
+
+  it('describes columns, types, keys and row counts', async () => {
+    const tables = await executor.describeTables();
+
+    expect(tables.map(table => [table.name, table.rowCount])).toEqual([['order items', 1], ['users', 3]]);
+    expect(tables[1].columns).toEqual([
+      { name: 'id', type: 'INTEGER', notNull: false, primaryKey: true },
+      { name: 'name', type: 'TEXT', notNull: true, primaryKey: false },
+      { name: 'age', type: 'INTEGER', notNull: false, primaryKey: false }
+    ]);
+    expect(tables[0].columns[2]).toEqual({ name: 'qty', type: '', notNull: false, primaryKey: false });
+  });
+
+  it('previews the first rows of a table with a quoted name', async () => {
+    const preview = await executor.previewTable('users', 2);
+    const quoted = await executor.previewTable('order items');
+
+    expect(preview.columns).toEqual(['id', 'name', 'age']);
+    expect(preview.values).toHaveLength(2);
+    expect(quoted.values).toEqual([[10, 'A-1', 2]]);
+  });
+});
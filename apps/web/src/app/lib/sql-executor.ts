@@ -1,9 +1,12 @@
 import initSqlJs, { Database } from 'sql.js';
-import { normalizeSqlErrorSubtype } from '../data/sql-engage';
+import { canonicalizeSqlEngageSubtype, normalizeSqlErrorSubtype } from '../data/sql-engage';
+import type { SQLGradingMode, SQLHiddenDataset, SQLProblem, SQLStateVerification } from '../types';
+import { runStatements } from './sql-statement-runner';
+import { parseQueryPlan, splitFirstStatement, summarizeQueryPlan, type QueryPlanResult } from './query-plan';
 
 // Use the middleware-served WASM path for stability
 // This aligns with the wasm-serve plugin in vite.config.ts
-const WASM_URL = '/sql-wasm.wasm';
+export const WASM_URL = '/sql-wasm.wasm';
 
 const FLOAT_EPSILON = 0.015; // Widened for SQLite float rounding tolerance
 
@@ -45,6 +48,149 @@ function valuesEqual(actual: unknown, expected: unknown): boolean {
   return normalizeValue(actual) === normalizeValue(expected);
 }
 
+/** Columns produced by SQL expressions (e.g. COUNT(*), UPPER(name)) may be aliased freely. */
+function isSqlExpressionColumn(column: string): boolean {
+  return column.includes('(') || column.includes(')');
+}
+
+/** Compares two value lists as multisets using epsilon-aware equality. */
+function valueMultisetsEqual(actual: unknown[], expected: unknown[]): boolean {
+  if (actual.length !== expected.length) return false;
+  const byString = (a: unknown, b: unknown) => String(a).localeCompare(String(b));
+  const sortedActual = [...actual].sort(byString);
+  const sortedExpected = [...expected].sort(byString);
+  return sortedActual.every((value, idx) => valuesEqual(value, sortedExpected[idx]));
+}
+
+/**
+ * Pairs each expected column with an actual column: same name first
+ * (case-insensitive), then a column holding the same values (aliases).
+ */
+function pairColumns(
+  actual: Record<string, unknown>[],
+  expected: Record<string, unknown>[]
+): Map<string, string> {
+  const actualColumns = Object.keys(actual[0]);
+  const expectedColumns = Object.keys(expected[0]);
+  const pairs = new Map<string, string>();
+  const used = new Set<string>();
+
+  for (const expectedColumn of expectedColumns) {
+    const actualColumn = actualColumns.find(
+      column => !used.has(column) && column.toLowerCase() === expectedColumn.toLowerCase()
+    );
+    if (actualColumn) {
+      pairs.set(expectedColumn, actualColumn);
+      used.add(actualColumn);
+    }
+  }
+  for (const expectedColumn of expectedColumns) {
+    if (pairs.has(expectedColumn)) continue;
+    const expectedValues = expected.map(row => row[expectedColumn]);
+    const actualColumn = actualColumns.find(
+      column => !used.has(column) && valueMultisetsEqual(actual.map(row => row[column]), expectedValues)
+    );
+    if (actualColumn) {
+      pairs.set(expectedColumn, actualColumn);
+      used.add(actualColumn);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Scores how close actual rows are to the expected rows (see ResultSimilarity)
+ * @param match - Whether compareResults accepted the result; caps the score otherwise
+ */
+function scoreResultSimilarity(
+  actual: Record<string, unknown>[],
+  expected: Record<string, unknown>[],
+  match: boolean
+): ResultSimilarity {
+  if (match) {
+    return { rowPrecision: 1, rowRecall: 1, columnOverlap: 1, valueAccuracy: 1, score: 1 };
+  }
+  if (actual.length === 0 || expected.length === 0) {
+    return { rowPrecision: 0, rowRecall: 0, columnOverlap: 0, valueAccuracy: 0, score: 0 };
+  }
+
+  const pairs = [...pairColumns(actual, expected)];
+  const expectedColumnCount = Object.keys(expected[0]).length;
+  const actualColumnCount = Object.keys(actual[0]).length;
+  const columnOverlap = pairs.length / (expectedColumnCount + actualColumnCount - pairs.length);
+
+  // Cells of an expected row reproduced by an actual row on the paired columns
+  const agreement = (actualRow: Record<string, unknown>, expectedRow: Record<string, unknown>) =>
+    pairs.filter(([expectedColumn, actualColumn]) => valuesEqual(actualRow[actualColumn], expectedRow[expectedColumn])).length;
+
+  const unmatchedActual = new Set(actual.keys());
+  const unmatchedExpected: Record<string, unknown>[] = [];
+  let matchedRows = 0;
+  for (const expectedRow of expected) {
+    const idx = pairs.length === 0
+      ? undefined
+      : [...unmatchedActual].find(aIdx => agreement(actual[aIdx], expectedRow) === pairs.length);
+    if (idx === undefined) {
+      unmatchedExpected.push(expectedRow);
+    } else {
+      unmatchedActual.delete(idx);
+      matchedRows++;
+    }
+  }
+
+  let correctCells = matchedRows * pairs.length;
+  for (const expectedRow of unmatchedExpected) {
+    let best: { idx: number; cells: number } | null = null;
+    for (const aIdx of unmatchedActual) {
+      const cells = agreement(actual[aIdx], expectedRow);
+      if (!best || cells > best.cells) best = { idx: aIdx, cells };
+    }
+    if (best) {
+      unmatchedActual.delete(best.idx);
+      correctCells += best.cells;
+    }
+  }
+
+  const similarity = {
+    rowPrecision: matchedRows / actual.length,
+    rowRecall: matchedRows / expected.length,
+    columnOverlap,
+    valueAccuracy: correctCells / (expected.length * expectedColumnCount)
+  };
+  const weighted =
+    RESULT_SIMILARITY_WEIGHTS.rowPrecision * similarity.rowPrecision +
+    RESULT_SIMILARITY_WEIGHTS.rowRecall * similarity.rowRecall +
+    RESULT_SIMILARITY_WEIGHTS.columnOverlap * similarity.columnOverlap +
+    RESULT_SIMILARITY_WEIGHTS.valueAccuracy * similarity.valueAccuracy;
+  return { ...similarity, score: Math.min(weighted, NEAR_MISS_MAX_SCORE) };
+}
+
+/** Double-quotes a table name for interpolation into SQL. */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Resolves the effective grading mode for a problem: an explicit mode takes
+ * precedence, then result-check if expectedResult has data, otherwise exec-only.
+ */
+export function resolveGradingMode(
+  problem: Pick<SQLProblem, 'gradingMode' | 'expectedResult'>
+): SQLGradingMode {
+  const hasExpectedResult = !!problem.expectedResult && problem.expectedResult.length > 0;
+  return problem.gradingMode ?? (hasExpectedResult ? 'result' : 'exec-only');
+}
+
+/** Whether the mode requires rows to appear in the expected order. */
+export function isRowOrderSensitive(mode: SQLGradingMode): boolean {
+  return mode === 'ordered-result' || mode === 'ordered-and-exact';
+}
+
+/** Whether the mode requires columns to appear in the expected order. */
+export function isColumnOrderSensitive(mode: SQLGradingMode): boolean {
+  return mode === 'exact-columns' || mode === 'ordered-and-exact';
+}
+
 let SQL: any = null;
 let sqlInitializationPromise: Promise<any> | null = null;
 let sqlInitializationError: Error | null = null;
@@ -175,10 +321,174 @@ export interface QueryResult {
   allResults?: SingleQueryResult[];
   /** Error message (when failed) */
   error?: string;
-  /** Normalized error subtype ID */
+  /**
+   * Normalized error subtype ID. Also set by the editor for queries that run
+   * but return the wrong result (see result-diff-classifier).
+   */
   errorSubtypeId?: string;
   /** Execution time in milliseconds */
   executionTime?: number;
+  /** Set when execution was stopped by a sandbox limit or by the learner */
+  resourceLimit?: QueryResourceLimit;
+}
+
+/**
+ * Why a query was stopped before completing
+ * - 'timeout': exceeded the wall-clock limit
+ * - 'row_limit': produced more rows than allowed
+ * - 'cancelled': stopped by the learner
+ */
+export type QueryResourceLimit = 'timeout' | 'row_limit' | 'cancelled';
+
+/**
+ * Limits applied to learner queries
+ */
+export interface QueryLimits {
+  /** Wall-clock timeout in milliseconds (enforced only by the sandbox worker) */
+  timeoutMs?: number;
+  /** Maximum total rows across all result sets */
+  maxRows?: number;
+}
+
+/**
+ * Builds the failed QueryResult for a query stopped by a limit.
+ * Timeouts and row limits map to the 'inefficient query' SQL-Engage subtype;
+ * cancellations carry no subtype because they are not learner errors.
+ */
+export function createResourceLimitResult(
+  limit: QueryResourceLimit,
+  limits: QueryLimits,
+  executionTime?: number
+): QueryResult {
+  let error: string;
+  switch (limit) {
+    case 'timeout':
+      error = `Query stopped after ${((limits.timeoutMs ?? 0) / 1000).toFixed(1)}s. ` +
+        'It may be building a huge result (for example a JOIN without a condition) or recursing without end. ' +
+        'The practice database was reset.';
+      break;
+    case 'row_limit':
+      error = `Query produced more than ${limits.maxRows} rows and was stopped. ` +
+        'Check for a missing JOIN condition or WHERE filter.';
+      break;
+    case 'cancelled':
+      error = 'Query cancelled. The practice database was reset.';
+      break;
+  }
+
+  return {
+    success: false,
+    error,
+    errorSubtypeId: limit === 'cancelled' ? undefined : canonicalizeSqlEngageSubtype('inefficient query'),
+    executionTime,
+    resourceLimit: limit
+  };
+}
+
+/**
+ * Why a comparison failed, so callers can tell a reordering from wrong data.
+ * - 'row_count': different number of rows
+ * - 'row_values': same row count, but some rows differ
+ * - 'row_order': rows match as a set but are out of order
+ * - 'column_order': columns match as a set but are out of order
+ */
+export type ResultMismatchKind = 'row_count' | 'row_values' | 'row_order' | 'column_order';
+
+/**
+ * Result of comparing actual and expected query results
+ */
+export interface ResultComparison {
+  /** Whether the results match under the grading mode */
+  match: boolean;
+  /** Learner-facing descriptions of each difference */
+  differences: string[];
+  /** Category of the first failure (when match is false) */
+  mismatchKind?: ResultMismatchKind;
+  /** Graded closeness of the result, for partial credit */
+  similarity: ResultSimilarity;
+}
+
+/**
+ * Partial-credit breakdown of how close a result is to the expected one.
+ * Columns are paired by name (case-insensitive), then by identical values
+ * so aliases still count; rows are compared on the paired columns only.
+ */
+export interface ResultSimilarity {
+  /** Share of returned rows that are expected rows */
+  rowPrecision: number;
+  /** Share of expected rows that were returned */
+  rowRecall: number;
+  /** Paired columns over all distinct columns on both sides */
+  columnOverlap: number;
+  /** Share of expected cells reproduced, pairing each row with its closest match */
+  valueAccuracy: number;
+  /** Weighted score in [0, 1]; 1 only for a full match */
+  score: number;
+}
+
+/** Weights of the similarity components in ResultSimilarity.score */
+export const RESULT_SIMILARITY_WEIGHTS = {
+  rowPrecision: 0.25,
+  rowRecall: 0.25,
+  columnOverlap: 0.2,
+  valueAccuracy: 0.3
+} as const;
+
+/**
+ * Highest score a non-matching result can earn, so rows that are right but
+ * out of order still fall short of a solve
+ */
+export const NEAR_MISS_MAX_SCORE = 0.9;
+
+/** Name under which a verification query's result appears in state diffs */
+export const VERIFICATION_QUERY_NAME = 'verification query';
+
+/**
+ * Contents of one table (or the verification query result) after a
+ * statement ran, used by 'final-state' grading
+ */
+export interface StateSnapshot {
+  name: string;
+  kind: 'table' | 'query';
+  /** False when the table does not exist (or the verification query failed) */
+  exists: boolean;
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Column of a user table as reported by PRAGMA table_info
+ */
+export interface TableColumnDescription {
+  name: string;
+  /** Declared type, e.g. INTEGER or TEXT; empty when undeclared */
+  type: string;
+  primaryKey: boolean;
+  notNull: boolean;
+}
+
+/**
+ * Table summary shown in the schema browser
+ */
+export interface TableDescription {
+  name: string;
+  columns: TableColumnDescription[];
+  rowCount: number;
+}
+
+/**
+ * Per-table difference between the learner's and the expected final state
+ */
+export interface StateDiff {
+  name: string;
+  kind: 'table' | 'query';
+  match: boolean;
+  /** Expected rows that are absent from the learner's state */
+  missingRows: Record<string, unknown>[];
+  /** Rows in the learner's state that should not be there */
+  unexpectedRows: Record<string, unknown>[];
+  /** Learner-facing summary; set when match is false */
+  message?: string;
 }
 
 /**
@@ -192,13 +502,21 @@ export interface QueryResult {
  */
 export class SQLExecutor {
   private db: Database | null = null;
+  /** Database image right after the schema ran; restored by resetDatabase */
+  private initialSnapshot: Uint8Array | null = null;
+
+  /**
+   * @param limits - Optional limits; only maxRows applies in-thread
+   *                 (see SandboxedSQLExecutor for timeouts)
+   */
+  constructor(protected readonly limits: QueryLimits = {}) {}
 
   /**
    * SQL comment removal
    * - Single-line comments: -- comment (but not inside string literals)
    * - Multi-line comments: /* comment *\/
    */
-  private stripComments(sql: string): string {
+  protected stripComments(sql: string): string {
     let result = '';
     let i = 0;
     
@@ -288,6 +606,37 @@ export class SQLExecutor {
       console.error('Schema initialization error:', error);
       throw error;
     }
+    this.initialSnapshot = this.db!.export();
+  }
+
+  /**
+   * Serialize the current database (tables, rows and indexes)
+   * @returns SQLite file image, or null when not initialized
+   */
+  async exportSnapshot(): Promise<Uint8Array | null> {
+    return this.db ? this.db.export() : null;
+  }
+
+  /**
+   * Replace the current database with a snapshot from exportSnapshot
+   * @param snapshot - SQLite file image
+   */
+  async restoreSnapshot(snapshot: Uint8Array) {
+    const SQL = await initializeSQL();
+    const restored = new SQL.Database(snapshot);
+    this.db?.close();
+    this.db = restored;
+  }
+
+  /**
+   * Undo every change made since initialize, restoring the problem's
+   * original tables and rows
+   * @returns False when the database was never initialized
+   */
+  async resetDatabase(): Promise<boolean> {
+    if (!this.initialSnapshot) return false;
+    await this.restoreSnapshot(this.initialSnapshot);
+    return true;
   }
 
   /**
@@ -313,48 +662,85 @@ export class SQLExecutor {
     const startTime = performance.now();
 
     try {
-      const results = this.db.exec(query);
+      const { results, rowLimitExceeded } = runStatements(this.db, query, this.limits.maxRows);
       const executionTime = performance.now() - startTime;
 
-      if (results.length === 0) {
-        return {
-          success: true,
-          columns: [],
-          values: [],
-          allResults: [],
-          executionTime
-        };
+      if (rowLimitExceeded) {
+        return createResourceLimitResult('row_limit', this.limits, executionTime);
       }
+      return this.buildSuccessResult(results, executionTime);
+    } catch (error: unknown) {
+      const executionTime = performance.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return this.buildErrorResult(errorMessage, query, executionTime);
+    }
+  }
 
-      // Map all results for potential multi-statement queries
-      // Note: sql.js may minify 'columns' to 'lc' in production builds
-      const allResults: SingleQueryResult[] = results.map((r) => ({
-        columns: (r as unknown as { columns?: string[]; lc?: string[] }).columns ?? (r as unknown as { lc: string[] }).lc,
-        values: r.values as unknown[][]
-      }));
-
-      const result = results[0];
+  /**
+   * Shapes raw result sets into a successful QueryResult. The first result
+   * set is exposed as `columns`/`values`; all of them are in `allResults`.
+   */
+  protected buildSuccessResult(results: SingleQueryResult[], executionTime: number): QueryResult {
+    if (results.length === 0) {
       return {
         success: true,
-        columns: (result as unknown as { columns?: string[]; lc?: string[] }).columns ?? (result as unknown as { lc: string[] }).lc,
-        values: result.values as unknown[][],
-        allResults,
+        columns: [],
+        values: [],
+        allResults: [],
         executionTime
       };
-    } catch (error: unknown) {
-      const executionTime = performance.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      // Normalize raw sqlite/sql.js errors to SQL-Engage subtype labels.
-      const errorSubtype = normalizeSqlErrorSubtype(errorMessage, query);
+    }
+
+    return {
+      success: true,
+      columns: results[0].columns,
+      values: results[0].values,
+      allResults: results,
+      executionTime
+    };
+  }
+
+  /**
+   * Shapes a SQLite error message into a failed QueryResult
+   */
+  protected buildErrorResult(errorMessage: string, query: string, executionTime: number): QueryResult {
+    // Normalize raw sqlite/sql.js errors to SQL-Engage subtype labels.
+    const errorSubtype = normalizeSqlErrorSubtype(errorMessage, query);
+
+    return {
+      success: false,
+      error: errorMessage,
+      errorSubtypeId: errorSubtype,
+      executionTime
+    };
+  }
 
+  /**
+   * Explain how SQLite would evaluate a query without running it
+   * @param query - A single SQL statement (a trailing semicolon is fine)
+   * @returns Parsed plan tree with a summary, or an error
+   */
+  async explainQueryPlan(query: string): Promise<QueryPlanResult> {
+    const { statement, hasMore } = splitFirstStatement(this.stripComments(query));
+    if (!statement) {
+      return { success: false, query, error: 'Write a query to explain first.' };
+    }
+    if (hasMore) {
       return {
         success: false,
-        error: errorMessage,
-        errorSubtypeId: errorSubtype,
-        executionTime
+        query,
+        error: 'Explain works on one statement at a time. Remove everything after the first semicolon.'
       };
     }
+
+    // Goes through executeQuery so sandboxed executors explain in their worker
+    const result = await this.executeQuery(`EXPLAIN QUERY PLAN ${statement}`);
+    if (!result.success) {
+      return { success: false, query, error: result.error ?? 'Could not explain this query.' };
+    }
+
+    const plan = parseQueryPlan(result.values ?? []);
+    return { success: true, query, plan, summary: summarizeQueryPlan(plan) };
   }
 
   /**
@@ -382,28 +768,42 @@ export class SQLExecutor {
 
   /**
    * Compares actual and expected results using set-based comparison.
-   * - Row order is ignored (set comparison)
-   * - Column order is ignored (columns are sorted for comparison)
+   * - Row order is ignored (set comparison) unless the mode is order-sensitive
+   * - Column order is ignored (columns are sorted for comparison) unless the
+   *   mode requires exact columns
    * - Floating point values use epsilon tolerance (0.01)
    * - Null and undefined are treated as equivalent
    * - String values are trimmed before comparison
    * 
+   * Ordering is only checked once the rows match as a set, so learners see
+   * "rows are correct but out of order" instead of a generic mismatch.
+   * 
+   * Every comparison also carries a similarity score for partial credit.
+   * 
    * @param actual - Actual query results
    * @param expected - Expected query results
-   * @returns Comparison result with match flag and differences
+   * @param mode - Grading mode (defaults to set-based 'result')
+   * @returns Comparison result with match flag, differences and similarity
    */
   compareResults(
     actual: Record<string, unknown>[],
-    expected: Record<string, unknown>[]
-  ): {
-    match: boolean;
-    differences: string[];
-  } {
+    expected: Record<string, unknown>[],
+    mode: SQLGradingMode = 'result'
+  ): ResultComparison {
+    const comparison = this.compareRowSets(actual, expected, mode);
+    return { ...comparison, similarity: scoreResultSimilarity(actual, expected, comparison.match) };
+  }
+
+  private compareRowSets(
+    actual: Record<string, unknown>[],
+    expected: Record<string, unknown>[],
+    mode: SQLGradingMode
+  ): Omit<ResultComparison, 'similarity'> {
     const differences: string[] = [];
 
     if (actual.length !== expected.length) {
       differences.push(`Row count mismatch: got ${actual.length}, expected ${expected.length}`);
-      return { match: false, differences };
+      return { match: false, differences, mismatchKind: 'row_count' };
     }
 
     // Handle empty results
@@ -488,8 +888,8 @@ export class SQLExecutor {
           // Value-only matching applies when at least one side contains SQL expressions
           // (e.g. UPPER(emp_name), COUNT(*)) so that alias differences are forgiven for
           // computed columns, but plain column-name mismatches are still rejected.
-          const hasSqlExpression = actualKeys.some(key => key.includes('(') || key.includes(')')) ||
-                                   expectedKeys.some(key => key.includes('(') || key.includes(')'));
+          const hasSqlExpression = actualKeys.some(isSqlExpressionColumn) ||
+                                   expectedKeys.some(isSqlExpressionColumn);
           if (!hasSqlExpression) continue;
 
           let allMatch = true;
@@ -513,7 +913,7 @@ export class SQLExecutor {
                        matchedActual.size === actualRows.length;
 
     if (allMatched) {
-      return { match: true, differences: [] };
+      return this.checkOrdering(actual, expected, mode);
     }
 
     // Generate detailed diffs for unmatched rows with cell-level detail
@@ -588,7 +988,224 @@ export class SQLExecutor {
       }
     }
 
-    return { match: false, differences };
+    return { match: false, differences, mismatchKind: 'row_values' };
+  }
+
+  /**
+   * Checks row and column order for results that already match as a set.
+   * Matches when the mode is order-insensitive or order agrees.
+   */
+  private checkOrdering(
+    actual: Record<string, unknown>[],
+    expected: Record<string, unknown>[],
+    mode: SQLGradingMode
+  ): Omit<ResultComparison, 'similarity'> {
+    const differences: string[] = [];
+    let mismatchKind: ResultMismatchKind | undefined;
+
+    if (isColumnOrderSensitive(mode) && actual.length > 0) {
+      const actualColumns = Object.keys(actual[0]);
+      const expectedColumns = Object.keys(expected[0]);
+      const columnsInOrder = actualColumns.every((column, idx) => {
+        const expectedColumn = expectedColumns[idx];
+        if (column.toLowerCase() === expectedColumn.toLowerCase()) return true;
+        if (!isSqlExpressionColumn(column) && !isSqlExpressionColumn(expectedColumn)) return false;
+        // Aliased expression column: accept it when the values at this position agree
+        return valueMultisetsEqual(
+          actual.map(row => row[column]),
+          expected.map(row => row[expectedColumn])
+        );
+      });
+      if (!columnsInOrder) {
+        mismatchKind = 'column_order';
+        differences.push(
+          `Columns are correct but out of order: got (${actualColumns.join(', ')}), expected (${expectedColumns.join(', ')})`
+        );
+      }
+    }
+
+    if (isRowOrderSensitive(mode)) {
+      const firstOutOfOrder = expected.findIndex((row, idx) => !this.rowsEqual(actual[idx], row));
+      if (firstOutOfOrder !== -1) {
+        mismatchKind ??= 'row_order';
+        differences.push(
+          `Rows are correct but out of order: row ${firstOutOfOrder + 1} is ${JSON.stringify(actual[firstOutOfOrder])}, ` +
+          `expected ${JSON.stringify(expected[firstOutOfOrder])}. Check your ORDER BY clause.`
+        );
+      }
+    }
+
+    return mismatchKind
+      ? { match: false, differences, mismatchKind }
+      : { match: true, differences: [] };
+  }
+
+  /**
+   * Compares a single pair of rows with the same rules as the set comparison:
+   * case-insensitive column names, or value-only matching when either side
+   * contains SQL expression columns.
+   */
+  private rowsEqual(actualRow: Record<string, unknown>, expectedRow: Record<string, unknown>): boolean {
+    const actualKeys = Object.keys(actualRow).sort();
+    const expectedKeys = Object.keys(expectedRow).sort();
+    if (actualKeys.length !== expectedKeys.length) return false;
+
+    const columnsMatch = actualKeys.every((key, k) => key.toLowerCase() === expectedKeys[k].toLowerCase());
+    if (columnsMatch && actualKeys.every((key, k) => valuesEqual(actualRow[key], expectedRow[expectedKeys[k]]))) {
+      return true;
+    }
+
+    const hasSqlExpression = actualKeys.some(isSqlExpressionColumn) || expectedKeys.some(isSqlExpressionColumn);
+    return hasSqlExpression && valueMultisetsEqual(Object.values(actualRow), Object.values(expectedRow));
+  }
+
+  /**
+   * Names of all user tables, sorted
+   */
+  async listTables(): Promise<string[]> {
+    const result = await this.executeQuery(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    return (result.values ?? []).map(row => String(row[0]));
+  }
+
+  /**
+   * Columns, types and row counts of every user table in the current database
+   */
+  async describeTables(): Promise<TableDescription[]> {
+    const descriptions: TableDescription[] = [];
+    for (const name of await this.listTables()) {
+      const quoted = quoteIdentifier(name);
+      const info = await this.executeQuery(`PRAGMA table_info(${quoted})`);
+      const count = await this.executeQuery(`SELECT COUNT(*) FROM ${quoted}`);
+      descriptions.push({
+        name,
+        columns: (info.values ?? []).map(row => ({
+          name: String(row[1]),
+          type: String(row[2] ?? ''),
+          notNull: row[3] === 1,
+          primaryKey: Number(row[5]) > 0
+        })),
+        rowCount: Number(count.values?.[0]?.[0] ?? 0)
+      });
+    }
+    return descriptions;
+  }
+
+  /**
+   * First rows of a table, for previewing data without writing a query
+   * @param table - Table name from listTables
+   * @param limit - Maximum rows to return
+   */
+  async previewTable(table: string, limit: number = 5): Promise<QueryResult> {
+    return this.executeQuery(`SELECT * FROM ${quoteIdentifier(table)} LIMIT ${Math.max(0, Math.floor(limit))}`);
+  }
+
+  /**
+   * Capture the database state graded by 'final-state' problems
+   * @param verification - Verification query and/or tables; every user table when empty
+   * @returns One snapshot per verification query or table
+   */
+  async snapshotState(verification: SQLStateVerification = {}): Promise<StateSnapshot[]> {
+    const snapshots: StateSnapshot[] = [];
+
+    if (verification.query) {
+      const result = await this.executeQuery(verification.query);
+      snapshots.push({
+        name: VERIFICATION_QUERY_NAME,
+        kind: 'query',
+        exists: result.success,
+        columns: result.columns ?? [],
+        rows: result.success ? this.formatResults(result) : []
+      });
+    }
+
+    const tables = verification.tables ?? (verification.query ? [] : await this.listTables());
+    for (const table of tables) {
+      snapshots.push(await this.snapshotTable(table));
+    }
+    return snapshots;
+  }
+
+  /**
+   * Compare final database states table by table. Rows are matched as a
+   * multiset (order-insensitive) with the same value tolerance as compareResults.
+   * A table present on only one side is reported as created or dropped.
+   */
+  compareStates(actual: StateSnapshot[], expected: StateSnapshot[]): StateDiff[] {
+    const names = [...new Set([...expected, ...actual].map(snapshot => snapshot.name))];
+    const find = (snapshots: StateSnapshot[], name: string) => snapshots.find(snapshot => snapshot.name === name);
+
+    return names.map((name): StateDiff => {
+      const expectedSnapshot = find(expected, name);
+      const actualSnapshot = find(actual, name);
+      const kind = (expectedSnapshot ?? actualSnapshot)!.kind;
+      const label = kind === 'query' ? 'The verification query' : `Table "${name}"`;
+      const expectedExists = expectedSnapshot?.exists ?? false;
+      const actualExists = actualSnapshot?.exists ?? false;
+      const empty = { missingRows: [], unexpectedRows: [] };
+
+      if (!expectedExists && !actualExists) {
+        return { name, kind, match: true, ...empty };
+      }
+      if (expectedExists !== actualExists) {
+        const message = kind === 'query'
+          ? `${label} ${actualExists ? 'should fail' : 'failed'} after your statement.`
+          : `${label} ${actualExists ? 'should not exist' : 'should exist but is missing'} after your statement.`;
+        return { name, kind, match: false, ...empty, message };
+      }
+
+      const expectedColumns = expectedSnapshot!.columns.map(column => column.toLowerCase()).sort();
+      const actualColumns = actualSnapshot!.columns.map(column => column.toLowerCase()).sort();
+      const missingColumns = expectedColumns.filter(column => !actualColumns.includes(column));
+      const extraColumns = actualColumns.filter(column => !expectedColumns.includes(column));
+      if (kind === 'table' && (missingColumns.length > 0 || extraColumns.length > 0)) {
+        const parts = [
+          missingColumns.length > 0 ? `missing column(s) ${missingColumns.join(', ')}` : '',
+          extraColumns.length > 0 ? `unexpected column(s) ${extraColumns.join(', ')}` : ''
+        ].filter(Boolean);
+        return { name, kind, match: false, ...empty, message: `${label} has ${parts.join(' and ')}.` };
+      }
+
+      const unmatched = [...actualSnapshot!.rows];
+      const missingRows: Record<string, unknown>[] = [];
+      for (const expectedRow of expectedSnapshot!.rows) {
+        const matchIdx = unmatched.findIndex(actualRow => this.rowsEqual(actualRow, expectedRow));
+        if (matchIdx === -1) {
+          missingRows.push(expectedRow);
+        } else {
+          unmatched.splice(matchIdx, 1);
+        }
+      }
+
+      if (missingRows.length === 0 && unmatched.length === 0) {
+        return { name, kind, match: true, ...empty };
+      }
+      const counts = [
+        missingRows.length > 0 ? `${missingRows.length} expected row(s) missing` : '',
+        unmatched.length > 0 ? `${unmatched.length} unexpected row(s)` : ''
+      ].filter(Boolean);
+      return {
+        name,
+        kind,
+        match: false,
+        missingRows,
+        unexpectedRows: unmatched,
+        message: `${label}: ${counts.join(', ')}.`
+      };
+    });
+  }
+
+  private async snapshotTable(table: string): Promise<StateSnapshot> {
+    const quoted = quoteIdentifier(table);
+    const info = await this.executeQuery(`PRAGMA table_info(${quoted})`);
+    const columns = (info.values ?? []).map(row => String(row[1]));
+    if (!info.success || columns.length === 0) {
+      return { name: table, kind: 'table', exists: false, columns: [], rows: [] };
+    }
+
+    const contents = await this.executeQuery(`SELECT * FROM ${quoted}`);
+    return { name: table, kind: 'table', exists: true, columns, rows: this.formatResults(contents) };
   }
 
   /**
@@ -601,3 +1218,201 @@ export class SQLExecutor {
     }
   }
 }
+
+/**
+ * Builds a database for a grading pass. The editor passes a sandboxed
+ * executor with the session's query limits, so a runaway learner query is
+ * stopped during grading as it is during the run; a stopped query fails the
+ * grade.
+ */
+export type GradingExecutorFactory = () => SQLExecutor;
+
+const createInThreadExecutor: GradingExecutorFactory = () => new SQLExecutor();
+
+/**
+ * Outcome of grading a write query by the database state it leaves behind
+ */
+export interface FinalStateGradingResult {
+  match: boolean;
+  /** One entry per compared table or verification query */
+  tables: StateDiff[];
+  /** Learner-facing summaries of mismatched tables */
+  differences: string[];
+  /** Set when the learner's statement failed on the fresh database */
+  learnerError?: string;
+  /** Set when expectedQuery itself failed (an authoring error) */
+  referenceError?: string;
+}
+
+/**
+ * Grades a write query ('final-state' mode). The learner's statement and
+ * expectedQuery each run against a fresh database built from `schema`,
+ * then the verification query / tables are compared.
+ *
+ * @param query - Learner SQL (INSERT/UPDATE/DELETE/DDL, possibly several statements)
+ * @param problem - Problem carrying schema, expectedQuery and stateVerification
+ * @param schema - Database to grade on; defaults to the problem schema
+ * @param createExecutor - Builds each database; defaults to in-thread execution
+ * @returns Per-table diffs and an overall match flag
+ */
+export async function gradeFinalDatabaseState(
+  query: string,
+  problem: Pick<SQLProblem, 'schema' | 'expectedQuery' | 'stateVerification'>,
+  schema: string = problem.schema,
+  createExecutor: GradingExecutorFactory = createInThreadExecutor
+): Promise<FinalStateGradingResult> {
+  const verification = problem.stateVerification ?? {};
+  const expectedExecutor = createExecutor();
+  const actualExecutor = createExecutor();
+
+  try {
+    await expectedExecutor.initialize(schema);
+    const reference = await expectedExecutor.executeQuery(problem.expectedQuery);
+    if (!reference.success) {
+      return { match: false, tables: [], differences: [], referenceError: reference.error };
+    }
+
+    await actualExecutor.initialize(schema);
+    const learner = await actualExecutor.executeQuery(query);
+    if (!learner.success) {
+      return { match: false, tables: [], differences: [], learnerError: learner.error };
+    }
+
+    const expectedState = await expectedExecutor.snapshotState(verification);
+    const actualState = await actualExecutor.snapshotState(verification);
+    const tables = actualExecutor.compareStates(actualState, expectedState);
+    const differences = tables.filter(table => !table.match && table.message).map(table => table.message!);
+
+    return { match: tables.every(table => table.match), tables, differences };
+  } finally {
+    expectedExecutor.close();
+    actualExecutor.close();
+  }
+}
+
+/**
+ * Outcome of grading a submission against one hidden dataset
+ */
+export interface HiddenCaseOutcome {
+  /** Dataset ID (never shown to learners) */
+  datasetId: string;
+  /** Whether the learner query agreed with expectedQuery on this dataset */
+  passed: boolean;
+  /** Why the case failed (only when passed is false) */
+  failureKind?: 'learner_error' | 'result_mismatch';
+}
+
+/**
+ * Result of grading a submission against all hidden datasets
+ */
+export interface HiddenDatasetGradingResult {
+  /** True when every hidden case passed (or the problem has none) */
+  passed: boolean;
+  cases: HiddenCaseOutcome[];
+  /** Learner-facing explanation of the first failed case; reveals no data */
+  message?: string;
+}
+
+type HiddenGradedProblem = Pick<
+  SQLProblem,
+  'expectedQuery' | 'hiddenDatasets' | 'gradingMode' | 'expectedResult' | 'stateVerification'
+>;
+
+/**
+ * Grades one hidden dataset. Returns null when expectedQuery fails on it.
+ */
+async function gradeHiddenCase(
+  query: string,
+  problem: HiddenGradedProblem,
+  dataset: SQLHiddenDataset,
+  mode: SQLGradingMode,
+  createExecutor: GradingExecutorFactory
+): Promise<HiddenCaseOutcome | null> {
+  if (mode === 'final-state') {
+    const state = await gradeFinalDatabaseState(query, { ...problem, schema: dataset.schema }, dataset.schema, createExecutor);
+    if (state.referenceError) {
+      console.warn(`[sql-executor] expectedQuery fails on hidden dataset ${dataset.id}:`, state.referenceError);
+      return null;
+    }
+    if (state.learnerError) return { datasetId: dataset.id, passed: false, failureKind: 'learner_error' };
+    return state.match
+      ? { datasetId: dataset.id, passed: true }
+      : { datasetId: dataset.id, passed: false, failureKind: 'result_mismatch' };
+  }
+
+  const executor = createExecutor();
+  try {
+    await executor.initialize(dataset.schema);
+    const expected = await executor.executeQuery(problem.expectedQuery);
+    if (!expected.success) {
+      console.warn(`[sql-executor] expectedQuery fails on hidden dataset ${dataset.id}:`, expected.error);
+      return null;
+    }
+    const expectedRows = executor.formatResults(expected);
+
+    // Reset to the pristine dataset so a mutating expectedQuery cannot leak state
+    executor.close();
+    await executor.initialize(dataset.schema);
+    const actual = await executor.executeQuery(query);
+
+    if (!actual.success) {
+      return { datasetId: dataset.id, passed: false, failureKind: 'learner_error' };
+    }
+    const comparison = executor.compareResults(executor.formatResults(actual), expectedRows, mode);
+    return comparison.match
+      ? { datasetId: dataset.id, passed: true }
+      : { datasetId: dataset.id, passed: false, failureKind: 'result_mismatch' };
+  } finally {
+    executor.close();
+  }
+}
+
+/**
+ * Grades a learner query against the problem's hidden datasets.
+ *
+ * Each dataset gets a fresh database; both the learner query and
+ * expectedQuery run against it and must agree under the problem's grading
+ * mode ('final-state' problems compare database states instead of results).
+ * A dataset where expectedQuery itself fails is an authoring bug and is
+ * skipped rather than counted against the learner.
+ *
+ * @param query - Learner SQL
+ * @param problem - Problem carrying expectedQuery and hiddenDatasets
+ * @param createExecutor - Builds each database; defaults to in-thread execution
+ * @returns Aggregate pass flag, per-case outcomes and a data-free message
+ */
+export async function gradeAgainstHiddenDatasets(
+  query: string,
+  problem: HiddenGradedProblem,
+  createExecutor: GradingExecutorFactory = createInThreadExecutor
+): Promise<HiddenDatasetGradingResult> {
+  const datasets = problem.hiddenDatasets ?? [];
+  const mode = resolveGradingMode(problem);
+  if (datasets.length === 0 || mode === 'exec-only') {
+    return { passed: true, cases: [] };
+  }
+
+  const cases: HiddenCaseOutcome[] = [];
+  let message: string | undefined;
+
+  for (const [index, dataset] of datasets.entries()) {
+    let outcome: HiddenCaseOutcome | null;
+    try {
+      outcome = await gradeHiddenCase(query, problem, dataset, mode, createExecutor);
+    } catch (error) {
+      console.warn(`[sql-executor] Could not load hidden dataset ${dataset.id}:`, error);
+      continue;
+    }
+    if (!outcome) continue;
+    cases.push(outcome);
+
+    if (!outcome.passed && !message) {
+      const caseLabel = `hidden test case ${index + 1} of ${datasets.length}`;
+      message = outcome.failureKind === 'learner_error'
+        ? `Your query failed to run on ${caseLabel}.`
+        : `Your query returned different results on ${caseLabel}. Make sure it works for any data, not just the rows shown.`;
+    }
+  }
+
+  return { passed: cases.every(c => c.passed), cases, message };
+}
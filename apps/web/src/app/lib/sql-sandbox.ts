@@ -0,0 +1,299 @@
+/**
+ * SQL Sandbox — SQLExecutor that runs learner queries in a Web Worker.
+ *
+ * The worker keeps the Monaco editor and the rest of the page responsive
+ * while a query runs. A query that exceeds the wall-clock timeout (or is
+ * cancelled by the learner) is stopped by terminating the worker; a fresh
+ * worker is then started from the original schema, so any data changes the
+ * learner made earlier in the session are lost. Snapshots are exported from
+ * and restored into the worker's database.
+ *
+ * Falls back to in-thread execution (row cap only) where Worker is
+ * unavailable, e.g. jsdom tests.
+ */
+
+import {
+  SQLExecutor,
+  SQLInitializationError,
+  WASM_URL,
+  createResourceLimitResult,
+  type QueryLimits,
+  type QueryResourceLimit,
+  type QueryResult
+} from './sql-executor';
+import type { StatementResultSet } from './sql-statement-runner';
+
+/**
+ * Messages sent to the sandbox worker
+ */
+export type SqlSandboxRequest =
+  | { type: 'init'; id: number; schema: string; wasmUrl: string; maxRows?: number }
+  | { type: 'exec'; id: number; query: string }
+  | { type: 'export'; id: number }
+  | { type: 'restore'; id: number; snapshot: Uint8Array };
+
+/**
+ * Messages sent back by the sandbox worker
+ */
+export type SqlSandboxResponse =
+  | { type: 'ready'; id: number }
+  | { type: 'snapshot'; id: number; snapshot: Uint8Array }
+  | { type: 'result'; id: number; results: StatementResultSet[]; rowLimitExceeded: boolean }
+  | { type: 'error'; id: number; error: string };
+
+interface ActiveQuery {
+  query: string;
+  startTime: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  resolve: (result: QueryResult) => void;
+}
+
+export class SandboxedSQLExecutor extends SQLExecutor {
+  private worker: Worker | null = null;
+  private schema = '';
+  private nextRequestId = 1;
+  private pendingRequests = new Map<number, (response: SqlSandboxResponse) => void>();
+  private activeQueries = new Map<number, ActiveQuery>();
+  private restarting: Promise<void> | null = null;
+
+  constructor(limits: QueryLimits = {}) {
+    super(limits);
+  }
+
+  /**
+   * Whether queries can run in a worker in this environment
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  async initialize(schema: string) {
+    if (!SandboxedSQLExecutor.isSupported()) {
+      return super.initialize(schema);
+    }
+    this.schema = this.stripComments(schema);
+    await this.startWorker();
+  }
+
+  async executeQuery(query: string): Promise<QueryResult> {
+    if (this.restarting) {
+      try {
+        await this.restarting;
+      } catch {
+        // Reported below as an uninitialized database
+      }
+    }
+
+    const worker = this.worker;
+    if (!worker) {
+      return super.executeQuery(query);
+    }
+
+    const id = this.nextRequestId++;
+    const startTime = performance.now();
+
+    return new Promise<QueryResult>((resolve) => {
+      const timer = this.limits.timeoutMs
+        ? setTimeout(() => this.abortActiveQueries('timeout'), this.limits.timeoutMs)
+        : null;
+      this.activeQueries.set(id, { query, startTime, timer, resolve });
+      worker.postMessage({ type: 'exec', id, query } satisfies SqlSandboxRequest);
+    });
+  }
+
+  async exportSnapshot(): Promise<Uint8Array | null> {
+    if (!this.worker) {
+      return super.exportSnapshot();
+    }
+    const response = await this.request({ type: 'export', id: this.nextRequestId++ });
+    return response.type === 'snapshot' ? response.snapshot : null;
+  }
+
+  async restoreSnapshot(snapshot: Uint8Array) {
+    if (!this.worker) {
+      return super.restoreSnapshot(snapshot);
+    }
+    this.abortActiveQueries('cancelled');
+    await this.restarting;
+    const response = await this.request({ type: 'restore', id: this.nextRequestId++, snapshot });
+    if (response.type === 'error') {
+      throw new Error(response.error);
+    }
+  }
+
+  /**
+   * Restarts the worker from the original schema, stopping any running query
+   */
+  async resetDatabase(): Promise<boolean> {
+    if (!SandboxedSQLExecutor.isSupported()) {
+      return super.resetDatabase();
+    }
+    if (!this.schema) return false;
+    this.settleActiveQueries('cancelled');
+    const restart = this.startWorker();
+    this.restarting = restart;
+    try {
+      await restart;
+    } finally {
+      if (this.restarting === restart) this.restarting = null;
+    }
+    return true;
+  }
+
+  /**
+   * Stops the running query, if any. It resolves as a 'cancelled' result
+   * and the practice database is reset.
+   */
+  cancel() {
+    this.abortActiveQueries('cancelled');
+  }
+
+  /**
+   * Whether a query is currently running in the worker
+   */
+  isRunning(): boolean {
+    return this.activeQueries.size > 0;
+  }
+
+  close() {
+    this.restarting = null;
+    this.stopWorker();
+    this.settleActiveQueries('cancelled');
+    super.close();
+  }
+
+  private startWorker(): Promise<void> {
+    this.stopWorker();
+
+    const worker = new Worker(new URL('./sql-sandbox.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SqlSandboxResponse>) => this.handleResponse(event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      console.error('[sql-sandbox] Worker error:', event.message);
+      this.failAll(event.message || 'SQL worker crashed');
+    };
+    this.worker = worker;
+
+    const id = this.nextRequestId++;
+    return new Promise<void>((resolve, reject) => {
+      this.pendingRequests.set(id, (response) => {
+        if (response.type === 'ready') {
+          resolve();
+          return;
+        }
+        const message = response.type === 'error' ? response.error : 'Unexpected worker response';
+        this.stopWorker();
+        reject(new SQLInitializationError(`Failed to initialize SQL engine. ${message}`));
+      });
+      worker.postMessage({
+        type: 'init',
+        id,
+        schema: this.schema,
+        wasmUrl: WASM_URL,
+        maxRows: this.limits.maxRows
+      } satisfies SqlSandboxRequest);
+    });
+  }
+
+  /**
+   * Sends a control request (export/restore) and waits for its response
+   */
+  private request(message: Extract<SqlSandboxRequest, { type: 'export' | 'restore' }>): Promise<SqlSandboxResponse> {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.resolve({ type: 'error', id: message.id, error: 'Database not initialized' });
+    }
+    return new Promise<SqlSandboxResponse>((resolve) => {
+      this.pendingRequests.set(message.id, resolve);
+      worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Terminates the worker; pending init/export/restore requests fail with `reason`
+   */
+  private stopWorker(reason: string = 'SQL worker stopped') {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    const pending = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+    for (const settle of pending) {
+      settle({ type: 'error', id: -1, error: reason });
+    }
+  }
+
+  private handleResponse(response: SqlSandboxResponse) {
+    const pending = this.pendingRequests.get(response.id);
+    if (pending) {
+      this.pendingRequests.delete(response.id);
+      pending(response);
+      return;
+    }
+
+    const active = this.activeQueries.get(response.id);
+    if (!active) return; // Aborted before the worker answered
+    this.activeQueries.delete(response.id);
+    if (active.timer) clearTimeout(active.timer);
+
+    const executionTime = performance.now() - active.startTime;
+    if (response.type === 'result') {
+      active.resolve(response.rowLimitExceeded
+        ? createResourceLimitResult('row_limit', this.limits, executionTime)
+        : this.buildSuccessResult(response.results, executionTime));
+    } else if (response.type === 'error') {
+      active.resolve(this.buildErrorResult(response.error, active.query, executionTime));
+    }
+  }
+
+  /**
+   * Terminates the worker, resolves running queries with the given limit,
+   * and restarts the worker from the original schema
+   */
+  private abortActiveQueries(limit: QueryResourceLimit) {
+    if (this.activeQueries.size === 0) return;
+
+    this.stopWorker();
+    this.settleActiveQueries(limit);
+
+    const restart = this.startWorker().catch((error: unknown) => {
+      console.error('[sql-sandbox] Failed to restart worker:', error);
+    });
+    this.restarting = restart;
+    void restart.finally(() => {
+      if (this.restarting === restart) this.restarting = null;
+    });
+  }
+
+  /**
+   * Resolves running queries with the given limit result
+   */
+  private settleActiveQueries(limit: QueryResourceLimit) {
+    for (const active of this.activeQueries.values()) {
+      if (active.timer) clearTimeout(active.timer);
+      active.resolve(createResourceLimitResult(limit, this.limits, performance.now() - active.startTime));
+    }
+    this.activeQueries.clear();
+  }
+
+  /**
+   * Fails every in-flight request after the worker crashed
+   */
+  private failAll(message: string) {
+    this.stopWorker(message);
+    for (const active of this.activeQueries.values()) {
+      if (active.timer) clearTimeout(active.timer);
+      active.resolve({
+        success: false,
+        error: `${message}. The practice database was reset.`,
+        executionTime: performance.now() - active.startTime
+      });
+    }
+    if (this.activeQueries.size > 0) {
+      this.activeQueries.clear();
+      void this.startWorker().catch((error: unknown) => {
+        console.error('[sql-sandbox] Failed to restart worker:', error);
+      });
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * SQL Sandbox Worker — runs learner queries off the main thread.
+ *
+ * Owns its own sql.js database so a runaway query (cartesian product,
+ * unbounded recursive CTE) blocks only this worker. The main thread
+ * enforces the wall-clock timeout by terminating the worker; the row cap
+ * is enforced here while stepping.
+ */
+
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import { runStatements } from './sql-statement-runner';
+import type { SqlSandboxRequest, SqlSandboxResponse } from './sql-sandbox';
+
+let SQL: SqlJsStatic | null = null;
+let db: Database | null = null;
+let maxRows: number | undefined;
+
+function respond(response: SqlSandboxResponse): void {
+  self.postMessage(response);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function handleInit(request: Extract<SqlSandboxRequest, { type: 'init' }>): Promise<void> {
+  try {
+    SQL ??= await initSqlJs({
+      locateFile: (file: string) => (file.endsWith('.wasm') ? request.wasmUrl : file)
+    });
+    db?.close();
+    db = new SQL.Database();
+    db.exec(request.schema);
+    maxRows = request.maxRows;
+    respond({ type: 'ready', id: request.id });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, error: errorMessage(error) });
+  }
+}
+
+function handleExec(request: Extract<SqlSandboxRequest, { type: 'exec' }>): void {
+  if (!db) {
+    respond({ type: 'error', id: request.id, error: 'Database not initialized' });
+    return;
+  }
+
+  try {
+    const { results, rowLimitExceeded } = runStatements(db, request.query, maxRows);
+    respond({ type: 'result', id: request.id, results, rowLimitExceeded });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, error: errorMessage(error) });
+  }
+}
+
+function handleExport(request: Extract<SqlSandboxRequest, { type: 'export' }>): void {
+  if (!db) {
+    respond({ type: 'error', id: request.id, error: 'Database not initialized' });
+    return;
+  }
+  respond({ type: 'snapshot', id: request.id, snapshot: db.export() });
+}
+
+function handleRestore(request: Extract<SqlSandboxRequest, { type: 'restore' }>): void {
+  if (!SQL) {
+    respond({ type: 'error', id: request.id, error: 'Database not initialized' });
+    return;
+  }
+
+  try {
+    const restored = new SQL.Database(request.snapshot);
+    db?.close();
+    db = restored;
+    respond({ type: 'ready', id: request.id });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, error: errorMessage(error) });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<SqlSandboxRequest>) => {
+  const request = event.data;
+  if (request.type === 'init') {
+    void handleInit(request);
+  } else if (request.type === 'exec') {
+    handleExec(request);
+  } else if (request.type === 'export') {
+    handleExport(request);
+  } else if (request.type === 'restore') {
+    handleRestore(request);
+  }
+});
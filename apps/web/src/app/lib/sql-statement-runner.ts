@@ -0,0 +1,81 @@
+/**
+ * SQL Statement Runner — row-limited multi-statement execution for sql.js.
+ *
+ * Mirrors Database.exec (one result set per statement that returns rows)
+ * but steps each statement manually so a runaway result can be stopped at
+ * a row cap instead of materializing every row. Kept free of app imports so
+ * the sandbox worker bundle stays small.
+ */
+
+import type { Database } from 'sql.js';
+
+/**
+ * Rows and columns produced by one statement
+ */
+export interface StatementResultSet {
+  columns: string[];
+  values: unknown[][];
+}
+
+/**
+ * Output of running a (possibly multi-statement) query
+ */
+export interface StatementRunResult {
+  /** One entry per statement that returned at least one row */
+  results: StatementResultSet[];
+  /** True when execution stopped because the row cap was reached */
+  rowLimitExceeded: boolean;
+}
+
+/**
+ * Stops an iterator early without running the remaining statements.
+ * Preparing (not stepping) the rest frees the active statement and the
+ * iterator's SQL buffer; prepare errors in the unexecuted tail are ignored.
+ */
+function releaseIterator(iterator: ReturnType<Database['iterateStatements']>): void {
+  try {
+    while (!iterator.next().done) {
+      // Drain without stepping
+    }
+  } catch {
+    // The iterator frees its buffer when prepare fails
+  }
+}
+
+/**
+ * Runs every statement in `query` against `db`.
+ *
+ * @param db - Open sql.js database
+ * @param query - SQL text, may contain several statements
+ * @param maxRows - Stop once more than this many rows were produced in total
+ * @throws SQLite errors from prepare/step, exactly like Database.exec
+ */
+export function runStatements(db: Database, query: string, maxRows?: number): StatementRunResult {
+  const results: StatementResultSet[] = [];
+  let totalRows = 0;
+  const iterator = db.iterateStatements(query);
+
+  for (const statement of iterator) {
+    let current: StatementResultSet | null = null;
+    try {
+      while (statement.step()) {
+        if (maxRows !== undefined && totalRows >= maxRows) {
+          releaseIterator(iterator);
+          return { results, rowLimitExceeded: true };
+        }
+        if (current === null) {
+          current = { columns: statement.getColumnNames(), values: [] };
+          results.push(current);
+        }
+        current.values.push(statement.get() as unknown[]);
+        totalRows++;
+      }
+    } catch (error) {
+      // Runtime error while stepping: release the failed statement, then rethrow
+      releaseIterator(iterator);
+      throw error;
+    }
+  }
+
+  return { results, rowLimitExceeded: false };
+}
@@ -799,7 +799,8 @@ export async function autoCreateUnitsFromAnalysis(
         sessionId,
         templateId: 'explanation.v1',
         bundle,
-        triggerInteractionIds: pattern.interactions
+        triggerInteractionIds: pattern.interactions,
+        leakContext: { expectedQuery: problem.expectedQuery, expectedResult: problem.expectedResult }
       });
 
       // Check quality threshold
@@ -924,7 +925,8 @@ export async function autoCreateUnitsFromAnalysis(
         sessionId,
         templateId: 'notebook_unit.v1',
         bundle,
-        triggerInteractionIds: gap.interactionIds
+        triggerInteractionIds: gap.interactionIds,
+        leakContext: { expectedQuery: problem.expectedQuery, expectedResult: problem.expectedResult }
       });
 
       // Check quality threshold
@@ -0,0 +1,138 @@
+/**
+ * ActivateAccountPage — /activate?token=
+ *
+ * Students added through an instructor's roster import choose their first
+ * password here and record their research consent decision, then sign in.
+ */
+
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
+import { Lock } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Checkbox } from '../components/ui/checkbox';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { activateAccount } from '../lib/api/auth-client';
+
+export function ActivateAccountPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [researchConsent, setResearchConsent] = useState(false);
+  const [error, setError] = useState<string | null>(token ? null : 'This activation link is missing its token.');
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    const result = await activateAccount(token as string, password, researchConsent);
+    setLoading(false);
+    if (result.success) {
+      setDone(true);
+    } else {
+      setError(result.details?.password?.[0] ?? result.error ?? 'Could not activate your account.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Activate your account</CardTitle>
+          <CardDescription>
+            Your instructor added you to a class. Choose a password of at least 8 characters to get started.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {done ? (
+            <>
+              <p className="text-sm text-gray-700" role="status">
+                Your account is active. Sign in with your email and new password.
+              </p>
+              <Button className="w-full" onClick={() => navigate('/login')}>
+                Go to sign in
+              </Button>
+            </>
+          ) : !token ? (
+            <>
+              <p className="text-sm text-red-600 font-medium" role="alert">{error}</p>
+              <p className="text-sm text-gray-600">
+                Use "Forgot password?" on the sign-in page with your school email to get a new link.
+              </p>
+              <Button className="w-full" onClick={() => navigate('/reset-password')}>
+                Reset password
+              </Button>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="activate-password">Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    id="activate-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                    autoComplete="new-password"
+                    minLength={8}
+                    autoFocus
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="activate-password-confirm">Confirm password</Label>
+                <Input
+                  id="activate-password-confirm"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+
+              <div className="flex items-start gap-2 rounded border border-gray-200 bg-gray-50 p-3">
+                <Checkbox
+                  id="activate-research-consent"
+                  checked={researchConsent}
+                  onCheckedChange={(checked) => setResearchConsent(checked === true)}
+                  className="mt-0.5"
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="activate-research-consent" className="text-sm font-medium">
+                    I agree to take part in the research study
+                  </Label>
+                  <p className="text-xs text-gray-500">
+                    Your practice activity may be analysed by the research team under the study's IRB protocol.
+                    This is optional, does not affect your grade, and you can withdraw at any time. If you do not
+                    agree, your data is never included in research exports.
+                  </p>
+                </div>
+              </div>
+
+              {error && <p className="text-sm text-red-600 font-medium" role="alert">{error}</p>}
+              <Button type="submit" className="w-full" disabled={password.length < 8 || loading}>
+                {loading ? 'Activating...' : 'Activate account'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ActivateAccountPage;
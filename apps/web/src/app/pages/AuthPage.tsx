@@ -5,6 +5,8 @@
  * Signup requires a role-specific access code:
  * - Student: class code
  * - Instructor: instructor code
+ * Students also record an optional research consent decision; learners who
+ * do not opt in are excluded from research exports.
  *
  * On success the AuthContext syncs the user into localStorage so the existing
  * role-based routing (which reads storage.getUserProfile()) keeps working.
@@ -17,6 +19,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../co
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
+import { Checkbox } from '../components/ui/checkbox';
 import { cn } from '../components/ui/utils';
 import { useAuth } from '../lib/auth-context';
 import { AUTH_ENABLED } from '../lib/api/auth-client';
@@ -45,6 +48,7 @@ export function AuthPage() {
   const [signupRole, setSignupRole] = useState<UserRole | null>(null);
   const [signupClassCode, setSignupClassCode] = useState('');
   const [signupInstructorCode, setSignupInstructorCode] = useState('');
+  const [signupResearchConsent, setSignupResearchConsent] = useState(false);
   const [signupError, setSignupError] = useState<string | null>(null);
   const [signupLoading, setSignupLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
@@ -153,6 +157,7 @@ export function AuthPage() {
       role: signupRole,
       classCode: signupRole === 'student' ? signupClassCode : undefined,
       instructorCode: signupRole === 'instructor' ? signupInstructorCode : undefined,
+      researchConsent: signupRole === 'student' ? signupResearchConsent : undefined,
     });
     setSignupLoading(false);
     if (!result.success) {
@@ -294,6 +299,15 @@ export function AuthPage() {
                   </button>
                 </div>
               </div>
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  className="text-sm text-blue-600 hover:underline"
+                  onClick={() => navigate('/reset-password')}
+                >
+                  Forgot password?
+                </button>
+              </div>
               {loginError && (
                 <p className="text-sm text-red-600 font-medium" role="alert">{loginError}</p>
               )}
@@ -479,6 +493,28 @@ export function AuthPage() {
                 </div>
               )}
 
+              {/* Research consent (students only; optional) */}
+              {signupRole === 'student' && (
+                <div className="flex items-start gap-2 rounded border border-gray-200 bg-gray-50 p-3">
+                  <Checkbox
+                    id="signup-research-consent"
+                    checked={signupResearchConsent}
+                    onCheckedChange={(checked) => setSignupResearchConsent(checked === true)}
+                    className="mt-0.5"
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="signup-research-consent" className="text-sm font-medium">
+                      I agree to take part in the research study
+                    </Label>
+                    <p className="text-xs text-gray-500">
+                      Your practice activity may be analysed by the research team under the study's IRB protocol.
+                      This is optional, does not affect your grade, and you can withdraw at any time. If you do not
+                      agree, your data is never included in research exports.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {signupError && (
                 <p className="text-sm text-red-600 font-medium" role="alert">{signupError}</p>
               )}
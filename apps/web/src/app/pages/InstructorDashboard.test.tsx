@@ -17,6 +17,13 @@ const mockStorageClient = vi.hoisted(() => ({
   checkBackendHealth: vi.fn(),
   getInstructorAnalyticsSummary: vi.fn(),
   getInstructorAnalyticsInteractions: vi.fn(),
+  getInstructorProblems: vi.fn(async () => []),
+  getInstructorAssignments: vi.fn(async () => []),
+  getGradebook: vi.fn(async () => null),
+  getLtiStatus: vi.fn(async () => null),
+  getLLMUsageReport: vi.fn(async () => null),
+  getSectionStaff: vi.fn(async () => []),
+  getSectionStudents: vi.fn(async () => []),
 }));
 
 const mockUseUserRole = vi.hoisted(() => vi.fn());
@@ -44,6 +44,12 @@ import {
   DialogDescription
 } from '../components/ui/dialog';
 import { ConfirmDialog } from '../components/ui/confirm-dialog';
+import { ProblemAuthoringPanel } from '../components/features/problems/ProblemAuthoringPanel';
+import { AssignmentsPanel } from '../components/features/assignments/AssignmentsPanel';
+import { GradebookPanel } from '../components/features/gradebook/GradebookPanel';
+import { LLMUsagePanel } from '../components/features/llm-usage/LLMUsagePanel';
+import { SectionStaffPanel } from '../components/features/sections/SectionStaffPanel';
+import { SectionRosterPanel } from '../components/features/sections/SectionRosterPanel';
 import {
   Tooltip,
   TooltipContent,
@@ -971,6 +977,36 @@ export function InstructorDashboard() {
           </CardContent>
         </Card>
 
+        {/* Problem Bank authoring (server-backed) */}
+        {isBackendAvailable && authUser?.role === 'instructor' && (
+          <ProblemAuthoringPanel sections={authUser.ownedSections ?? []} />
+        )}
+
+        {/* Assignments (Neon-backed sections) */}
+        {isBackendAvailable && authUser?.role === 'instructor' && (
+          <AssignmentsPanel sections={authUser.ownedSections ?? []} />
+        )}
+
+        {/* Gradebook export and LTI grade passback */}
+        {isBackendAvailable && authUser?.role === 'instructor' && (
+          <GradebookPanel sections={authUser.ownedSections ?? []} />
+        )}
+
+        {/* LLM token use, cache hits and budget fallbacks */}
+        {isBackendAvailable && authUser?.role === 'instructor' && (
+          <LLMUsagePanel sections={authUser.ownedSections ?? []} />
+        )}
+
+        {/* CSV roster import and student management */}
+        {isBackendAvailable && authUser?.role === 'instructor' && (
+          <SectionRosterPanel sections={authUser.ownedSections ?? []} />
+        )}
+
+        {/* Co-instructors and teaching assistants */}
+        {isBackendAvailable && authUser?.role === 'instructor' && (
+          <SectionStaffPanel sections={authUser.ownedSections ?? []} />
+        )}
+
         {/* Quick Links */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => navigate('/research')}>
@@ -46,7 +46,8 @@ import {
   LogOut,
   ChevronLeft,
   ChevronRight,
-  XCircle
+  XCircle,
+  CalendarClock
 } from 'lucide-react';
 
 import { Card } from '../components/ui/card';
@@ -56,7 +57,8 @@ import { Badge } from '../components/ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger } from '../components/ui/tooltip';
 import { Skeleton } from '../components/ui/skeleton';
 import { cn } from '../components/ui/utils';
-import { DEFAULT_SQL_EDITOR_CODE, SQLEditor } from '../components/features/sql/SQLEditor';
+import { DEFAULT_SQL_EDITOR_CODE, SQLEditor, type ExecutionGradingDetails } from '../components/features/sql/SQLEditor';
+import { SchemaBrowser } from '../components/features/sql/SchemaBrowser';
 import { HintSystem } from '../components/features/hints/HintSystem';
 import { ConceptCoverage } from '../components/features/research/ConceptCoverage';
 import { AskMyTextbookChat } from '../components/features/chat/AskMyTextbookChat';
@@ -72,8 +74,13 @@ import { useLocation, Link } from 'react-router';
 import { storage, subscribeToSync, clearAllDebugSettingsWithSync, broadcastSync } from '../lib/storage';
 import { useAuth } from '../lib/auth-context';
 import { AUTH_BACKEND_CONFIGURED } from '../lib/api/auth-client';
+import { storageClient, type LearnerAssignment } from '../lib/api/storage-client';
+import { mergeProblemCatalog, toSqlProblem } from '../lib/problem-bank';
+import { getAssignmentStatus, getAttemptsRemaining, resolveAssignmentProblems } from '../lib/assignments';
 import { clearUiStateForActor, getUiState, setUiState } from '../lib/ui-state';
-import type { QueryResult } from '../lib/sql-executor';
+import type { QueryResult, SQLExecutor } from '../lib/sql-executor';
+import type { QueryPlanResult } from '../lib/query-plan';
+import type { QueryStageDivergence } from '../lib/query-stages';
 import { orchestrator } from '../lib/adaptive-orchestrator';
 import { buildBundleForCurrentProblem, generateUnitFromLLM } from '../lib/content/content-generator';
 import { buildPdfIndexOutputFields } from '../lib/api/pdf-retrieval';
@@ -397,6 +404,23 @@ export function LearningInterface() {
   const learnerId = profile?.id || cachedProfileId || (AUTH_BACKEND_CONFIGURED ? '' : 'learner-1');
   const [sessionId, setSessionId] = useState('');
   const [currentProblem, setCurrentProblem] = useState<SQLProblem>(getFirstProblem());
+  // Instructor-authored problems published to the learner's section
+  const [publishedProblems, setPublishedProblems] = useState<SQLProblem[]>([]);
+  const problemCatalog = useMemo(
+    () => mergeProblemCatalog(sqlProblems, publishedProblems),
+    [publishedProblems]
+  );
+  // Assignments released to the learner's section; an active one scopes the problem list
+  const [assignments, setAssignments] = useState<LearnerAssignment[]>([]);
+  const [activeAssignmentId, setActiveAssignmentId] = useState<string | null>(null);
+  const activeAssignment = useMemo(
+    () => assignments.find(assignment => assignment.id === activeAssignmentId) ?? null,
+    [assignments, activeAssignmentId]
+  );
+  const assignmentProblems = useMemo(
+    () => (activeAssignment ? resolveAssignmentProblems(activeAssignment, problemCatalog) : []),
+    [activeAssignment, problemCatalog]
+  );
   const [activeConceptId, setActiveConceptId] = useState<string | null>(null);
   const [activeConceptTitle, setActiveConceptTitle] = useState<string | null>(null);
   const [sqlDraft, setSqlDraft] = useState(DEFAULT_SQL_EDITOR_CODE);
@@ -407,6 +431,12 @@ export function LearningInterface() {
   const [interactions, setInteractions] = useState<InteractionEvent[]>([]);
   const [lastError, setLastError] = useState<string | undefined>();
   const [lastErrorEventId, setLastErrorEventId] = useState<string | undefined>();
+  // First SELECT stage where the last wrong result departed from the solution
+  const [lastStageDivergence, setLastStageDivergence] = useState<QueryStageDivergence | null>(null);
+  // Live practice database shared by the editor with the schema browser
+  const [practiceDatabase, setPracticeDatabase] = useState<SQLExecutor | null>(null);
+  // Bumped whenever the practice tables may have changed, to refresh the schema browser
+  const [databaseVersion, setDatabaseVersion] = useState(0);
   const [subtypeOverride, setSubtypeOverride] = useState('auto');
   const [escalationTriggered, setEscalationTriggered] = useState(false);
   const [notesActionMessage, setNotesActionMessage] = useState<string | undefined>();
@@ -817,6 +847,21 @@ export function LearningInterface() {
     };
   }, [isHydrating, isRoleLoading, learnerId]);
 
+  useEffect(() => {
+    if (!AUTH_BACKEND_CONFIGURED || !learnerId) return;
+
+    let cancelled = false;
+    storageClient.getPublishedProblems().then((problems) => {
+      if (!cancelled) setPublishedProblems(problems.map(toSqlProblem));
+    });
+    storageClient.getMyAssignments().then((loaded) => {
+      if (!cancelled) setAssignments(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [learnerId]);
+
   // Parse query params on mount to set problem/concept context
   useEffect(() => {
     const params = new URLSearchParams(location.search);
@@ -825,7 +870,7 @@ export function LearningInterface() {
     
     if (problemId) {
       // Load specific problem
-      const problem = sqlProblems.find(p => p.id === problemId);
+      const problem = problemCatalog.find(p => p.id === problemId);
       if (problem) {
         setCurrentProblem(problem);
         // Also check if concept is specified
@@ -838,7 +883,7 @@ export function LearningInterface() {
       }
     } else if (conceptId) {
       // Find first problem with this concept
-      const problem = sqlProblems.find(p => p.concepts.includes(conceptId));
+      const problem = problemCatalog.find(p => p.concepts.includes(conceptId));
       if (problem) {
         setCurrentProblem(problem);
         setActiveConceptId(conceptId);
@@ -847,7 +892,7 @@ export function LearningInterface() {
         });
       }
     }
-  }, [location.search]);
+  }, [location.search, problemCatalog]);
 
   useEffect(() => {
     if (!persistedPracticeUiState) return;
@@ -1258,6 +1303,7 @@ export function LearningInterface() {
       );
       setLastError(undefined);
       setLastErrorEventId(undefined);
+      setLastStageDivergence(null);
       setEscalationTriggered(false);
       setNotesActionMessage(undefined);
       setGenerationError(undefined);
@@ -1446,6 +1492,10 @@ export function LearningInterface() {
     }
   };
 
+  const handleDatabaseReset = () => {
+    setDatabaseVersion(version => version + 1);
+  };
+
   // RESEARCH-4: Track which concept_view events have been emitted to prevent spam
   const emittedConceptViewsRef = useRef<Set<string>>(new Set());
 
@@ -1455,7 +1505,7 @@ export function LearningInterface() {
   }, [learnerId, sessionId]);
 
   const handleProblemChange = useCallback((id: string) => {
-    const problem = sqlProblems.find(p => p.id === id);
+    const problem = problemCatalog.find(p => p.id === id);
     if (!problem) {
       // Problem not found - silently return
       return;
@@ -1492,6 +1542,7 @@ export function LearningInterface() {
     setElapsedTime(0);
     setLastError(undefined);
     setLastErrorEventId(undefined);
+    setLastStageDivergence(null);
     setEscalationTriggered(false);
     setNotesActionMessage(undefined);
     setGenerationError(undefined);
@@ -1499,7 +1550,27 @@ export function LearningInterface() {
 
     // Refresh solved count from storage when switching problems
     setSolvedRefreshKey(prev => prev + 1);
-  }, [learnerId, sessionId]);
+  }, [learnerId, problemCatalog, sessionId]);
+
+  const handleAssignmentChange = useCallback((assignmentId: string | null) => {
+    const assignment = assignments.find(item => item.id === assignmentId) ?? null;
+    setActiveAssignmentId(assignment?.id ?? null);
+    if (!assignment) return;
+
+    const problems = resolveAssignmentProblems(assignment, problemCatalog);
+    if (problems.length > 0 && !problems.some(problem => problem.id === currentProblem.id)) {
+      handleProblemChange(problems[0].id);
+    }
+  }, [assignments, problemCatalog, currentProblem.id, handleProblemChange]);
+
+  // ?assignmentId= opens the assignment view once assignments have loaded
+  useEffect(() => {
+    const assignmentId = new URLSearchParams(location.search).get('assignmentId');
+    if (assignmentId && assignments.some(assignment => assignment.id === assignmentId)) {
+      handleAssignmentChange(assignmentId);
+    }
+    // Only react to navigation and the assignment list, not to problem switches
+  }, [location.search, assignments]);
 
   const collectNoteEvidenceIds = (
     extraIds: string[] = [],
@@ -1585,7 +1656,9 @@ export function LearningInterface() {
       sessionId,
       templateId,
       bundle,
-      triggerInteractionIds: sourceInteractionIds
+      triggerInteractionIds: sourceInteractionIds,
+      conditionId: sessionConfig?.conditionId,
+      leakContext: { expectedQuery: currentProblem.expectedQuery, expectedResult: currentProblem.expectedResult }
     });
 
     const textbookWrite = await storage.saveTextbookUnitCritical(learnerId, generation.unit);
@@ -1622,6 +1695,8 @@ export function LearningInterface() {
       outputs: {
         note_id: textbookResult.unit.id,
         template_id: templateId,
+        template_version: generation.templateVersion ?? null,
+        template_assignment: generation.templateAssignment ?? null,
         cache_hit: generation.fromCache,
         parse_success: parseSuccess,
         parse_mode: parseMode,
@@ -1692,15 +1767,52 @@ export function LearningInterface() {
     return { generation, textbookResult, textbookWriteStatus: textbookWrite.status };
   };
 
-  const handleExecute = async (query: string, result: QueryResult, isCorrect?: boolean) => {
+  // Query plan views are exploration, not attempts: logged without touching
+  // the error state, hint ladder or mastery
+  const handleExplain = (query: string, explanation: QueryPlanResult) => {
+    const event: InteractionEvent = {
+      id: createEventId('event', 'query-plan'),
+      sessionId,
+      learnerId,
+      timestamp: Date.now(),
+      eventType: 'query_plan_view',
+      problemId: currentProblem.id,
+      code: query,
+      error: explanation.success ? undefined : explanation.error,
+      successful: explanation.success,
+      outputs: explanation.success
+        ? {
+            plan_nodes: explanation.summary.nodeCount,
+            full_scans: explanation.summary.fullScans,
+            index_searches: explanation.summary.indexSearches,
+            temp_btrees: explanation.summary.tempBTrees,
+            correlated_subqueries: explanation.summary.correlatedSubqueries
+          }
+        : undefined,
+      conditionId: sessionConfig?.conditionId
+    };
+
+    storage.saveInteraction(event);
+    setInteractions((previousInteractions) => [...previousInteractions, event]);
+  };
+
+  const handleExecute = async (
+    query: string,
+    result: QueryResult,
+    isCorrect?: boolean,
+    details?: ExecutionGradingDetails
+  ) => {
     // Paper Data Contract: Flush pending code change telemetry before execution
     flushCodeChangeTelemetry();
+    setDatabaseVersion(version => version + 1);
     
     // isCorrect indicates if results match expected (for result-graded problems)
     // If not provided, fall back to result.success (no SQL errors)
     const actuallyCorrect = isCorrect ?? result.success;
     
-    const resolvedSubtype = !result.success
+    // Failed runs always get a subtype; wrong-result runs only when the
+    // result-diff classifier found one
+    const resolvedSubtype = !result.success || (!actuallyCorrect && result.errorSubtypeId)
       ? canonicalizeSqlEngageSubtype(instructorSubtypeOverride || result.errorSubtypeId)
       : undefined;
     const event: InteractionEvent = {
@@ -1716,17 +1828,20 @@ export function LearningInterface() {
       sqlEngageSubtype: resolvedSubtype,
       policyVersion: getSqlEngagePolicyVersion(),
       successful: actuallyCorrect,  // Now reflects correctness, not just execution success
+      resultSimilarity: result.success ? details?.resultSimilarity : undefined,
       timeSpent: Date.now() - startTime,
       // Track attempted concepts for all executable submissions so incorrect
       // (result-graded) runs can reduce mastery evidence.
       conceptIds: result.success ? [...currentProblem.concepts] : undefined,
-      conditionId: sessionConfig?.conditionId
+      conditionId: sessionConfig?.conditionId,
+      problemSetId: activeAssignment?.problemIds.includes(currentProblem.id) ? activeAssignment.id : undefined
     };
 
     storage.saveInteraction(event);
     setInteractions((previousInteractions) => [...previousInteractions, event]);
+    setLastStageDivergence(actuallyCorrect ? null : details?.stageDivergence ?? null);
 
-    if (!result.success && resolvedSubtype) {
+    if (!actuallyCorrect && resolvedSubtype) {
       setLastError(resolvedSubtype);
       setLastErrorEventId(event.id);
       setNotesActionMessage(undefined);
@@ -1747,8 +1862,10 @@ export function LearningInterface() {
     }
 
     if (result.success) {
-      setLastError(undefined);
-      setLastErrorEventId(undefined);
+      if (actuallyCorrect) {
+        setLastError(undefined);
+        setLastErrorEventId(undefined);
+      }
       // Keep escalationTriggered=true so Save to Notes stays visible after solving
       setNotesActionMessage(undefined);
       setGenerationError(undefined);
@@ -1765,7 +1882,7 @@ export function LearningInterface() {
         setLearningPath(updatedPath);
       }
       
-      // Week 5: Record bandit outcome when problem is solved successfully
+      // Week 5: Record bandit outcome for runnable attempts; near misses earn partial credit
       // Only record when using bandit strategy (not static or diagnostic)
       const debugProfileOverride = safeGetProfileOverride();
       const assignmentStrategy = safeGetStrategy();
@@ -1780,7 +1897,8 @@ export function LearningInterface() {
           const usedExplanation = sessionInteractions.some((i) => i.eventType === 'explanation_view');
           
           banditManager.recordOutcome(learnerId, currentProfileId, {
-            solved: true,
+            solved: actuallyCorrect,
+            partialCredit: event.resultSimilarity,
             usedExplanation,
             errorCount,
             baselineErrors: 3, // Expected baseline
@@ -1790,8 +1908,9 @@ export function LearningInterface() {
           });
 
           // Log reward observed event for research analysis
+          const successCredit = actuallyCorrect ? 1 : event.resultSimilarity ?? 0;
           const rewardComponents = {
-            independentSuccess: usedExplanation ? 0 : 1,
+            independentSuccess: usedExplanation ? 0 : successCredit,
             errorReduction: Math.max(0, 1 - errorCount / 3),
             delayedRetention: 0,
             dependencyPenalty: -currentHDI,
@@ -2183,7 +2302,7 @@ export function LearningInterface() {
 
   // Memoized problem grouping by topic for the dropdown
   const problemsByTopic = useMemo(() => {
-    const ranked = getProblemsByDifficultyRank();
+    const ranked = getProblemsByDifficultyRank(activeAssignment ? assignmentProblems : problemCatalog);
     return ranked.reduce((acc, problem) => {
       if (!acc[problem.topic]) {
         acc[problem.topic] = [];
@@ -2191,7 +2310,7 @@ export function LearningInterface() {
       acc[problem.topic].push(problem);
       return acc;
     }, {} as Record<string, SQLProblem[]>);
-  }, []);
+  }, [activeAssignment, assignmentProblems, problemCatalog]);
 
   const topicOrder: string[] = ['basics', 'filtering', 'joining', 'aggregation', 'functions', 'advanced'];
 
@@ -2239,6 +2358,19 @@ export function LearningInterface() {
     return allInteractions.filter(i => i.problemId === currentProblem.id);
   }, [learnerId, currentProblem.id, solvedRefreshKey]);
 
+  // Attempts left on the current problem under the active assignment's limit
+  const assignmentAttemptsRemaining = useMemo(() => {
+    if (!activeAssignment || !activeAssignment.problemIds.includes(currentProblem.id)) return null;
+    const seen = new Set(allProblemInteractions.map(interaction => interaction.id));
+    const runs = [
+      ...allProblemInteractions,
+      ...learnerSessionInteractions.filter(
+        interaction => interaction.problemId === currentProblem.id && !seen.has(interaction.id)
+      ),
+    ];
+    return getAttemptsRemaining(activeAssignment, currentProblem.id, runs);
+  }, [activeAssignment, currentProblem.id, allProblemInteractions, learnerSessionInteractions]);
+
   const problemAttempts = useMemo(() => {
     return allProblemInteractions
       .filter(i => i.eventType === 'execution' || i.eventType === 'error')
@@ -2266,8 +2398,11 @@ export function LearningInterface() {
     topicProgressMap,
   } = progress;
 
-  // Navigation handlers using adaptive difficulty-based sequencing
-  const rankedProblems = useMemo(() => getProblemsByDifficultyRank(), []);
+  // Navigation handlers using adaptive difficulty-based sequencing (assignment order inside an assignment)
+  const rankedProblems = useMemo(
+    () => (activeAssignment ? assignmentProblems : getProblemsByDifficultyRank(problemCatalog)),
+    [activeAssignment, assignmentProblems, problemCatalog]
+  );
 
   const handleNextProblem = useCallback(() => {
     const currentIndex = rankedProblems.findIndex(p => p.id === currentProblem.id);
@@ -2603,6 +2738,54 @@ export function LearningInterface() {
             </div>
           )}
           
+          {/* Assignment view: scopes the problem list to the assignment */}
+          {assignments.length > 0 && (
+            <div
+              className="mb-4 flex flex-wrap items-center gap-3 rounded-lg border bg-white dark:bg-gray-900 px-4 py-2"
+              data-testid="assignment-bar"
+            >
+              <CalendarClock className="size-4 text-gray-500" />
+              <Select
+                value={activeAssignment?.id ?? 'free-practice'}
+                onValueChange={(value) => handleAssignmentChange(value === 'free-practice' ? null : value)}
+              >
+                <SelectTrigger className="w-full sm:w-[260px]" data-testid="assignment-select-trigger">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="free-practice">Free practice</SelectItem>
+                  {assignments.map(assignment => (
+                    <SelectItem key={assignment.id} value={assignment.id}>{assignment.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {activeAssignment && (
+                <>
+                  <Badge
+                    variant={getAssignmentStatus(activeAssignment) === 'past-due' ? 'destructive' : 'outline'}
+                  >
+                    {getAssignmentStatus(activeAssignment) === 'past-due' ? 'Past due' : 'Due'}{' '}
+                    {new Date(activeAssignment.dueAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </Badge>
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    {assignmentProblems.filter(problem => isProblemSolved(problem.id)).length} of {assignmentProblems.length} solved
+                  </span>
+                  {assignmentAttemptsRemaining !== null && (
+                    <span
+                      className={`text-sm ${assignmentAttemptsRemaining === 0 ? 'text-red-600' : 'text-gray-600 dark:text-gray-300'}`}
+                      data-testid="assignment-attempts-remaining"
+                    >
+                      {assignmentAttemptsRemaining} attempt{assignmentAttemptsRemaining !== 1 ? 's' : ''} left on this problem
+                    </span>
+                  )}
+                  {activeAssignment.description && (
+                    <p className="basis-full text-sm text-gray-600 dark:text-gray-300">{activeAssignment.description}</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Main problem area */}
             <div className="lg:col-span-2 space-y-4 xl:grid xl:grid-cols-2 xl:gap-4 xl:space-y-0 min-w-0">
@@ -2864,9 +3047,15 @@ export function LearningInterface() {
                     Database Schema
                   </summary>
                   <div className="overflow-hidden transition-all duration-200">
-                    <pre className="bg-gray-100 dark:bg-gray-800 p-3 rounded text-xs overflow-x-auto mt-2">
-                      {currentProblem.schema}
-                    </pre>
+                    <SchemaBrowser executor={practiceDatabase} refreshKey={databaseVersion} />
+                    <details className="mt-2">
+                      <summary className="text-xs text-gray-600 dark:text-gray-400 cursor-pointer select-none hover:text-blue-700">
+                        Show CREATE statements
+                      </summary>
+                      <pre className="bg-gray-100 dark:bg-gray-800 p-3 rounded text-xs overflow-x-auto mt-2">
+                        {currentProblem.schema}
+                      </pre>
+                    </details>
                   </div>
                 </details>
 
@@ -2916,6 +3105,14 @@ export function LearningInterface() {
                   onExecute={handleExecute}
                   onCodeChange={handleEditorCodeChange}
                   onReset={handleEditorReset}
+                  onDatabaseReset={handleDatabaseReset}
+                  onExecutorReady={setPracticeDatabase}
+                  onExplain={handleExplain}
+                  runDisabledReason={
+                    assignmentAttemptsRemaining === 0
+                      ? 'No attempts left on this problem for this assignment.'
+                      : undefined
+                  }
                 />
               </div>
             </div>
@@ -2929,6 +3126,7 @@ export function LearningInterface() {
                 learnerId={learnerId}
                 problemId={currentProblem.id}
                 errorSubtypeId={effectiveLastError}
+                stageDivergence={lastStageDivergence}
                 isSubtypeOverrideActive={Boolean(instructorSubtypeOverride)}
                 knownSubtypeOverride={instructorSubtypeOverride}
                 recentInteractions={problemInteractions}
@@ -0,0 +1,150 @@
+/**
+ * PasswordResetPage — /reset-password
+ *
+ * Without a token: asks for the account email and sends a reset link.
+ * With ?token=: lets the learner choose a new password, then sends them to login.
+ */
+
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
+import { Lock, Mail } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { confirmPasswordReset, requestPasswordReset } from '../lib/api/auth-client';
+
+export function PasswordResetPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    const result = await requestPasswordReset(email);
+    setLoading(false);
+    if (result.success) {
+      setDone(true);
+    } else {
+      setError(result.error ?? 'Could not send the reset email. Please try again.');
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    setError(null);
+    setLoading(true);
+    const result = await confirmPasswordReset(token as string, password);
+    setLoading(false);
+    if (result.success) {
+      setDone(true);
+    } else {
+      setError(result.details?.password?.[0] ?? result.error ?? 'Could not reset your password.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{token ? 'Choose a new password' : 'Reset your password'}</CardTitle>
+          <CardDescription>
+            {token
+              ? 'Your new password must be at least 8 characters.'
+              : "Enter your account email and we'll send you a link to reset your password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {done ? (
+            <>
+              <p className="text-sm text-gray-700" role="status">
+                {token
+                  ? 'Your password has been changed. You can now sign in with it.'
+                  : 'If an account exists for that email, a reset link is on its way. Check your inbox.'}
+              </p>
+              <Button className="w-full" onClick={() => navigate('/login')}>
+                Back to sign in
+              </Button>
+            </>
+          ) : token ? (
+            <form onSubmit={handleReset} className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="reset-password">New password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    id="reset-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                    autoComplete="new-password"
+                    minLength={8}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="reset-password-confirm">Confirm new password</Label>
+                <Input
+                  id="reset-password-confirm"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-600 font-medium" role="alert">{error}</p>}
+              <Button type="submit" className="w-full" disabled={password.length < 8 || loading}>
+                {loading ? 'Saving...' : 'Set new password'}
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleRequest} className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="reset-email">Email</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    id="reset-email"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="pl-10"
+                    autoComplete="email"
+                    autoFocus
+                    required
+                  />
+                </div>
+              </div>
+              {error && <p className="text-sm text-red-600 font-medium" role="alert">{error}</p>}
+              <Button type="submit" className="w-full" disabled={!email || loading}>
+                {loading ? 'Sending...' : 'Send reset link'}
+              </Button>
+              <Button type="button" variant="outline" className="w-full" onClick={() => navigate('/login')}>
+                Back to sign in
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default PasswordResetPage;
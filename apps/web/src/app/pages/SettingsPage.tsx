@@ -30,6 +30,9 @@ import { Separator } from '../components/ui/separator';
 import { ConfirmDialog } from '../components/ui/confirm-dialog';
 import { PdfUploader } from '../components/features/textbook/PdfUploader';
 import { LLMSettingsHelper } from '../components/shared/LLMSettingsHelper';
+import { ResearchConsentCard } from '../components/features/research/ResearchConsentCard';
+import { AccountSecurityCard } from '../components/features/account/AccountSecurityCard';
+import { useAuth } from '../lib/auth-context';
 import { useUserRole } from '../hooks/useUserRole';
 import { useToast } from '../components/ui/toast';
 import { banditManager, BANDIT_ARM_PROFILES } from '../lib/ml/learner-bandit-manager';
@@ -68,6 +71,7 @@ const DEBUG_KEYS = {
 
 export function SettingsPage() {
   const { isInstructor, profile } = useUserRole();
+  const { user: authUser } = useAuth();
   const learnerId = profile?.id;
   const { addToast } = useToast();
   
@@ -370,6 +374,12 @@ export function SettingsPage() {
             </div>
           </Card>
 
+          {/* Email, password and account deletion - backend accounts only */}
+          {authUser && <AccountSecurityCard />}
+
+          {/* Research consent - signed-in students only */}
+          {authUser?.role === 'student' && <ResearchConsentCard />}
+
           {/* PDF Upload Section - Instructors only */}
           {isInstructor && (
             <Card className="p-6">
@@ -0,0 +1,71 @@
+/**
+ * VerifyEmailPage — /verify-email?token=
+ *
+ * Redeems the verification link from the signup email. Works signed in or
+ * out, since the link may be opened on a different device.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { confirmEmailVerification } from '../lib/api/auth-client';
+import { useAuth } from '../lib/auth-context';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+export function VerifyEmailPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { isAuthenticated } = useAuth();
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'This verification link is missing its token.');
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    confirmEmailVerification(token).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setState('verified');
+      } else {
+        setState('failed');
+        setError(result.error ?? 'This verification link is invalid or has expired.');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Email verification</CardTitle>
+          <CardDescription>
+            {state === 'verifying' && 'Confirming your email address...'}
+            {state === 'verified' && 'Your email address is confirmed. Thanks!'}
+            {state === 'failed' && 'We could not confirm your email address.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-sm text-red-600 font-medium" role="alert">{error}</p>}
+          {state === 'failed' && (
+            <p className="text-sm text-gray-600">
+              You can request a new link from the Settings page after signing in.
+            </p>
+          )}
+          {state !== 'verifying' && (
+            <Button className="w-full" onClick={() => navigate(isAuthenticated ? '/settings' : '/login')}>
+              {isAuthenticated ? 'Go to settings' : 'Go to sign in'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default VerifyEmailPage;
@@ -44,3 +44,12 @@ export function renderPrompt(templateId: TemplateId, sourcesJson: string): strin
     '}'
   ].join('\n');
 }
+
+/**
+ * Registry family of a template (`explanation.v1` -> `explanation`).
+ * Generation asks the server for the family so it can pick the version
+ * assigned to the learner's condition.
+ */
+export function getTemplateFamily(templateId: TemplateId): string {
+  return templateId.replace(/\.v\d+$/, '');
+}
@@ -5,6 +5,9 @@ import { RouteError } from './components/layout/RouteError';
 import { RootLayout } from './pages/RootLayout';
 import { TextbookPage } from './pages/TextbookPage';
 import { AuthPage } from './pages/AuthPage';
+import { PasswordResetPage } from './pages/PasswordResetPage';
+import { VerifyEmailPage } from './pages/VerifyEmailPage';
+import { ActivateAccountPage } from './pages/ActivateAccountPage';
 import { ResearchPage } from './pages/ResearchPage';
 import { ProjectsPage } from './pages/ProjectsPage';
 import { InstructorDashboard } from './pages/InstructorDashboard';
@@ -250,6 +253,19 @@ export const router = createBrowserRouter([
         path: 'signup',
         element: <AuthPage />,
       },
+      // Account links from email — usable signed in or out
+      {
+        path: 'reset-password',
+        Component: PasswordResetPage,
+      },
+      {
+        path: 'verify-email',
+        Component: VerifyEmailPage,
+      },
+      {
+        path: 'activate',
+        Component: ActivateAccountPage,
+      },
       // Catch-all redirect
       {
         path: '*',
@@ -27,7 +27,8 @@ export type GuidanceEscalationTrigger =
 export type TextbookUnitAction = 'created' | 'updated';
 export type TextbookUnitStatus = 'primary' | 'alternative' | 'archived';
 
-export type LLMProvider = 'ollama' | 'groq';
+/** Backend LLM providers, as named by the server's LLM_PROVIDER setting */
+export type LLMProvider = 'ollama' | 'groq' | 'openai-compatible' | 'mock';
 
 export type ConceptNode = {
   id: string;
@@ -117,7 +118,9 @@ export type InteractionEvent = {
     | 'prerequisite_violation_detected'
     | 'mastery_updated'
     | 'reflection_quality_assessed'
-    | 'learning_path_recommended';
+    | 'learning_path_recommended'
+    // Query plan visualizer (EXPLAIN QUERY PLAN)
+    | 'query_plan_view';
   problemId: string;
   code?: string;
   error?: string;
@@ -132,6 +135,8 @@ export type InteractionEvent = {
   policyVersion?: string;
   timeSpent?: number;
   successful?: boolean;
+  // execution fields: partial-credit score in [0, 1] for result-graded problems
+  resultSimilarity?: number;
   ruleFired?: string;
   templateId?: string;
   inputHash?: string;
@@ -259,7 +264,7 @@ export type InteractionEvent = {
   payload?: Record<string, unknown>;
   metadata?: Record<string, unknown>;
   // LLM telemetry metadata (Workstream 5)
-  llmProvider?: 'ollama' | 'groq';
+  llmProvider?: LLMProvider;
   llmModel?: string;
   llmPurpose?: string;
   llmLatencyMs?: number;
@@ -362,7 +367,7 @@ export type PdfIndexProvenance = {
 
 export type UnitProvenance = {
   // Provider/model information (Workstream 11)
-  provider: 'ollama' | 'groq';
+  provider: LLMProvider;
   model: string;
   generationMode?: 'cheap_mode' | 'quality_mode';
   sourceMix: string[];
@@ -371,6 +376,10 @@ export type UnitProvenance = {
   // Original fields
   params: LLMGenerationParams;
   templateId: string;
+  /** Server prompt template version the LLM was given, e.g. explanation.v2 */
+  templateVersion?: string;
+  /** How the server chose that version: pinned by id, by condition, or the family default */
+  templateAssignment?: 'pinned' | 'condition' | 'default';
   inputHash: string;
   retrievedSourceIds: string[];
   retrievedPdfCitations?: PdfCitation[];
@@ -539,6 +548,50 @@ export type NextHintSelection = {
   templateId?: string;
 };
 
+/**
+ * How a problem's submission is graded.
+ * - 'result': set comparison, ignores row and column order
+ * - 'exec-only': passes when the query runs without error
+ * - 'ordered-result': rows must appear in the expected order (ORDER BY problems)
+ * - 'exact-columns': columns must appear in the expected order
+ * - 'ordered-and-exact': both row and column order must match
+ * - 'final-state': compares the database after the statement runs (INSERT/UPDATE/DELETE/DDL)
+ */
+export type SQLGradingMode =
+  | 'result'
+  | 'exec-only'
+  | 'ordered-result'
+  | 'exact-columns'
+  | 'ordered-and-exact'
+  | 'final-state';
+
+/**
+ * What a 'final-state' problem compares after the statement runs on a fresh
+ * database. With neither field set, every user table is compared.
+ */
+export type SQLStateVerification = {
+  /** SELECT whose result must match the one after expectedQuery */
+  query?: string;
+  /** Tables whose full contents must match the ones after expectedQuery */
+  tables?: string[];
+};
+
+/**
+ * Alternate dataset used only at grading time. The learner never sees it;
+ * a submission passes only when it agrees with expectedQuery on every dataset.
+ */
+export type SQLHiddenDataset = {
+  id: string;
+  /** Full SQL schema (DDL + seed rows) for this dataset */
+  schema: string;
+};
+
+/**
+ * SQL dialect a problem is practised in. Queries always run on sql.js;
+ * 'postgres' adds PostgreSQL compatibility checks to the editor.
+ */
+export type SQLDialect = 'sqlite' | 'postgres';
+
 export type SQLProblemTopic = 'basics' | 'filtering' | 'joining' | 'aggregation' | 'functions' | 'advanced';
 
 export type SQLProblem = {
@@ -550,7 +603,13 @@ export type SQLProblem = {
   schema: string; // SQL schema for the problem
   expectedQuery: string;
   expectedResult?: any[];
-  gradingMode?: 'result' | 'exec-only';
+  gradingMode?: SQLGradingMode;
+  /** Final-state verification for write-query problems */
+  stateVerification?: SQLStateVerification;
+  /** Hidden datasets that catch queries hard-coded to the visible rows */
+  hiddenDatasets?: SQLHiddenDataset[];
+  /** Target dialect; defaults to 'sqlite' */
+  dialect?: SQLDialect;
   hints?: string[];
   /** Topic category for grouping and scaffolded progression */
   topic: SQLProblemTopic;
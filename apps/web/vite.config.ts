@@ -280,6 +280,10 @@ export default defineConfig({
   optimizeDeps: {
     include: ['recharts', 'lodash'],
   },
+  worker: {
+    // The SQL sandbox worker imports sql.js as an ES module
+    format: 'es',
+  },
   build: {
     outDir: path.resolve(__dirname, '../../dist/app'),
     emptyOutDir: true,
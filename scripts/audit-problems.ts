@@ -20,7 +20,7 @@ interface SQLProblem {
   schema: string;
   expectedQuery: string;
   expectedResult?: any[];
-  gradingMode?: 'result' | 'exec-only';
+  gradingMode?: 'result' | 'exec-only' | 'ordered-result' | 'exact-columns' | 'ordered-and-exact';
   hints?: string[];
 }
 
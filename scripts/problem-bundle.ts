@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+/**
+ * Problem Bundle CLI
+ *
+ * Exports the built-in problem catalog as a portable JSON/YAML problem bundle,
+ * validates bundles shared by partner courses, and converts between formats.
+ *
+ * Run with:
+ *   npx tsx scripts/problem-bundle.ts export [--format json|yaml] [--out FILE] [--ids ID,ID] [--title TITLE]
+ *   npx tsx scripts/problem-bundle.ts validate FILE [FILE...]
+ *   npx tsx scripts/problem-bundle.ts convert IN_FILE OUT_FILE
+ *
+ * Validation checks bundle structure, that every concept is known (the
+ * concept graph or a concept the built-in catalog uses), and that every
+ * expectedQuery runs against its schema and hidden datasets. Exits 1 when
+ * any issue is found.
+ *
+ * @module scripts/problem-bundle
+ */
+
+import initSqlJs from 'sql.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { sqlProblems } from '../apps/web/src/app/data/problems';
+import { toSqliteDialect } from '../apps/web/src/app/lib/sql-dialect';
+import {
+  ProblemBundleError,
+  bundleFormatFromFileName,
+  createProblemBundle,
+  formatBundleIssue,
+  parseProblemBundle,
+  serializeProblemBundle,
+  validateProblemBundle,
+  type BundleQueryRunner,
+  type ProblemBundle,
+  type ProblemBundleFileFormat,
+} from '../apps/web/src/app/lib/problem-bundle';
+
+const USAGE = `Usage:
+  problem-bundle export [--format json|yaml] [--out FILE] [--ids ID,ID] [--title TITLE]
+  problem-bundle validate FILE [FILE...]
+  problem-bundle convert IN_FILE OUT_FILE`;
+
+/**
+ * Split argv into positional arguments and --flag values.
+ */
+function parseArgs(args: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      flags[arg.slice(2)] = value;
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, flags };
+}
+
+/**
+ * Query runner backed by sql.js in Node (the web runner loads WASM by URL).
+ */
+async function createNodeQueryRunner(): Promise<BundleQueryRunner> {
+  const SQL = await initSqlJs();
+  return async (schema, query, dialect) => {
+    const db = new SQL.Database();
+    try {
+      try {
+        db.exec(schema);
+      } catch (error) {
+        return `schema failed to load: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      try {
+        db.exec(dialect === 'postgres' ? toSqliteDialect(query) : query);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    } finally {
+      db.close();
+    }
+  };
+}
+
+function readBundle(filePath: string): ProblemBundle {
+  return parseProblemBundle(fs.readFileSync(filePath, 'utf8'));
+}
+
+function writeOutput(text: string, outPath: string | undefined): void {
+  if (!outPath) {
+    process.stdout.write(text);
+    return;
+  }
+  fs.mkdirSync(path.dirname(path.resolve(outPath)), { recursive: true });
+  fs.writeFileSync(outPath, text);
+  console.error(`Wrote ${outPath}`);
+}
+
+function runExport(flags: Record<string, string>): number {
+  if (flags.format && flags.format !== 'json' && flags.format !== 'yaml') {
+    console.error(`Unknown format "${flags.format}" (expected json or yaml)`);
+    return 2;
+  }
+  const format: ProblemBundleFileFormat = (flags.format as ProblemBundleFileFormat | undefined)
+    ?? (flags.out ? bundleFormatFromFileName(flags.out) : 'json');
+
+  let problems = sqlProblems;
+  if (flags.ids) {
+    const ids = flags.ids.split(',').map(id => id.trim()).filter(Boolean);
+    const missing = ids.filter(id => !sqlProblems.some(problem => problem.id === id));
+    if (missing.length > 0) {
+      console.error(`Unknown problem ids: ${missing.join(', ')}`);
+      return 2;
+    }
+    problems = sqlProblems.filter(problem => ids.includes(problem.id));
+  }
+
+  const bundle = createProblemBundle(problems, { title: flags.title });
+  writeOutput(serializeProblemBundle(bundle, format), flags.out);
+  console.error(`Exported ${problems.length} problems (${format})`);
+  return 0;
+}
+
+async function runValidate(files: string[]): Promise<number> {
+  if (files.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const runQuery = await createNodeQueryRunner();
+  let failed = false;
+  for (const file of files) {
+    try {
+      const bundle = readBundle(file);
+      const issues = await validateProblemBundle(bundle, runQuery);
+      if (issues.length === 0) {
+        console.log(`✓ ${file}: ${bundle.problems.length} problems valid`);
+        continue;
+      }
+      failed = true;
+      console.log(`✗ ${file}: ${issues.length} issue(s)`);
+      issues.forEach(issue => console.log(`  - ${formatBundleIssue(issue)}`));
+    } catch (error) {
+      failed = true;
+      console.log(`✗ ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof ProblemBundleError) {
+        error.issues.forEach(issue => console.log(`  - ${formatBundleIssue(issue)}`));
+      }
+    }
+  }
+  return failed ? 1 : 0;
+}
+
+function runConvert(inFile: string | undefined, outFile: string | undefined): number {
+  if (!inFile || !outFile) {
+    console.error(USAGE);
+    return 2;
+  }
+  const bundle = readBundle(inFile);
+  writeOutput(serializeProblemBundle(bundle, bundleFormatFromFileName(outFile)), outFile);
+  return 0;
+}
+
+async function main(): Promise<number> {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, flags } = parseArgs(rest);
+
+  switch (command) {
+    case 'export':
+      return runExport(flags);
+    case 'validate':
+      return runValidate(positional);
+    case 'convert':
+      return runConvert(positional[0], positional[1]);
+    default:
+      console.error(USAGE);
+      return 2;
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
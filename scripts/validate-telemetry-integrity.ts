@@ -65,7 +65,7 @@ const TELEMETRY_EVENT_TYPES: TelemetryEventType[] = [
     name: 'execution',
     description: 'SQL query executed successfully (no errors)',
     requiredFields: ['id', 'learnerId', 'timestamp', 'eventType', 'problemId', 'successful'],
-    optionalFields: ['code', 'conceptIds', 'sessionId', 'timeSpent', 'conditionId'],
+    optionalFields: ['code', 'conceptIds', 'sessionId', 'timeSpent', 'conditionId', 'resultSimilarity'],
     correctnessField: 'successful',
     researchCritical: true,
     dependencies: ['sql-executor.ts', 'SQLEditor.tsx', 'LearningInterface.tsx']
@@ -78,6 +78,14 @@ const TELEMETRY_EVENT_TYPES: TelemetryEventType[] = [
     researchCritical: true,
     dependencies: ['sql-executor.ts', 'SQLEditor.tsx', 'LearningInterface.tsx']
   },
+  {
+    name: 'query_plan_view',
+    description: 'Learner viewed the EXPLAIN QUERY PLAN tree for a query',
+    requiredFields: ['id', 'learnerId', 'timestamp', 'eventType', 'problemId', 'code', 'successful'],
+    optionalFields: ['error', 'outputs', 'sessionId', 'conditionId'],
+    researchCritical: true,
+    dependencies: ['query-plan.ts', 'SQLEditor.tsx', 'LearningInterface.tsx']
+  },
 
   // Help/ladder events
   {
@@ -247,27 +247,11 @@ test.describe('@authz @section-scope instructor sees only own section', () => {
       expect(aggregatesBBody.data?.totalLearners).toBe(1);
       expect(aggregatesBBody.data?.totalInteractions).toBeGreaterThan(0);
 
+      // Research exports are researcher-only (consent-gated); instructors use /api/instructor/export
       const researchExportARes = await instructorA.context.get('/api/research/export');
-      expect(researchExportARes.ok()).toBeTruthy();
-      const researchExportABody = await researchExportARes.json();
-      expect(researchExportABody.data?.exportMetadata?.sectionIds).toEqual([sectionAId]);
-      assertOnlyLearnerAndSection(researchExportABody.data?.interactions || [], studentAId, sectionAId);
-      const researchTextbookA = researchExportABody.data?.textbookUnits || [];
-      expect(researchTextbookA.length).toBeGreaterThan(0);
-      for (const row of researchTextbookA) {
-        expect(row.learnerId).toBe(studentAId);
-      }
-
+      expect(researchExportARes.status()).toBe(403);
       const researchExportBRes = await instructorB.context.get('/api/research/export');
-      expect(researchExportBRes.ok()).toBeTruthy();
-      const researchExportBBody = await researchExportBRes.json();
-      expect(researchExportBBody.data?.exportMetadata?.sectionIds).toEqual([sectionBId]);
-      assertOnlyLearnerAndSection(researchExportBBody.data?.interactions || [], studentBId, sectionBId);
-      const researchTextbookB = researchExportBBody.data?.textbookUnits || [];
-      expect(researchTextbookB.length).toBeGreaterThan(0);
-      for (const row of researchTextbookB) {
-        expect(row.learnerId).toBe(studentBId);
-      }
+      expect(researchExportBRes.status()).toBe(403);
       } finally {
         await instructorA.context.dispose();
         await instructorB.context.dispose();
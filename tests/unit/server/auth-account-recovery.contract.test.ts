@@ -0,0 +1,361 @@
+/* @vitest-environment node */
+
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const getAuthAccountByEmailMock = vi.fn();
+const getAuthAccountByIdMock = vi.fn();
+const createAuthTokenMock = vi.fn();
+const consumeAuthTokenMock = vi.fn();
+const updateAuthAccountPasswordMock = vi.fn();
+const markAuthAccountEmailVerifiedMock = vi.fn();
+const deleteAuthAccountAndLearnerMock = vi.fn();
+const revokeAuthSessionsForAccountMock = vi.fn();
+const getOwnedSectionsByInstructorMock = vi.fn();
+const clearAuthCookieMock = vi.fn();
+const sendEmailMock = vi.fn();
+
+// bcrypt hash (cost 4) of 'correct horse battery staple'
+const PASSWORD_HASH = '$2b$04$tSeIZObzjWyt2cVD4Grhx.FT6lKp1DntUEdquZ7e8f8LgElCdS0Fq';
+
+vi.mock('../../../apps/server/src/db/index.js', () => ({
+  isUsingNeon: () => true,
+  createUser: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/db/neon.js', () => ({
+  getDb: () => ({}),
+  createAuthEvent: vi.fn(),
+  saveLearnerProfile: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/db/auth.js', () => ({
+  consumeAuthToken: consumeAuthTokenMock,
+  createAuthAccount: vi.fn(),
+  createAuthToken: createAuthTokenMock,
+  deleteAuthAccountAndLearner: deleteAuthAccountAndLearnerMock,
+  getAuthAccountByEmail: getAuthAccountByEmailMock,
+  getAuthAccountById: getAuthAccountByIdMock,
+  markAuthAccountEmailVerified: markAuthAccountEmailVerifiedMock,
+  revokeAuthSessionsForAccount: revokeAuthSessionsForAccountMock,
+  updateAuthAccountPassword: updateAuthAccountPasswordMock,
+  toPublicAccount: (account: Record<string, unknown>) => account,
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  signToken: vi.fn(),
+  setAuthCookie: vi.fn(),
+  setRefreshCookie: vi.fn(),
+  clearAuthCookie: clearAuthCookieMock,
+  startAuthSession: vi.fn(),
+  toAuthPayload: vi.fn(),
+  COOKIE_NAME: 'sql_adapt_auth',
+  REFRESH_COOKIE_NAME: 'sql_adapt_refresh',
+  REFRESH_TOKEN_TTL_MS: 30 * 24 * 60 * 60 * 1000,
+  requireAuth: (_req: unknown, _res: unknown, next: () => void) => next(),
+  verifyToken: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/middleware/csrf.js', () => ({
+  createCsrfToken: vi.fn(),
+  setCsrfCookie: vi.fn(),
+  CSRF_COOKIE_NAME: 'sql_adapt_csrf',
+  clearCsrfCookie: vi.fn(),
+  requireCsrf: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  createSectionForInstructor: vi.fn(),
+  enrollStudentInSection: vi.fn(),
+  getOwnedSectionsByInstructor: getOwnedSectionsByInstructorMock,
+  getScopedSections: vi.fn(),
+  getSectionBySignupCode: vi.fn(),
+  getSectionForStudent: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/db/research.js', () => ({
+  getResearchConsent: vi.fn(),
+  setResearchConsent: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  INSTRUCTOR_SIGNUP_CODE: 'instructor-code',
+  TA_SIGNUP_CODE: 'ta-code',
+  RESEARCHER_SIGNUP_CODE: 'researcher-code',
+  RESEARCH_CONSENT_VERSION: 'irb-consent-test',
+  WEB_APP_URL: 'https://app.example.edu',
+}));
+
+vi.mock('../../../apps/server/src/email/index.js', async () => {
+  const templates = await vi.importActual<typeof import('../../../apps/server/src/email/templates')>(
+    '../../../apps/server/src/email/templates'
+  );
+  return {
+    ...templates,
+    getEmailTransport: () => ({ name: 'test', send: sendEmailMock }),
+  };
+});
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+function getRouteHandler(router: RouterLike, method: 'post' | 'put' | 'delete', routePath: string): Function {
+  const layer = router.stack?.find((entry) => entry.route?.path === routePath && entry.route?.methods?.[method]);
+  const stack = layer?.route?.stack;
+  const handle = stack?.[stack.length - 1]?.handle;
+  if (!handle) {
+    throw new Error(`Route handler not found for ${method.toUpperCase()} ${routePath}`);
+  }
+  return handle;
+}
+
+async function invoke(
+  method: 'post' | 'put' | 'delete',
+  routePath: string,
+  body: Record<string, unknown>,
+  auth?: { accountId: string; learnerId: string; role: string },
+): Promise<{ status: number; json: unknown }> {
+  const { authRouter } = await import('../../../apps/server/src/routes/auth');
+  const handler = getRouteHandler(authRouter as unknown as RouterLike, method, routePath);
+  let statusCode = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+    clearCookie: vi.fn(),
+  };
+  await handler({ body, cookies: {}, auth }, res, vi.fn());
+  return { status: statusCode, json: payload };
+}
+
+const studentAccount = {
+  id: 'account-1',
+  email: 'student@example.com',
+  passwordHash: PASSWORD_HASH,
+  role: 'student',
+  learnerId: 'learner-1',
+  name: 'Student One',
+  emailVerifiedAt: null,
+};
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+});
+
+describe('password reset', () => {
+  it('answers identically for unknown emails and sends nothing', async () => {
+    getAuthAccountByEmailMock.mockResolvedValue(null);
+
+    const result = await invoke('post', '/password-reset/request', { email: 'nobody@example.com' });
+
+    expect(result.status).toBe(200);
+    expect((result.json as { success: boolean }).success).toBe(true);
+    await vi.waitFor(() => expect(getAuthAccountByEmailMock).toHaveBeenCalled());
+    expect(createAuthTokenMock).not.toHaveBeenCalled();
+    expect(sendEmailMock).not.toHaveBeenCalled();
+  });
+
+  it('answers before looking up the account', async () => {
+    getAuthAccountByEmailMock.mockReturnValue(new Promise(() => {}));
+
+    const result = await invoke('post', '/password-reset/request', { email: 'student@example.com' });
+
+    expect(result.status).toBe(200);
+    expect(result.json).toEqual({
+      success: true,
+      message: 'If an account exists for that email, a reset link is on its way.',
+    });
+  });
+
+  it('emails a single-use reset link for a known account', async () => {
+    getAuthAccountByEmailMock.mockResolvedValue(studentAccount);
+    createAuthTokenMock.mockResolvedValue('raw-token');
+
+    const result = await invoke('post', '/password-reset/request', { email: 'student@example.com' });
+
+    expect(result.status).toBe(200);
+    await vi.waitFor(() => expect(sendEmailMock).toHaveBeenCalled());
+    expect(createAuthTokenMock).toHaveBeenCalledWith({}, {
+      accountId: 'account-1',
+      purpose: 'password_reset',
+      ttlMs: 60 * 60 * 1000,
+    });
+    expect(sendEmailMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'student@example.com',
+        text: expect.stringContaining('https://app.example.edu/reset-password?token=raw-token'),
+      }),
+    );
+  });
+
+  it('rejects invalid tokens and sets the new password for valid ones', async () => {
+    consumeAuthTokenMock.mockResolvedValueOnce(null);
+    const rejected = await invoke('post', '/password-reset/confirm', { token: 'stale', password: 'new-password-1' });
+    expect(rejected.status).toBe(400);
+    expect(updateAuthAccountPasswordMock).not.toHaveBeenCalled();
+
+    consumeAuthTokenMock.mockResolvedValueOnce('account-1');
+    const accepted = await invoke('post', '/password-reset/confirm', { token: 'fresh', password: 'new-password-1' });
+
+    expect(accepted.status).toBe(200);
+    expect(consumeAuthTokenMock).toHaveBeenLastCalledWith({}, { token: 'fresh', purpose: 'password_reset' });
+    expect(updateAuthAccountPasswordMock).toHaveBeenCalledWith({}, 'account-1', expect.stringMatching(/^\$2[aby]\$/));
+    expect(markAuthAccountEmailVerifiedMock).toHaveBeenCalledWith({}, 'account-1');
+    expect(revokeAuthSessionsForAccountMock).toHaveBeenCalledWith({}, 'account-1', 'password_changed');
+  });
+});
+
+/**
+ * Runs every layer of POST /activate (rate limiters included) for one request
+ */
+async function activate(token: string, ip: string): Promise<{ status: number; json: any }> {
+  const { authRouter } = await import('../../../apps/server/src/routes/auth');
+  const layer = (authRouter as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === '/activate' && entry.route?.methods?.post
+  );
+  const handlers = layer?.route?.stack?.map((entry) => entry.handle) ?? [];
+  let statusCode = 200;
+  let payload: unknown = null;
+  const headers = new Map<string, unknown>();
+  const res = {
+    headersSent: false,
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+    setHeader(name: string, value: unknown) {
+      headers.set(name.toLowerCase(), value);
+    },
+    getHeader(name: string) {
+      return headers.get(name.toLowerCase());
+    },
+    append: vi.fn(),
+    on: vi.fn(),
+  };
+  const req = { method: 'POST', body: { token, password: 'new-password-1' }, cookies: {}, ip, headers: {}, app: { get: () => false } };
+  for (const handle of handlers) {
+    let advanced = false;
+    await handle!(req, res, () => {
+      advanced = true;
+    });
+    if (!advanced) break;
+  }
+  return { status: statusCode, json: payload };
+}
+
+describe('account activation', () => {
+  it('lets a whole class activate roster accounts from one IP', async () => {
+    consumeAuthTokenMock.mockResolvedValue('account-1');
+    getAuthAccountByIdMock.mockResolvedValue(studentAccount);
+
+    const results = [];
+    for (let index = 0; index < 8; index++) {
+      results.push(await activate(`activation-token-${index}`, '198.51.100.20'));
+    }
+
+    expect(results.map((result) => result.status)).toEqual(Array(8).fill(200));
+    expect(updateAuthAccountPasswordMock).toHaveBeenCalledTimes(8);
+  });
+
+  it('limits repeated attempts on a single activation link', async () => {
+    consumeAuthTokenMock.mockResolvedValue(null);
+
+    const results = [];
+    for (let index = 0; index < 6; index++) {
+      results.push(await activate('guessed-token', '198.51.100.21'));
+    }
+
+    expect(results.slice(0, 5).map((result) => result.status)).toEqual(Array(5).fill(400));
+    expect(results[5]).toEqual({
+      status: 429,
+      json: expect.objectContaining({ error: 'Too many activation attempts' }),
+    });
+  });
+});
+
+describe('email verification', () => {
+  it('marks the account verified with a valid token', async () => {
+    consumeAuthTokenMock.mockResolvedValue('account-1');
+
+    const result = await invoke('post', '/verify-email/confirm', { token: 'verify-token' });
+
+    expect(result.status).toBe(200);
+    expect(consumeAuthTokenMock).toHaveBeenCalledWith({}, { token: 'verify-token', purpose: 'email_verification' });
+    expect(markAuthAccountEmailVerifiedMock).toHaveBeenCalledWith({}, 'account-1');
+  });
+});
+
+describe('account management', () => {
+  const auth = { accountId: 'account-1', learnerId: 'learner-1', role: 'student' };
+
+  it('requires the current password to change it', async () => {
+    getAuthAccountByIdMock.mockResolvedValue(studentAccount);
+
+    const result = await invoke('put', '/password', { currentPassword: 'wrong', newPassword: 'new-password-1' }, auth);
+
+    expect(result.status).toBe(403);
+    expect(updateAuthAccountPasswordMock).not.toHaveBeenCalled();
+  });
+
+  it('deletes a student account and clears the session', async () => {
+    getAuthAccountByIdMock.mockResolvedValue(studentAccount);
+
+    const result = await invoke('delete', '/account', { password: 'correct horse battery staple' }, auth);
+
+    expect(result.status).toBe(200);
+    expect(deleteAuthAccountAndLearnerMock).toHaveBeenCalledWith({}, studentAccount);
+    expect(clearAuthCookieMock).toHaveBeenCalled();
+  });
+
+  it('refuses to delete an instructor who still owns sections', async () => {
+    getAuthAccountByIdMock.mockResolvedValue({ ...studentAccount, role: 'instructor' });
+    getOwnedSectionsByInstructorMock.mockResolvedValue([{ id: 'section-1' }]);
+
+    const result = await invoke(
+      'delete',
+      '/account',
+      { password: 'correct horse battery staple' },
+      { ...auth, role: 'instructor' },
+    );
+
+    expect(result.status).toBe(409);
+    expect(deleteAuthAccountAndLearnerMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('file email transport', () => {
+  it('writes each message as a .eml file', async () => {
+    const { FileEmailTransport } = await vi.importActual<typeof import('../../../apps/server/src/email/transports/file')>(
+      '../../../apps/server/src/email/transports/file'
+    );
+    const outboxDir = await mkdtemp(path.join(os.tmpdir(), 'sql-adapt-outbox-'));
+    try {
+      const transport = new FileEmailTransport({ outboxDir, from: 'SQL-Adapt <no-reply@example.edu>' });
+      await transport.send({ to: 'student@example.com', subject: 'Hello', text: 'Reset link: https://x/y' });
+
+      const [file] = await readdir(outboxDir);
+      expect(file).toMatch(/student@example\.com\.eml$/);
+      const raw = await readFile(path.join(outboxDir, file), 'utf8');
+      expect(raw).toContain('To: student@example.com');
+      expect(raw).toContain('Subject: Hello');
+      const body = raw.split('\r\n\r\n')[1].replace(/\r\n/g, '');
+      expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Reset link: https://x/y');
+    } finally {
+      await rm(outboxDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -7,14 +7,14 @@ const getAuthAccountByEmailMock = vi.fn();
 const createAuthAccountMock = vi.fn();
 const createAuthEventMock = vi.fn();
 const saveLearnerProfileMock = vi.fn();
-const signTokenMock = vi.fn(() => 'signed-token');
-const setAuthCookieMock = vi.fn();
+const startAuthSessionMock = vi.fn(async () => 'session-1');
 const createCsrfTokenMock = vi.fn(() => 'csrf-token');
 const setCsrfCookieMock = vi.fn();
 const getSectionForStudentMock = vi.fn();
 const getSectionBySignupCodeMock = vi.fn();
 const enrollStudentInSectionMock = vi.fn();
 const getOwnedSectionsByInstructorMock = vi.fn();
+const setResearchConsentMock = vi.fn();
 
 vi.mock('../../../apps/server/src/db/index.js', () => ({
   isUsingNeon: () => true,
@@ -42,10 +42,16 @@ vi.mock('../../../apps/server/src/db/auth.js', () => ({
 }));
 
 vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
-  signToken: signTokenMock,
-  setAuthCookie: setAuthCookieMock,
+  signToken: vi.fn(() => 'signed-token'),
+  setAuthCookie: vi.fn(),
+  setRefreshCookie: vi.fn(),
   clearAuthCookie: vi.fn(),
+  startAuthSession: startAuthSessionMock,
+  toAuthPayload: vi.fn(),
   COOKIE_NAME: 'sql_adapt_auth',
+  REFRESH_COOKIE_NAME: 'sql_adapt_refresh',
+  REFRESH_TOKEN_TTL_MS: 30 * 24 * 60 * 60 * 1000,
+  requireAuth: (_req: unknown, _res: unknown, next: () => void) => next(),
   verifyToken: vi.fn(),
 }));
 
@@ -65,8 +71,16 @@ vi.mock('../../../apps/server/src/db/sections.js', () => ({
   getSectionForStudent: getSectionForStudentMock,
 }));
 
+vi.mock('../../../apps/server/src/db/research.js', () => ({
+  getResearchConsent: vi.fn(),
+  setResearchConsent: setResearchConsentMock,
+}));
+
 vi.mock('../../../apps/server/src/config.js', () => ({
   INSTRUCTOR_SIGNUP_CODE: 'instructor-code',
+  TA_SIGNUP_CODE: 'ta-code',
+  RESEARCHER_SIGNUP_CODE: 'researcher-code',
+  RESEARCH_CONSENT_VERSION: 'irb-consent-test',
 }));
 
 function getRouteHandler(
@@ -118,14 +132,14 @@ afterEach(() => {
   createAuthAccountMock.mockReset();
   createAuthEventMock.mockReset();
   saveLearnerProfileMock.mockReset();
-  signTokenMock.mockClear();
-  setAuthCookieMock.mockClear();
+  startAuthSessionMock.mockClear();
   createCsrfTokenMock.mockClear();
   setCsrfCookieMock.mockClear();
   getSectionForStudentMock.mockReset();
   getSectionBySignupCodeMock.mockReset();
   enrollStudentInSectionMock.mockReset();
   getOwnedSectionsByInstructorMock.mockReset();
+  setResearchConsentMock.mockReset();
   vi.resetModules();
 });
 
@@ -176,9 +190,16 @@ describe('auth login telemetry contract', () => {
       password: 'correct horse battery staple',
       role: 'student',
       classCode: 'SECTION1',
+      researchConsent: true,
     });
 
     expect(result.status).toBe(201);
+    expect(setResearchConsentMock).toHaveBeenCalledWith({
+      userId: expect.any(String),
+      consented: true,
+      consentVersion: 'irb-consent-test',
+      source: 'signup',
+    });
     expect((result.json as { success?: boolean; user?: { learnerId?: string } }).success).toBe(true);
     expect(saveLearnerProfileMock).toHaveBeenCalledWith(
       expect.any(String),
@@ -238,8 +259,14 @@ describe('auth login telemetry contract', () => {
     expect(result.status).toBe(200);
     expect((result.json as { success?: boolean; user?: { learnerId?: string } }).success).toBe(true);
     expect((result.json as { user?: { learnerId?: string } }).user?.learnerId).toBe('learner-1');
+    expect(startAuthSessionMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ id: 'account-1' }),
+    );
     expect(createAuthEventMock).toHaveBeenCalledWith(
       expect.objectContaining({
+        eventType: 'login',
         outcome: 'success',
         email: 'student@example.com',
         accountId: 'account-1',
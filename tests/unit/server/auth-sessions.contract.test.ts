@@ -0,0 +1,233 @@
+/* @vitest-environment node */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const getAuthAccountByIdMock = vi.fn();
+const rotateAuthSessionMock = vi.fn();
+const revokeAuthSessionMock = vi.fn();
+const revokeAuthSessionsForAccountMock = vi.fn();
+const listActiveAuthSessionsMock = vi.fn();
+const createAuthEventMock = vi.fn();
+const signTokenMock = vi.fn(() => 'access-token');
+const setAuthCookieMock = vi.fn();
+const setRefreshCookieMock = vi.fn();
+const clearAuthCookieMock = vi.fn();
+
+vi.mock('../../../apps/server/src/db/index.js', () => ({
+  isUsingNeon: () => true,
+  createUser: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/db/neon.js', () => ({
+  getDb: () => ({}),
+  createAuthEvent: createAuthEventMock,
+  saveLearnerProfile: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/db/auth.js', () => ({
+  getAuthAccountById: getAuthAccountByIdMock,
+  getAuthSessionByRefreshToken: vi.fn(),
+  listActiveAuthSessions: listActiveAuthSessionsMock,
+  revokeAuthSession: revokeAuthSessionMock,
+  revokeAuthSessionsForAccount: revokeAuthSessionsForAccountMock,
+  rotateAuthSession: rotateAuthSessionMock,
+  toPublicAccount: (account: Record<string, unknown>) => account,
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  signToken: signTokenMock,
+  setAuthCookie: setAuthCookieMock,
+  setRefreshCookie: setRefreshCookieMock,
+  clearAuthCookie: clearAuthCookieMock,
+  startAuthSession: vi.fn(),
+  toAuthPayload: (account: { id: string; role: string }, sessionId: string) => ({
+    accountId: account.id,
+    role: account.role,
+    sessionId,
+  }),
+  COOKIE_NAME: 'sql_adapt_auth',
+  REFRESH_COOKIE_NAME: 'sql_adapt_refresh',
+  REFRESH_TOKEN_TTL_MS: 30 * 24 * 60 * 60 * 1000,
+  requireAuth: (_req: unknown, _res: unknown, next: () => void) => next(),
+  verifyToken: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/middleware/csrf.js', () => ({
+  createCsrfToken: vi.fn(() => 'csrf-token'),
+  setCsrfCookie: vi.fn(),
+  CSRF_COOKIE_NAME: 'sql_adapt_csrf',
+  clearCsrfCookie: vi.fn(),
+  requireCsrf: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  createSectionForInstructor: vi.fn(),
+  enrollStudentInSection: vi.fn(),
+  getOwnedSectionsByInstructor: vi.fn(),
+  getScopedSections: vi.fn(),
+  getSectionBySignupCode: vi.fn(),
+  getSectionForStudent: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/db/research.js', () => ({
+  getResearchConsent: vi.fn(),
+  setResearchConsent: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  INSTRUCTOR_SIGNUP_CODE: 'instructor-code',
+  TA_SIGNUP_CODE: 'ta-code',
+  RESEARCHER_SIGNUP_CODE: 'researcher-code',
+  RESEARCH_CONSENT_VERSION: 'irb-consent-test',
+  WEB_APP_URL: 'https://app.example.edu',
+}));
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+async function invoke(
+  method: 'get' | 'post' | 'delete',
+  routePath: string,
+  req: { cookies?: Record<string, string>; params?: Record<string, string>; auth?: Record<string, string> },
+): Promise<{ status: number; json: any }> {
+  const { authRouter } = await import('../../../apps/server/src/routes/auth');
+  const layer = (authRouter as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === routePath && entry.route?.methods?.[method]
+  );
+  const stack = layer?.route?.stack;
+  const handler = stack?.[stack.length - 1]?.handle;
+  if (!handler) throw new Error(`Route handler not found for ${method.toUpperCase()} ${routePath}`);
+
+  let statusCode = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+  };
+  await handler({ body: {}, cookies: {}, params: {}, ...req }, res, vi.fn());
+  return { status: statusCode, json: payload };
+}
+
+const account = {
+  id: 'account-1',
+  email: 'student@example.com',
+  role: 'student',
+  learnerId: 'learner-1',
+  name: 'Student One',
+};
+
+const session = { id: 'session-1', accountId: 'account-1' };
+
+const auth = {
+  accountId: 'account-1',
+  learnerId: 'learner-1',
+  email: 'student@example.com',
+  role: 'student',
+  name: 'Student One',
+  sessionId: 'session-1',
+};
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.resetModules();
+});
+
+describe('POST /api/auth/refresh', () => {
+  it('rotates the refresh token and issues an access token with the current role', async () => {
+    rotateAuthSessionMock.mockResolvedValue({ status: 'rotated', session, refreshToken: 'next-refresh' });
+    getAuthAccountByIdMock.mockResolvedValue({ ...account, role: 'ta' });
+
+    const result = await invoke('post', '/refresh', { cookies: { sql_adapt_refresh: 'old-refresh' } });
+
+    expect(result.status).toBe(200);
+    expect(rotateAuthSessionMock).toHaveBeenCalledWith({}, expect.objectContaining({ refreshToken: 'old-refresh' }));
+    expect(signTokenMock).toHaveBeenCalledWith({ accountId: 'account-1', role: 'ta', sessionId: 'session-1' });
+    expect(setAuthCookieMock).toHaveBeenCalledWith(expect.anything(), 'access-token');
+    expect(setRefreshCookieMock).toHaveBeenCalledWith(expect.anything(), 'next-refresh');
+  });
+
+  it('rejects a token another tab just rotated without ending the session', async () => {
+    rotateAuthSessionMock.mockResolvedValue({ status: 'superseded' });
+
+    const result = await invoke('post', '/refresh', { cookies: { sql_adapt_refresh: 'old-refresh' } });
+
+    expect(result.status).toBe(401);
+    expect(clearAuthCookieMock).not.toHaveBeenCalled();
+    expect(createAuthEventMock).not.toHaveBeenCalled();
+  });
+
+  it('records reuse of a rotated refresh token and signs the caller out', async () => {
+    rotateAuthSessionMock.mockResolvedValue({ status: 'reused', session });
+    getAuthAccountByIdMock.mockResolvedValue(account);
+
+    const result = await invoke('post', '/refresh', { cookies: { sql_adapt_refresh: 'stolen-refresh' } });
+
+    expect(result.status).toBe(401);
+    expect(clearAuthCookieMock).toHaveBeenCalled();
+    expect(setAuthCookieMock).not.toHaveBeenCalled();
+    expect(createAuthEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'refresh_token_reuse',
+      accountId: 'account-1',
+      outcome: 'failure',
+    }));
+  });
+
+  it('requires a refresh cookie', async () => {
+    const result = await invoke('post', '/refresh', {});
+
+    expect(result.status).toBe(401);
+    expect(rotateAuthSessionMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('session revocation', () => {
+  it('logs out every device and records the event', async () => {
+    revokeAuthSessionsForAccountMock.mockResolvedValue(3);
+
+    const result = await invoke('post', '/logout-all', { auth });
+
+    expect(result.status).toBe(200);
+    expect(result.json.data).toEqual({ revoked: 3 });
+    expect(revokeAuthSessionsForAccountMock).toHaveBeenCalledWith({}, 'account-1', 'logout_all');
+    expect(clearAuthCookieMock).toHaveBeenCalled();
+    expect(createAuthEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'logout_all',
+      accountId: 'account-1',
+    }));
+  });
+
+  it('lists sessions and marks the current one', async () => {
+    listActiveAuthSessionsMock.mockResolvedValue([
+      { id: 'session-1', userAgent: 'Firefox', ipAddress: null, createdAt: 'a', lastUsedAt: 'b', expiresAt: 'c' },
+      { id: 'session-2', userAgent: 'Safari', ipAddress: null, createdAt: 'a', lastUsedAt: 'b', expiresAt: 'c' },
+    ]);
+
+    const result = await invoke('get', '/sessions', { auth });
+
+    expect(result.json.data.map((entry: { id: string; current: boolean }) => [entry.id, entry.current])).toEqual([
+      ['session-1', true],
+      ['session-2', false],
+    ]);
+  });
+
+  it('only revokes sessions that belong to the caller', async () => {
+    revokeAuthSessionMock.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    const missing = await invoke('delete', '/sessions/:id', { auth, params: { id: 'someone-elses' } });
+    const revoked = await invoke('delete', '/sessions/:id', { auth, params: { id: 'session-2' } });
+
+    expect(missing.status).toBe(404);
+    expect(revokeAuthSessionMock).toHaveBeenCalledWith({}, 'someone-elses', 'user_revoked', 'account-1');
+    expect(revoked.status).toBe(200);
+    expect(clearAuthCookieMock).not.toHaveBeenCalled();
+    expect(createAuthEventMock).toHaveBeenCalledTimes(1);
+    expect(createAuthEventMock).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'session_revoked' }));
+  });
+});
@@ -0,0 +1,78 @@
+/* @vitest-environment node */
+
+import { describe, expect, it } from 'vitest';
+import { gradebookToCsv, type Gradebook } from '../../../apps/server/src/gradebook';
+
+function gradebook(rows: Gradebook['rows'], title = 'Joins'): Gradebook {
+  return {
+    section: { id: 'section-1', name: 'SQL 101' },
+    generatedAt: '2026-10-19T12:00:00.000Z',
+    columns: [{ assignmentId: 'assignment-1', title, dueAt: '2026-10-08T00:00:00.000Z', pointsPossible: 4 }],
+    rows,
+  };
+}
+
+function row(name: string, email: string | null, points = 3): Gradebook['rows'][number] {
+  return {
+    learnerId: 'learner-1',
+    name,
+    email,
+    practiceSolved: 5,
+    practiceAttempted: 7,
+    scores: { 'assignment-1': { points, lateSolved: 0, attempted: true } },
+  };
+}
+
+describe('gradebook CSV', () => {
+  it('writes the Canvas import layout', () => {
+    const csv = gradebookToCsv(gradebook([row('Ada Lovelace', 'ada@example.edu')]), 'canvas');
+
+    expect(csv).toBe(
+      'Student,ID,SIS User ID,SIS Login ID,Section,Joins (assignment-1)\r\n' +
+      '    Points Possible,,,,,4\r\n' +
+      'Ada Lovelace,,,ada@example.edu,SQL 101,3\r\n'
+    );
+  });
+
+  it('writes the Moodle import layout', () => {
+    const csv = gradebookToCsv(gradebook([row('Ada Lovelace', null, 0)]), 'moodle');
+
+    expect(csv).toBe(
+      'Full name,Email address,Joins,Practice problems solved\r\n' +
+      'Ada Lovelace,,0,5\r\n'
+    );
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    const csv = gradebookToCsv(
+      gradebook([row('Lovelace, "Ada"', 'ada@example.edu'), row('Line\nBreak', null)], 'Joins, part 1'),
+      'moodle'
+    );
+
+    expect(csv.split('\r\n')).toEqual([
+      'Full name,Email address,"Joins, part 1",Practice problems solved',
+      '"Lovelace, ""Ada""",ada@example.edu,3,5',
+      '"Line\nBreak",,3,5',
+      '',
+    ]);
+  });
+
+  it('neutralizes cells a spreadsheet would evaluate as formulas', () => {
+    const csv = gradebookToCsv(
+      gradebook([
+        row('=HYPERLINK("http://evil.example")', null),
+        row('+1', null),
+        row('-2', null),
+        row('@SUM(A1)', null),
+      ]),
+      'moodle'
+    );
+
+    expect(csv.split('\r\n').slice(1, 5)).toEqual([
+      `"'=HYPERLINK(""http://evil.example"")",,3,5`,
+      `'+1,,3,5`,
+      `'-2,,3,5`,
+      `'@SUM(A1),,3,5`,
+    ]);
+  });
+});
@@ -8,8 +8,9 @@ const getTextbookUnitCountsByUsersMock = vi.fn();
 const getActiveLearnerCountsByUsersMock = vi.fn();
 const getLearnerProfilesByIdsMock = vi.fn();
 const getInstructorScopedLearnerIdsMock = vi.fn();
-const getOwnedSectionsByInstructorMock = vi.fn();
+const getScopedSectionsMock = vi.fn();
 const requireInstructorMock = vi.fn((_req, _res, next) => next?.());
+const requireStaffMock = vi.fn((_req, _res, next) => next?.());
 
 vi.mock('../../../apps/server/src/db/neon.js', () => ({
   getInteractionsByUsers: getInteractionsByUsersMock,
@@ -24,12 +25,13 @@ vi.mock('../../../apps/server/src/db/neon.js', () => ({
 
 vi.mock('../../../apps/server/src/db/sections.js', () => ({
   getInstructorScopedLearnerIds: getInstructorScopedLearnerIdsMock,
-  getOwnedSectionsByInstructor: getOwnedSectionsByInstructorMock,
+  getScopedSections: getScopedSectionsMock,
   getSectionForLearnerInInstructorScope: vi.fn(),
 }));
 
 vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
   requireInstructor: requireInstructorMock,
+  requireStaff: requireStaffMock,
 }));
 
 function getRouteHandler(
@@ -79,8 +81,8 @@ async function invokeGetHandler(
 beforeEach(() => {
   vi.clearAllMocks();
   getInstructorScopedLearnerIdsMock.mockResolvedValue(['learner-1', 'learner-2']);
-  getOwnedSectionsByInstructorMock.mockResolvedValue([
-    { id: 'section-1', name: 'Section 1', studentSignupCode: 'ABC123' },
+  getScopedSectionsMock.mockResolvedValue([
+    { id: 'section-1', name: 'Section 1', studentSignupCode: 'ABC123', accessRole: 'owner' },
   ]);
 });
 
@@ -128,7 +130,7 @@ describe('instructor analytics contract', () => {
       success: true,
       data: {
         sections: [
-          { id: 'section-1', name: 'Section 1', studentSignupCode: 'ABC123' },
+          { id: 'section-1', name: 'Section 1', studentSignupCode: 'ABC123', accessRole: 'owner' },
         ],
         totalStudents: 2,
         activeToday: 1,
@@ -0,0 +1,392 @@
+/* @vitest-environment node */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const isUsingNeonMock = vi.fn();
+const getSectionForStudentMock = vi.fn();
+const getTeachingSectionsMock = vi.fn();
+const reserveLLMTokensMock = vi.fn();
+const settleLLMTokensMock = vi.fn();
+const recordLLMUsageMock = vi.fn();
+const getSectionLLMUsageMock = vi.fn();
+const getSectionRosterMock = vi.fn();
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  ENABLE_LLM: true,
+  LLM_PROVIDER: 'mock',
+  LLM_TIMEOUT_MS: 60000,
+  LLM_CACHE_MAX_ENTRIES: 100,
+  LLM_CACHE_TTL_MS: 60000,
+  LLM_LEARNER_DAILY_TOKEN_BUDGET: 1000,
+  LLM_SECTION_DAILY_TOKEN_BUDGET: 5000,
+  OLLAMA_DEFAULT_MODEL: 'qwen3:4b',
+  getLLMProviderConfig: () => ({ type: 'mock', mockConfig: { defaultModel: 'mock-tutor' } }),
+}));
+
+vi.mock('../../../apps/server/src/db/index.js', () => ({
+  isUsingNeon: isUsingNeonMock,
+  getActiveSession: async () => null,
+  reserveLLMTokens: reserveLLMTokensMock,
+  settleLLMTokens: settleLLMTokensMock,
+  recordLLMUsage: recordLLMUsageMock,
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  getSectionForStudent: getSectionForStudentMock,
+  getTeachingSections: getTeachingSectionsMock,
+}));
+
+vi.mock('../../../apps/server/src/db/llm-usage.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../apps/server/src/db/llm-usage.js')>()),
+  getSectionLLMUsage: getSectionLLMUsageMock,
+}));
+
+vi.mock('../../../apps/server/src/db/gradebook.js', () => ({
+  getSectionRoster: getSectionRosterMock,
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  requireInstructor: (_req: unknown, _res: unknown, next: () => void) => next(),
+  requireAuth: (req: { auth?: unknown }, res: { status: (code: number) => { json: (data: unknown) => void } }, next: () => void) => {
+    if (req.auth) next();
+    else res.status(401).json({ success: false, error: 'Authentication required' });
+  },
+}));
+
+import { LLMResponseCache, MockProvider, buildResponseCacheKey } from '../../../apps/server/src/llm/index.js';
+import { buildLLMUsageReport } from '../../../apps/server/src/llm-usage-report.js';
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+async function invoke(
+  routerName: 'llm' | 'llm-usage',
+  method: 'get' | 'post',
+  path: string,
+  req: Record<string, unknown>
+): Promise<{ status: number; json: any }> {
+  const router = routerName === 'llm'
+    ? (await import('../../../apps/server/src/routes/llm.js')).llmRouter
+    : (await import('../../../apps/server/src/routes/llm-usage.js')).llmUsageRouter;
+  const layer = (router as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === path && entry.route?.methods?.[method]
+  );
+  const handlers = layer?.route?.stack?.map((entry) => entry.handle) ?? [];
+  if (handlers.length === 0) throw new Error(`Route handler not found for ${method.toUpperCase()} ${path}`);
+
+  let statusCode = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+  };
+  const request = { method: method.toUpperCase(), query: {}, params: {}, body: {}, ip: '203.0.113.9', ...req };
+  // Run route middleware in order, stopping at the first that answers
+  for (const handle of handlers) {
+    let advanced = false;
+    await handle!(request, res, () => {
+      advanced = true;
+    });
+    if (!advanced) break;
+  }
+  return { status: statusCode, json: payload };
+}
+
+const student = { learnerId: 'student-1', role: 'student' };
+
+const usageDay = (overrides: Record<string, unknown>) => ({
+  learnerId: 'student-1',
+  usageDate: '2026-03-10',
+  sectionId: 'section-1',
+  requests: 1,
+  cacheHits: 0,
+  budgetFallbacks: 0,
+  inputTokens: 100,
+  outputTokens: 50,
+  ...overrides,
+});
+
+describe('LLM response cache', () => {
+  it('keys on normalized prompt, template, model and generation params', () => {
+    const key = buildResponseCacheKey({ prompt: 'Why  does\n my JOIN fail?', model: 'm' });
+
+    expect(buildResponseCacheKey({ prompt: ' Why does my JOIN fail? ', model: 'm' })).toBe(key);
+    expect(buildResponseCacheKey({ prompt: 'Why does my JOIN fail?', model: 'other' })).not.toBe(key);
+    expect(buildResponseCacheKey({ prompt: 'Why does my JOIN fail?', model: 'm', templateId: 'explanation.v1' })).not.toBe(key);
+
+    const params = { temperature: 0, top_p: 1 };
+    const paramsKey = buildResponseCacheKey({ prompt: 'Why does my JOIN fail?', model: 'm', params });
+    expect(buildResponseCacheKey({ prompt: 'Why does my JOIN fail?', model: 'm', params: { top_p: 1, temperature: 0 } })).toBe(paramsKey);
+    expect(buildResponseCacheKey({ prompt: 'Why does my JOIN fail?', model: 'm', params: { ...params, temperature: 0.7 } })).not.toBe(paramsKey);
+    expect(buildResponseCacheKey({ prompt: 'Why does my JOIN fail?', model: 'm', params: { ...params, top_p: 0.5 } })).not.toBe(paramsKey);
+    expect(buildResponseCacheKey({ prompt: 'Why does my JOIN fail?', model: 'm', params: { ...params, max_tokens: 256 } })).not.toBe(paramsKey);
+  });
+
+  it('expires entries and evicts the least recently used', () => {
+    let now = 0;
+    const cache = new LLMResponseCache({ maxEntries: 2, ttlMs: 1000, now: () => now });
+    const response = (text: string) => ({ text, model: 'm', provider: 'mock' as const, latencyMs: 1 });
+
+    cache.set('a', response('A'));
+    cache.set('b', response('B'));
+    expect(cache.get('a')?.text).toBe('A');
+    cache.set('c', response('C'));
+
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')?.text).toBe('A');
+    now = 1000;
+    expect(cache.get('c')).toBeNull();
+    expect(cache.stats()).toMatchObject({ entries: 1, hits: 2, misses: 2 });
+  });
+});
+
+const reservation = (learnerId: string, tokens = 1100) => ({ learnerId, usageDate: '2026-03-10', tokens });
+
+describe('LLM generate cache and token budgets', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    isUsingNeonMock.mockReset().mockReturnValue(true);
+    getSectionForStudentMock.mockReset().mockResolvedValue({ id: 'section-1', name: 'SQL 101' });
+    reserveLLMTokensMock.mockReset().mockImplementation(async (data: { learnerId: string; tokens: number }) => ({
+      reserved: true,
+      reservation: reservation(data.learnerId, data.tokens),
+    }));
+    settleLLMTokensMock.mockReset().mockResolvedValue(undefined);
+    recordLLMUsageMock.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('answers a repeated prompt from the cache and records the saved call', async () => {
+    const generateSpy = vi.spyOn(MockProvider.prototype, 'generate');
+
+    const first = await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Hint for missing GROUP BY on problem 4' },
+    });
+    const second = await invoke('llm', 'post', '/generate', {
+      auth: { learnerId: 'student-2', role: 'student' },
+      body: { prompt: 'Hint for missing  GROUP BY\non problem 4' },
+    });
+
+    expect(generateSpy).toHaveBeenCalledTimes(1);
+    expect(first.json.data.cached).toBeUndefined();
+    expect(second.json.data).toMatchObject({ cached: true, response: first.json.data.response });
+    expect(reserveLLMTokensMock).toHaveBeenCalledTimes(1);
+    expect(reserveLLMTokensMock).toHaveBeenCalledWith(expect.objectContaining({
+      learnerId: 'student-1',
+      sectionId: 'section-1',
+      learnerLimit: 1000,
+      sectionLimit: 5000,
+    }));
+    expect(settleLLMTokensMock).toHaveBeenCalledWith({
+      reservation: expect.objectContaining({ learnerId: 'student-1' }),
+      inputTokens: expect.any(Number),
+      outputTokens: expect.any(Number),
+    });
+    expect(recordLLMUsageMock).toHaveBeenCalledWith(expect.objectContaining({
+      learnerId: 'student-2',
+      cacheHit: true,
+    }));
+  });
+
+  it('refuses students over the learner or section budget with 429', async () => {
+    const generateSpy = vi.spyOn(MockProvider.prototype, 'generate');
+    reserveLLMTokensMock.mockResolvedValue({ reserved: false, scope: 'learner', limit: 1000, used: 1000 });
+    const learnerOver = await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Explain LEFT JOIN for problem 7' },
+    });
+
+    expect(learnerOver.status).toBe(429);
+    expect(learnerOver.json).toMatchObject({
+      success: false,
+      error: 'Token budget exceeded',
+      data: { scope: 'learner', limit: 1000, used: 1000 },
+    });
+    expect(recordLLMUsageMock).toHaveBeenCalledWith(expect.objectContaining({ budgetFallback: true }));
+
+    reserveLLMTokensMock.mockResolvedValue({ reserved: false, scope: 'section', limit: 5000, used: 5000 });
+    const sectionOver = await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Explain LEFT JOIN for problem 7' },
+    });
+    expect(sectionOver.json.data.scope).toBe('section');
+    expect(generateSpy).not.toHaveBeenCalled();
+    expect(settleLLMTokensMock).not.toHaveBeenCalled();
+  });
+
+  it('does not serve a cached answer to a request with different sampling settings', async () => {
+    const generateSpy = vi.spyOn(MockProvider.prototype, 'generate');
+
+    await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Hint for a cartesian product on problem 7' },
+    });
+    const warmer = await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Hint for a cartesian product on problem 7', options: { temperature: 0.9 } },
+    });
+
+    expect(generateSpy).toHaveBeenCalledTimes(2);
+    expect(warmer.json.data.cached).toBeUndefined();
+  });
+
+  it('does not budget staff and still serves cache hits over budget', async () => {
+    const instructor = await invoke('llm', 'post', '/generate', {
+      auth: { learnerId: 'instructor-1', role: 'instructor' },
+      body: { prompt: 'Explain HAVING for problem 9' },
+    });
+    expect(instructor.status).toBe(200);
+    expect(reserveLLMTokensMock).toHaveBeenCalledWith(expect.objectContaining({
+      learnerId: 'instructor-1',
+      learnerLimit: 0,
+      sectionLimit: 0,
+    }));
+
+    reserveLLMTokensMock.mockResolvedValue({ reserved: false, scope: 'learner', limit: 1000, used: 99999 });
+    const cachedForStudent = await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Explain HAVING for problem 9' },
+    });
+    expect(cachedForStudent.status).toBe(200);
+    expect(cachedForStudent.json.data.cached).toBe(true);
+  });
+
+  it('releases the reservation when generation fails', async () => {
+    vi.spyOn(MockProvider.prototype, 'generate').mockRejectedValue(new Error('provider down'));
+
+    const result = await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Explain NATURAL JOIN for problem 5' },
+    });
+
+    expect(result.status).toBe(500);
+    expect(settleLLMTokensMock).toHaveBeenCalledWith({ reservation: expect.objectContaining({ learnerId: 'student-1' }) });
+  });
+
+  it('requires sign-in on Neon and budgets anonymous callers by IP on SQLite', async () => {
+    const anonymousNeon = await invoke('llm', 'post', '/generate', {
+      body: { prompt: 'Explain UNION for problem 3' },
+    });
+    expect(anonymousNeon.status).toBe(401);
+    expect(reserveLLMTokensMock).not.toHaveBeenCalled();
+
+    isUsingNeonMock.mockReturnValue(false);
+    const anonymousSqlite = await invoke('llm', 'post', '/generate', {
+      body: { prompt: 'Explain UNION for problem 3' },
+    });
+    expect(anonymousSqlite.status).toBe(200);
+    expect(getSectionForStudentMock).not.toHaveBeenCalled();
+    expect(reserveLLMTokensMock).toHaveBeenCalledWith(expect.objectContaining({
+      learnerId: 'ip:203.0.113.9',
+      sectionId: null,
+      learnerLimit: 1000,
+      sectionLimit: 0,
+    }));
+  });
+
+  it('keeps generating when usage lookups fail', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    reserveLLMTokensMock.mockRejectedValue(new Error('connection reset'));
+
+    const result = await invoke('llm', 'post', '/generate', {
+      auth: student,
+      body: { prompt: 'Explain DISTINCT for problem 2' },
+    });
+
+    expect(result.status).toBe(200);
+    expect(errorSpy).toHaveBeenCalledWith('[llm/usage]', expect.any(Error));
+    expect(recordLLMUsageMock).toHaveBeenCalledWith(expect.objectContaining({
+      learnerId: 'student-1',
+      inputTokens: expect.any(Number),
+    }));
+  });
+});
+
+describe('SQLite token reservations', () => {
+  it('holds tokens atomically and refuses once the learner budget is spent', async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    const sqlite = await import('../../../apps/server/src/db/sqlite.js');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await sqlite.initializeSchema();
+
+    const request = { learnerId: 'ip:203.0.113.9', sectionId: null, tokens: 400, learnerLimit: 1000, sectionLimit: 0 };
+    const results = await Promise.all([1, 2, 3, 4].map(() => sqlite.reserveLLMTokens(request)));
+
+    // Three holds bring the day to 1200 tokens; the fourth request sees the budget spent
+    expect(results.filter((result) => result.reserved)).toHaveLength(3);
+    expect(results[3]).toEqual({ reserved: false, scope: 'learner', limit: 1000, used: 1200 });
+
+    const [first] = results;
+    if (!first.reserved) throw new Error('expected a reservation');
+    await sqlite.settleLLMTokens({ reservation: first.reservation, inputTokens: 30, outputTokens: 20 });
+    await sqlite.settleLLMTokens({ reservation: first.reservation });
+    await sqlite.settleLLMTokens({ reservation: first.reservation });
+
+    const after = await sqlite.reserveLLMTokens(request);
+    expect(after.reserved).toBe(true);
+    await sqlite.closeDb();
+  });
+});
+
+describe('LLM usage report', () => {
+  it('totals usage per day and per student, including idle and departed students', () => {
+    const report = buildLLMUsageReport({
+      section: { id: 'section-1', name: 'SQL 101' },
+      roster: [
+        { learnerId: 'student-1', name: 'Ada', email: 'ada@example.edu' },
+        { learnerId: 'student-2', name: 'Ben', email: null },
+      ],
+      usage: [
+        usageDay({ usageDate: '2026-03-09', cacheHits: 2 }),
+        usageDay({ usageDate: '2026-03-10', budgetFallbacks: 1 }),
+        usageDay({ learnerId: 'student-3', usageDate: '2026-03-10', inputTokens: 10, outputTokens: 0 }),
+        usageDay({ usageDate: '2026-03-01' }),
+      ],
+      days: 3,
+      budgets: { learnerDaily: 1000, sectionDaily: 5000 },
+      now: new Date('2026-03-10T15:00:00Z'),
+    });
+
+    expect(report.from).toBe('2026-03-08');
+    expect(report.to).toBe('2026-03-10');
+    expect(report.days.map((day) => [day.date, day.tokens])).toEqual([
+      ['2026-03-08', 0],
+      ['2026-03-09', 150],
+      ['2026-03-10', 160],
+    ]);
+    expect(report.totals).toMatchObject({ requests: 3, cacheHits: 2, budgetFallbacks: 1, tokens: 310 });
+    expect(report.learners.map((learner) => [learner.learnerId, learner.tokens, learner.todayTokens])).toEqual([
+      ['student-1', 300, 150],
+      ['student-3', 10, 10],
+      ['student-2', 0, 0],
+    ]);
+  });
+
+  it('serves the report only for sections the instructor teaches', async () => {
+    getTeachingSectionsMock.mockResolvedValue([{ id: 'section-1', name: 'SQL 101' }]);
+    getSectionRosterMock.mockResolvedValue([]);
+    getSectionLLMUsageMock.mockResolvedValue([]);
+
+    const missing = await invoke('llm-usage', 'get', '/', {
+      auth: { learnerId: 'instructor-1', role: 'instructor' },
+      query: { sectionId: 'section-2' },
+    });
+    expect(missing.status).toBe(404);
+
+    const found = await invoke('llm-usage', 'get', '/', {
+      auth: { learnerId: 'instructor-1', role: 'instructor' },
+      query: { sectionId: 'section-1', days: '14' },
+    });
+    expect(found.status).toBe(200);
+    expect(found.json.data.days).toHaveLength(14);
+    expect(found.json.data.budgets).toEqual({ learnerDaily: 1000, sectionDaily: 5000 });
+    expect(getSectionLLMUsageMock).toHaveBeenCalledWith('section-1', found.json.data.from);
+  });
+});
@@ -0,0 +1,171 @@
+/* @vitest-environment node */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  ENABLE_LLM: true,
+  LLM_PROVIDER: 'mock',
+  LLM_TIMEOUT_MS: 60000,
+  LLM_CACHE_MAX_ENTRIES: 0,
+  LLM_CACHE_TTL_MS: 0,
+  LLM_LEARNER_DAILY_TOKEN_BUDGET: 0,
+  LLM_SECTION_DAILY_TOKEN_BUDGET: 0,
+  OLLAMA_DEFAULT_MODEL: 'qwen3:4b',
+  getLLMProviderConfig: () => ({ type: 'mock', mockConfig: { defaultModel: 'mock-tutor' } }),
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  requireAuth: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import { createLLMProvider, MockProvider, OpenAICompatibleProvider } from '../../../apps/server/src/llm/index.js';
+import { llmRouter } from '../../../apps/server/src/routes/llm.js';
+
+const params = { temperature: 0, top_p: 1, stream: false, timeoutMs: 5000 };
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+async function invokeGet(path: string): Promise<{ status: number; json: any }> {
+  const layer = (llmRouter as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === path && entry.route?.methods?.get
+  );
+  const handler = layer?.route?.stack?.[0]?.handle;
+  if (!handler) throw new Error(`Route handler not found for GET ${path}`);
+
+  let statusCode = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+  };
+  await handler({ method: 'GET', query: {}, params: {} }, res, () => {});
+  return { status: statusCode, json: payload };
+}
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts chat completions with the configured headers and bearer token', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({
+        model: 'Qwen/Qwen2.5-7B-Instruct',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Which column?' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 },
+      }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createLLMProvider({
+      type: 'openai-compatible',
+      openaiCompatibleConfig: {
+        baseUrl: 'http://gpu-01:8000/v1/',
+        defaultModel: 'Qwen/Qwen2.5-7B-Instruct',
+        apiKey: 'secret',
+        headers: { 'X-Department': 'cs' },
+      },
+    });
+    const result = await provider.generate({ prompt: 'hint', params });
+
+    expect(result).toMatchObject({
+      text: 'Which column?',
+      provider: 'openai-compatible',
+      usage: { inputTokens: 9, outputTokens: 2 },
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://gpu-01:8000/v1/chat/completions');
+    expect(init.headers).toMatchObject({ 'Authorization': 'Bearer secret', 'X-Department': 'cs' });
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'Qwen/Qwen2.5-7B-Instruct', temperature: 0 });
+  });
+
+  it('reports unhealthy when a multi-model server does not serve the default model', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ object: 'list', data: [{ id: 'llama-3-8b', object: 'model' }, { id: 'mistral-7b', object: 'model' }] }))
+    ));
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://gpu-01:8000/v1', defaultModel: 'qwen-7b' });
+    const health = await provider.health();
+
+    expect(health.ok).toBe(false);
+    expect(health.message).toContain('qwen-7b');
+    expect(health.models.map((model) => model.name)).toEqual(['llama-3-8b', 'mistral-7b']);
+  });
+
+  it('accepts a single-model llama.cpp server and advertises configured models', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ object: 'list', data: [{ id: '/models/qwen2.5-7b-q4.gguf', object: 'model' }] }))
+    ));
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://127.0.0.1:8080/v1',
+      defaultModel: 'qwen2.5-7b',
+      models: ['qwen2.5-7b', 'qwen2.5-7b-json'],
+    });
+
+    const health = await provider.health();
+    expect(health.ok).toBe(true);
+    expect(health.models.map((model) => model.name)).toEqual(['qwen2.5-7b', 'qwen2.5-7b-json']);
+  });
+
+  it('reports an unreachable server without throwing', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')));
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://127.0.0.1:8000/v1', defaultModel: 'qwen' });
+
+    await expect(provider.health()).resolves.toMatchObject({ ok: false, details: 'connect ECONNREFUSED' });
+    await expect(provider.listModels()).resolves.toEqual([]);
+  });
+});
+
+describe('mock provider', () => {
+  it('returns the same reply for the same prompt and streams it word by word', async () => {
+    const provider = new MockProvider();
+    const first = await provider.generate({ prompt: 'Why does my JOIN duplicate rows?', params });
+    const again = await provider.generate({ prompt: 'Why does my JOIN duplicate rows?', params });
+    expect(again.text).toBe(first.text);
+
+    const deltas: string[] = [];
+    const streamed = await provider.generateStream(
+      { prompt: 'Why does my JOIN duplicate rows?', params: { ...params, stream: true } },
+      (delta) => deltas.push(delta)
+    );
+    expect(streamed.text).toBe(first.text);
+    expect(deltas.join('')).toBe(first.text);
+    expect(deltas.length).toBeGreaterThan(1);
+  });
+
+  it('fills structured output schemas with typed values', async () => {
+    const provider = new MockProvider({ responses: ['Check the join key.'] });
+    const result = await provider.generate({
+      prompt: 'hint',
+      params,
+      structuredOutput: {
+        format: 'json',
+        schema: { type: 'object', properties: { hint: { type: 'string' }, confidence: { type: 'number' } } },
+      },
+    });
+    expect(JSON.parse(result.text)).toEqual({ hint: 'Check the join key.', confidence: 0 });
+  });
+});
+
+describe('/api/llm status and models', () => {
+  it('reports the configured provider, its models and default model', async () => {
+    const status = await invokeGet('/status');
+    expect(status.json).toMatchObject({
+      success: true,
+      data: { enabled: true, available: true, provider: 'mock', models: ['mock-tutor'], defaultModel: 'mock-tutor' },
+    });
+
+    const models = await invokeGet('/models');
+    expect(models.json).toMatchObject({ success: true, data: { models: ['mock-tutor'], defaultModel: 'mock-tutor' } });
+  });
+});
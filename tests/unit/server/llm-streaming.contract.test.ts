@@ -0,0 +1,90 @@
+/* @vitest-environment node */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GroqProvider } from '../../../apps/server/src/llm/providers/groq.js';
+import { OllamaProvider } from '../../../apps/server/src/llm/providers/ollama.js';
+
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    }),
+    { status: 200 }
+  );
+}
+
+const params = { temperature: 0, top_p: 1, stream: true, timeoutMs: 5000 };
+
+describe('LLM provider streaming', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('parses Groq server-sent events split across network chunks', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      streamResponse([
+        'data: {"model":"llama","choices":[{"delta":{"content":"Which "}}]}\n\n',
+        'data: {"model":"llama","choices":[{"delta":{"content":"col',
+        'umn?"}}]}\n\ndata: {"model":"llama","choices":[{"delta":{}}],"x_groq":{"usage":{"prompt_tokens":12,"completion_tokens":3}}}\n\n',
+        'data: [DONE]\n\n',
+      ])
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new GroqProvider({ apiKey: 'test-key', defaultModel: 'llama' });
+    const deltas: string[] = [];
+    const result = await provider.generateStream({ prompt: 'hint', params }, (delta) => deltas.push(delta));
+
+    expect(deltas).toEqual(['Which ', 'column?']);
+    expect(result).toMatchObject({
+      text: 'Which column?',
+      model: 'llama',
+      provider: 'groq',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1].body))).toMatchObject({ stream: true });
+  });
+
+  it('parses Ollama newline-delimited JSON until done', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        streamResponse([
+          '{"model":"qwen","response":"Filter ","done":false}\n{"model":"qwen","response":"first.","done":false}\n',
+          '{"model":"qwen","response":"","done":true,"prompt_eval_count":20,"eval_count":4}\n',
+        ])
+      )
+    );
+
+    const provider = new OllamaProvider({ baseUrl: 'http://ollama.test', defaultModel: 'qwen' });
+    const deltas: string[] = [];
+    const result = await provider.generateStream({ prompt: 'hint', params }, (delta) => deltas.push(delta));
+
+    expect(deltas).toEqual(['Filter ', 'first.']);
+    expect(result).toMatchObject({ text: 'Filter first.', usage: { inputTokens: 20, outputTokens: 4 } });
+  });
+
+  it('reports a cancelled stream when the caller aborts', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+          );
+        })
+      )
+    );
+
+    const controller = new AbortController();
+    const provider = new GroqProvider({ apiKey: 'test-key', defaultModel: 'llama' });
+    const pending = provider.generateStream({ prompt: 'hint', params, signal: controller.signal }, () => {});
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Groq stream cancelled');
+  });
+});
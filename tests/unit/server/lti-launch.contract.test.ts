@@ -0,0 +1,336 @@
+/* @vitest-environment node */
+
+import crypto from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const consumeLtiNonceMock = vi.fn();
+const fetchMock = vi.fn();
+
+const platform = {
+  issuer: 'https://lms.example.edu',
+  clientId: 'client-1',
+  deploymentIds: ['deployment-1'],
+  authLoginUrl: 'https://lms.example.edu/auth',
+  authTokenUrl: 'https://lms.example.edu/token',
+  jwksUrl: 'https://lms.example.edu/jwks',
+  allowInstructors: false,
+};
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  JWT_SECRET: 'test-jwt-secret',
+  LTI_PLATFORMS: [platform],
+  LTI_PRIVATE_KEY: '',
+  LTI_KEY_ID: 'tool-key',
+  NODE_ENV: 'test',
+}));
+
+vi.mock('../../../apps/server/src/db/lti.js', () => ({
+  consumeLtiNonce: consumeLtiNonceMock,
+}));
+
+const platformKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const strangerKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signJwt(payload: Record<string, unknown>, key: crypto.KeyObject, kid = 'platform-key'): string {
+  const data = `${encodeSegment({ alg: 'RS256', typ: 'JWT', kid })}.${encodeSegment(payload)}`;
+  return `${data}.${crypto.sign('sha256', Buffer.from(data), key).toString('base64url')}`;
+}
+
+function readJwt(token: string, jwk: crypto.JsonWebKey): Record<string, any> {
+  const [header, payload, signature] = token.split('.');
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${header}.${payload}`),
+    crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(signature, 'base64url')
+  );
+  expect(valid).toBe(true);
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+}
+
+function launchClaims(nonce: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: platform.issuer,
+    aud: platform.clientId,
+    sub: 'lms-user-1',
+    nonce,
+    iat: now,
+    exp: now + 300,
+    name: 'Ada Lovelace',
+    'https://purl.imsglobal.org/spec/lti/claim/version': '1.3.0',
+    'https://purl.imsglobal.org/spec/lti/claim/message_type': 'LtiResourceLinkRequest',
+    'https://purl.imsglobal.org/spec/lti/claim/deployment_id': 'deployment-1',
+    'https://purl.imsglobal.org/spec/lti/claim/roles': ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'],
+    'https://purl.imsglobal.org/spec/lti/claim/resource_link': { id: 'resource-link-1' },
+    'https://purl.imsglobal.org/spec/lti/claim/context': { id: 'course-1', title: 'Databases' },
+    ...overrides,
+  };
+}
+
+async function startLogin() {
+  const { createLoginState } = await import('../../../apps/server/src/lti/launch.js');
+  return createLoginState(platform);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  consumeLtiNonceMock.mockResolvedValue(true);
+  fetchMock.mockImplementation(async (url: string | URL) => {
+    if (String(url) === platform.jwksUrl) {
+      const jwk = platformKeys.publicKey.export({ format: 'jwk' });
+      return new Response(JSON.stringify({ keys: [{ ...jwk, kid: 'platform-key' }] }));
+    }
+    return new Response('{}', { status: 404 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('LTI id_token verification', () => {
+  it('accepts a token signed by the platform for this client', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state, nonce } = await startLogin();
+
+    const launch = await verifyLaunch(signJwt(launchClaims(nonce), platformKeys.privateKey), state);
+
+    expect(launch).toMatchObject({
+      messageType: 'LtiResourceLinkRequest',
+      deploymentId: 'deployment-1',
+      subject: 'lms-user-1',
+      name: 'Ada Lovelace',
+      role: 'student',
+      context: { id: 'course-1', title: 'Databases' },
+      resourceLinkId: 'resource-link-1',
+    });
+    expect(launch.platform.clientId).toBe('client-1');
+    expect(consumeLtiNonceMock).toHaveBeenCalledWith(nonce, 10 * 60 * 1000);
+  });
+
+  it('launches LMS instructors as instructors only where the registration allows it', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const instructorClaims = (nonce: string) => launchClaims(nonce, {
+      'https://purl.imsglobal.org/spec/lti/claim/roles': ['http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor'],
+    });
+
+    const untrusted = await startLogin();
+    await expect(
+      verifyLaunch(signJwt(instructorClaims(untrusted.nonce), platformKeys.privateKey), untrusted.state)
+    ).resolves.toMatchObject({ role: 'student' });
+
+    platform.allowInstructors = true;
+    try {
+      const trusted = await startLogin();
+      await expect(
+        verifyLaunch(signJwt(instructorClaims(trusted.nonce), platformKeys.privateKey), trusted.state)
+      ).resolves.toMatchObject({ role: 'instructor' });
+    } finally {
+      platform.allowInstructors = false;
+    }
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state, nonce } = await startLogin();
+
+    await expect(verifyLaunch(signJwt(launchClaims(nonce), strangerKeys.privateKey), state))
+      .rejects.toThrow('id_token rejected: invalid signature');
+  });
+
+  it('rejects a token issued for another client', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state, nonce } = await startLogin();
+
+    await expect(verifyLaunch(signJwt(launchClaims(nonce, { aud: 'client-2' }), platformKeys.privateKey), state))
+      .rejects.toThrow(/id_token rejected: jwt audience invalid/);
+  });
+
+  it('rejects an expired token', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state, nonce } = await startLogin();
+    const past = Math.floor(Date.now() / 1000) - 600;
+
+    await expect(
+      verifyLaunch(signJwt(launchClaims(nonce, { iat: past, exp: past + 60 }), platformKeys.privateKey), state)
+    ).rejects.toThrow('id_token rejected: jwt expired');
+  });
+
+  it('rejects a nonce that does not match the login state', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state } = await startLogin();
+
+    await expect(verifyLaunch(signJwt(launchClaims('other-nonce'), platformKeys.privateKey), state))
+      .rejects.toThrow('Nonce mismatch or replayed launch');
+    expect(consumeLtiNonceMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects a replayed launch once the nonce store has seen the nonce', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state, nonce } = await startLogin();
+    consumeLtiNonceMock.mockResolvedValue(false);
+
+    await expect(verifyLaunch(signJwt(launchClaims(nonce), platformKeys.privateKey), state))
+      .rejects.toThrow('Nonce mismatch or replayed launch');
+  });
+
+  it('rejects deployments the platform registration does not list', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state, nonce } = await startLogin();
+    const claims = launchClaims(nonce, { 'https://purl.imsglobal.org/spec/lti/claim/deployment_id': 'deployment-9' });
+
+    await expect(verifyLaunch(signJwt(claims, platformKeys.privateKey), state)).rejects.toThrow('Unknown deployment');
+  });
+});
+
+describe('LTI OIDC login state', () => {
+  it('rejects a tampered state', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    const { state, nonce } = await startLogin();
+    const [header, , signature] = state.split('.');
+    const forged = `${header}.${encodeSegment({ iss: platform.issuer, clientId: 'client-2', nonce })}.${signature}`;
+
+    await expect(verifyLaunch(signJwt(launchClaims(nonce), platformKeys.privateKey), forged))
+      .rejects.toThrow('Login state is missing, invalid or expired');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects a state older than ten minutes', async () => {
+    const { verifyLaunch } = await import('../../../apps/server/src/lti/launch.js');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { state, nonce } = await startLogin();
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+    await expect(verifyLaunch(signJwt(launchClaims(nonce), platformKeys.privateKey), state))
+      .rejects.toThrow('Login state is missing, invalid or expired');
+  });
+
+  it('binds the state to the registration that started the login', async () => {
+    const { state, nonce } = await startLogin();
+    const payload = JSON.parse(Buffer.from(state.split('.')[1], 'base64url').toString('utf8'));
+
+    expect(payload).toMatchObject({ iss: platform.issuer, clientId: 'client-1', nonce, aud: 'lti-login-state' });
+    expect(payload.exp - payload.iat).toBe(600);
+  });
+});
+
+describe('LTI deep linking response', () => {
+  it('signs the selected assignments as gradable resource links', async () => {
+    const { buildDeepLinkingResponse } = await import('../../../apps/server/src/lti/deep-linking.js');
+    const { getToolJwks } = await import('../../../apps/server/src/lti/keys.js');
+
+    const token = buildDeepLinkingResponse({
+      platform,
+      deploymentId: 'deployment-1',
+      data: 'opaque-platform-data',
+      launchUrl: 'https://tool.example.edu/api/lti/launch',
+      assignments: [{ id: 'assignment-1', title: 'Joins', description: '', problemCount: 4 }],
+    });
+
+    const [jwk] = getToolJwks().keys;
+    expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8')).kid).toBe('tool-key');
+    const claims = readJwt(token, jwk);
+    expect(claims).toMatchObject({
+      iss: 'client-1',
+      aud: 'https://lms.example.edu',
+      'https://purl.imsglobal.org/spec/lti/claim/message_type': 'LtiDeepLinkingResponse',
+      'https://purl.imsglobal.org/spec/lti/claim/version': '1.3.0',
+      'https://purl.imsglobal.org/spec/lti/claim/deployment_id': 'deployment-1',
+      'https://purl.imsglobal.org/spec/lti-dl/claim/data': 'opaque-platform-data',
+    });
+    expect(claims['https://purl.imsglobal.org/spec/lti-dl/claim/content_items']).toEqual([
+      {
+        type: 'ltiResourceLink',
+        title: 'Joins',
+        url: 'https://tool.example.edu/api/lti/launch',
+        custom: { assignment_id: 'assignment-1' },
+        lineItem: { label: 'Joins', scoreMaximum: 4, resourceId: 'assignment-1' },
+      },
+    ]);
+    expect(typeof claims.nonce).toBe('string');
+  });
+
+  it('omits the data claim when the platform sent none', async () => {
+    const { buildDeepLinkingResponse } = await import('../../../apps/server/src/lti/deep-linking.js');
+    const { getToolJwks } = await import('../../../apps/server/src/lti/keys.js');
+
+    const token = buildDeepLinkingResponse({
+      platform,
+      deploymentId: 'deployment-1',
+      data: null,
+      launchUrl: 'https://tool.example.edu/api/lti/launch',
+      assignments: [],
+    });
+
+    const claims = readJwt(token, getToolJwks().keys[0]);
+    expect(claims).not.toHaveProperty(['https://purl.imsglobal.org/spec/lti-dl/claim/data']);
+    expect(claims['https://purl.imsglobal.org/spec/lti-dl/claim/content_items']).toEqual([]);
+  });
+});
+
+describe('LTI AGS score passback', () => {
+  it('requests a token with a client assertion signed by the tool key', async () => {
+    const { getAgsAccessToken, AGS_SCOPE } = await import('../../../apps/server/src/lti/ags.js');
+    const { getToolJwks } = await import('../../../apps/server/src/lti/keys.js');
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'ags-token' })));
+
+    await expect(getAgsAccessToken(platform, [AGS_SCOPE.score])).resolves.toBe('ags-token');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(platform.authTokenUrl);
+    const form = new URLSearchParams(String(init.body));
+    expect(form.get('grant_type')).toBe('client_credentials');
+    expect(form.get('scope')).toBe(AGS_SCOPE.score);
+    expect(readJwt(form.get('client_assertion')!, getToolJwks().keys[0])).toMatchObject({
+      iss: 'client-1',
+      sub: 'client-1',
+      aud: platform.authTokenUrl,
+    });
+  });
+
+  it('posts scores to the line item scores endpoint, keeping its query string', async () => {
+    const { postScore } = await import('../../../apps/server/src/lti/ags.js');
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    const score = {
+      userId: 'lms-user-1',
+      scoreGiven: 3,
+      scoreMaximum: 4,
+      activityProgress: 'InProgress' as const,
+      gradingProgress: 'FullyGraded' as const,
+      timestamp: '2026-10-19T12:00:00.000Z',
+    };
+
+    await postScore('ags-token', 'https://lms.example.edu/lineitems/7/?type=assignment', score);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe('https://lms.example.edu/lineitems/7/scores?type=assignment');
+    expect(init.headers).toEqual({
+      Authorization: 'Bearer ags-token',
+      'Content-Type': 'application/vnd.ims.lis.v1.score+json',
+    });
+    expect(JSON.parse(init.body)).toEqual(score);
+  });
+
+  it('surfaces a rejected score', async () => {
+    const { postScore } = await import('../../../apps/server/src/lti/ags.js');
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 422 }));
+
+    await expect(postScore('ags-token', 'https://lms.example.edu/lineitems/7', {
+      userId: 'lms-user-1',
+      scoreGiven: 0,
+      scoreMaximum: 4,
+      activityProgress: 'Initialized',
+      gradingProgress: 'FullyGraded',
+      timestamp: '2026-10-19T12:00:00.000Z',
+    })).rejects.toThrow('Score passback failed with 422');
+  });
+});
@@ -0,0 +1,357 @@
+/* @vitest-environment node */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const isUsingNeonMock = vi.fn();
+const createUserMock = vi.fn();
+const updateUserMock = vi.fn();
+const updateAuthAccountRoleMock = vi.fn();
+const saveLearnerProfileMock = vi.fn();
+const createAuthAccountMock = vi.fn();
+const getAuthAccountByIdMock = vi.fn();
+const getAssignmentByIdMock = vi.fn();
+const getAssignmentsBySectionsMock = vi.fn();
+const getAssignmentActivityMock = vi.fn();
+const getSectionStudentIdsMock = vi.fn();
+const getOwnedSectionsByInstructorMock = vi.fn();
+const getTeachingSectionsMock = vi.fn();
+const enrollStudentInSectionMock = vi.fn();
+const getLtiUserLinkMock = vi.fn();
+const saveLtiUserLinkMock = vi.fn();
+const getLtiContextSectionIdMock = vi.fn();
+const saveLtiResourceLinkMock = vi.fn();
+const getLtiResourceLinksForAssignmentMock = vi.fn();
+const getLtiSubjectsForLearnersMock = vi.fn();
+const verifyLaunchMock = vi.fn();
+const findPlatformMock = vi.fn();
+const getAgsAccessTokenMock = vi.fn();
+const postScoreMock = vi.fn();
+
+const platform = {
+  issuer: 'https://lms.example.edu',
+  clientId: 'client-1',
+  deploymentIds: ['deployment-1'],
+  authLoginUrl: 'https://lms.example.edu/auth',
+  authTokenUrl: 'https://lms.example.edu/token',
+  jwksUrl: 'https://lms.example.edu/jwks',
+  allowInstructors: true,
+};
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  JWT_SECRET: 'test-jwt-secret',
+  LTI_PLATFORMS: [platform],
+  LTI_TOOL_URL: 'https://tool.example.edu',
+  LTI_WEB_APP_URL: 'https://app.example.edu',
+}));
+
+vi.mock('../../../apps/server/src/db/index.js', () => ({
+  isUsingNeon: isUsingNeonMock,
+  createUser: createUserMock,
+  updateUser: updateUserMock,
+}));
+
+vi.mock('../../../apps/server/src/db/neon.js', () => ({
+  getDb: () => ({}),
+  saveLearnerProfile: saveLearnerProfileMock,
+}));
+
+vi.mock('../../../apps/server/src/db/auth.js', () => ({
+  createAuthAccount: createAuthAccountMock,
+  getAuthAccountById: getAuthAccountByIdMock,
+  updateAuthAccountRole: updateAuthAccountRoleMock,
+}));
+
+vi.mock('../../../apps/server/src/db/assignments.js', () => ({
+  getAssignmentActivity: getAssignmentActivityMock,
+  getAssignmentById: getAssignmentByIdMock,
+  getAssignmentsBySections: getAssignmentsBySectionsMock,
+  getSectionStudentIds: getSectionStudentIdsMock,
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  createSectionForInstructor: vi.fn(),
+  enrollStudentInSection: enrollStudentInSectionMock,
+  getOwnedSectionsByInstructor: getOwnedSectionsByInstructorMock,
+  getTeachingSections: getTeachingSectionsMock,
+}));
+
+vi.mock('../../../apps/server/src/db/lti.js', () => ({
+  getLtiContextSectionId: getLtiContextSectionIdMock,
+  getLtiLinkedAssignmentIds: vi.fn(),
+  getLtiResourceLinksForAssignment: getLtiResourceLinksForAssignmentMock,
+  getLtiSubjectsForLearners: getLtiSubjectsForLearnersMock,
+  getLtiUserLink: getLtiUserLinkMock,
+  saveLtiContext: vi.fn(),
+  saveLtiResourceLink: saveLtiResourceLinkMock,
+  saveLtiUserLink: saveLtiUserLinkMock,
+  setLtiResourceLinkLineItem: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/lti/index.js', () => ({
+  AGS_SCOPE: {
+    lineItem: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+    score: 'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+  },
+  LtiLaunchError: class LtiLaunchError extends Error {},
+  buildDeepLinkingResponse: vi.fn(),
+  createLoginState: vi.fn(),
+  createLineItem: vi.fn(),
+  findPlatform: findPlatformMock,
+  getAgsAccessToken: getAgsAccessTokenMock,
+  getToolJwks: vi.fn(),
+  postScore: postScoreMock,
+  verifyLaunch: verifyLaunchMock,
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  requireInstructor: (_req: unknown, _res: unknown, next: () => void) => next(),
+  startAuthSession: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/middleware/csrf.js', () => ({
+  createCsrfToken: () => 'csrf-token',
+  setCsrfCookie: vi.fn(),
+}));
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+async function invoke(
+  routerName: 'launch' | 'instructor',
+  method: 'get' | 'post',
+  path: string,
+  req: Record<string, unknown>
+): Promise<{ status: number; body: any; redirect: string | null }> {
+  const routes = await import('../../../apps/server/src/routes/lti.js');
+  const router = routerName === 'launch' ? routes.ltiRouter : routes.instructorLtiRouter;
+  const layer = (router as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === path && entry.route?.methods?.[method]
+  );
+  const handler = layer?.route?.stack?.[0]?.handle;
+  if (!handler) throw new Error(`Route handler not found for ${method.toUpperCase()} ${path}`);
+
+  const result = { status: 200, body: null as any, redirect: null as string | null };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    type() {
+      return this;
+    },
+    send(body: unknown) {
+      result.body = body;
+      return this;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return this;
+    },
+    redirect(code: number, url: string) {
+      result.status = code;
+      result.redirect = url;
+      return this;
+    },
+  };
+  await handler({ method: method.toUpperCase(), query: {}, params: {}, body: {}, ...req }, res, () => {});
+  return result;
+}
+
+function studentLaunch(overrides: Record<string, unknown> = {}) {
+  return {
+    platform,
+    messageType: 'LtiResourceLinkRequest',
+    deploymentId: 'deployment-1',
+    subject: 'lms-user-1',
+    name: 'Ada Lovelace',
+    role: 'student',
+    context: { id: 'course-1', title: 'Databases' },
+    resourceLinkId: null,
+    custom: {},
+    ags: null,
+    deepLinking: null,
+    ...overrides,
+  };
+}
+
+function assignment(id: string, sectionId: string) {
+  return {
+    id,
+    sectionId,
+    title: `Assignment ${id}`,
+    description: '',
+    problemIds: ['problem-1', 'problem-2'],
+    opensAt: '2026-10-01T00:00:00.000Z',
+    dueAt: '2026-10-08T00:00:00.000Z',
+    maxAttempts: null,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  isUsingNeonMock.mockReturnValue(true);
+  getLtiContextSectionIdMock.mockResolvedValue('section-1');
+  createAuthAccountMock.mockImplementation(async (_db: unknown, params: Record<string, unknown>) => ({
+    id: 'account-new',
+    ...params,
+  }));
+});
+
+describe('LTI launch accounts', () => {
+  it('provisions an account keyed on issuer and subject for a first launch', async () => {
+    verifyLaunchMock.mockResolvedValue(studentLaunch());
+    getLtiUserLinkMock.mockResolvedValue(null);
+
+    const result = await invoke('launch', 'post', '/launch', { body: { id_token: 'token', state: 'state' } });
+
+    expect(result.redirect).toBe('https://app.example.edu/practice');
+    const created = createAuthAccountMock.mock.calls[0][1];
+    expect(created.email).toMatch(/^lti-[0-9a-f]{24}@lti\.invalid$/);
+    expect(created).toMatchObject({ role: 'student', name: 'Ada Lovelace' });
+    expect(saveLtiUserLinkMock).toHaveBeenCalledWith({
+      issuer: platform.issuer,
+      subject: 'lms-user-1',
+      accountId: 'account-new',
+      learnerId: created.learnerId,
+    });
+    expect(enrollStudentInSectionMock).toHaveBeenCalledWith({ sectionId: 'section-1', studentUserId: created.learnerId });
+  });
+
+  it('returns to the linked account on later launches', async () => {
+    const link = { issuer: platform.issuer, subject: 'lms-user-1', accountId: 'account-1', learnerId: 'learner-1' };
+    verifyLaunchMock.mockResolvedValue(studentLaunch());
+    getLtiUserLinkMock.mockResolvedValue(link);
+    getAuthAccountByIdMock.mockResolvedValue({ id: 'account-1', learnerId: 'learner-1', role: 'student' });
+
+    await invoke('launch', 'post', '/launch', { body: { id_token: 'token', state: 'state' } });
+
+    expect(createAuthAccountMock).not.toHaveBeenCalled();
+    expect(saveLtiUserLinkMock).toHaveBeenCalledWith(link);
+    expect(updateAuthAccountRoleMock).not.toHaveBeenCalled();
+  });
+
+  it('re-applies the LMS role when it changed since the last launch', async () => {
+    getLtiUserLinkMock.mockResolvedValue({ issuer: platform.issuer, subject: 'lms-user-1', accountId: 'account-1', learnerId: 'learner-1' });
+    getAuthAccountByIdMock.mockResolvedValue({ id: 'account-1', learnerId: 'learner-1', role: 'instructor' });
+    verifyLaunchMock.mockResolvedValue(studentLaunch());
+
+    const result = await invoke('launch', 'post', '/launch', { body: { id_token: 'token', state: 'state' } });
+
+    expect(updateAuthAccountRoleMock).toHaveBeenCalledWith({}, 'account-1', 'student');
+    expect(updateUserMock).toHaveBeenCalledWith('learner-1', { role: 'student' });
+    expect(enrollStudentInSectionMock).toHaveBeenCalledWith({ sectionId: 'section-1', studentUserId: 'learner-1' });
+    expect(result.redirect).toBe('https://app.example.edu/practice');
+  });
+
+  it('records the client id on resource links', async () => {
+    verifyLaunchMock.mockResolvedValue(studentLaunch({ resourceLinkId: 'resource-link-1' }));
+    getLtiUserLinkMock.mockResolvedValue(null);
+    saveLtiResourceLinkMock.mockResolvedValue({ assignmentId: null });
+
+    await invoke('launch', 'post', '/launch', { body: { id_token: 'token', state: 'state' } });
+
+    expect(saveLtiResourceLinkMock).toHaveBeenCalledWith(
+      expect.objectContaining({ issuer: platform.issuer, clientId: 'client-1', resourceLinkId: 'resource-link-1' })
+    );
+  });
+});
+
+describe('LTI deep linking picker', () => {
+  const instructorLaunch = studentLaunch({
+    messageType: 'LtiDeepLinkingRequest',
+    role: 'instructor',
+    deepLinking: { returnUrl: 'https://lms.example.edu/deep-link-return', data: null },
+  });
+
+  beforeEach(() => {
+    verifyLaunchMock.mockResolvedValue(instructorLaunch);
+    getLtiUserLinkMock.mockResolvedValue({ accountId: 'account-1' });
+    getAuthAccountByIdMock.mockResolvedValue({ id: 'account-1', learnerId: 'instructor-1', role: 'instructor' });
+    getAssignmentsBySectionsMock.mockImplementation(async (sectionIds: string[]) =>
+      sectionIds.map((sectionId) => assignment(`in-${sectionId}`, sectionId))
+    );
+  });
+
+  it("lists the course section's assignments when the instructor owns it", async () => {
+    getOwnedSectionsByInstructorMock.mockResolvedValue([{ id: 'section-1' }, { id: 'section-2' }]);
+
+    const result = await invoke('launch', 'post', '/launch', { body: { id_token: 'token', state: 'state' } });
+
+    expect(getAssignmentsBySectionsMock).toHaveBeenCalledWith(['section-1']);
+    expect(result.body).toContain('Assignment in-section-1');
+  });
+
+  it("never lists another instructor's section", async () => {
+    getOwnedSectionsByInstructorMock.mockResolvedValue([{ id: 'section-2' }]);
+
+    const result = await invoke('launch', 'post', '/launch', { body: { id_token: 'token', state: 'state' } });
+
+    expect(getAssignmentsBySectionsMock).toHaveBeenCalledWith(['section-2']);
+    expect(result.body).not.toContain('Assignment in-section-1');
+  });
+});
+
+describe('LTI grade sync', () => {
+  const scoreScope = 'https://purl.imsglobal.org/spec/lti-ags/scope/score';
+  const link = {
+    issuer: platform.issuer,
+    clientId: 'client-1',
+    resourceLinkId: 'resource-link-1',
+    deploymentId: 'deployment-1',
+    lineItemUrl: 'https://lms.example.edu/lineitems/7',
+    lineItemsUrl: null,
+    agsScopes: [scoreScope],
+  };
+
+  beforeEach(() => {
+    getAssignmentByIdMock.mockResolvedValue(assignment('assignment-1', 'section-1'));
+    getTeachingSectionsMock.mockResolvedValue([{ id: 'section-1' }]);
+    getSectionStudentIdsMock.mockResolvedValue(['learner-1']);
+    getAssignmentActivityMock.mockResolvedValue([]);
+    getLtiSubjectsForLearnersMock.mockResolvedValue(new Map([['learner-1', 'lms-user-1']]));
+    getAgsAccessTokenMock.mockResolvedValue('ags-token');
+  });
+
+  async function sync() {
+    return invoke('instructor', 'post', '/assignments/:id/sync', {
+      auth: { learnerId: 'instructor-1', role: 'instructor' },
+      params: { id: 'assignment-1' },
+    });
+  }
+
+  it("uses the link's own registration", async () => {
+    getLtiResourceLinksForAssignmentMock.mockResolvedValue([link]);
+    findPlatformMock.mockReturnValue(platform);
+
+    const result = await sync();
+
+    expect(findPlatformMock).toHaveBeenCalledWith(platform.issuer, 'client-1');
+    expect(postScoreMock).toHaveBeenCalledWith('ags-token', link.lineItemUrl, expect.objectContaining({
+      userId: 'lms-user-1',
+      scoreGiven: 0,
+      scoreMaximum: 2,
+      activityProgress: 'Initialized',
+    }));
+    expect(result.body.data.links[0]).toMatchObject({ posted: 1, failed: 0, error: null });
+  });
+
+  it('skips links whose registration or deployment is unknown', async () => {
+    getLtiResourceLinksForAssignmentMock.mockResolvedValue([
+      { ...link, clientId: null },
+      { ...link, resourceLinkId: 'resource-link-2', deploymentId: 'deployment-9' },
+    ]);
+    findPlatformMock.mockReturnValue(platform);
+
+    const result = await sync();
+
+    expect(result.body.data.links.map((entry: { error: string }) => entry.error)).toEqual([
+      'Launch this link from the LMS once more to refresh its registration',
+      'Platform is no longer registered',
+    ]);
+    expect(getAgsAccessTokenMock).not.toHaveBeenCalled();
+    expect(postScoreMock).not.toHaveBeenCalled();
+  });
+});
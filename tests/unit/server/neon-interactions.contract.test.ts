@@ -11,6 +11,7 @@ const validateResearchEventMock = vi.fn();
 const validateResearchBatchForWriteMock = vi.fn();
 const getSectionForLearnerInInstructorScopeMock = vi.fn();
 const getSectionForStudentMock = vi.fn();
+const getExhaustedAssignmentMock = vi.fn();
 
 vi.mock('../../../apps/server/src/db/neon.js', () => ({
   createInteraction: createInteractionMock,
@@ -25,6 +26,10 @@ vi.mock('../../../apps/server/src/db/index.js', () => ({
   validateResearchBatchForWrite: validateResearchBatchForWriteMock,
 }));
 
+vi.mock('../../../apps/server/src/db/assignments.js', () => ({
+  getExhaustedAssignment: getExhaustedAssignmentMock,
+}));
+
 vi.mock('../../../apps/server/src/db/sections.js', () => ({
   getSectionForLearnerInInstructorScope: getSectionForLearnerInInstructorScopeMock,
   getSectionForStudent: getSectionForStudentMock,
@@ -49,6 +54,7 @@ function getRouteHandler(
 async function invokeJsonHandler(
   handler: Function,
   body: Record<string, unknown>,
+  auth?: { learnerId: string; role: 'student' | 'instructor' },
 ): Promise<{ status: number; json: unknown }> {
   let statusCode = 200;
   let payload: unknown = null;
@@ -57,7 +63,7 @@ async function invokeJsonHandler(
     baseUrl: '/api/interactions',
     path: '/',
     body,
-    auth: undefined,
+    auth,
   } as Record<string, unknown>;
   const res = {
     status(code: number) {
@@ -113,6 +119,7 @@ beforeEach(() => {
   validateResearchBatchForWriteMock.mockReset();
   getSectionForLearnerInInstructorScopeMock.mockReset();
   getSectionForStudentMock.mockReset();
+  getExhaustedAssignmentMock.mockReset();
 });
 
 afterEach(() => {
@@ -233,3 +240,109 @@ describe('neon-interactions single-event contract', () => {
     );
   });
 });
+
+describe('neon-interactions assignment attempt limits', () => {
+  const student = { learnerId: 'learner-1', role: 'student' as const };
+  type RouterLike = {
+    stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    getSectionForStudentMock.mockResolvedValue({ id: 'section-1' });
+    createInteractionMock.mockImplementation(async (input: { id: string }) => ({ id: input.id }));
+    validateResearchEventMock.mockReturnValue({ valid: true, missing: [] });
+    validateResearchBatchForWriteMock.mockReturnValue({ valid: true, failedIds: [], errors: [] });
+  });
+
+  it('rejects a run once the assignment limit is used up', async () => {
+    const { neonInteractionsRouter } = await import('../../../apps/server/src/routes/neon-interactions');
+    const postInteraction = getRouteHandler(neonInteractionsRouter as unknown as RouterLike, 'post', '/');
+    getExhaustedAssignmentMock.mockResolvedValue({ id: 'assignment-1', title: 'Week 3' });
+
+    const result = await invokeJsonHandler(
+      postInteraction,
+      { learnerId: 'learner-1', eventType: 'execution', problemId: 'problem-1', problemSetId: 'assignment-1' },
+      student,
+    );
+
+    expect(result.status).toBe(409);
+    expect(result.json).toEqual({ success: false, error: 'Attempt limit reached for assignment: Week 3' });
+    expect(getExhaustedAssignmentMock).toHaveBeenCalledWith({
+      sectionId: 'section-1',
+      learnerId: 'learner-1',
+      problemId: 'problem-1',
+      assignmentId: 'assignment-1',
+    });
+    expect(createInteractionMock).not.toHaveBeenCalled();
+  });
+
+  it('never checks the limit for free-practice runs outside the assignment', async () => {
+    const { neonInteractionsRouter } = await import('../../../apps/server/src/routes/neon-interactions');
+    const postInteraction = getRouteHandler(neonInteractionsRouter as unknown as RouterLike, 'post', '/');
+    getExhaustedAssignmentMock.mockResolvedValue({ id: 'assignment-1', title: 'Week 3' });
+
+    const result = await invokeJsonHandler(
+      postInteraction,
+      { learnerId: 'learner-1', eventType: 'execution', problemId: 'problem-1' },
+      student,
+    );
+
+    expect(result.status).toBe(201);
+    expect(getExhaustedAssignmentMock).not.toHaveBeenCalled();
+    expect(createInteractionMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('still records hint views and runs with attempts left', async () => {
+    const { neonInteractionsRouter } = await import('../../../apps/server/src/routes/neon-interactions');
+    const postInteraction = getRouteHandler(neonInteractionsRouter as unknown as RouterLike, 'post', '/');
+    getExhaustedAssignmentMock.mockResolvedValue(null);
+
+    const run = await invokeJsonHandler(
+      postInteraction,
+      { learnerId: 'learner-1', eventType: 'error', problemId: 'problem-1', problemSetId: 'assignment-1' },
+      student,
+    );
+    expect(run.status).toBe(201);
+
+    const hint = await invokeJsonHandler(
+      postInteraction,
+      { learnerId: 'learner-1', eventType: 'hint_view', problemId: 'problem-1' },
+      student,
+    );
+    expect(hint.status).toBe(201);
+    expect(getExhaustedAssignmentMock).toHaveBeenCalledTimes(1);
+    expect(createInteractionMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails only the over-limit events in a batch', async () => {
+    const { neonInteractionsRouter } = await import('../../../apps/server/src/routes/neon-interactions');
+    const postBatch = getRouteHandler(neonInteractionsRouter as unknown as RouterLike, 'post', '/batch');
+    getExhaustedAssignmentMock.mockImplementation(async ({ problemId }: { problemId: string }) =>
+      problemId === 'problem-2' ? { id: 'assignment-1', title: 'Week 3' } : null
+    );
+
+    const result = await invokeJsonHandler(
+      postBatch,
+      {
+        events: [
+          { id: 'event-1', learnerId: 'learner-1', eventType: 'execution', problemId: 'problem-1', problemSetId: 'assignment-1' },
+          { id: 'event-2', learnerId: 'learner-1', eventType: 'execution', problemId: 'problem-2', problemSetId: 'assignment-1' },
+        ],
+      },
+      student,
+    );
+
+    expect(result.status).toBe(207);
+    expect(result.json).toEqual(
+      expect.objectContaining({
+        data: { count: 1, confirmedIds: ['event-1'] },
+        failedEvents: [
+          { index: 1, eventId: 'event-2', error: 'Attempt limit reached for assignment: Week 3' },
+        ],
+      }),
+    );
+  });
+});
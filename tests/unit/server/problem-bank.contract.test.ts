@@ -0,0 +1,188 @@
+/* @vitest-environment node */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const isUsingNeonMock = vi.fn();
+const getProblemByIdMock = vi.fn();
+const setProblemSectionsMock = vi.fn();
+const getProblemsByAuthorMock = vi.fn();
+const getPublishedProblemsForSectionMock = vi.fn();
+const getTeachingSectionsMock = vi.fn();
+const getSectionForStudentMock = vi.fn();
+
+type FakeQuery = PromiseLike<unknown[]> & { text: string };
+
+const executedQueries: string[] = [];
+const transactionMock = vi.fn();
+
+function fakeSql(strings: TemplateStringsArray): FakeQuery {
+  const text = strings.join('?').replace(/\s+/g, ' ').trim();
+  // Lazy like the Neon HTTP driver: nothing runs until awaited
+  return {
+    text,
+    then(resolve, reject) {
+      executedQueries.push(text);
+      const rows = text.startsWith('SELECT') ? [{ id: 'problem-1', status: 'published', section_ids: ['section-1'] }] : [];
+      return Promise.resolve(rows).then(resolve, reject);
+    },
+  };
+}
+fakeSql.transaction = transactionMock;
+
+// The server resolves its own copy of the driver
+vi.mock('../../../apps/server/node_modules/@neondatabase/serverless/index.mjs', () => ({
+  neon: () => fakeSql,
+  neonConfig: {},
+}));
+
+vi.mock('../../../apps/server/src/db/index.js', () => ({
+  isUsingNeon: isUsingNeonMock,
+  createProblem: vi.fn(),
+  getProblemById: getProblemByIdMock,
+  getProblemsByAuthor: getProblemsByAuthorMock,
+  updateProblem: vi.fn(),
+  setProblemSections: setProblemSectionsMock,
+  deleteProblem: vi.fn(),
+  getPublishedProblemsForSection: getPublishedProblemsForSectionMock,
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  getSectionForStudent: getSectionForStudentMock,
+  getTeachingSections: getTeachingSectionsMock,
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  requireInstructor: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+async function invoke(
+  routerName: 'instructor' | 'learner',
+  method: 'get' | 'post',
+  path: string,
+  req: Record<string, unknown>
+): Promise<{ status: number; json: any }> {
+  const routes = await import('../../../apps/server/src/routes/problems.js');
+  const router = routerName === 'instructor' ? routes.instructorProblemsRouter : routes.problemsRouter;
+  const layer = (router as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === path && entry.route?.methods?.[method]
+  );
+  const handler = layer?.route?.stack?.[0]?.handle;
+  if (!handler) throw new Error(`Route handler not found for ${method.toUpperCase()} ${path}`);
+
+  let statusCode = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+  };
+  await handler({ method: method.toUpperCase(), query: {}, params: {}, body: {}, ...req }, res, () => {});
+  return { status: statusCode, json: payload };
+}
+
+const instructor = { learnerId: 'instructor-1', role: 'instructor' };
+const problem = { id: 'problem-1', authorUserId: 'instructor-1', status: 'draft', sectionIds: [] };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  isUsingNeonMock.mockReturnValue(true);
+  getProblemByIdMock.mockResolvedValue(problem);
+  setProblemSectionsMock.mockImplementation(async (id: string, sectionIds: string[]) => ({
+    ...problem,
+    id,
+    sectionIds,
+    status: sectionIds.length > 0 ? 'published' : 'draft',
+  }));
+  getTeachingSectionsMock.mockResolvedValue([{ id: 'section-1', name: 'SQL 101' }]);
+});
+
+describe('problem bank routes', () => {
+  it('publishes only to sections the instructor teaches', async () => {
+    const foreign = await invoke('instructor', 'post', '/:id/publish', {
+      auth: instructor,
+      params: { id: 'problem-1' },
+      body: { sectionIds: ['section-1', 'section-2'] },
+    });
+    expect(foreign.status).toBe(403);
+    expect(foreign.json.message).toBe('Not taught: section-2');
+    expect(setProblemSectionsMock).not.toHaveBeenCalled();
+
+    const published = await invoke('instructor', 'post', '/:id/publish', {
+      auth: instructor,
+      params: { id: 'problem-1' },
+      body: { sectionIds: ['section-1'] },
+    });
+    expect(published.status).toBe(200);
+    expect(published.json.data).toMatchObject({ status: 'published', sectionIds: ['section-1'] });
+    expect(setProblemSectionsMock).toHaveBeenCalledWith('problem-1', ['section-1']);
+  });
+
+  it("hides other instructors' problems behind 404", async () => {
+    getProblemByIdMock.mockResolvedValue({ ...problem, authorUserId: 'instructor-2' });
+
+    const result = await invoke('instructor', 'post', '/:id/unpublish', {
+      auth: instructor,
+      params: { id: 'problem-1' },
+    });
+
+    expect(result.status).toBe(404);
+    expect(setProblemSectionsMock).not.toHaveBeenCalled();
+  });
+
+  it("lists the student's section problems, and the shared catalog without a section", async () => {
+    getSectionForStudentMock.mockResolvedValue({ id: 'section-1', name: 'SQL 101' });
+    getPublishedProblemsForSectionMock.mockResolvedValue([{ id: 'problem-1' }]);
+
+    const student = await invoke('learner', 'get', '/', { auth: { learnerId: 'student-1', role: 'student' } });
+    expect(student.json.data).toEqual([{ id: 'problem-1' }]);
+    expect(getPublishedProblemsForSectionMock).toHaveBeenCalledWith('section-1');
+
+    await invoke('learner', 'get', '/', {});
+    expect(getPublishedProblemsForSectionMock).toHaveBeenLastCalledWith(null);
+  });
+});
+
+describe('Neon setProblemSections', () => {
+  beforeEach(() => {
+    vi.stubEnv('DATABASE_URL', 'postgres://test');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    executedQueries.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('replaces the section list in one transaction', async () => {
+    transactionMock.mockResolvedValue([]);
+    const { setProblemSections } = await import('../../../apps/server/src/db/neon.js');
+
+    await setProblemSections('problem-1', ['section-1', 'section-2', 'section-1']);
+
+    expect(transactionMock).toHaveBeenCalledTimes(1);
+    const statements = (transactionMock.mock.calls[0][0] as FakeQuery[]).map((query) => query.text);
+    expect(statements).toHaveLength(4);
+    expect(statements[0]).toMatch(/^DELETE FROM problem_sections/);
+    expect(statements.filter((text) => text.startsWith('INSERT INTO problem_sections'))).toHaveLength(2);
+    expect(statements[3]).toMatch(/status = 'published'/);
+    // Only the follow-up read runs outside the transaction
+    expect(executedQueries.every((text) => text.startsWith('SELECT'))).toBe(true);
+  });
+
+  it('leaves the sections untouched when the transaction fails', async () => {
+    transactionMock.mockRejectedValue(new Error('connection reset'));
+    const { setProblemSections } = await import('../../../apps/server/src/db/neon.js');
+
+    await expect(setProblemSections('problem-1', [])).rejects.toThrow('connection reset');
+    expect(executedQueries).toEqual([]);
+  });
+});
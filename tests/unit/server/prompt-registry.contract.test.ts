@@ -0,0 +1,221 @@
+/* @vitest-environment node */
+
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  ENABLE_LLM: true,
+  LLM_PROVIDER: 'mock',
+  LLM_TIMEOUT_MS: 60000,
+  LLM_CACHE_MAX_ENTRIES: 0,
+  LLM_CACHE_TTL_MS: 0,
+  LLM_LEARNER_DAILY_TOKEN_BUDGET: 0,
+  LLM_SECTION_DAILY_TOKEN_BUDGET: 0,
+  OLLAMA_DEFAULT_MODEL: 'qwen3:4b',
+  getLLMProviderConfig: () => ({ type: 'mock', mockConfig: { defaultModel: 'mock-tutor' } }),
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  requireAuth: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+vi.mock('../../../apps/server/src/db/index.js', () => ({
+  isUsingNeon: () => false,
+  getActiveSession: async (learnerId: string) => (
+    learnerId === 'learner-7' ? { sessionId: 's-1', conditionId: 'explanation_first' } : null
+  ),
+  recordLLMUsage: async () => {},
+  reserveLLMTokens: async (data: { learnerId: string; tokens: number }) => ({
+    reserved: true,
+    reservation: { learnerId: data.learnerId, usageDate: '2026-10-19', tokens: data.tokens },
+  }),
+  settleLLMTokens: async () => {},
+}));
+
+import {
+  PROMPT_TEMPLATES,
+  PROMPT_VARIANT_PLANS,
+  getPromptTemplate,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+  validatePromptVariables,
+} from '../../../apps/server/src/llm/index.js';
+import { llmRouter } from '../../../apps/server/src/routes/llm.js';
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+async function invoke(
+  method: 'get' | 'post',
+  path: string,
+  req: Record<string, unknown> = {}
+): Promise<{ status: number; json: any }> {
+  const layer = (llmRouter as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === path && entry.route?.methods?.[method]
+  );
+  // Skip route middleware (auth) and call the handler itself
+  const handler = layer?.route?.stack?.at(-1)?.handle;
+  if (!handler) throw new Error(`Route handler not found for ${method.toUpperCase()} ${path}`);
+
+  let statusCode = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+  };
+  await handler({ method: method.toUpperCase(), query: {}, params: {}, body: {}, ...req }, res, () => {});
+  return { status: statusCode, json: payload };
+}
+
+const sources = { problemId: 'p1', schemaText: 'CREATE TABLE users (id INT)' };
+
+describe('prompt template registry', () => {
+  it('gives every variant plan versions that exist in the registry', () => {
+    for (const [family, plan] of Object.entries(PROMPT_VARIANT_PLANS)) {
+      const versions = [plan.defaultVersion, ...Object.values(plan.conditions).flat()];
+      for (const version of versions) {
+        expect(getPromptTemplate(version)?.family).toBe(family);
+      }
+    }
+    expect(new Set(PROMPT_TEMPLATES.map((template) => template.id)).size).toBe(PROMPT_TEMPLATES.length);
+  });
+
+  it('pins version ids and falls back to the family default without a condition', () => {
+    expect(resolvePromptTemplate('explanation.v2', { conditionId: 'adaptive' })).toMatchObject({
+      template: { id: 'explanation.v2' },
+      assignment: 'pinned',
+    });
+    expect(resolvePromptTemplate('explanation')).toMatchObject({
+      template: { id: 'explanation.v1' },
+      assignment: 'default',
+    });
+    expect(resolvePromptTemplate('explanation', { conditionId: 'conservative' })?.assignment).toBe('default');
+    expect(resolvePromptTemplate('unknown')).toBeNull();
+  });
+
+  it('assigns condition variants stably per learner and splits learners between them', () => {
+    expect(resolvePromptTemplate('explanation', { conditionId: 'explanation_first', learnerId: 'l-1' })).toMatchObject({
+      template: { id: 'explanation.v2' },
+      assignment: 'condition',
+    });
+
+    const versions = Array.from({ length: 40 }, (_, i) => {
+      const first = resolvePromptTemplate('explanation', { conditionId: 'adaptive', learnerId: `learner-${i}` });
+      const again = resolvePromptTemplate('explanation', { conditionId: 'adaptive', learnerId: `learner-${i}` });
+      expect(again?.template.id).toBe(first?.template.id);
+      return first?.template.id;
+    });
+    expect(new Set(versions)).toEqual(new Set(['explanation.v1', 'explanation.v2']));
+  });
+
+  it('validates variables against the template schema', () => {
+    const template = getPromptTemplate('explanation.v1')!;
+
+    expect(validatePromptVariables(template, { sources })).toEqual([]);
+    expect(validatePromptVariables(template, {})).toEqual(['sources is required']);
+    expect(validatePromptVariables(template, { sources: 'x'.repeat(60001), extra: 1 })).toEqual([
+      'sources exceeds 60000 characters',
+      'extra is not a variable of explanation.v1',
+    ]);
+  });
+
+  it('renders json variables into the prompt', () => {
+    const prompt = renderPromptTemplate(getPromptTemplate('notebook_unit.v1')!, { sources });
+
+    expect(prompt).toContain('Template ID: notebook_unit.v1');
+    expect(prompt).toContain(JSON.stringify(sources));
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('renders adaptive hints from their variables, leaving out unset optional sections', () => {
+    const template = getPromptTemplate('adaptive_hint.v1')!;
+    const variables = {
+      problem_title: 'Older users',
+      error_subtype: 'incorrect results',
+      learner_state: '- Failed runs: 2',
+      instruction: 'Ask a guiding question.',
+    };
+
+    expect(validatePromptVariables(template, variables)).toEqual([]);
+    expect(resolvePromptTemplate('adaptive_hint')).toMatchObject({ template: { id: 'adaptive_hint.v1' }, assignment: 'default' });
+    const prompt = renderPromptTemplate(template, variables);
+    expect(prompt).toContain('helping a learner with: "Older users"');
+    expect(prompt).toContain('Learner state:\n- Failed runs: 2\n\nInstruction: Ask a guiding question.');
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('adds the optional revision note only when one is given', () => {
+    const template = getPromptTemplate('explanation.v1')!;
+    const plain = renderPromptTemplate(template, { sources });
+    const revised = renderPromptTemplate(template, { sources, revision: 'REVISION: leave out the answer.' });
+
+    expect(validatePromptVariables(template, { sources, revision: 'REVISION: leave out the answer.' })).toEqual([]);
+    expect(plain).not.toContain('\n\n');
+    expect(revised.split('\n')).toHaveLength(plain.split('\n').length + 1);
+    expect(revised).toContain('REVISION: leave out the answer.\nSources:');
+  });
+});
+
+describe('LLM route prompt templates', () => {
+  it('lists templates without their text, with the variant plans', async () => {
+    const { status, json } = await invoke('get', '/templates');
+
+    expect(status).toBe(200);
+    expect(json.data.templates.map((template: { id: string }) => template.id)).toEqual(
+      PROMPT_TEMPLATES.map((template) => template.id)
+    );
+    expect(json.data.templates[0]).not.toHaveProperty('lines');
+    expect(json.data.variants.explanation.conditions.explanation_first).toEqual(['explanation.v2']);
+  });
+
+  it('generates from a template family for the condition on the learner\'s session', async () => {
+    const { status, json } = await invoke('post', '/generate', {
+      auth: { learnerId: 'learner-7' },
+      body: { template: { id: 'explanation', variables: { sources } } },
+    });
+
+    expect(status).toBe(200);
+    expect(json.data.promptTemplate).toEqual({
+      id: 'explanation.v2',
+      family: 'explanation',
+      version: 2,
+      assignment: 'condition',
+    });
+    expect(json.data.model).toBe('mock-tutor');
+  });
+
+  it('ignores a condition supplied by the client', async () => {
+    const { status, json } = await invoke('post', '/generate', {
+      auth: { learnerId: 'learner-8' },
+      body: {
+        template: { id: 'explanation', variables: { sources } },
+        conditionId: 'explanation_first',
+      },
+    });
+
+    expect(status).toBe(200);
+    expect(json.data.promptTemplate).toMatchObject({ id: 'explanation.v1', assignment: 'default' });
+  });
+
+  it('rejects unknown templates and invalid variables', async () => {
+    const unknown = await invoke('post', '/generate', {
+      body: { template: { id: 'summary', variables: {} } },
+    });
+    expect(unknown.status).toBe(400);
+    expect(unknown.json.message).toBe('Unknown prompt template: summary');
+
+    const invalid = await invoke('post', '/generate/validate', {
+      body: { template: { id: 'explanation.v1', variables: {} } },
+    });
+    expect(invalid.json.data).toEqual({
+      valid: false,
+      errors: ['Invalid variables for explanation.v1: sources is required'],
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/* @vitest-environment node */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getAllUsersMock = vi.fn();
+const getInteractionsByUserMock = vi.fn();
+const getTextbookUnitsByUserMock = vi.fn();
+const getAuthEventsMock = vi.fn();
+const getConsentedLearnerIdsMock = vi.fn();
+const recordResearchExportMock = vi.fn();
+const getInstructorScopedLearnerIdsMock = vi.fn();
+const getUserByIdMock = vi.fn();
+const getInteractionAggregatesByUsersMock = vi.fn();
+const getTextbookUnitCountsByUsersMock = vi.fn();
+
+vi.mock('../../../apps/server/src/db/neon.js', () => ({
+  getAuthEvents: getAuthEventsMock,
+  getUserById: getUserByIdMock,
+  getInteractionsByUser: getInteractionsByUserMock,
+  getTextbookUnitsByUser: getTextbookUnitsByUserMock,
+  getAllUsers: getAllUsersMock,
+  getInteractionAggregatesByUsers: getInteractionAggregatesByUsersMock,
+  getTextbookUnitCountsByUsers: getTextbookUnitCountsByUsersMock,
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  getInstructorScopedLearnerIds: getInstructorScopedLearnerIdsMock,
+}));
+
+vi.mock('../../../apps/server/src/db/research.js', () => ({
+  getConsentedLearnerIds: getConsentedLearnerIdsMock,
+  getResearchExportAudit: vi.fn(),
+  recordResearchExport: recordResearchExportMock,
+}));
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  ACCESS_TOKEN_TTL_SECONDS: 900,
+  REFRESH_TOKEN_TTL_DAYS: 30,
+  RESEARCH_CONSENT_VERSION: 'irb-consent-test',
+  RESEARCH_PSEUDONYM_KEY: 'test-pseudonym-key',
+  RESEARCH_STUDY_ID: 'study-test',
+  RESEARCH_EXPORT_DROP_COLUMNS: [],
+}));
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+function getRouteStack(router: RouterLike, path: string): Function[] {
+  const layer = router.stack?.find((entry) => entry.route?.path === path && entry.route?.methods?.get);
+  const handlers = (layer?.route?.stack ?? []).map((entry) => entry.handle).filter(Boolean) as Function[];
+  if (handlers.length === 0) {
+    throw new Error(`Route handler not found for GET ${path}`);
+  }
+  return handlers;
+}
+
+async function invokeRoute(
+  handlers: Function[],
+  auth: { learnerId: string; role: string },
+  params: Record<string, string> = {},
+): Promise<{ status: number; json: unknown }> {
+  let statusCode = 200;
+  let payload: unknown = null;
+  const req = { method: 'GET', baseUrl: '/api/research', path: '/export', query: {}, params, auth };
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+    setHeader: vi.fn(),
+    send: vi.fn(),
+  };
+
+  for (const handler of handlers) {
+    let proceed = false;
+    await handler(req, res, () => {
+      proceed = true;
+    });
+    if (!proceed) break;
+  }
+  return { status: statusCode, json: payload };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getAllUsersMock.mockResolvedValue([
+    { id: 'learner-consented', name: 'A', role: 'student' },
+    { id: 'learner-declined', name: 'B', role: 'student' },
+    { id: 'instructor-1', name: 'C', role: 'instructor' },
+  ]);
+  getConsentedLearnerIdsMock.mockResolvedValue(['learner-consented']);
+  getInteractionsByUserMock.mockImplementation(async (learnerId: string) => ({
+    interactions: [{ id: `evt-${learnerId}`, learnerId, eventType: 'execution', problemId: 'p1' }],
+  }));
+  getTextbookUnitsByUserMock.mockResolvedValue([]);
+  getAuthEventsMock.mockResolvedValue([
+    { id: 'auth-1', learnerId: 'learner-consented' },
+    { id: 'auth-2', learnerId: 'learner-declined' },
+  ]);
+});
+
+describe('research consent contract', () => {
+  it('exports only consenting learners and records the export in the audit log', async () => {
+    const { researchRouter } = await import('../../../apps/server/src/routes/research');
+    const handlers = getRouteStack(researchRouter as unknown as RouterLike, '/export');
+
+    const result = await invokeRoute(handlers, { learnerId: 'researcher-1', role: 'researcher' });
+
+    expect(result.status).toBe(200);
+    const data = (result.json as { data: Record<string, any> }).data;
+    expect(data.learners.map((learner: { id: string }) => learner.id)).toEqual(['learner-consented']);
+    expect(data.interactions.map((event: { learnerId: string }) => event.learnerId)).toEqual(['learner-consented']);
+    expect(data.authEvents.map((event: { id: string }) => event.id)).toEqual(['auth-1']);
+    expect(data.exportMetadata.consent).toEqual({
+      required: true,
+      currentVersion: 'irb-consent-test',
+      excludedLearnerCount: 1,
+    });
+    expect(getInteractionsByUserMock).not.toHaveBeenCalledWith('learner-declined', expect.anything());
+    expect(recordResearchExportMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorUserId: 'researcher-1',
+        actorRole: 'researcher',
+        channel: 'api',
+        format: 'json',
+        learnerCount: 1,
+        excludedLearnerCount: 1,
+        interactionCount: 1,
+      }),
+    );
+  });
+
+  it('rejects instructors from the research export', async () => {
+    const { researchRouter } = await import('../../../apps/server/src/routes/research');
+    const handlers = getRouteStack(researchRouter as unknown as RouterLike, '/export');
+
+    const result = await invokeRoute(handlers, { learnerId: 'instructor-1', role: 'instructor' });
+
+    expect(result.status).toBe(403);
+    expect(result.json).toEqual({ success: false, error: 'Researcher role required' });
+    expect(recordResearchExportMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('research consent for instructors', () => {
+  const instructor = { learnerId: 'instructor-1', role: 'instructor' };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    getInstructorScopedLearnerIdsMock.mockResolvedValue(['learner-consented', 'learner-declined']);
+  });
+
+  it('lists only consenting learners from their sections and audits the read', async () => {
+    const { researchRouter } = await import('../../../apps/server/src/routes/research');
+    const handlers = getRouteStack(researchRouter as unknown as RouterLike, '/learners');
+
+    const result = await invokeRoute(handlers, instructor);
+
+    expect(result.status).toBe(200);
+    const data = (result.json as { data: Array<{ id: string }> }).data;
+    expect(data.map((learner) => learner.id)).toEqual(['learner-consented']);
+    expect(getInteractionsByUserMock).not.toHaveBeenCalledWith('learner-declined', expect.anything());
+    expect(recordResearchExportMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorUserId: 'instructor-1',
+        actorRole: 'instructor',
+        format: 'learners',
+        learnerCount: 1,
+        excludedLearnerCount: 1,
+        interactionCount: 1,
+      }),
+    );
+  });
+
+  it('aggregates only consenting learners', async () => {
+    const { researchRouter } = await import('../../../apps/server/src/routes/research');
+    const handlers = getRouteStack(researchRouter as unknown as RouterLike, '/aggregates');
+    getInteractionAggregatesByUsersMock.mockResolvedValue({ totalCount: 4, interactionsByType: {} });
+    getTextbookUnitCountsByUsersMock.mockResolvedValue(new Map());
+
+    const result = await invokeRoute(handlers, instructor);
+
+    expect(result.status).toBe(200);
+    expect(getInteractionAggregatesByUsersMock).toHaveBeenCalledWith(['learner-consented']);
+    expect((result.json as { data: { totalLearners: number } }).data.totalLearners).toBe(1);
+    expect(recordResearchExportMock).toHaveBeenCalledWith(
+      expect.objectContaining({ format: 'aggregates', learnerCount: 1, excludedLearnerCount: 1, interactionCount: 4 }),
+    );
+  });
+
+  it('denies the trajectory of a learner in their section without consent', async () => {
+    const { researchRouter } = await import('../../../apps/server/src/routes/research');
+    const handlers = getRouteStack(researchRouter as unknown as RouterLike, '/learner/:id/trajectory');
+
+    const declined = await invokeRoute(handlers, instructor, { id: 'learner-declined' });
+    expect(declined.status).toBe(403);
+    expect(getUserByIdMock).not.toHaveBeenCalled();
+    expect(recordResearchExportMock).not.toHaveBeenCalled();
+
+    getUserByIdMock.mockResolvedValue({ id: 'learner-consented', name: 'A', role: 'student' });
+    const consented = await invokeRoute(handlers, instructor, { id: 'learner-consented' });
+    expect(consented.status).toBe(200);
+    expect(recordResearchExportMock).toHaveBeenCalledWith(
+      expect.objectContaining({ format: 'trajectory', filters: { learnerId: 'learner-consented' }, learnerCount: 1 }),
+    );
+  });
+});
@@ -0,0 +1,265 @@
+/* @vitest-environment node */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getAllUsersMock = vi.fn();
+const getInteractionsByUserMock = vi.fn();
+const getTextbookUnitsByUserMock = vi.fn();
+const getAuthEventsMock = vi.fn();
+const getConsentedLearnerIdsMock = vi.fn();
+const recordResearchExportMock = vi.fn();
+const getInstructorScopedLearnerIdsMock = vi.fn();
+
+vi.mock('../../../apps/server/src/db/neon.js', () => ({
+  getAuthEvents: getAuthEventsMock,
+  getUserById: vi.fn(),
+  getInteractionsByUser: getInteractionsByUserMock,
+  getTextbookUnitsByUser: getTextbookUnitsByUserMock,
+  getAllUsers: getAllUsersMock,
+  getInteractionAggregatesByUsers: vi.fn(),
+  getTextbookUnitCountsByUsers: vi.fn(),
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  getInstructorScopedLearnerIds: getInstructorScopedLearnerIdsMock,
+}));
+
+vi.mock('../../../apps/server/src/db/research.js', () => ({
+  getConsentedLearnerIds: getConsentedLearnerIdsMock,
+  getResearchExportAudit: vi.fn(),
+  recordResearchExport: recordResearchExportMock,
+}));
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  ACCESS_TOKEN_TTL_SECONDS: 900,
+  REFRESH_TOKEN_TTL_DAYS: 30,
+  RESEARCH_CONSENT_VERSION: 'irb-consent-test',
+  RESEARCH_PSEUDONYM_KEY: 'test-pseudonym-key',
+  RESEARCH_STUDY_ID: 'study-a',
+  RESEARCH_EXPORT_DROP_COLUMNS: ['code'],
+}));
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+function getRouteStack(router: RouterLike, path: string): Function[] {
+  const layer = router.stack?.find((entry) => entry.route?.path === path && entry.route?.methods?.get);
+  const handlers = (layer?.route?.stack ?? []).map((entry) => entry.handle).filter(Boolean) as Function[];
+  if (handlers.length === 0) {
+    throw new Error(`Route handler not found for GET ${path}`);
+  }
+  return handlers;
+}
+
+async function invokeRoute(
+  handlers: Function[],
+  auth: { learnerId: string; role: string },
+  query: Record<string, string> = {},
+): Promise<{ status: number; json: unknown }> {
+  let statusCode = 200;
+  let payload: unknown = null;
+  const req = { method: 'GET', baseUrl: '/api/research', path: '/export', query, params: {}, auth };
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+    setHeader: vi.fn(),
+    send: vi.fn(),
+  };
+
+  for (const handler of handlers) {
+    let proceed = false;
+    await handler(req, res, () => {
+      proceed = true;
+    });
+    if (!proceed) break;
+  }
+  return { status: statusCode, json: payload };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getAllUsersMock.mockResolvedValue([
+    { id: 'learner-1', name: 'Ada Lovelace', role: 'student', createdAt: 't0', updatedAt: 't0' },
+  ]);
+  getConsentedLearnerIdsMock.mockResolvedValue(['learner-1']);
+  getInteractionsByUserMock.mockResolvedValue({
+    interactions: [
+      {
+        id: 'evt-1',
+        learnerId: 'learner-1',
+        sectionId: 'section-1',
+        sessionId: 'session-1',
+        eventType: 'chat_interaction',
+        problemId: 'p1',
+        code: 'SELECT 1',
+        chatMessage: 'I am Ada, mail me at ada@example.edu',
+      },
+    ],
+  });
+  getTextbookUnitsByUserMock.mockResolvedValue([]);
+  getAuthEventsMock.mockResolvedValue([
+    { id: 'auth-1', learnerId: 'learner-1', accountId: 'learner-1', emailHash: 'abc' },
+  ]);
+});
+
+describe('research export pseudonymization', () => {
+  it('derives stable, study-scoped pseudonyms', async () => {
+    const { pseudonymizeId } = await import('../../../apps/server/src/research-pseudonymization');
+    const studyA = { key: 'k', studyId: 'study-a' };
+
+    expect(pseudonymizeId('learner-1', studyA)).toBe(pseudonymizeId('learner-1', studyA));
+    expect(pseudonymizeId('learner-1', studyA)).not.toBe(pseudonymizeId('learner-2', studyA));
+    expect(pseudonymizeId('learner-1', studyA)).not.toBe(pseudonymizeId('learner-1', { key: 'k', studyId: 'study-b' }));
+    expect(pseudonymizeId('learner-1', studyA)).toMatch(/^p_[0-9a-f]{24}$/);
+  });
+
+  it('scrubs emails and learner names from free text', async () => {
+    const { scrubFreeText } = await import('../../../apps/server/src/research-pseudonymization');
+
+    expect(scrubFreeText('Ada Lovelace (ada@example.edu) asked; lovelace again', ['Ada Lovelace'])).toBe(
+      '[name] ([email]) asked; [name] again'
+    );
+    expect(scrubFreeText('SELECT name FROM adams', ['Ada'])).toBe('SELECT name FROM adams');
+  });
+
+  it('keeps SQL intact for learners named after SQL keywords', async () => {
+    const { createInteractionPseudonymizer, createTextbookUnitPseudonymizer } = await import(
+      '../../../apps/server/src/research-pseudonymization'
+    );
+    const options = { key: 'k', studyId: 'study-a', dropColumns: [], knownNames: ['Max Case', 'Ada Lovelace'] };
+    const pseudonymize = createInteractionPseudonymizer(options);
+
+    const event = pseudonymize({
+      id: 'evt-1',
+      learnerId: 'learner-1',
+      timestamp: 't0',
+      eventType: 'execution',
+      problemId: 'p1',
+      code: "SELECT MAX(salary), CASE WHEN dept = 'Ada' THEN 1 END FROM employees -- max@example.edu",
+      error: 'misuse of aggregate function max()',
+      chatMessage: 'Max Case and Ada asked about COUNT',
+      payload: { code: 'SELECT COUNT(*) FROM lovelace', note: 'from Ada Lovelace' },
+    } as never);
+
+    expect(event.code).toBe("SELECT MAX(salary), CASE WHEN dept = 'Ada' THEN 1 END FROM employees -- [email]");
+    expect(event.error).toBe('misuse of aggregate function max()');
+    expect(event.chatMessage).toBe('[name] and [name] asked about COUNT');
+    expect(event.payload).toEqual({ code: 'SELECT COUNT(*) FROM lovelace', note: 'from [name]' });
+
+    const unit = createTextbookUnitPseudonymizer(options)({
+      id: 'unit-1',
+      learnerId: 'learner-1',
+      title: 'Notes by Max Case',
+      content: 'Use MAX with GROUP BY',
+    } as never);
+    expect(unit.title).toBe('Notes by [name]');
+    expect(unit.content).toBe('Use MAX with GROUP BY');
+  });
+
+  it('pseudonymizes identifiers nested in payloads and metadata', async () => {
+    const { createInteractionPseudonymizer, pseudonymizeId } = await import(
+      '../../../apps/server/src/research-pseudonymization'
+    );
+    const options = { key: 'k', studyId: 'study-a', dropColumns: [], knownNames: [] };
+
+    const event = createInteractionPseudonymizer(options)({
+      id: 'evt-1',
+      learnerId: 'learner-1',
+      sessionId: 'session-1',
+      timestamp: 't0',
+      eventType: 'execution',
+      problemId: 'p1',
+      payload: {
+        learnerId: 'learner-1',
+        sessionId: 'session-1',
+        context: { userId: 'learner-1', section_id: 'section-9', peers: [{ learnerId: 'learner-2' }] },
+        problemId: 'p1',
+      },
+      metadata: { accountId: 'account-1', sectionId: 'section-9' },
+      inputs: { learnerIds: ['learner-3'], learnerId: ['learner-4'] },
+    } as never);
+
+    const id = (value: string) => pseudonymizeId(value, options);
+    expect(event.payload).toEqual({
+      learnerId: id('learner-1'),
+      sessionId: id('session-1'),
+      context: { userId: id('learner-1'), section_id: id('section-9'), peers: [{ learnerId: id('learner-2') }] },
+      problemId: 'p1',
+    });
+    expect(event.metadata).toEqual({ accountId: id('account-1'), sectionId: id('section-9') });
+    expect(event.inputs).toEqual({ learnerIds: ['learner-3'], learnerId: [id('learner-4')] });
+    expect(JSON.stringify(event)).not.toMatch(/learner-1|session-1|section-9|account-1/);
+  });
+
+  it('documents every interaction field in the data dictionary', async () => {
+    const { buildInteractionDataDictionary, INTERACTION_EXPORT_FIELDS } = await import(
+      '../../../apps/server/src/research-pseudonymization'
+    );
+
+    const dictionary = buildInteractionDataDictionary({ studyId: 'study-a', pseudonymized: true, dropColumns: ['code'] });
+    const byField = Object.fromEntries(dictionary.fields.map((entry) => [entry.field, entry]));
+
+    expect(dictionary.fields).toHaveLength(INTERACTION_EXPORT_FIELDS.length);
+    expect(byField.learnerId.treatment).toBe('pseudonymized');
+    expect(byField.chatMessage.treatment).toBe('scrubbed');
+    expect(byField.code.treatment).toBe('dropped');
+    expect(byField.eventType.treatment).toBe('preserved');
+    expect(dictionary.fields.every((entry) => entry.description.length > 0)).toBe(true);
+  });
+
+  it('pseudonymizes the research export when requested', async () => {
+    const { pseudonymizeId } = await import('../../../apps/server/src/research-pseudonymization');
+    const { researchRouter } = await import('../../../apps/server/src/routes/research');
+    const handlers = getRouteStack(researchRouter as unknown as RouterLike, '/export');
+
+    const result = await invokeRoute(handlers, { learnerId: 'researcher-1', role: 'researcher' }, { pseudonymize: 'true' });
+
+    expect(result.status).toBe(200);
+    const data = (result.json as { data: Record<string, any> }).data;
+    const options = { key: 'test-pseudonym-key', studyId: 'study-a' };
+    expect(data.learners).toEqual([
+      { id: pseudonymizeId('learner-1', options), role: 'student', createdAt: 't0', updatedAt: 't0' },
+    ]);
+    const [event] = data.interactions;
+    expect(event.learnerId).toBe(pseudonymizeId('learner-1', options));
+    expect(event.sectionId).toBe(pseudonymizeId('section-1', options));
+    expect(event.sessionId).toBe(pseudonymizeId('session-1', options));
+    expect(event.chatMessage).toBe('I am [name], mail me at [email]');
+    expect(event).not.toHaveProperty('code');
+    expect(data.authEvents[0]).not.toHaveProperty('emailHash');
+    expect(data.exportMetadata.pseudonymization).toEqual({
+      enabled: true,
+      studyId: 'study-a',
+      droppedColumns: ['code'],
+    });
+    expect(data.dataDictionary.fields.find((entry: { field: string }) => entry.field === 'code').treatment).toBe('dropped');
+    expect(recordResearchExportMock).toHaveBeenCalledWith(
+      expect.objectContaining({ filters: expect.objectContaining({ pseudonymize: true, dropColumns: ['code'] }) }),
+    );
+  });
+
+  it('keeps raw ids without the option and rejects unknown drop columns', async () => {
+    const { researchRouter } = await import('../../../apps/server/src/routes/research');
+    const handlers = getRouteStack(researchRouter as unknown as RouterLike, '/export');
+
+    const raw = await invokeRoute(handlers, { learnerId: 'researcher-1', role: 'researcher' });
+    const rawData = (raw.json as { data: Record<string, any> }).data;
+    expect(rawData.interactions[0].learnerId).toBe('learner-1');
+    expect(rawData.interactions[0].code).toBe('SELECT 1');
+
+    const invalid = await invokeRoute(
+      handlers,
+      { learnerId: 'researcher-1', role: 'researcher' },
+      { dropColumns: 'code,emailAddress' },
+    );
+    expect(invalid.status).toBe(400);
+    expect(invalid.json).toEqual(expect.objectContaining({ error: 'Validation failed' }));
+  });
+});
@@ -0,0 +1,313 @@
+/* @vitest-environment node */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  RosterCsvError,
+  parseRosterCsv,
+  planRosterImport,
+  summarizeRosterImport,
+} from '../../../apps/server/src/roster-import';
+
+const createUserMock = vi.fn();
+const saveLearnerProfileMock = vi.fn();
+const createAuthAccountMock = vi.fn();
+const createAuthTokenMock = vi.fn();
+const getAuthAccountsByEmailsMock = vi.fn();
+const enrollStudentInSectionMock = vi.fn();
+const getSectionIdsForStudentsMock = vi.fn();
+const getSectionStudentsMock = vi.fn();
+const getTeachingSectionsMock = vi.fn();
+const moveStudentToSectionMock = vi.fn();
+const removeStudentFromSectionMock = vi.fn();
+const getAuthAccountByLearnerIdMock = vi.fn();
+const revokeAuthSessionsForAccountMock = vi.fn();
+const createAuthEventMock = vi.fn();
+const sendEmailMock = vi.fn();
+
+vi.mock('../../../apps/server/src/db/index.js', () => ({
+  createUser: createUserMock,
+}));
+
+vi.mock('../../../apps/server/src/db/neon.js', () => ({
+  getDb: () => ({}),
+  createAuthEvent: createAuthEventMock,
+  saveLearnerProfile: saveLearnerProfileMock,
+}));
+
+vi.mock('../../../apps/server/src/db/auth.js', () => ({
+  createAuthAccount: createAuthAccountMock,
+  createAuthToken: createAuthTokenMock,
+  getAuthAccountByLearnerId: getAuthAccountByLearnerIdMock,
+  getAuthAccountsByEmails: getAuthAccountsByEmailsMock,
+  revokeAuthSessionsForAccount: revokeAuthSessionsForAccountMock,
+}));
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  enrollStudentInSection: enrollStudentInSectionMock,
+  getSectionIdsForStudents: getSectionIdsForStudentsMock,
+  getSectionStudents: getSectionStudentsMock,
+  getTeachingSections: getTeachingSectionsMock,
+  moveStudentToSection: moveStudentToSectionMock,
+  removeStudentFromSection: removeStudentFromSectionMock,
+}));
+
+vi.mock('../../../apps/server/src/middleware/auth.js', () => ({
+  requireInstructor: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+vi.mock('../../../apps/server/src/config.js', () => ({
+  WEB_APP_URL: 'https://app.example.edu',
+}));
+
+vi.mock('../../../apps/server/src/email/index.js', async () => {
+  const templates = await vi.importActual<typeof import('../../../apps/server/src/email/templates')>(
+    '../../../apps/server/src/email/templates'
+  );
+  return {
+    ...templates,
+    getEmailTransport: () => ({ name: 'test', send: sendEmailMock }),
+  };
+});
+
+type RouterLike = {
+  stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean>; stack?: Array<{ handle?: Function }> } }>;
+};
+
+async function invoke(
+  method: 'post' | 'delete',
+  routePath: string,
+  params: Record<string, string>,
+  body: Record<string, unknown> = {},
+): Promise<{ status: number; json: any }> {
+  const { sectionRosterRouter } = await import('../../../apps/server/src/routes/section-roster');
+  const layer = (sectionRosterRouter as unknown as RouterLike).stack?.find(
+    (entry) => entry.route?.path === routePath && entry.route?.methods?.[method]
+  );
+  const stack = layer?.route?.stack;
+  const handler = stack?.[stack.length - 1]?.handle;
+  if (!handler) throw new Error(`Route handler not found for ${method.toUpperCase()} ${routePath}`);
+
+  let statusCode = 200;
+  let payload: unknown = null;
+  const res = {
+    status(code: number) {
+      statusCode = code;
+      return this;
+    },
+    json(data: unknown) {
+      payload = data;
+      return this;
+    },
+  };
+  await handler(
+    { body, params, auth: { accountId: 'account-instructor-1', learnerId: 'instructor-1', role: 'instructor' } },
+    res,
+    vi.fn(),
+  );
+  return { status: statusCode, json: payload };
+}
+
+const section = { id: 'section-1', name: 'Databases 101', instructorUserId: 'instructor-1' };
+const otherSection = { id: 'section-2', name: 'Databases 101 (Lab B)', instructorUserId: 'instructor-1' };
+
+describe('roster CSV parsing', () => {
+  it('maps header aliases, quoted fields and first/last name columns', () => {
+    const csv = [
+      '\uFEFFFirst Name,Last Name,E-mail,SIS User ID',
+      '"Ada","Lovelace, Countess",ADA@example.edu,1001',
+      '',
+      'Alan,Turing,alan@example.edu,',
+    ].join('\r\n');
+
+    const parsed = parseRosterCsv(csv);
+
+    expect(parsed.invalid).toEqual([]);
+    expect(parsed.rows).toEqual([
+      { line: 2, name: 'Ada Lovelace, Countess', email: 'ada@example.edu', studentId: '1001' },
+      { line: 4, name: 'Alan Turing', email: 'alan@example.edu', studentId: null },
+    ]);
+  });
+
+  it('reads name, email, student ID without a header and reports bad rows', () => {
+    const parsed = parseRosterCsv('Grace Hopper,grace@example.edu,42\nNo Email,,7\n,nameless@example.edu,8\n');
+
+    expect(parsed.rows).toEqual([{ line: 1, name: 'Grace Hopper', email: 'grace@example.edu', studentId: '42' }]);
+    expect(parsed.invalid.map((row) => [row.line, row.reason])).toEqual([
+      [2, 'Missing email address'],
+      [3, 'Missing name'],
+    ]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseRosterCsv('email\nx@example.edu')).toThrow(RosterCsvError);
+    expect(() => parseRosterCsv('name,email\n"Ada,ada@example.edu')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('roster import planning', () => {
+  it('classifies new, existing, duplicate and conflicting rows', () => {
+    const rows = [
+      { line: 2, name: 'New Student', email: 'new@example.edu', studentId: '1' },
+      { line: 3, name: 'Returning', email: 'returning@example.edu', studentId: '2' },
+      { line: 4, name: 'Already Here', email: 'here@example.edu', studentId: null },
+      { line: 5, name: 'Elsewhere', email: 'elsewhere@example.edu', studentId: null },
+      { line: 6, name: 'Professor', email: 'prof@example.edu', studentId: null },
+      { line: 7, name: 'New Again', email: 'new@example.edu', studentId: '9' },
+      { line: 8, name: 'Same ID', email: 'sameid@example.edu', studentId: '1' },
+      { line: 9, name: 'Wrong ID', email: 'wrongid@example.edu', studentId: '3' },
+    ];
+    const student = (learnerId: string, externalStudentId: string | null = null) => ({
+      role: 'student' as const,
+      learnerId,
+      externalStudentId,
+    });
+
+    const planned = planRosterImport(rows, {
+      sectionId: 'section-1',
+      accountsByEmail: new Map([
+        ['returning@example.edu', student('l-returning')],
+        ['here@example.edu', student('l-here')],
+        ['elsewhere@example.edu', student('l-elsewhere')],
+        ['prof@example.edu', { role: 'instructor' as const, learnerId: 'l-prof', externalStudentId: null }],
+        ['wrongid@example.edu', student('l-wrongid', '4')],
+      ]),
+      sectionIdsByLearner: new Map([
+        ['l-here', ['section-1']],
+        ['l-elsewhere', ['section-9']],
+      ]),
+    });
+
+    expect(planned.map((row) => row.outcome)).toEqual([
+      'created',
+      'enrolled',
+      'already_enrolled',
+      'conflict',
+      'conflict',
+      'duplicate',
+      'duplicate',
+      'conflict',
+    ]);
+    expect(planned[4].reason).toBe('Email belongs to an account with the instructor role');
+    expect(summarizeRosterImport(planned)).toMatchObject({ created: 1, conflict: 3, duplicate: 2 });
+  });
+});
+
+describe('section roster routes', () => {
+  beforeEach(() => {
+    getTeachingSectionsMock.mockResolvedValue([section, otherSection]);
+    getAuthAccountsByEmailsMock.mockResolvedValue([
+      { email: 'returning@example.edu', role: 'student', learnerId: 'l-returning', externalStudentId: null },
+    ]);
+    getSectionIdsForStudentsMock.mockResolvedValue(new Map());
+    getSectionStudentsMock.mockResolvedValue([]);
+    createAuthAccountMock.mockImplementation(async (_db, params) => ({ id: 'account-new', ...params }));
+    createAuthTokenMock.mockResolvedValue('activation-token');
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  const csv = 'name,email,student id\nNew Student,new@example.edu,1\nReturning,returning@example.edu,2\nBroken,not-an-email,3';
+
+  it('previews an import without writing anything', async () => {
+    const result = await invoke('post', '/:id/roster/import', { id: 'section-1' }, { csv, dryRun: true });
+
+    expect(result.status).toBe(200);
+    expect(result.json.data.dryRun).toBe(true);
+    expect(result.json.data.summary).toMatchObject({ created: 1, enrolled: 1, invalid: 1 });
+    expect(createUserMock).not.toHaveBeenCalled();
+    expect(enrollStudentInSectionMock).not.toHaveBeenCalled();
+    expect(sendEmailMock).not.toHaveBeenCalled();
+  });
+
+  it('creates pending accounts, enrolls everyone and emails activation links', async () => {
+    const result = await invoke('post', '/:id/roster/import', { id: 'section-1' }, { csv });
+
+    expect(result.status).toBe(200);
+    expect(createAuthAccountMock).toHaveBeenCalledWith({}, expect.objectContaining({
+      email: 'new@example.edu',
+      role: 'student',
+      pendingActivation: true,
+      externalStudentId: '1',
+    }));
+    expect(enrollStudentInSectionMock).toHaveBeenCalledTimes(2);
+    expect(enrollStudentInSectionMock).toHaveBeenCalledWith({ sectionId: 'section-1', studentUserId: 'l-returning' });
+    expect(createAuthTokenMock).toHaveBeenCalledWith({}, expect.objectContaining({ purpose: 'account_activation' }));
+    expect(sendEmailMock).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'new@example.edu',
+      text: expect.stringContaining('https://app.example.edu/activate?token=activation-token'),
+    }));
+    const created = result.json.data.rows.find((row: { email: string }) => row.email === 'new@example.edu');
+    expect(created).toMatchObject({ outcome: 'created', activationEmailSent: true });
+  });
+
+  it('only imports into sections the instructor teaches', async () => {
+    const result = await invoke('post', '/:id/roster/import', { id: 'section-other' }, { csv });
+
+    expect(result.status).toBe(404);
+    expect(getAuthAccountsByEmailsMock).not.toHaveBeenCalled();
+  });
+
+  it('moves students only between the instructor\'s sections', async () => {
+    const rejected = await invoke(
+      'post',
+      '/:id/roster/:learnerId/move',
+      { id: 'section-1', learnerId: 'l-returning' },
+      { targetSectionId: 'section-foreign' },
+    );
+    expect(rejected.status).toBe(404);
+    expect(moveStudentToSectionMock).not.toHaveBeenCalled();
+
+    moveStudentToSectionMock.mockResolvedValue({ id: 1, sectionId: 'section-2', studentUserId: 'l-returning' });
+    const moved = await invoke(
+      'post',
+      '/:id/roster/:learnerId/move',
+      { id: 'section-1', learnerId: 'l-returning' },
+      { targetSectionId: 'section-2' },
+    );
+    expect(moved.status).toBe(200);
+    expect(moveStudentToSectionMock).toHaveBeenCalledWith({
+      fromSectionId: 'section-1',
+      toSectionId: 'section-2',
+      studentUserId: 'l-returning',
+    });
+  });
+
+  it('signs a student in the section out of every device', async () => {
+    getSectionStudentsMock.mockResolvedValue([{ learnerId: 'l-returning' }]);
+    getAuthAccountByLearnerIdMock.mockResolvedValue({
+      id: 'account-returning',
+      email: 'returning@example.edu',
+      role: 'student',
+      learnerId: 'l-returning',
+    });
+    revokeAuthSessionsForAccountMock.mockResolvedValue(2);
+
+    const outsider = await invoke('post', '/:id/roster/:learnerId/sessions/revoke', { id: 'section-1', learnerId: 'l-other' });
+    expect(outsider.status).toBe(404);
+    expect(revokeAuthSessionsForAccountMock).not.toHaveBeenCalled();
+
+    const result = await invoke('post', '/:id/roster/:learnerId/sessions/revoke', { id: 'section-1', learnerId: 'l-returning' });
+
+    expect(result.status).toBe(200);
+    expect(result.json.data).toEqual({ revoked: 2 });
+    expect(revokeAuthSessionsForAccountMock).toHaveBeenCalledWith({}, 'account-returning', 'staff_revoked');
+    expect(createAuthEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'session_revoked',
+      accountId: 'account-returning',
+      actorAccountId: 'account-instructor-1',
+    }));
+  });
+
+  it('removes a student from the section', async () => {
+    removeStudentFromSectionMock.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const removed = await invoke('delete', '/:id/roster/:learnerId', { id: 'section-1', learnerId: 'l-returning' });
+    const missing = await invoke('delete', '/:id/roster/:learnerId', { id: 'section-1', learnerId: 'l-returning' });
+
+    expect(removed.status).toBe(200);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,108 @@
+/* @vitest-environment node */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getSectionForLearnerInInstructorScopeMock = vi.fn();
+
+vi.mock('../../../apps/server/src/db/sections.js', () => ({
+  getSectionForLearnerInInstructorScope: getSectionForLearnerInInstructorScopeMock,
+}));
+
+type Middleware = (req: Record<string, unknown>, res: Record<string, unknown>, next: () => void) => void;
+
+async function invokeMiddleware(
+  middleware: Middleware,
+  options: { method: string; role: string; learnerId?: string },
+): Promise<{ status: number; json: unknown; nextCalled: boolean }> {
+  let statusCode = 200;
+  let payload: unknown = null;
+  let nextCalled = false;
+  const req = {
+    method: options.method,
+    baseUrl: '/api/learners',
+    path: `/${options.learnerId ?? 'learner-1'}/profile`,
+    params: { learnerId: options.learnerId ?? 'learner-1' },
+    query: {},
+    auth: { learnerId: 'staff-1', role: options.role },
+  } as Record<string, unknown>;
+
+  await new Promise<void>((resolve) => {
+    const res = {
+      status(code: number) {
+        statusCode = code;
+        return this;
+      },
+      json(data: unknown) {
+        payload = data;
+        resolve();
+        return this;
+      },
+    } as Record<string, unknown>;
+    middleware(req, res, () => {
+      nextCalled = true;
+      resolve();
+    });
+  });
+
+  return { status: statusCode, json: payload, nextCalled };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getSectionForLearnerInInstructorScopeMock.mockResolvedValue({ id: 'section-1', name: 'Section 1' });
+});
+
+describe('section staff access contract', () => {
+  it('lets TAs read learners in their staffed sections', async () => {
+    const { requireOwnership } = await import('../../../apps/server/src/middleware/auth');
+
+    const result = await invokeMiddleware(requireOwnership as unknown as Middleware, { method: 'GET', role: 'ta' });
+
+    expect(result.nextCalled).toBe(true);
+    expect(getSectionForLearnerInInstructorScopeMock).toHaveBeenCalledWith({
+      instructorUserId: 'staff-1',
+      learnerId: 'learner-1',
+    });
+  });
+
+  it('rejects TA writes against other learners before any scope lookup', async () => {
+    const { requireOwnership, requireSectionAccess } = await import('../../../apps/server/src/middleware/auth');
+
+    for (const middleware of [requireOwnership, requireSectionAccess]) {
+      const result = await invokeMiddleware(middleware as unknown as Middleware, { method: 'PUT', role: 'ta' });
+      expect(result.nextCalled).toBe(false);
+      expect(result.status).toBe(403);
+      expect(result.json).toEqual({
+        success: false,
+        error: 'Access denied: teaching assistants have read-only access',
+      });
+    }
+    expect(getSectionForLearnerInInstructorScopeMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps instructor writes scoped to their sections', async () => {
+    const { requireSectionAccess } = await import('../../../apps/server/src/middleware/auth');
+    getSectionForLearnerInInstructorScopeMock.mockResolvedValue(null);
+
+    const result = await invokeMiddleware(requireSectionAccess as unknown as Middleware, {
+      method: 'POST',
+      role: 'instructor',
+    });
+
+    expect(result.status).toBe(403);
+    expect(result.json).toEqual({ success: false, error: 'Access denied: learner not in your section' });
+  });
+
+  it('admits instructors and TAs but not students to staff routes', async () => {
+    const { requireStaff } = await import('../../../apps/server/src/middleware/auth');
+
+    for (const role of ['instructor', 'ta']) {
+      const result = await invokeMiddleware(requireStaff as unknown as Middleware, { method: 'GET', role });
+      expect(result.nextCalled).toBe(true);
+    }
+
+    const student = await invokeMiddleware(requireStaff as unknown as Middleware, { method: 'GET', role: 'student' });
+    expect(student.status).toBe(403);
+    expect(student.json).toEqual({ success: false, error: 'Instructor or TA role required' });
+  });
+});
@@ -0,0 +1,76 @@
+/* @vitest-environment node */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let dbDir: string;
+let dbPath: string;
+
+async function loadSqlite() {
+  vi.resetModules();
+  vi.stubEnv('DATABASE_PATH', dbPath);
+  return import('../../../apps/server/src/db/sqlite.js');
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sql-adapt-schema-'));
+  dbPath = path.join(dbDir, 'sql-adapt.db');
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  fs.rmSync(dbDir, { recursive: true, force: true });
+});
+
+describe('SQLite learners role check', () => {
+  it('accepts every role on a fresh database', async () => {
+    const sqlite = await loadSqlite();
+    await sqlite.initializeSchema();
+
+    for (const role of ['student', 'instructor', 'ta', 'researcher'] as const) {
+      await expect(sqlite.createLearner(`${role}-1`, { name: role, role })).resolves.toMatchObject({ role });
+    }
+    await sqlite.closeDb();
+  });
+
+  it('rebuilds a pre-staff-roles learners table without losing learners or their data', async () => {
+    const sqlite = await loadSqlite();
+    const legacy = sqlite.getDb();
+    await new Promise<void>((resolve, reject) => legacy.exec(`
+      CREATE TABLE learners (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('student', 'instructor')),
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE interactions (
+        id TEXT PRIMARY KEY,
+        learner_id TEXT NOT NULL,
+        session_id TEXT,
+        timestamp TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        problem_id TEXT NOT NULL,
+        payload TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (learner_id) REFERENCES learners(id) ON DELETE CASCADE
+      );
+      INSERT INTO learners VALUES ('learner-1', 'Ada', 'student', '2026-01-01', '2026-01-01');
+      INSERT INTO interactions (id, learner_id, timestamp, event_type, problem_id, created_at)
+        VALUES ('evt-1', 'learner-1', '2026-01-01', 'execution', 'p1', '2026-01-01');
+    `, (err) => (err ? reject(err) : resolve())));
+
+    await sqlite.initializeSchema();
+    await sqlite.initializeSchema();
+
+    await expect(sqlite.getLearnerById('learner-1')).resolves.toMatchObject({ name: 'Ada', role: 'student' });
+    await expect(sqlite.createLearner('ta-1', { name: 'Grace', role: 'ta' })).resolves.toMatchObject({ role: 'ta' });
+    const interactions = await sqlite.getInteractionsByLearner('learner-1');
+    expect(interactions.map((interaction) => interaction.id)).toEqual(['evt-1']);
+    await sqlite.closeDb();
+  });
+});
@@ -53,6 +53,7 @@ vi.mock('../../../apps/web/src/app/lib/api/csrf-client', () => ({
   getCsrfHeaders: () => ({}),
   isMutatingMethod: (method?: string) => ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method || ''),
   refreshCsrfTokenFromAuthMe: vi.fn(async () => true),
+  refreshAuthSession: vi.fn(async () => false),
 }));
 
 // =============================================================================